@@ -17,7 +17,9 @@ import Register from './pages/Register';
 // Lazy loading para páginas pesadas (carregadas sob demanda)
 const Dashboard = lazy(() => import('./pages/Dashboard'));
 const Appointments = lazy(() => import('./pages/Appointments'));
+const Calendar = lazy(() => import('./pages/Calendar'));
 const Reports = lazy(() => import('./pages/Reports'));
+const Receivables = lazy(() => import('./pages/Receivables'));
 const Clinics = lazy(() => import('./pages/Clinics'));
 const Patients = lazy(() => import('./pages/Patients'));
 const PatientDetails = lazy(() => import('./pages/PatientDetails'));
@@ -83,11 +85,21 @@ const App: React.FC = () => {
                                                             <Appointments />
                                                         </Suspense>
                                                     } />
+                                                    <Route path="calendar" element={
+                                                        <Suspense fallback={<PageLoadingFallback />}>
+                                                            <Calendar />
+                                                        </Suspense>
+                                                    } />
                                                     <Route path="reports" element={
                                                         <Suspense fallback={<PageLoadingFallback />}>
                                                             <Reports />
                                                         </Suspense>
                                                     } />
+                                                    <Route path="receivables" element={
+                                                        <Suspense fallback={<PageLoadingFallback />}>
+                                                            <Receivables />
+                                                        </Suspense>
+                                                    } />
                                                     <Route path="clinics" element={
                                                         <Suspense fallback={<PageLoadingFallback />}>
                                                             <Clinics />
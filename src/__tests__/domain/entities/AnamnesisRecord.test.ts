@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { AnamnesisRecord, AnamnesisAnswer } from '../../../domain/entities/AnamnesisRecord';
+import { AnamnesisTemplate, AnamnesisQuestion } from '../../../domain/entities/AnamnesisTemplate';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('AnamnesisRecord', () => {
+    const questions: AnamnesisQuestion[] = [
+        { id: 'allergies', label: 'Possui alergia?', type: 'boolean', critical: true, alertLabel: 'Alergia' },
+        { id: 'pregnancy', label: 'Está grávida?', type: 'boolean', critical: true },
+        { id: 'medications', label: 'Medicamentos em uso', type: 'text', critical: false }
+    ];
+
+    const createRecord = (answers: AnamnesisAnswer[], createdAt = '2030-01-31T12:00:00.000Z') =>
+        AnamnesisRecord.create({ patientId: 'patient-1', version: 1, questions, answers, createdAt });
+
+    const noAnswers: AnamnesisAnswer[] = [
+        { questionId: 'allergies', value: false },
+        { questionId: 'pregnancy', value: false }
+    ];
+
+    it('should turn "yes" answers to critical questions into alerts', () => {
+        const record = createRecord([
+            { questionId: 'allergies', value: true, details: '  dipirona ' },
+            { questionId: 'pregnancy', value: true },
+            { questionId: 'medications', value: 'Losartana' }
+        ]);
+
+        expect(record.alerts).toEqual([
+            { questionId: 'allergies', label: 'Alergia', details: 'dipirona' },
+            { questionId: 'pregnancy', label: 'Está grávida?', details: null }
+        ]);
+        expect(createRecord(noAnswers).hasAlerts).toBe(false);
+    });
+
+    it('should require every yes/no question and reject answers of the wrong type', () => {
+        expect(() => createRecord([{ questionId: 'allergies', value: false }])).toThrow(DomainError);
+        expect(() => createRecord([...noAnswers, { questionId: 'medications', value: true }])).toThrow(DomainError);
+        expect(() => createRecord([...noAnswers, { questionId: 'unknown', value: 'x' }])).toThrow(DomainError);
+        expect(() => createRecord([...noAnswers, { questionId: 'allergies', value: true }])).toThrow(DomainError);
+    });
+
+    it('should be due for review after the configured number of months', () => {
+        const record = createRecord(noAnswers);
+
+        expect(record.nextReviewDate(6)).toBe('2030-07-31');
+        expect(record.isReviewDue(6, '2030-07-30')).toBe(false);
+        expect(record.isReviewDue(6, '2030-07-31')).toBe(true);
+    });
+
+    it('should date an evening review by the local day', () => {
+        const timezone = process.env.TZ;
+        process.env.TZ = 'America/Sao_Paulo';
+        try {
+            // 21:30 em São Paulo, já dia 1º em UTC
+            const record = createRecord(noAnswers, '2030-02-01T00:30:00.000Z');
+
+            expect(record.reviewedOn).toBe('2030-01-31');
+            expect(record.nextReviewDate(6)).toBe('2030-07-31');
+        } finally {
+            process.env.TZ = timezone;
+        }
+    });
+
+    it('should keep its own copy of the questions through JSON', () => {
+        const record = AnamnesisRecord.fromJSON(createRecord([{ questionId: 'allergies', value: true }, { questionId: 'pregnancy', value: false }]).toJSON());
+
+        expect(record.questions).toEqual(questions.map(q => ({ ...q, alertLabel: q.alertLabel ?? null })));
+        expect(record.answerFor('allergies')?.value).toBe(true);
+    });
+});
+
+describe('AnamnesisTemplate', () => {
+    it('should start with the default endodontic questionnaire', () => {
+        const template = AnamnesisTemplate.create();
+
+        expect(template.questions.map(q => q.id)).toEqual(expect.arrayContaining(['allergies', 'anticoagulants', 'bisphosphonates', 'pregnancy', 'anesthetic_reaction']));
+        expect(template.reviewIntervalMonths).toBe(6);
+    });
+
+    it('should reject duplicated questions and invalid review intervals', () => {
+        const question: AnamnesisQuestion = { id: 'a', label: 'A?', type: 'boolean', critical: false };
+
+        expect(() => AnamnesisTemplate.create({ questions: [question, question] })).toThrow(DomainError);
+        expect(() => AnamnesisTemplate.create({ questions: [] })).toThrow(DomainError);
+        expect(() => AnamnesisTemplate.create({ reviewIntervalMonths: 0 })).toThrow(DomainError);
+        expect(() => AnamnesisTemplate.create({ reviewIntervalMonths: 2.5 })).toThrow(DomainError);
+    });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { Appointment } from '../../../domain/entities/Appointment';
 import { DomainError } from '../../../domain/errors/AppError';
+import { CancellationPolicy } from '../../../domain/value-objects/CancellationPolicy';
+import { CommissionRule } from '../../../domain/entities/CommissionRule';
 
 describe('Appointment Entity', () => {
     describe('create', () => {
@@ -78,6 +80,138 @@ describe('Appointment Entity', () => {
         });
     });
 
+    describe('applyPayments', () => {
+        const createAppointment = () => {
+            const tomorrow = new Date();
+            tomorrow.setDate(tomorrow.getDate() + 1);
+
+            return Appointment.create({
+                patientId: 'patient-123',
+                clinicId: 'clinic-1',
+                date: tomorrow.toISOString().split('T')[0],
+                time: '14:30',
+                procedure: 'Consulta',
+                value: 300
+            });
+        };
+
+        it('should become partial while there is a remaining balance', () => {
+            const appointment = createAppointment();
+
+            appointment.applyPayments(100, '2030-01-10');
+
+            expect(appointment.paymentStatus).toBe('partial');
+            expect(appointment.isPaid).toBe(false);
+            expect(appointment.remainingBalance).toBe(200);
+            expect(appointment.status).toBe('pending');
+        });
+
+        it('should become paid on the date of the last payment once settled', () => {
+            const appointment = createAppointment();
+
+            appointment.applyPayments(300, '2030-01-10');
+
+            expect(appointment.paymentStatus).toBe('paid');
+            expect(appointment.remainingBalance).toBe(0);
+            expect(appointment.paymentDateString).toBe('2030-01-10');
+        });
+
+        it('should go back to pending when payments are removed', () => {
+            const appointment = createAppointment();
+            appointment.applyPayments(300, '2030-01-10');
+
+            appointment.applyPayments(0, null);
+
+            expect(appointment.paymentStatus).toBe('pending');
+            expect(appointment.paymentDate).toBeNull();
+            expect(appointment.toJSON().amount_paid).toBe(0);
+        });
+    });
+
+    describe('applyCommissionRule', () => {
+        const createAppointment = () => Appointment.create({
+            patientId: 'patient-123',
+            clinicId: 'clinic-1',
+            date: '2030-01-10',
+            time: '14:30',
+            procedure: 'Consulta',
+            value: 300
+        });
+        const rule = CommissionRule.create({
+            clinicId: 'clinic-1',
+            paymentType: 'fixed',
+            paymentFixedAmount: 120,
+            effectiveFrom: '2030-01-01'
+        });
+
+        it('should copy the rule terms and keep a reference to it', () => {
+            const appointment = createAppointment();
+
+            appointment.applyCommissionRule(rule);
+
+            expect(appointment.calculateReceivedValue().amount).toBe(120);
+            expect(appointment.toJSON()).toMatchObject({ payment_type: 'fixed', payment_fixed_amount: 120, commission_rule_id: rule.id });
+        });
+
+        it('should drop the rule reference when the terms are changed by hand', () => {
+            const appointment = createAppointment();
+            appointment.applyCommissionRule(rule);
+
+            appointment.update({ paymentType: 'fixed', paymentFixedAmount: 120, notes: 'Sem mudança' });
+            expect(appointment.commissionRuleId).toBe(rule.id);
+
+            appointment.update({ paymentType: 'percentage', paymentPercentage: 50 });
+            expect(appointment.commissionRuleId).toBeNull();
+        });
+
+        it('should reject rules from another clinic', () => {
+            const appointment = createAppointment();
+            const otherClinicRule = CommissionRule.create({ clinicId: 'clinic-2', paymentType: '100', effectiveFrom: '2030-01-01' });
+
+            expect(() => appointment.applyCommissionRule(otherClinicRule)).toThrow(DomainError);
+        });
+    });
+
+    describe('settlement lock', () => {
+        const createPaidAppointment = () => Appointment.create({
+            patientId: 'patient-123',
+            clinicId: 'clinic-1',
+            date: '2030-01-10',
+            time: '14:30',
+            procedure: 'Consulta',
+            value: 300,
+            isPaid: true,
+            paymentDate: '2030-01-10'
+        });
+
+        it('should only lock paid appointments', () => {
+            const appointment = createPaidAppointment();
+            appointment.applyPayments(0, null);
+
+            expect(() => appointment.lockForSettlement('statement-1')).toThrow('Somente atendimentos pagos entram no repasse');
+        });
+
+        it('should block financial changes once included in a settlement', () => {
+            const appointment = createPaidAppointment();
+            appointment.lockForSettlement('statement-1');
+
+            expect(appointment.isSettlementLocked).toBe(true);
+            expect(appointment.toJSON().settlement_id).toBe('statement-1');
+            expect(() => appointment.update({ value: 350 })).toThrow(DomainError);
+            expect(() => appointment.applyPayments(0, null)).toThrow(DomainError);
+            expect(() => appointment.lockForSettlement('statement-2')).toThrow(DomainError);
+        });
+
+        it('should still allow non-financial changes', () => {
+            const appointment = createPaidAppointment();
+            appointment.lockForSettlement('statement-1');
+
+            appointment.update({ notes: 'Retorno em 30 dias', value: 300 });
+
+            expect(appointment.notes).toBe('Retorno em 30 dias');
+        });
+    });
+
     describe('calculateReceivedValue', () => {
         it('should calculate received value correctly', () => {
             const tomorrow = new Date();
@@ -116,6 +250,179 @@ describe('Appointment Entity', () => {
         });
     });
 
+    describe('duration', () => {
+        it('should default to 60 minutes and compute the end time', () => {
+            const appointment = Appointment.create({
+                patientId: 'patient-123',
+                clinicId: 'clinic-123',
+                date: '2030-05-10',
+                time: '14:30',
+                procedure: 'Consulta',
+                value: 100
+            });
+
+            expect(appointment.durationMinutes).toBe(60);
+            expect(appointment.endTime).toBe('15:30');
+            expect(appointment.toJSON().duration_minutes).toBe(60);
+        });
+
+        it('should throw error for invalid duration', () => {
+            expect(() => {
+                Appointment.create({
+                    patientId: 'patient-123',
+                    clinicId: 'clinic-123',
+                    date: '2030-05-10',
+                    time: '14:30',
+                    durationMinutes: 0,
+                    procedure: 'Consulta',
+                    value: 100
+                });
+            }).toThrow();
+        });
+    });
+
+    describe('teeth', () => {
+        it('should store teeth sorted and without duplicates', () => {
+            const appointment = Appointment.create({
+                patientId: 'patient-123',
+                clinicId: 'clinic-123',
+                date: '2030-05-10',
+                time: '14:30',
+                procedure: 'Tratamento endodôntico',
+                value: 100,
+                teeth: [37, 36, 37]
+            });
+
+            expect(appointment.teeth).toEqual([36, 37]);
+            expect(appointment.involvesTooth(36)).toBe(true);
+            expect(Appointment.fromJSON(appointment.toJSON()).teeth).toEqual([36, 37]);
+        });
+
+        it('should reject invalid FDI numbers', () => {
+            expect(() => {
+                Appointment.create({
+                    patientId: 'patient-123',
+                    clinicId: 'clinic-123',
+                    date: '2030-05-10',
+                    time: '14:30',
+                    procedure: 'Consulta',
+                    value: 100,
+                    teeth: [19]
+                });
+            }).toThrow();
+        });
+    });
+
+    describe('series', () => {
+        it('should keep the series id and only treat open appointments as pending', () => {
+            const appointment = Appointment.create({
+                patientId: 'patient-123',
+                clinicId: 'clinic-123',
+                date: '2030-05-10',
+                time: '14:30',
+                procedure: 'Retorno',
+                value: 0,
+                seriesId: 'series-1'
+            });
+
+            expect(appointment.isPendingInSeries).toBe(true);
+            expect(Appointment.fromJSON(appointment.toJSON()).seriesId).toBe('series-1');
+
+            appointment.transitionTo('completed');
+            expect(appointment.isPendingInSeries).toBe(false);
+        });
+    });
+
+    describe('clinical lifecycle', () => {
+        const makeAppointment = (overrides = {}) =>
+            Appointment.create({
+                patientId: 'patient-123',
+                clinicId: 'clinic-123',
+                date: '2030-05-10',
+                time: '14:30',
+                procedure: 'Consulta',
+                value: 100,
+                ...overrides
+            });
+
+        it('should keep clinical and payment status independent', () => {
+            const appointment = makeAppointment();
+            appointment.confirm();
+            appointment.start();
+            appointment.complete();
+
+            expect(appointment.clinicalStatus).toBe('completed');
+            expect(appointment.paymentStatus).toBe('pending');
+
+            appointment.markAsPaid('2030-05-11');
+            expect(appointment.clinicalStatus).toBe('completed');
+            expect(appointment.paymentStatus).toBe('paid');
+        });
+
+        it('should reject transitions not allowed by the lifecycle', () => {
+            const appointment = makeAppointment();
+            appointment.markNoShow();
+
+            expect(() => appointment.start()).toThrow(DomainError);
+            expect(() => appointment.update({ clinicalStatus: 'completed' })).toThrow(DomainError);
+        });
+
+        it('should cancel through the clinical status', () => {
+            const appointment = makeAppointment();
+            appointment.update({ clinicalStatus: 'cancelled' });
+
+            expect(appointment.isCancelled).toBe(true);
+            expect(appointment.toJSON().clinical_status).toBe('cancelled');
+        });
+
+        it('should record who cancelled and why', () => {
+            const appointment = makeAppointment();
+            appointment.cancel({ reason: 'Viagem', cancelledBy: 'patient', at: new Date(2030, 4, 1) });
+
+            expect(appointment.cancellationReason).toBe('Viagem');
+            expect(appointment.cancelledBy).toBe('patient');
+            expect(appointment.isLateCancellation).toBe(false);
+            expect(appointment.cancellationFee).toBeNull();
+        });
+
+        it('should block late cancellations unless the policy allows an override', () => {
+            const lateAt = new Date(2030, 4, 10, 8, 0);
+
+            expect(() => makeAppointment().cancel({ at: lateAt })).toThrow(DomainError);
+            expect(makeAppointment().canBeCancelled(CancellationPolicy.default(), lateAt)).toBe(false);
+
+            const policy = CancellationPolicy.create({ noticeHours: 24, allowLateOverride: true });
+            expect(() => makeAppointment().cancel({ policy, at: lateAt })).toThrow(DomainError); // sem motivo
+            expect(makeAppointment().canBeCancelled(policy, lateAt)).toBe(true);
+        });
+
+        it('should charge the late fee only when the patient cancelled', () => {
+            const policy = CancellationPolicy.create({ noticeHours: 24, lateFee: 80, allowLateOverride: true });
+            const lateAt = new Date(2030, 4, 10, 8, 0);
+
+            const byPatient = makeAppointment();
+            byPatient.cancel({ reason: 'Imprevisto', cancelledBy: 'patient', policy, at: lateAt });
+            const byProfessional = makeAppointment();
+            byProfessional.cancel({ reason: 'Doença', cancelledBy: 'professional', policy, at: lateAt });
+
+            expect(byPatient.isLateCancellation).toBe(true);
+            expect(byPatient.cancellationFee).toBe(80);
+            expect(byProfessional.isLateCancellation).toBe(true);
+            expect(byProfessional.cancellationFee).toBeNull();
+
+            const restored = Appointment.fromJSON(byPatient.toJSON());
+            expect(restored.cancelledBy).toBe('patient');
+            expect(restored.cancellationFee).toBe(80);
+        });
+
+        it('should read legacy cancelled rows as clinically cancelled', () => {
+            const json = { ...makeAppointment().toJSON(), status: 'cancelled' as const };
+            delete (json as Partial<typeof json>).clinical_status;
+
+            expect(Appointment.fromJSON(json).clinicalStatus).toBe('cancelled');
+        });
+    });
+
     describe('toJSON and fromJSON', () => {
         it('should serialize and deserialize correctly', () => {
             const tomorrow = new Date();
@@ -61,6 +61,75 @@ describe('Clinic Entity', () => {
         });
     });
 
+    describe('availability', () => {
+        const weekdays = [1, 2, 3, 4, 5].map(weekday => ({ weekday, start: '08:00', end: '12:00' }));
+
+        it('should return windows for the weekday unless the date is blocked', () => {
+            const clinic = Clinic.create({
+                name: 'Clínica Teste',
+                workingHours: weekdays,
+                blockedDates: [{ date: '2030-01-08', kind: 'holiday', reason: 'Feriado municipal' }]
+            });
+
+            expect(clinic.windowsOn('2030-01-07').map(window => window.start)).toEqual(['08:00']); // segunda
+            expect(clinic.windowsOn('2030-01-08')).toEqual([]); // feriado
+            expect(clinic.windowsOn('2030-01-12')).toEqual([]); // sábado
+        });
+
+        it('should reject overlapping windows on the same day', () => {
+            const clinic = Clinic.create({ name: 'Clínica Teste' });
+
+            expect(() => clinic.updateAvailability(
+                [{ weekday: 1, start: '08:00', end: '12:00' }, { weekday: 1, start: '11:00', end: '14:00' }],
+                []
+            )).toThrow(DomainError);
+        });
+
+        it('should reject duplicated blocked dates', () => {
+            const clinic = Clinic.create({ name: 'Clínica Teste' });
+
+            expect(() => clinic.updateAvailability([], [
+                { date: '2030-12-25', kind: 'holiday', reason: null },
+                { date: '2030-12-25', kind: 'blocked', reason: 'Congresso' }
+            ])).toThrow(DomainError);
+        });
+
+        it('should round-trip through JSON', () => {
+            const clinic = Clinic.create({
+                name: 'Clínica Teste',
+                workingHours: weekdays,
+                blockedDates: [{ date: '2030-12-25', kind: 'holiday', reason: null }]
+            });
+
+            const restored = Clinic.fromJSON(clinic.toJSON());
+
+            expect(restored.workingHours.map(window => window.toJSON())).toEqual(weekdays);
+            expect(restored.blockedDates).toEqual([{ date: '2030-12-25', kind: 'holiday', reason: null }]);
+        });
+    });
+
+    describe('cancellation policy', () => {
+        it('should fall back to the default policy', () => {
+            const clinic = Clinic.create({ name: 'Clínica Teste' });
+
+            expect(clinic.cancellationPolicy).toBeNull();
+            expect(clinic.effectiveCancellationPolicy.noticeHours).toBe(24);
+        });
+
+        it('should round-trip a custom policy through JSON', () => {
+            const clinic = Clinic.create({ name: 'Clínica Teste' });
+            clinic.updateCancellationPolicy({ noticeHours: 48, lateFee: 100, allowLateOverride: true });
+
+            const restored = Clinic.fromJSON(clinic.toJSON());
+
+            expect(restored.effectiveCancellationPolicy.toJSON()).toEqual({
+                notice_hours: 48,
+                late_fee: 100,
+                allow_late_override: true
+            });
+        });
+    });
+
     describe('toJSON and fromJSON', () => {
         it('should serialize and deserialize correctly', () => {
             const original = Clinic.create({
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ConsentTemplate, consentPlaceholders } from '../../../domain/entities/ConsentTemplate';
+import { ConsentDocument } from '../../../domain/entities/ConsentDocument';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('ConsentTemplate', () => {
+    it('should ship default endodontic and surgery templates using only known placeholders', () => {
+        const endodontic = ConsentTemplate.createDefault('endodontic');
+        const surgery = ConsentTemplate.createDefault('surgery');
+
+        expect(endodontic.isDefault).toBe(true);
+        expect(surgery.id).toBe('default-surgery');
+        expect(consentPlaceholders(surgery.body)).toEqual(expect.arrayContaining(['paciente', 'procedimento', 'dentes']));
+    });
+
+    it('should reject unknown placeholders and empty texts', () => {
+        expect(() => ConsentTemplate.create({ kind: 'surgery', title: 'Termo', body: 'Eu, {{nome_completo}}, autorizo' })).toThrow(DomainError);
+        expect(() => ConsentTemplate.create({ kind: 'surgery', title: ' ', body: 'Texto' })).toThrow(DomainError);
+
+        const template = ConsentTemplate.create({ kind: 'endodontic', title: 'Termo', body: 'Eu, {{ paciente }}, autorizo' });
+        expect(template.isDefault).toBe(false);
+        expect(() => template.update({ body: '{{desconhecido}}' })).toThrow(DomainError);
+    });
+});
+
+describe('ConsentDocument', () => {
+    const props = {
+        patientId: 'patient-1',
+        kind: 'surgery' as const,
+        title: 'Termo cirúrgico',
+        procedure: 'Apicectomia',
+        teeth: [21, 11, 21],
+        content: 'Eu, Maria, autorizo',
+        signerName: 'Maria',
+        signedAt: '2030-05-01T12:00:00.000Z',
+        fileUrl: 'https://storage.example/radiographs/termo.pdf',
+        fileName: 'termo.pdf',
+        sha256: 'A'.repeat(64)
+    };
+
+    it('should keep the signed data through JSON', () => {
+        const document = ConsentDocument.fromJSON(ConsentDocument.create(props).toJSON());
+
+        expect(document.teeth).toEqual([11, 21]);
+        expect(document.sha256).toBe('a'.repeat(64));
+        expect(document.signedOn).toBe('2030-05-01');
+        expect(document.appointmentId).toBeNull();
+    });
+
+    it('should require a valid SHA-256 hash and a signer', () => {
+        expect(() => ConsentDocument.create({ ...props, sha256: 'abc' })).toThrow(DomainError);
+        expect(() => ConsentDocument.create({ ...props, signerName: '  ' })).toThrow(DomainError);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { EndodonticRecord } from '../../../domain/entities/EndodonticRecord';
+import { DomainError, ValidationError } from '../../../domain/errors/AppError';
+
+const createRecord = (overrides: Partial<Parameters<typeof EndodonticRecord.create>[0]> = {}) =>
+    EndodonticRecord.create({
+        appointmentId: 'appointment-1',
+        patientId: 'patient-1',
+        tooth: 36,
+        canals: [
+            { name: 'mv', workingLength: 20.5, apicalSize: 30 },
+            { name: 'ML', workingLength: 20, apicalSize: 30 },
+            { name: 'D', workingLength: 21, apicalSize: 40, reference: 'Cúspide DV' }
+        ],
+        fileSystem: 'ProTaper Next',
+        irrigants: ['NaOCl 2,5%', 'EDTA 17%', 'naocl 2,5%'],
+        pulpalDiagnosis: 'symptomatic_irreversible_pulpitis',
+        periapicalDiagnosis: 'symptomatic_apical_periodontitis',
+        ...overrides
+    });
+
+describe('EndodonticRecord Entity', () => {
+    describe('create', () => {
+        it('should create a structured record', () => {
+            const record = createRecord();
+
+            expect(record.tooth).toBe(36);
+            expect(record.canals.map(canal => canal.name)).toEqual(['MV', 'ML', 'D']);
+            expect(record.irrigants).toEqual(['NaOCl 2,5%', 'EDTA 17%']);
+            expect(record.hasStructuredData).toBe(true);
+            expect(record.isObturated).toBe(false);
+        });
+
+        it('should accept notes only as a free-text fallback', () => {
+            const record = createRecord({
+                canals: [],
+                fileSystem: null,
+                irrigants: [],
+                pulpalDiagnosis: null,
+                periapicalDiagnosis: null,
+                notes: 'Paciente com limitação de abertura bucal'
+            });
+
+            expect(record.hasStructuredData).toBe(false);
+            expect(record.notes).toBe('Paciente com limitação de abertura bucal');
+        });
+
+        it('should reject an empty record', () => {
+            expect(() => createRecord({
+                canals: [],
+                fileSystem: '  ',
+                irrigants: [],
+                pulpalDiagnosis: null,
+                periapicalDiagnosis: null
+            })).toThrow(DomainError);
+        });
+
+        it('should reject an invalid tooth', () => {
+            expect(() => createRecord({ tooth: 19 })).toThrow(ValidationError);
+        });
+    });
+
+    describe('canals', () => {
+        it('should reject duplicated canals', () => {
+            expect(() => createRecord({ canals: [{ name: 'MV' }, { name: 'mv' }] })).toThrow(DomainError);
+        });
+
+        it('should reject working length out of range', () => {
+            expect(() => createRecord({ canals: [{ name: 'P', workingLength: 45 }] })).toThrow(DomainError);
+        });
+
+        it('should reject non ISO apical sizes', () => {
+            expect(() => createRecord({ canals: [{ name: 'P', apicalSize: 27.5 }] })).toThrow(DomainError);
+            expect(() => createRecord({ canals: [{ name: 'P', apicalSize: 200 }] })).toThrow(DomainError);
+        });
+    });
+
+    describe('update', () => {
+        it('should update only the informed fields', () => {
+            const record = createRecord();
+            record.update({ obturationTechnique: 'Condensação lateral', medications: ['Hidróxido de cálcio'] });
+
+            expect(record.isObturated).toBe(true);
+            expect(record.medications).toEqual(['Hidróxido de cálcio']);
+            expect(record.canals).toHaveLength(3);
+        });
+
+        it('should reject an invalid diagnosis', () => {
+            const record = createRecord();
+
+            expect(() => record.update({ pulpalDiagnosis: 'unknown' as never })).toThrow(DomainError);
+        });
+    });
+
+    describe('toJSON / fromJSON', () => {
+        it('should round-trip canals and lists', () => {
+            const record = createRecord();
+            const restored = EndodonticRecord.fromJSON(record.toJSON());
+
+            expect(restored.toJSON()).toEqual(record.toJSON());
+            expect(restored.canals[2]).toEqual({ name: 'D', workingLength: 21, apicalSize: 40, reference: 'Cúspide DV' });
+        });
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { Patient } from '../../../domain/entities/Patient';
-import { DomainError } from '../../../domain/errors/AppError';
+import { DomainError, ValidationError } from '../../../domain/errors/AppError';
 
 describe('Patient Entity', () => {
     describe('create', () => {
@@ -88,5 +88,61 @@ describe('Patient Entity', () => {
             expect(restored.email).toBe(original.email);
         });
     });
-});
 
+    describe('registration', () => {
+        const adultBirthDate = () => `${new Date().getFullYear() - 30}-01-15`;
+        const minorBirthDate = () => `${new Date().getFullYear() - 10}-01-15`;
+        const guardian = { name: 'Maria Souza', cpf: '111.444.777-35', phone: '(11) 98888-7777', relationship: 'Mãe' };
+
+        it('should normalize CPF, address and contacts and keep them through toJSON', () => {
+            const patient = Patient.create({
+                name: 'John Doe',
+                userId: 'user-123',
+                cpf: '529.982.247-25',
+                birthDate: adultBirthDate(),
+                sex: 'male',
+                address: { street: 'Rua A', number: '10', city: 'São Paulo', state: 'sp', zipCode: '01000-000' },
+                emergencyContact: { name: 'Ana', phone: '(11) 97777-6666' }
+            });
+
+            expect(patient.cpf).toBe('52998224725');
+            expect(patient.isMinor).toBe(false);
+            expect(patient.address?.format()).toBe('Rua A, 10, São Paulo/SP, 01000-000');
+
+            const restored = Patient.fromJSON(patient.toJSON());
+            expect(restored.toJSON()).toEqual(patient.toJSON());
+            expect(restored.emergencyContact).toEqual({ name: 'Ana', phone: '11977776666', relationship: null });
+        });
+
+        it('should require a legal guardian for minors', () => {
+            expect(() => Patient.create({ name: 'John Doe', userId: 'user-123', birthDate: minorBirthDate() }))
+                .toThrow(DomainError);
+
+            const patient = Patient.create({ name: 'John Doe', userId: 'user-123', birthDate: minorBirthDate(), guardian });
+            expect(patient.isMinor).toBe(true);
+            expect(patient.guardian?.cpf).toBe('11144477735');
+            expect(() => patient.updateRegistration({ guardian: null })).toThrow(DomainError);
+
+            patient.updateRegistration({ birthDate: adultBirthDate(), guardian: null });
+            expect(patient.guardian).toBeNull();
+        });
+
+        it('should compute the age on a given date', () => {
+            const patient = Patient.create({ name: 'John Doe', userId: 'user-123', birthDate: '2000-03-10' });
+
+            expect(patient.ageAt('2018-03-09')).toBe(17);
+            expect(patient.ageAt('2018-03-10')).toBe(18);
+        });
+
+        it('should reject invalid registration data', () => {
+            const create = (registration: Record<string, unknown>) => () =>
+                Patient.create({ name: 'John Doe', userId: 'user-123', ...registration });
+
+            expect(create({ cpf: '123.456.789-00' })).toThrow(ValidationError);
+            expect(create({ birthDate: '2000-02-31' })).toThrow(DomainError);
+            expect(create({ birthDate: `${new Date().getFullYear() + 1}-01-01` })).toThrow(DomainError);
+            expect(create({ address: { street: 'Rua A', city: 'São Paulo', state: 'XX', zipCode: '01000-000' } })).toThrow(ValidationError);
+            expect(create({ address: { street: 'Rua A', city: 'São Paulo', state: 'SP', zipCode: '0100' } })).toThrow(ValidationError);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { Payment } from '../../../domain/entities/Payment';
+import { DomainError } from '../../../domain/errors/AppError';
+
+const createInstallment = (overrides: Partial<Parameters<typeof Payment.create>[0]> = {}) =>
+    Payment.create({
+        appointmentId: 'appointment-1',
+        amount: 150,
+        dueDate: '2030-02-10',
+        installmentNumber: 1,
+        installmentCount: 2,
+        ...overrides
+    });
+
+describe('Payment Entity', () => {
+    describe('create', () => {
+        it('should create an open installment', () => {
+            const payment = createInstallment();
+
+            expect(payment.isPaid).toBe(false);
+            expect(payment.amount.amount).toBe(150);
+            expect(payment.amount.currency).toBe('BRL');
+        });
+
+        it('should reject non-positive amounts', () => {
+            expect(() => createInstallment({ amount: 0 })).toThrow(DomainError);
+        });
+
+        it('should require a due date while unpaid', () => {
+            expect(() => createInstallment({ dueDate: null })).toThrow(DomainError);
+        });
+
+        it('should reject an installment number outside the plan', () => {
+            expect(() => createInstallment({ installmentNumber: 3 })).toThrow(DomainError);
+        });
+    });
+
+    describe('markPaid', () => {
+        it('should record the payment date and method', () => {
+            const payment = createInstallment({ method: 'pix' });
+
+            payment.markPaid('2030-02-08', 'cash');
+
+            expect(payment.isPaid).toBe(true);
+            expect(payment.paidDate).toBe('2030-02-08');
+            expect(payment.method).toBe('cash');
+        });
+
+        it('should not pay an installment twice', () => {
+            const payment = createInstallment();
+            payment.markPaid('2030-02-08');
+
+            expect(() => payment.markPaid('2030-02-09')).toThrow(DomainError);
+        });
+    });
+
+    describe('isOverdue', () => {
+        it('should be overdue only while open and past the due date', () => {
+            const payment = createInstallment();
+
+            expect(payment.isOverdue('2030-02-10')).toBe(false);
+            expect(payment.isOverdue('2030-02-11')).toBe(true);
+
+            payment.markPaid('2030-02-11');
+            expect(payment.isOverdue('2030-02-12')).toBe(false);
+        });
+    });
+
+    describe('expectedSettlements', () => {
+        it('should credit the net amount after the settlement delay', () => {
+            const payment = createInstallment({
+                installmentNumber: null,
+                installmentCount: null,
+                dueDate: null,
+                paidDate: '2030-01-10',
+                method: 'debit_card',
+                feeAmount: 3,
+                settlementDays: 1
+            });
+
+            expect(payment.netAmount.amount).toBe(147);
+            expect(payment.expectedSettlements().map(s => [s.date, s.amount.amount])).toEqual([['2030-01-11', 147]]);
+        });
+
+        it('should split credit card installments every 30 days', () => {
+            const payment = createInstallment();
+            payment.markPaid('2030-01-10', 'credit_card', { feeAmount: 10, settlementDays: 30, cardInstallments: 3 });
+
+            expect(payment.expectedSettlements().map(s => [s.date, s.amount.amount])).toEqual([
+                ['2030-02-09', 46.67],
+                ['2030-03-11', 46.67],
+                ['2030-04-10', 46.66]
+            ]);
+        });
+
+        it('should be empty while unpaid', () => {
+            expect(createInstallment().expectedSettlements()).toEqual([]);
+        });
+
+        it('should reject card installments on other methods and fees above the amount', () => {
+            expect(() => createInstallment({ method: 'pix', cardInstallments: 2 })).toThrow(DomainError);
+            expect(() => createInstallment({ feeAmount: 151 })).toThrow(DomainError);
+        });
+    });
+
+    describe('toJSON and fromJSON', () => {
+        it('should round-trip through the database format', () => {
+            const payment = createInstallment({ paidDate: '2030-02-01', method: 'credit_card', notes: '  sinal  ' });
+
+            const restored = Payment.fromJSON(payment.toJSON());
+
+            expect(restored.toJSON()).toEqual(payment.toJSON());
+            expect(restored.notes).toBe('sinal');
+        });
+    });
+});
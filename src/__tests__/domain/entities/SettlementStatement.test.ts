@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SettlementStatement, SettlementLine } from '../../../domain/entities/SettlementStatement';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('SettlementStatement', () => {
+    const lines: SettlementLine[] = [
+        { appointmentId: 'a-1', date: '2030-01-05', patientName: 'Maria', procedure: 'Canal', grossValue: 1000, ourShare: 600, clinicShare: 400 },
+        { appointmentId: 'a-2', date: '2030-01-20', patientName: null, procedure: 'Retratamento', grossValue: 100.1, ourShare: 60.06, clinicShare: 40.04 }
+    ];
+
+    const createStatement = () => SettlementStatement.create({
+        clinicId: 'clinic-1',
+        periodStart: '2030-01-01',
+        periodEnd: '2030-01-31',
+        lines
+    });
+
+    it('should sum the totals without floating point drift', () => {
+        const statement = createStatement();
+
+        expect(statement.status).toBe('issued');
+        expect(statement.totals).toEqual({ gross: 1100.1, ourShare: 660.06, clinicShare: 440.04 });
+    });
+
+    it('should reject empty, repeated or out-of-period lines', () => {
+        const base = { clinicId: 'clinic-1', periodStart: '2030-01-01', periodEnd: '2030-01-31' };
+
+        expect(() => SettlementStatement.create({ ...base, lines: [] })).toThrow(DomainError);
+        expect(() => SettlementStatement.create({ ...base, lines: [lines[0], lines[0]] })).toThrow(DomainError);
+        expect(() => SettlementStatement.create({ ...base, lines: [{ ...lines[0], date: '2030-02-01' }] })).toThrow(DomainError);
+        expect(() => SettlementStatement.create({ ...base, periodStart: '2030-02-01', lines })).toThrow(DomainError);
+    });
+
+    it('should be settled only once', () => {
+        const statement = createStatement();
+
+        statement.settle(new Date('2030-02-05T12:00:00Z'));
+
+        expect(statement.isSettled).toBe(true);
+        expect(statement.settledAt?.toISOString()).toBe('2030-02-05T12:00:00.000Z');
+        expect(() => statement.settle()).toThrow(DomainError);
+    });
+
+    it('should round-trip through JSON keeping the frozen lines', () => {
+        const statement = createStatement();
+        const json = statement.toJSON();
+
+        expect(json.total_our_share).toBe(660.06);
+        expect(json.lines[1]).toMatchObject({ appointment_id: 'a-2', patient_name: null, clinic_share: 40.04 });
+        expect(SettlementStatement.fromJSON(json).lines).toEqual(lines);
+    });
+});
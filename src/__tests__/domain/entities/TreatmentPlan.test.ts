@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { TreatmentPlan } from '../../../domain/entities/TreatmentPlan';
+import { DomainError } from '../../../domain/errors/AppError';
+
+const createPlan = (sessions: string[] = ['Abertura', 'Instrumentação', 'Obturação']) =>
+    TreatmentPlan.create({
+        patientId: 'patient-1',
+        tooth: '36',
+        procedure: 'Tratamento endodôntico',
+        totalValue: 1200,
+        sessions
+    });
+
+describe('TreatmentPlan Entity', () => {
+    describe('create', () => {
+        it('should create an open plan with ordered sessions', () => {
+            const plan = createPlan();
+
+            expect(plan.status).toBe('open');
+            expect(plan.sessions.map(session => session.order)).toEqual([1, 2, 3]);
+            expect(plan.sessions.every(session => session.status === 'pending')).toBe(true);
+            expect(plan.remainingSessions).toBe(3);
+            expect(plan.progress).toBe(0);
+        });
+
+        it('should throw error without patient', () => {
+            expect(() => {
+                TreatmentPlan.create({ patientId: '', procedure: 'Endo', totalValue: 100 });
+            }).toThrow(DomainError);
+        });
+
+        it('should throw error for negative total value', () => {
+            expect(() => {
+                TreatmentPlan.create({ patientId: 'patient-1', procedure: 'Endo', totalValue: -1 });
+            }).toThrow();
+        });
+    });
+
+    describe('sessions', () => {
+        it('should move to in_progress when the first session is completed', () => {
+            const plan = createPlan();
+            plan.completeSession(plan.sessions[0].id);
+
+            expect(plan.status).toBe('in_progress');
+            expect(plan.completedSessions).toBe(1);
+            expect(plan.progress).toBe(33);
+            expect(plan.nextSession?.order).toBe(2);
+        });
+
+        it('should finish automatically when the last session is completed', () => {
+            const plan = createPlan(['Sessão única']);
+            plan.completeSession(plan.sessions[0].id);
+
+            expect(plan.status).toBe('finished');
+            expect(plan.isClosed).toBe(true);
+        });
+
+        it('should not complete the same session twice', () => {
+            const plan = createPlan();
+            const sessionId = plan.sessions[0].id;
+            plan.completeSession(sessionId);
+
+            expect(() => plan.completeSession(sessionId)).toThrow(DomainError);
+        });
+
+        it('should renumber sessions after removing a pending one', () => {
+            const plan = createPlan();
+            plan.removeSession(plan.sessions[1].id);
+
+            expect(plan.sessions.map(session => session.description)).toEqual(['Abertura', 'Obturação']);
+            expect(plan.sessions.map(session => session.order)).toEqual([1, 2]);
+        });
+
+        it('should not link the same appointment to two sessions', () => {
+            const plan = createPlan();
+            plan.linkAppointment(plan.sessions[0].id, 'appointment-1');
+
+            expect(() => plan.linkAppointment(plan.sessions[1].id, 'appointment-1')).toThrow(DomainError);
+        });
+    });
+
+    describe('status', () => {
+        it('should not finish with pending sessions', () => {
+            const plan = createPlan();
+
+            expect(() => plan.finish()).toThrow(DomainError);
+        });
+
+        it('should reject changes after being abandoned', () => {
+            const plan = createPlan();
+            plan.abandon();
+
+            expect(plan.status).toBe('abandoned');
+            expect(() => plan.addSession('Nova sessão')).toThrow(DomainError);
+            expect(() => plan.completeSession(plan.sessions[0].id)).toThrow(DomainError);
+        });
+    });
+
+    describe('billing', () => {
+        it('should compute billed value and balance from linked appointments', () => {
+            const plan = createPlan();
+            plan.linkAppointment(plan.sessions[0].id, 'appointment-1');
+            plan.linkAppointment(plan.sessions[1].id, 'appointment-2');
+
+            const appointments = [
+                { id: 'appointment-1', value: 400 },
+                { id: 'appointment-2', value: 300, isCancelled: true },
+                { id: 'appointment-3', value: 999 }
+            ];
+
+            expect(plan.billedValue(appointments)).toBe(400);
+            expect(plan.balanceToBill(appointments)).toBe(800);
+        });
+
+        it('should never return a negative balance', () => {
+            const plan = createPlan(['Sessão única']);
+            plan.linkAppointment(plan.sessions[0].id, 'appointment-1');
+
+            expect(plan.balanceToBill([{ id: 'appointment-1', value: 1500 }])).toBe(0);
+        });
+    });
+
+    describe('toJSON / fromJSON', () => {
+        it('should round-trip plan and sessions', () => {
+            const plan = createPlan();
+            plan.linkAppointment(plan.sessions[0].id, 'appointment-1');
+            plan.completeSession(plan.sessions[0].id);
+
+            const restored = TreatmentPlan.fromJSON(plan.toJSON());
+
+            expect(restored.status).toBe('in_progress');
+            expect(restored.tooth).toBe('36');
+            expect(restored.totalValue).toBe(1200);
+            expect(restored.sessions[0].appointmentId).toBe('appointment-1');
+            expect(restored.sessions[0].completedAt).toBeInstanceOf(Date);
+            expect(restored.toJSON().sessions[0].plan_id).toBe(plan.id);
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { WaitlistEntry, WaitlistSlot } from '../../../domain/entities/WaitlistEntry';
+import { DomainError } from '../../../domain/errors/AppError';
+
+const createEntry = (overrides: Partial<Parameters<typeof WaitlistEntry.create>[0]> = {}) =>
+    WaitlistEntry.create({
+        patientId: 'patient-1',
+        clinicId: 'clinic-1',
+        procedure: 'Tratamento de canal',
+        durationMinutes: 60,
+        preferredWeekdays: [1, 3],
+        preferredStart: '08:00',
+        preferredEnd: '12:00',
+        ...overrides
+    });
+
+// Segunda-feira, 07/01/2030
+const slot = (overrides: Partial<WaitlistSlot> = {}): WaitlistSlot => ({
+    clinicId: 'clinic-1',
+    date: '2030-01-07',
+    time: '09:00',
+    durationMinutes: 60,
+    ...overrides
+});
+
+describe('WaitlistEntry Entity', () => {
+    describe('create', () => {
+        it('should default to a waiting entry with normal priority', () => {
+            const entry = createEntry({ preferredWeekdays: [3, 1, 3] });
+
+            expect(entry.status).toBe('waiting');
+            expect(entry.priority).toBe('normal');
+            expect(entry.preferredWeekdays).toEqual([1, 3]);
+        });
+
+        it('should reject a preferred time range shorter than the appointment', () => {
+            expect(() => createEntry({ preferredStart: '11:30', preferredEnd: '12:00' })).toThrow(DomainError);
+        });
+
+        it('should reject invalid weekdays', () => {
+            expect(() => createEntry({ preferredWeekdays: [7] })).toThrow(DomainError);
+        });
+    });
+
+    describe('matches', () => {
+        it('should accept a slot inside the preferences', () => {
+            expect(createEntry().matches(slot())).toBe(true);
+        });
+
+        it('should reject other clinics, days and times', () => {
+            const entry = createEntry();
+
+            expect(entry.matches(slot({ clinicId: 'clinic-2' }))).toBe(false);
+            expect(entry.matches(slot({ date: '2030-01-08' }))).toBe(false);
+            expect(entry.matches(slot({ time: '07:30' }))).toBe(false);
+            expect(entry.matches(slot({ time: '11:30' }))).toBe(false);
+        });
+
+        it('should reject slots shorter than the appointment', () => {
+            expect(createEntry().matches(slot({ durationMinutes: 30 }))).toBe(false);
+        });
+
+        it('should accept any slot when no preference is set', () => {
+            const entry = createEntry({ clinicId: null, preferredWeekdays: [], preferredStart: null, preferredEnd: null });
+
+            expect(entry.matches(slot({ clinicId: 'clinic-2', date: '2030-01-12', time: '18:00' }))).toBe(true);
+        });
+    });
+
+    describe('lifecycle', () => {
+        it('should record the booked appointment and stop matching', () => {
+            const entry = createEntry();
+            entry.markBooked('appointment-1');
+
+            expect(entry.status).toBe('booked');
+            expect(entry.appointmentId).toBe('appointment-1');
+            expect(entry.matches(slot())).toBe(false);
+            expect(() => entry.remove()).toThrow(DomainError);
+        });
+
+        it('should round-trip through JSON', () => {
+            const entry = createEntry({ priority: 'urgent', notes: ' Prefere manhã ' });
+            const restored = WaitlistEntry.fromJSON(entry.toJSON());
+
+            expect(restored.toJSON()).toEqual(entry.toJSON());
+            expect(restored.notes).toBe('Prefere manhã');
+        });
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { AnamnesisDomainService } from '../../../domain/services/AnamnesisDomainService';
+import { AnamnesisRecord } from '../../../domain/entities/AnamnesisRecord';
+import { DEFAULT_ANAMNESIS_QUESTIONS } from '../../../domain/entities/AnamnesisTemplate';
+
+describe('AnamnesisDomainService', () => {
+    const createRecord = (version: number, createdAt: string, anticoagulants = false) =>
+        AnamnesisRecord.create({
+            patientId: 'patient-1',
+            version,
+            questions: DEFAULT_ANAMNESIS_QUESTIONS,
+            answers: DEFAULT_ANAMNESIS_QUESTIONS
+                .filter(question => question.type === 'boolean')
+                .map(question => ({ questionId: question.id, value: question.id === 'anticoagulants' && anticoagulants })),
+            createdAt
+        });
+
+    it('should ask for a first anamnesis when the patient has none', () => {
+        expect(AnamnesisDomainService.status(null, 6, '2030-03-01')).toEqual({
+            latest: null,
+            alerts: [],
+            nextReviewDate: null,
+            reviewDue: true
+        });
+        expect(AnamnesisDomainService.nextVersion([])).toBe(1);
+    });
+
+    it('should report the alerts and review date of the latest version', () => {
+        const latest = createRecord(2, '2030-01-10T10:00:00.000Z', true);
+
+        const status = AnamnesisDomainService.status(latest, 12, '2030-03-01');
+
+        expect(status.alerts.map(alert => alert.label)).toEqual(['Anticoagulante']);
+        expect(status.nextReviewDate).toBe('2031-01-10');
+        expect(status.reviewDue).toBe(false);
+        expect(AnamnesisDomainService.status(latest, 1, '2030-03-01').reviewDue).toBe(true);
+        expect(AnamnesisDomainService.nextVersion([createRecord(1, '2029-01-10T10:00:00.000Z'), latest])).toBe(3);
+    });
+});
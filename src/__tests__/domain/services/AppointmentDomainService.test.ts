@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { AppointmentDomainService } from '../../../domain/services/AppointmentDomainService';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { CancellationPolicy } from '../../../domain/value-objects/CancellationPolicy';
 
 describe('AppointmentDomainService', () => {
     describe('determineStatus', () => {
@@ -171,5 +173,117 @@ describe('AppointmentDomainService', () => {
             expect(result.errors.value).toBeDefined();
         });
     });
-});
 
+    describe('schedule conflicts', () => {
+        const makeAppointment = (overrides: Partial<Parameters<typeof Appointment.create>[0]> = {}) =>
+            Appointment.create({
+                patientId: 'patient-123',
+                clinicId: 'clinic-a',
+                date: '2030-05-10',
+                time: '14:00',
+                durationMinutes: 60,
+                procedure: 'Tratamento de canal',
+                value: 500,
+                ...overrides
+            });
+
+        it('should detect overlapping appointments on the same day', () => {
+            const existing = makeAppointment({ id: 'existing' });
+            const candidate = makeAppointment({ time: '14:30' });
+
+            expect(AppointmentDomainService.findScheduleConflict(candidate, [existing])?.id).toBe('existing');
+        });
+
+        it('should allow back-to-back appointments', () => {
+            const existing = makeAppointment({ id: 'existing' });
+            const candidate = makeAppointment({ time: '15:00' });
+
+            expect(AppointmentDomainService.findScheduleConflict(candidate, [existing])).toBeNull();
+        });
+
+        it('should ignore the appointment being edited and cancelled appointments', () => {
+            const candidate = makeAppointment({ id: 'same' });
+            const cancelled = makeAppointment({ id: 'cancelled', status: 'cancelled' });
+
+            expect(AppointmentDomainService.findScheduleConflict(candidate, [candidate, cancelled])).toBeNull();
+        });
+
+        it('should detect overlapping occurrences within the same batch', () => {
+            const first = makeAppointment({ id: 'first', seriesId: 'series-1' });
+            const second = makeAppointment({ id: 'second', seriesId: 'series-1', time: '14:30' });
+            const nextWeek = makeAppointment({ id: 'next-week', seriesId: 'series-1', date: '2030-05-17' });
+
+            const found = AppointmentDomainService.findBatchScheduleConflict([first, second, nextWeek], []);
+
+            expect(found?.candidate.id).toBe('second');
+            expect(found?.conflict.id).toBe('first');
+            expect(AppointmentDomainService.findBatchScheduleConflict([first, nextWeek], [])).toBeNull();
+        });
+
+        it('should ignore the stored versions of the batch being edited', () => {
+            const occurrence = makeAppointment({ id: 'occurrence', seriesId: 'series-1' });
+            const storedOccurrence = makeAppointment({ id: 'occurrence', seriesId: 'series-1', time: '14:30' });
+            const existing = makeAppointment({ id: 'existing', time: '16:00' });
+
+            expect(AppointmentDomainService.findBatchScheduleConflict([occurrence], [storedOccurrence, existing])).toBeNull();
+            expect(AppointmentDomainService.findBatchScheduleConflict(
+                [makeAppointment({ id: 'occurrence', time: '15:30' })],
+                [storedOccurrence, existing]
+            )?.conflict.id).toBe('existing');
+        });
+
+        it('should name the conflicting appointment in the message', () => {
+            const existing = makeAppointment({ id: 'existing' });
+            const message = AppointmentDomainService.describeScheduleConflict(existing, 'Maria Silva');
+
+            expect(message).toContain('Maria Silva');
+            expect(message).toContain('14:00');
+            expect(message).toContain('15:00');
+        });
+
+        it('should warn when the gap to another clinic is shorter than the travel time', () => {
+            const existing = makeAppointment({ id: 'existing', clinicId: 'clinic-b' });
+            const candidate = makeAppointment({ time: '15:15' });
+
+            const warnings = AppointmentDomainService.getTravelWarnings(candidate, [existing], 30);
+            expect(warnings).toHaveLength(1);
+            expect(warnings[0]).toContain('15 min');
+        });
+
+        it('should not warn for the same clinic or when there is enough time', () => {
+            const sameClinic = makeAppointment({ id: 'same-clinic', time: '10:00' });
+            const otherClinic = makeAppointment({ id: 'other-clinic', clinicId: 'clinic-b', time: '16:00' });
+            const candidate = makeAppointment({ time: '11:00' });
+
+            expect(AppointmentDomainService.getTravelWarnings(candidate, [sameClinic, otherClinic], 30)).toEqual([]);
+        });
+    });
+
+    describe('summarizeAttendance', () => {
+        const makeAppointment = (patientId: string, time: string) =>
+            Appointment.create({ patientId, clinicId: 'clinic-a', date: '2030-05-10', time, procedure: 'Consulta', value: 100 });
+
+        it('should count no-shows and late cancellations per patient', () => {
+            const policy = CancellationPolicy.create({ noticeHours: 24, lateFee: 50, allowLateOverride: true });
+            const lateAt = new Date(2030, 4, 10, 7, 0);
+
+            const noShow = makeAppointment('ana', '08:00');
+            noShow.markNoShow();
+            const late = makeAppointment('ana', '09:00');
+            late.cancel({ reason: 'Imprevisto', cancelledBy: 'patient', policy, at: lateAt });
+            const onTime = makeAppointment('bruno', '10:00');
+            onTime.cancel({ cancelledBy: 'patient', policy, at: new Date(2030, 4, 1) });
+
+            const rows = AppointmentDomainService.summarizeAttendance([noShow, late, onTime, makeAppointment('ana', '11:00')]);
+
+            expect(rows).toEqual([{
+                patientId: 'ana',
+                total: 3,
+                noShows: 1,
+                cancellations: 1,
+                lateCancellations: 1,
+                cancellationFees: 50
+            }]);
+        });
+    });
+});
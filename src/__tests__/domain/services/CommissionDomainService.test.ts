@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { CommissionDomainService } from '../../../domain/services/CommissionDomainService';
+import { CommissionRule } from '../../../domain/entities/CommissionRule';
+
+describe('CommissionDomainService', () => {
+    const rules = [
+        CommissionRule.create({ id: 'default-2029', clinicId: 'clinic-1', paymentType: 'percentage', paymentPercentage: 50, effectiveFrom: '2029-01-01' }),
+        CommissionRule.create({ id: 'default-2030', clinicId: 'clinic-1', paymentType: 'percentage', paymentPercentage: 60, effectiveFrom: '2030-01-01' }),
+        CommissionRule.create({ id: 'canal-2030', clinicId: 'clinic-1', procedure: 'Tratamento de Canal', paymentType: 'fixed', paymentFixedAmount: 400, effectiveFrom: '2030-03-01' }),
+        CommissionRule.create({ id: 'other-clinic', clinicId: 'clinic-2', paymentType: '100', effectiveFrom: '2020-01-01' })
+    ];
+
+    describe('resolve', () => {
+        it('should use the clinic default version effective on the appointment date', () => {
+            expect(CommissionDomainService.resolve(rules, 'clinic-1', 'Consulta', '2029-06-10')?.id).toBe('default-2029');
+            expect(CommissionDomainService.resolve(rules, 'clinic-1', 'Consulta', '2030-06-10')?.id).toBe('default-2030');
+        });
+
+        it('should prefer the procedure rule ignoring accents and case', () => {
+            expect(CommissionDomainService.resolve(rules, 'clinic-1', 'tratamento de  canal', '2030-06-10')?.id).toBe('canal-2030');
+            // Antes da vigência da regra do procedimento vale a padrão
+            expect(CommissionDomainService.resolve(rules, 'clinic-1', 'Tratamento de canal', '2030-02-10')?.id).toBe('default-2030');
+        });
+
+        it('should return null when the clinic has no rule in effect', () => {
+            expect(CommissionDomainService.resolve(rules, 'clinic-1', 'Consulta', '2028-12-31')).toBeNull();
+            expect(CommissionDomainService.resolve(rules, 'clinic-3', 'Consulta', '2030-06-10')).toBeNull();
+        });
+    });
+
+    it('should flag one current version per procedure', () => {
+        const clinicRules = rules.filter(rule => rule.clinicId === 'clinic-1');
+
+        expect([...CommissionDomainService.currentRuleIds(clinicRules, '2030-06-10')].sort()).toEqual(['canal-2030', 'default-2030']);
+        expect(CommissionDomainService.sortHistory(clinicRules).map(rule => rule.id)).toEqual(['default-2030', 'default-2029', 'canal-2030']);
+    });
+});
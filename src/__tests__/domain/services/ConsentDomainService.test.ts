@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ConsentDomainService } from '../../../domain/services/ConsentDomainService';
+import { ConsentDocument } from '../../../domain/entities/ConsentDocument';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('ConsentDomainService', () => {
+    const createAppointment = (procedure: string, date = '2030-05-10') =>
+        Appointment.create({ patientId: 'patient-1', clinicId: 'clinic-a', date, time: '14:00', procedure, value: 500 });
+
+    const createConsent = (overrides: Partial<Parameters<typeof ConsentDocument.create>[0]> = {}) =>
+        ConsentDocument.create({
+            patientId: 'patient-1',
+            kind: 'surgery',
+            title: 'Termo cirúrgico',
+            procedure: 'Apicectomia',
+            content: 'Texto assinado',
+            signerName: 'Maria',
+            signedAt: '2030-05-01T12:00:00.000Z',
+            fileUrl: 'https://storage.example/radiographs/termo.pdf',
+            fileName: 'termo.pdf',
+            sha256: 'a'.repeat(64),
+            ...overrides
+        });
+
+    it('should fill placeholders and leave missing values blank', () => {
+        const text = ConsentDomainService.render('Eu, {{paciente}}, autorizo {{ procedimento }} no(s) dente(s) {{dentes}}.{{cpf}}', {
+            paciente: 'Maria Silva',
+            procedimento: 'Apicectomia',
+            dentes: '21'
+        });
+
+        expect(text).toBe('Eu, Maria Silva, autorizo Apicectomia no(s) dente(s) 21.');
+    });
+
+    it('should recognise surgical procedures regardless of accents and case', () => {
+        expect(ConsentDomainService.isSurgicalProcedure('Cirurgia parendodôntica')).toBe(true);
+        expect(ConsentDomainService.isSurgicalProcedure('APICECTOMIA 21')).toBe(true);
+        expect(ConsentDomainService.isSurgicalProcedure('Extração do 48')).toBe(true);
+        expect(ConsentDomainService.isSurgicalProcedure('Tratamento de canal')).toBe(false);
+        expect(ConsentDomainService.isSurgicalProcedure(null)).toBe(false);
+    });
+
+    it('should accept a recent unlinked surgery consent or one linked to the appointment', () => {
+        const appointment = createAppointment('Apicectomia');
+
+        expect(ConsentDomainService.coversAppointment(createConsent(), appointment)).toBe(true);
+        expect(ConsentDomainService.coversAppointment(createConsent({ appointmentId: appointment.id }), appointment)).toBe(true);
+        expect(ConsentDomainService.coversAppointment(createConsent({ appointmentId: crypto.randomUUID() }), appointment)).toBe(false);
+        expect(ConsentDomainService.coversAppointment(createConsent({ kind: 'endodontic' }), appointment)).toBe(false);
+        expect(ConsentDomainService.coversAppointment(createConsent({ signedAt: '2030-01-15T12:00:00.000Z' }), appointment)).toBe(false);
+        expect(ConsentDomainService.coversAppointment(createConsent({ signedAt: '2030-05-11T12:00:00.000Z' }), appointment)).toBe(false);
+    });
+
+    it('should date a late-evening signature by the local day', () => {
+        const timezone = process.env.TZ;
+        process.env.TZ = 'America/Sao_Paulo';
+        try {
+            // 22:30 em São Paulo, já dia 11 em UTC
+            const consent = createConsent({ signedAt: '2030-05-11T01:30:00.000Z' });
+
+            expect(consent.signedOn).toBe('2030-05-10');
+            expect(ConsentDomainService.coversAppointment(consent, createAppointment('Apicectomia'))).toBe(true);
+        } finally {
+            process.env.TZ = timezone;
+        }
+    });
+
+    it('should block completing a surgery without a signed consent', () => {
+        expect(() => ConsentDomainService.ensureSurgicalConsent(createAppointment('Cirurgia exploratória'), [])).toThrow(DomainError);
+        expect(() => ConsentDomainService.ensureSurgicalConsent(createAppointment('Cirurgia exploratória'), [createConsent()])).not.toThrow();
+        expect(() => ConsentDomainService.ensureSurgicalConsent(createAppointment('Tratamento de canal'), [])).not.toThrow();
+    });
+});
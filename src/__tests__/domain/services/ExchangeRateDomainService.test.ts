@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ExchangeRateDomainService } from '../../../domain/services/ExchangeRateDomainService';
+import { ExchangeRate } from '../../../domain/entities/ExchangeRate';
+import { Money } from '../../../domain/value-objects/Money';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('ExchangeRateDomainService', () => {
+    const rates = [
+        ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5, date: '2030-01-01' }),
+        ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5.5, date: '2030-02-01' }),
+        ExchangeRate.create({ fromCurrency: 'BRL', toCurrency: 'EUR', rate: 0.16, date: '2030-01-15' }),
+        ExchangeRate.create({ fromCurrency: 'EUR', toCurrency: 'BRL', rate: 6, date: '2030-03-01' })
+    ];
+
+    it('should reject an invalid rate', () => {
+        expect(() => ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'USD', rate: 1, date: '2030-01-01' })).toThrow(DomainError);
+        expect(() => ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 0, date: '2030-01-01' })).toThrow(DomainError);
+        expect(() => ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5, date: '01/01/2030' })).toThrow(DomainError);
+    });
+
+    describe('findRate', () => {
+        it('should use the latest rate on or before the date', () => {
+            expect(ExchangeRateDomainService.findRate(rates, 'USD', 'BRL', '2030-01-31')).toMatchObject({ rate: 5, date: '2030-01-01' });
+            expect(ExchangeRateDomainService.findRate(rates, 'USD', 'BRL', '2030-02-01')).toMatchObject({ rate: 5.5, date: '2030-02-01' });
+            expect(ExchangeRateDomainService.findRate(rates, 'USD', 'BRL', '2029-12-31')).toBeNull();
+        });
+
+        it('should fall back to the inverse of the opposite pair', () => {
+            const rate = ExchangeRateDomainService.findRate(rates, 'BRL', 'USD', '2030-01-10');
+
+            expect(rate?.fromCurrency).toBe('BRL');
+            expect(rate?.toCurrency).toBe('USD');
+            expect(rate?.rate).toBeCloseTo(0.2);
+        });
+
+        it('should prefer the most recent quote, direct or inverse', () => {
+            expect(ExchangeRateDomainService.findRate(rates, 'EUR', 'BRL', '2030-02-10')?.rate).toBeCloseTo(6.25);
+            expect(ExchangeRateDomainService.findRate(rates, 'EUR', 'BRL', '2030-03-10')?.rate).toBe(6);
+        });
+
+        it('should use rate 1 for the same currency', () => {
+            expect(ExchangeRateDomainService.findRate([], 'BRL', 'BRL', '2030-01-01')).toMatchObject({ rate: 1 });
+        });
+    });
+
+    describe('convertTotal', () => {
+        it('should convert each amount at the rate of its own date', () => {
+            const result = ExchangeRateDomainService.convertTotal([
+                { money: Money.create(100, 'BRL'), date: '2030-01-10' },
+                { money: Money.create(10, 'USD'), date: '2030-01-10' },
+                { money: Money.create(10, 'USD'), date: '2030-02-10' }
+            ], 'BRL', rates);
+
+            expect(result.total.currency).toBe('BRL');
+            expect(result.total.amount).toBe(205);
+            expect(result.ratesUsed.map(rate => [rate.fromCurrency, rate.rate, rate.date])).toEqual([
+                ['USD', 5, '2030-01-01'],
+                ['USD', 5.5, '2030-02-01']
+            ]);
+            expect(result.missing).toEqual([]);
+        });
+
+        it('should leave out and report amounts without a rate', () => {
+            const result = ExchangeRateDomainService.convertTotal([
+                { money: Money.create(50, 'BRL'), date: '2029-12-01' },
+                { money: Money.create(10, 'USD'), date: '2029-12-01' }
+            ], 'BRL', rates);
+
+            expect(result.total.amount).toBe(50);
+            expect(result.missing).toEqual([{ currency: 'USD', date: '2029-12-01' }]);
+        });
+    });
+});
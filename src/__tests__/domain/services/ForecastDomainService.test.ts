@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { ForecastDomainService } from '../../../domain/services/ForecastDomainService';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { Payment } from '../../../domain/entities/Payment';
+import { RevenueGoal } from '../../../domain/entities/RevenueGoal';
+import { ExchangeRate } from '../../../domain/entities/ExchangeRate';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('ForecastDomainService', () => {
+    const createAppointment = (overrides: Partial<Parameters<typeof Appointment.create>[0]> = {}) =>
+        Appointment.create({
+            patientId: 'patient-1',
+            clinicId: 'clinic-1',
+            date: '2030-03-10',
+            time: '09:00',
+            procedure: 'Canal',
+            value: 1000,
+            paymentType: 'percentage',
+            paymentPercentage: 60,
+            ...overrides
+        });
+
+    const monthAppointments = () => [
+        createAppointment({ clinicalStatus: 'completed', isPaid: true, paymentDate: '2030-03-05', date: '2030-03-05' }),
+        createAppointment({ clinicId: 'clinic-2', value: 500, paymentType: '100', paymentPercentage: null, amountPaid: 100 }),
+        createAppointment({ clinicalStatus: 'cancelled' }),
+        createAppointment({ clinicalStatus: 'no_show' }),
+        createAppointment({ date: '2030-04-01' })
+    ];
+
+    describe('monthForecast', () => {
+        it('should add the expected share of open appointments to what was already received', () => {
+            const forecast = ForecastDomainService.monthForecast(monthAppointments(), '2030-03', 'BRL', []);
+
+            expect(forecast.realized).toEqual({ revenue: 700, appointments: 1 });
+            expect(forecast.expected).toEqual({ revenue: 400, appointments: 1 });
+            expect(forecast.projected).toEqual({ revenue: 1100, appointments: 2 });
+            expect(forecast.byClinic.map(row => [row.clinicId, row.projected.revenue])).toEqual([['clinic-1', 600], ['clinic-2', 500]]);
+        });
+    });
+
+    describe('goalProgress', () => {
+        it('should compare realized and projected figures with overall and clinic goals', () => {
+            const forecast = ForecastDomainService.monthForecast(monthAppointments(), '2030-03', 'BRL', []);
+            const rates = [ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5, date: '2030-01-01' })];
+
+            const progress = ForecastDomainService.goalProgress(
+                [
+                    RevenueGoal.create({ month: '2030-03', clinicId: 'clinic-2', revenueTarget: 100, currency: 'USD' }),
+                    RevenueGoal.create({ month: '2030-03', revenueTarget: 1000, appointmentTarget: 4 }),
+                    RevenueGoal.create({ month: '2030-04', revenueTarget: 1000 })
+                ],
+                forecast,
+                rates
+            );
+
+            expect(progress).toHaveLength(2);
+            expect(progress[0].clinicId).toBeNull();
+            expect(progress[0].revenue).toEqual({ target: 1000, realized: 700, projected: 1100, percent: 70, projectedPercent: 110 });
+            expect(progress[0].appointments).toEqual({ target: 4, realized: 1, projected: 2, percent: 25, projectedPercent: 50 });
+            expect(progress[1].revenue).toEqual({ target: 500, realized: 100, projected: 500, percent: 20, projectedPercent: 100 });
+            expect(progress[1].appointments).toBeNull();
+        });
+
+        it('should reject invalid goals', () => {
+            expect(() => RevenueGoal.create({ month: '2030-13', revenueTarget: 100 })).toThrow(DomainError);
+            expect(() => RevenueGoal.create({ month: '2030-03' })).toThrow(DomainError);
+            expect(() => RevenueGoal.create({ month: '2030-03', revenueTarget: -1, appointmentTarget: 2 })).toThrow(DomainError);
+            expect(() => RevenueGoal.create({ month: '2030-03', appointmentTarget: 2.5 })).toThrow(DomainError);
+        });
+    });
+
+    describe('cashFlow', () => {
+        it('should place open installments by due date and other balances by appointment date', () => {
+            const withInstallments = createAppointment({ date: '2030-02-01', value: 900, paymentType: '100', paymentPercentage: null });
+            const installment = (dueDate: string) => Payment.create({ appointmentId: withInstallments.id, amount: 300, dueDate });
+
+            const projection = ForecastDomainService.cashFlow(
+                [
+                    withInstallments,
+                    createAppointment({ date: '2030-04-20' }),
+                    createAppointment({ date: '2030-03-05', value: 200, paymentType: '100', paymentPercentage: null, amountPaid: 50 }),
+                    createAppointment({ date: '2030-04-02', clinicalStatus: 'cancelled' })
+                ],
+                [installment('2030-02-01'), installment('2030-03-15'), installment('2030-06-15')],
+                '2030-03-10',
+                3,
+                'BRL',
+                []
+            );
+
+            expect(projection.months).toEqual([
+                { month: '2030-03', installments: 300, appointments: 0, total: 300 },
+                { month: '2030-04', installments: 0, appointments: 600, total: 600 },
+                { month: '2030-05', installments: 0, appointments: 0, total: 0 }
+            ]);
+            expect(projection.overdue).toBe(450);
+        });
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PatientDomainService } from '../../../domain/services/PatientDomainService';
+import { Patient } from '../../../domain/entities/Patient';
 
 interface MockPatientRepository {
     findByNameOrEmail: ReturnType<typeof vi.fn>;
@@ -134,5 +135,65 @@ describe('PatientDomainService', () => {
             expect(result.isValid).toBe(true);
         });
     });
-});
 
+    describe('duplicate detection', () => {
+        const createPatient = (name: string, extra: Partial<Parameters<typeof Patient.create>[0]> = {}) =>
+            Patient.create({ name, userId: 'user-123', ...extra });
+
+        it('should compare names ignoring accents, particles, order and small typos', () => {
+            expect(PatientDomainService.nameSimilarity('Maria da Silva', 'Maria Silva')).toBe(1);
+            expect(PatientDomainService.nameSimilarity('JOSÉ Antônio', 'antonio jose')).toBe(1);
+            expect(PatientDomainService.nameSimilarity('Ana Souza', 'Ana Sousa')).toBe(1);
+            expect(PatientDomainService.nameSimilarity('Maria Silva', 'Maria Aparecida Silva')).toBeCloseTo(0.8);
+            expect(PatientDomainService.nameSimilarity('Maria Silva', 'Mariana Costa')).toBe(0);
+        });
+
+        it('should match by CPF, phone, email or similar name, strongest first', () => {
+            const sameName = createPatient('Maria Silva');
+            const samePhone = createPatient('Joana Prado', { phone: '11988887777' });
+            const sameCpf = createPatient('M. Oliveira', { cpf: '529.982.247-25' });
+            const other = createPatient('Pedro Lima', { email: 'pedro@email.com' });
+
+            const matches = PatientDomainService.findDuplicates(
+                { name: 'Maria da Silva', phone: '(11) 98888-7777', cpf: '52998224725' },
+                [sameName, samePhone, other, sameCpf]
+            );
+
+            expect(matches.map(match => [match.patient.id, match.reasons])).toEqual([
+                [sameCpf.id, ['cpf']],
+                [samePhone.id, ['phone']],
+                [sameName.id, ['name']]
+            ]);
+            expect(PatientDomainService.findDuplicates({ name: 'Maria Silva' }, [sameName], sameName.id)).toEqual([]);
+        });
+
+        it('should list suspected pairs among registered patients', () => {
+            const first = createPatient('João Pedro Santos', { email: 'jp@email.com' });
+            const second = createPatient('Joao Santos', { email: 'JP@email.com' });
+            const unrelated = createPatient('Carla Mendes');
+
+            const pairs = PatientDomainService.findDuplicatePairs([first, unrelated, second]);
+
+            expect(pairs).toHaveLength(1);
+            expect(pairs[0].patients.map(patient => patient.id)).toEqual([first.id, second.id]);
+            expect(pairs[0].reasons).toEqual(['email', 'name']);
+        });
+
+        it('should fill only the missing data of the kept patient when merging', () => {
+            const target = createPatient('Maria Silva', { phone: '11911112222' });
+            const source = createPatient('Maria da Silva', {
+                phone: '11933334444',
+                email: 'maria@email.com',
+                cpf: '52998224725',
+                lastVisit: '2020-05-10'
+            });
+
+            PatientDomainService.mergeInto(target, source);
+
+            expect(target.phone).toBe('11911112222');
+            expect(target.email).toBe('maria@email.com');
+            expect(target.cpf).toBe('52998224725');
+            expect(target.lastVisit?.toISOString().startsWith('2020-05-10')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { PaymentDomainService } from '../../../domain/services/PaymentDomainService';
+import { Payment } from '../../../domain/entities/Payment';
+import { PaymentMethodFee } from '../../../domain/entities/PaymentMethodFee';
+import { ExchangeRate } from '../../../domain/entities/ExchangeRate';
+import { Money } from '../../../domain/value-objects/Money';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('PaymentDomainService', () => {
+    describe('buildInstallments', () => {
+        it('should split the total without losing cents', () => {
+            const installments = PaymentDomainService.buildInstallments(100, 3, '2030-01-31');
+
+            expect(installments.map(installment => installment.amount)).toEqual([33.34, 33.33, 33.33]);
+            expect(installments.reduce((sum, installment) => sum + Math.round(installment.amount * 100), 0)).toBe(10000);
+        });
+
+        it('should schedule due dates by month, clamping to the end of the month', () => {
+            const installments = PaymentDomainService.buildInstallments(300, 3, '2030-01-31');
+
+            expect(installments.map(installment => installment.dueDate)).toEqual(['2030-01-31', '2030-02-28', '2030-03-31']);
+            expect(installments[2]).toMatchObject({ installmentNumber: 3, installmentCount: 3 });
+        });
+
+        it('should honour the interval between installments', () => {
+            const installments = PaymentDomainService.buildInstallments(200, 2, '2030-01-15', 2);
+
+            expect(installments.map(installment => installment.dueDate)).toEqual(['2030-01-15', '2030-03-15']);
+        });
+
+        it('should reject invalid installment counts', () => {
+            expect(() => PaymentDomainService.buildInstallments(100, 0, '2030-01-15')).toThrow(DomainError);
+            expect(() => PaymentDomainService.buildInstallments(100, 25, '2030-01-15')).toThrow(DomainError);
+            expect(() => PaymentDomainService.buildInstallments(0.02, 3, '2030-01-15')).toThrow(DomainError);
+        });
+    });
+
+    describe('summarize', () => {
+        const payments = () => [
+            Payment.create({ appointmentId: 'a-1', amount: 100, paidDate: '2030-01-05', method: 'pix' }),
+            Payment.create({ appointmentId: 'a-1', amount: 100, dueDate: '2030-02-05', installmentNumber: 1, installmentCount: 2 }),
+            Payment.create({ appointmentId: 'a-1', amount: 100, dueDate: '2030-03-05', installmentNumber: 2, installmentCount: 2 })
+        ];
+
+        it('should derive a partial status with the remaining balance', () => {
+            const summary = PaymentDomainService.summarize(300, payments(), '2030-02-10');
+
+            expect(summary.status).toBe('partial');
+            expect(summary.paid).toBe(100);
+            expect(summary.remaining).toBe(200);
+            expect(summary.scheduled).toBe(200);
+            expect(summary.remainingCents).toBe(20000);
+            expect(summary.scheduledCents).toBe(20000);
+            expect(summary.lastPaidDate).toBe('2030-01-05');
+            expect(summary.overdue).toHaveLength(1);
+        });
+
+        it('should be paid once every installment is settled', () => {
+            const all = payments();
+            all[1].markPaid('2030-02-05');
+            all[2].markPaid('2030-03-01');
+
+            const summary = PaymentDomainService.summarize(300, all, '2030-03-10');
+
+            expect(summary.status).toBe('paid');
+            expect(summary.remaining).toBe(0);
+            expect(summary.lastPaidDate).toBe('2030-03-01');
+        });
+
+        it('should be pending without payments', () => {
+            expect(PaymentDomainService.summarize(300, [], '2030-01-01').status).toBe('pending');
+        });
+    });
+
+    describe('settlementTerms', () => {
+        const fees = [
+            PaymentMethodFee.create({ method: 'credit_card', percentage: 3, installmentPercentage: 1.5, fixedAmount: 0.5, settlementDays: 30 }),
+            PaymentMethodFee.create({ method: 'insurance', percentage: 10, settlementDays: 45 })
+        ];
+
+        it('should add the per-installment rate for credit card installments', () => {
+            expect(PaymentDomainService.settlementTerms(fees, 'credit_card', Money.create(1000), 4)).toEqual({
+                feeAmount: 75.5,
+                settlementDays: 30,
+                cardInstallments: 4
+            });
+        });
+
+        it('should use the configured delay for insurance', () => {
+            expect(PaymentDomainService.settlementTerms(fees, 'insurance', Money.create(200))).toEqual({
+                feeAmount: 20,
+                settlementDays: 45,
+                cardInstallments: null
+            });
+        });
+
+        it('should settle in full on the same day without configuration', () => {
+            expect(PaymentDomainService.settlementTerms(fees, 'pix', Money.create(200))).toEqual({
+                feeAmount: 0,
+                settlementDays: 0,
+                cardInstallments: null
+            });
+        });
+
+        it('should reject an installment rate on methods other than credit card', () => {
+            expect(() => PaymentMethodFee.create({ method: 'pix', installmentPercentage: 1 })).toThrow(DomainError);
+            expect(() => PaymentMethodFee.create({ method: 'pix', settlementDays: 1.5 })).toThrow(DomainError);
+        });
+    });
+
+    describe('breakdownByMethod', () => {
+        const paid = (overrides: Partial<Parameters<typeof Payment.create>[0]>) =>
+            Payment.create({ appointmentId: 'appointment-1', amount: 100, paidDate: '2030-01-10', method: 'pix', ...overrides });
+
+        it('should total gross, fees, net and credits still to settle per method', () => {
+            const breakdown = PaymentDomainService.breakdownByMethod([
+                paid({}),
+                paid({ amount: 300, method: 'credit_card', feeAmount: 15, settlementDays: 30, cardInstallments: 3 }),
+                paid({ amount: 50, method: null })
+            ], 'BRL', [], '2030-02-15');
+
+            expect(breakdown.rows).toEqual([
+                { method: 'credit_card', count: 1, gross: 300, fees: 15, net: 285, toSettle: 190, nextSettlementDate: '2030-03-11' },
+                { method: 'pix', count: 1, gross: 100, fees: 0, net: 100, toSettle: 0, nextSettlementDate: null },
+                { method: null, count: 1, gross: 50, fees: 0, net: 50, toSettle: 0, nextSettlementDate: null }
+            ]);
+            expect(breakdown.totals).toEqual({ gross: 450, fees: 15, net: 435, toSettle: 190 });
+        });
+
+        it('should convert to the reporting currency and report missing rates', () => {
+            const rates = [ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5, date: '2030-01-01' })];
+
+            const breakdown = PaymentDomainService.breakdownByMethod([
+                paid({ currency: 'USD', feeAmount: 2 }),
+                paid({ currency: 'EUR' })
+            ], 'BRL', rates, '2030-01-10');
+
+            expect(breakdown.totals).toEqual({ gross: 500, fees: 10, net: 490, toSettle: 0 });
+            expect(breakdown.missingRates).toEqual([{ currency: 'EUR', date: '2030-01-10' }]);
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { PricingDomainService } from '../../../domain/services/PricingDomainService';
+import { ProcedurePrice } from '../../../domain/entities/ProcedurePrice';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('PricingDomainService', () => {
+    const prices = [
+        ProcedurePrice.create({ id: 'canal-2029', clinicId: 'clinic-1', procedureId: 'canal', price: 800, effectiveFrom: '2029-01-01' }),
+        ProcedurePrice.create({ id: 'canal-2030', clinicId: 'clinic-1', procedureId: 'canal', price: 900, effectiveFrom: '2030-01-01' }),
+        ProcedurePrice.create({ id: 'consulta-2030', clinicId: 'clinic-1', procedureId: 'consulta', price: 150, effectiveFrom: '2030-01-01' }),
+        ProcedurePrice.create({ id: 'canal-clinic-2', clinicId: 'clinic-2', procedureId: 'canal', price: 1000, effectiveFrom: '2029-01-01' })
+    ];
+
+    const createAppointment = (overrides: Partial<Parameters<typeof Appointment.create>[0]> = {}) =>
+        Appointment.create({
+            patientId: 'patient-1',
+            clinicId: 'clinic-1',
+            date: '2030-02-10',
+            time: '09:00',
+            procedure: 'Tratamento de Canal',
+            value: 900,
+            ...overrides
+        });
+
+    it('should reject a price version without a valid effective date', () => {
+        expect(() => ProcedurePrice.create({ clinicId: 'clinic-1', procedureId: 'canal', price: 100, effectiveFrom: '01/01/2030' }))
+            .toThrow(DomainError);
+    });
+
+    describe('resolve', () => {
+        it('should use the version effective on the appointment date', () => {
+            expect(PricingDomainService.resolve(prices, 'clinic-1', 'canal', '2029-06-10')?.id).toBe('canal-2029');
+            expect(PricingDomainService.resolve(prices, 'clinic-1', 'canal', '2030-06-10')?.id).toBe('canal-2030');
+            expect(PricingDomainService.resolve(prices, 'clinic-2', 'canal', '2030-06-10')?.id).toBe('canal-clinic-2');
+        });
+
+        it('should return null when there is no price in effect', () => {
+            expect(PricingDomainService.resolve(prices, 'clinic-1', 'canal', '2028-12-31')).toBeNull();
+            expect(PricingDomainService.resolve(prices, 'clinic-1', 'limpeza', '2030-06-10')).toBeNull();
+        });
+    });
+
+    it('should flag one current version per procedure', () => {
+        const clinicPrices = prices.filter(price => price.clinicId === 'clinic-1');
+
+        expect([...PricingDomainService.currentPriceIds(clinicPrices, '2030-06-10')].sort()).toEqual(['canal-2030', 'consulta-2030']);
+        expect(PricingDomainService.sortHistory(clinicPrices).map(price => price.id)).toEqual(['canal-2030', 'canal-2029', 'consulta-2030']);
+    });
+
+    describe('findDivergences', () => {
+        const procedureIds = new Map([['tratamento de canal', 'canal'], ['consulta', 'consulta']]);
+
+        it('should list appointments charged differently from the price in effect on their date', () => {
+            const onList = createAppointment({ id: 'on-list' });
+            const discounted = createAppointment({ id: 'discounted', value: 850 });
+            const oldPrice = createAppointment({ id: 'old-price', date: '2029-11-10', value: 900 });
+
+            const divergences = PricingDomainService.findDivergences([onList, discounted, oldPrice], prices, procedureIds);
+
+            expect(divergences.map(divergence => [divergence.appointment.id, divergence.price.id, divergence.difference])).toEqual([
+                ['old-price', 'canal-2029', 100],
+                ['discounted', 'canal-2030', -50]
+            ]);
+        });
+
+        it('should skip cancelled appointments, unpriced procedures and other currencies', () => {
+            const cancelled = createAppointment({ value: 500, status: 'cancelled' });
+            const unpriced = createAppointment({ procedure: 'Clareamento', value: 500 });
+            const dollars = createAppointment({ value: 500, currency: 'USD' });
+
+            expect(PricingDomainService.findDivergences([cancelled, unpriced, dollars], prices, procedureIds)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { ProfitDomainService } from '../../../domain/services/ProfitDomainService';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { Expense } from '../../../domain/entities/Expense';
+import { ExchangeRate } from '../../../domain/entities/ExchangeRate';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('ProfitDomainService', () => {
+    const createAppointment = (overrides: Partial<Parameters<typeof Appointment.create>[0]> = {}) =>
+        Appointment.create({
+            patientId: 'patient-1',
+            clinicId: 'clinic-1',
+            date: '2030-01-10',
+            time: '09:00',
+            procedure: 'Canal',
+            value: 1000,
+            paymentType: 'percentage',
+            paymentPercentage: 60,
+            isPaid: true,
+            paymentDate: '2030-01-10',
+            ...overrides
+        });
+
+    const createExpense = (overrides: Partial<Parameters<typeof Expense.create>[0]> = {}) =>
+        Expense.create({
+            category: 'material',
+            description: 'Limas',
+            amount: 100,
+            date: '2030-01-15',
+            ...overrides
+        });
+
+    describe('occurrences', () => {
+        it('should repeat recurring expenses until the end of the period', () => {
+            const rent = createExpense({ category: 'rent', description: 'Sala', date: '2030-01-31', recurrence: 'monthly' });
+
+            expect(rent.occurrencesBetween('2030-01-01', '2030-04-30')).toEqual(['2030-01-31', '2030-02-28', '2030-03-31', '2030-04-30']);
+            expect(rent.occurrencesBetween('2029-01-01', '2029-12-31')).toEqual([]);
+        });
+
+        it('should stop a recurrence at its end date', () => {
+            const rent = createExpense({ date: '2030-01-05', recurrence: 'weekly' });
+            rent.endRecurrence('2030-01-19');
+
+            expect(ProfitDomainService.occurrences([rent], '2030-01-01', '2030-02-28').map(o => o.date))
+                .toEqual(['2030-01-05', '2030-01-12', '2030-01-19']);
+            expect(() => createExpense().endRecurrence('2030-02-01')).toThrow(DomainError);
+            expect(() => rent.endRecurrence('2029-12-31')).toThrow(DomainError);
+        });
+
+        it('should not allow a recurring expense linked to an appointment', () => {
+            expect(() => createExpense({ appointmentId: 'appointment-1', recurrence: 'monthly' })).toThrow(DomainError);
+            expect(() => createExpense({ recurrenceUntil: '2030-02-01' })).toThrow(DomainError);
+        });
+    });
+
+    describe('buildReport', () => {
+        it('should subtract expenses from revenue by month, clinic and procedure', () => {
+            const report = ProfitDomainService.buildReport(
+                [
+                    createAppointment(),
+                    createAppointment({ date: '2030-02-10', paymentDate: '2030-02-10', clinicId: 'clinic-2', procedure: 'Extração', value: 500 }),
+                    createAppointment({ date: '2030-02-12', isPaid: false, paymentDate: null })
+                ],
+                [
+                    createExpense({ clinicId: 'clinic-1', procedure: 'canal' }),
+                    createExpense({ category: 'rent', description: 'Sala', amount: 200, date: '2030-01-01', recurrence: 'monthly' })
+                ],
+                '2030-01-01',
+                '2030-02-28',
+                'BRL',
+                []
+            );
+
+            expect(report.byMonth).toEqual([
+                { key: '2030-01', label: '2030-01', revenue: 600, expenses: 300, net: 300 },
+                { key: '2030-02', label: '2030-02', revenue: 300, expenses: 200, net: 100 }
+            ]);
+            expect(report.byClinic.find(row => row.key === 'clinic-1')).toMatchObject({ revenue: 600, expenses: 100, net: 500 });
+            expect(report.byClinic.find(row => row.key === '')).toMatchObject({ revenue: 0, expenses: 400, net: -400 });
+            expect(report.byProcedure.find(row => row.key === 'canal')).toMatchObject({ revenue: 600, expenses: 100 });
+            expect(report.totals).toEqual({ revenue: 900, expenses: 500, net: 400 });
+        });
+
+        it('should count only the received share of partially paid appointments', () => {
+            const partial = createAppointment({ isPaid: false, paymentDate: null, amountPaid: 500 });
+
+            const report = ProfitDomainService.buildReport([partial], [], '2030-01-01', '2030-01-31', 'BRL', []);
+
+            expect(report.totals.revenue).toBe(300);
+        });
+
+        it('should convert amounts and report missing rates', () => {
+            const rates = [ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5, date: '2030-01-01' })];
+
+            const report = ProfitDomainService.buildReport(
+                [createAppointment({ currency: 'USD', value: 100 })],
+                [createExpense({ currency: 'EUR', amount: 10 }), createExpense({ amount: 50 })],
+                '2030-01-01',
+                '2030-01-31',
+                'BRL',
+                rates
+            );
+
+            expect(report.totals).toEqual({ revenue: 300, expenses: 50, net: 250 });
+            expect(report.missingRates).toEqual([{ currency: 'EUR', date: '2030-01-15' }]);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ReceivablesDomainService } from '../../../domain/services/ReceivablesDomainService';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { ExchangeRate } from '../../../domain/entities/ExchangeRate';
+
+describe('ReceivablesDomainService', () => {
+    const createAppointment = (overrides: Partial<Parameters<typeof Appointment.create>[0]> = {}) =>
+        Appointment.create({
+            patientId: 'patient-1',
+            clinicId: 'clinic-1',
+            date: '2030-03-01',
+            time: '09:00',
+            procedure: 'Canal',
+            value: 1000,
+            paymentType: 'percentage',
+            paymentPercentage: 60,
+            ...overrides
+        });
+
+    it('should classify ages into 0–30, 31–60, 61–90 and 90+ days', () => {
+        expect(ReceivablesDomainService.daysBetween('2030-01-01', '2030-03-01')).toBe(59);
+        expect([0, 30, 31, 60, 61, 90, 91].map(days => ReceivablesDomainService.bucketFor(days)))
+            .toEqual(['0_30', '0_30', '31_60', '31_60', '61_90', '61_90', '90_plus']);
+    });
+
+    it('should group open balances by patient and clinic, most overdue first', () => {
+        const report = ReceivablesDomainService.buildReport(
+            [
+                createAppointment({ date: '2030-02-20', amountPaid: 400 }),
+                createAppointment({ date: '2029-11-01', patientId: 'patient-2', clinicId: 'clinic-2', value: 300 }),
+                createAppointment({ date: '2030-01-15', patientId: 'patient-2', value: 200 })
+            ],
+            '2030-03-01',
+            'BRL',
+            [],
+            new Map([['patient-1', 'Ana'], ['patient-2', 'Bruno']]),
+            new Map([['clinic-1', 'Centro']])
+        );
+
+        expect(report.buckets).toEqual({ '0_30': 600, '31_60': 200, '61_90': 0, '90_plus': 300 });
+        expect(report.total).toBe(1100);
+        expect(report.byPatient.map(group => [group.label, group.total])).toEqual([['Bruno', 500], ['Ana', 600]]);
+        expect(report.byPatient[0].items.map(item => item.ageDays)).toEqual([120, 45]);
+        expect(report.byClinic.map(group => [group.label, group.total])).toEqual([['', 300], ['Centro', 800]]);
+    });
+
+    it('should skip paid, cancelled and future appointments', () => {
+        const report = ReceivablesDomainService.buildReport(
+            [
+                createAppointment({ isPaid: true, paymentDate: '2030-03-01' }),
+                createAppointment({ clinicalStatus: 'cancelled' }),
+                createAppointment({ date: '2030-03-02' }),
+                createAppointment({ value: 0 })
+            ],
+            '2030-03-01',
+            'BRL',
+            []
+        );
+
+        expect(report.total).toBe(0);
+        expect(report.byPatient).toEqual([]);
+    });
+
+    it('should convert at the appointment date and report missing rates', () => {
+        const rates = [ExchangeRate.create({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5, date: '2030-01-01' })];
+
+        const report = ReceivablesDomainService.buildReport(
+            [
+                createAppointment({ date: '2030-02-01', value: 100, currency: 'USD' }),
+                createAppointment({ date: '2030-02-01', value: 100, currency: 'EUR' })
+            ],
+            '2030-03-01',
+            'BRL',
+            rates
+        );
+
+        expect(report.total).toBe(500);
+        expect(report.byPatient[0].items[0].balance.amount).toBe(100);
+        expect(report.missingRates).toEqual([{ currency: 'EUR', date: '2030-02-01' }]);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { SchedulingDomainService } from '../../../domain/services/SchedulingDomainService';
+import { Clinic } from '../../../domain/entities/Clinic';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { WaitlistEntry } from '../../../domain/entities/WaitlistEntry';
+
+const clinic = Clinic.create({
+    id: 'clinic-1',
+    name: 'Clínica Centro',
+    workingHours: [
+        { weekday: 1, start: '08:00', end: '12:00' },
+        { weekday: 1, start: '14:00', end: '16:00' }
+    ],
+    blockedDates: [{ date: '2030-01-14', kind: 'blocked', reason: null }]
+});
+
+const appointment = (clinicId: string, date: string, time: string, durationMinutes = 60) => Appointment.create({
+    patientId: 'patient-1',
+    clinicId,
+    date,
+    time,
+    durationMinutes,
+    procedure: 'Consulta',
+    value: 0
+});
+
+// Segunda-feira, 07/01/2030
+const MONDAY = '2030-01-07';
+const BEFORE = new Date(2030, 0, 1, 9, 0);
+
+describe('SchedulingDomainService', () => {
+    describe('findFreeSlots', () => {
+        it('should suggest back-to-back slots inside the working windows', () => {
+            const slots = SchedulingDomainService.findFreeSlots(clinic, [], {
+                fromDate: MONDAY,
+                durationMinutes: 90,
+                limit: 4,
+                now: BEFORE
+            });
+
+            expect(slots.map(slot => `${slot.date} ${slot.time}-${slot.endTime}`)).toEqual([
+                '2030-01-07 08:00-09:30',
+                '2030-01-07 09:30-11:00',
+                '2030-01-07 14:00-15:30',
+                '2030-01-21 08:00-09:30' // 14/01 bloqueado
+            ]);
+        });
+
+        it('should skip existing appointments and their durations', () => {
+            const slots = SchedulingDomainService.findFreeSlots(clinic, [appointment('clinic-1', MONDAY, '08:30', 45)], {
+                fromDate: MONDAY,
+                durationMinutes: 60,
+                limit: 2,
+                now: BEFORE
+            });
+
+            expect(slots.map(slot => slot.time)).toEqual(['09:15', '10:15']);
+        });
+
+        it('should ignore cancelled appointments', () => {
+            const cancelled = appointment('clinic-1', MONDAY, '08:00');
+            cancelled.transitionTo('cancelled');
+
+            const [first] = SchedulingDomainService.findFreeSlots(clinic, [cancelled], {
+                fromDate: MONDAY,
+                durationMinutes: 60,
+                now: BEFORE
+            });
+
+            expect(first.time).toBe('08:00');
+        });
+
+        it('should reserve travel time around appointments in other clinics', () => {
+            const [first] = SchedulingDomainService.findFreeSlots(clinic, [appointment('clinic-2', MONDAY, '08:00')], {
+                fromDate: MONDAY,
+                durationMinutes: 60,
+                now: BEFORE
+            });
+
+            expect(first.time).toBe('09:30');
+        });
+
+        it('should not suggest times that already passed today', () => {
+            const [first] = SchedulingDomainService.findFreeSlots(clinic, [], {
+                fromDate: MONDAY,
+                durationMinutes: 60,
+                now: new Date(2030, 0, 7, 10, 5)
+            });
+
+            expect(first.time).toBe('10:15');
+        });
+
+        it('should return nothing when the clinic has no working hours', () => {
+            const slots = SchedulingDomainService.findFreeSlots(Clinic.create({ name: 'Sem expediente' }), [], {
+                fromDate: MONDAY,
+                durationMinutes: 60,
+                now: BEFORE
+            });
+
+            expect(slots).toEqual([]);
+        });
+    });
+
+    describe('matchWaitlist', () => {
+        const slot = { clinicId: 'clinic-1', date: MONDAY, time: '09:00', durationMinutes: 60 };
+        const entry = (patientId: string, priority: 'normal' | 'urgent', createdAt: string, clinicId: string | null = null) =>
+            WaitlistEntry.create({ patientId, clinicId, procedure: 'Consulta', priority, createdAt });
+
+        it('should rank matching entries by priority, then by arrival', () => {
+            const matches = SchedulingDomainService.matchWaitlist(slot, [
+                entry('patient-a', 'normal', '2029-12-01T10:00:00Z'),
+                entry('patient-b', 'urgent', '2029-12-20T10:00:00Z'),
+                entry('patient-c', 'normal', '2029-11-01T10:00:00Z'),
+                entry('patient-d', 'urgent', '2029-11-01T10:00:00Z', 'clinic-2')
+            ]);
+
+            expect(matches.map(match => match.patientId)).toEqual(['patient-b', 'patient-c', 'patient-a']);
+        });
+
+        it('should not offer the slot back to the patient who cancelled', () => {
+            const matches = SchedulingDomainService.matchWaitlist(
+                slot,
+                [entry('patient-1', 'urgent', '2029-12-01T10:00:00Z')],
+                'patient-1'
+            );
+
+            expect(matches).toEqual([]);
+        });
+    });
+});
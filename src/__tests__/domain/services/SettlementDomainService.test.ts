@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SettlementDomainService } from '../../../domain/services/SettlementDomainService';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { DomainError } from '../../../domain/errors/AppError';
+
+describe('SettlementDomainService', () => {
+    const createAppointment = (overrides: Partial<Parameters<typeof Appointment.create>[0]> = {}) =>
+        Appointment.create({
+            patientId: 'patient-1',
+            clinicId: 'clinic-1',
+            date: '2030-01-10',
+            time: '09:00',
+            procedure: 'Canal',
+            value: 1000,
+            paymentType: 'percentage',
+            paymentPercentage: 60,
+            isPaid: true,
+            paymentDate: '2030-01-10',
+            ...overrides
+        });
+
+    it('should select only paid appointments that are not in another settlement', () => {
+        const paid = createAppointment();
+        const pending = createAppointment({ isPaid: false, paymentDate: null });
+        const locked = createAppointment();
+        locked.lockForSettlement('statement-1');
+
+        expect(SettlementDomainService.selectSettleable([paid, pending, locked])).toEqual([paid]);
+    });
+
+    it('should split the gross value between our share and the clinic share', () => {
+        const line = SettlementDomainService.buildLine(createAppointment({ value: 333.33 }), 'Maria');
+
+        expect(line).toMatchObject({ patientName: 'Maria', grossValue: 333.33, ourShare: 200, clinicShare: 133.33 });
+    });
+
+    it('should refuse appointments in different currencies', () => {
+        expect(SettlementDomainService.resolveCurrency([createAppointment()])).toBe('BRL');
+        expect(() => SettlementDomainService.resolveCurrency([
+            createAppointment(),
+            createAppointment({ currency: 'USD' })
+        ])).toThrow(DomainError);
+    });
+
+    it('should reconcile only when revenue matches and nothing is pending', () => {
+        expect(SettlementDomainService.reconcile(600, 600, []).reconciled).toBe(true);
+
+        const mismatch = SettlementDomainService.reconcile(600, 850.1, ['a-9']);
+        expect(mismatch.difference).toBe(250.1);
+        expect(mismatch.reconciled).toBe(false);
+    });
+});
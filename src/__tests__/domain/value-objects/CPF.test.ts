@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { CPF } from '../../../domain/value-objects/CPF';
+import { ValidationError } from '../../../domain/errors/AppError';
+
+describe('CPF Value Object', () => {
+    describe('create', () => {
+        it('should normalize and format a valid CPF', () => {
+            const cpf = CPF.create('529.982.247-25');
+            expect(cpf).toBeInstanceOf(CPF);
+            expect(cpf?.toString()).toBe('52998224725');
+            expect(cpf?.format()).toBe('529.982.247-25');
+        });
+
+        it('should throw error for invalid CPF', () => {
+            expect(() => new CPF('529.982.247-24')).toThrow(ValidationError);
+        });
+
+        it('should return null for null/undefined', () => {
+            expect(CPF.create(null)).toBeNull();
+            expect(CPF.create(undefined)).toBeNull();
+        });
+    });
+
+    describe('isValid', () => {
+        it('should check both verification digits', () => {
+            expect(CPF.isValid('52998224725')).toBe(true);
+            expect(CPF.isValid('11144477735')).toBe(true);
+            expect(CPF.isValid('11144477734')).toBe(false);
+            expect(CPF.isValid('11144477725')).toBe(false);
+        });
+
+        it('should reject repeated digits and wrong lengths', () => {
+            expect(CPF.isValid('111.111.111-11')).toBe(false);
+            expect(CPF.isValid('5299822472')).toBe(false);
+            expect(CPF.isValid(null)).toBe(false);
+        });
+    });
+
+    describe('equals', () => {
+        it('should compare normalized values', () => {
+            expect(new CPF('529.982.247-25').equals(new CPF('52998224725'))).toBe(true);
+        });
+    });
+});
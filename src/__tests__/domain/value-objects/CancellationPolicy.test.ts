@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { CancellationPolicy } from '../../../domain/value-objects/CancellationPolicy';
+import { ValidationError } from '../../../domain/errors/AppError';
+
+describe('CancellationPolicy Value Object', () => {
+    const startsAt = new Date(2030, 4, 10, 14, 0);
+    const hoursBefore = (hours: number) => new Date(startsAt.getTime() - hours * 60 * 60 * 1000);
+
+    it('should default to 24h notice without fee or override', () => {
+        const policy = CancellationPolicy.default();
+
+        expect(policy.noticeHours).toBe(24);
+        expect(policy.lateFee).toBeNull();
+        expect(policy.allowLateOverride).toBe(false);
+    });
+
+    it.each([-1, 1.5, 721])('should reject notice of %s hours', (noticeHours) => {
+        expect(() => CancellationPolicy.create({ noticeHours })).toThrow(ValidationError);
+    });
+
+    it('should reject a negative late fee', () => {
+        expect(() => CancellationPolicy.create({ noticeHours: 24, lateFee: -10 })).toThrow(ValidationError);
+    });
+
+    it('should flag cancellations inside the notice window as late', () => {
+        const policy = CancellationPolicy.create({ noticeHours: 48 });
+
+        expect(policy.isLate(startsAt, hoursBefore(48))).toBe(false);
+        expect(policy.isLate(startsAt, hoursBefore(47))).toBe(true);
+        expect(policy.isLate(startsAt, hoursBefore(-1))).toBe(true);
+    });
+
+    it('should describe the policy and serialize to the database format', () => {
+        const policy = CancellationPolicy.create({ noticeHours: 12, lateFee: 50, allowLateOverride: true });
+
+        expect(policy.describe()).toBe('12h de antecedência, taxa de 50.00, exceção com motivo');
+        expect(policy.toJSON()).toEqual({ notice_hours: 12, late_fee: 50, allow_late_override: true });
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { ClinicalStatus } from '../../../domain/value-objects/ClinicalStatus';
+import { ValidationError, DomainError } from '../../../domain/errors/AppError';
+
+describe('ClinicalStatus Value Object', () => {
+    describe('create', () => {
+        it('should default to scheduled', () => {
+            expect(ClinicalStatus.create().value).toBe('scheduled');
+        });
+
+        it('should throw error for invalid status', () => {
+            expect(() => {
+                new ClinicalStatus('paid' as never);
+            }).toThrow(ValidationError);
+        });
+    });
+
+    describe('transitionTo', () => {
+        it('should follow the lifecycle scheduled → confirmed → in progress → completed', () => {
+            const completed = ClinicalStatus.create('scheduled')
+                .transitionTo('confirmed')
+                .transitionTo('in_progress')
+                .transitionTo('completed');
+
+            expect(completed.value).toBe('completed');
+            expect(completed.isFinal).toBe(true);
+        });
+
+        it('should not allow going back to an earlier state', () => {
+            expect(() => {
+                ClinicalStatus.create('in_progress').transitionTo('confirmed');
+            }).toThrow(DomainError);
+        });
+
+        it('should not allow leaving a final state', () => {
+            expect(ClinicalStatus.create('no_show').allowedTransitions()).toEqual([]);
+            expect(() => {
+                ClinicalStatus.create('cancelled').transitionTo('scheduled');
+            }).toThrow(DomainError);
+        });
+    });
+});
@@ -95,5 +95,92 @@ describe('Money Value Object', () => {
             expect(money1.equals(money3)).toBe(false);
         });
     });
-});
 
+    describe('minor units', () => {
+        it('should store the value as integer cents', () => {
+            expect(Money.create(19.99).cents).toBe(1999);
+            expect(Money.fromCents(1999).amount).toBe(19.99);
+        });
+
+        it('should not drift when adding values that are not exact in binary', () => {
+            const total = Money.create(0.1).add(Money.create(0.2));
+            expect(total.amount).toBe(0.3);
+
+            const sum = Money.sum(Array.from({ length: 1000 }, () => Money.create(0.01)));
+            expect(sum.amount).toBe(10);
+        });
+
+        it('should reject fractional cents', () => {
+            expect(() => Money.fromCents(10.5)).toThrow(ValidationError);
+        });
+    });
+
+    describe('rounding modes', () => {
+        it('should round half up by default, ignoring binary noise', () => {
+            expect(Money.create(1.005).amount).toBe(1.01);
+            expect(Money.create(100).percentage(33.335).amount).toBe(33.34);
+        });
+
+        it('should apply the requested rounding mode', () => {
+            const value = Money.create(10);
+
+            expect(value.multiply(0.0025, 'half-even').amount).toBe(0.02);
+            expect(value.multiply(0.0035, 'half-even').amount).toBe(0.04);
+            expect(value.multiply(0.0025, 'half-up').amount).toBe(0.03);
+            expect(value.multiply(0.0019, 'down').amount).toBe(0.01);
+            expect(value.multiply(0.0011, 'up').amount).toBe(0.02);
+            expect(Money.create(2.345, 'BRL', 'half-even').amount).toBe(2.34);
+        });
+    });
+
+    describe('allocate', () => {
+        it('should split without losing cents, leftovers going to the first parts', () => {
+            const parts = Money.create(100).allocate([1, 1, 1]);
+
+            expect(parts.map(part => part.amount)).toEqual([33.34, 33.33, 33.33]);
+            expect(Money.sum(parts).amount).toBe(100);
+        });
+
+        it('should split proportionally to the ratios', () => {
+            const [ours, clinic] = Money.create(0.05).allocate([70, 30]);
+
+            expect(ours.amount).toBe(0.04);
+            expect(clinic.amount).toBe(0.01);
+            expect(Money.create(10).allocate([0, 1]).map(part => part.amount)).toEqual([0, 10]);
+        });
+
+        it('should reject invalid ratios', () => {
+            expect(() => Money.create(10).allocate([])).toThrow(DomainError);
+            expect(() => Money.create(10).allocate([0, 0])).toThrow(DomainError);
+            expect(() => Money.create(10).allocate([1, -1])).toThrow(DomainError);
+        });
+    });
+
+    describe('min', () => {
+        it('should return the smaller value in the same currency', () => {
+            expect(Money.create(50).min(Money.create(30)).amount).toBe(30);
+            expect(() => Money.create(50).min(Money.create(30, 'USD'))).toThrow(DomainError);
+        });
+    });
+
+    describe('convert', () => {
+        it('should convert at the given rate, rounding to cents', () => {
+            const converted = Money.create(100, 'USD').convert('BRL', 5.4321);
+
+            expect(converted.currency).toBe('BRL');
+            expect(converted.amount).toBe(543.21);
+            expect(Money.create(10, 'EUR').convert('USD', 1.0725, 'half-even').amount).toBe(10.72);
+        });
+
+        it('should keep the value when converting to the same currency', () => {
+            const value = Money.create(10, 'BRL');
+
+            expect(value.convert('BRL', 5)).toBe(value);
+        });
+
+        it('should reject a non-positive rate', () => {
+            expect(() => Money.create(10, 'USD').convert('BRL', 0)).toThrow(DomainError);
+            expect(() => Money.create(10, 'USD').convert('BRL', Number.NaN)).toThrow(DomainError);
+        });
+    });
+});
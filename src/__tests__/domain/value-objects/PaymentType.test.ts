@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { PaymentType } from '../../../domain/value-objects/PaymentType';
+import { Money } from '../../../domain/value-objects/Money';
+import { ValidationError } from '../../../domain/errors/AppError';
+
+describe('PaymentType Value Object', () => {
+    it('should receive the full value or a percentage of it', () => {
+        expect(PaymentType.create('100').calculateReceivedValue(Money.create(500)).amount).toBe(500);
+        expect(PaymentType.create('percentage', 40).calculateReceivedValue(Money.create(500)).amount).toBe(200);
+    });
+
+    it('should cap a fixed amount at the appointment value', () => {
+        const fixed = PaymentType.create('fixed', null, 150);
+
+        expect(fixed.calculateReceivedValue(Money.create(500, 'USD'))).toEqual(Money.create(150, 'USD'));
+        expect(fixed.calculateReceivedValue(Money.create(100)).amount).toBe(100);
+    });
+
+    it('should require the value that matches the type', () => {
+        expect(() => PaymentType.create('percentage', null)).toThrow(ValidationError);
+        expect(() => PaymentType.create('fixed', 30, null)).toThrow(ValidationError);
+        expect(() => PaymentType.create('fixed', null, -1)).toThrow(ValidationError);
+    });
+
+    it('should compare only the fields relevant to the type', () => {
+        expect(PaymentType.create('fixed', 30, 150).equals(PaymentType.create('fixed', null, 150))).toBe(true);
+        expect(PaymentType.create('percentage', 30).equals(PaymentType.create('percentage', 35))).toBe(false);
+    });
+});
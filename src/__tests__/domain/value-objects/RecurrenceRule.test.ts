@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { RecurrenceRule, shiftDate, describeOffset } from '../../../domain/value-objects/RecurrenceRule';
+import { ValidationError } from '../../../domain/errors/AppError';
+
+describe('RecurrenceRule Value Object', () => {
+    describe('create', () => {
+        it('should require exactly one of until or count', () => {
+            expect(() => RecurrenceRule.create({ frequency: 'weekly', interval: 1 })).toThrow(ValidationError);
+            expect(() => RecurrenceRule.create({
+                frequency: 'weekly',
+                interval: 1,
+                until: '2030-12-31',
+                count: 4
+            })).toThrow(ValidationError);
+        });
+
+        it.each([0, -1, 1.5, 366])('should reject interval %s', (interval) => {
+            expect(() => RecurrenceRule.create({ frequency: 'daily', interval, count: 3 })).toThrow(ValidationError);
+        });
+
+        it('should reject count out of range', () => {
+            expect(() => RecurrenceRule.create({ frequency: 'daily', interval: 1, count: 1 })).toThrow(ValidationError);
+            expect(() => RecurrenceRule.create({ frequency: 'daily', interval: 1, count: 53 })).toThrow(ValidationError);
+        });
+    });
+
+    describe('occurrences', () => {
+        it('should generate N occurrences including the start date', () => {
+            const rule = RecurrenceRule.create({ frequency: 'weekly', interval: 2, count: 3 });
+
+            expect(rule.occurrences('2030-01-07')).toEqual(['2030-01-07', '2030-01-21', '2030-02-04']);
+        });
+
+        it('should stop at the until date (inclusive)', () => {
+            const rule = RecurrenceRule.create({ frequency: 'daily', interval: 3, until: '2030-01-10' });
+
+            expect(rule.occurrences('2030-01-01')).toEqual(['2030-01-01', '2030-01-04', '2030-01-07', '2030-01-10']);
+        });
+
+        it('should keep the original day of month when possible', () => {
+            const rule = RecurrenceRule.create({ frequency: 'monthly', interval: 1, count: 3 });
+
+            expect(rule.occurrences('2030-01-31')).toEqual(['2030-01-31', '2030-02-28', '2030-03-31']);
+        });
+
+        it('should reject until before the start date', () => {
+            const rule = RecurrenceRule.create({ frequency: 'daily', interval: 1, until: '2030-01-01' });
+
+            expect(() => rule.occurrences('2030-01-05')).toThrow(ValidationError);
+        });
+
+        it('should reject series longer than the maximum', () => {
+            const rule = RecurrenceRule.create({ frequency: 'daily', interval: 1, until: '2030-12-31' });
+
+            expect(() => rule.occurrences('2030-01-01')).toThrow(ValidationError);
+        });
+    });
+
+    describe('describe', () => {
+        it('should describe the rule in Portuguese', () => {
+            expect(RecurrenceRule.create({ frequency: 'weekly', interval: 2, count: 6 }).describe())
+                .toBe('A cada 2 semanas, 6 vezes');
+            expect(RecurrenceRule.create({ frequency: 'monthly', interval: 1, until: '2030-06-30' }).describe())
+                .toBe('Todo mês, até 30/06/2030');
+        });
+    });
+});
+
+describe('shiftDate', () => {
+    it('should add days, weeks and months', () => {
+        expect(shiftDate('2030-12-30', 3, 'days')).toBe('2031-01-02');
+        expect(shiftDate('2030-01-01', 2, 'weeks')).toBe('2030-01-15');
+        expect(shiftDate('2030-08-31', 6, 'months')).toBe('2031-02-28');
+    });
+
+    it('should describe offsets', () => {
+        expect(describeOffset({ amount: 1, unit: 'months' })).toBe('1 mês');
+        expect(describeOffset({ amount: 12, unit: 'months' })).toBe('12 meses');
+    });
+});
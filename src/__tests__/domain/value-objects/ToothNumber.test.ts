@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ToothNumber } from '../../../domain/value-objects/ToothNumber';
+import { ValidationError } from '../../../domain/errors/AppError';
+
+describe('ToothNumber Value Object', () => {
+    describe('create', () => {
+        it('should accept permanent teeth', () => {
+            const tooth = ToothNumber.create(36);
+
+            expect(tooth.value).toBe(36);
+            expect(tooth.quadrant).toBe(3);
+            expect(tooth.position).toBe(6);
+            expect(tooth.dentition).toBe('permanent');
+            expect(tooth.isUpper).toBe(false);
+        });
+
+        it('should accept deciduous teeth', () => {
+            const tooth = ToothNumber.create('55');
+
+            expect(tooth.value).toBe(55);
+            expect(tooth.dentition).toBe('deciduous');
+            expect(tooth.isUpper).toBe(true);
+        });
+
+        it.each([0, 10, 19, 56, 66, 76, 86, 90, 3.5])('should reject %s', (value) => {
+            expect(() => ToothNumber.create(value)).toThrow(ValidationError);
+        });
+
+        it('should reject non numeric strings', () => {
+            expect(() => ToothNumber.create('dente')).toThrow(ValidationError);
+        });
+    });
+
+    describe('createList', () => {
+        it('should remove duplicates and sort', () => {
+            const teeth = ToothNumber.createList([37, '36', 36, 11]);
+
+            expect(teeth.map(tooth => tooth.value)).toEqual([11, 36, 37]);
+        });
+
+        it('should accept empty values', () => {
+            expect(ToothNumber.createList(null)).toEqual([]);
+        });
+    });
+
+    describe('all', () => {
+        it('should list 32 permanent and 20 deciduous teeth', () => {
+            expect(ToothNumber.all('permanent')).toHaveLength(32);
+            expect(ToothNumber.all('deciduous')).toHaveLength(20);
+            expect(ToothNumber.all('deciduous')).toContain(85);
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+    toISODate,
+    parseISODate,
+    getVisibleRange,
+    getDaysInRange,
+    shiftAnchor,
+    minutesToTime
+} from '../../lib/calendar';
+
+describe('calendar utils', () => {
+    it('should convert between Date and YYYY-MM-DD without timezone shift', () => {
+        expect(toISODate(parseISODate('2030-01-15'))).toBe('2030-01-15');
+    });
+
+    it('should return a Monday to Sunday range for the week view', () => {
+        // 2030-05-15 é uma quarta-feira
+        const range = getVisibleRange('week', parseISODate('2030-05-15'));
+
+        expect(toISODate(range.start)).toBe('2030-05-13');
+        expect(toISODate(range.end)).toBe('2030-05-19');
+        expect(getDaysInRange(range)).toHaveLength(7);
+    });
+
+    it('should cover full weeks in the month view', () => {
+        const range = getVisibleRange('month', parseISODate('2030-05-15'));
+
+        expect(toISODate(range.start)).toBe('2030-04-29');
+        expect(toISODate(range.end)).toBe('2030-06-02');
+        expect(getDaysInRange(range).length % 7).toBe(0);
+    });
+
+    it('should shift the anchor according to the view', () => {
+        const anchor = parseISODate('2030-01-31');
+
+        expect(toISODate(shiftAnchor('day', anchor, 1))).toBe('2030-02-01');
+        expect(toISODate(shiftAnchor('week', anchor, -1))).toBe('2030-01-24');
+        expect(toISODate(shiftAnchor('month', anchor, 1))).toBe('2030-02-01');
+    });
+
+    it('should format minutes as HH:mm', () => {
+        expect(minutesToTime(9 * 60 + 5)).toBe('09:05');
+    });
+});
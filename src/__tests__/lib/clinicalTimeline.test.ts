@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { TIMELINE_EVENT_TYPES, buildClinicalTimeline, filterClinicalTimeline, timelineFilterOptions } from '../../lib/clinicalTimeline';
+import { EndodonticRecord } from '../../domain/entities/EndodonticRecord';
+import { Payment } from '../../domain/entities/Payment';
+
+describe('buildClinicalTimeline', () => {
+    const events = buildClinicalTimeline({
+        appointments: [
+            {
+                id: 'appointment-1',
+                date: '2030-05-10',
+                time: '09:00:00',
+                procedure: 'Abertura',
+                teeth: [36],
+                clinical_evolution: '<p>Acesso coronário</p>',
+                clinics: { id: 'clinic-1', name: 'Clínica Centro' }
+            },
+            {
+                id: 'appointment-2',
+                date: '2030-05-20',
+                time: '10:00',
+                procedure: 'Exodontia',
+                teeth: [18],
+                clinics: { id: 'clinic-2', name: 'Clínica Norte' }
+            }
+        ],
+        radiographs: [
+            { id: 'radio-1', file_name: 'periapical.jpg', teeth: [36], appointment: { id: 'appointment-1' } }
+        ],
+        payments: [
+            Payment.create({ id: 'payment-1', appointmentId: 'appointment-1', amount: 250, paidDate: '2030-05-10', method: 'pix' }),
+            Payment.create({ appointmentId: 'appointment-2', amount: 100, dueDate: '2030-06-20', installmentNumber: 1, installmentCount: 2 })
+        ],
+        endodonticRecords: [
+            EndodonticRecord.create({
+                appointmentId: 'appointment-1',
+                patientId: 'patient-1',
+                tooth: 36,
+                pulpalDiagnosis: 'pulp_necrosis'
+            })
+        ],
+        consents: [],
+        anamnesis: []
+    });
+
+    it('should interleave events from newest to oldest, with payments at the end of their day', () => {
+        expect(events.map(event => event.id)).toEqual([
+            'appointment-appointment-2',
+            'payment-payment-1',
+            'appointment-appointment-1',
+            'evolution-appointment-1',
+            'radiograph-radio-1'
+        ]);
+    });
+
+    it('should merge the endodontic record and the evolution text into one evolution event', () => {
+        const evolution = events.find(event => event.type === 'evolution');
+
+        expect(evolution?.details).toEqual(['Dente 36', 'Diagnóstico: Necrose pulpar', 'Evolução: Acesso coronário']);
+        expect(evolution?.clinicName).toBe('Clínica Centro');
+    });
+
+    it('should give payments and radiographs the clinic and teeth of their appointment', () => {
+        const payment = events.find(event => event.id === 'payment-payment-1');
+
+        expect(payment?.details).toEqual(['PIX', 'Atendimento: Abertura']);
+        expect(payment?.teeth).toEqual([36]);
+        expect(payment?.clinicId).toBe('clinic-1');
+        expect(events.find(event => event.type === 'radiograph')?.clinicId).toBe('clinic-1');
+    });
+
+    it('should filter by type, tooth and clinic', () => {
+        const all = { types: [...TIMELINE_EVENT_TYPES], tooth: null, clinicId: null };
+
+        expect(filterClinicalTimeline(events, { ...all, types: ['payment'] })).toHaveLength(1);
+        expect(filterClinicalTimeline(events, { ...all, tooth: 18 }).map(event => event.id)).toEqual(['appointment-appointment-2']);
+        expect(filterClinicalTimeline(events, { ...all, clinicId: 'clinic-1' })).toHaveLength(4);
+    });
+
+    it('should list the teeth and clinics available as filters', () => {
+        expect(timelineFilterOptions(events)).toEqual({
+            teeth: [18, 36],
+            clinics: [
+                { id: 'clinic-1', name: 'Clínica Centro' },
+                { id: 'clinic-2', name: 'Clínica Norte' }
+            ]
+        });
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { parseExchangeRateFile, formatAppliedRate } from '../../lib/exchangeRates';
+
+describe('exchangeRates', () => {
+    describe('parseExchangeRateFile', () => {
+        it('should read comma and semicolon separated files, skipping the header', () => {
+            expect(parseExchangeRateFile('data;de;para;cotacao\n01/10/2030;usd;BRL;5,4321\n2030-10-02;EUR;BRL;6.1\n')).toEqual({
+                rows: [
+                    { date: '2030-10-01', fromCurrency: 'USD', toCurrency: 'BRL', rate: 5.4321 },
+                    { date: '2030-10-02', fromCurrency: 'EUR', toCurrency: 'BRL', rate: 6.1 }
+                ],
+                errors: []
+            });
+            expect(parseExchangeRateFile('2030-10-01,USD,EUR,0.92').rows).toHaveLength(1);
+        });
+
+        it('should report invalid lines with their line number', () => {
+            const { rows, errors } = parseExchangeRateFile('2030-10-01;USD;BRL;5\n2030-13;USD;BRL;5\n2030-10-02;USD;USD;1\n2030-10-02;USD;BRL;-1');
+
+            expect(rows).toHaveLength(1);
+            expect(errors).toEqual([
+                'Linha 2: data inválida',
+                'Linha 3: par de moedas inválido',
+                'Linha 4: cotação inválida'
+            ]);
+        });
+    });
+
+    it('should describe the rate used', () => {
+        expect(formatAppliedRate({ fromCurrency: 'USD', toCurrency: 'BRL', rate: 5.43216, date: '2030-10-01' }))
+            .toBe('1 USD = 5,4322 BRL (01/10/2030)');
+    });
+});
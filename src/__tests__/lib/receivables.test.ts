@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { agingReportToCSV, buildAgingRows } from '../../lib/receivables';
+import { ReceivablesDomainService } from '../../domain/services/ReceivablesDomainService';
+import { Appointment } from '../../domain/entities/Appointment';
+
+describe('receivables', () => {
+    const report = ReceivablesDomainService.buildReport(
+        [
+            Appointment.create({
+                patientId: 'patient-1',
+                clinicId: 'clinic-1',
+                date: '2030-01-15',
+                time: '09:00',
+                procedure: 'Canal; molar',
+                value: 1250.5,
+                paymentType: 'percentage',
+                paymentPercentage: 60
+            })
+        ],
+        '2030-03-01',
+        'BRL',
+        [],
+        new Map([['patient-1', 'Ana "Aninha" Souza']]),
+        new Map([['clinic-1', 'Centro']])
+    );
+
+    it('should export one CSV line per appointment, quoting separators', () => {
+        expect(agingReportToCSV(report).split('\n')).toEqual([
+            'Paciente;Clínica;Data;Procedimento;Dias;Faixa;Saldo;Moeda;Saldo convertido',
+            '"Ana ""Aninha"" Souza";Centro;2030-01-15;"Canal; molar";45;31–60 dias;1250.50;BRL;1250.50'
+        ]);
+    });
+
+    it('should build one row per group plus a total row', () => {
+        const rows = buildAgingRows(report, 'byClinic');
+
+        expect(rows).toHaveLength(2);
+        expect(rows[0][0]).toBe('Centro');
+        expect(rows[1][0]).toBe('Total');
+        expect(rows[1][1]).toBe('1');
+    });
+});
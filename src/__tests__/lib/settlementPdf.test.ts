@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { buildSettlementRows } from '../../lib/settlementPdf';
+import { SettlementStatement } from '../../domain/entities/SettlementStatement';
+
+describe('buildSettlementRows', () => {
+    it('should format each appointment and append the totals row', () => {
+        const statement = SettlementStatement.create({
+            clinicId: 'clinic-1',
+            periodStart: '2030-01-01',
+            periodEnd: '2030-01-31',
+            lines: [
+                { appointmentId: 'a-1', date: '2030-01-05', patientName: 'Maria', procedure: 'Canal', grossValue: 1000, ourShare: 600, clinicShare: 400 },
+                { appointmentId: 'a-2', date: '2030-01-20', patientName: null, procedure: 'Retratamento', grossValue: 500, ourShare: 500, clinicShare: 0 }
+            ]
+        });
+
+        const rows = buildSettlementRows(statement);
+
+        expect(rows).toHaveLength(3);
+        expect(rows[0][0]).toBe('05/01/2030');
+        expect(rows[1][1]).toBe('—');
+        expect(rows[2][0]).toBe('Total');
+        expect(rows[2][2]).toBe('2 atendimento(s)');
+        expect(rows[2][4]).toContain('1.100,00');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildToothSummary } from '../../lib/toothSummaryPdf';
+import { EndodonticRecord } from '../../domain/entities/EndodonticRecord';
+
+describe('buildToothSummary', () => {
+    const record = EndodonticRecord.create({
+        appointmentId: 'appointment-2',
+        patientId: 'patient-1',
+        tooth: 36,
+        canals: [{ name: 'MV', workingLength: 20.5, apicalSize: 30 }],
+        obturationTechnique: 'Condensação lateral',
+        pulpalDiagnosis: 'pulp_necrosis'
+    });
+
+    it('should list appointments chronologically with their endodontic record', () => {
+        const sections = buildToothSummary({
+            patientName: 'Maria Silva',
+            tooth: 36,
+            appointments: [
+                { id: 'appointment-2', date: '2030-05-20', time: '10:00', procedure: 'Obturação' },
+                { id: 'appointment-1', date: '2030-05-10', time: '09:00', procedure: 'Abertura', clinicalEvolution: '<p>Acesso coronário</p>' }
+            ],
+            endodonticRecords: [record],
+            treatmentPlans: [{ procedure: 'Endodontia', statusLabel: 'Finalizado', completedSessions: 2, totalSessions: 2 }],
+            radiographs: []
+        });
+
+        expect(sections.map(section => section.title)).toEqual([
+            'Planos de tratamento',
+            '10/05/2030 • 09:00 • Abertura',
+            '20/05/2030 • 10:00 • Obturação'
+        ]);
+        expect(sections[1].lines).toEqual(['Evolução: Acesso coronário']);
+        expect(sections[2].lines).toEqual([
+            'Diagnóstico: Necrose pulpar',
+            'Canal MV • CT 20.5 mm • #30',
+            'Obturação: Condensação lateral'
+        ]);
+    });
+
+    it('should mark appointments without clinical notes', () => {
+        const sections = buildToothSummary({
+            patientName: 'Maria Silva',
+            tooth: 11,
+            appointments: [{ id: 'appointment-9', date: '2030-01-01', procedure: 'Consulta' }],
+            endodonticRecords: [record],
+            treatmentPlans: [],
+            radiographs: [{ fileName: 'periapical.png', createdAt: '2030-01-01' }]
+        });
+
+        expect(sections[0].lines).toEqual(['Sem registro clínico.']);
+        expect(sections[1]).toEqual({ title: 'Radiografias', lines: ['periapical.png — 01/01/2030'] });
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PaymentService } from '../../application/services/PaymentService';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Payment } from '../../domain/entities/Payment';
+import { DomainError } from '../../domain/errors/AppError';
+
+describe('PaymentService', () => {
+    const appointmentId = '11111111-1111-4111-8111-111111111111';
+    let appointment: Appointment;
+    let payments: Payment[];
+    let repository: Record<string, ReturnType<typeof vi.fn>>;
+    let service: PaymentService;
+
+    const installment = (amount: number, installmentNumber: number) => Payment.create({
+        appointmentId,
+        amount,
+        dueDate: `2030-0${installmentNumber + 1}-10`,
+        installmentNumber,
+        installmentCount: 2
+    });
+
+    beforeEach(() => {
+        appointment = Appointment.create({
+            id: appointmentId,
+            patientId: 'patient-1',
+            clinicId: 'clinic-1',
+            date: '2030-01-10',
+            time: '09:00',
+            procedure: 'Canal',
+            value: 1000,
+            paymentType: '100',
+            paymentPercentage: null
+        });
+        payments = [];
+        repository = {
+            findById: vi.fn(async (id: string) => payments.find(payment => payment.id === id) ?? null),
+            findByAppointmentId: vi.fn(async () => payments),
+            create: vi.fn(async (payment: Payment) => {
+                payments = [...payments, payment];
+                return payment;
+            }),
+            update: vi.fn(async (_id: string, payment: Payment) => payment)
+        };
+
+        service = new PaymentService(
+            repository as never,
+            { findById: vi.fn(async () => appointment), update: vi.fn(async () => appointment) } as never,
+            { handle: (error: unknown) => error } as never,
+            { log: vi.fn() } as never,
+            { sanitizeText: (value: string) => value } as never,
+            { findAll: vi.fn(async () => []) } as never,
+            { findAll: vi.fn(async () => []) } as never
+        );
+    });
+
+    it('should not record a full payment while installments are still open', async () => {
+        payments = [installment(500, 1), installment(500, 2)];
+
+        await expect(service.record({ appointmentId, amount: 1000, paidDate: '2030-01-10', method: 'pix' }))
+            .rejects.toBeInstanceOf(DomainError);
+        expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not pay an open installment of an appointment that is already paid', async () => {
+        const open = installment(500, 1);
+        payments = [
+            Payment.create({ appointmentId, amount: 1000, paidDate: '2030-01-10', method: 'pix' }),
+            open
+        ];
+
+        await expect(service.payInstallment(open.id, { paidDate: '2030-02-10', method: 'pix' }))
+            .rejects.toBeInstanceOf(DomainError);
+        expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should never settle more than the appointment value', async () => {
+        payments = [installment(600, 1), installment(600, 2)];
+
+        const result = await service.settleMany({ appointmentIds: [appointmentId], paidDate: '2030-01-10', method: 'pix' });
+
+        expect(result.settled).toEqual([appointmentId]);
+        const paidCents = payments.filter(payment => payment.isPaid).reduce((sum, payment) => sum + payment.amount.cents, 0);
+        expect(paidCents).toBe(100000);
+    });
+});
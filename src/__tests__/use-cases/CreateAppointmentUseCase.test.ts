@@ -5,6 +5,7 @@ import { IAuthService } from '../../infrastructure/auth/IAuthService';
 import { IInputValidator } from '../../application/validators/IInputValidator';
 import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
 import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ICommissionRuleRepository } from '../../infrastructure/repositories/interfaces/ICommissionRuleRepository';
 import { Appointment } from '../../domain/entities/Appointment';
 import { Patient } from '../../domain/entities/Patient';
 import { CreateAppointmentInput } from '../../application/use-cases/appointment/CreateAppointmentUseCase';
@@ -18,6 +19,7 @@ describe('CreateAppointmentUseCase', () => {
     let mockValidator: jest.Mocked<IInputValidator<CreateAppointmentInput>>;
     let mockSanitizer: jest.Mocked<ISanitizer>;
     let mockAuditService: jest.Mocked<IAuditService>;
+    let mockCommissionRuleRepository: jest.Mocked<ICommissionRuleRepository>;
     
     beforeEach(() => {
         mockAppointmentRepository = {
@@ -61,13 +63,21 @@ describe('CreateAppointmentUseCase', () => {
             log: jest.fn().mockResolvedValue(undefined)
         };
         
+        mockCommissionRuleRepository = {
+            findById: jest.fn(),
+            findByClinicId: jest.fn().mockResolvedValue([]),
+            create: jest.fn(),
+            delete: jest.fn()
+        };
+        
         useCase = new CreateAppointmentUseCase(
             mockAppointmentRepository,
             mockPatientRepository,
             mockAuthService,
             mockValidator,
             mockSanitizer,
-            mockAuditService
+            mockAuditService,
+            mockCommissionRuleRepository
         );
     });
     
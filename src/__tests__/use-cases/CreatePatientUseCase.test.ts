@@ -25,7 +25,9 @@ describe('CreatePatientUseCase', () => {
             findAll: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
-            findByNameOrEmail: jest.fn()
+            findByNameOrEmail: jest.fn(),
+            findByCpf: jest.fn(),
+            merge: jest.fn()
         };
         
         mockAuthService = {
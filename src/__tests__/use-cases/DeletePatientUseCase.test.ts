@@ -19,7 +19,9 @@ describe('DeletePatientUseCase', () => {
             findAll: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
-            findByNameOrEmail: jest.fn()
+            findByNameOrEmail: jest.fn(),
+            findByCpf: jest.fn(),
+            merge: jest.fn()
         };
         
         mockAuditService = {
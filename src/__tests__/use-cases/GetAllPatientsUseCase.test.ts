@@ -14,7 +14,9 @@ describe('GetAllPatientsUseCase', () => {
             findAll: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
-            findByNameOrEmail: jest.fn()
+            findByNameOrEmail: jest.fn(),
+            findByCpf: jest.fn(),
+            merge: jest.fn()
         };
         
         useCase = new GetAllPatientsUseCase(mockRepository);
@@ -14,7 +14,9 @@ describe('GetPatientUseCase', () => {
             create: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
-            findByNameOrEmail: jest.fn()
+            findByNameOrEmail: jest.fn(),
+            findByCpf: jest.fn(),
+            merge: jest.fn()
         };
         
         useCase = new GetPatientUseCase(mockRepository);
@@ -1,6 +1,7 @@
 import { UpdateAppointmentUseCase } from '../../application/use-cases/appointment/UpdateAppointmentUseCase';
 import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
 import { IPatientRepository } from '../../infrastructure/repositories/interfaces/IPatientRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
 import { IInputValidator } from '../../application/validators/IInputValidator';
 import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
 import { IAuditService } from '../../infrastructure/audit/IAuditService';
@@ -14,6 +15,7 @@ describe('UpdateAppointmentUseCase', () => {
     let useCase: UpdateAppointmentUseCase;
     let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
     let mockPatientRepository: jest.Mocked<IPatientRepository>;
+    let mockClinicRepository: jest.Mocked<IClinicRepository>;
     let mockValidator: jest.Mocked<IInputValidator<UpdateAppointmentInput>>;
     let mockSanitizer: jest.Mocked<ISanitizer>;
     let mockAuditService: jest.Mocked<IAuditService>;
@@ -38,6 +40,14 @@ describe('UpdateAppointmentUseCase', () => {
             findByNameOrEmail: jest.fn()
         };
         
+        mockClinicRepository = {
+            findAll: jest.fn(),
+            findById: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn()
+        };
+        
         mockValidator = {
             validate: jest.fn().mockImplementation((input) => Promise.resolve(input))
         };
@@ -74,6 +84,7 @@ describe('UpdateAppointmentUseCase', () => {
         useCase = new UpdateAppointmentUseCase(
             mockAppointmentRepository,
             mockPatientRepository,
+            mockClinicRepository,
             mockValidator,
             mockSanitizer,
             mockAuditService,
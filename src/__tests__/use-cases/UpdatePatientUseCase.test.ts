@@ -23,7 +23,9 @@ describe('UpdatePatientUseCase', () => {
             findAll: jest.fn(),
             update: jest.fn(),
             delete: jest.fn(),
-            findByNameOrEmail: jest.fn()
+            findByNameOrEmail: jest.fn(),
+            findByCpf: jest.fn(),
+            merge: jest.fn()
         };
         
         mockValidator = {
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import {
+    ANAMNESIS_QUESTION_TYPES,
+    REVIEW_INTERVAL_MIN_MONTHS,
+    REVIEW_INTERVAL_MAX_MONTHS,
+    MAX_ANAMNESIS_QUESTIONS
+} from '../../../domain/entities/AnamnesisTemplate';
+
+const optionalText = (max: number, message: string) =>
+    z.preprocess(
+        (val) => val === '' ? null : val,
+        z.string().max(max, message).nullable().optional()
+    );
+
+const AnamnesisQuestionSchema = z.object({
+    id: z.string()
+        .min(1, 'Identificador da pergunta é obrigatório')
+        .max(50, 'Identificador da pergunta muito longo')
+        .regex(/^[a-z0-9_]+$/, 'Identificador da pergunta deve ter apenas letras minúsculas, números e _'),
+    label: z.string().trim().min(1, 'Enunciado da pergunta é obrigatório').max(255, 'Enunciado da pergunta muito longo'),
+    type: z.enum(ANAMNESIS_QUESTION_TYPES, 'Tipo de pergunta inválido'),
+    critical: z.boolean(),
+    alertLabel: optionalText(50, 'Texto do alerta muito longo'),
+});
+
+/**
+ * Schema Zod para o questionário de anamnese do usuário
+ */
+export const SaveAnamnesisTemplateSchema = z.object({
+    questions: z.array(AnamnesisQuestionSchema)
+        .min(1, 'O questionário precisa de ao menos uma pergunta')
+        .max(MAX_ANAMNESIS_QUESTIONS, `Máximo de ${MAX_ANAMNESIS_QUESTIONS} perguntas`)
+        .refine(
+            questions => new Set(questions.map(question => question.id)).size === questions.length,
+            'Há perguntas com o mesmo identificador'
+        ),
+    reviewIntervalMonths: z.number()
+        .int('Prazo de revisão deve ser um número inteiro de meses')
+        .min(REVIEW_INTERVAL_MIN_MONTHS, `Prazo de revisão mínimo: ${REVIEW_INTERVAL_MIN_MONTHS} mês`)
+        .max(REVIEW_INTERVAL_MAX_MONTHS, `Prazo de revisão máximo: ${REVIEW_INTERVAL_MAX_MONTHS} meses`),
+});
+
+const AnamnesisAnswerSchema = z.object({
+    questionId: z.string().min(1, 'Pergunta é obrigatória'),
+    value: z.union([z.boolean(), z.string().max(1000, 'Resposta muito longa')]).nullable(),
+    details: optionalText(500, 'Detalhes da resposta muito longos'),
+});
+
+/**
+ * Schema Zod para uma nova versão da anamnese do paciente
+ * ✅ As perguntas vêm do questionário atual; aqui só as respostas
+ */
+export const RecordAnamnesisSchema = z.object({
+    patientId: z.string().uuid('ID do paciente inválido'),
+    answers: z.array(AnamnesisAnswerSchema).max(MAX_ANAMNESIS_QUESTIONS, 'Respostas demais'),
+    notes: optionalText(5000, 'Observações muito longas (máx: 5.000 caracteres)'),
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type SaveAnamnesisTemplateDTO = z.infer<typeof SaveAnamnesisTemplateSchema>;
+export type RecordAnamnesisDTO = z.infer<typeof RecordAnamnesisSchema>;
@@ -1,4 +1,26 @@
 import { z } from 'zod';
+import { ToothNumber } from '../../../domain/value-objects/ToothNumber';
+import { AppointmentConstants } from '../../../domain/constants/AppointmentConstants';
+
+const DateOnlySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)');
+const TimeSchema = z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Hora inválida (formato esperado: HH:mm)');
+const DurationSchema = z.number().int('Duração deve ser um número inteiro de minutos').min(5, 'Duração mínima: 5 minutos').max(720, 'Duração máxima: 720 minutos');
+
+/**
+ * Schema Zod para regra de recorrência (a cada N dias/semanas/meses, até uma data ou N vezes)
+ */
+export const RecurrenceRuleSchema = z.object({
+    frequency: z.enum(['daily', 'weekly', 'monthly']),
+    interval: z.number().int('Intervalo deve ser um número inteiro').min(1, 'Intervalo mínimo: 1').max(365, 'Intervalo máximo: 365'),
+    until: DateOnlySchema.nullable().optional(),
+    count: z.number().int().min(2, 'Mínimo de 2 ocorrências').max(AppointmentConstants.MAX_SERIES_OCCURRENCES, `Máximo de ${AppointmentConstants.MAX_SERIES_OCCURRENCES} ocorrências`).nullable().optional(),
+}).refine(
+    (data) => Boolean(data.until) !== (data.count !== null && data.count !== undefined),
+    {
+        message: 'Informe a data final ou o número de ocorrências da recorrência',
+        path: ['until'],
+    }
+);
 
 /**
  * Schema Zod para criação de agendamento
@@ -15,19 +37,24 @@ export const CreateAppointmentSchema = z.object({
         z.date() // Date object
     ]),
     time: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Hora inválida (formato esperado: HH:mm)'),
+    durationMinutes: z.number().int('Duração deve ser um número inteiro de minutos').min(5, 'Duração mínima: 5 minutos').max(720, 'Duração máxima: 720 minutos').optional(),
     procedure: z.string().min(1, 'Procedimento é obrigatório').max(500, 'Procedimento muito longo'),
+    teeth: z.array(z.number().int().refine(ToothNumber.isValid, 'Número de dente inválido (notação FDI)')).max(52, 'Dentes demais').optional(),
     value: z.number().nonnegative('Valor deve ser positivo').optional(),
     currency: z.enum(['BRL', 'USD', 'EUR']).default('BRL').optional(),
     paymentType: z.string().max(10).optional(),
     paymentPercentage: z.number().min(0).max(100).nullable().optional(),
+    paymentFixedAmount: z.number().nonnegative('Valor fixo deve ser positivo').nullable().optional(),
     isPaid: z.boolean().default(false).optional(),
     paymentDate: z.union([
         z.string().datetime(), // Formato ISO completo
         z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'), // Formato simples
         z.date() // Date object
     ]).nullable().optional(),
+    clinicalStatus: z.enum(['scheduled', 'confirmed', 'in_progress', 'completed', 'no_show', 'cancelled']).optional(),
     clinicalEvolution: z.string().max(10000, 'Evolução clínica muito longa (máx: 10.000 caracteres)').nullable().optional(),
     notes: z.string().max(5000, 'Notas muito longas (máx: 5.000 caracteres)').nullable().optional(),
+    recurrence: RecurrenceRuleSchema.nullable().optional(),
 }).refine(
     (data) => data.patientId || data.patientName,
     {
@@ -51,26 +78,69 @@ export const UpdateAppointmentSchema = z.object({
         z.date() // Date object
     ]).optional(),
     time: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Hora inválida (formato esperado: HH:mm)').optional(),
+    durationMinutes: z.number().int('Duração deve ser um número inteiro de minutos').min(5, 'Duração mínima: 5 minutos').max(720, 'Duração máxima: 720 minutos').optional(),
     procedure: z.string().min(1, 'Procedimento é obrigatório').max(500, 'Procedimento muito longo').optional(),
+    teeth: z.array(z.number().int().refine(ToothNumber.isValid, 'Número de dente inválido (notação FDI)')).max(52, 'Dentes demais').optional(),
     value: z.number().nonnegative('Valor deve ser positivo').optional(),
     currency: z.enum(['BRL', 'USD', 'EUR']).optional(),
     paymentType: z.string().max(10).optional(),
     paymentPercentage: z.number().min(0).max(100).nullable().optional(),
+    paymentFixedAmount: z.number().nonnegative('Valor fixo deve ser positivo').nullable().optional(),
     isPaid: z.boolean().optional(),
     paymentDate: z.union([
         z.string().datetime(), // Formato ISO completo
         z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'), // Formato simples
         z.date() // Date object
     ]).nullable().optional(),
+    clinicalStatus: z.enum(['scheduled', 'confirmed', 'in_progress', 'completed', 'no_show', 'cancelled']).optional(),
     clinicalEvolution: z.string().max(10000, 'Evolução clínica muito longa (máx: 10.000 caracteres)').nullable().optional(),
     notes: z.string().max(5000, 'Notas muito longas (máx: 5.000 caracteres)').nullable().optional(),
+    cancellationReason: z.string().max(500, 'Motivo muito longo').nullable().optional(),
+    cancelledBy: z.enum(['patient', 'professional', 'clinic']).nullable().optional(),
 });
 
+/**
+ * Schema Zod para geração de retornos a partir de um atendimento concluído
+ */
+export const CreateFollowUpSeriesSchema = z.object({
+    sourceAppointmentId: z.string().uuid('ID do agendamento inválido'),
+    offsets: z.array(z.object({
+        amount: z.number().int('Prazo deve ser um número inteiro').min(1, 'Prazo mínimo: 1').max(120, 'Prazo máximo: 120'),
+        unit: z.enum(['days', 'weeks', 'months']),
+    })).min(1, 'Informe ao menos um retorno').max(12, 'Máximo de 12 retornos'),
+    time: TimeSchema.optional(),
+    durationMinutes: DurationSchema.optional(),
+    procedure: z.string().min(1, 'Procedimento é obrigatório').max(500, 'Procedimento muito longo').optional(),
+    value: z.number().nonnegative('Valor deve ser positivo').optional(),
+});
+
+/**
+ * Schema Zod para edição em lote dos agendamentos pendentes de uma série
+ * Data não é editável em lote: cada ocorrência mantém a sua
+ */
+export const UpdateAppointmentSeriesSchema = z.object({
+    clinicId: z.string().uuid('ID da clínica inválido').nullable().optional().or(z.literal('')),
+    time: TimeSchema.optional(),
+    durationMinutes: DurationSchema.optional(),
+    procedure: z.string().min(1, 'Procedimento é obrigatório').max(500, 'Procedimento muito longo').optional(),
+    value: z.number().nonnegative('Valor deve ser positivo').optional(),
+    notes: z.string().max(5000, 'Notas muito longas (máx: 5.000 caracteres)').nullable().optional(),
+}).refine(
+    (data) => Object.values(data).some(value => value !== undefined),
+    {
+        message: 'Informe ao menos um campo para alterar na série',
+        path: ['series'],
+    }
+);
+
 /**
  * Tipos inferidos dos schemas
  */
 export type CreateAppointmentDTO = z.infer<typeof CreateAppointmentSchema>;
 export type UpdateAppointmentDTO = z.infer<typeof UpdateAppointmentSchema>;
+export type RecurrenceRuleDTO = z.infer<typeof RecurrenceRuleSchema>;
+export type CreateFollowUpSeriesDTO = z.infer<typeof CreateFollowUpSeriesSchema>;
+export type UpdateAppointmentSeriesDTO = z.infer<typeof UpdateAppointmentSeriesSchema>;
 
 
 
@@ -35,10 +35,45 @@ export const UpdateClinicSchema = z.object({
     address: z.string().max(500, 'Endereço muito longo').nullable().optional(),
 });
 
+const TimeSchema = z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Hora inválida (formato esperado: HH:mm)');
+
+/**
+ * Schema Zod para expediente semanal, feriados e bloqueios da clínica
+ */
+export const UpdateClinicAvailabilitySchema = z.object({
+    workingHours: z.array(z.object({
+        weekday: z.number().int().min(0, 'Dia da semana inválido').max(6, 'Dia da semana inválido'),
+        start: TimeSchema,
+        end: TimeSchema,
+    }).refine(
+        (window) => window.start < window.end,
+        { message: 'Fim do expediente deve ser posterior ao início', path: ['end'] }
+    )).max(28, 'Janelas de atendimento demais'),
+    blockedDates: z.array(z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+        kind: z.enum(['holiday', 'blocked']),
+        reason: z.string().max(200, 'Motivo muito longo').nullable().optional(),
+    })).max(366, 'Datas bloqueadas demais'),
+});
+
+/**
+ * Schema Zod para política de cancelamento da clínica
+ * ✅ null remove a política e volta ao padrão de 24h
+ */
+export const UpdateClinicCancellationPolicySchema = z.object({
+    noticeHours: z.number().int('Antecedência deve ser em horas inteiras')
+        .min(0, 'Antecedência não pode ser negativa')
+        .max(720, 'Antecedência máxima de 720 horas'),
+    lateFee: z.number().nonnegative('Taxa não pode ser negativa').nullable().optional(),
+    allowLateOverride: z.boolean().optional(),
+}).nullable();
+
 /**
  * Tipos inferidos dos schemas
  */
 export type CreateClinicDTO = z.infer<typeof CreateClinicSchema>;
 export type UpdateClinicDTO = z.infer<typeof UpdateClinicSchema>;
+export type UpdateClinicAvailabilityDTO = z.infer<typeof UpdateClinicAvailabilitySchema>;
+export type UpdateClinicCancellationPolicyDTO = z.infer<typeof UpdateClinicCancellationPolicySchema>;
 
 
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { PAYMENT_TYPES, PaymentTypeValue } from '../../../domain/value-objects/PaymentType';
+
+/**
+ * Schema Zod para nova versão de regra de comissão
+ */
+export const CreateCommissionRuleSchema = z.object({
+    clinicId: z.string().uuid('ID da clínica inválido'),
+    procedure: z.string().max(500, 'Procedimento muito longo').nullable().optional(),
+    paymentType: z.enum(PAYMENT_TYPES as [PaymentTypeValue, ...PaymentTypeValue[]]),
+    paymentPercentage: z.number().min(0).max(100).nullable().optional(),
+    paymentFixedAmount: z.number().nonnegative('Valor fixo deve ser positivo').nullable().optional(),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+    notes: z.string().max(2000, 'Observações muito longas (máx: 2.000 caracteres)').nullable().optional(),
+}).refine(data => data.paymentType !== 'percentage' || (data.paymentPercentage !== null && data.paymentPercentage !== undefined), {
+    message: 'Percentual é obrigatório quando o tipo é porcentagem',
+    path: ['paymentPercentage'],
+}).refine(data => data.paymentType !== 'fixed' || (data.paymentFixedAmount !== null && data.paymentFixedAmount !== undefined), {
+    message: 'Valor fixo é obrigatório quando o tipo é valor fixo',
+    path: ['paymentFixedAmount'],
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateCommissionRuleDTO = z.infer<typeof CreateCommissionRuleSchema>;
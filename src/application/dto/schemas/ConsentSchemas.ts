@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import {
+    CONSENT_KINDS,
+    CONSENT_TITLE_MAX_LENGTH,
+    CONSENT_BODY_MAX_LENGTH
+} from '../../../domain/entities/ConsentTemplate';
+import { ToothNumber } from '../../../domain/value-objects/ToothNumber';
+
+/** Limite da imagem da assinatura (data URL PNG) */
+const SIGNATURE_MAX_LENGTH = 2_000_000;
+
+/**
+ * Schema Zod para um modelo de termo de consentimento
+ * ✅ id ausente (ou de modelo padrão) cria um novo modelo
+ */
+export const SaveConsentTemplateSchema = z.object({
+    id: z.string().optional(),
+    kind: z.enum(CONSENT_KINDS, 'Tipo de termo inválido'),
+    title: z.string().trim()
+        .min(1, 'Título do termo é obrigatório')
+        .max(CONSENT_TITLE_MAX_LENGTH, `Título muito longo (máx: ${CONSENT_TITLE_MAX_LENGTH} caracteres)`),
+    body: z.string().trim()
+        .min(1, 'Texto do termo é obrigatório')
+        .max(CONSENT_BODY_MAX_LENGTH, `Texto muito longo (máx: ${CONSENT_BODY_MAX_LENGTH} caracteres)`),
+});
+
+/**
+ * Schema Zod para a assinatura de um termo pelo paciente
+ */
+export const SignConsentSchema = z.object({
+    patientId: z.string().uuid('ID do paciente inválido'),
+    appointmentId: z.preprocess(
+        (val) => val === '' ? null : val,
+        z.string().uuid('ID do agendamento inválido').nullable().optional()
+    ),
+    templateId: z.string().min(1, 'Modelo do termo é obrigatório'),
+    procedure: z.string().trim().min(1, 'Procedimento é obrigatório').max(255, 'Procedimento muito longo'),
+    teeth: z.array(z.number().int().refine(ToothNumber.isValid, 'Número de dente inválido (notação FDI)')).max(52, 'Dentes demais').optional(),
+    signerName: z.string().trim().min(1, 'Nome de quem assina é obrigatório').max(255, 'Nome muito longo'),
+    signatureDataUrl: z.string()
+        .startsWith('data:image/png;base64,', 'Assinatura é obrigatória')
+        .max(SIGNATURE_MAX_LENGTH, 'Imagem da assinatura muito grande'),
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type SaveConsentTemplateDTO = z.infer<typeof SaveConsentTemplateSchema>;
+export type SignConsentDTO = z.infer<typeof SignConsentSchema>;
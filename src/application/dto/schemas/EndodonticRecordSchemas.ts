@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { ToothNumber } from '../../../domain/value-objects/ToothNumber';
+import {
+    PULPAL_DIAGNOSES,
+    PERIAPICAL_DIAGNOSES,
+    WORKING_LENGTH_MIN,
+    WORKING_LENGTH_MAX,
+    APICAL_SIZE_MIN,
+    APICAL_SIZE_MAX,
+    PulpalDiagnosis,
+    PeriapicalDiagnosis
+} from '../../../domain/entities/EndodonticRecord';
+
+const optionalText = (max: number, message: string) =>
+    z.preprocess(
+        (val) => val === '' ? null : val,
+        z.string().max(max, message).nullable().optional()
+    );
+
+const RootCanalSchema = z.object({
+    name: z.string().min(1, 'Identificação do canal é obrigatória').max(10, 'Identificação do canal muito longa'),
+    workingLength: z.number()
+        .min(WORKING_LENGTH_MIN, `Comprimento de trabalho mínimo: ${WORKING_LENGTH_MIN} mm`)
+        .max(WORKING_LENGTH_MAX, `Comprimento de trabalho máximo: ${WORKING_LENGTH_MAX} mm`)
+        .nullable()
+        .optional(),
+    apicalSize: z.number()
+        .int('Calibre apical deve ser um número ISO')
+        .min(APICAL_SIZE_MIN, `Calibre apical mínimo: ${APICAL_SIZE_MIN}`)
+        .max(APICAL_SIZE_MAX, `Calibre apical máximo: ${APICAL_SIZE_MAX}`)
+        .nullable()
+        .optional(),
+    reference: optionalText(50, 'Ponto de referência muito longo'),
+});
+
+const EndodonticRecordFieldsSchema = z.object({
+    canals: z.array(RootCanalSchema).max(8, 'Máximo de 8 canais por dente').optional(),
+    fileSystem: optionalText(100, 'Sistema de limas muito longo'),
+    irrigants: z.array(z.string().max(100, 'Irrigante muito longo')).max(10, 'Máximo de 10 irrigantes').optional(),
+    obturationTechnique: optionalText(100, 'Técnica de obturação muito longa'),
+    pulpalDiagnosis: z.enum(PULPAL_DIAGNOSES as [PulpalDiagnosis, ...PulpalDiagnosis[]]).nullable().optional(),
+    periapicalDiagnosis: z.enum(PERIAPICAL_DIAGNOSES as [PeriapicalDiagnosis, ...PeriapicalDiagnosis[]]).nullable().optional(),
+    medications: z.array(z.string().max(100, 'Medicação muito longa')).max(10, 'Máximo de 10 medicações').optional(),
+    notes: optionalText(10000, 'Observações muito longas (máx: 10.000 caracteres)'),
+});
+
+/**
+ * Schema Zod para criação de registro endodôntico
+ * ✅ Um registro por dente em cada agendamento
+ */
+export const CreateEndodonticRecordSchema = EndodonticRecordFieldsSchema.extend({
+    appointmentId: z.string().uuid('ID do agendamento inválido'),
+    tooth: z.number().int().refine(ToothNumber.isValid, 'Número de dente inválido (notação FDI)'),
+});
+
+/**
+ * Schema Zod para atualização de registro endodôntico
+ * Todos os campos são opcionais; dente e agendamento não mudam
+ */
+export const UpdateEndodonticRecordSchema = EndodonticRecordFieldsSchema;
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateEndodonticRecordDTO = z.infer<typeof CreateEndodonticRecordSchema>;
+export type UpdateEndodonticRecordDTO = z.infer<typeof UpdateEndodonticRecordSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+/**
+ * Schema Zod para cotação de câmbio
+ */
+export const CreateExchangeRateSchema = z.object({
+    fromCurrency: z.enum(['BRL', 'USD', 'EUR']),
+    toCurrency: z.enum(['BRL', 'USD', 'EUR']),
+    rate: z.number().positive('Cotação deve ser maior que zero'),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+    source: z.enum(['manual', 'import']).optional(),
+}).refine(data => data.fromCurrency !== data.toCurrency, {
+    message: 'A cotação deve ser entre moedas diferentes',
+    path: ['toCurrency'],
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateExchangeRateDTO = z.infer<typeof CreateExchangeRateSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Schema Zod para nova despesa
+ */
+export const CreateExpenseSchema = z.object({
+    category: z.enum(['material', 'rent', 'lab', 'travel', 'other']),
+    description: z.string().trim().min(1, 'Descrição é obrigatória').max(200, 'Descrição muito longa (máx: 200 caracteres)'),
+    amount: z.number().positive('Valor deve ser maior que zero'),
+    currency: z.enum(['BRL', 'USD', 'EUR']).optional(),
+    date: z.string().regex(DATE_REGEX, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+    clinicId: z.string().uuid('ID da clínica inválido').nullable().optional(),
+    appointmentId: z.string().uuid('ID do agendamento inválido').nullable().optional(),
+    procedure: z.string().max(200, 'Procedimento muito longo (máx: 200 caracteres)').nullable().optional(),
+    recurrence: z.enum(['daily', 'weekly', 'monthly']).nullable().optional(),
+    recurrenceUntil: z.string().regex(DATE_REGEX, 'Data inválida (formato esperado: YYYY-MM-DD)').nullable().optional(),
+}).refine(
+    data => !data.recurrenceUntil || (data.recurrence && data.recurrenceUntil >= data.date),
+    { message: 'Data final da recorrência deve ser igual ou posterior à data da despesa', path: ['recurrenceUntil'] }
+);
+
+/**
+ * Schema Zod para encerramento de despesa recorrente
+ */
+export const EndExpenseRecurrenceSchema = z.object({
+    untilDate: z.string().regex(DATE_REGEX, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateExpenseDTO = z.infer<typeof CreateExpenseSchema>;
+export type EndExpenseRecurrenceDTO = z.infer<typeof EndExpenseRecurrenceSchema>;
@@ -1,4 +1,45 @@
 import { z } from 'zod';
+import { CPF } from '../../../domain/value-objects/CPF';
+import { BRAZILIAN_STATES } from '../../../domain/value-objects/Address';
+import { PATIENT_SEXES } from '../../../domain/entities/Patient';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const cpfSchema = z.string().refine(value => CPF.isValid(value), 'CPF inválido');
+
+const phoneSchema = z.string().regex(/^[0-9]{10,11}$/, 'Telefone inválido (deve ter 10 ou 11 dígitos)');
+
+/**
+ * Endereço do paciente (CEP com ou sem máscara)
+ */
+export const PatientAddressSchema = z.object({
+    street: z.string().min(1, 'Logradouro é obrigatório').max(255, 'Logradouro deve ter no máximo 255 caracteres'),
+    number: z.string().max(20, 'Número deve ter no máximo 20 caracteres').optional().nullable(),
+    complement: z.string().max(100, 'Complemento deve ter no máximo 100 caracteres').optional().nullable(),
+    neighborhood: z.string().max(100, 'Bairro deve ter no máximo 100 caracteres').optional().nullable(),
+    city: z.string().min(1, 'Cidade é obrigatória').max(100, 'Cidade deve ter no máximo 100 caracteres'),
+    state: z.enum(BRAZILIAN_STATES, 'UF inválida'),
+    zipCode: z.string().regex(/^\d{5}-?\d{3}$/, 'CEP inválido (formato esperado: 00000-000)')
+});
+
+/**
+ * Contato de emergência
+ */
+export const EmergencyContactSchema = z.object({
+    name: z.string().min(1, 'Nome do contato é obrigatório').max(255, 'Nome do contato deve ter no máximo 255 caracteres'),
+    phone: phoneSchema,
+    relationship: z.string().max(50, 'Parentesco deve ter no máximo 50 caracteres').optional().nullable()
+});
+
+/**
+ * Responsável legal (obrigatório para menores de idade)
+ */
+export const LegalGuardianSchema = z.object({
+    name: z.string().min(3, 'Nome do responsável deve ter pelo menos 3 caracteres').max(255, 'Nome do responsável deve ter no máximo 255 caracteres'),
+    cpf: cpfSchema,
+    phone: phoneSchema.optional().nullable(),
+    relationship: z.string().max(50, 'Parentesco deve ter no máximo 50 caracteres').optional().nullable()
+});
 
 /**
  * Schema de validação para criação de paciente
@@ -15,7 +56,20 @@ export const CreatePatientSchema = z.object({
     phone: z.string()
         .regex(/^[0-9]{10,11}$/, 'Telefone inválido (deve ter 10 ou 11 dígitos)')
         .optional()
-        .nullable()
+        .nullable(),
+    cpf: cpfSchema.optional().nullable(),
+    birthDate: z.string()
+        .regex(DATE_REGEX, 'Data de nascimento inválida (formato esperado: YYYY-MM-DD)')
+        .optional()
+        .nullable(),
+    sex: z.enum(PATIENT_SEXES, 'Sexo inválido').optional().nullable(),
+    address: PatientAddressSchema.optional().nullable(),
+    occupation: z.string()
+        .max(100, 'Profissão deve ter no máximo 100 caracteres')
+        .optional()
+        .nullable(),
+    emergencyContact: EmergencyContactSchema.optional().nullable(),
+    guardian: LegalGuardianSchema.optional().nullable()
 });
 
 export type CreatePatientDTO = z.infer<typeof CreatePatientSchema>;
@@ -26,3 +80,28 @@ export type CreatePatientDTO = z.infer<typeof CreatePatientSchema>;
 export const UpdatePatientSchema = CreatePatientSchema.partial();
 
 export type UpdatePatientDTO = z.infer<typeof UpdatePatientSchema>;
+
+/**
+ * Schema de busca de possíveis duplicados (dados do cadastro em andamento)
+ */
+export const DuplicateCandidateSchema = z.object({
+    name: z.string().min(1, 'Nome é obrigatório'),
+    email: z.string().optional().nullable(),
+    phone: z.string().optional().nullable(),
+    cpf: z.string().optional().nullable()
+});
+
+export type DuplicateCandidateDTO = z.infer<typeof DuplicateCandidateSchema>;
+
+/**
+ * Schema de mesclagem de pacientes (o duplicado é incorporado ao mantido)
+ */
+export const MergePatientsSchema = z.object({
+    sourceId: z.string().uuid('ID do paciente duplicado inválido'),
+    targetId: z.string().uuid('ID do paciente mantido inválido')
+}).refine(data => data.sourceId !== data.targetId, {
+    message: 'Selecione dois pacientes diferentes',
+    path: ['targetId']
+});
+
+export type MergePatientsDTO = z.infer<typeof MergePatientsSchema>;
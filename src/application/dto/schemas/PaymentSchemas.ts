@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { AppointmentConstants } from '../../../domain/constants/AppointmentConstants';
+import { PAYMENT_METHODS, PaymentMethod, MAX_CARD_INSTALLMENTS } from '../../../domain/entities/Payment';
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)');
+const MethodSchema = z.enum(PAYMENT_METHODS as [PaymentMethod, ...PaymentMethod[]]);
+const CardInstallmentsSchema = z.number()
+    .int('Parcelas no cartão devem ser um número inteiro')
+    .min(1, 'Mínimo de 1 parcela no cartão')
+    .max(MAX_CARD_INSTALLMENTS, `Máximo de ${MAX_CARD_INSTALLMENTS} parcelas no cartão`)
+    .nullable()
+    .optional();
+const cardInstallmentsOnlyOnCredit = {
+    message: 'Parcelas no cartão só se aplicam ao cartão de crédito',
+    path: ['cardInstallments'],
+};
+
+/**
+ * Schema Zod para registro de um pagamento (parcial ou total)
+ */
+export const RecordPaymentSchema = z.object({
+    appointmentId: z.string().uuid('ID do agendamento inválido'),
+    amount: z.number().positive('Valor deve ser maior que zero'),
+    paidDate: DateSchema,
+    method: MethodSchema,
+    cardInstallments: CardInstallmentsSchema,
+    notes: z.string().max(500, 'Observações muito longas').nullable().optional(),
+}).refine(data => !data.cardInstallments || data.method === 'credit_card', cardInstallmentsOnlyOnCredit);
+
+/**
+ * Schema Zod para parcelamento do saldo devedor
+ */
+export const CreateInstallmentPlanSchema = z.object({
+    appointmentId: z.string().uuid('ID do agendamento inválido'),
+    installments: z.number()
+        .int('Número de parcelas deve ser inteiro')
+        .min(2, 'Parcelamento deve ter ao menos 2 parcelas')
+        .max(AppointmentConstants.MAX_INSTALLMENTS, `Máximo de ${AppointmentConstants.MAX_INSTALLMENTS} parcelas`),
+    firstDueDate: DateSchema,
+    intervalMonths: z.number().int().min(1, 'Intervalo mínimo: 1 mês').max(12, 'Intervalo máximo: 12 meses').optional(),
+    method: MethodSchema.nullable().optional(),
+});
+
+/**
+ * Schema Zod para baixa de uma parcela
+ */
+export const PayInstallmentSchema = z.object({
+    paidDate: DateSchema,
+    method: MethodSchema,
+    cardInstallments: CardInstallmentsSchema,
+}).refine(data => !data.cardInstallments || data.method === 'credit_card', cardInstallmentsOnlyOnCredit);
+
+/**
+ * Schema Zod para baixa em lote (quitação do saldo de vários agendamentos)
+ */
+export const SettleAppointmentsSchema = z.object({
+    appointmentIds: z.array(z.string().uuid('ID do agendamento inválido'))
+        .min(1, 'Selecione ao menos um agendamento')
+        .max(200, 'Máximo de 200 agendamentos por vez'),
+    paidDate: DateSchema,
+    method: MethodSchema,
+});
+
+/**
+ * Schema Zod para taxas e prazo de recebimento de uma forma de pagamento
+ */
+export const SavePaymentMethodFeeSchema = z.object({
+    method: MethodSchema,
+    percentage: z.number().min(0, 'Taxa não pode ser negativa').max(100, 'Taxa máxima: 100%'),
+    installmentPercentage: z.number().min(0, 'Taxa não pode ser negativa').max(100, 'Taxa máxima: 100%').optional(),
+    fixedAmount: z.number().min(0, 'Tarifa não pode ser negativa').optional(),
+    settlementDays: z.number().int('Prazo deve ser em dias inteiros').min(0, 'Prazo não pode ser negativo').max(365, 'Prazo máximo: 365 dias'),
+}).refine(data => !data.installmentPercentage || data.method === 'credit_card', {
+    message: 'Taxa por parcela só se aplica ao cartão de crédito',
+    path: ['installmentPercentage'],
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type RecordPaymentDTO = z.infer<typeof RecordPaymentSchema>;
+export type CreateInstallmentPlanDTO = z.infer<typeof CreateInstallmentPlanSchema>;
+export type PayInstallmentDTO = z.infer<typeof PayInstallmentSchema>;
+export type SettleAppointmentsDTO = z.infer<typeof SettleAppointmentsSchema>;
+export type SavePaymentMethodFeeDTO = z.infer<typeof SavePaymentMethodFeeSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+/**
+ * Schema Zod para nova versão de preço de tabela
+ */
+export const CreateProcedurePriceSchema = z.object({
+    clinicId: z.string().uuid('ID da clínica inválido'),
+    procedureId: z.string().uuid('ID do procedimento inválido'),
+    price: z.number().nonnegative('Preço deve ser positivo'),
+    currency: z.enum(['BRL', 'USD', 'EUR']).optional(),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+    notes: z.string().max(2000, 'Observações muito longas (máx: 2.000 caracteres)').nullable().optional(),
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateProcedurePriceDTO = z.infer<typeof CreateProcedurePriceSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+const MONTH_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Schema Zod para meta mensal (cria ou atualiza a meta do mês e da clínica)
+ */
+export const SaveRevenueGoalSchema = z.object({
+    month: z.string().regex(MONTH_REGEX, 'Mês inválido (formato esperado: YYYY-MM)'),
+    clinicId: z.string().uuid('ID da clínica inválido').nullable().optional(),
+    revenueTarget: z.number().min(0, 'Meta de receita não pode ser negativa').optional(),
+    appointmentTarget: z.number().int('Meta de atendimentos deve ser um número inteiro').min(0, 'Meta de atendimentos não pode ser negativa').optional(),
+    currency: z.enum(['BRL', 'USD', 'EUR']).optional(),
+}).refine(
+    data => (data.revenueTarget ?? 0) > 0 || (data.appointmentTarget ?? 0) > 0,
+    { message: 'Informe a meta de receita ou de atendimentos', path: ['revenueTarget'] }
+);
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type SaveRevenueGoalDTO = z.infer<typeof SaveRevenueGoalSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)');
+
+/**
+ * Schema Zod para emissão de demonstrativo de repasse
+ */
+export const IssueSettlementSchema = z.object({
+    clinicId: z.string().uuid('ID da clínica inválido'),
+    periodStart: DateSchema,
+    periodEnd: DateSchema,
+    notes: z.string().max(2000, 'Observações muito longas (máx: 2.000 caracteres)').nullable().optional(),
+}).refine(data => data.periodStart <= data.periodEnd, {
+    message: 'Início do período deve ser anterior ao fim',
+    path: ['periodEnd'],
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type IssueSettlementDTO = z.infer<typeof IssueSettlementSchema>;
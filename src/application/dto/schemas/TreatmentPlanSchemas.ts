@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ToothNumber } from '../../../domain/value-objects/ToothNumber';
+
+/**
+ * Schema Zod para criação de plano de tratamento
+ * ✅ sessions contém a descrição de cada sessão prevista, na ordem
+ */
+export const CreateTreatmentPlanSchema = z.object({
+    patientId: z.string().uuid('ID do paciente inválido'),
+    tooth: z.preprocess(
+        (val) => val === '' || val === undefined ? null : val,
+        z.string().refine(val => ToothNumber.isValid(Number(val)), 'Número de dente inválido (notação FDI)').nullable().optional()
+    ),
+    procedure: z.string().min(1, 'Procedimento é obrigatório').max(255, 'Procedimento muito longo'),
+    totalValue: z.number().nonnegative('Valor deve ser positivo'),
+    currency: z.enum(['BRL', 'USD', 'EUR']).default('BRL').optional(),
+    notes: z.string().max(5000, 'Notas muito longas (máx: 5.000 caracteres)').nullable().optional(),
+    sessions: z.array(
+        z.string().min(1, 'Descrição da sessão é obrigatória').max(255, 'Descrição da sessão muito longa')
+    ).min(1, 'Informe pelo menos uma sessão').max(50, 'Máximo de 50 sessões por plano'),
+});
+
+/**
+ * Schema Zod para adicionar uma sessão a um plano existente
+ */
+export const AddTreatmentSessionSchema = z.object({
+    description: z.string().min(1, 'Descrição da sessão é obrigatória').max(255, 'Descrição da sessão muito longa'),
+    appointmentId: z.string().uuid('ID do agendamento inválido').nullable().optional(),
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateTreatmentPlanDTO = z.infer<typeof CreateTreatmentPlanSchema>;
+export type AddTreatmentSessionDTO = z.infer<typeof AddTreatmentSessionSchema>;
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { AppointmentConstants } from '../../../domain/constants/AppointmentConstants';
+import { WAITLIST_PRIORITIES, WaitlistPriority } from '../../../domain/entities/WaitlistEntry';
+
+const TimeSchema = z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Hora inválida (formato esperado: HH:mm)');
+
+const optionalNullable = <T extends z.ZodTypeAny>(schema: T) =>
+    z.preprocess((val) => val === '' ? null : val, schema.nullable().optional());
+
+const WaitlistEntryFieldsSchema = z.object({
+    clinicId: optionalNullable(z.string().uuid('ID da clínica inválido')),
+    procedure: z.string().min(1, 'Procedimento é obrigatório').max(500, 'Procedimento muito longo'),
+    durationMinutes: z.number()
+        .int('Duração deve ser um número inteiro de minutos')
+        .min(AppointmentConstants.MIN_DURATION_MINUTES, `Duração mínima: ${AppointmentConstants.MIN_DURATION_MINUTES} minutos`)
+        .max(AppointmentConstants.MAX_DURATION_MINUTES, `Duração máxima: ${AppointmentConstants.MAX_DURATION_MINUTES} minutos`)
+        .optional(),
+    preferredWeekdays: z.array(z.number().int().min(0, 'Dia da semana inválido').max(6, 'Dia da semana inválido')).max(7).optional(),
+    preferredStart: optionalNullable(TimeSchema),
+    preferredEnd: optionalNullable(TimeSchema),
+    priority: z.enum(WAITLIST_PRIORITIES as [WaitlistPriority, ...WaitlistPriority[]]).optional(),
+    notes: optionalNullable(z.string().max(2000, 'Observações muito longas (máx: 2.000 caracteres)')),
+});
+
+const preferredRangeIsValid = (data: { preferredStart?: string | null; preferredEnd?: string | null }) =>
+    !data.preferredStart || !data.preferredEnd || data.preferredStart < data.preferredEnd;
+
+/**
+ * Schema Zod para inclusão de paciente na lista de espera
+ */
+export const CreateWaitlistEntrySchema = WaitlistEntryFieldsSchema.extend({
+    patientId: z.string().uuid('ID do paciente inválido'),
+}).refine(preferredRangeIsValid, {
+    message: 'Fim da faixa de horário deve ser posterior ao início',
+    path: ['preferredEnd'],
+});
+
+/**
+ * Schema Zod para atualização das preferências da lista de espera
+ */
+export const UpdateWaitlistEntrySchema = WaitlistEntryFieldsSchema.partial().refine(preferredRangeIsValid, {
+    message: 'Fim da faixa de horário deve ser posterior ao início',
+    path: ['preferredEnd'],
+});
+
+/**
+ * Schema Zod para agendar uma entrada da lista de espera em uma vaga
+ */
+export const BookWaitlistEntrySchema = z.object({
+    entryId: z.string().uuid('ID da entrada inválido'),
+    clinicId: optionalNullable(z.string().uuid('ID da clínica inválido')),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (formato esperado: YYYY-MM-DD)'),
+    time: TimeSchema,
+});
+
+/**
+ * Tipos inferidos dos schemas
+ */
+export type CreateWaitlistEntryDTO = z.infer<typeof CreateWaitlistEntrySchema>;
+export type UpdateWaitlistEntryDTO = z.infer<typeof UpdateWaitlistEntrySchema>;
+export type BookWaitlistEntryDTO = z.infer<typeof BookWaitlistEntrySchema>;
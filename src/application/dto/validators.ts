@@ -1,8 +1,31 @@
 import { z } from 'zod';
 import { ValidationError } from '../../domain/errors/AppError';
-import { CreatePatientSchema, UpdatePatientSchema } from './schemas/PatientSchemas';
-import { CreateAppointmentSchema, UpdateAppointmentSchema } from './schemas/AppointmentSchemas';
-import { CreateClinicSchema, UpdateClinicSchema } from './schemas/ClinicSchemas';
+import { CreatePatientSchema, UpdatePatientSchema, DuplicateCandidateSchema, MergePatientsSchema } from './schemas/PatientSchemas';
+import {
+    CreateAppointmentSchema,
+    UpdateAppointmentSchema,
+    CreateFollowUpSeriesSchema,
+    UpdateAppointmentSeriesSchema
+} from './schemas/AppointmentSchemas';
+import { CreateClinicSchema, UpdateClinicSchema, UpdateClinicAvailabilitySchema, UpdateClinicCancellationPolicySchema } from './schemas/ClinicSchemas';
+import { CreateTreatmentPlanSchema, AddTreatmentSessionSchema } from './schemas/TreatmentPlanSchemas';
+import { CreateEndodonticRecordSchema, UpdateEndodonticRecordSchema } from './schemas/EndodonticRecordSchemas';
+import { CreateWaitlistEntrySchema, UpdateWaitlistEntrySchema, BookWaitlistEntrySchema } from './schemas/WaitlistSchemas';
+import {
+    RecordPaymentSchema,
+    CreateInstallmentPlanSchema,
+    PayInstallmentSchema,
+    SettleAppointmentsSchema,
+    SavePaymentMethodFeeSchema
+} from './schemas/PaymentSchemas';
+import { IssueSettlementSchema } from './schemas/SettlementSchemas';
+import { CreateCommissionRuleSchema } from './schemas/CommissionRuleSchemas';
+import { CreateProcedurePriceSchema } from './schemas/ProcedurePriceSchemas';
+import { CreateExchangeRateSchema } from './schemas/ExchangeRateSchemas';
+import { CreateExpenseSchema, EndExpenseRecurrenceSchema } from './schemas/ExpenseSchemas';
+import { SaveRevenueGoalSchema } from './schemas/RevenueGoalSchemas';
+import { SaveAnamnesisTemplateSchema, RecordAnamnesisSchema } from './schemas/AnamnesisSchemas';
+import { SaveConsentTemplateSchema, SignConsentSchema } from './schemas/ConsentSchemas';
 
 /**
  * Valida um DTO usando um schema Zod
@@ -53,6 +76,20 @@ export function validateUpdatePatientDTO(data: unknown) {
     return validateDTO(UpdatePatientSchema, data);
 }
 
+/**
+ * Valida DTO de busca de pacientes duplicados
+ */
+export function validateDuplicateCandidateDTO(data: unknown) {
+    return validateDTO(DuplicateCandidateSchema, data);
+}
+
+/**
+ * Valida DTO de mesclagem de pacientes
+ */
+export function validateMergePatientsDTO(data: unknown) {
+    return validateDTO(MergePatientsSchema, data);
+}
+
 /**
  * Valida DTO de criação de agendamento
  */
@@ -67,6 +104,20 @@ export function validateUpdateAppointmentDTO(data: unknown) {
     return validateDTO(UpdateAppointmentSchema, data);
 }
 
+/**
+ * Valida DTO de geração de retornos
+ */
+export function validateCreateFollowUpSeriesDTO(data: unknown) {
+    return validateDTO(CreateFollowUpSeriesSchema, data);
+}
+
+/**
+ * Valida DTO de edição de série de agendamentos
+ */
+export function validateUpdateAppointmentSeriesDTO(data: unknown) {
+    return validateDTO(UpdateAppointmentSeriesSchema, data);
+}
+
 /**
  * Valida DTO de criação de clínica
  */
@@ -81,4 +132,177 @@ export function validateUpdateClinicDTO(data: unknown) {
     return validateDTO(UpdateClinicSchema, data);
 }
 
+/**
+ * Valida DTO de expediente e bloqueios de clínica
+ */
+export function validateUpdateClinicAvailabilityDTO(data: unknown) {
+    return validateDTO(UpdateClinicAvailabilitySchema, data);
+}
+
+/**
+ * Valida DTO de política de cancelamento de clínica
+ */
+export function validateUpdateClinicCancellationPolicyDTO(data: unknown) {
+    return validateDTO(UpdateClinicCancellationPolicySchema, data);
+}
+
+/**
+ * Valida DTO de criação de plano de tratamento
+ */
+export function validateCreateTreatmentPlanDTO(data: unknown) {
+    return validateDTO(CreateTreatmentPlanSchema, data);
+}
+
+/**
+ * Valida DTO de nova sessão de plano de tratamento
+ */
+export function validateAddTreatmentSessionDTO(data: unknown) {
+    return validateDTO(AddTreatmentSessionSchema, data);
+}
+
+/**
+ * Valida DTO de criação de registro endodôntico
+ */
+export function validateCreateEndodonticRecordDTO(data: unknown) {
+    return validateDTO(CreateEndodonticRecordSchema, data);
+}
+
+/**
+ * Valida DTO de atualização de registro endodôntico
+ */
+export function validateUpdateEndodonticRecordDTO(data: unknown) {
+    return validateDTO(UpdateEndodonticRecordSchema, data);
+}
+
+/**
+ * Valida DTO de inclusão na lista de espera
+ */
+export function validateCreateWaitlistEntryDTO(data: unknown) {
+    return validateDTO(CreateWaitlistEntrySchema, data);
+}
+
+/**
+ * Valida DTO de atualização de entrada da lista de espera
+ */
+export function validateUpdateWaitlistEntryDTO(data: unknown) {
+    return validateDTO(UpdateWaitlistEntrySchema, data);
+}
+
+/**
+ * Valida DTO de agendamento a partir da lista de espera
+ */
+export function validateBookWaitlistEntryDTO(data: unknown) {
+    return validateDTO(BookWaitlistEntrySchema, data);
+}
+
+/**
+ * Valida DTO de registro de pagamento
+ */
+export function validateRecordPaymentDTO(data: unknown) {
+    return validateDTO(RecordPaymentSchema, data);
+}
+
+/**
+ * Valida DTO de parcelamento
+ */
+export function validateCreateInstallmentPlanDTO(data: unknown) {
+    return validateDTO(CreateInstallmentPlanSchema, data);
+}
+
+/**
+ * Valida DTO de baixa de parcela
+ */
+export function validatePayInstallmentDTO(data: unknown) {
+    return validateDTO(PayInstallmentSchema, data);
+}
 
+/**
+ * Valida DTO de baixa em lote
+ */
+export function validateSettleAppointmentsDTO(data: unknown) {
+    return validateDTO(SettleAppointmentsSchema, data);
+}
+
+/**
+ * Valida DTO de taxa da forma de pagamento
+ */
+export function validateSavePaymentMethodFeeDTO(data: unknown) {
+    return validateDTO(SavePaymentMethodFeeSchema, data);
+}
+
+/**
+ * Valida DTO de emissão de repasse
+ */
+export function validateIssueSettlementDTO(data: unknown) {
+    return validateDTO(IssueSettlementSchema, data);
+}
+
+/**
+ * Valida DTO de nova versão de regra de comissão
+ */
+export function validateCreateCommissionRuleDTO(data: unknown) {
+    return validateDTO(CreateCommissionRuleSchema, data);
+}
+
+/**
+ * Valida DTO de nova versão de preço de tabela
+ */
+export function validateCreateProcedurePriceDTO(data: unknown) {
+    return validateDTO(CreateProcedurePriceSchema, data);
+}
+
+/**
+ * Valida DTO de cotação de câmbio
+ */
+export function validateCreateExchangeRateDTO(data: unknown) {
+    return validateDTO(CreateExchangeRateSchema, data);
+}
+
+/**
+ * Valida DTO de nova despesa
+ */
+export function validateCreateExpenseDTO(data: unknown) {
+    return validateDTO(CreateExpenseSchema, data);
+}
+
+/**
+ * Valida DTO de encerramento de despesa recorrente
+ */
+export function validateEndExpenseRecurrenceDTO(data: unknown) {
+    return validateDTO(EndExpenseRecurrenceSchema, data);
+}
+
+/**
+ * Valida DTO de meta mensal
+ */
+export function validateSaveRevenueGoalDTO(data: unknown) {
+    return validateDTO(SaveRevenueGoalSchema, data);
+}
+
+/**
+ * Valida DTO do questionário de anamnese
+ */
+export function validateSaveAnamnesisTemplateDTO(data: unknown) {
+    return validateDTO(SaveAnamnesisTemplateSchema, data);
+}
+
+/**
+ * Valida DTO de nova versão da anamnese do paciente
+ */
+export function validateRecordAnamnesisDTO(data: unknown) {
+    return validateDTO(RecordAnamnesisSchema, data);
+}
+
+/**
+ * Valida DTO de modelo de termo de consentimento
+ */
+export function validateSaveConsentTemplateDTO(data: unknown) {
+    return validateDTO(SaveConsentTemplateSchema, data);
+}
+
+/**
+ * Valida DTO de assinatura de termo de consentimento
+ */
+export function validateSignConsentDTO(data: unknown) {
+    return validateDTO(SignConsentSchema, data);
+}
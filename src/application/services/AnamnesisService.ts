@@ -0,0 +1,140 @@
+import { IAnamnesisRepository } from '../../infrastructure/repositories/interfaces/IAnamnesisRepository';
+import { IPatientRepository } from '../../infrastructure/repositories/interfaces/IPatientRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { NotFoundError } from '../../domain/errors/AppError';
+import { AnamnesisRecord } from '../../domain/entities/AnamnesisRecord';
+import { AnamnesisTemplate } from '../../domain/entities/AnamnesisTemplate';
+import { AnamnesisDomainService, AnamnesisStatus } from '../../domain/services/AnamnesisDomainService';
+import { validateSaveAnamnesisTemplateDTO, validateRecordAnamnesisDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+import { toISODate } from '../../lib/calendar';
+
+const today = (): string => toISODate(new Date());
+
+/**
+ * Serviço para a anamnese (histórico médico) dos pacientes
+ *
+ * O questionário é configurável por usuário (sem configuração vale o padrão);
+ * cada preenchimento gera uma nova versão com a cópia das perguntas, e as
+ * respostas críticas viram alertas no paciente e no agendamento.
+ */
+export class AnamnesisService {
+    constructor(
+        private readonly repository: IAnamnesisRepository,
+        private readonly patientRepository: IPatientRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService
+    ) {}
+
+    /**
+     * Questionário do usuário (o padrão, se ainda não configurado)
+     */
+    async getTemplate(): Promise<AnamnesisTemplate> {
+        try {
+            return (await this.repository.findTemplate()) ?? AnamnesisTemplate.create();
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AnamnesisService.getTemplate' });
+        }
+    }
+
+    /**
+     * Salva as perguntas e o prazo de revisão do questionário
+     * ✅ Anamneses já preenchidas mantêm as perguntas da época
+     */
+    async saveTemplate(templateData: unknown): Promise<AnamnesisTemplate> {
+        try {
+            const validated = validateSaveAnamnesisTemplateDTO(templateData);
+            const existing = await this.repository.findTemplate();
+
+            if (existing) {
+                const oldData = existing.toJSON();
+                existing.update(validated);
+                const updated = await this.repository.updateTemplate(existing.id, existing);
+                await this.audit('update', 'anamnesis_template', updated.id, oldData, updated.toJSON());
+                return updated;
+            }
+
+            const created = await this.repository.createTemplate(AnamnesisTemplate.create(validated));
+            await this.audit('create', 'anamnesis_template', created.id, null, created.toJSON());
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AnamnesisService.saveTemplate' });
+        }
+    }
+
+    /**
+     * Versões da anamnese do paciente (mais recente primeiro)
+     */
+    async getHistory(patientId: string): Promise<AnamnesisRecord[]> {
+        try {
+            return await this.repository.findByPatientId(patientId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AnamnesisService.getHistory', patientId });
+        }
+    }
+
+    /**
+     * Alertas e situação da revisão da anamnese do paciente
+     */
+    async getStatus(patientId: string): Promise<AnamnesisStatus> {
+        try {
+            const [latest, template] = await Promise.all([
+                this.repository.findLatestByPatientId(patientId),
+                this.getTemplate()
+            ]);
+            return AnamnesisDomainService.status(latest, template.reviewIntervalMonths, today());
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AnamnesisService.getStatus', patientId });
+        }
+    }
+
+    /**
+     * Registra uma nova versão da anamnese com o questionário atual
+     */
+    async record(anamnesisData: unknown): Promise<AnamnesisRecord> {
+        try {
+            const validated = validateRecordAnamnesisDTO(anamnesisData);
+            const patient = await this.patientRepository.findById(validated.patientId);
+            if (!patient) {
+                throw new NotFoundError('Paciente', validated.patientId);
+            }
+
+            const [history, template] = await Promise.all([
+                this.repository.findByPatientId(validated.patientId),
+                this.getTemplate()
+            ]);
+
+            const record = AnamnesisRecord.create({
+                patientId: validated.patientId,
+                version: AnamnesisDomainService.nextVersion(history),
+                questions: template.questions,
+                answers: validated.answers,
+                notes: validated.notes
+            });
+
+            const created = await this.repository.create(record);
+            await this.audit('create', 'anamnesis', created.id, null, created.toJSON());
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AnamnesisService.record' });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update',
+        resource: 'anamnesis' | 'anamnesis_template',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, resource, id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -1,6 +1,7 @@
-import { IAppointmentRepository, AppointmentTotals } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IAppointmentRepository, AppointmentTotals, AppointmentWithRelations } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
 import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
-import { Appointment } from '../../domain/entities/Appointment';
+import { Appointment, CancellationActor } from '../../domain/entities/Appointment';
+import { AppointmentDomainService } from '../../domain/services/AppointmentDomainService';
 import { IAppointmentService } from './interfaces/IAppointmentService';
 import { Currency } from '../../domain/value-objects/Money';
 import { PaymentTypeValue } from '../../domain/value-objects/PaymentType';
@@ -10,8 +11,17 @@ import {
     IDeleteAppointmentUseCase,
     IGetAppointmentUseCase,
     IGetAllAppointmentsUseCase,
+    IUpdateAppointmentSeriesUseCase,
+    ICancelAppointmentSeriesUseCase,
+    IFindFreeSlotsUseCase,
     CreateAppointmentInput,
-    UpdateAppointmentInput
+    UpdateAppointmentInput,
+    CreateFollowUpSeriesInput,
+    UpdateAppointmentSeriesInput,
+    CancelAppointmentSeriesInput,
+    CancelAppointmentSeriesOutput,
+    FindFreeSlotsInput,
+    FindFreeSlotsOutput
 } from '../use-cases/appointment';
 import type { CreateAppointmentDTO as ZodCreateAppointmentDTO } from '../dto/schemas/AppointmentSchemas';
 
@@ -55,6 +65,9 @@ export class AppointmentService implements IAppointmentService {
         private readonly deleteAppointmentUseCase: IDeleteAppointmentUseCase,
         private readonly getAppointmentUseCase: IGetAppointmentUseCase,
         private readonly getAllAppointmentsUseCase: IGetAllAppointmentsUseCase,
+        private readonly updateAppointmentSeriesUseCase: IUpdateAppointmentSeriesUseCase,
+        private readonly cancelAppointmentSeriesUseCase: ICancelAppointmentSeriesUseCase,
+        private readonly findFreeSlotsUseCase: IFindFreeSlotsUseCase,
         private readonly repository: IAppointmentRepository,
         private readonly errorHandler: IErrorHandler
     ) {}
@@ -63,7 +76,7 @@ export class AppointmentService implements IAppointmentService {
      * Busca todos os agendamentos
      * ✅ Usa GetAllAppointmentsUseCase para separação de responsabilidades
      */
-    async getAll(options: FindAllOptions = {}): Promise<PaginationResult<Appointment>> {
+    async getAll(options: FindAllOptions = {}): Promise<PaginationResult<AppointmentWithRelations>> {
         try {
             const result = await this.getAllAppointmentsUseCase.execute({ options });
             
@@ -81,7 +94,7 @@ export class AppointmentService implements IAppointmentService {
                 };
             }
             
-            return result.appointments as PaginationResult<Appointment>;
+            return result.appointments as PaginationResult<AppointmentWithRelations>;
         } catch (error) {
             throw this.errorHandler.handle(error, { context: 'AppointmentService.getAll' });
         }
@@ -105,11 +118,11 @@ export class AppointmentService implements IAppointmentService {
      * Busca agendamentos por paciente
      * ✅ Usa GetAllAppointmentsUseCase com filtros para consistência arquitetural
      */
-    async getByPatientId(patientId: string): Promise<Appointment[]> {
+    async getByPatientId(patientId: string): Promise<AppointmentWithRelations[]> {
         try {
             const result = await this.getAllAppointmentsUseCase.execute({
                 options: {
-                    filters: { patientId }
+                    filters: { patient_id: patientId }
                 }
             });
             
@@ -205,6 +218,56 @@ export class AppointmentService implements IAppointmentService {
         }
     }
 
+    /**
+     * Gera retornos a partir de um atendimento concluído (ex.: 6 e 12 meses)
+     */
+    async createFollowUpSeries(input: CreateFollowUpSeriesInput): Promise<Appointment[]> {
+        try {
+            const result = await this.createAppointmentUseCase.createFollowUpSeries(input);
+            return result.appointments;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.createFollowUpSeries', input });
+        }
+    }
+
+    /**
+     * Busca todos os agendamentos de uma série, em ordem cronológica
+     */
+    async getSeries(seriesId: string): Promise<Appointment[]> {
+        try {
+            return await this.repository.findBySeriesId(seriesId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.getSeries', seriesId });
+        }
+    }
+
+    /**
+     * Altera em conjunto os agendamentos pendentes de uma série
+     */
+    async updateSeries(input: UpdateAppointmentSeriesInput): Promise<Appointment[]> {
+        try {
+            const result = await this.updateAppointmentSeriesUseCase.execute(input);
+            return result.appointments;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.updateSeries', input });
+        }
+    }
+
+    /**
+     * Cancela os agendamentos pendentes de uma série
+     * Ocorrências fora do prazo da política de cancelamento são mantidas e retornadas em `skipped`
+     */
+    async cancelSeries(
+        seriesId: string,
+        cancellation: Omit<CancelAppointmentSeriesInput, 'seriesId'> = {}
+    ): Promise<CancelAppointmentSeriesOutput> {
+        try {
+            return await this.cancelAppointmentSeriesUseCase.execute({ seriesId, ...cancellation });
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.cancelSeries', seriesId });
+        }
+    }
+
     /**
      * Atualiza um agendamento
      * ✅ Usa UpdateAppointmentUseCase para separação de responsabilidades
@@ -221,6 +284,52 @@ export class AppointmentService implements IAppointmentService {
         }
     }
 
+    /**
+     * Cancela um agendamento segundo a política de cancelamento da clínica
+     * Fora do prazo exige motivo (quando a política permite exceção) e registra a taxa devida
+     */
+    async cancel(
+        id: string,
+        cancellation: { reason?: string | null; cancelledBy?: CancellationActor | null } = {}
+    ): Promise<Appointment> {
+        try {
+            const result = await this.updateAppointmentUseCase.execute({
+                id,
+                clinicalStatus: 'cancelled',
+                cancellationReason: cancellation.reason ?? null,
+                cancelledBy: cancellation.cancelledBy ?? null
+            });
+            return result.appointment;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.cancel', id });
+        }
+    }
+
+    /**
+     * Obtém avisos de deslocamento entre clínicas diferentes no mesmo dia
+     * Não bloqueia o agendamento; serve para alertar o usuário após salvar
+     */
+    async getTravelWarnings(appointment: Appointment): Promise<string[]> {
+        try {
+            const sameDay = await this.repository.findByDate(appointment.dateString);
+            return AppointmentDomainService.getTravelWarnings(appointment, sameDay);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.getTravelWarnings', id: appointment.id });
+        }
+    }
+
+    /**
+     * Sugere os próximos horários livres de uma clínica
+     * ✅ Considera expediente, feriados, bloqueios e agendamentos existentes
+     */
+    async findFreeSlots(input: FindFreeSlotsInput): Promise<FindFreeSlotsOutput> {
+        try {
+            return await this.findFreeSlotsUseCase.execute(input);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'AppointmentService.findFreeSlots', input });
+        }
+    }
+
     /**
      * Deleta um agendamento
      * ✅ Usa DeleteAppointmentUseCase para separação de responsabilidades
@@ -5,10 +5,18 @@ import { IAuditService } from '../../infrastructure/audit/IAuditService';
 import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
 import { NotFoundError, ValidationError } from '../../domain/errors/AppError';
 import { DatabaseAdapter } from '../../infrastructure/database/DatabaseAdapter';
-import { calculateReceivedValue } from '../../lib/utils';
+import { calculateReceivedMoney } from '../../lib/utils';
+import { Money, Currency } from '../../domain/value-objects/Money';
+import { ExchangeRate } from '../../domain/entities/ExchangeRate';
+import { ExchangeRateDomainService, AppliedRate, MissingRate } from '../../domain/services/ExchangeRateDomainService';
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
 import { Clinic } from '../../domain/entities/Clinic';
 import { IClinicService } from './interfaces/IClinicService';
-import { validateCreateClinicDTO } from '../dto/validators';
+import {
+    validateCreateClinicDTO,
+    validateUpdateClinicAvailabilityDTO,
+    validateUpdateClinicCancellationPolicyDTO
+} from '../dto/validators';
 import { logger } from '../../lib/logger';
 
 interface FindAllOptions {
@@ -29,10 +37,38 @@ interface PaginationResult<T> {
     };
 }
 
-interface ClinicStats {
+export interface ClinicStats {
     appointments: number;
     revenue: number;
     ticket: number;
+    /** Moeda em que revenue e ticket estão expressos */
+    currency: Currency;
+    /** Cotações usadas para converter atendimentos em outras moedas */
+    rates: AppliedRate[];
+    /** Atendimentos deixados de fora por falta de cotação */
+    missingRates: MissingRate[];
+}
+
+type ClinicAmountRow = {
+    clinic_id?: string;
+    value?: number | string | null;
+    currency?: Currency | null;
+    date: string;
+    payment_date?: string | null;
+    status?: string;
+    payment_type?: string;
+    payment_percentage?: number;
+    payment_fixed_amount?: number | null;
+};
+
+const STATS_COLUMNS = 'value, currency, date, payment_date, status, payment_type, payment_percentage, payment_fixed_amount';
+
+/**
+ * Período (YYYY-MM-DD, inclusive) para restringir as estatísticas
+ */
+export interface ClinicStatsPeriod {
+    start: string;
+    end: string;
 }
 
 /**
@@ -45,7 +81,8 @@ export class ClinicService implements IClinicService {
         private readonly cacheService: ICacheService,
         private readonly errorHandler: IErrorHandler,
         private readonly auditService: IAuditService,
-        private readonly sanitizer: ISanitizer
+        private readonly sanitizer: ISanitizer,
+        private readonly exchangeRateRepository: IExchangeRateRepository | null = null
     ) {}
 
     /**
@@ -250,6 +287,84 @@ export class ClinicService implements IClinicService {
         }
     }
 
+    /**
+     * Atualiza expediente semanal, feriados e bloqueios da clínica
+     * ✅ Valida DTO e invariantes da entidade (janelas sem sobreposição, datas únicas)
+     * @throws {NotFoundError} Se clínica não encontrada
+     */
+    async updateAvailability(id: string, availability: unknown): Promise<Clinic> {
+        try {
+            const validated = validateUpdateClinicAvailabilityDTO(availability);
+
+            const clinic = await this.repository.findById(id);
+            if (!clinic) {
+                throw new NotFoundError('Clínica', id);
+            }
+            const oldData = clinic.toJSON();
+
+            clinic.updateAvailability(
+                validated.workingHours,
+                validated.blockedDates.map(blocked => ({
+                    date: blocked.date,
+                    kind: blocked.kind,
+                    reason: blocked.reason ? this.sanitizer.sanitizeText(blocked.reason) : null
+                }))
+            );
+
+            const updated = await this.repository.update(id, clinic);
+
+            try {
+                await this.auditService.log('update', 'clinic', id, oldData, updated.toJSON());
+            } catch (auditError) {
+                // ✅ Ignorar erros de auditoria (não crítico)
+                logger.debug('Audit log failed (non-critical)', { error: auditError });
+            }
+
+            await this.cacheService.invalidateByTag('clinics').catch(() => {
+                // Ignorar erros de cache silenciosamente
+            });
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ClinicService.updateAvailability', id });
+        }
+    }
+
+    /**
+     * Define a política de cancelamento da clínica (null volta ao padrão)
+     * @throws {NotFoundError} Se clínica não encontrada
+     */
+    async updateCancellationPolicy(id: string, policy: unknown): Promise<Clinic> {
+        try {
+            const validated = validateUpdateClinicCancellationPolicyDTO(policy);
+
+            const clinic = await this.repository.findById(id);
+            if (!clinic) {
+                throw new NotFoundError('Clínica', id);
+            }
+            const oldData = clinic.toJSON();
+
+            clinic.updateCancellationPolicy(validated);
+
+            const updated = await this.repository.update(id, clinic);
+
+            try {
+                await this.auditService.log('update', 'clinic', id, oldData, updated.toJSON());
+            } catch (auditError) {
+                // ✅ Ignorar erros de auditoria (não crítico)
+                logger.debug('Audit log failed (non-critical)', { error: auditError });
+            }
+
+            await this.cacheService.invalidateByTag('clinics').catch(() => {
+                // Ignorar erros de cache silenciosamente
+            });
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ClinicService.updateCancellationPolicy', id });
+        }
+    }
+
     /**
      * Deleta uma clínica
      */
@@ -295,30 +410,28 @@ export class ClinicService implements IClinicService {
     /**
      * Busca estatísticas de uma clínica por ID
      * ✅ Usa DatabaseAdapter ao invés de import direto do Supabase
+     * @param period - Restringe aos atendimentos do período (usado na conciliação do repasse)
+     * @param reportingCurrency - Moeda em que receita e ticket médio são calculados
      */
-    async getStatsById(clinicId: string): Promise<ClinicStats> {
+    async getStatsById(clinicId: string, period?: ClinicStatsPeriod, reportingCurrency: Currency = 'BRL'): Promise<ClinicStats> {
         try {
             if (!clinicId) {
-                return { appointments: 0, revenue: 0, ticket: 0 };
+                return this.summarizeStats([], reportingCurrency, []);
             }
 
             // ✅ Usar DatabaseAdapter ao invés de import direto
-            const appointments = await this.db.table('appointments')
-                .select('value, status, payment_type, payment_percentage')
-                .where('clinic_id', clinicId)
-                .execute<Array<{ value?: number; status?: string; payment_type?: string; payment_percentage?: number }>>();
-
-            const appointmentsArray = Array.isArray(appointments) ? appointments : [];
-            const totalValue = appointmentsArray.reduce((sum, a) => sum + parseFloat(String(a.value || 0)), 0);
-            const paidAppointments = appointmentsArray.filter(a => a.status === 'paid');
-            const revenue = paidAppointments.reduce((sum, a) => sum + calculateReceivedValue(a as { value?: number; payment_type?: string; payment_percentage?: number }), 0);
-            const ticket = appointmentsArray.length > 0 ? totalValue / appointmentsArray.length : 0;
+            let query = this.db.table('appointments')
+                .select(STATS_COLUMNS)
+                .where('clinic_id', clinicId);
+            if (period) {
+                query = query.where('date', { gte: period.start, lte: period.end });
+            }
+            const [appointments, rates] = await Promise.all([
+                query.execute<ClinicAmountRow[]>(),
+                this.loadRates()
+            ]);
 
-            return {
-                appointments: appointmentsArray.length,
-                revenue: revenue,
-                ticket: ticket
-            };
+            return this.summarizeStats(Array.isArray(appointments) ? appointments : [], reportingCurrency, rates);
         } catch (error) {
             throw this.errorHandler.handle(error, { context: 'ClinicService.getStatsById', clinicId });
         }
@@ -327,49 +440,37 @@ export class ClinicService implements IClinicService {
     /**
      * Busca estatísticas de múltiplas clínicas em batch (resolve N+1)
      * ✅ Usa DatabaseAdapter ao invés de import direto do Supabase
+     * @param reportingCurrency - Moeda em que receita e ticket médio são calculados
      */
-    async getStatsBatch(clinicIds: string[]): Promise<Record<string, ClinicStats>> {
+    async getStatsBatch(clinicIds: string[], reportingCurrency: Currency = 'BRL'): Promise<Record<string, ClinicStats>> {
         try {
             if (!clinicIds || clinicIds.length === 0) {
                 return {};
             }
 
             // ✅ Query única para todas as clínicas usando DatabaseAdapter
-            const data = await this.db.table('appointments')
-                .select('clinic_id, value, status, payment_type, payment_percentage')
-                .whereIn('clinic_id', clinicIds)
-                .execute<Array<{ clinic_id?: string; value?: number; status?: string; payment_type?: string; payment_percentage?: number }>>();
+            const [data, rates] = await Promise.all([
+                this.db.table('appointments')
+                    .select(`clinic_id, ${STATS_COLUMNS}`)
+                    .whereIn('clinic_id', clinicIds)
+                    .execute<ClinicAmountRow[]>(),
+                this.loadRates()
+            ]);
 
-            // Inicializar mapa com zeros
-            const statsMap: Record<string, ClinicStats> = {};
+            // Agrupar por clínica
+            const appointmentsByClinic: Record<string, ClinicAmountRow[]> = {};
             clinicIds.forEach(id => {
-                statsMap[id] = { appointments: 0, revenue: 0, ticket: 0 };
+                appointmentsByClinic[id] = [];
             });
-
-            // Agrupar por clínica
-            const appointmentsByClinic: Record<string, Array<{ value?: number; status?: string; payment_type?: string; payment_percentage?: number }>> = {};
             const appointmentsArray = Array.isArray(data) ? data : [];
             appointmentsArray.forEach(apt => {
-                const clinicId = apt.clinic_id as string;
-                if (!appointmentsByClinic[clinicId]) {
-                    appointmentsByClinic[clinicId] = [];
-                }
-                appointmentsByClinic[clinicId].push(apt);
+                appointmentsByClinic[apt.clinic_id as string]?.push(apt);
             });
 
-            // Calcular estatísticas para cada clínica
+            // Calcular estatísticas para cada clínica (sem atendimentos, zeradas)
+            const statsMap: Record<string, ClinicStats> = {};
             Object.keys(appointmentsByClinic).forEach(clinicId => {
-                const appointments = appointmentsByClinic[clinicId];
-                const totalValue = appointments.reduce((sum, a) => sum + parseFloat(String(a.value || 0)), 0);
-                const paidAppointments = appointments.filter(a => a.status === 'paid');
-                const revenue = paidAppointments.reduce((sum, a) => sum + calculateReceivedValue(a as { value?: number; payment_type?: string; payment_percentage?: number }), 0);
-                const ticket = appointments.length > 0 ? totalValue / appointments.length : 0;
-
-                statsMap[clinicId] = {
-                    appointments: appointments.length,
-                    revenue: revenue,
-                    ticket: ticket
-                };
+                statsMap[clinicId] = this.summarizeStats(appointmentsByClinic[clinicId], reportingCurrency, rates);
             });
 
             return statsMap;
@@ -377,5 +478,46 @@ export class ClinicService implements IClinicService {
             throw this.errorHandler.handle(error, { context: 'ClinicService.getStatsBatch', clinicIds });
         }
     }
-}
 
+    /**
+     * Cotações cadastradas (sem repositório, só valores na própria moeda são somados)
+     */
+    private async loadRates(): Promise<ExchangeRate[]> {
+        return this.exchangeRateRepository ? this.exchangeRateRepository.findAll() : [];
+    }
+
+    /**
+     * Receita (atendimentos pagos, pela cotação do pagamento) e ticket médio
+     * (valor dos atendimentos, pela cotação do atendimento) na moeda de relatório
+     */
+    private summarizeStats(appointments: ClinicAmountRow[], reportingCurrency: Currency, rates: ExchangeRate[]): ClinicStats {
+        const values = appointments.map(a => ({
+            money: Money.create(parseFloat(String(a.value || 0)), a.currency || 'BRL'),
+            date: a.date
+        }));
+        const received = appointments
+            .filter(a => a.status === 'paid')
+            .map(a => ({
+                money: calculateReceivedMoney({ ...a, value: parseFloat(String(a.value || 0)), currency: a.currency || 'BRL' }),
+                date: a.payment_date || a.date
+            }));
+
+        const total = ExchangeRateDomainService.convertTotal(values, reportingCurrency, rates);
+        const revenue = ExchangeRateDomainService.convertTotal(received, reportingCurrency, rates);
+        // Atendimentos sem cotação ficam fora do total e também da média
+        const priced = values.filter(({ money, date }) =>
+            ExchangeRateDomainService.findRate(rates, money.currency, reportingCurrency, date) !== null
+        ).length;
+
+        const uniqueBy = <T>(items: T[], key: (item: T) => string): T[] =>
+            [...new Map(items.map(item => [key(item), item])).values()];
+        return {
+            appointments: appointments.length,
+            revenue: revenue.total.amount,
+            ticket: priced > 0 ? total.total.amount / priced : 0,
+            currency: reportingCurrency,
+            rates: uniqueBy([...revenue.ratesUsed, ...total.ratesUsed], rate => `${rate.fromCurrency}|${rate.date}`),
+            missingRates: uniqueBy([...revenue.missing, ...total.missing], missing => `${missing.currency}|${missing.date}`)
+        };
+    }
+}
@@ -0,0 +1,138 @@
+import { ICommissionRuleRepository } from '../../infrastructure/repositories/interfaces/ICommissionRuleRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { CommissionRule } from '../../domain/entities/CommissionRule';
+import { CommissionDomainService } from '../../domain/services/CommissionDomainService';
+import { validateCreateCommissionRuleDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+import { toISODate } from '../../lib/calendar';
+
+const today = () => toISODate(new Date());
+
+/**
+ * Serviço para as regras de comissão das clínicas
+ *
+ * Cada clínica tem uma regra padrão e, opcionalmente, regras por procedimento.
+ * Mudanças de acordo entram como novas versões com data de vigência, então o
+ * histórico mostra qual regra valia em cada época.
+ */
+export class CommissionService {
+    constructor(
+        private readonly repository: ICommissionRuleRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Histórico de regras da clínica (padrão primeiro, vigência mais recente no topo)
+     */
+    async getByClinicId(clinicId: string): Promise<CommissionRule[]> {
+        try {
+            return CommissionDomainService.sortHistory(await this.repository.findByClinicId(clinicId));
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'CommissionService.getByClinicId', clinicId });
+        }
+    }
+
+    /**
+     * Regra vigente para um atendimento, usada para preencher o formulário de agendamento
+     * @param date - Data do atendimento (YYYY-MM-DD)
+     */
+    async resolve(clinicId: string, procedure: string, date: string): Promise<CommissionRule | null> {
+        try {
+            const rules = await this.repository.findByClinicId(clinicId);
+            return CommissionDomainService.resolve(rules, clinicId, procedure, date);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'CommissionService.resolve', clinicId });
+        }
+    }
+
+    /**
+     * Cadastra uma nova versão de regra
+     * ✅ Agendamentos já criados mantêm os valores da regra anterior
+     * @throws {DomainError} Se já existir versão da mesma regra com a mesma vigência
+     */
+    async create(ruleData: unknown): Promise<CommissionRule> {
+        try {
+            const validated = validateCreateCommissionRuleDTO(ruleData);
+            const clinic = await this.clinicRepository.findById(validated.clinicId);
+            if (!clinic) {
+                throw new NotFoundError('Clínica', validated.clinicId);
+            }
+
+            const rule = CommissionRule.create({
+                clinicId: validated.clinicId,
+                procedure: validated.procedure ? this.sanitizer.sanitizeText(validated.procedure) : null,
+                paymentType: validated.paymentType,
+                paymentPercentage: validated.paymentPercentage ?? null,
+                paymentFixedAmount: validated.paymentFixedAmount ?? null,
+                effectiveFrom: validated.effectiveFrom,
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : null
+            });
+
+            const existing = await this.repository.findByClinicId(validated.clinicId);
+            const sameVersion = existing.some(other =>
+                other.effectiveFrom === rule.effectiveFrom &&
+                (rule.procedure === null ? other.isClinicDefault : other.appliesToProcedure(rule.procedure))
+            );
+            if (sameVersion) {
+                throw new DomainError('Já existe uma versão desta regra com a mesma data de vigência');
+            }
+
+            const created = await this.repository.create(rule);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Commission rule created successfully', {
+                ruleId: created.id,
+                clinicId: created.clinicId,
+                procedure: created.procedure
+            });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'CommissionService.create' });
+        }
+    }
+
+    /**
+     * Remove uma versão agendada para o futuro
+     * @param referenceDate - Referência para a vigência (YYYY-MM-DD)
+     * @throws {DomainError} Se a versão já entrou em vigor (faz parte do histórico)
+     */
+    async delete(id: string, referenceDate: string = today()): Promise<void> {
+        try {
+            const rule = await this.repository.findById(id);
+            if (!rule) {
+                throw new NotFoundError('Regra de comissão', id);
+            }
+            if (rule.isEffectiveOn(referenceDate)) {
+                throw new DomainError('Regras que já entraram em vigor fazem parte do histórico e não podem ser excluídas');
+            }
+
+            await this.repository.delete(id);
+            await this.audit('delete', id, rule.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'CommissionService.delete', id });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'commission_rule', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
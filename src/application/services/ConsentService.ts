@@ -0,0 +1,205 @@
+import { IConsentRepository } from '../../infrastructure/repositories/interfaces/IConsentRepository';
+import { IPatientRepository } from '../../infrastructure/repositories/interfaces/IPatientRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { RadiographService } from './RadiographService';
+import { DomainError, NotFoundError } from '../../domain/errors/AppError';
+import { ConsentDocument } from '../../domain/entities/ConsentDocument';
+import { CONSENT_KINDS, DEFAULT_CONSENT_TEMPLATE_PREFIX, ConsentTemplate } from '../../domain/entities/ConsentTemplate';
+import { ConsentDomainService } from '../../domain/services/ConsentDomainService';
+import { validateSaveConsentTemplateDTO, validateSignConsentDTO } from '../dto/validators';
+import { consentPlaceholderValues } from '../../lib/consent';
+import { renderConsentPdf, consentFileName } from '../../lib/consentPdf';
+import { sha256Hex } from '../../lib/hash';
+import { fetchWithTimeout } from '../../lib/fetchWithTimeout';
+import { logger } from '../../lib/logger';
+
+/**
+ * Serviço para os termos de consentimento (tratamento endodôntico e cirurgia)
+ *
+ * O termo é gerado a partir do modelo, assinado na tela e salvo como PDF no
+ * armazenamento das radiografias do paciente, junto com o hash SHA-256 do
+ * arquivo para conferência posterior.
+ */
+export class ConsentService {
+    constructor(
+        private readonly repository: IConsentRepository,
+        private readonly patientRepository: IPatientRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly radiographService: RadiographService,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService
+    ) {}
+
+    /**
+     * Modelos do usuário + modelos padrão dos tipos ainda sem modelo salvo
+     */
+    async getTemplates(): Promise<ConsentTemplate[]> {
+        try {
+            const saved = await this.repository.findTemplates();
+            const defaults = CONSENT_KINDS
+                .filter(kind => !saved.some(template => template.kind === kind))
+                .map(kind => ConsentTemplate.createDefault(kind));
+            return [...saved, ...defaults];
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ConsentService.getTemplates' });
+        }
+    }
+
+    /**
+     * Salva um modelo de termo
+     * ✅ Editar um modelo padrão cria um modelo do usuário; termos já assinados mantêm o texto da época
+     */
+    async saveTemplate(templateData: unknown): Promise<ConsentTemplate> {
+        try {
+            const { id, ...validated } = validateSaveConsentTemplateDTO(templateData);
+
+            if (id && !id.startsWith(DEFAULT_CONSENT_TEMPLATE_PREFIX)) {
+                const existing = (await this.repository.findTemplates()).find(template => template.id === id);
+                if (!existing) {
+                    throw new NotFoundError('Modelo de termo', id);
+                }
+                const oldData = existing.toJSON();
+                existing.update(validated);
+                const updated = await this.repository.updateTemplate(id, existing);
+                await this.audit('update', 'consent_template', updated.id, oldData, updated.toJSON());
+                return updated;
+            }
+
+            const created = await this.repository.createTemplate(ConsentTemplate.create(validated));
+            await this.audit('create', 'consent_template', created.id, null, created.toJSON());
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ConsentService.saveTemplate' });
+        }
+    }
+
+    /**
+     * Remove um modelo do usuário (o tipo volta a usar o modelo padrão se ficar sem modelos)
+     */
+    async deleteTemplate(id: string): Promise<void> {
+        try {
+            const existing = (await this.repository.findTemplates()).find(template => template.id === id);
+            if (!existing) {
+                throw new NotFoundError('Modelo de termo', id);
+            }
+            await this.repository.deleteTemplate(id);
+            await this.audit('delete', 'consent_template', id, existing.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ConsentService.deleteTemplate', id });
+        }
+    }
+
+    /**
+     * Termos assinados do paciente (mais recentes primeiro)
+     */
+    async getByPatientId(patientId: string): Promise<ConsentDocument[]> {
+        try {
+            return await this.repository.findByPatientId(patientId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ConsentService.getByPatientId', patientId });
+        }
+    }
+
+    /**
+     * Gera o PDF do termo com a assinatura, envia para o armazenamento das radiografias e registra o hash
+     */
+    async sign(consentData: unknown): Promise<ConsentDocument> {
+        try {
+            const validated = validateSignConsentDTO(consentData);
+            const patient = await this.patientRepository.findById(validated.patientId);
+            if (!patient) {
+                throw new NotFoundError('Paciente', validated.patientId);
+            }
+
+            if (validated.appointmentId) {
+                const appointment = await this.appointmentRepository.findById(validated.appointmentId);
+                if (!appointment || appointment.patientId !== patient.id) {
+                    throw new DomainError('O agendamento informado não pertence a este paciente');
+                }
+            }
+
+            const template = (await this.getTemplates()).find(item => item.id === validated.templateId);
+            if (!template) {
+                throw new NotFoundError('Modelo de termo', validated.templateId);
+            }
+
+            const signedAt = new Date();
+            const teeth = validated.teeth ?? [];
+            const content = ConsentDomainService.render(template.body, consentPlaceholderValues({
+                patient,
+                signerName: validated.signerName,
+                procedure: validated.procedure,
+                teeth,
+                date: signedAt
+            }));
+
+            const pdf = renderConsentPdf({
+                title: template.title,
+                content,
+                patientName: patient.name,
+                signerName: validated.signerName,
+                signedAt,
+                signatureDataUrl: validated.signatureDataUrl
+            });
+            const sha256 = await sha256Hex(pdf);
+            const file = new File([pdf], consentFileName(patient.name, signedAt), { type: 'application/pdf' });
+            const upload = await this.radiographService.uploadFileToStorage(file);
+
+            const document = ConsentDocument.create({
+                patientId: patient.id,
+                appointmentId: validated.appointmentId ?? null,
+                templateId: template.isDefault ? null : template.id,
+                kind: template.kind,
+                title: template.title,
+                procedure: validated.procedure,
+                teeth,
+                content,
+                signerName: validated.signerName,
+                signedAt,
+                fileUrl: upload.url,
+                fileName: upload.fileName,
+                sha256
+            });
+
+            const created = await this.repository.create(document);
+            await this.audit('create', 'consent_document', created.id, null, created.toJSON());
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ConsentService.sign' });
+        }
+    }
+
+    /**
+     * Confere se o PDF armazenado ainda corresponde ao hash registrado na assinatura
+     */
+    async verify(document: ConsentDocument): Promise<boolean> {
+        try {
+            const response = await fetchWithTimeout(document.fileUrl);
+            if (!response.ok) {
+                throw new Error(`Não foi possível baixar o termo assinado (HTTP ${response.status})`);
+            }
+            return (await sha256Hex(await response.arrayBuffer())) === document.sha256;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ConsentService.verify', id: document.id });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update' | 'delete',
+        resource: 'consent_document' | 'consent_template',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, resource, id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -1,23 +1,87 @@
 import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
 import { ICacheService } from '../../infrastructure/cache/ICacheService';
-import { calculateReceivedValue } from '../../lib/utils';
+import { calculateReceivedMoney } from '../../lib/utils';
+import { Money, Currency } from '../../domain/value-objects/Money';
+import { ExchangeRate } from '../../domain/entities/ExchangeRate';
+import {
+    ExchangeRateDomainService,
+    AppliedRate,
+    MissingRate,
+    ConvertibleAmount,
+    ConvertedTotal
+} from '../../domain/services/ExchangeRateDomainService';
 import { IAppointmentService } from './interfaces/IAppointmentService';
 import { IPatientService } from './interfaces/IPatientService';
 import { IClinicService } from './interfaces/IClinicService';
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
 import { Appointment } from '../../domain/entities/Appointment';
 import { Clinic } from '../../domain/entities/Clinic';
+import { PaymentStatusValue } from '../../domain/value-objects/AppointmentStatus';
+import { ClinicalStatusValue } from '../../domain/value-objects/ClinicalStatus';
 import { DatabaseAdapter } from '../../infrastructure/database/DatabaseAdapter';
 import { DatabaseError } from '../../domain/errors/AppError';
 import { extractArray } from '../../lib/typeGuards';
 import { getSession } from '../../lib/auth';
+import { paymentStatusColumns } from '../../lib/appointmentStatus';
 
 interface DashboardStats {
     revenue: number;
     pending: number;
     appointments: number;
     clinics: number;
+    /** Moeda em que revenue e pending estão expressos */
+    currency: Currency;
+    /** Cotações usadas para converter valores em outras moedas */
+    rates: AppliedRate[];
+    /** Valores deixados de fora por falta de cotação */
+    missingRates: MissingRate[];
 }
 
+type AppointmentAmountRow = {
+    value: number | string | null;
+    currency: Currency | null;
+    date: string;
+    payment_date: string | null;
+    amount_paid: number | string | null;
+    payment_type: string | null;
+    payment_percentage: number | string | null;
+    payment_fixed_amount: number | string | null;
+    status: string;
+};
+
+const AMOUNT_COLUMNS = 'value, currency, date, payment_date, amount_paid, payment_type, payment_percentage, payment_fixed_amount, status';
+
+/**
+ * Valor recebido pelo profissional em um agendamento, na moeda do agendamento
+ * ✅ Convertido pela cotação do dia do pagamento (ou do atendimento, sem data de pagamento)
+ */
+function toReceivedAmount(apt: AppointmentAmountRow): ConvertibleAmount {
+    // Agendamentos quitados contam pelo valor; os demais pelo que já foi pago
+    const totalValue = apt.value ? parseFloat(String(apt.value)) : 0;
+    const received = apt.status === 'paid'
+        ? totalValue
+        : (apt.amount_paid ? parseFloat(String(apt.amount_paid)) : 0);
+    const appointmentData = {
+        value: totalValue,
+        currency: apt.currency || 'BRL',
+        payment_type: apt.payment_type || '100',
+        payment_percentage: apt.payment_percentage ? parseFloat(String(apt.payment_percentage)) : null,
+        payment_fixed_amount: apt.payment_fixed_amount !== null && apt.payment_fixed_amount !== undefined ? parseFloat(String(apt.payment_fixed_amount)) : null
+    };
+
+    // Parte do profissional proporcional ao que foi recebido (vale também para valor fixo)
+    const receivedValue = totalValue > 0
+        ? calculateReceivedMoney(appointmentData).multiply(received / totalValue)
+        : Money.zero(appointmentData.currency);
+    return { money: receivedValue, date: apt.payment_date || apt.date };
+}
+
+/**
+ * Remove repetições mantendo o último item de cada chave
+ */
+const uniqueBy = <T>(items: T[], key: (item: T) => string): T[] =>
+    [...new Map(items.map(item => [key(item), item])).values()];
+
 interface ClinicRankingItem {
     id: string;
     name: string;
@@ -27,15 +91,31 @@ interface ClinicRankingItem {
     ticket: number;
 }
 
+interface ClinicRanking {
+    items: ClinicRankingItem[];
+    /** Moeda em que receita e ticket médio estão expressos */
+    currency: Currency;
+    rates: AppliedRate[];
+    missingRates: MissingRate[];
+}
+
 interface WeeklyDataItem {
     label: string;
     finished: number;
     pending: number;
 }
 
+/**
+ * Filtros de status aplicados às estatísticas (ausente = todos)
+ */
+export interface DashboardStatusFilters {
+    paymentStatus?: PaymentStatusValue;
+    clinicalStatus?: ClinicalStatusValue;
+}
+
 interface AllDashboardData {
     stats: DashboardStats;
-    ranking: ClinicRankingItem[];
+    ranking: ClinicRanking;
     weeklyData: WeeklyDataItem[];
 }
 
@@ -52,13 +132,17 @@ export class DashboardService {
         private readonly clinicService: IClinicService,
         private readonly db: DatabaseAdapter,
         private readonly cache: ICacheService,
-        private readonly errorHandler: IErrorHandler
+        private readonly errorHandler: IErrorHandler,
+        private readonly exchangeRateRepository: IExchangeRateRepository
     ) {}
 
     /**
      * Busca estatísticas do dashboard usando agregações SQL
+     * ✅ Valores em outras moedas são convertidos para a moeda de relatório pela
+     * cotação da data do pagamento (recebido) ou do atendimento (pendente)
+     * @param reportingCurrency - Moeda em que os totais são exibidos
      */
-    async getStats(): Promise<DashboardStats> {
+    async getStats(filters: DashboardStatusFilters = {}, reportingCurrency: Currency = 'BRL'): Promise<DashboardStats> {
         try {
             const now = new Date();
             const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -72,23 +156,29 @@ export class DashboardService {
                 });
             }
             
+            const rates = await this.exchangeRateRepository.findAll();
+            const noTotal = ExchangeRateDomainService.convertTotal([], reportingCurrency, rates);
+
             // Usar agregações SQL ao invés de carregar todos os dados
             const [revenueResult, pendingResult, appointmentsCount, clinicsCount] = await Promise.all([
                 // Receita: soma de valores recebidos de appointments pagos
-                this.getRevenueAggregate(startOfMonthStr),
+                filters.paymentStatus === 'pending' ? noTotal : this.getRevenueAggregate(startOfMonthStr, filters, reportingCurrency, rates),
                 // Pendente: soma de valores pendentes
-                this.getPendingAggregate(startOfMonthStr),
+                filters.paymentStatus === 'paid' ? noTotal : this.getPendingAggregate(startOfMonthStr, filters, reportingCurrency, rates),
                 // Total de appointments
-                this.getAppointmentsCount(startOfMonthStr),
+                this.getAppointmentsCount(startOfMonthStr, filters),
                 // Total de clínicas ativas
                 this.getActiveClinicsCount()
             ]);
             
             const stats = {
-                revenue: Number(revenueResult) || 0,
-                pending: Number(pendingResult) || 0,
+                revenue: revenueResult.total.amount,
+                pending: pendingResult.total.amount,
                 appointments: Number(appointmentsCount) || 0,
-                clinics: Number(clinicsCount) || 0
+                clinics: Number(clinicsCount) || 0,
+                currency: reportingCurrency,
+                rates: uniqueBy([...revenueResult.ratesUsed, ...pendingResult.ratesUsed], rate => `${rate.fromCurrency}|${rate.date}`),
+                missingRates: uniqueBy([...revenueResult.missing, ...pendingResult.missing], missing => `${missing.currency}|${missing.date}`)
             };
             
             // Log para debug
@@ -96,8 +186,8 @@ export class DashboardService {
                 console.debug('DashboardService.getStats - Results', {
                     stats,
                     rawResults: {
-                        revenue: revenueResult,
-                        pending: pendingResult,
+                        revenue: revenueResult.total.amount,
+                        pending: pendingResult.total.amount,
                         appointments: appointmentsCount,
                         clinics: clinicsCount
                     }
@@ -109,34 +199,30 @@ export class DashboardService {
             throw this.errorHandler.handle(error, { context: 'DashboardService.getStats' });
         }
     }
-    
+
     /**
-     * Calcula receita usando agregação SQL
+     * Converte filtros de status em filtros de coluna do banco
      */
-    private async getRevenueAggregate(startDate: string): Promise<number> {
-        try {
-            // ✅ Usar DatabaseAdapter.rpc() ao invés de import direto
-            const data = await this.db.rpc('calculate_revenue', { start_date: startDate }) as { revenue?: number } | null;
-            
-            // Se RPC retornou null (função não existe ou sem permissão), usar fallback silenciosamente
-            if (data === null) {
-                return this.getRevenueFallback(startDate);
-            }
-            
-            if (data?.revenue !== undefined) {
-                return Number(data.revenue) || 0;
-            }
-            
-            // Fallback: calcular em memória se RPC não disponível
-            return this.getRevenueFallback(startDate);
-        } catch (error) {
-            // Se RPC falhar, usar fallback (não logar erro esperado)
-            // Apenas logar em desenvolvimento para debug
-            if (import.meta.env.DEV) {
-                console.debug('RPC calculate_revenue não disponível, usando fallback', error);
-            }
-            return this.getRevenueFallback(startDate);
+    private toStatusColumnFilters(filters: DashboardStatusFilters): Record<string, unknown> {
+        const columns: Record<string, unknown> = paymentStatusColumns(filters.paymentStatus ?? 'all');
+        if (filters.clinicalStatus) {
+            columns.clinical_status = filters.clinicalStatus;
         }
+        return columns;
+    }
+    
+    /**
+     * Calcula receita recebida no período
+     * ✅ A função SQL calculate_revenue só considera agendamentos quitados; com
+     * pagamentos parciais o valor já recebido dos pendentes também entra
+     */
+    private async getRevenueAggregate(
+        startDate: string,
+        filters: DashboardStatusFilters,
+        reportingCurrency: Currency,
+        rates: ExchangeRate[]
+    ): Promise<ConvertedTotal> {
+        return this.getRevenueFallback(startDate, filters, reportingCurrency, rates);
     }
     
     /**
@@ -144,8 +230,13 @@ export class DashboardService {
      * ✅ Usa query agregada ao invés de carregar todos os appointments
      * ✅ Adiciona cache para melhorar performance
      */
-    private async getRevenueFallback(startDate: string): Promise<number> {
-        const cacheKey = `dashboard:revenue:fallback:${startDate}`;
+    private async getRevenueFallback(
+        startDate: string,
+        filters: DashboardStatusFilters,
+        reportingCurrency: Currency,
+        rates: ExchangeRate[]
+    ): Promise<ConvertedTotal> {
+        const cacheKey = `dashboard:revenue:fallback:${startDate}:${filters.paymentStatus ?? 'all'}:${filters.clinicalStatus ?? 'all'}:${reportingCurrency}`;
         
         // ✅ Tentar obter do cache primeiro (desabilitar temporariamente para debug)
         // const cached = await this.cache.get<number>(cacheKey);
@@ -156,14 +247,23 @@ export class DashboardService {
         try {
             // ✅ Usar query agregada no banco ao invés de carregar todos os appointments
             // Usar filtros combinados em um único where para garantir que funcionem corretamente
-            const queryBuilder = this.db.table('appointments')
-                .select('value, payment_type, payment_percentage, status')
+            let queryBuilder = this.db.table('appointments')
+                .select(AMOUNT_COLUMNS)
                 .where('date', { gte: startDate });
+            if (filters.clinicalStatus) {
+                queryBuilder = queryBuilder.where('clinical_status', filters.clinicalStatus);
+            }
             
-            // Adicionar filtro de status separadamente
+            // Pagos e, sem filtro de pagamento, também os parcialmente pagos
+            const statuses = filters.paymentStatus === 'partial' ? ['pending']
+                : filters.paymentStatus === 'paid' ? ['paid']
+                : ['paid', 'pending'];
+            if (filters.paymentStatus === 'partial') {
+                queryBuilder = queryBuilder.where('amount_paid', { gt: 0 });
+            }
             const appointments = await queryBuilder
-                .whereOperator('status', 'eq', 'paid')
-                .execute<Array<{ value: number | string | null; payment_type: string | null; payment_percentage: number | string | null; status: string }>>();
+                .where('status', { in: statuses })
+                .execute<AppointmentAmountRow[]>();
             
             const appointmentsArray = Array.isArray(appointments) ? appointments : [];
             
@@ -175,33 +275,20 @@ export class DashboardService {
                 allAppointments: appointmentsArray
             });
             
-            // Calcular receita usando função utilitária
-            const revenue = appointmentsArray.reduce((sum, apt) => {
-                // Garantir que os dados estão no formato correto
-                const appointmentData = {
-                    value: apt.value ? parseFloat(String(apt.value)) : 0,
-                    payment_type: apt.payment_type || '100',
-                    payment_percentage: apt.payment_percentage ? parseFloat(String(apt.payment_percentage)) : null
-                };
-                
-                const receivedValue = calculateReceivedValue(appointmentData);
-                console.log('DashboardService.getRevenueFallback - Calculating', {
-                    apt,
-                    appointmentData,
-                    receivedValue,
-                    currentSum: sum
-                });
-                return sum + receivedValue;
-            }, 0);
+            // Calcular receita na moeda de cada agendamento
+            const receivedAmounts = appointmentsArray.map(toReceivedAmount);
+            const revenue = ExchangeRateDomainService.convertTotal(receivedAmounts, reportingCurrency, rates);
             
             // Log para debug
             console.log('DashboardService.getRevenueFallback - Calculated revenue', {
-                revenue,
+                revenue: revenue.total.amount,
+                ratesUsed: revenue.ratesUsed,
+                missing: revenue.missing,
                 appointmentsCount: appointmentsArray.length
             });
             
             // ✅ Cachear resultado por 5 minutos
-            await this.cache.set(cacheKey, revenue, 5 * 60 * 1000);
+            await this.cache.set(cacheKey, revenue.total.amount, 5 * 60 * 1000);
             
             return revenue;
         } catch (error) {
@@ -211,32 +298,17 @@ export class DashboardService {
     }
     
     /**
-     * Calcula pendente usando agregação SQL
+     * Calcula pendente pelo saldo devedor
+     * ✅ A função SQL calculate_pending soma o valor cheio; com pagamentos parciais
+     * o pendente é o que falta receber, então o cálculo é feito sobre amount_paid
      */
-    private async getPendingAggregate(startDate: string): Promise<number> {
-        try {
-            // ✅ Usar DatabaseAdapter.rpc() ao invés de import direto
-            const data = await this.db.rpc('calculate_pending', { start_date: startDate }) as { pending?: number } | null;
-            
-            // Se RPC retornou null (função não existe ou sem permissão), usar fallback silenciosamente
-            if (data === null) {
-                return this.getPendingFallback(startDate);
-            }
-            
-            if (data?.pending !== undefined) {
-                return Number(data.pending) || 0;
-            }
-            
-            // Fallback: calcular em memória
-            return this.getPendingFallback(startDate);
-        } catch (error) {
-            // Se RPC falhar, usar fallback (não logar erro esperado)
-            // Apenas logar em desenvolvimento para debug
-            if (import.meta.env.DEV) {
-                console.debug('RPC calculate_pending não disponível, usando fallback', error);
-            }
-            return this.getPendingFallback(startDate);
-        }
+    private async getPendingAggregate(
+        startDate: string,
+        filters: DashboardStatusFilters,
+        reportingCurrency: Currency,
+        rates: ExchangeRate[]
+    ): Promise<ConvertedTotal> {
+        return this.getPendingFallback(startDate, filters, reportingCurrency, rates);
     }
     
     /**
@@ -244,8 +316,13 @@ export class DashboardService {
      * ✅ Usa type guard para validação de tipos
      * ✅ Adiciona cache para melhorar performance
      */
-    private async getPendingFallback(startDate: string): Promise<number> {
-        const cacheKey = `dashboard:pending:fallback:${startDate}`;
+    private async getPendingFallback(
+        startDate: string,
+        filters: DashboardStatusFilters,
+        reportingCurrency: Currency,
+        rates: ExchangeRate[]
+    ): Promise<ConvertedTotal> {
+        const cacheKey = `dashboard:pending:fallback:${startDate}:${filters.paymentStatus ?? 'all'}:${filters.clinicalStatus ?? 'all'}:${reportingCurrency}`;
         
         // Tentar obter do cache primeiro (desabilitar temporariamente para debug)
         // const cached = await this.cache.get<number>(cacheKey);
@@ -255,14 +332,22 @@ export class DashboardService {
         
         try {
             // Buscar appointments pendentes diretamente do banco para melhor performance
-            const queryBuilder = this.db.table('appointments')
-                .select('value, payment_type, payment_percentage, status')
+            let queryBuilder = this.db.table('appointments')
+                .select(AMOUNT_COLUMNS)
                 .where('date', { gte: startDate });
+            if (filters.clinicalStatus) {
+                queryBuilder = queryBuilder.where('clinical_status', filters.clinicalStatus);
+            }
+            if (filters.paymentStatus === 'partial') {
+                queryBuilder = queryBuilder.where('amount_paid', { gt: 0 });
+            } else if (filters.paymentStatus === 'pending') {
+                queryBuilder = queryBuilder.where('amount_paid', 0);
+            }
             
             // Adicionar filtro de status separadamente
             const appointments = await queryBuilder
                 .whereOperator('status', 'eq', 'pending')
-                .execute<Array<{ value: number | string | null; payment_type: string | null; payment_percentage: number | string | null; status: string }>>();
+                .execute<AppointmentAmountRow[]>();
             
             const appointmentsArray = Array.isArray(appointments) ? appointments : [];
             
@@ -274,27 +359,36 @@ export class DashboardService {
                 allAppointments: appointmentsArray
             });
             
-            const pending = appointmentsArray.reduce((sum, apt) => {
+            const pendingAmounts = appointmentsArray.map((apt): ConvertibleAmount => {
                 // Garantir que os dados estão no formato correto
                 const totalValue = apt.value ? parseFloat(String(apt.value)) : 0;
+                const amountPaid = apt.amount_paid ? parseFloat(String(apt.amount_paid)) : 0;
                 const appointmentData = {
                     value: totalValue,
+                    currency: apt.currency || 'BRL',
                     payment_type: apt.payment_type || '100',
-                    payment_percentage: apt.payment_percentage ? parseFloat(String(apt.payment_percentage)) : null
+                    payment_percentage: apt.payment_percentage ? parseFloat(String(apt.payment_percentage)) : null,
+                    payment_fixed_amount: apt.payment_fixed_amount !== null && apt.payment_fixed_amount !== undefined ? parseFloat(String(apt.payment_fixed_amount)) : null
                 };
                 
-                const receivedValue = calculateReceivedValue(appointmentData);
-                return sum + (totalValue - receivedValue);
-            }, 0);
+                // Parte do profissional sobre o saldo devedor, convertida pela cotação do dia do atendimento
+                const pendingValue = totalValue > 0
+                    ? calculateReceivedMoney(appointmentData).multiply(Math.max(0, totalValue - amountPaid) / totalValue)
+                    : Money.zero(appointmentData.currency);
+                return { money: pendingValue, date: apt.date };
+            });
+            const pending = ExchangeRateDomainService.convertTotal(pendingAmounts, reportingCurrency, rates);
             
             // Log para debug
             console.log('DashboardService.getPendingFallback - Calculated pending', {
-                pending,
+                pending: pending.total.amount,
+                ratesUsed: pending.ratesUsed,
+                missing: pending.missing,
                 appointmentsCount: appointmentsArray.length
             });
             
             // Cachear resultado por 5 minutos
-            await this.cache.set(cacheKey, pending, 5 * 60 * 1000);
+            await this.cache.set(cacheKey, pending.total.amount, 5 * 60 * 1000);
             
             return pending;
         } catch (error) {
@@ -306,18 +400,21 @@ export class DashboardService {
     /**
      * Conta appointments usando COUNT SQL
      */
-    private async getAppointmentsCount(startDate: string): Promise<number> {
+    private async getAppointmentsCount(startDate: string, filters: DashboardStatusFilters = {}): Promise<number> {
+        const columnFilters = this.toStatusColumnFilters(filters);
         try {
             // ✅ Usar DatabaseAdapter ao invés de import direto
             return await this.db.table('appointments').count({
-                date: { gte: startDate }
+                date: { gte: startDate },
+                ...columnFilters
             });
         } catch (error) {
             // Fallback: usar service se count falhar
             try {
                 const appointmentsResult = await this.appointmentService.getAll({
                     filters: {
-                        date: { gte: startDate }
+                        date: { gte: startDate },
+                        ...columnFilters
                     }
                 });
                 
@@ -412,116 +509,81 @@ export class DashboardService {
     }
 
     /**
-     * Busca ranking de clínicas por receita (otimizado com função SQL)
-     * ✅ Usa função SQL get_clinic_ranking() para melhor performance
-     */
-    async getClinicRanking(): Promise<ClinicRankingItem[]> {
-        try {
-            // ✅ Tentar usar função SQL otimizada primeiro
-            try {
-                const data = await this.db.rpc('get_clinic_ranking') as Array<{
-                    clinic_id: string;
-                    clinic_name: string;
-                    revenue: number;
-                    appointments_count: number;
-                    paid_count: number;
-                    ticket_medio: number;
-                }>;
-                
-                if (data && Array.isArray(data) && data.length > 0) {
-                    return data.map(item => ({
-                        id: item.clinic_id,
-                        name: item.clinic_name,
-                        revenue: Number(item.revenue) || 0,
-                        appointments: Number(item.appointments_count) || 0,
-                        paid: Number(item.paid_count) || 0,
-                        ticket: Number(item.ticket_medio) || 0
-                    }));
-                }
-            } catch (rpcError) {
-                // Se função SQL não existir, usar fallback em memória
-                // Log apenas em desenvolvimento
-                if (import.meta.env.DEV) {
-                    console.warn('Função SQL get_clinic_ranking não encontrada, usando fallback', rpcError);
-                }
-            }
-            
-            // Fallback: calcular em memória (menos eficiente)
-            return this.getClinicRankingFallback();
-        } catch (error) {
-            throw this.errorHandler.handle(error, { context: 'DashboardService.getClinicRanking' });
-        }
-    }
-    
-    /**
-     * Fallback: calcular ranking usando agregação SQL otimizada
-     * ✅ Usa agregação SQL ao invés de carregar todos appointments em memória
-     * ✅ Adiciona cache para melhorar performance
+     * Busca ranking de clínicas por receita
+     * ✅ A receita de cada clínica é somada na moeda de relatório, convertendo cada
+     * agendamento pela cotação da data do pagamento; por isso não é agregada em SQL
+     * @param reportingCurrency - Moeda em que receita e ticket médio são exibidos
      */
-    private async getClinicRankingFallback(): Promise<ClinicRankingItem[]> {
-        const cacheKey = 'dashboard:clinic-ranking:fallback';
-        
+    async getClinicRanking(reportingCurrency: Currency = 'BRL'): Promise<ClinicRanking> {
+        const cacheKey = `dashboard:clinic-ranking:${reportingCurrency}`;
+
         // Tentar obter do cache primeiro
-        const cached = await this.cache.get<ClinicRankingItem[]>(cacheKey);
+        const cached = await this.cache.get<ClinicRanking>(cacheKey);
         if (cached !== null) {
             return cached;
         }
-        
+
         try {
-            // ✅ Usar agregação SQL ao invés de carregar tudo em memória
-            // Buscar apenas dados agregados necessários
-            const rankingData = await this.db.table('appointments')
-                .select(`
-                    clinic_id,
-                    clinics!inner(id, name),
-                    count(*) as appointments_count,
-                    sum(case when status = 'paid' then 1 else 0 end) as paid_count,
-                    sum(case when status = 'paid' then 
-                        case 
-                            when payment_type = '100' then value
-                            when payment_type = 'percentage' then value * (COALESCE(payment_percentage, 0) / 100.0)
-                            else 0
-                        end
-                    else 0 end) as revenue
-                `)
-                .groupBy('clinic_id', 'clinics.id', 'clinics.name')
-                .orderBy('revenue', 'desc')
-                .limit(20) // Limitar top 20
-                .execute<Array<{
-                    clinic_id: string;
-                    clinics: { id: string; name: string };
-                    appointments_count: number;
-                    paid_count: number;
-                    revenue: number;
-                }>>();
-            
-            const ranking = rankingData.map(item => ({
-                id: item.clinic_id || item.clinics.id,
-                name: item.clinics.name || 'Sem clínica',
-                revenue: Number(item.revenue) || 0,
-                appointments: Number(item.appointments_count) || 0,
-                paid: Number(item.paid_count) || 0,
-                ticket: Number(item.paid_count) > 0 
-                    ? Number(item.revenue) / Number(item.paid_count) 
-                    : 0
+            const [appointments, rates] = await Promise.all([
+                this.db.table('appointments')
+                    .select(`clinic_id, clinics (id, name), ${AMOUNT_COLUMNS}`)
+                    .execute<Array<AppointmentAmountRow & {
+                        clinic_id: string | null;
+                        clinics: { id: string; name: string } | null;
+                    }>>(),
+                this.exchangeRateRepository.findAll()
+            ]);
+
+            const byClinic = new Map<string, { name: string; appointments: number; received: ConvertibleAmount[] }>();
+            (Array.isArray(appointments) ? appointments : []).forEach(apt => {
+                if (!apt.clinic_id) return;
+                const clinic = byClinic.get(apt.clinic_id)
+                    ?? { name: apt.clinics?.name || 'Sem clínica', appointments: 0, received: [] };
+                clinic.appointments++;
+                // Só agendamentos quitados entram na receita do ranking
+                if (apt.status === 'paid') {
+                    clinic.received.push(toReceivedAmount(apt));
+                }
+                byClinic.set(apt.clinic_id, clinic);
+            });
+
+            const totals = [...byClinic].map(([id, clinic]) => ({
+                id,
+                clinic,
+                revenue: ExchangeRateDomainService.convertTotal(clinic.received, reportingCurrency, rates)
             }));
-            
+            const items = totals
+                .map(({ id, clinic, revenue }): ClinicRankingItem => ({
+                    id,
+                    name: clinic.name,
+                    revenue: revenue.total.amount,
+                    appointments: clinic.appointments,
+                    paid: clinic.received.length,
+                    ticket: clinic.received.length > 0 ? revenue.total.amount / clinic.received.length : 0
+                }))
+                .sort((a, b) => b.revenue - a.revenue)
+                .slice(0, 20); // Limitar top 20
+
+            const ranking: ClinicRanking = {
+                items,
+                currency: reportingCurrency,
+                rates: uniqueBy(totals.flatMap(total => total.revenue.ratesUsed), rate => `${rate.fromCurrency}|${rate.date}`),
+                missingRates: uniqueBy(totals.flatMap(total => total.revenue.missing), missing => `${missing.currency}|${missing.date}`)
+            };
+
             // Cachear resultado por 10 minutos
             await this.cache.set(cacheKey, ranking, 10 * 60 * 1000);
-            
+
             return ranking;
         } catch (error) {
-            // Se agregação SQL falhar, usar fallback em memória (comentado para evitar carregar tudo)
-            // Por enquanto, retornar array vazio e logar erro
-            console.warn('Failed to get clinic ranking via SQL aggregation, returning empty array', error);
-            return [];
+            throw this.errorHandler.handle(error, { context: 'DashboardService.getClinicRanking' });
         }
     }
 
     /**
      * Busca dados semanais para gráfico (otimizado com filtro no banco)
      */
-    async getWeeklyData(): Promise<WeeklyDataItem[]> {
+    async getWeeklyData(filters: DashboardStatusFilters = {}): Promise<WeeklyDataItem[]> {
         try {
             // Buscar apenas agendamentos da última semana usando filtro no banco
             const now = new Date();
@@ -536,7 +598,8 @@ export class DashboardService {
                     date: { 
                         gte: oneWeekAgoStr,
                         lte: nowStr
-                    }
+                    },
+                    ...this.toStatusColumnFilters(filters)
                 }
             });
             
@@ -551,9 +614,9 @@ export class DashboardService {
                 if (!dayMap[day]) {
                     dayMap[day] = { finished: 0, pending: 0 };
                 }
-                if (apt.status.toString() === 'paid') {
+                if (apt.isPaid) {
                     dayMap[day].finished++;
-                } else if (apt.status.toString() === 'pending' || apt.status.toString() === 'scheduled') {
+                } else if (!apt.isCancelled) {
                     dayMap[day].pending++;
                 }
             });
@@ -572,13 +635,13 @@ export class DashboardService {
     /**
      * Busca todos os dados do dashboard de forma otimizada
      */
-    async getAllDashboardData(): Promise<AllDashboardData> {
+    async getAllDashboardData(filters: DashboardStatusFilters = {}, reportingCurrency: Currency = 'BRL'): Promise<AllDashboardData> {
         try {
             // Executar queries em paralelo
             const [stats, ranking, weeklyData] = await Promise.all([
-                this.getStats(),
-                this.getClinicRanking(),
-                this.getWeeklyData()
+                this.getStats(filters, reportingCurrency),
+                this.getClinicRanking(reportingCurrency),
+                this.getWeeklyData(filters)
             ]);
 
             return {
@@ -0,0 +1,170 @@
+import { IEndodonticRecordRepository } from '../../infrastructure/repositories/interfaces/IEndodonticRecordRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { EndodonticRecord, EndodonticRecordUpdate } from '../../domain/entities/EndodonticRecord';
+import { validateCreateEndodonticRecordDTO, validateUpdateEndodonticRecordDTO } from '../dto/validators';
+import { UpdateEndodonticRecordDTO } from '../dto/schemas/EndodonticRecordSchemas';
+import { logger } from '../../lib/logger';
+
+/**
+ * Serviço para a ficha endodôntica estruturada
+ *
+ * Cada registro descreve o que foi feito em um dente durante um agendamento.
+ * A evolução clínica em texto livre do agendamento continua disponível.
+ */
+export class EndodonticRecordService {
+    constructor(
+        private readonly repository: IEndodonticRecordRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Lista os registros de um agendamento
+     */
+    async getByAppointmentId(appointmentId: string): Promise<EndodonticRecord[]> {
+        try {
+            return await this.repository.findByAppointmentId(appointmentId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'EndodonticRecordService.getByAppointmentId', appointmentId });
+        }
+    }
+
+    /**
+     * Lista os registros de um paciente, opcionalmente de um único dente
+     */
+    async getByPatientId(patientId: string, tooth?: number): Promise<EndodonticRecord[]> {
+        try {
+            return await this.repository.findByPatientId(patientId, tooth);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'EndodonticRecordService.getByPatientId', patientId, tooth });
+        }
+    }
+
+    /**
+     * Cria o registro endodôntico de um dente no agendamento
+     * @throws {DomainError} Se o dente não pertence ao agendamento ou já tem registro
+     */
+    async create(recordData: unknown): Promise<EndodonticRecord> {
+        try {
+            const validated = validateCreateEndodonticRecordDTO(recordData);
+
+            const appointment = await this.appointmentRepository.findById(validated.appointmentId);
+            if (!appointment) {
+                throw new NotFoundError('Agendamento', validated.appointmentId);
+            }
+            // ✅ Quando o agendamento informa os dentes, o registro deve ser de um deles
+            if (appointment.teeth.length > 0 && !appointment.involvesTooth(validated.tooth)) {
+                throw new DomainError(`O dente ${validated.tooth} não está registrado neste agendamento`);
+            }
+
+            const existing = await this.repository.findByAppointmentId(appointment.id);
+            if (existing.some(record => record.tooth === validated.tooth)) {
+                throw new DomainError(`Já existe registro endodôntico do dente ${validated.tooth} neste agendamento`);
+            }
+
+            const record = EndodonticRecord.create({
+                appointmentId: appointment.id,
+                patientId: appointment.patientId,
+                tooth: validated.tooth,
+                ...this.sanitizeFields(validated)
+            });
+
+            const created = await this.repository.create(record);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Endodontic record created successfully', { recordId: created.id, tooth: created.tooth });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'EndodonticRecordService.create' });
+        }
+    }
+
+    /**
+     * Atualiza os dados clínicos de um registro
+     */
+    async update(id: string, recordData: unknown): Promise<EndodonticRecord> {
+        try {
+            const validated = validateUpdateEndodonticRecordDTO(recordData);
+            const record = await this.findOrFail(id);
+            const oldData = record.toJSON();
+
+            record.update(this.sanitizeFields(validated));
+
+            const updated = await this.repository.update(id, record);
+            await this.audit('update', id, oldData, updated.toJSON());
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'EndodonticRecordService.update', id });
+        }
+    }
+
+    /**
+     * Deleta um registro endodôntico
+     */
+    async delete(id: string): Promise<void> {
+        try {
+            const record = await this.findOrFail(id);
+            await this.repository.delete(id);
+            await this.audit('delete', id, record.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'EndodonticRecordService.delete', id });
+        }
+    }
+
+    private async findOrFail(id: string): Promise<EndodonticRecord> {
+        const record = await this.repository.findById(id);
+        if (!record) {
+            throw new NotFoundError('Registro endodôntico', id);
+        }
+        return record;
+    }
+
+    /**
+     * Sanitiza os campos de texto livre (campos ausentes permanecem ausentes)
+     */
+    private sanitizeFields(data: UpdateEndodonticRecordDTO): EndodonticRecordUpdate {
+        const text = (value: string | null | undefined) =>
+            value === undefined ? undefined : value === null ? null : this.sanitizer.sanitizeText(value);
+        const list = (values: string[] | undefined) =>
+            values === undefined ? undefined : values.map(value => this.sanitizer.sanitizeText(value));
+
+        return {
+            canals: data.canals?.map(canal => ({
+                name: this.sanitizer.sanitizeText(canal.name),
+                workingLength: canal.workingLength ?? null,
+                apicalSize: canal.apicalSize ?? null,
+                reference: text(canal.reference) ?? null
+            })),
+            fileSystem: text(data.fileSystem),
+            irrigants: list(data.irrigants),
+            obturationTechnique: text(data.obturationTechnique),
+            pulpalDiagnosis: data.pulpalDiagnosis,
+            periapicalDiagnosis: data.periapicalDiagnosis,
+            medications: list(data.medications),
+            notes: text(data.notes)
+        };
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'endodontic_record', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
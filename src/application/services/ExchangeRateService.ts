@@ -0,0 +1,150 @@
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { ExchangeRate } from '../../domain/entities/ExchangeRate';
+import { Currency } from '../../domain/value-objects/Money';
+import {
+    ExchangeRateDomainService,
+    ConvertibleAmount,
+    ConvertedTotal
+} from '../../domain/services/ExchangeRateDomainService';
+import { validateCreateExchangeRateDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+
+/**
+ * Resultado da importação de um arquivo de cotações
+ */
+export interface ExchangeRateImportResult {
+    imported: number;
+    /** Cotações que já existiam (mesmo par e data) */
+    skipped: number;
+}
+
+/**
+ * Serviço para a tabela de cotações de câmbio
+ *
+ * As cotações são digitadas ou importadas de arquivo, uma por par de moedas
+ * por dia, e convertem os totais para a moeda de relatório pela cotação da
+ * data do atendimento ou do pagamento.
+ */
+export class ExchangeRateService {
+    constructor(
+        private readonly repository: IExchangeRateRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService
+    ) {}
+
+    /**
+     * Todas as cotações (mais recentes primeiro)
+     */
+    async getAll(): Promise<ExchangeRate[]> {
+        try {
+            return await this.repository.findAll();
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExchangeRateService.getAll' });
+        }
+    }
+
+    /**
+     * Cadastra uma cotação
+     * @throws {DomainError} Se já existir cotação do mesmo par na mesma data
+     */
+    async create(rateData: unknown): Promise<ExchangeRate> {
+        try {
+            const rate = ExchangeRate.create(validateCreateExchangeRateDTO(rateData));
+
+            const existing = await this.repository.findAll();
+            if (existing.some(other => other.isSameQuote(rate))) {
+                throw new DomainError('Já existe cotação deste par de moedas nesta data');
+            }
+
+            const created = await this.repository.create(rate);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Exchange rate created successfully', {
+                rateId: created.id,
+                pair: `${created.fromCurrency}/${created.toCurrency}`,
+                date: created.date
+            });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExchangeRateService.create' });
+        }
+    }
+
+    /**
+     * Importa cotações lidas de arquivo
+     * ✅ Cotações já cadastradas (ou repetidas no arquivo) são ignoradas, não sobrescritas
+     * @throws {ValidationError} Se alguma linha for inválida (nada é importado)
+     */
+    async importRates(rows: unknown[]): Promise<ExchangeRateImportResult> {
+        try {
+            const rates = rows.map(row => ExchangeRate.create({
+                ...validateCreateExchangeRateDTO(row),
+                source: 'import'
+            }));
+
+            const existing = await this.repository.findAll();
+            const accepted: ExchangeRate[] = [];
+            for (const rate of rates) {
+                if (!existing.some(other => other.isSameQuote(rate)) && !accepted.some(other => other.isSameQuote(rate))) {
+                    accepted.push(rate);
+                }
+            }
+
+            await this.repository.createMany(accepted);
+            await this.audit('import', null, null, { count: accepted.length });
+
+            return { imported: accepted.length, skipped: rates.length - accepted.length };
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExchangeRateService.importRates' });
+        }
+    }
+
+    /**
+     * Remove uma cotação
+     */
+    async delete(id: string): Promise<void> {
+        try {
+            const rate = await this.repository.findById(id);
+            if (!rate) {
+                throw new NotFoundError('Cotação', id);
+            }
+
+            await this.repository.delete(id);
+            await this.audit('delete', id, rate.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExchangeRateService.delete', id });
+        }
+    }
+
+    /**
+     * Soma valores em moedas diferentes na moeda de relatório, cada um pela cotação da sua data
+     */
+    async convertTotal(amounts: ConvertibleAmount[], reportingCurrency: Currency): Promise<ConvertedTotal> {
+        try {
+            const needsRates = amounts.some(amount => amount.money.currency !== reportingCurrency);
+            const rates = needsRates ? await this.repository.findAll() : [];
+            return ExchangeRateDomainService.convertTotal(amounts, reportingCurrency, rates);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExchangeRateService.convertTotal', reportingCurrency });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'import' | 'delete',
+        id: string | null,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'exchange_rate', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { IExpenseRepository } from '../../infrastructure/repositories/interfaces/IExpenseRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError } from '../../domain/errors/AppError';
+import { Expense } from '../../domain/entities/Expense';
+import { Currency } from '../../domain/value-objects/Money';
+import { ProfitDomainService, ExpenseOccurrence, ProfitReport } from '../../domain/services/ProfitDomainService';
+import { validateCreateExpenseDTO, validateEndExpenseRecurrenceDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+
+/**
+ * Serviço para despesas do consultório e lucro líquido
+ *
+ * Despesas podem ser ligadas a uma clínica, a um atendimento e a um procedimento;
+ * as recorrentes (aluguel de sala, por exemplo) são cadastradas uma vez e geram
+ * uma ocorrência por período até serem encerradas.
+ */
+export class ExpenseService {
+    constructor(
+        private readonly repository: IExpenseRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly exchangeRateRepository: IExchangeRateRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Ocorrências das despesas no período (recorrentes aparecem uma vez por ocorrência)
+     */
+    async getOccurrences(startDate: string, endDate: string): Promise<ExpenseOccurrence[]> {
+        try {
+            const expenses = await this.repository.findUntil(endDate);
+            return ProfitDomainService.occurrences(expenses, startDate, endDate);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExpenseService.getOccurrences', startDate, endDate });
+        }
+    }
+
+    /**
+     * Cadastra uma despesa
+     * ✅ Ligada a um atendimento, herda dele a clínica e o procedimento quando não informados
+     */
+    async create(expenseData: unknown): Promise<Expense> {
+        try {
+            const validated = validateCreateExpenseDTO(expenseData);
+            let clinicId = validated.clinicId ?? null;
+            let procedure = validated.procedure ?? null;
+
+            if (validated.appointmentId) {
+                const appointment = await this.appointmentRepository.findById(validated.appointmentId);
+                if (!appointment) {
+                    throw new NotFoundError('Agendamento', validated.appointmentId);
+                }
+                clinicId = clinicId ?? (appointment.clinicId || null);
+                procedure = procedure ?? (appointment.procedure || null);
+            }
+            if (clinicId && !(await this.clinicRepository.findById(clinicId))) {
+                throw new NotFoundError('Clínica', clinicId);
+            }
+
+            const expense = Expense.create({
+                category: validated.category,
+                description: this.sanitizer.sanitizeText(validated.description),
+                amount: validated.amount,
+                currency: validated.currency,
+                date: validated.date,
+                clinicId,
+                appointmentId: validated.appointmentId ?? null,
+                procedure: procedure ? this.sanitizer.sanitizeText(procedure) : null,
+                recurrence: validated.recurrence ?? null,
+                recurrenceUntil: validated.recurrenceUntil ?? null
+            });
+
+            const created = await this.repository.create(expense);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Expense created successfully', {
+                expenseId: created.id,
+                category: created.category,
+                recurring: created.isRecurring
+            });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExpenseService.create' });
+        }
+    }
+
+    /**
+     * Encerra uma despesa recorrente; ocorrências anteriores continuam valendo
+     * @throws {DomainError} Se a despesa não for recorrente
+     */
+    async endRecurrence(id: string, data: unknown): Promise<Expense> {
+        try {
+            const { untilDate } = validateEndExpenseRecurrenceDTO(data);
+            const expense = await this.repository.findById(id);
+            if (!expense) {
+                throw new NotFoundError('Despesa', id);
+            }
+
+            const before = expense.toJSON();
+            expense.endRecurrence(untilDate);
+            const updated = await this.repository.update(id, expense);
+            await this.audit('update', id, before, updated.toJSON());
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExpenseService.endRecurrence', id });
+        }
+    }
+
+    /**
+     * Remove uma despesa (todas as ocorrências, se recorrente)
+     */
+    async delete(id: string): Promise<void> {
+        try {
+            const expense = await this.repository.findById(id);
+            if (!expense) {
+                throw new NotFoundError('Despesa', id);
+            }
+
+            await this.repository.delete(id);
+            await this.audit('delete', id, expense.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExpenseService.delete', id });
+        }
+    }
+
+    /**
+     * Lucro líquido do período por mês, clínica e procedimento, na moeda de relatório
+     */
+    async getNetProfit(startDate: string, endDate: string, reportingCurrency: Currency = 'BRL'): Promise<ProfitReport> {
+        try {
+            const [appointments, expenses, rates] = await Promise.all([
+                this.appointmentRepository.findByDateRange(startDate, endDate),
+                this.repository.findUntil(endDate),
+                this.exchangeRateRepository.findAll()
+            ]);
+
+            return ProfitDomainService.buildReport(appointments, expenses, startDate, endDate, reportingCurrency, rates);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ExpenseService.getNetProfit', startDate, endDate });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'expense', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -0,0 +1,168 @@
+import { IRevenueGoalRepository } from '../../infrastructure/repositories/interfaces/IRevenueGoalRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IPaymentRepository } from '../../infrastructure/repositories/interfaces/IPaymentRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { NotFoundError } from '../../domain/errors/AppError';
+import { RevenueGoal } from '../../domain/entities/RevenueGoal';
+import { Currency } from '../../domain/value-objects/Money';
+import { shiftDate } from '../../domain/value-objects/RecurrenceRule';
+import {
+    ForecastDomainService,
+    MonthForecast,
+    GoalProgress,
+    CashFlowProjection
+} from '../../domain/services/ForecastDomainService';
+import { validateSaveRevenueGoalDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+import { toISODate } from '../../lib/calendar';
+
+/**
+ * Previsão do mês com o andamento das metas
+ */
+export interface MonthGoalsOverview {
+    forecast: MonthForecast;
+    goals: GoalProgress[];
+}
+
+const today = (): string => toISODate(new Date());
+
+/**
+ * Serviço para metas mensais, previsão de fechamento e fluxo de caixa
+ *
+ * As metas são de receita (parte do profissional) e de atendimentos concluídos,
+ * gerais ou por clínica; a previsão soma ao realizado o que os agendamentos
+ * ainda não concluídos devem render.
+ */
+export class GoalService {
+    constructor(
+        private readonly repository: IRevenueGoalRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly paymentRepository: IPaymentRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly exchangeRateRepository: IExchangeRateRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService
+    ) {}
+
+    /**
+     * Metas do mês (YYYY-MM)
+     */
+    async getGoals(month: string): Promise<RevenueGoal[]> {
+        try {
+            return await this.repository.findByMonth(month);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'GoalService.getGoals', month });
+        }
+    }
+
+    /**
+     * Define a meta do mês, geral ou de uma clínica
+     * ✅ Já existindo meta para o mês e a clínica, ela é atualizada
+     */
+    async saveGoal(goalData: unknown): Promise<RevenueGoal> {
+        try {
+            const validated = validateSaveRevenueGoalDTO(goalData);
+            const clinicId = validated.clinicId ?? null;
+            if (clinicId && !(await this.clinicRepository.findById(clinicId))) {
+                throw new NotFoundError('Clínica', clinicId);
+            }
+
+            const values = {
+                revenueTarget: validated.revenueTarget ?? 0,
+                appointmentTarget: validated.appointmentTarget ?? 0,
+                currency: validated.currency
+            };
+            const existing = (await this.repository.findByMonth(validated.month)).find(goal => goal.clinicId === clinicId);
+
+            if (existing) {
+                const oldData = existing.toJSON();
+                existing.update(values);
+                const updated = await this.repository.update(existing.id, existing);
+                await this.audit('update', updated.id, oldData, updated.toJSON());
+                return updated;
+            }
+
+            const created = await this.repository.create(RevenueGoal.create({ month: validated.month, clinicId, ...values }));
+            await this.audit('create', created.id, null, created.toJSON());
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'GoalService.saveGoal' });
+        }
+    }
+
+    /**
+     * Remove uma meta
+     */
+    async deleteGoal(id: string): Promise<void> {
+        try {
+            const goal = await this.repository.findById(id);
+            if (!goal) {
+                throw new NotFoundError('Meta', id);
+            }
+
+            await this.repository.delete(id);
+            await this.audit('delete', id, goal.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'GoalService.deleteGoal', id });
+        }
+    }
+
+    /**
+     * Previsão de fechamento do mês e andamento das metas
+     * @param month - Mês (YYYY-MM); padrão: mês corrente
+     */
+    async getMonthOverview(month: string = today().slice(0, 7), reportingCurrency: Currency = 'BRL'): Promise<MonthGoalsOverview> {
+        try {
+            const startDate = `${month}-01`;
+            const endDate = shiftDate(shiftDate(startDate, 1, 'months'), -1, 'days');
+            const [appointments, goals, rates] = await Promise.all([
+                this.appointmentRepository.findByDateRange(startDate, endDate),
+                this.repository.findByMonth(month),
+                this.exchangeRateRepository.findAll()
+            ]);
+
+            const forecast = ForecastDomainService.monthForecast(appointments, month, reportingCurrency, rates);
+            return { forecast, goals: ForecastDomainService.goalProgress(goals, forecast, rates) };
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'GoalService.getMonthOverview', month });
+        }
+    }
+
+    /**
+     * Fluxo de caixa previsto para os próximos meses (o corrente incluído)
+     */
+    async getCashFlow(months: number = 3, reportingCurrency: Currency = 'BRL'): Promise<CashFlowProjection> {
+        try {
+            const referenceDate = today();
+            const horizonEnd = shiftDate(shiftDate(`${referenceDate.slice(0, 7)}-01`, months, 'months'), -1, 'days');
+            const [appointments, installments, rates] = await Promise.all([
+                this.appointmentRepository.findUnpaidUntil(horizonEnd),
+                this.paymentRepository.findOpenInstallmentsUntil(horizonEnd),
+                this.exchangeRateRepository.findAll()
+            ]);
+
+            return ForecastDomainService.cashFlow(appointments, installments, referenceDate, months, reportingCurrency, rates);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'GoalService.getCashFlow', months });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'revenue_goal', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
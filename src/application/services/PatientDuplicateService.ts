@@ -0,0 +1,109 @@
+import { IPatientRepository, PatientMergeCounts } from '../../infrastructure/repositories/interfaces/IPatientRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ICacheService } from '../../infrastructure/cache/ICacheService';
+import { NotFoundError } from '../../domain/errors/AppError';
+import { Patient } from '../../domain/entities/Patient';
+import { PatientDomainService, DuplicateMatch, DuplicatePair } from '../../domain/services/PatientDomainService';
+import { validateDuplicateCandidateDTO, validateMergePatientsDTO } from '../dto/validators';
+import { extractArray } from '../../lib/typeGuards';
+import { logger } from '../../lib/logger';
+
+/**
+ * Resultado da mesclagem: paciente mantido e registros transferidos
+ */
+export interface PatientMergeResult {
+    patient: Patient;
+    moved: PatientMergeCounts;
+}
+
+/**
+ * Serviço para detecção de pacientes duplicados e mesclagem de cadastros
+ *
+ * A comparação ignora acentos, partículas e a ordem dos nomes e considera
+ * CPF, telefone e email; a mesclagem concentra o histórico no paciente mantido.
+ */
+export class PatientDuplicateService {
+    constructor(
+        private readonly patientRepository: IPatientRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly cacheService: ICacheService
+    ) {}
+
+    /**
+     * Pacientes que parecem ser a mesma pessoa do cadastro em andamento
+     * @param excludeId - Paciente sendo editado (não se compara consigo mesmo)
+     */
+    async findDuplicates(candidate: unknown, excludeId: string | null = null): Promise<DuplicateMatch[]> {
+        try {
+            const validated = validateDuplicateCandidateDTO(candidate);
+            const patients = extractArray<Patient>(await this.patientRepository.findAll());
+            return PatientDomainService.findDuplicates(validated, patients, excludeId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PatientDuplicateService.findDuplicates' });
+        }
+    }
+
+    /**
+     * Pares de pacientes cadastrados que parecem duplicados
+     */
+    async getDuplicatePairs(): Promise<DuplicatePair[]> {
+        try {
+            const patients = extractArray<Patient>(await this.patientRepository.findAll());
+            return PatientDomainService.findDuplicatePairs(patients);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PatientDuplicateService.getDuplicatePairs' });
+        }
+    }
+
+    /**
+     * Mescla o paciente duplicado (sourceId) no mantido (targetId)
+     * ✅ Agendamentos, radiografias e demais registros passam para o mantido;
+     * dados cadastrais que só o duplicado tinha completam o mantido
+     */
+    async merge(mergeData: unknown): Promise<PatientMergeResult> {
+        try {
+            const { sourceId, targetId } = validateMergePatientsDTO(mergeData);
+            const [source, target] = await Promise.all([
+                this.patientRepository.findById(sourceId),
+                this.patientRepository.findById(targetId)
+            ]);
+            if (!source) {
+                throw new NotFoundError('Paciente', sourceId);
+            }
+            if (!target) {
+                throw new NotFoundError('Paciente', targetId);
+            }
+
+            const sourceData = source.toJSON();
+            const targetData = target.toJSON();
+            PatientDomainService.mergeInto(target, source);
+
+            // O duplicado é removido antes de atualizar o mantido (CPF é único por usuário)
+            const moved = await this.patientRepository.merge(sourceId, targetId);
+            const patient = await this.patientRepository.update(targetId, target);
+
+            await Promise.all([
+                this.audit(targetId, { target: targetData, source: sourceData }, { patient: patient.toJSON(), mergedFrom: sourceId, moved }),
+                this.cacheService.invalidateByTag('patients'),
+                this.cacheService.invalidateByTag('appointments')
+            ]);
+
+            return { patient, moved };
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PatientDuplicateService.merge' });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(id: string, oldData: unknown, newData: unknown): Promise<void> {
+        try {
+            await this.auditService.log('merge', 'patient', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
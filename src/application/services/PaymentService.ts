@@ -0,0 +1,421 @@
+import { IPaymentRepository } from '../../infrastructure/repositories/interfaces/IPaymentRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IPaymentMethodFeeRepository } from '../../infrastructure/repositories/interfaces/IPaymentMethodFeeRepository';
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { Payment, PaymentMethod } from '../../domain/entities/Payment';
+import { PaymentMethodFee } from '../../domain/entities/PaymentMethodFee';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Money, Currency } from '../../domain/value-objects/Money';
+import { PaymentDomainService, PaymentSummary, MethodRevenueBreakdown } from '../../domain/services/PaymentDomainService';
+import {
+    validateRecordPaymentDTO,
+    validateCreateInstallmentPlanDTO,
+    validatePayInstallmentDTO,
+    validateSettleAppointmentsDTO,
+    validateSavePaymentMethodFeeDTO
+} from '../dto/validators';
+import { logger } from '../../lib/logger';
+import { toISODate } from '../../lib/calendar';
+
+const today = () => toISODate(new Date());
+
+/**
+ * Pagamentos de um agendamento e a situação financeira resultante
+ */
+export interface AppointmentPayments {
+    payments: Payment[];
+    summary: PaymentSummary;
+}
+
+/**
+ * Resultado de uma baixa em lote
+ */
+export interface SettleAppointmentsResult {
+    settled: string[];
+    /** Agendamentos que não puderam ser quitados, com o motivo */
+    failed: { appointmentId: string; reason: string }[];
+}
+
+/**
+ * Serviço para pagamentos parciais e parcelamentos de agendamentos
+ *
+ * Cada alteração recalcula o valor pago do agendamento, que passa a
+ * pendente, parcial ou pago conforme a soma dos pagamentos. Ao registrar um
+ * pagamento, a taxa e o prazo da forma de pagamento definem o líquido e as
+ * datas previstas de crédito.
+ */
+export class PaymentService {
+    constructor(
+        private readonly repository: IPaymentRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer,
+        private readonly feeRepository: IPaymentMethodFeeRepository,
+        private readonly exchangeRateRepository: IExchangeRateRepository
+    ) {}
+
+    /**
+     * Lista os pagamentos e parcelas de um agendamento com o resumo do saldo
+     */
+    async getByAppointmentId(appointmentId: string): Promise<AppointmentPayments> {
+        try {
+            const appointment = await this.findAppointmentOrFail(appointmentId);
+            const payments = await this.repository.findByAppointmentId(appointmentId);
+
+            return {
+                payments,
+                summary: PaymentDomainService.summarize(appointment.value.amount, payments, today())
+            };
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.getByAppointmentId', appointmentId });
+        }
+    }
+
+    /**
+     * Pagamentos e parcelas de todos os agendamentos do paciente
+     */
+    async getByPatientId(patientId: string): Promise<Payment[]> {
+        try {
+            const appointments = await this.appointmentRepository.findByPatientId(patientId);
+            return await this.repository.findByAppointmentIds(appointments.map(appointment => appointment.id));
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.getByPatientId', patientId });
+        }
+    }
+
+    /**
+     * Registra um pagamento (parcial ou total) do agendamento
+     * ✅ Parcelas em aberto já comprometem parte do saldo devedor
+     * @throws {DomainError} Se o valor ultrapassar o saldo devedor não parcelado
+     */
+    async record(paymentData: unknown): Promise<Payment> {
+        try {
+            const validated = validateRecordPaymentDTO(paymentData);
+            const appointment = await this.findEditableAppointment(validated.appointmentId);
+            const payments = await this.repository.findByAppointmentId(appointment.id);
+            const summary = PaymentDomainService.summarize(appointment.value.amount, payments, validated.paidDate);
+
+            const amount = Money.create(validated.amount, appointment.value.currency);
+            const available = Money.fromCents(Math.max(0, summary.remainingCents - summary.scheduledCents), amount.currency);
+            if (amount.cents > available.cents) {
+                throw new DomainError(summary.scheduledCents > 0
+                    ? `Valor maior que o saldo devedor fora das parcelas em aberto (${available.amount.toFixed(2)}); dê baixa nas parcelas ou exclua-as`
+                    : `Valor maior que o saldo devedor (${summary.remaining.toFixed(2)})`);
+            }
+            const terms = PaymentDomainService.settlementTerms(
+                await this.feeRepository.findAll(),
+                validated.method,
+                amount,
+                validated.cardInstallments ?? null
+            );
+            const payment = Payment.create({
+                appointmentId: appointment.id,
+                amount: validated.amount,
+                currency: appointment.value.currency,
+                paidDate: validated.paidDate,
+                method: validated.method,
+                ...terms,
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : null
+            });
+
+            const created = await this.repository.create(payment);
+            await this.audit('create', created.id, null, created.toJSON());
+            await this.syncAppointment(appointment);
+            logger.debug('Payment recorded successfully', { paymentId: created.id, appointmentId: appointment.id });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.record' });
+        }
+    }
+
+    /**
+     * Parcela o saldo devedor do agendamento em parcelas com vencimento
+     * @throws {DomainError} Se já houver parcelas em aberto ou o agendamento estiver quitado
+     */
+    async createInstallmentPlan(planData: unknown): Promise<Payment[]> {
+        try {
+            const validated = validateCreateInstallmentPlanDTO(planData);
+            const appointment = await this.findEditableAppointment(validated.appointmentId);
+            const payments = await this.repository.findByAppointmentId(appointment.id);
+            const summary = PaymentDomainService.summarize(appointment.value.amount, payments, validated.firstDueDate);
+
+            if (summary.scheduled > 0) {
+                throw new DomainError('Agendamento já possui parcelas em aberto');
+            }
+            if (summary.remaining <= 0 || appointment.isPaid) {
+                throw new DomainError('Agendamento já está quitado');
+            }
+
+            const drafts = PaymentDomainService.buildInstallments(
+                summary.remaining,
+                validated.installments,
+                validated.firstDueDate,
+                validated.intervalMonths
+            );
+
+            const created: Payment[] = [];
+            for (const draft of drafts) {
+                const installment = await this.repository.create(Payment.create({
+                    appointmentId: appointment.id,
+                    amount: draft.amount,
+                    currency: appointment.value.currency,
+                    dueDate: draft.dueDate,
+                    method: validated.method ?? null,
+                    installmentNumber: draft.installmentNumber,
+                    installmentCount: draft.installmentCount
+                }));
+                created.push(installment);
+            }
+
+            await this.audit('create', appointment.id, null, { installments: created.map(payment => payment.toJSON()) });
+            logger.debug('Installment plan created', { appointmentId: appointment.id, installments: created.length });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.createInstallmentPlan' });
+        }
+    }
+
+    /**
+     * Dá baixa em uma parcela em aberto
+     * @throws {DomainError} Se a parcela ultrapassar o saldo devedor (ex.: agendamento já quitado)
+     */
+    async payInstallment(id: string, paymentData: unknown): Promise<Payment> {
+        try {
+            const validated = validatePayInstallmentDTO(paymentData);
+            const payment = await this.findOrFail(id);
+            const appointment = await this.findEditableAppointment(payment.appointmentId);
+            const summary = PaymentDomainService.summarize(
+                appointment.value.amount,
+                await this.repository.findByAppointmentId(appointment.id),
+                validated.paidDate
+            );
+            if (!payment.isPaid && payment.amount.cents > summary.remainingCents) {
+                throw new DomainError('Agendamento já está quitado; exclua a parcela em aberto');
+            }
+            const oldData = payment.toJSON();
+
+            const terms = PaymentDomainService.settlementTerms(
+                await this.feeRepository.findAll(),
+                validated.method,
+                payment.amount,
+                validated.cardInstallments ?? null
+            );
+            payment.markPaid(validated.paidDate, validated.method, terms);
+
+            const updated = await this.repository.update(id, payment);
+            await this.audit('update', id, oldData, updated.toJSON());
+            await this.syncAppointment(appointment);
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.payInstallment', id });
+        }
+    }
+
+    /**
+     * Quita o saldo de vários agendamentos na mesma data e forma de pagamento
+     * ✅ Parcelas em aberto recebem baixa; o que faltar vira um pagamento avulso
+     * ✅ Um agendamento com erro (ex.: incluído em repasse) não impede os demais
+     */
+    async settleMany(data: unknown): Promise<SettleAppointmentsResult> {
+        try {
+            const validated = validateSettleAppointmentsDTO(data);
+            const fees = await this.feeRepository.findAll();
+            const result: SettleAppointmentsResult = { settled: [], failed: [] };
+
+            for (const appointmentId of [...new Set(validated.appointmentIds)]) {
+                try {
+                    await this.settleBalance(appointmentId, validated.paidDate, validated.method, fees);
+                    result.settled.push(appointmentId);
+                } catch (error) {
+                    result.failed.push({
+                        appointmentId,
+                        reason: error instanceof Error ? error.message : String(error)
+                    });
+                }
+            }
+
+            logger.debug('Appointments settled in bulk', { settled: result.settled.length, failed: result.failed.length });
+            return result;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.settleMany' });
+        }
+    }
+
+    /**
+     * Exclui um pagamento ou parcela lançado por engano
+     */
+    async delete(id: string): Promise<void> {
+        try {
+            const payment = await this.findOrFail(id);
+            const appointment = await this.findEditableAppointment(payment.appointmentId);
+
+            await this.repository.delete(id);
+            await this.audit('delete', id, payment.toJSON(), null);
+            await this.syncAppointment(appointment);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.delete', id });
+        }
+    }
+
+    /**
+     * Taxas e prazos configurados por forma de pagamento
+     */
+    async getMethodFees(): Promise<PaymentMethodFee[]> {
+        try {
+            return await this.feeRepository.findAll();
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.getMethodFees' });
+        }
+    }
+
+    /**
+     * Salva taxa e prazo de uma forma de pagamento
+     * ✅ Vale para os próximos pagamentos; os já registrados mantêm a taxa calculada na época
+     */
+    async saveMethodFee(feeData: unknown): Promise<PaymentMethodFee> {
+        try {
+            const validated = validateSavePaymentMethodFeeDTO(feeData);
+            const existing = (await this.feeRepository.findAll()).find(fee => fee.method === validated.method);
+
+            if (existing) {
+                const oldData = existing.toJSON();
+                existing.update(validated);
+                const updated = await this.feeRepository.update(existing.id, existing);
+                await this.audit('update', updated.id, oldData, updated.toJSON(), 'payment_method_fee');
+                return updated;
+            }
+
+            const created = await this.feeRepository.create(PaymentMethodFee.create(validated));
+            await this.audit('create', created.id, null, created.toJSON(), 'payment_method_fee');
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.saveMethodFee' });
+        }
+    }
+
+    /**
+     * Recebimentos do período por forma de pagamento (bruto, taxas, líquido e a receber)
+     */
+    async getRevenueByMethod(startDate: string, endDate: string, reportingCurrency: Currency = 'BRL'): Promise<MethodRevenueBreakdown> {
+        try {
+            const [payments, rates] = await Promise.all([
+                this.repository.findPaidBetween(startDate, endDate),
+                this.exchangeRateRepository.findAll()
+            ]);
+
+            return PaymentDomainService.breakdownByMethod(payments, reportingCurrency, rates, today());
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'PaymentService.getRevenueByMethod', startDate, endDate });
+        }
+    }
+
+    /**
+     * Quita o saldo de um agendamento (baixa das parcelas em aberto e pagamento do restante)
+     * @throws {DomainError} Se o agendamento já estiver quitado
+     */
+    private async settleBalance(
+        appointmentId: string,
+        paidDate: string,
+        method: PaymentMethod,
+        fees: PaymentMethodFee[]
+    ): Promise<void> {
+        const appointment = await this.findEditableAppointment(appointmentId);
+        if (appointment.isCancelled) {
+            throw new DomainError('Agendamento cancelado');
+        }
+        const payments = await this.repository.findByAppointmentId(appointment.id);
+        const summary = PaymentDomainService.summarize(appointment.value.amount, payments, paidDate);
+        if (summary.remaining <= 0 || appointment.isPaid) {
+            throw new DomainError('Agendamento já está quitado');
+        }
+
+        let remaining = Money.fromCents(summary.remainingCents, appointment.value.currency);
+        // Só recebem baixa as parcelas que cabem no saldo; nunca paga além do valor do agendamento
+        for (const installment of payments.filter(payment => !payment.isPaid)) {
+            if (installment.amount.cents > remaining.cents) continue;
+            const oldData = installment.toJSON();
+            installment.markPaid(paidDate, method, PaymentDomainService.settlementTerms(fees, method, installment.amount));
+            const updated = await this.repository.update(installment.id, installment);
+            await this.audit('update', installment.id, oldData, updated.toJSON());
+            remaining = remaining.subtract(remaining.min(installment.amount));
+        }
+
+        if (!remaining.isZero) {
+            const created = await this.repository.create(Payment.create({
+                appointmentId: appointment.id,
+                amount: remaining.amount,
+                currency: remaining.currency,
+                paidDate,
+                method,
+                ...PaymentDomainService.settlementTerms(fees, method, remaining)
+            }));
+            await this.audit('create', created.id, null, created.toJSON());
+        }
+
+        await this.syncAppointment(appointment);
+    }
+
+    /**
+     * Recalcula o valor pago e o status de pagamento do agendamento
+     */
+    private async syncAppointment(appointment: Appointment): Promise<void> {
+        const payments = await this.repository.findByAppointmentId(appointment.id);
+        const summary = PaymentDomainService.summarize(appointment.value.amount, payments, today());
+
+        appointment.applyPayments(summary.paid, summary.lastPaidDate);
+        await this.appointmentRepository.update(appointment.id, appointment);
+    }
+
+    private async findOrFail(id: string): Promise<Payment> {
+        const payment = await this.repository.findById(id);
+        if (!payment) {
+            throw new NotFoundError('Pagamento', id);
+        }
+        return payment;
+    }
+
+    private async findAppointmentOrFail(appointmentId: string): Promise<Appointment> {
+        const appointment = await this.appointmentRepository.findById(appointmentId);
+        if (!appointment) {
+            throw new NotFoundError('Agendamento', appointmentId);
+        }
+        return appointment;
+    }
+
+    /**
+     * Agendamento cujos pagamentos ainda podem mudar
+     * @throws {DomainError} Se o atendimento já entrou em um repasse emitido
+     */
+    private async findEditableAppointment(appointmentId: string): Promise<Appointment> {
+        const appointment = await this.findAppointmentOrFail(appointmentId);
+        if (appointment.isSettlementLocked) {
+            throw new DomainError('Atendimento incluído em repasse emitido não pode ter pagamentos alterados');
+        }
+        return appointment;
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown,
+        resourceType: 'payment' | 'payment_method_fee' = 'payment'
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, resourceType, id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -0,0 +1,160 @@
+import { IProcedurePriceRepository } from '../../infrastructure/repositories/interfaces/IProcedurePriceRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { ProcedurePrice } from '../../domain/entities/ProcedurePrice';
+import { normalizeProcedure } from '../../domain/entities/CommissionRule';
+import { PricingDomainService, PriceDivergence } from '../../domain/services/PricingDomainService';
+import { ProcedureService } from './ProcedureService';
+import { validateCreateProcedurePriceDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+import { toISODate } from '../../lib/calendar';
+
+const today = () => toISODate(new Date());
+
+/**
+ * Serviço para a tabela de preços das clínicas
+ *
+ * Cada clínica tem um preço por procedimento. Reajustes entram como novas
+ * versões com data de vigência, usadas para preencher o valor dos novos
+ * agendamentos e para conferir os valores cobrados.
+ */
+export class ProcedurePriceService {
+    constructor(
+        private readonly repository: IProcedurePriceRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly procedureService: ProcedureService,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Histórico da tabela da clínica (agrupado por procedimento, vigência mais recente no topo)
+     */
+    async getByClinicId(clinicId: string): Promise<ProcedurePrice[]> {
+        try {
+            return PricingDomainService.sortHistory(await this.repository.findByClinicId(clinicId));
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ProcedurePriceService.getByClinicId', clinicId });
+        }
+    }
+
+    /**
+     * Preço vigente para um atendimento, usado para preencher o formulário de agendamento
+     * @param date - Data do atendimento (YYYY-MM-DD)
+     */
+    async resolve(clinicId: string, procedureId: string, date: string): Promise<ProcedurePrice | null> {
+        try {
+            const prices = await this.repository.findByClinicId(clinicId);
+            return PricingDomainService.resolve(prices, clinicId, procedureId, date);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ProcedurePriceService.resolve', clinicId, procedureId });
+        }
+    }
+
+    /**
+     * Cadastra uma nova versão de preço
+     * ✅ Agendamentos já criados mantêm o valor cobrado
+     * @throws {DomainError} Se já existir versão do mesmo procedimento com a mesma vigência
+     */
+    async create(priceData: unknown): Promise<ProcedurePrice> {
+        try {
+            const validated = validateCreateProcedurePriceDTO(priceData);
+            const clinic = await this.clinicRepository.findById(validated.clinicId);
+            if (!clinic) {
+                throw new NotFoundError('Clínica', validated.clinicId);
+            }
+            const procedure = await this.procedureService.getById(validated.procedureId);
+            if (!procedure) {
+                throw new NotFoundError('Procedimento', validated.procedureId);
+            }
+
+            const price = ProcedurePrice.create({
+                clinicId: validated.clinicId,
+                procedureId: validated.procedureId,
+                price: validated.price,
+                currency: validated.currency,
+                effectiveFrom: validated.effectiveFrom,
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : null
+            });
+
+            const existing = await this.repository.findByClinicId(validated.clinicId);
+            if (existing.some(other => other.procedureId === price.procedureId && other.effectiveFrom === price.effectiveFrom)) {
+                throw new DomainError('Já existe um preço deste procedimento com a mesma data de vigência');
+            }
+
+            const created = await this.repository.create(price);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Procedure price created successfully', {
+                priceId: created.id,
+                clinicId: created.clinicId,
+                procedureId: created.procedureId
+            });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ProcedurePriceService.create' });
+        }
+    }
+
+    /**
+     * Remove uma versão agendada para o futuro
+     * @param referenceDate - Referência para a vigência (YYYY-MM-DD)
+     * @throws {DomainError} Se a versão já entrou em vigor (faz parte do histórico)
+     */
+    async delete(id: string, referenceDate: string = today()): Promise<void> {
+        try {
+            const price = await this.repository.findById(id);
+            if (!price) {
+                throw new NotFoundError('Preço de tabela', id);
+            }
+            if (price.isEffectiveOn(referenceDate)) {
+                throw new DomainError('Preços que já entraram em vigor fazem parte do histórico e não podem ser excluídos');
+            }
+
+            await this.repository.delete(id);
+            await this.audit('delete', id, price.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ProcedurePriceService.delete', id });
+        }
+    }
+
+    /**
+     * Agendamentos do período cobrados com valor diferente da tabela vigente na data do atendimento
+     */
+    async getDivergences(startDate: string, endDate: string): Promise<PriceDivergence[]> {
+        try {
+            const [appointments, prices, procedures] = await Promise.all([
+                this.appointmentRepository.findByDateRange(startDate, endDate),
+                this.repository.findAllVersions(),
+                this.procedureService.getAll()
+            ]);
+            const procedureIdsByName = new Map(procedures.map(procedure => [normalizeProcedure(procedure.name), procedure.id]));
+
+            return PricingDomainService.findDivergences(appointments, prices, procedureIdsByName);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ProcedurePriceService.getDivergences', startDate, endDate });
+        }
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'procedure_price', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -7,6 +7,7 @@ import { PermissionError } from '../../domain/errors/AppError';
 import { DatabaseAdapter } from '../../infrastructure/database/DatabaseAdapter';
 import { requireAuth, getSession } from '../../lib/auth';
 import { apiRateLimiter } from '../../lib/rateLimiter';
+import { ToothNumber } from '../../domain/value-objects/ToothNumber';
 
 interface Radiograph {
     id: string;
@@ -15,6 +16,7 @@ interface Radiograph {
     file_url: string;
     file_name: string;
     file_size: number | null;
+    teeth: number[];
     user_id: string;
     created_at: string;
     updated_at: string;
@@ -101,7 +103,8 @@ export class RadiographService {
         appointmentId: string | null, 
         fileOrUrl: File | string, 
         fileName: string | null = null, 
-        fileSize: number | null = null
+        fileSize: number | null = null,
+        teeth: number[] = []
     ): Promise<Radiograph> {
         try {
             await requireAuth();
@@ -131,6 +134,9 @@ export class RadiographService {
                 }
             }
 
+            // ✅ Dentes validados na notação FDI antes de qualquer upload
+            const validatedTeeth = ToothNumber.createList(teeth).map(tooth => tooth.value);
+
             let fileUrl: string;
             let finalFileName = fileName || 'radiografia.jpg';
             let finalFileSize = fileSize;
@@ -153,11 +159,12 @@ export class RadiographService {
                     file_url: fileUrl,
                     file_name: finalFileName,
                     file_size: finalFileSize,
+                    teeth: validatedTeeth,
                     user_id: userId
                 }])
                 .then(res => (Array.isArray(res) ? res[0] : res) as Radiograph);
 
-            await this.auditService.log('create', 'radiograph', data.id, null, { patientId, appointmentId });
+            await this.auditService.log('create', 'radiograph', data.id, null, { patientId, appointmentId, teeth: validatedTeeth });
             logger.debug('Radiograph uploaded successfully', { radiographId: data.id });
 
             return data;
@@ -166,6 +173,46 @@ export class RadiographService {
         }
     }
 
+    /**
+     * Atualiza os dentes (FDI) associados a uma radiografia
+     */
+    async updateRadiographTeeth(id: string, teeth: number[]): Promise<Radiograph> {
+        try {
+            await requireAuth();
+            const session = await getSession();
+            const userId = session?.user?.id || 'anonymous';
+
+            // Validar CSRF
+            const token = getCSRFToken();
+            if (!token) {
+                throw new Error('Token CSRF não encontrado. Por favor, recarregue a página.');
+            }
+
+            const validatedTeeth = ToothNumber.createList(teeth).map(tooth => tooth.value);
+
+            const oldData = await this.db.table('radiographs')
+                .select('*')
+                .where('id', id)
+                .single()
+                .execute<Radiograph>();
+
+            if (oldData && oldData.user_id && oldData.user_id !== userId) {
+                throw new PermissionError('Você não tem permissão para alterar esta radiografia.');
+            }
+
+            const data = await this.db.table('radiographs')
+                .where('id', id)
+                .update({ teeth: validatedTeeth })
+                .then(res => (Array.isArray(res) ? res[0] : res) as Radiograph);
+
+            await this.auditService.log('update', 'radiograph', id, { teeth: oldData?.teeth ?? [] }, { teeth: validatedTeeth });
+
+            return data;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'RadiographService.updateRadiographTeeth', id, teeth });
+        }
+    }
+
     /**
      * Deleta uma radiografia
      */
@@ -0,0 +1,52 @@
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IPatientRepository } from '../../infrastructure/repositories/interfaces/IPatientRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IExchangeRateRepository } from '../../infrastructure/repositories/interfaces/IExchangeRateRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { Patient } from '../../domain/entities/Patient';
+import { Currency } from '../../domain/value-objects/Money';
+import { ReceivablesDomainService, AgingReport } from '../../domain/services/ReceivablesDomainService';
+import { extractArray } from '../../lib/typeGuards';
+import { toISODate } from '../../lib/calendar';
+
+/**
+ * Serviço para contas a receber (saldos em aberto por idade)
+ *
+ * Substitui o "pendente" único do dashboard por um relatório de atraso por
+ * paciente e por clínica; a baixa em lote fica no PaymentService.
+ */
+export class ReceivablesService {
+    constructor(
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly patientRepository: IPatientRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly exchangeRateRepository: IExchangeRateRepository,
+        private readonly errorHandler: IErrorHandler
+    ) {}
+
+    /**
+     * Relatório de idade dos saldos em aberto na data de referência
+     * @param asOf - Data de referência (YYYY-MM-DD); padrão: hoje
+     */
+    async getAgingReport(asOf: string = toISODate(new Date()), reportingCurrency: Currency = 'BRL'): Promise<AgingReport> {
+        try {
+            const [appointments, patients, clinics, rates] = await Promise.all([
+                this.appointmentRepository.findUnpaidUntil(asOf),
+                this.patientRepository.findAll(),
+                this.clinicRepository.findAll(),
+                this.exchangeRateRepository.findAll()
+            ]);
+
+            return ReceivablesDomainService.buildReport(
+                appointments,
+                asOf,
+                reportingCurrency,
+                rates,
+                new Map(extractArray<Patient>(patients).map(patient => [patient.id, patient.name])),
+                new Map(clinics.map(clinic => [clinic.id, clinic.name]))
+            );
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ReceivablesService.getAgingReport', asOf });
+        }
+    }
+}
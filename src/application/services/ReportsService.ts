@@ -1,9 +1,17 @@
 import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
 import { IAppointmentService } from './interfaces/IAppointmentService';
 import { IPatientService } from './interfaces/IPatientService';
-import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentWithRelations } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { AppointmentDomainService, PatientAttendance } from '../../domain/services/AppointmentDomainService';
 import { logger } from '../../lib/logger';
 
+/**
+ * Linha do relatório de faltas e cancelamentos tardios
+ */
+export interface PatientAttendanceRow extends PatientAttendance {
+    patientName: string | null;
+}
+
 /**
  * Serviço para operações de relatórios.
  * 
@@ -20,7 +28,7 @@ export class ReportsService {
     /**
      * Busca dados de relatórios para um período (otimizado com filtro no banco)
      */
-    async getReportsData(startDate: string, endDate: string): Promise<Appointment[]> {
+    async getReportsData(startDate: string, endDate: string): Promise<AppointmentWithRelations[]> {
         try {
             logger.debug('ReportsService.getReportsData - Starting', { startDate, endDate });
             
@@ -61,5 +69,23 @@ export class ReportsService {
             throw this.errorHandler.handle(error, { context: 'ReportsService.getReportsData', startDate, endDate });
         }
     }
-}
 
+    /**
+     * Faltas e cancelamentos tardios por paciente no período
+     */
+    async getAttendanceReport(startDate: string, endDate: string): Promise<PatientAttendanceRow[]> {
+        try {
+            const appointments = await this.getReportsData(startDate, endDate);
+            const names = new Map(appointments.map(appointment =>
+                [appointment.patientId, appointment.patients?.name ?? null]
+            ));
+
+            return AppointmentDomainService.summarizeAttendance(appointments).map(row => ({
+                ...row,
+                patientName: names.get(row.patientId) ?? null
+            }));
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'ReportsService.getAttendanceReport', startDate, endDate });
+        }
+    }
+}
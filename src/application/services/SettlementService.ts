@@ -0,0 +1,183 @@
+import { ISettlementRepository } from '../../infrastructure/repositories/interfaces/ISettlementRepository';
+import { IAppointmentRepository, AppointmentWithRelations } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IClinicRepository } from '../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { SettlementStatement } from '../../domain/entities/SettlementStatement';
+import { SettlementDomainService, SettlementReconciliation } from '../../domain/services/SettlementDomainService';
+import type { ClinicService } from './ClinicService';
+import { validateIssueSettlementDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+
+/**
+ * Serviço para repasse às clínicas parceiras
+ *
+ * Emite o demonstrativo de uma clínica no período com os atendimentos
+ * pagos, separando a parte do profissional e a da clínica. Os atendimentos
+ * incluídos ficam travados para edição financeira.
+ */
+export class SettlementService {
+    constructor(
+        private readonly repository: ISettlementRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly clinicService: Pick<ClinicService, 'getStatsById'>,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Lista os demonstrativos de uma clínica
+     */
+    async getByClinicId(clinicId: string): Promise<SettlementStatement[]> {
+        try {
+            return await this.repository.findByClinicId(clinicId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'SettlementService.getByClinicId', clinicId });
+        }
+    }
+
+    /**
+     * Busca um demonstrativo por ID
+     */
+    async getById(id: string): Promise<SettlementStatement> {
+        try {
+            return await this.findOrFail(id);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'SettlementService.getById', id });
+        }
+    }
+
+    /**
+     * Emite o demonstrativo de repasse da clínica no período
+     * ✅ Entram os atendimentos pagos que ainda não estão em outro repasse
+     * @throws {DomainError} Se não houver atendimentos a repassar
+     */
+    async issue(settlementData: unknown): Promise<SettlementStatement> {
+        try {
+            const validated = validateIssueSettlementDTO(settlementData);
+            const clinic = await this.clinicRepository.findById(validated.clinicId);
+            if (!clinic) {
+                throw new NotFoundError('Clínica', validated.clinicId);
+            }
+
+            const appointments = SettlementDomainService.selectSettleable(
+                await this.findInPeriod(validated.clinicId, validated.periodStart, validated.periodEnd)
+            );
+            if (appointments.length === 0) {
+                throw new DomainError('Nenhum atendimento pago pendente de repasse no período');
+            }
+
+            const statement = SettlementStatement.create({
+                clinicId: validated.clinicId,
+                periodStart: validated.periodStart,
+                periodEnd: validated.periodEnd,
+                currency: SettlementDomainService.resolveCurrency(appointments),
+                lines: appointments.map(appointment =>
+                    SettlementDomainService.buildLine(appointment, appointment.patients?.name ?? null)
+                ),
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : null
+            });
+
+            const created = await this.repository.create(statement);
+            for (const appointment of appointments) {
+                appointment.lockForSettlement(created.id);
+                await this.appointmentRepository.update(appointment.id, appointment);
+            }
+
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Settlement statement issued', {
+                statementId: created.id,
+                clinicId: created.clinicId,
+                appointments: appointments.length
+            });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'SettlementService.issue' });
+        }
+    }
+
+    /**
+     * Marca o demonstrativo como acertado com a clínica
+     */
+    async settle(id: string): Promise<SettlementStatement> {
+        try {
+            const statement = await this.findOrFail(id);
+            const oldData = statement.toJSON();
+
+            statement.settle();
+
+            const updated = await this.repository.update(id, statement);
+            await this.audit('update', id, oldData, updated.toJSON());
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'SettlementService.settle', id });
+        }
+    }
+
+    /**
+     * Confere o demonstrativo com a receita da clínica no período (getStatsById)
+     */
+    async reconcile(id: string): Promise<SettlementReconciliation> {
+        try {
+            const statement = await this.findOrFail(id);
+            const period = { start: statement.periodStart, end: statement.periodEnd };
+
+            const [stats, appointments] = await Promise.all([
+                // Receita na moeda do demonstrativo, para comparar com a parte da clínica
+                this.clinicService.getStatsById(statement.clinicId, period, statement.currency),
+                this.findInPeriod(statement.clinicId, period.start, period.end)
+            ]);
+
+            return SettlementDomainService.reconcile(
+                statement.totals.ourShare,
+                stats.revenue,
+                SettlementDomainService.selectSettleable(appointments).map(appointment => appointment.id)
+            );
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'SettlementService.reconcile', id });
+        }
+    }
+
+    private async findInPeriod(clinicId: string, periodStart: string, periodEnd: string): Promise<AppointmentWithRelations[]> {
+        const result = await this.appointmentRepository.findAll({
+            filters: {
+                clinic_id: clinicId,
+                date: { gte: periodStart, lte: periodEnd }
+            },
+            orderBy: 'date',
+            orderDirection: 'asc',
+            pageSize: 10000
+        });
+        return Array.isArray(result) ? result : result.data;
+    }
+
+    private async findOrFail(id: string): Promise<SettlementStatement> {
+        const statement = await this.repository.findById(id);
+        if (!statement) {
+            throw new NotFoundError('Demonstrativo de repasse', id);
+        }
+        return statement;
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'settlement_statement', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -0,0 +1,232 @@
+import { ITreatmentPlanRepository } from '../../infrastructure/repositories/interfaces/ITreatmentPlanRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { TreatmentPlan, BillableAppointment } from '../../domain/entities/TreatmentPlan';
+import { Appointment } from '../../domain/entities/Appointment';
+import { validateCreateTreatmentPlanDTO, validateAddTreatmentSessionDTO } from '../dto/validators';
+import { logger } from '../../lib/logger';
+
+/**
+ * Plano de tratamento com os valores de faturamento calculados
+ */
+export interface TreatmentPlanOverview {
+    plan: TreatmentPlan;
+    billedValue: number;
+    balanceToBill: number;
+}
+
+/**
+ * Serviço para planos de tratamento (tratamentos em várias sessões)
+ *
+ * Orquestra o agregado TreatmentPlan e o vínculo de suas sessões com
+ * agendamentos do mesmo paciente.
+ */
+export class TreatmentPlanService {
+    constructor(
+        private readonly repository: ITreatmentPlanRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Lista os planos de um paciente com valor faturado e saldo a faturar
+     */
+    async getByPatientId(patientId: string): Promise<TreatmentPlanOverview[]> {
+        try {
+            const [plans, appointments] = await Promise.all([
+                this.repository.findByPatientId(patientId),
+                this.appointmentRepository.findByPatientId(patientId)
+            ]);
+            const billable = this.toBillable(appointments);
+
+            return plans.map(plan => ({
+                plan,
+                billedValue: plan.billedValue(billable),
+                balanceToBill: plan.balanceToBill(billable)
+            }));
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.getByPatientId', patientId });
+        }
+    }
+
+    /**
+     * Busca um plano por ID
+     * @throws {NotFoundError} Se plano não encontrado
+     */
+    async getById(id: string): Promise<TreatmentPlan> {
+        try {
+            return await this.findOrFail(id);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.getById', id });
+        }
+    }
+
+    /**
+     * Cria um plano de tratamento com as sessões previstas
+     */
+    async create(planData: unknown): Promise<TreatmentPlan> {
+        try {
+            const validated = validateCreateTreatmentPlanDTO(planData);
+
+            const plan = TreatmentPlan.create({
+                patientId: validated.patientId,
+                tooth: validated.tooth ? this.sanitizer.sanitizeText(validated.tooth) : null,
+                procedure: this.sanitizer.sanitizeText(validated.procedure),
+                totalValue: validated.totalValue,
+                currency: validated.currency || 'BRL',
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : null,
+                sessions: validated.sessions.map(description => this.sanitizer.sanitizeText(description))
+            });
+
+            const created = await this.repository.create(plan);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Treatment plan created successfully', { planId: created.id });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.create', planData });
+        }
+    }
+
+    /**
+     * Adiciona uma sessão ao final do plano
+     */
+    async addSession(planId: string, sessionData: unknown): Promise<TreatmentPlan> {
+        try {
+            const validated = validateAddTreatmentSessionDTO(sessionData);
+            const plan = await this.findOrFail(planId);
+            if (validated.appointmentId) {
+                await this.ensureSamePatient(plan, validated.appointmentId);
+            }
+
+            plan.addSession(this.sanitizer.sanitizeText(validated.description), validated.appointmentId ?? null);
+            return await this.save(plan);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.addSession', planId });
+        }
+    }
+
+    /**
+     * Remove uma sessão pendente
+     */
+    async removeSession(planId: string, sessionId: string): Promise<TreatmentPlan> {
+        try {
+            const plan = await this.findOrFail(planId);
+            plan.removeSession(sessionId);
+            return await this.save(plan);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.removeSession', planId, sessionId });
+        }
+    }
+
+    /**
+     * Vincula um agendamento do paciente a uma sessão (null desvincula)
+     */
+    async linkAppointment(planId: string, sessionId: string, appointmentId: string | null): Promise<TreatmentPlan> {
+        try {
+            const plan = await this.findOrFail(planId);
+            if (appointmentId) {
+                await this.ensureSamePatient(plan, appointmentId);
+            }
+            plan.linkAppointment(sessionId, appointmentId);
+            return await this.save(plan);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.linkAppointment', planId, sessionId, appointmentId });
+        }
+    }
+
+    /**
+     * Marca uma sessão como concluída
+     */
+    async completeSession(planId: string, sessionId: string): Promise<TreatmentPlan> {
+        try {
+            const plan = await this.findOrFail(planId);
+            plan.completeSession(sessionId);
+            return await this.save(plan);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.completeSession', planId, sessionId });
+        }
+    }
+
+    /**
+     * Abandona o plano
+     */
+    async abandon(planId: string): Promise<TreatmentPlan> {
+        try {
+            const plan = await this.findOrFail(planId);
+            plan.abandon();
+            return await this.save(plan);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.abandon', planId });
+        }
+    }
+
+    /**
+     * Deleta um plano de tratamento
+     */
+    async delete(id: string): Promise<void> {
+        try {
+            const plan = await this.findOrFail(id);
+            await this.repository.delete(id);
+            await this.audit('delete', id, plan.toJSON(), null);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'TreatmentPlanService.delete', id });
+        }
+    }
+
+    private async findOrFail(id: string): Promise<TreatmentPlan> {
+        const plan = await this.repository.findById(id);
+        if (!plan) {
+            throw new NotFoundError('Plano de tratamento', id);
+        }
+        return plan;
+    }
+
+    private async save(plan: TreatmentPlan): Promise<TreatmentPlan> {
+        const updated = await this.repository.update(plan.id, plan);
+        await this.audit('update', plan.id, null, updated.toJSON());
+        return updated;
+    }
+
+    /**
+     * Garante que o agendamento pertence ao paciente do plano
+     */
+    private async ensureSamePatient(plan: TreatmentPlan, appointmentId: string): Promise<void> {
+        const appointment = await this.appointmentRepository.findById(appointmentId);
+        if (!appointment) {
+            throw new NotFoundError('Agendamento', appointmentId);
+        }
+        if (appointment.patientId !== plan.patientId) {
+            throw new DomainError('O agendamento pertence a outro paciente');
+        }
+    }
+
+    private toBillable(appointments: Appointment[]): BillableAppointment[] {
+        return appointments.map(appointment => ({
+            id: appointment.id,
+            value: appointment.value.amount,
+            isCancelled: appointment.isCancelled
+        }));
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update' | 'delete',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'treatment_plan', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
@@ -0,0 +1,241 @@
+import { IWaitlistRepository } from '../../infrastructure/repositories/interfaces/IWaitlistRepository';
+import { IAppointmentRepository } from '../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IErrorHandler } from '../../infrastructure/errorHandling/IErrorHandler';
+import { IAuditService } from '../../infrastructure/audit/IAuditService';
+import { ISanitizer } from '../../infrastructure/sanitization/ISanitizer';
+import { NotFoundError, DomainError } from '../../domain/errors/AppError';
+import { WaitlistEntry, WaitlistSlot } from '../../domain/entities/WaitlistEntry';
+import { Appointment } from '../../domain/entities/Appointment';
+import { SchedulingDomainService } from '../../domain/services/SchedulingDomainService';
+import { ICreateAppointmentUseCase } from '../use-cases/appointment';
+import {
+    validateCreateWaitlistEntryDTO,
+    validateUpdateWaitlistEntryDTO,
+    validateBookWaitlistEntryDTO
+} from '../dto/validators';
+import { logger } from '../../lib/logger';
+
+/**
+ * Vaga liberada por um cancelamento e os pacientes da lista que a aceitam
+ */
+export interface WaitlistOffer {
+    slot: WaitlistSlot;
+    /** Em ordem de oferta (prioridade, depois ordem de chegada) */
+    entries: WaitlistEntry[];
+}
+
+/**
+ * Resultado do agendamento a partir da lista de espera
+ */
+export interface WaitlistBooking {
+    entry: WaitlistEntry;
+    appointment: Appointment;
+}
+
+/**
+ * Serviço para a lista de espera de pacientes
+ *
+ * Quando um cancelamento libera um horário, lista os pacientes cujas
+ * preferências aceitam a vaga e converte a escolhida em agendamento.
+ */
+export class WaitlistService {
+    constructor(
+        private readonly repository: IWaitlistRepository,
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly createAppointmentUseCase: ICreateAppointmentUseCase,
+        private readonly errorHandler: IErrorHandler,
+        private readonly auditService: IAuditService,
+        private readonly sanitizer: ISanitizer
+    ) {}
+
+    /**
+     * Lista os pacientes aguardando vaga, em ordem de chegada
+     */
+    async getWaiting(): Promise<WaitlistEntry[]> {
+        try {
+            return await this.repository.findByStatus('waiting');
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.getWaiting' });
+        }
+    }
+
+    /**
+     * Lista as entradas de um paciente (inclusive agendadas e retiradas)
+     */
+    async getByPatientId(patientId: string): Promise<WaitlistEntry[]> {
+        try {
+            return await this.repository.findByPatientId(patientId);
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.getByPatientId', patientId });
+        }
+    }
+
+    /**
+     * Inclui um paciente na lista de espera
+     * @throws {DomainError} Se o paciente já aguarda vaga para o mesmo procedimento
+     */
+    async create(entryData: unknown): Promise<WaitlistEntry> {
+        try {
+            const validated = validateCreateWaitlistEntryDTO(entryData);
+            const procedure = this.sanitizer.sanitizeText(validated.procedure);
+
+            const existing = await this.repository.findByPatientId(validated.patientId);
+            if (existing.some(entry => entry.isWaiting && entry.procedure.toLowerCase() === procedure.trim().toLowerCase())) {
+                throw new DomainError('Paciente já está na lista de espera para este procedimento');
+            }
+
+            const entry = WaitlistEntry.create({
+                patientId: validated.patientId,
+                clinicId: validated.clinicId ?? null,
+                procedure,
+                durationMinutes: validated.durationMinutes,
+                preferredWeekdays: validated.preferredWeekdays,
+                preferredStart: validated.preferredStart ?? null,
+                preferredEnd: validated.preferredEnd ?? null,
+                priority: validated.priority,
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : null
+            });
+
+            const created = await this.repository.create(entry);
+            await this.audit('create', created.id, null, created.toJSON());
+            logger.debug('Waitlist entry created successfully', { entryId: created.id, patientId: created.patientId });
+
+            return created;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.create' });
+        }
+    }
+
+    /**
+     * Atualiza as preferências de uma entrada que ainda aguarda vaga
+     */
+    async update(id: string, entryData: unknown): Promise<WaitlistEntry> {
+        try {
+            const validated = validateUpdateWaitlistEntryDTO(entryData);
+            const entry = await this.findOrFail(id);
+            const oldData = entry.toJSON();
+
+            entry.update({
+                ...validated,
+                procedure: validated.procedure !== undefined ? this.sanitizer.sanitizeText(validated.procedure) : undefined,
+                notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : validated.notes
+            });
+
+            const updated = await this.repository.update(id, entry);
+            await this.audit('update', id, oldData, updated.toJSON());
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.update', id });
+        }
+    }
+
+    /**
+     * Retira o paciente da lista de espera
+     */
+    async remove(id: string): Promise<WaitlistEntry> {
+        try {
+            const entry = await this.findOrFail(id);
+            const oldData = entry.toJSON();
+
+            entry.remove();
+
+            const updated = await this.repository.update(id, entry);
+            await this.audit('update', id, oldData, updated.toJSON());
+
+            return updated;
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.remove', id });
+        }
+    }
+
+    /**
+     * Pacientes da lista que aceitam o horário liberado por um agendamento cancelado
+     * ✅ Vagas que já passaram não são oferecidas
+     * @throws {DomainError} Se o agendamento não estiver cancelado
+     */
+    async findMatchesForAppointment(appointmentId: string, now: Date = new Date()): Promise<WaitlistOffer> {
+        try {
+            const appointment = await this.appointmentRepository.findById(appointmentId);
+            if (!appointment) {
+                throw new NotFoundError('Agendamento', appointmentId);
+            }
+            if (!appointment.isCancelled) {
+                throw new DomainError('O horário só fica livre depois que o agendamento é cancelado');
+            }
+
+            const slot: WaitlistSlot = {
+                clinicId: appointment.clinicId || null,
+                date: appointment.dateString,
+                time: appointment.time,
+                durationMinutes: appointment.durationMinutes
+            };
+            if (new Date(`${slot.date}T${slot.time}`).getTime() <= now.getTime()) {
+                return { slot, entries: [] };
+            }
+
+            const waiting = await this.repository.findByStatus('waiting');
+            return { slot, entries: SchedulingDomainService.matchWaitlist(slot, waiting, appointment.patientId) };
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.findMatchesForAppointment', appointmentId });
+        }
+    }
+
+    /**
+     * Agenda o paciente da lista na vaga escolhida em um único passo
+     * ✅ O agendamento passa pelas mesmas validações de conflito da agenda
+     */
+    async book(bookingData: unknown): Promise<WaitlistBooking> {
+        try {
+            const validated = validateBookWaitlistEntryDTO(bookingData);
+            const entry = await this.findOrFail(validated.entryId);
+            if (!entry.isWaiting) {
+                throw new DomainError('Esta entrada não está mais aguardando vaga');
+            }
+            const oldData = entry.toJSON();
+
+            const { appointment } = await this.createAppointmentUseCase.execute({
+                patientId: entry.patientId,
+                clinicId: validated.clinicId ?? entry.clinicId,
+                date: validated.date,
+                time: validated.time,
+                durationMinutes: entry.durationMinutes,
+                procedure: entry.procedure,
+                notes: entry.notes
+            });
+
+            entry.markBooked(appointment.id);
+            const updated = await this.repository.update(entry.id, entry);
+            await this.audit('update', entry.id, oldData, updated.toJSON());
+            logger.debug('Waitlist entry booked', { entryId: entry.id, appointmentId: appointment.id });
+
+            return { entry: updated, appointment };
+        } catch (error) {
+            throw this.errorHandler.handle(error, { context: 'WaitlistService.book' });
+        }
+    }
+
+    private async findOrFail(id: string): Promise<WaitlistEntry> {
+        const entry = await this.repository.findById(id);
+        if (!entry) {
+            throw new NotFoundError('Entrada da lista de espera', id);
+        }
+        return entry;
+    }
+
+    /**
+     * Log de auditoria (não crítico)
+     */
+    private async audit(
+        action: 'create' | 'update',
+        id: string,
+        oldData: unknown,
+        newData: unknown
+    ): Promise<void> {
+        try {
+            await this.auditService.log(action, 'waitlist_entry', id, oldData, newData);
+        } catch (auditError) {
+            logger.debug('Audit log failed (non-critical)', { error: auditError });
+        }
+    }
+}
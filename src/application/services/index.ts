@@ -18,4 +18,17 @@ export { ReportsService } from './ReportsService';
 export { ProfileService } from './ProfileService';
 export { ProcedureService } from './ProcedureService';
 export { RadiographService } from './RadiographService';
-
+export { TreatmentPlanService } from './TreatmentPlanService';
+export { EndodonticRecordService } from './EndodonticRecordService';
+export { WaitlistService } from './WaitlistService';
+export { PaymentService } from './PaymentService';
+export { SettlementService } from './SettlementService';
+export { CommissionService } from './CommissionService';
+export { ProcedurePriceService } from './ProcedurePriceService';
+export { ExchangeRateService } from './ExchangeRateService';
+export { ExpenseService } from './ExpenseService';
+export { ReceivablesService } from './ReceivablesService';
+export { GoalService } from './GoalService';
+export { PatientDuplicateService } from './PatientDuplicateService';
+export { AnamnesisService } from './AnamnesisService';
+export { ConsentService } from './ConsentService';
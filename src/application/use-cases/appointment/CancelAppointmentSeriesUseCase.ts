@@ -0,0 +1,97 @@
+import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IClinicRepository } from '../../../infrastructure/repositories/interfaces/IClinicRepository';
+import { IAuditService } from '../../../infrastructure/audit/IAuditService';
+import { ICacheService } from '../../../infrastructure/cache/ICacheService';
+import { Appointment, CancellationActor } from '../../../domain/entities/Appointment';
+import { CancellationPolicy } from '../../../domain/value-objects/CancellationPolicy';
+import { DomainError } from '../../../domain/errors/AppError';
+import { pendingSeriesAppointments } from './UpdateAppointmentSeriesUseCase';
+
+/**
+ * Input para cancelamento de uma série de agendamentos
+ */
+export interface CancelAppointmentSeriesInput {
+    seriesId: string;
+    reason?: string | null;
+    /** Quem pediu o cancelamento */
+    cancelledBy?: CancellationActor | null;
+}
+
+/**
+ * Output do use case de cancelamento de série
+ */
+export interface CancelAppointmentSeriesOutput {
+    cancelled: Appointment[];
+    /** Pendentes fora do prazo da política de cancelamento da clínica */
+    skipped: Appointment[];
+}
+
+/**
+ * Interface do use case de cancelamento de série
+ */
+export interface ICancelAppointmentSeriesUseCase {
+    execute(input: CancelAppointmentSeriesInput): Promise<CancelAppointmentSeriesOutput>;
+}
+
+/**
+ * Use case para cancelamento em lote dos agendamentos pendentes de uma série
+ * ✅ Ocorrências fora do prazo da política da clínica ficam para cancelamento individual
+ */
+export class CancelAppointmentSeriesUseCase implements ICancelAppointmentSeriesUseCase {
+    constructor(
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly clinicRepository: IClinicRepository,
+        private readonly auditService: IAuditService,
+        private readonly cacheService: ICacheService
+    ) {}
+
+    /**
+     * Executa o use case de cancelamento de série
+     * @throws {DomainError} Se não houver agendamentos pendentes
+     */
+    async execute(input: CancelAppointmentSeriesInput): Promise<CancelAppointmentSeriesOutput> {
+        // 1. Buscar ocorrências pendentes
+        const pending = pendingSeriesAppointments(await this.appointmentRepository.findBySeriesId(input.seriesId));
+        if (pending.length === 0) {
+            throw new DomainError('A série não possui agendamentos pendentes para cancelar');
+        }
+
+        // 2. Cancelar o que ainda está dentro do prazo
+        const cancelled: Appointment[] = [];
+        const skipped: Appointment[] = [];
+        const policies = new Map<string, CancellationPolicy>();
+        for (const appointment of pending) {
+            const policy = await this.resolvePolicy(appointment.clinicId, policies);
+            if (policy.isLate(appointment.startsAt)) {
+                skipped.push(appointment);
+                continue;
+            }
+            const before = appointment.toJSON();
+            appointment.cancel({ reason: input.reason ?? null, cancelledBy: input.cancelledBy ?? null, policy });
+            const saved = await this.appointmentRepository.update(appointment.id, appointment);
+            cancelled.push(saved);
+            await this.auditService.log('update', 'appointment', saved.id, before, saved.toJSON());
+        }
+
+        await this.cacheService.invalidateByTag('appointments');
+
+        return { cancelled, skipped };
+    }
+
+    /**
+     * Política de cancelamento da clínica (buscada uma vez por clínica)
+     */
+    private async resolvePolicy(
+        clinicId: string | null,
+        policies: Map<string, CancellationPolicy>
+    ): Promise<CancellationPolicy> {
+        if (!clinicId) {
+            return CancellationPolicy.default();
+        }
+        if (!policies.has(clinicId)) {
+            const clinic = await this.clinicRepository.findById(clinicId);
+            policies.set(clinicId, clinic?.effectiveCancellationPolicy ?? CancellationPolicy.default());
+        }
+        return policies.get(clinicId)!;
+    }
+}
@@ -23,15 +23,27 @@ export class CreateAppointmentInputValidator implements IInputValidator<CreateAp
                 clinicId: validated.clinicId ?? null,
                 date: validated.date,
                 time: validated.time,
+                durationMinutes: validated.durationMinutes,
                 procedure: validated.procedure,
+                teeth: validated.teeth,
                 value: validated.value,
                 currency: validated.currency,
                 paymentType: validated.paymentType,
                 paymentPercentage: validated.paymentPercentage ?? null,
+                paymentFixedAmount: validated.paymentFixedAmount ?? null,
                 isPaid: validated.isPaid,
                 paymentDate: validated.paymentDate ?? null,
+                clinicalStatus: validated.clinicalStatus,
                 clinicalEvolution: validated.clinicalEvolution ?? null,
                 notes: validated.notes ?? null,
+                recurrence: validated.recurrence
+                    ? {
+                        frequency: validated.recurrence.frequency,
+                        interval: validated.recurrence.interval,
+                        until: validated.recurrence.until ?? null,
+                        count: validated.recurrence.count ?? null
+                    }
+                    : null,
                 allowPastDates // Preservar o valor passado
             };
         } catch (error) {
@@ -1,5 +1,7 @@
 import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
 import { IPatientRepository } from '../../../infrastructure/repositories/interfaces/IPatientRepository';
+import { ICommissionRuleRepository } from '../../../infrastructure/repositories/interfaces/ICommissionRuleRepository';
+import { IConsentRepository } from '../../../infrastructure/repositories/interfaces/IConsentRepository';
 import { IAuthService } from '../../../infrastructure/auth/IAuthService';
 import { IInputValidator } from '../../validators/IInputValidator';
 import { ISanitizer } from '../../../infrastructure/sanitization/ISanitizer';
@@ -7,9 +9,17 @@ import { IAuditService } from '../../../infrastructure/audit/IAuditService';
 import { Appointment } from '../../../domain/entities/Appointment';
 import { Patient } from '../../../domain/entities/Patient';
 import { AppointmentDomainService } from '../../../domain/services/AppointmentDomainService';
-import { NotFoundError, ValidationError } from '../../../domain/errors/AppError';
+import { CommissionDomainService } from '../../../domain/services/CommissionDomainService';
+import { ConsentDomainService } from '../../../domain/services/ConsentDomainService';
+import { CommissionRule } from '../../../domain/entities/CommissionRule';
+import { ClinicalStatusValue } from '../../../domain/value-objects/ClinicalStatus';
+import { RecurrenceRule, RecurrenceRuleProps, DateOffset, shiftDate, describeOffset } from '../../../domain/value-objects/RecurrenceRule';
+import { NotFoundError, ValidationError, DomainError } from '../../../domain/errors/AppError';
 import { CreateAppointmentSchema } from '../../dto/schemas/AppointmentSchemas';
+import { validateCreateFollowUpSeriesDTO } from '../../dto/validators';
 import { z } from 'zod';
+import { ensureNoScheduleConflict } from './ScheduleConflicts';
+import { logger } from '../../../lib/logger';
 
 /**
  * Input para criação de appointment
@@ -22,16 +32,22 @@ export interface CreateAppointmentInput {
     clinicId?: string | null;
     date: string | Date;
     time: string;
+    durationMinutes?: number;
     procedure: string;
+    teeth?: number[];
     value?: number;
     currency?: 'BRL' | 'USD' | 'EUR';
     paymentType?: string;
     paymentPercentage?: number | null;
+    paymentFixedAmount?: number | null;
     isPaid?: boolean;
     paymentDate?: string | Date | null;
+    clinicalStatus?: ClinicalStatusValue;
     clinicalEvolution?: string | null;
     notes?: string | null;
     allowPastDates?: boolean;
+    /** Gera uma série de agendamentos a partir da data informada */
+    recurrence?: RecurrenceRuleProps | null;
 }
 
 /**
@@ -39,6 +55,28 @@ export interface CreateAppointmentInput {
  */
 export interface CreateAppointmentOutput {
     appointment: Appointment;
+    /** Todos os agendamentos criados (apenas o próprio appointment quando não há recorrência) */
+    series: Appointment[];
+}
+
+/**
+ * Input para geração de retornos a partir de um atendimento concluído
+ */
+export interface CreateFollowUpSeriesInput {
+    sourceAppointmentId: string;
+    /** Prazos contados a partir da data do atendimento de origem */
+    offsets: DateOffset[];
+    time?: string;
+    durationMinutes?: number;
+    procedure?: string;
+    value?: number;
+}
+
+/**
+ * Output da geração de retornos
+ */
+export interface CreateFollowUpSeriesOutput {
+    appointments: Appointment[];
 }
 
 /**
@@ -46,6 +84,7 @@ export interface CreateAppointmentOutput {
  */
 export interface ICreateAppointmentUseCase {
     execute(input: CreateAppointmentInput): Promise<CreateAppointmentOutput>;
+    createFollowUpSeries(input: CreateFollowUpSeriesInput): Promise<CreateFollowUpSeriesOutput>;
 }
 
 /**
@@ -58,7 +97,9 @@ export class CreateAppointmentUseCase implements ICreateAppointmentUseCase {
         private readonly authService: IAuthService,
         private readonly validator: IInputValidator<CreateAppointmentInput>,
         private readonly sanitizer: ISanitizer,
-        private readonly auditService: IAuditService
+        private readonly auditService: IAuditService,
+        private readonly commissionRuleRepository: ICommissionRuleRepository,
+        private readonly consentRepository: IConsentRepository | null = null
     ) {}
 
     /**
@@ -78,28 +119,159 @@ export class CreateAppointmentUseCase implements ICreateAppointmentUseCase {
         // 3. Resolver paciente
         const patientId = await this.resolvePatientId(validated);
         
-        // 4. Criar entidade
+        // 4. Criar entidade (e demais ocorrências, se recorrente)
+        const seriesId = validated.recurrence ? crypto.randomUUID() : null;
         const appointment = await this.buildAppointment({
             ...validated,
             patientId
-        });
+        }, seriesId);
+        const appointments = validated.recurrence
+            ? this.buildRecurrence(appointment, RecurrenceRule.create(validated.recurrence))
+            : [appointment];
+        await this.applyCommissionRules(appointments, validated.paymentType === undefined);
         
-        // 5. Persistir
-        const created = await this.appointmentRepository.create(appointment);
+        // 5. Impedir dupla marcação no mesmo horário (todas as ocorrências antes de gravar qualquer uma)
+        await ensureNoScheduleConflict(appointments, this.appointmentRepository, this.patientRepository);
         
-        // 6. Side effects (em paralelo) - com tratamento de erros para não falhar a criação
+        // 6. Cirurgia registrada já concluída exige termo de consentimento assinado
+        if (appointment.clinicalStatus === 'completed') {
+            await this.ensureSurgicalConsent(appointment);
+        }
+        
+        // 7. Persistir
+        const series = await this.persistAll(appointments);
+        const created = series[0];
+        
+        // 8. Side effects (em paralelo) - com tratamento de erros para não falhar a criação
         await Promise.allSettled([
             this.updatePatientLastVisit(patientId, appointment.date).catch((error) => {
                 // Não falhar criação se atualização de lastVisit falhar
                 logger.warn('Failed to update patient last visit', { patientId, error });
-            }),
-            this.auditService.log('create', 'appointment', created.id, null, created.toJSON()).catch((error) => {
-                // Não falhar criação se audit log falhar (pode ser problema de permissão)
-                logger.warn('Failed to log audit action', { error, action: 'create', resourceType: 'appointment', resourceId: created.id });
             })
         ]);
         
-        return { appointment: created };
+        return { appointment: created, series };
+    }
+
+    /**
+     * Gera retornos (ex.: 6 e 12 meses) a partir de um atendimento concluído
+     * ✅ Retornos compartilham uma série e podem ser editados/cancelados em conjunto
+     * @throws {NotFoundError} Se o atendimento de origem não existir
+     * @throws {DomainError} Se o atendimento não estiver concluído ou algum retorno cair no passado
+     */
+    async createFollowUpSeries(input: CreateFollowUpSeriesInput): Promise<CreateFollowUpSeriesOutput> {
+        const validated = validateCreateFollowUpSeriesDTO(input);
+        
+        const source = await this.appointmentRepository.findById(validated.sourceAppointmentId);
+        if (!source) {
+            throw new NotFoundError('Agendamento', validated.sourceAppointmentId);
+        }
+        if (source.clinicalStatus !== 'completed') {
+            throw new DomainError('Retornos só podem ser gerados a partir de um atendimento concluído');
+        }
+        
+        const seriesId = crypto.randomUUID();
+        const procedure = validated.procedure ?? `Retorno - ${source.procedure}`;
+        const appointments = validated.offsets.map(offset => {
+            const date = shiftDate(source.dateString, offset.amount, offset.unit);
+            if (!AppointmentDomainService.canCreateAppointment(date)) {
+                throw new DomainError(`Retorno de ${describeOffset(offset)} cairia no passado (${date})`);
+            }
+            return Appointment.create({
+                patientId: source.patientId,
+                clinicId: source.clinicId,
+                date,
+                time: validated.time ?? source.time,
+                durationMinutes: validated.durationMinutes ?? source.durationMinutes,
+                procedure: this.sanitizer.sanitizeText(procedure),
+                teeth: source.teeth,
+                value: validated.value ?? 0,
+                currency: source.value.currency,
+                notes: `Retorno de ${describeOffset(offset)} após atendimento de ${source.dateString}`,
+                seriesId
+            });
+        });
+        await this.applyCommissionRules(appointments, true);
+        
+        await ensureNoScheduleConflict(appointments, this.appointmentRepository, this.patientRepository);
+        
+        return { appointments: await this.persistAll(appointments) };
+    }
+
+    /**
+     * Gera as demais ocorrências da recorrência a partir do primeiro agendamento
+     * Ocorrências seguintes começam em aberto: sem pagamento e sem evolução clínica
+     */
+    private buildRecurrence(first: Appointment, rule: RecurrenceRule): Appointment[] {
+        const [, ...dates] = rule.occurrences(first.dateString);
+        return [
+            first,
+            ...dates.map(date => Appointment.create({
+                patientId: first.patientId,
+                clinicId: first.clinicId,
+                date,
+                time: first.time,
+                durationMinutes: first.durationMinutes,
+                procedure: first.procedure,
+                teeth: first.teeth,
+                value: first.value.amount,
+                currency: first.value.currency,
+                paymentType: first.paymentType.type,
+                paymentPercentage: first.paymentType.percentage,
+                paymentFixedAmount: first.paymentType.fixedAmount,
+                notes: first.notes,
+                seriesId: first.seriesId
+            }))
+        ];
+    }
+
+    /**
+     * Aplica a regra de comissão vigente na data de cada agendamento
+     * ✅ Sem tipo de pagamento informado, a regra preenche os valores; valores informados
+     * iguais aos da regra ficam vinculados a ela, diferentes contam como ajuste manual
+     */
+    private async applyCommissionRules(appointments: Appointment[], fillFromRule: boolean): Promise<void> {
+        const clinicId = appointments[0]?.clinicId;
+        if (!clinicId) return;
+        
+        const rules: CommissionRule[] = await this.commissionRuleRepository.findByClinicId(clinicId).catch((error) => {
+            // Sem regras disponíveis o agendamento segue com os valores informados
+            logger.warn('Failed to load commission rules', { clinicId, error });
+            return [];
+        });
+        for (const appointment of appointments) {
+            const rule = CommissionDomainService.resolve(rules, clinicId, appointment.procedure, appointment.dateString);
+            if (rule && (fillFromRule || rule.paymentType.equals(appointment.paymentType))) {
+                appointment.applyCommissionRule(rule);
+            }
+        }
+    }
+
+    /**
+     * Exige termo de consentimento assinado para registrar procedimento cirúrgico como concluído
+     * @throws {DomainError} Se o procedimento for cirúrgico e não houver termo válido
+     */
+    private async ensureSurgicalConsent(appointment: Appointment): Promise<void> {
+        if (!this.consentRepository || !ConsentDomainService.isSurgicalProcedure(appointment.procedure)) return;
+
+        const consents = await this.consentRepository.findByPatientId(appointment.patientId);
+        ConsentDomainService.ensureSurgicalConsent(appointment, consents);
+    }
+
+    /**
+     * Persiste os agendamentos em ordem e registra a auditoria de cada um
+     */
+    private async persistAll(appointments: Appointment[]): Promise<Appointment[]> {
+        const created: Appointment[] = [];
+        for (const appointment of appointments) {
+            const saved = await this.appointmentRepository.create(appointment);
+            created.push(saved);
+            await this.auditService.log('create', 'appointment', saved.id, null, saved.toJSON()).catch((error) => {
+                // Não falhar criação se audit log falhar (pode ser problema de permissão)
+                logger.warn('Failed to log audit action', { error, action: 'create', resourceType: 'appointment', resourceId: saved.id });
+            });
+        }
+        return created;
     }
 
     /**
@@ -145,9 +317,12 @@ export class CreateAppointmentUseCase implements ICreateAppointmentUseCase {
     /**
      * Constrói entidade Appointment
      */
-    private async buildAppointment(data: CreateAppointmentInput & { patientId: string }): Promise<Appointment> {
-        // Determinar status baseado em isPaid
-        const status = data.isPaid ? 'paid' : 'pending';
+    private async buildAppointment(
+        data: CreateAppointmentInput & { patientId: string },
+        seriesId: string | null = null
+    ): Promise<Appointment> {
+        // Determinar status de pagamento baseado em isPaid
+        const status = AppointmentDomainService.determinePaymentStatus(data.isPaid);
         
         // Criar entidade
         return Appointment.create({
@@ -155,19 +330,24 @@ export class CreateAppointmentUseCase implements ICreateAppointmentUseCase {
             clinicId: data.clinicId || '',
             date: data.date,
             time: data.time,
+            durationMinutes: data.durationMinutes,
             procedure: this.sanitizer.sanitizeText(data.procedure),
+            teeth: data.teeth,
             value: data.value || 0,
             currency: data.currency || 'BRL',
             paymentType: data.paymentType || '100',
             paymentPercentage: data.paymentPercentage || null,
+            paymentFixedAmount: data.paymentFixedAmount ?? null,
             isPaid: data.isPaid || false,
             paymentDate: data.paymentDate || null,
             status,
+            clinicalStatus: data.clinicalStatus,
             clinicalEvolution: data.clinicalEvolution ? this.sanitizer.sanitizeText(data.clinicalEvolution) : null,
-            notes: data.notes ? this.sanitizer.sanitizeText(data.notes) : null
+            notes: data.notes ? this.sanitizer.sanitizeText(data.notes) : null,
+            seriesId
         });
     }
-    
+        
     /**
      * Atualiza última visita do paciente
      */
@@ -1,7 +1,7 @@
 import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
 import { IAuditService } from '../../../infrastructure/audit/IAuditService';
 import { ICacheService } from '../../../infrastructure/cache/ICacheService';
-import { NotFoundError } from '../../../domain/errors/AppError';
+import { NotFoundError, DomainError } from '../../../domain/errors/AppError';
 
 /**
  * Input para deleção de appointment
@@ -43,6 +43,9 @@ export class DeleteAppointmentUseCase implements IDeleteAppointmentUseCase {
         if (!oldData) {
             throw new NotFoundError('Agendamento', input.id);
         }
+        if (oldData.isSettlementLocked) {
+            throw new DomainError('Atendimento incluído em repasse emitido não pode ser excluído');
+        }
 
         // 2. Deletar
         await this.appointmentRepository.delete(input.id);
@@ -0,0 +1,84 @@
+import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IClinicRepository } from '../../../infrastructure/repositories/interfaces/IClinicRepository';
+import { AppointmentConstants } from '../../../domain/constants/AppointmentConstants';
+import { SchedulingDomainService, FreeSlot } from '../../../domain/services/SchedulingDomainService';
+import { shiftDate } from '../../../domain/value-objects/RecurrenceRule';
+import { NotFoundError, ValidationError } from '../../../domain/errors/AppError';
+
+/**
+ * Input para busca de horários livres
+ */
+export interface FindFreeSlotsInput {
+    clinicId: string;
+    /** Primeiro dia da busca (YYYY-MM-DD); padrão: hoje */
+    fromDate?: string;
+    durationMinutes?: number;
+    limit?: number;
+}
+
+/**
+ * Output do use case de busca de horários livres
+ */
+export interface FindFreeSlotsOutput {
+    slots: FreeSlot[];
+    /** false quando a clínica não tem expediente cadastrado */
+    hasWorkingHours: boolean;
+}
+
+/**
+ * Interface do use case de busca de horários livres
+ */
+export interface IFindFreeSlotsUseCase {
+    execute(input: FindFreeSlotsInput): Promise<FindFreeSlotsOutput>;
+}
+
+/**
+ * Use case para encontrar os próximos horários livres de uma clínica
+ * Combina o expediente da clínica com os agendamentos do período
+ */
+export class FindFreeSlotsUseCase implements IFindFreeSlotsUseCase {
+    constructor(
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly clinicRepository: IClinicRepository
+    ) {}
+
+    /**
+     * Executa o use case de busca de horários livres
+     * @throws {NotFoundError} Se a clínica não existir
+     */
+    async execute(input: FindFreeSlotsInput): Promise<FindFreeSlotsOutput> {
+        const durationMinutes = input.durationMinutes ?? AppointmentConstants.DEFAULT_DURATION_MINUTES;
+        if (durationMinutes < AppointmentConstants.MIN_DURATION_MINUTES || durationMinutes > AppointmentConstants.MAX_DURATION_MINUTES) {
+            throw new ValidationError({ durationMinutes }, 'Duração inválida para busca de horários');
+        }
+
+        const clinic = await this.clinicRepository.findById(input.clinicId);
+        if (!clinic) {
+            throw new NotFoundError('Clínica', input.clinicId);
+        }
+        if (!clinic.hasWorkingHours) {
+            return { slots: [], hasWorkingHours: false };
+        }
+
+        const now = new Date();
+        const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+        const fromDate = input.fromDate && input.fromDate > today ? input.fromDate : today;
+        const searchDays = AppointmentConstants.FREE_SLOT_SEARCH_DAYS;
+
+        // Agendamentos de todas as clínicas: o profissional não pode estar em dois lugares
+        const appointments = await this.appointmentRepository.findByDateRange(
+            fromDate,
+            shiftDate(fromDate, searchDays - 1, 'days')
+        );
+
+        const slots = SchedulingDomainService.findFreeSlots(clinic, appointments, {
+            fromDate,
+            durationMinutes,
+            limit: input.limit,
+            searchDays,
+            now
+        });
+
+        return { slots, hasWorkingHours: true };
+    }
+}
@@ -1,5 +1,4 @@
-import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
-import { Appointment } from '../../../domain/entities/Appointment';
+import { IAppointmentRepository, AppointmentWithRelations } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
 
 /**
  * Opções de busca para appointments
@@ -38,7 +37,7 @@ export interface GetAllAppointmentsInput {
  * Output do use case de busca de todos os appointments
  */
 export interface GetAllAppointmentsOutput {
-    appointments: Appointment[] | PaginationResult<Appointment>;
+    appointments: AppointmentWithRelations[] | PaginationResult<AppointmentWithRelations>;
 }
 
 /**
@@ -66,7 +65,7 @@ export class GetAllAppointmentsUseCase implements IGetAllAppointmentsUseCase {
             return { appointments: result };
         }
         
-        return { appointments: result as PaginationResult<Appointment> };
+        return { appointments: result as PaginationResult<AppointmentWithRelations> };
     }
 }
 
@@ -0,0 +1,26 @@
+import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IPatientRepository } from '../../../infrastructure/repositories/interfaces/IPatientRepository';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { AppointmentDomainService } from '../../../domain/services/AppointmentDomainService';
+import { DomainError } from '../../../domain/errors/AppError';
+
+/**
+ * Garante que os agendamentos não conflitam com outros no mesmo horário nem entre si
+ * ✅ Compartilhado pela criação, edição e edição em lote de séries
+ * @throws {DomainError} Identificando o agendamento conflitante
+ */
+export async function ensureNoScheduleConflict(
+    appointments: Appointment[],
+    appointmentRepository: Pick<IAppointmentRepository, 'findByDate'>,
+    patientRepository: Pick<IPatientRepository, 'findById'>
+): Promise<void> {
+    const dates = [...new Set(appointments.map(appointment => appointment.dateString))];
+    const stored = (await Promise.all(dates.map(date => appointmentRepository.findByDate(date)))).flat();
+    const found = AppointmentDomainService.findBatchScheduleConflict(appointments, stored);
+    if (!found) return;
+
+    const patient = await patientRepository
+        .findById(found.conflict.patientId, { includeAppointments: false, includeClinic: false })
+        .catch(() => null);
+    throw new DomainError(AppointmentDomainService.describeScheduleConflict(found.conflict, patient?.name ?? null));
+}
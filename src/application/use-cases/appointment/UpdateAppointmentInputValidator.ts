@@ -28,15 +28,21 @@ export class UpdateAppointmentInputValidator implements IInputValidator<UpdateAp
                 clinicId: validated.clinicId ?? null,
                 date: validated.date,
                 time: validated.time,
+                durationMinutes: validated.durationMinutes,
                 procedure: validated.procedure,
+                teeth: validated.teeth,
                 value: validated.value,
                 currency: validated.currency,
                 paymentType: validated.paymentType,
                 paymentPercentage: validated.paymentPercentage ?? null,
+                paymentFixedAmount: validated.paymentFixedAmount ?? null,
                 isPaid: validated.isPaid,
                 paymentDate: validated.paymentDate ?? null,
+                clinicalStatus: validated.clinicalStatus,
                 clinicalEvolution: validated.clinicalEvolution ?? null,
-                notes: validated.notes ?? null
+                notes: validated.notes ?? null,
+                cancellationReason: validated.cancellationReason ?? null,
+                cancelledBy: validated.cancelledBy ?? null
             };
         } catch (error) {
             if (error instanceof z.ZodError) {
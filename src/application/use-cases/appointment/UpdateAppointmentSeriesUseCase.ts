@@ -0,0 +1,101 @@
+import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { IPatientRepository } from '../../../infrastructure/repositories/interfaces/IPatientRepository';
+import { ISanitizer } from '../../../infrastructure/sanitization/ISanitizer';
+import { IAuditService } from '../../../infrastructure/audit/IAuditService';
+import { ICacheService } from '../../../infrastructure/cache/ICacheService';
+import { Appointment } from '../../../domain/entities/Appointment';
+import { AppointmentDomainService } from '../../../domain/services/AppointmentDomainService';
+import { DomainError } from '../../../domain/errors/AppError';
+import { validateUpdateAppointmentSeriesDTO } from '../../dto/validators';
+import { ensureNoScheduleConflict } from './ScheduleConflicts';
+
+/**
+ * Input para edição em lote de uma série de agendamentos
+ */
+export interface UpdateAppointmentSeriesInput {
+    seriesId: string;
+    clinicId?: string | null;
+    time?: string;
+    durationMinutes?: number;
+    procedure?: string;
+    value?: number;
+    notes?: string | null;
+}
+
+/**
+ * Output do use case de edição de série
+ */
+export interface UpdateAppointmentSeriesOutput {
+    appointments: Appointment[];
+}
+
+/**
+ * Interface do use case de edição de série
+ */
+export interface IUpdateAppointmentSeriesUseCase {
+    execute(input: UpdateAppointmentSeriesInput): Promise<UpdateAppointmentSeriesOutput>;
+}
+
+/**
+ * Agendamentos da série que ainda podem ser alterados em conjunto:
+ * pendentes (agendado/confirmado) de hoje em diante
+ */
+export function pendingSeriesAppointments(appointments: Appointment[]): Appointment[] {
+    return appointments.filter(appointment =>
+        appointment.isPendingInSeries && AppointmentDomainService.canCreateAppointment(appointment.dateString)
+    );
+}
+
+/**
+ * Use case para edição em lote dos agendamentos pendentes de uma série
+ * ✅ Atendimentos já realizados ou passados não são alterados
+ */
+export class UpdateAppointmentSeriesUseCase implements IUpdateAppointmentSeriesUseCase {
+    constructor(
+        private readonly appointmentRepository: IAppointmentRepository,
+        private readonly patientRepository: IPatientRepository,
+        private readonly sanitizer: ISanitizer,
+        private readonly auditService: IAuditService,
+        private readonly cacheService: ICacheService
+    ) {}
+
+    /**
+     * Executa o use case de edição de série
+     * @throws {DomainError} Se não houver agendamentos pendentes ou houver conflito de horário
+     */
+    async execute(input: UpdateAppointmentSeriesInput): Promise<UpdateAppointmentSeriesOutput> {
+        // 1. Validar input
+        const { seriesId, ...changes } = input;
+        const validated = validateUpdateAppointmentSeriesDTO(changes);
+
+        // 2. Buscar ocorrências pendentes
+        const pending = pendingSeriesAppointments(await this.appointmentRepository.findBySeriesId(seriesId));
+        if (pending.length === 0) {
+            throw new DomainError('A série não possui agendamentos pendentes para alterar');
+        }
+
+        // 3. Atualizar entidades e verificar conflitos antes de gravar qualquer uma
+        const before = new Map(pending.map(appointment => [appointment.id, appointment.toJSON()]));
+        pending.forEach(appointment => appointment.update({
+            clinicId: validated.clinicId === undefined ? undefined : validated.clinicId || '',
+            time: validated.time,
+            durationMinutes: validated.durationMinutes,
+            procedure: validated.procedure ? this.sanitizer.sanitizeText(validated.procedure) : undefined,
+            value: validated.value,
+            notes: validated.notes ? this.sanitizer.sanitizeText(validated.notes) : validated.notes
+        }));
+        await ensureNoScheduleConflict(pending, this.appointmentRepository, this.patientRepository);
+
+        // 4. Persistir
+        const updated: Appointment[] = [];
+        for (const appointment of pending) {
+            const saved = await this.appointmentRepository.update(appointment.id, appointment);
+            updated.push(saved);
+            await this.auditService.log('update', 'appointment', saved.id, before.get(saved.id), saved.toJSON());
+        }
+
+        await this.cacheService.invalidateByTag('appointments');
+
+        return { appointments: updated };
+    }
+}
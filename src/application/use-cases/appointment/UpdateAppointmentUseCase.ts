@@ -1,12 +1,18 @@
 import { IAppointmentRepository } from '../../../infrastructure/repositories/interfaces/IAppointmentRepository';
 import { IPatientRepository } from '../../../infrastructure/repositories/interfaces/IPatientRepository';
+import { IClinicRepository } from '../../../infrastructure/repositories/interfaces/IClinicRepository';
 import { IInputValidator } from '../../validators/IInputValidator';
 import { ISanitizer } from '../../../infrastructure/sanitization/ISanitizer';
 import { IAuditService } from '../../../infrastructure/audit/IAuditService';
 import { ICacheService } from '../../../infrastructure/cache/ICacheService';
-import { Appointment } from '../../../domain/entities/Appointment';
+import { IConsentRepository } from '../../../infrastructure/repositories/interfaces/IConsentRepository';
+import { Appointment, CancellationActor } from '../../../domain/entities/Appointment';
+import { CancellationPolicy } from '../../../domain/value-objects/CancellationPolicy';
 import { NotFoundError } from '../../../domain/errors/AppError';
+import { ConsentDomainService } from '../../../domain/services/ConsentDomainService';
+import { ClinicalStatusValue } from '../../../domain/value-objects/ClinicalStatus';
 import { UpdateAppointmentSchema } from '../../dto/schemas/AppointmentSchemas';
+import { ensureNoScheduleConflict } from './ScheduleConflicts';
 import { z } from 'zod';
 
 /**
@@ -21,15 +27,23 @@ export interface UpdateAppointmentInput {
     clinicId?: string | null;
     date?: string | Date;
     time?: string;
+    durationMinutes?: number;
     procedure?: string;
+    teeth?: number[];
     value?: number;
     currency?: 'BRL' | 'USD' | 'EUR';
     paymentType?: string;
     paymentPercentage?: number | null;
+    paymentFixedAmount?: number | null;
     isPaid?: boolean;
     paymentDate?: string | Date | null;
+    clinicalStatus?: ClinicalStatusValue;
     clinicalEvolution?: string | null;
     notes?: string | null;
+    /** Motivo do cancelamento (obrigatório quando fora do prazo da política) */
+    cancellationReason?: string | null;
+    /** Quem pediu o cancelamento */
+    cancelledBy?: CancellationActor | null;
 }
 
 /**
@@ -53,10 +67,12 @@ export class UpdateAppointmentUseCase implements IUpdateAppointmentUseCase {
     constructor(
         private readonly appointmentRepository: IAppointmentRepository,
         private readonly patientRepository: IPatientRepository,
+        private readonly clinicRepository: IClinicRepository,
         private readonly validator: IInputValidator<UpdateAppointmentInput>,
         private readonly sanitizer: ISanitizer,
         private readonly auditService: IAuditService,
-        private readonly cacheService: ICacheService
+        private readonly cacheService: ICacheService,
+        private readonly consentRepository: IConsentRepository | null = null
     ) {}
 
     /**
@@ -78,13 +94,34 @@ export class UpdateAppointmentUseCase implements IUpdateAppointmentUseCase {
             patientId = await this.resolvePatientId(validated);
         }
 
-        // 4. Atualizar entidade
-        this.updateAppointmentEntity(existing, validated);
+        // 4. Atualizar entidade (cancelamento segue a política da clínica)
+        const cancellationPolicy = validated.clinicalStatus === 'cancelled' && !existing.isCancelled
+            ? await this.resolveCancellationPolicy(validated.clinicId !== undefined ? validated.clinicId : existing.clinicId)
+            : undefined;
+        const previous = {
+            status: existing.clinicalStatus,
+            procedure: existing.procedure,
+            date: existing.dateString
+        };
+        this.updateAppointmentEntity(existing, validated, cancellationPolicy);
+
+        // 5. Impedir dupla marcação no mesmo horário
+        await ensureNoScheduleConflict([existing], this.appointmentRepository, this.patientRepository);
+
+        // 6. Cirurgia só é concluída com termo de consentimento assinado
+        // ✅ Vale também ao trocar procedimento ou a data de um atendimento já concluído
+        if (existing.clinicalStatus === 'completed' && (
+            previous.status !== 'completed'
+            || previous.procedure !== existing.procedure
+            || previous.date !== existing.dateString
+        )) {
+            await this.ensureSurgicalConsent(existing);
+        }
 
-        // 5. Persistir
+        // 7. Persistir
         const updated = await this.appointmentRepository.update(validated.id, existing);
         
-        // 6. Side effects (em paralelo)
+        // 8. Side effects (em paralelo)
         await Promise.all([
             this.updatePatientLastVisitIfNeeded(patientId, validated.date),
             this.auditService.log('update', 'appointment', validated.id, existing.toJSON(), updated.toJSON()),
@@ -115,29 +152,61 @@ export class UpdateAppointmentUseCase implements IUpdateAppointmentUseCase {
         return found.id;
     }
 
+    /**
+     * Política de cancelamento da clínica do agendamento (padrão quando não há clínica)
+     */
+    private async resolveCancellationPolicy(clinicId: string | null | undefined): Promise<CancellationPolicy> {
+        if (!clinicId) {
+            return CancellationPolicy.default();
+        }
+        const clinic = await this.clinicRepository.findById(clinicId);
+        return clinic?.effectiveCancellationPolicy ?? CancellationPolicy.default();
+    }
+
     /**
      * Atualiza entidade Appointment
      */
     private updateAppointmentEntity(
         existing: Appointment,
-        data: UpdateAppointmentInput
+        data: UpdateAppointmentInput,
+        cancellationPolicy?: CancellationPolicy
     ): void {
         existing.update({
             clinicId: data.clinicId,
             date: data.date,
             time: data.time,
+            durationMinutes: data.durationMinutes,
             procedure: data.procedure ? this.sanitizer.sanitizeText(data.procedure) : undefined,
+            teeth: data.teeth,
             value: data.value,
             currency: data.currency,
             paymentType: data.paymentType,
             paymentPercentage: data.paymentPercentage,
+            paymentFixedAmount: data.paymentFixedAmount,
             isPaid: data.isPaid,
             paymentDate: data.paymentDate,
+            clinicalStatus: data.clinicalStatus,
             clinicalEvolution: data.clinicalEvolution ? this.sanitizer.sanitizeText(data.clinicalEvolution) : undefined,
-            notes: data.notes ? this.sanitizer.sanitizeText(data.notes) : undefined
+            notes: data.notes ? this.sanitizer.sanitizeText(data.notes) : undefined,
+            cancellation: cancellationPolicy && {
+                reason: data.cancellationReason ? this.sanitizer.sanitizeText(data.cancellationReason) : null,
+                cancelledBy: data.cancelledBy ?? null,
+                policy: cancellationPolicy
+            }
         });
     }
 
+    /**
+     * Exige termo de consentimento assinado para concluir procedimento cirúrgico
+     * @throws {DomainError} Se o procedimento for cirúrgico e não houver termo válido
+     */
+    private async ensureSurgicalConsent(appointment: Appointment): Promise<void> {
+        if (!this.consentRepository || !ConsentDomainService.isSurgicalProcedure(appointment.procedure)) return;
+
+        const consents = await this.consentRepository.findByPatientId(appointment.patientId);
+        ConsentDomainService.ensureSurgicalConsent(appointment, consents);
+    }
+
     /**
      * Atualiza última visita do paciente se necessário
      */
@@ -3,6 +3,9 @@ export * from './UpdateAppointmentUseCase';
 export * from './DeleteAppointmentUseCase';
 export * from './GetAppointmentUseCase';
 export * from './GetAllAppointmentsUseCase';
+export * from './UpdateAppointmentSeriesUseCase';
+export * from './CancelAppointmentSeriesUseCase';
+export * from './FindFreeSlotsUseCase';
 export * from './CreateAppointmentInputValidator';
 export * from './UpdateAppointmentInputValidator';
 
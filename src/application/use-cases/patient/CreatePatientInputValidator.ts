@@ -14,7 +14,14 @@ export class CreatePatientInputValidator implements IInputValidator<CreatePatien
             return {
                 name: validated.name,
                 email: validated.email ?? null,
-                phone: validated.phone ?? null
+                phone: validated.phone ?? null,
+                cpf: validated.cpf ?? null,
+                birthDate: validated.birthDate ?? null,
+                sex: validated.sex ?? null,
+                address: validated.address ?? null,
+                occupation: validated.occupation ?? null,
+                emergencyContact: validated.emergencyContact ?? null,
+                guardian: validated.guardian ?? null
             };
         } catch (error) {
             if (error instanceof z.ZodError) {
@@ -4,13 +4,14 @@ import { IInputValidator } from '../../validators/InputValidator';
 import { ISanitizer } from '../../../infrastructure/sanitization/ISanitizer';
 import { IAuditService } from '../../../infrastructure/audit/IAuditService';
 import { ICacheService } from '../../../infrastructure/cache/ICacheService';
-import { Patient } from '../../../domain/entities/Patient';
+import { Patient, PatientRegistration } from '../../../domain/entities/Patient';
+import { ValidationError } from '../../../domain/errors/AppError';
 import { CreatePatientSchema } from '../../dto/schemas/PatientSchemas';
 
 /**
  * Input para criação de paciente
  */
-export interface CreatePatientInput {
+export interface CreatePatientInput extends PatientRegistration {
     name: string;
     email?: string | null;
     phone?: string | null;
@@ -57,6 +58,7 @@ export class CreatePatientUseCase implements ICreatePatientUseCase {
             email: validated.email ? this.sanitizer.sanitizeText(validated.email) : null,
             phone: validated.phone ? this.sanitizer.sanitizeText(validated.phone) : null
         };
+        const registration = this.sanitizer.deepSanitize(pickRegistration(validated));
         
         // 3. Obter contexto (userId)
         const userId = await this.authService.getCurrentUserId();
@@ -66,8 +68,14 @@ export class CreatePatientUseCase implements ICreatePatientUseCase {
             name: sanitized.name,
             email: sanitized.email,
             phone: sanitized.phone,
+            ...registration,
             userId
         });
+
+        // ✅ CPF é único entre os pacientes do usuário
+        if (patient.cpf && await this.patientRepository.findByCpf(patient.cpf)) {
+            throw new ValidationError({ cpf: 'CPF já cadastrado' }, 'CPF já cadastrado para outro paciente');
+        }
         
         // 5. Persistir (Infrastructure)
         const created = await this.patientRepository.create(patient);
@@ -82,3 +90,10 @@ export class CreatePatientUseCase implements ICreatePatientUseCase {
     }
 }
 
+/**
+ * Separa os dados cadastrais complementares do input (campos ausentes continuam ausentes)
+ */
+export function pickRegistration(input: PatientRegistration): PatientRegistration {
+    const { cpf, birthDate, sex, address, occupation, emergencyContact, guardian } = input;
+    return { cpf, birthDate, sex, address, occupation, emergencyContact, guardian };
+}
@@ -23,7 +23,15 @@ export class UpdatePatientInputValidator implements IInputValidator<UpdatePatien
                 id: (data as { id: string }).id,
                 name: validated.name,
                 email: validated.email ?? null,
-                phone: validated.phone ?? null
+                phone: validated.phone ?? null,
+                // Dados cadastrais ausentes continuam como estão
+                cpf: validated.cpf,
+                birthDate: validated.birthDate,
+                sex: validated.sex,
+                address: validated.address,
+                occupation: validated.occupation,
+                emergencyContact: validated.emergencyContact,
+                guardian: validated.guardian
             };
         } catch (error) {
             if (error instanceof z.ZodError) {
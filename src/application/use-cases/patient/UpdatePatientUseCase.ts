@@ -2,14 +2,15 @@ import { IPatientRepository } from '../../../infrastructure/repositories/interfa
 import { ISanitizer } from '../../../infrastructure/sanitization/ISanitizer';
 import { IAuditService } from '../../../infrastructure/audit/IAuditService';
 import { ICacheService } from '../../../infrastructure/cache/ICacheService';
-import { Patient } from '../../../domain/entities/Patient';
-import { NotFoundError } from '../../../domain/errors/AppError';
+import { Patient, PatientRegistration } from '../../../domain/entities/Patient';
+import { NotFoundError, ValidationError } from '../../../domain/errors/AppError';
 import { IInputValidator } from '../../validators/InputValidator';
+import { pickRegistration } from './CreatePatientUseCase';
 
 /**
  * Input para atualização de paciente
  */
-export interface UpdatePatientInput {
+export interface UpdatePatientInput extends PatientRegistration {
     id: string;
     name?: string;
     email?: string | null;
@@ -65,6 +66,15 @@ export class UpdatePatientUseCase implements IUpdatePatientUseCase {
         if (validated.phone !== undefined) {
             existing.updatePhone(validated.phone ? this.sanitizer.sanitizeText(validated.phone) : null);
         }
+        existing.updateRegistration(this.sanitizer.deepSanitize(pickRegistration(validated)));
+
+        // ✅ CPF é único entre os pacientes do usuário
+        if (existing.cpf) {
+            const sameCpf = await this.patientRepository.findByCpf(existing.cpf);
+            if (sameCpf && sameCpf.id !== existing.id) {
+                throw new ValidationError({ cpf: 'CPF já cadastrado' }, 'CPF já cadastrado para outro paciente');
+            }
+        }
         
         // 4. Persistir atualização
         const updated = await this.patientRepository.update(validated.id, existing);
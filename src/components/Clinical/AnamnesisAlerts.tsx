@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle, ClipboardCheck } from 'lucide-react';
+import Badge from '../UI/Badge';
+import type { AnamnesisStatus } from '../../domain/services/AnamnesisDomainService';
+import { formatAnamnesisAlert } from '../../lib/anamnesis';
+import { formatDate } from '../../lib/utils';
+
+interface AnamnesisAlertsProps {
+    status: AnamnesisStatus;
+    /** Textos dos avisos (a página de agendamentos passa os traduzidos) */
+    missingLabel?: string;
+    reviewDueLabel?: string;
+    className?: string;
+}
+
+/**
+ * Alertas clínicos da anamnese do paciente e aviso de revisão pendente
+ */
+const AnamnesisAlerts: React.FC<AnamnesisAlertsProps> = ({
+    status,
+    missingLabel = 'Anamnese não preenchida',
+    reviewDueLabel = 'Revisar anamnese',
+    className = ''
+}) => {
+    if (status.alerts.length === 0 && !status.reviewDue) return null;
+
+    return (
+        <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+            {status.alerts.map(alert => (
+                <Badge key={alert.questionId} variant="danger" className="inline-flex items-center gap-1">
+                    <AlertTriangle size={12} />
+                    {formatAnamnesisAlert(alert)}
+                </Badge>
+            ))}
+            {status.reviewDue && (
+                <Badge variant="warning" className="inline-flex items-center gap-1">
+                    <ClipboardCheck size={12} />
+                    {status.latest
+                        ? `${reviewDueLabel} (${formatDate(status.nextReviewDate || '')})`
+                        : missingLabel}
+                </Badge>
+            )}
+        </div>
+    );
+};
+
+export default AnamnesisAlerts;
@@ -0,0 +1,112 @@
+import React, { FormEvent } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import Button from '../UI/Button';
+import type { AnamnesisQuestion } from '../../domain/entities/AnamnesisTemplate';
+import type { AnamnesisFormState, AnamnesisAnswerFormState } from '../../lib/anamnesis';
+
+interface AnamnesisFormProps {
+    questions: AnamnesisQuestion[];
+    value: AnamnesisFormState;
+    onChange: (value: AnamnesisFormState) => void;
+    onSubmit: () => void;
+    onCancel: () => void;
+    saving?: boolean;
+}
+
+const textareaClassName = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+const inputClassName = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white';
+
+/**
+ * Formulário de preenchimento/revisão da anamnese
+ * ✅ Perguntas de sim/não são obrigatórias; "sim" abre o campo de detalhes
+ */
+const AnamnesisForm: React.FC<AnamnesisFormProps> = ({
+    questions,
+    value,
+    onChange,
+    onSubmit,
+    onCancel,
+    saving = false
+}) => {
+    const setAnswer = (questionId: string, changes: Partial<AnamnesisAnswerFormState>) => {
+        const current = value.answers[questionId] ?? { value: '', details: '' };
+        onChange({ ...value, answers: { ...value.answers, [questionId]: { ...current, ...changes } } });
+    };
+
+    const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        onSubmit();
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                {questions.map(question => {
+                    const answer = value.answers[question.id] ?? { value: '', details: '' };
+                    return (
+                        <div key={question.id} className="py-3 space-y-2">
+                            <p className="text-sm font-medium text-slate-800 dark:text-gray-200 flex items-start gap-1.5">
+                                {question.critical && <AlertTriangle size={14} className="text-rose-500 mt-0.5 flex-shrink-0" />}
+                                {question.label}
+                            </p>
+                            {question.type === 'boolean' ? (
+                                <>
+                                    <div className="flex gap-4 text-sm">
+                                        {[['yes', 'Sim'], ['no', 'Não']].map(([option, label]) => (
+                                            <label key={option} className="inline-flex items-center gap-1.5 cursor-pointer text-slate-700 dark:text-gray-300">
+                                                <input
+                                                    type="radio"
+                                                    required
+                                                    name={`anamnesis-${question.id}`}
+                                                    value={option}
+                                                    checked={answer.value === option}
+                                                    onChange={() => setAnswer(question.id, { value: option })}
+                                                />
+                                                {label}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    {answer.value === 'yes' && (
+                                        <input
+                                            className={inputClassName}
+                                            placeholder="Detalhes (qual, desde quando, dose...)"
+                                            maxLength={500}
+                                            value={answer.details}
+                                            onChange={e => setAnswer(question.id, { details: e.target.value })}
+                                        />
+                                    )}
+                                </>
+                            ) : (
+                                <textarea
+                                    rows={2}
+                                    maxLength={1000}
+                                    className={textareaClassName}
+                                    value={answer.value}
+                                    onChange={e => setAnswer(question.id, { value: e.target.value })}
+                                />
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Observações</label>
+                <textarea
+                    rows={3}
+                    maxLength={5000}
+                    className={textareaClassName}
+                    value={value.notes}
+                    onChange={e => onChange({ ...value, notes: e.target.value })}
+                />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="ghost" onClick={onCancel}>Cancelar</Button>
+                <Button type="submit" disabled={saving}>{saving ? 'Salvando...' : 'Salvar anamnese'}</Button>
+            </div>
+        </form>
+    );
+};
+
+export default AnamnesisForm;
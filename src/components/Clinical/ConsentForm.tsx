@@ -0,0 +1,143 @@
+import React, { FormEvent } from 'react';
+import Button from '../UI/Button';
+import Input from '../UI/Input';
+import SignaturePad from '../UI/SignaturePad';
+import type { ConsentTemplate } from '../../domain/entities/ConsentTemplate';
+import { CONSENT_KIND_LABELS, type ConsentSignFormState } from '../../lib/consent';
+import { formatDate, formatTime } from '../../lib/utils';
+
+interface ConsentAppointmentOption {
+    id: string;
+    date: string;
+    time?: string;
+    procedure?: string;
+    teeth?: number[];
+}
+
+interface ConsentFormProps {
+    templates: ConsentTemplate[];
+    /** Atendimentos do paciente que podem ser vinculados ao termo */
+    appointments: ConsentAppointmentOption[];
+    value: ConsentSignFormState;
+    onChange: (value: ConsentSignFormState) => void;
+    /** Texto do termo com os marcadores já substituídos */
+    preview: string;
+    hasSignature: boolean;
+    onSignatureChange: (dataUrl: string | null) => void;
+    onSubmit: () => void;
+    onCancel: () => void;
+    saving?: boolean;
+}
+
+const selectClassName = 'w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+
+/**
+ * Formulário do termo de consentimento: modelo, procedimento, pré-visualização e assinatura na tela
+ */
+const ConsentForm: React.FC<ConsentFormProps> = ({
+    templates,
+    appointments,
+    value,
+    onChange,
+    preview,
+    hasSignature,
+    onSignatureChange,
+    onSubmit,
+    onCancel,
+    saving = false
+}) => {
+    const set = <K extends keyof ConsentSignFormState>(field: K, fieldValue: ConsentSignFormState[K]) =>
+        onChange({ ...value, [field]: fieldValue });
+
+    // Vincular um atendimento preenche procedimento e dentes
+    const handleAppointmentChange = (appointmentId: string) => {
+        const appointment = appointments.find(item => item.id === appointmentId);
+        onChange({
+            ...value,
+            appointmentId,
+            procedure: appointment?.procedure ?? value.procedure,
+            teeth: appointment?.teeth?.length ? appointment.teeth.join(', ') : value.teeth
+        });
+    };
+
+    const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        onSubmit();
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Modelo</label>
+                    <select
+                        required
+                        className={selectClassName}
+                        value={value.templateId}
+                        onChange={e => set('templateId', e.target.value)}
+                    >
+                        {templates.map(template => (
+                            <option key={template.id} value={template.id}>
+                                {template.title} ({CONSENT_KIND_LABELS[template.kind]})
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Atendimento</label>
+                    <select
+                        className={selectClassName}
+                        value={value.appointmentId}
+                        onChange={e => handleAppointmentChange(e.target.value)}
+                    >
+                        <option value="">Sem vínculo</option>
+                        {appointments.map(appointment => (
+                            <option key={appointment.id} value={appointment.id}>
+                                {formatDate(appointment.date)}
+                                {appointment.time && ` ${formatTime(appointment.time)}`}
+                                {appointment.procedure && ` • ${appointment.procedure}`}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <Input
+                    label="Procedimento"
+                    required
+                    maxLength={255}
+                    value={value.procedure}
+                    onChange={e => set('procedure', e.target.value)}
+                />
+                <Input
+                    label="Dentes (FDI)"
+                    placeholder="Ex.: 36, 37"
+                    value={value.teeth}
+                    onChange={e => set('teeth', e.target.value)}
+                />
+            </div>
+
+            <div className="max-h-64 overflow-y-auto p-4 rounded-xl bg-gray-50 dark:bg-gray-800 text-sm text-slate-700 dark:text-gray-300 whitespace-pre-wrap">
+                {preview}
+            </div>
+
+            <Input
+                label="Nome de quem assina"
+                required
+                maxLength={255}
+                value={value.signerName}
+                onChange={e => set('signerName', e.target.value)}
+            />
+
+            <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Assinatura</label>
+                <SignaturePad onChange={onSignatureChange} />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="ghost" onClick={onCancel}>Cancelar</Button>
+                <Button type="submit" disabled={saving || !hasSignature}>{saving ? 'Gerando PDF...' : 'Assinar termo'}</Button>
+            </div>
+        </form>
+    );
+};
+
+export default ConsentForm;
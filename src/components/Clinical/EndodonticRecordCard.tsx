@@ -0,0 +1,91 @@
+import React from 'react';
+import { Edit, Trash2 } from 'lucide-react';
+import type { EndodonticRecord } from '../../domain/entities/EndodonticRecord';
+import { PULPAL_DIAGNOSIS_LABELS, PERIAPICAL_DIAGNOSIS_LABELS } from '../../lib/endodontics';
+
+interface EndodonticRecordCardProps {
+    record: EndodonticRecord;
+    onEdit?: () => void;
+    onDelete?: () => void;
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div>
+        <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide">{label}</p>
+        <p className="text-sm text-slate-800 dark:text-white">{children}</p>
+    </div>
+);
+
+/**
+ * Exibe a ficha endodôntica de um dente em um atendimento
+ */
+const EndodonticRecordCard: React.FC<EndodonticRecordCardProps> = ({ record, onEdit, onDelete }) => (
+    <div className="rounded-xl border border-violet-100 dark:border-violet-900/40 bg-violet-50/60 dark:bg-violet-900/10 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+            <span className="font-semibold text-violet-900 dark:text-violet-200">Dente {record.tooth}</span>
+            {(onEdit || onDelete) && (
+                <div className="flex gap-1">
+                    {onEdit && (
+                        <button onClick={onEdit} title="Editar" className="p-1.5 text-gray-400 hover:text-sky-600 rounded-lg">
+                            <Edit size={16} />
+                        </button>
+                    )}
+                    {onDelete && (
+                        <button onClick={onDelete} title="Excluir" className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg">
+                            <Trash2 size={16} />
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+
+        {(record.pulpalDiagnosis || record.periapicalDiagnosis) && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {record.pulpalDiagnosis && (
+                    <Field label="Diagnóstico pulpar">{PULPAL_DIAGNOSIS_LABELS[record.pulpalDiagnosis]}</Field>
+                )}
+                {record.periapicalDiagnosis && (
+                    <Field label="Diagnóstico periapical">{PERIAPICAL_DIAGNOSIS_LABELS[record.periapicalDiagnosis]}</Field>
+                )}
+            </div>
+        )}
+
+        {record.canals.length > 0 && (
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs text-slate-500 dark:text-gray-400 uppercase">
+                            <th className="py-1 pr-3 font-semibold">Canal</th>
+                            <th className="py-1 pr-3 font-semibold">CT (mm)</th>
+                            <th className="py-1 pr-3 font-semibold">Lima apical</th>
+                            <th className="py-1 font-semibold">Referência</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-800 dark:text-white">
+                        {record.canals.map(canal => (
+                            <tr key={canal.name} className="border-t border-violet-100 dark:border-violet-900/40">
+                                <td className="py-1 pr-3 font-medium">{canal.name}</td>
+                                <td className="py-1 pr-3">{canal.workingLength ?? '—'}</td>
+                                <td className="py-1 pr-3">{canal.apicalSize !== null ? `#${canal.apicalSize}` : '—'}</td>
+                                <td className="py-1">{canal.reference || '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {record.fileSystem && <Field label="Sistema de limas">{record.fileSystem}</Field>}
+            {record.irrigants.length > 0 && <Field label="Irrigantes">{record.irrigants.join(', ')}</Field>}
+            {record.obturationTechnique && <Field label="Obturação">{record.obturationTechnique}</Field>}
+            {record.medications.length > 0 && <Field label="Medicações">{record.medications.join(', ')}</Field>}
+        </div>
+
+        {record.notes && (
+            <p className="text-sm text-slate-700 dark:text-gray-300 whitespace-pre-wrap">{record.notes}</p>
+        )}
+    </div>
+);
+
+export default EndodonticRecordCard;
@@ -0,0 +1,224 @@
+import React, { FormEvent } from 'react';
+import { Plus, X } from 'lucide-react';
+import Button from '../UI/Button';
+import Input from '../UI/Input';
+import { PULPAL_DIAGNOSES, PERIAPICAL_DIAGNOSES } from '../../domain/entities/EndodonticRecord';
+import type { PulpalDiagnosis, PeriapicalDiagnosis } from '../../domain/entities/EndodonticRecord';
+import {
+    EndodonticFormState,
+    CanalFormRow,
+    EMPTY_CANAL_ROW,
+    PULPAL_DIAGNOSIS_LABELS,
+    PERIAPICAL_DIAGNOSIS_LABELS
+} from '../../lib/endodontics';
+
+interface EndodonticRecordFormProps {
+    value: EndodonticFormState;
+    onChange: (value: EndodonticFormState) => void;
+    onSubmit: () => void;
+    onCancel: () => void;
+    /** Dentes do atendimento; vazio permite digitar qualquer dente FDI */
+    teethOptions: number[];
+    /** Dente não pode ser alterado ao editar um registro existente */
+    toothLocked?: boolean;
+    saving?: boolean;
+}
+
+const selectClassName = 'w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-sky-200';
+const cellClassName = 'w-full px-2 py-1.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white';
+
+/**
+ * Formulário da ficha endodôntica estruturada (um dente por registro)
+ */
+const EndodonticRecordForm: React.FC<EndodonticRecordFormProps> = ({
+    value,
+    onChange,
+    onSubmit,
+    onCancel,
+    teethOptions,
+    toothLocked = false,
+    saving = false
+}) => {
+    const set = <K extends keyof EndodonticFormState>(field: K, fieldValue: EndodonticFormState[K]) =>
+        onChange({ ...value, [field]: fieldValue });
+
+    const setCanal = (index: number, field: keyof CanalFormRow, fieldValue: string) =>
+        set('canals', value.canals.map((canal, i) => (i === index ? { ...canal, [field]: fieldValue } : canal)));
+
+    const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        onSubmit();
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Dente (FDI)</label>
+                    {teethOptions.length > 0 ? (
+                        <select
+                            required
+                            disabled={toothLocked}
+                            className={selectClassName}
+                            value={value.tooth}
+                            onChange={e => set('tooth', e.target.value)}
+                        >
+                            <option value="">Selecione</option>
+                            {teethOptions.map(tooth => (
+                                <option key={tooth} value={tooth}>{tooth}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <input
+                            required
+                            disabled={toothLocked}
+                            inputMode="numeric"
+                            maxLength={2}
+                            className={selectClassName}
+                            placeholder="Ex.: 36"
+                            value={value.tooth}
+                            onChange={e => set('tooth', e.target.value)}
+                        />
+                    )}
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Diagnóstico pulpar</label>
+                    <select
+                        className={selectClassName}
+                        value={value.pulpalDiagnosis}
+                        onChange={e => set('pulpalDiagnosis', e.target.value as PulpalDiagnosis | '')}
+                    >
+                        <option value="">Não informado</option>
+                        {PULPAL_DIAGNOSES.map(diagnosis => (
+                            <option key={diagnosis} value={diagnosis}>{PULPAL_DIAGNOSIS_LABELS[diagnosis]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Diagnóstico periapical</label>
+                    <select
+                        className={selectClassName}
+                        value={value.periapicalDiagnosis}
+                        onChange={e => set('periapicalDiagnosis', e.target.value as PeriapicalDiagnosis | '')}
+                    >
+                        <option value="">Não informado</option>
+                        {PERIAPICAL_DIAGNOSES.map(diagnosis => (
+                            <option key={diagnosis} value={diagnosis}>{PERIAPICAL_DIAGNOSIS_LABELS[diagnosis]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div>
+                <p className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Canais</p>
+                <div className="space-y-2">
+                    <div className="grid grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span>Canal</span>
+                        <span>CT (mm)</span>
+                        <span>Lima apical</span>
+                        <span>Referência</span>
+                        <span className="w-7" />
+                    </div>
+                    {value.canals.map((canal, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2 items-center">
+                            <input
+                                className={cellClassName}
+                                placeholder="MV"
+                                maxLength={10}
+                                value={canal.name}
+                                onChange={e => setCanal(index, 'name', e.target.value)}
+                            />
+                            <input
+                                className={cellClassName}
+                                inputMode="decimal"
+                                placeholder="21"
+                                value={canal.workingLength}
+                                onChange={e => setCanal(index, 'workingLength', e.target.value)}
+                            />
+                            <input
+                                className={cellClassName}
+                                inputMode="numeric"
+                                placeholder="35"
+                                value={canal.apicalSize}
+                                onChange={e => setCanal(index, 'apicalSize', e.target.value)}
+                            />
+                            <input
+                                className={cellClassName}
+                                placeholder="Cúspide MV"
+                                maxLength={50}
+                                value={canal.reference}
+                                onChange={e => setCanal(index, 'reference', e.target.value)}
+                            />
+                            <button
+                                type="button"
+                                title="Remover canal"
+                                className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg"
+                                onClick={() => set('canals', value.canals.filter((_, i) => i !== index))}
+                            >
+                                <X size={16} />
+                            </button>
+                        </div>
+                    ))}
+                    {value.canals.length < 8 && (
+                        <button
+                            type="button"
+                            className="flex items-center gap-1 text-sm text-sky-600 hover:text-sky-700"
+                            onClick={() => set('canals', [...value.canals, { ...EMPTY_CANAL_ROW }])}
+                        >
+                            <Plus size={14} />
+                            Adicionar canal
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-3">
+                <Input
+                    label="Sistema de limas"
+                    placeholder="Ex.: ProTaper Next"
+                    maxLength={100}
+                    value={value.fileSystem}
+                    onChange={e => set('fileSystem', e.target.value)}
+                />
+                <Input
+                    label="Técnica de obturação"
+                    placeholder="Ex.: Condensação lateral"
+                    maxLength={100}
+                    value={value.obturationTechnique}
+                    onChange={e => set('obturationTechnique', e.target.value)}
+                />
+                <Input
+                    label="Irrigantes (separados por vírgula)"
+                    placeholder="Ex.: NaOCl 2,5%; EDTA 17%"
+                    value={value.irrigants}
+                    onChange={e => set('irrigants', e.target.value)}
+                />
+                <Input
+                    label="Medicações (separadas por vírgula)"
+                    placeholder="Ex.: Hidróxido de cálcio"
+                    value={value.medications}
+                    onChange={e => set('medications', e.target.value)}
+                />
+            </div>
+
+            <div>
+                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Observações</label>
+                <textarea
+                    rows={3}
+                    maxLength={10000}
+                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-sky-200"
+                    placeholder="Texto livre para o que não couber nos campos acima"
+                    value={value.notes}
+                    onChange={e => set('notes', e.target.value)}
+                />
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <Button type="button" variant="secondary" onClick={onCancel}>Cancelar</Button>
+                <Button type="submit" disabled={saving}>{saving ? 'Salvando...' : 'Salvar ficha'}</Button>
+            </div>
+        </form>
+    );
+};
+
+export default EndodonticRecordForm;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { cn } from '../../lib/utils';
+import { Dentition } from '../../domain/value-objects/ToothNumber';
+import { ODONTOGRAM_LAYOUT } from '../../lib/teeth';
+
+interface OdontogramProps {
+    dentition: Dentition;
+    selectedTooth: number | null;
+    onSelect: (tooth: number | null) => void;
+    /** Quantidade de registros por dente (destaca dentes com histórico) */
+    history: Map<number, number>;
+}
+
+interface ToothButtonProps {
+    tooth: number;
+    count: number;
+    selected: boolean;
+    onClick: () => void;
+}
+
+const ToothButton: React.FC<ToothButtonProps> = ({ tooth, count, selected, onClick }) => (
+    <button
+        type="button"
+        onClick={onClick}
+        title={count > 0 ? `Dente ${tooth} • ${count} registro(s)` : `Dente ${tooth}`}
+        className={cn(
+            'relative flex flex-col items-center justify-center w-8 h-11 sm:w-9 sm:h-12 rounded-lg border text-xs font-semibold transition-all',
+            selected
+                ? 'bg-sky-500 border-sky-600 text-white shadow-md'
+                : count > 0
+                    ? 'bg-amber-50 border-amber-300 text-amber-800 hover:border-amber-400 dark:bg-amber-900/20 dark:text-amber-300'
+                    : 'bg-white border-gray-200 text-slate-600 hover:border-sky-300 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300'
+        )}
+    >
+        {tooth}
+        {count > 0 && (
+            <span className={cn(
+                'absolute -top-1.5 -right-1.5 min-w-[16px] h-4 px-1 rounded-full text-[10px] leading-4',
+                selected ? 'bg-white text-sky-600' : 'bg-amber-500 text-white'
+            )}>
+                {count}
+            </span>
+        )}
+    </button>
+);
+
+/**
+ * Odontograma interativo (notação FDI)
+ * Clicar em um dente seleciona; clicar novamente remove a seleção
+ */
+const Odontogram: React.FC<OdontogramProps> = ({ dentition, selectedTooth, onSelect, history }) => {
+    const layout = ODONTOGRAM_LAYOUT[dentition];
+
+    const renderArch = (teeth: number[]) => {
+        const half = teeth.length / 2;
+        return (
+            <div className="flex justify-center gap-3 sm:gap-4">
+                {[teeth.slice(0, half), teeth.slice(half)].map((side, index) => (
+                    <div key={index} className="flex gap-1">
+                        {side.map(tooth => (
+                            <ToothButton
+                                key={tooth}
+                                tooth={tooth}
+                                count={history.get(tooth) || 0}
+                                selected={selectedTooth === tooth}
+                                onClick={() => onSelect(selectedTooth === tooth ? null : tooth)}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="overflow-x-auto">
+            <div className="min-w-max space-y-3 py-2">
+                {renderArch(layout.upper)}
+                <div className="border-t border-dashed border-gray-300 dark:border-gray-600" />
+                {renderArch(layout.lower)}
+            </div>
+        </div>
+    );
+};
+
+export default Odontogram;
@@ -1,6 +1,6 @@
 import React, { useState, ReactNode } from 'react';
 import { NavLink, Outlet, useLocation, useNavigate } from 'react-router-dom';
-import { LayoutDashboard, Calendar, Users, Building2, BarChart3, User, LogOut, Menu, X, LucideIcon, Loader2 } from 'lucide-react';
+import { LayoutDashboard, Calendar, CalendarDays, Users, Building2, BarChart3, HandCoins, User, LogOut, Menu, X, LucideIcon, Loader2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../../context/AuthContext';
 import { useLanguage } from '../../context/LanguageContext';
@@ -52,7 +52,9 @@ const MainLayout: React.FC = () => {
                     <nav className="flex-1 p-4 space-y-1 overflow-y-auto custom-scrollbar dark:scrollbar-thumb-gray-600">
                         <NavItem to="/" icon={<LayoutDashboard size={20} />} label={t('nav.dashboard')} />
                         <NavItem to="/appointments" icon={<Calendar size={20} />} label={t('nav.appointments')} />
+                        <NavItem to="/calendar" icon={<CalendarDays size={20} />} label={t('nav.calendar')} />
                         <NavItem to="/reports" icon={<BarChart3 size={20} />} label={t('nav.reports')} />
+                        <NavItem to="/receivables" icon={<HandCoins size={20} />} label={t('nav.receivables')} />
                         <NavItem to="/clinics" icon={<Building2 size={20} />} label={t('nav.clinics')} />
                         <NavItem to="/patients" icon={<Users size={20} />} label={t('nav.patients')} />
                     </nav>
@@ -118,7 +120,9 @@ const MainLayout: React.FC = () => {
                         <div className="glass-panel dark:bg-gray-800/90 dark:border-gray-700 rounded-2xl p-4 space-y-2" onClick={e => e.stopPropagation()}>
                             <NavItem to="/" icon={<LayoutDashboard size={20} />} label={t('nav.dashboard')} onClick={toggleMobileMenu} />
                             <NavItem to="/appointments" icon={<Calendar size={20} />} label={t('nav.appointments')} onClick={toggleMobileMenu} />
+                            <NavItem to="/calendar" icon={<CalendarDays size={20} />} label={t('nav.calendar')} onClick={toggleMobileMenu} />
                             <NavItem to="/reports" icon={<BarChart3 size={20} />} label={t('nav.reports')} onClick={toggleMobileMenu} />
+                            <NavItem to="/receivables" icon={<HandCoins size={20} />} label={t('nav.receivables')} onClick={toggleMobileMenu} />
                             <NavItem to="/clinics" icon={<Building2 size={20} />} label={t('nav.clinics')} onClick={toggleMobileMenu} />
                             <NavItem to="/patients" icon={<Users size={20} />} label={t('nav.patients')} onClick={toggleMobileMenu} />
                             <div className="h-px bg-slate-100 dark:bg-gray-700 my-2"></div>
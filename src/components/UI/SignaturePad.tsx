@@ -0,0 +1,128 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+interface SignaturePadProps {
+    /** Recebe a assinatura em data URL PNG, ou null quando apagada */
+    onChange: (dataUrl: string | null) => void;
+    height?: number;
+    placeholder?: string;
+    clearLabel?: string;
+    className?: string;
+}
+
+/**
+ * Área de assinatura para tela sensível ao toque, caneta ou mouse (canvas + pointer events)
+ * ✅ Fundo branco para que a imagem fique legível no PDF
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({
+    onChange,
+    height = 180,
+    placeholder = 'Assine aqui',
+    clearLabel = 'Limpar',
+    className
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const drawingRef = useRef(false);
+    const [isEmpty, setIsEmpty] = useState(true);
+
+    const resetCanvas = useCallback(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.offsetWidth * ratio;
+        canvas.height = height * ratio;
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.offsetWidth, height);
+        context.lineWidth = 2.5;
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.strokeStyle = '#0f172a';
+    }, [height]);
+
+    useEffect(() => {
+        resetCanvas();
+    }, [resetCanvas]);
+
+    const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const context = e.currentTarget.getContext('2d');
+        if (!context) return;
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drawingRef.current = true;
+
+        const { x, y } = pointFrom(e);
+        context.beginPath();
+        context.moveTo(x, y);
+        // Um toque sem movimento também deixa um ponto
+        context.lineTo(x + 0.1, y + 0.1);
+        context.stroke();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!drawingRef.current) return;
+        const context = e.currentTarget.getContext('2d');
+        if (!context) return;
+
+        const { x, y } = pointFrom(e);
+        context.lineTo(x, y);
+        context.stroke();
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!drawingRef.current) return;
+        drawingRef.current = false;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        setIsEmpty(false);
+        onChange(e.currentTarget.toDataURL('image/png'));
+    };
+
+    const handleClear = () => {
+        resetCanvas();
+        setIsEmpty(true);
+        onChange(null);
+    };
+
+    return (
+        <div className={cn('space-y-2', className)}>
+            <div className="relative rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 overflow-hidden">
+                <canvas
+                    ref={canvasRef}
+                    className="block w-full bg-white cursor-crosshair touch-none"
+                    style={{ height }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+                {isEmpty && (
+                    <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+                        {placeholder}
+                    </span>
+                )}
+            </div>
+            <div className="flex justify-end">
+                <button
+                    type="button"
+                    onClick={handleClear}
+                    className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                    <Eraser size={14} />
+                    {clearLabel}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SignaturePad;
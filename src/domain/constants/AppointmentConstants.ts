@@ -1,6 +1,7 @@
 import { Currency } from '../value-objects/Money';
 import { PaymentTypeValue } from '../value-objects/PaymentType';
 import { AppointmentStatusValue } from '../value-objects/AppointmentStatus';
+import { ClinicalStatusValue } from '../value-objects/ClinicalStatus';
 
 /**
  * Constantes relacionadas a agendamentos
@@ -12,6 +13,39 @@ export const AppointmentConstants = {
     /** Tamanho máximo do campo de notas */
     MAX_NOTES_LENGTH: 5000,
     
+    /** Duração padrão de um agendamento (minutos) */
+    DEFAULT_DURATION_MINUTES: 60,
+    
+    /** Duração mínima de um agendamento (minutos) */
+    MIN_DURATION_MINUTES: 5,
+    
+    /** Duração máxima de um agendamento (minutos) */
+    MAX_DURATION_MINUTES: 720,
+    
+    /** Tempo mínimo de deslocamento entre clínicas diferentes no mesmo dia (minutos) */
+    MIN_TRAVEL_MINUTES_BETWEEN_CLINICS: 30,
+    
+    /** Número máximo de agendamentos gerados em uma série (recorrência ou retornos) */
+    MAX_SERIES_OCCURRENCES: 52,
+    
+    /** Retornos sugeridos após um tratamento concluído (meses) */
+    DEFAULT_FOLLOW_UP_MONTHS: [6, 12],
+    
+    /** Granularidade dos horários livres sugeridos (minutos) */
+    SLOT_STEP_MINUTES: 15,
+    
+    /** Quantos dias à frente procurar horários livres */
+    FREE_SLOT_SEARCH_DAYS: 30,
+    
+    /** Quantidade padrão de horários livres sugeridos */
+    FREE_SLOT_SUGGESTIONS: 6,
+    
+    /** Antecedência mínima para cancelar quando a clínica não define política (horas) */
+    DEFAULT_CANCELLATION_NOTICE_HOURS: 24,
+    
+    /** Número máximo de parcelas de um agendamento */
+    MAX_INSTALLMENTS: 24,
+    
     /** Moeda padrão */
     DEFAULT_CURRENCY: 'BRL' as Currency,
     
@@ -29,6 +63,16 @@ export const AppointmentConstants = {
     },
     
     /** Status padrão */
-    DEFAULT_STATUS: 'scheduled' as AppointmentStatusValue
+    DEFAULT_STATUS: 'scheduled' as AppointmentStatusValue,
+    
+    /** Status clínicos (ciclo de vida do atendimento) */
+    CLINICAL_STATUS: {
+        SCHEDULED: 'scheduled' as ClinicalStatusValue,
+        CONFIRMED: 'confirmed' as ClinicalStatusValue,
+        IN_PROGRESS: 'in_progress' as ClinicalStatusValue,
+        COMPLETED: 'completed' as ClinicalStatusValue,
+        NO_SHOW: 'no_show' as ClinicalStatusValue,
+        CANCELLED: 'cancelled' as ClinicalStatusValue
+    }
 } as const;
 
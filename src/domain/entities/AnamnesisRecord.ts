@@ -0,0 +1,275 @@
+import { DomainError } from '../errors/AppError';
+import { shiftDate } from '../value-objects/RecurrenceRule';
+import { toISODate } from '../../lib/calendar';
+import {
+    AnamnesisQuestion,
+    AnamnesisQuestionJSON,
+    validateAnamnesisQuestions,
+    questionToJSON,
+    questionFromJSON
+} from './AnamnesisTemplate';
+
+/**
+ * Resposta a uma pergunta da anamnese
+ * value: sim/não nas perguntas boolean; texto nas perguntas livres (null = sem resposta)
+ */
+export interface AnamnesisAnswer {
+    questionId: string;
+    value: boolean | string | null;
+    /** Complemento da resposta (ex.: a qual medicamento é alérgico) */
+    details?: string | null;
+}
+
+/**
+ * Alerta clínico gerado por uma resposta crítica
+ */
+export interface AnamnesisAlert {
+    questionId: string;
+    label: string;
+    details: string | null;
+}
+
+export interface AnamnesisRecordProps {
+    id: string;
+    patientId: string;
+    /** Número da versão da anamnese do paciente (1, 2, 3...) */
+    version: number;
+    /** Cópia das perguntas do questionário no momento do preenchimento */
+    questions: AnamnesisQuestion[];
+    answers?: AnamnesisAnswer[];
+    notes?: string | null;
+    createdAt?: string | Date;
+}
+
+export interface AnamnesisRecordJSON {
+    id: string;
+    patient_id: string;
+    version: number;
+    questions: AnamnesisQuestionJSON[];
+    answers: AnamnesisAnswerJSON[];
+    notes: string | null;
+    created_at: string;
+}
+
+export interface AnamnesisAnswerJSON {
+    question_id: string;
+    value: boolean | string | null;
+    details?: string | null;
+}
+
+const cleanText = (value: string | null | undefined): string | null => {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+};
+
+const toAnswer = (answer: AnamnesisAnswer): AnamnesisAnswer => ({
+    questionId: answer.questionId,
+    value: typeof answer.value === 'string' ? cleanText(answer.value) : answer.value ?? null,
+    details: cleanText(answer.details)
+});
+
+/**
+ * Entidade de Domínio: AnamnesisRecord
+ * Versão da anamnese (histórico médico) de um paciente.
+ * ✅ Imutável: cada revisão gera uma nova versão, preservando as anteriores
+ */
+export class AnamnesisRecord {
+    private readonly _id: string;
+    private readonly _patientId: string;
+    private readonly _version: number;
+    private readonly _questions: AnamnesisQuestion[];
+    private readonly _answers: AnamnesisAnswer[];
+    private readonly _notes: string | null;
+    private readonly _createdAt: Date;
+
+    /**
+     * Cria uma instância de AnamnesisRecord
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        patientId,
+        version,
+        questions,
+        answers = [],
+        notes = null,
+        createdAt
+    }: AnamnesisRecordProps) {
+        this._id = id;
+        this._patientId = patientId;
+        this._version = version;
+        this._questions = questions.map(question => ({ ...question }));
+        this._answers = answers.map(toAnswer);
+        this._notes = cleanText(notes);
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._patientId) {
+            throw new DomainError('Paciente é obrigatório');
+        }
+        if (!Number.isInteger(this._version) || this._version < 1) {
+            throw new DomainError('Versão da anamnese inválida');
+        }
+        validateAnamnesisQuestions(this._questions);
+
+        const answered = new Set<string>();
+        for (const answer of this._answers) {
+            const question = this._questions.find(q => q.id === answer.questionId);
+            if (!question) {
+                throw new DomainError(`Resposta para pergunta inexistente: ${answer.questionId}`);
+            }
+            if (answered.has(answer.questionId)) {
+                throw new DomainError(`Pergunta respondida mais de uma vez: ${question.label}`);
+            }
+            answered.add(answer.questionId);
+
+            if (answer.value !== null && typeof answer.value !== (question.type === 'boolean' ? 'boolean' : 'string')) {
+                throw new DomainError(`Resposta inválida para: ${question.label}`);
+            }
+        }
+
+        // Perguntas de sim/não precisam de resposta: "não sei" não serve para liberar o procedimento
+        const unanswered = this._questions.find(question =>
+            question.type === 'boolean' && typeof this.answerFor(question.id)?.value !== 'boolean'
+        );
+        if (unanswered) {
+            throw new DomainError(`Responda à pergunta: ${unanswered.label}`);
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get patientId(): string {
+        return this._patientId;
+    }
+
+    get version(): number {
+        return this._version;
+    }
+
+    get questions(): AnamnesisQuestion[] {
+        return this._questions.map(question => ({ ...question }));
+    }
+
+    get answers(): AnamnesisAnswer[] {
+        return this._answers.map(answer => ({ ...answer }));
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    /**
+     * Data local em que a anamnese foi preenchida/revisada (YYYY-MM-DD)
+     */
+    get reviewedOn(): string {
+        return toISODate(this._createdAt);
+    }
+
+    /**
+     * Resposta dada a uma pergunta (undefined se não respondida)
+     */
+    answerFor(questionId: string): AnamnesisAnswer | undefined {
+        const answer = this._answers.find(a => a.questionId === questionId);
+        return answer ? { ...answer } : undefined;
+    }
+
+    /**
+     * Alertas das respostas críticas: "sim" nas perguntas de sim/não ou texto preenchido nas livres
+     */
+    get alerts(): AnamnesisAlert[] {
+        return this._questions
+            .filter(question => question.critical)
+            .flatMap(question => {
+                const answer = this.answerFor(question.id);
+                if (!answer || answer.value === null || answer.value === false) return [];
+                return [{
+                    questionId: question.id,
+                    label: question.alertLabel || question.label,
+                    details: typeof answer.value === 'string' ? answer.value : answer.details ?? null
+                }];
+            });
+    }
+
+    get hasAlerts(): boolean {
+        return this.alerts.length > 0;
+    }
+
+    /**
+     * Data a partir da qual a anamnese deve ser revisada
+     * @param intervalMonths - Prazo de revisão (configurado no questionário)
+     */
+    nextReviewDate(intervalMonths: number): string {
+        return shiftDate(this.reviewedOn, intervalMonths, 'months');
+    }
+
+    /**
+     * Indica se o prazo de revisão já venceu na data de referência (YYYY-MM-DD)
+     */
+    isReviewDue(intervalMonths: number, referenceDate: string): boolean {
+        return referenceDate >= this.nextReviewDate(intervalMonths);
+    }
+
+    /**
+     * Factory method para criar AnamnesisRecord
+     */
+    static create(data: Omit<AnamnesisRecordProps, 'id'> & { id?: string }): AnamnesisRecord {
+        return new AnamnesisRecord({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): AnamnesisRecordJSON {
+        return {
+            id: this._id,
+            patient_id: this._patientId,
+            version: this._version,
+            questions: this._questions.map(questionToJSON),
+            answers: this._answers.map(answer => ({
+                question_id: answer.questionId,
+                value: answer.value,
+                details: answer.details ?? null
+            })),
+            notes: this._notes,
+            created_at: this._createdAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: AnamnesisRecordJSON): AnamnesisRecord {
+        return new AnamnesisRecord({
+            id: json.id,
+            patientId: json.patient_id,
+            version: Number(json.version),
+            questions: (json.questions || []).map(questionFromJSON),
+            answers: (json.answers || []).map(answer => ({
+                questionId: answer.question_id,
+                value: answer.value,
+                details: answer.details ?? null
+            })),
+            notes: json.notes,
+            createdAt: json.created_at
+        });
+    }
+}
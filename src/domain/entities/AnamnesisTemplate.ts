@@ -0,0 +1,249 @@
+import { DomainError } from '../errors/AppError';
+
+export const ANAMNESIS_QUESTION_TYPES = ['boolean', 'text'] as const;
+export type AnamnesisQuestionType = typeof ANAMNESIS_QUESTION_TYPES[number];
+
+/**
+ * Pergunta do questionário de anamnese
+ * - boolean: sim/não, com detalhes opcionais ("Qual?")
+ * - text: resposta livre
+ */
+export interface AnamnesisQuestion {
+    /** Identificador estável (as respostas referenciam a pergunta por ele) */
+    id: string;
+    label: string;
+    type: AnamnesisQuestionType;
+    /** Resposta "sim" (ou texto preenchido) gera alerta clínico */
+    critical: boolean;
+    /** Texto curto do alerta; padrão: o enunciado da pergunta */
+    alertLabel?: string | null;
+}
+
+export const REVIEW_INTERVAL_MIN_MONTHS = 1;
+export const REVIEW_INTERVAL_MAX_MONTHS = 60;
+export const DEFAULT_REVIEW_INTERVAL_MONTHS = 6;
+export const MAX_ANAMNESIS_QUESTIONS = 50;
+
+/**
+ * Questionário padrão, usado enquanto o profissional não configura o seu
+ * ✅ Cobre o que muda a conduta em endodontia: alergias, anestésicos,
+ * anticoagulantes, bisfosfonatos, condições sistêmicas e gestação
+ */
+export const DEFAULT_ANAMNESIS_QUESTIONS: AnamnesisQuestion[] = [
+    { id: 'allergies', label: 'Possui alergia a medicamentos, látex ou outras substâncias?', type: 'boolean', critical: true, alertLabel: 'Alergia' },
+    { id: 'anesthetic_reaction', label: 'Já teve reação a anestesia local?', type: 'boolean', critical: true, alertLabel: 'Reação a anestésico' },
+    { id: 'anticoagulants', label: 'Usa anticoagulante ou antiagregante (varfarina, rivaroxabana, AAS, clopidogrel)?', type: 'boolean', critical: true, alertLabel: 'Anticoagulante' },
+    { id: 'bisphosphonates', label: 'Usa ou já usou bisfosfonato (alendronato, risedronato, ácido zoledrônico)?', type: 'boolean', critical: true, alertLabel: 'Bisfosfonato' },
+    { id: 'heart_disease', label: 'Possui doença cardíaca, marca-passo ou prótese valvar?', type: 'boolean', critical: true, alertLabel: 'Cardiopatia' },
+    { id: 'hypertension', label: 'Tem hipertensão arterial?', type: 'boolean', critical: true, alertLabel: 'Hipertensão' },
+    { id: 'diabetes', label: 'Tem diabetes?', type: 'boolean', critical: true, alertLabel: 'Diabetes' },
+    { id: 'pregnancy', label: 'Está grávida ou amamentando?', type: 'boolean', critical: true, alertLabel: 'Gestante/lactante' },
+    { id: 'medications', label: 'Medicamentos em uso', type: 'text', critical: false },
+    { id: 'other_conditions', label: 'Outras condições sistêmicas ou cirurgias', type: 'text', critical: false }
+];
+
+export interface AnamnesisTemplateProps {
+    id: string;
+    questions?: AnamnesisQuestion[];
+    /** Meses até o paciente precisar revisar a anamnese */
+    reviewIntervalMonths?: number;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface AnamnesisTemplateJSON {
+    id: string;
+    questions: AnamnesisQuestionJSON[];
+    review_interval_months: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface AnamnesisQuestionJSON {
+    id: string;
+    label: string;
+    type: AnamnesisQuestionType;
+    critical: boolean;
+    alert_label?: string | null;
+}
+
+const cleanText = (value: string | null | undefined): string | null => {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+};
+
+const toQuestion = (question: AnamnesisQuestion): AnamnesisQuestion => ({
+    id: question.id.trim(),
+    label: question.label.trim(),
+    type: question.type,
+    critical: !!question.critical,
+    alertLabel: cleanText(question.alertLabel)
+});
+
+/**
+ * Valida um conjunto de perguntas (modelo ou cópia guardada numa anamnese)
+ * @throws {DomainError} Se houver pergunta inválida ou repetida
+ */
+export function validateAnamnesisQuestions(questions: AnamnesisQuestion[]): void {
+    if (questions.length === 0) {
+        throw new DomainError('O questionário de anamnese precisa de ao menos uma pergunta');
+    }
+    if (questions.length > MAX_ANAMNESIS_QUESTIONS) {
+        throw new DomainError(`O questionário de anamnese aceita no máximo ${MAX_ANAMNESIS_QUESTIONS} perguntas`);
+    }
+
+    const ids = new Set<string>();
+    for (const question of questions) {
+        if (!question.id) {
+            throw new DomainError('Identificador da pergunta é obrigatório');
+        }
+        if (ids.has(question.id)) {
+            throw new DomainError(`Pergunta duplicada: ${question.id}`);
+        }
+        ids.add(question.id);
+
+        if (!question.label) {
+            throw new DomainError('Enunciado da pergunta é obrigatório');
+        }
+        if (!ANAMNESIS_QUESTION_TYPES.includes(question.type)) {
+            throw new DomainError(`Tipo de pergunta inválido: ${question.type}`);
+        }
+    }
+}
+
+export const questionToJSON = (question: AnamnesisQuestion): AnamnesisQuestionJSON => ({
+    id: question.id,
+    label: question.label,
+    type: question.type,
+    critical: question.critical,
+    alert_label: question.alertLabel ?? null
+});
+
+export const questionFromJSON = (json: AnamnesisQuestionJSON): AnamnesisQuestion => ({
+    id: json.id,
+    label: json.label,
+    type: json.type,
+    critical: !!json.critical,
+    alertLabel: json.alert_label ?? null
+});
+
+/**
+ * Entidade de Domínio: AnamnesisTemplate
+ * Questionário de anamnese configurado pelo profissional e prazo de revisão.
+ * ✅ Cada anamnese preenchida guarda uma cópia das perguntas, então alterar
+ * o modelo não muda o que o paciente já respondeu
+ */
+export class AnamnesisTemplate {
+    private readonly _id: string;
+    private _questions: AnamnesisQuestion[];
+    private _reviewIntervalMonths: number;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de AnamnesisTemplate
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        questions = DEFAULT_ANAMNESIS_QUESTIONS,
+        reviewIntervalMonths = DEFAULT_REVIEW_INTERVAL_MONTHS,
+        createdAt,
+        updatedAt
+    }: AnamnesisTemplateProps) {
+        this._id = id;
+        this._questions = questions.map(toQuestion);
+        this._reviewIntervalMonths = reviewIntervalMonths;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        validateAnamnesisQuestions(this._questions);
+
+        if (!Number.isInteger(this._reviewIntervalMonths) ||
+            this._reviewIntervalMonths < REVIEW_INTERVAL_MIN_MONTHS ||
+            this._reviewIntervalMonths > REVIEW_INTERVAL_MAX_MONTHS) {
+            throw new DomainError(
+                `Prazo de revisão da anamnese deve ser entre ${REVIEW_INTERVAL_MIN_MONTHS} e ${REVIEW_INTERVAL_MAX_MONTHS} meses`
+            );
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get questions(): AnamnesisQuestion[] {
+        return this._questions.map(question => ({ ...question }));
+    }
+
+    get reviewIntervalMonths(): number {
+        return this._reviewIntervalMonths;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Substitui as perguntas e/ou o prazo de revisão
+     * @throws {DomainError} Se os novos valores forem inválidos
+     */
+    update(data: Partial<Pick<AnamnesisTemplateProps, 'questions' | 'reviewIntervalMonths'>>): void {
+        if (data.questions !== undefined) this._questions = data.questions.map(toQuestion);
+        if (data.reviewIntervalMonths !== undefined) this._reviewIntervalMonths = data.reviewIntervalMonths;
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar AnamnesisTemplate (sem perguntas = questionário padrão)
+     */
+    static create(data: Omit<AnamnesisTemplateProps, 'id'> & { id?: string } = {}): AnamnesisTemplate {
+        return new AnamnesisTemplate({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): AnamnesisTemplateJSON {
+        return {
+            id: this._id,
+            questions: this._questions.map(questionToJSON),
+            review_interval_months: this._reviewIntervalMonths,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: AnamnesisTemplateJSON): AnamnesisTemplate {
+        return new AnamnesisTemplate({
+            id: json.id,
+            questions: (json.questions || []).map(questionFromJSON),
+            reviewIntervalMonths: Number(json.review_interval_months ?? DEFAULT_REVIEW_INTERVAL_MONTHS),
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
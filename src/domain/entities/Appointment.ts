@@ -2,8 +2,31 @@ import { Time } from '../value-objects/Time';
 import { Money, Currency } from '../value-objects/Money';
 import { Procedure } from '../value-objects/Procedure';
 import { PaymentType, PaymentTypeValue } from '../value-objects/PaymentType';
-import { AppointmentStatus, AppointmentStatusValue } from '../value-objects/AppointmentStatus';
+import { AppointmentStatus, AppointmentStatusValue, PaymentStatusValue } from '../value-objects/AppointmentStatus';
+import { ClinicalStatus, ClinicalStatusValue } from '../value-objects/ClinicalStatus';
+import { ToothNumber } from '../value-objects/ToothNumber';
+import { CancellationPolicy } from '../value-objects/CancellationPolicy';
 import { DomainError } from '../errors/AppError';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
+import { CommissionRule } from './CommissionRule';
+
+/**
+ * Quem pediu o cancelamento
+ */
+export type CancellationActor = 'patient' | 'professional' | 'clinic';
+
+export const CANCELLATION_ACTORS: CancellationActor[] = ['patient', 'professional', 'clinic'];
+
+/**
+ * Dados do cancelamento; a política vem da clínica do agendamento
+ */
+export interface CancellationDetails {
+    reason?: string | null;
+    cancelledBy?: CancellationActor | null;
+    policy?: CancellationPolicy;
+    /** Momento do cancelamento (padrão: agora) */
+    at?: Date;
+}
 
 export interface AppointmentProps {
     id: string;
@@ -11,16 +34,33 @@ export interface AppointmentProps {
     clinicId: string;
     date: string | Date;
     time: string;
+    durationMinutes?: number;
     procedure: string;
+    teeth?: number[];
     value: number;
     currency?: Currency;
     paymentType?: PaymentTypeValue;
     paymentPercentage?: number | null;
+    /** Valor fixo recebido por atendimento (paymentType = 'fixed') */
+    paymentFixedAmount?: number | null;
+    /** Regra de comissão aplicada na criação; null quando os valores foram digitados */
+    commissionRuleId?: string | null;
     isPaid?: boolean;
     paymentDate?: string | Date | null;
+    /** Soma dos pagamentos registrados (pagamentos parciais e parcelas pagas) */
+    amountPaid?: number;
     status?: AppointmentStatusValue;
+    clinicalStatus?: ClinicalStatusValue;
     clinicalEvolution?: string | null;
     notes?: string | null;
+    seriesId?: string | null;
+    cancellationReason?: string | null;
+    cancelledBy?: CancellationActor | null;
+    cancelledAt?: string | Date | null;
+    lateCancellation?: boolean;
+    cancellationFee?: number | null;
+    /** Demonstrativo de repasse em que o atendimento foi incluído */
+    settlementId?: string | null;
     createdAt?: string | Date;
     updatedAt?: string | Date;
 }
@@ -31,16 +71,29 @@ export interface AppointmentJSON {
     clinic_id: string;
     date: string;
     time: string;
+    duration_minutes: number;
     procedure: string;
+    teeth: number[];
     value: number;
     currency: Currency;
     payment_type: PaymentTypeValue;
     payment_percentage: number | null;
+    payment_fixed_amount: number | null;
+    commission_rule_id: string | null;
     is_paid: boolean;
     payment_date: string | null;
+    amount_paid: number;
     status: AppointmentStatusValue;
+    clinical_status: ClinicalStatusValue;
     clinical_evolution: string | null;
     notes: string | null;
+    series_id: string | null;
+    cancellation_reason: string | null;
+    cancelled_by: CancellationActor | null;
+    cancelled_at: string | null;
+    late_cancellation: boolean;
+    cancellation_fee: number | null;
+    settlement_id: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -54,14 +107,26 @@ export class Appointment {
     private _clinicId: string; // ✅ Mutável para permitir atualização
     private _date: Date; // ✅ Mutável para permitir atualização
     private _time: Time; // ✅ Mutável para permitir atualização
+    private _durationMinutes: number; // ✅ Mutável para permitir atualização
     private _procedure: Procedure; // ✅ Mutável para permitir atualização
+    private _teeth: ToothNumber[]; // Dentes tratados (FDI)
     private _value: Money; // ✅ Mutável para permitir atualização
     private _paymentType: PaymentType; // ✅ Mutável para permitir atualização
+    private _commissionRuleId: string | null; // Regra de comissão vigente na criação
     private _isPaid: boolean;
     private _paymentDate: Date | null;
+    private _amountPaid: number; // Soma dos pagamentos registrados
     private _status: AppointmentStatus;
+    private _clinicalStatus: ClinicalStatus;
     private _clinicalEvolution: string | null; // ✅ Mutável para permitir atualização
     private _notes: string | null; // ✅ Mutável para permitir atualização
+    private _seriesId: string | null; // Série (recorrência ou retornos) gerada em conjunto
+    private _cancellationReason: string | null;
+    private _cancelledBy: CancellationActor | null;
+    private _cancelledAt: Date | null;
+    private _lateCancellation: boolean; // Cancelado com menos antecedência que a política exige
+    private _cancellationFee: number | null; // Taxa de cancelamento tardio devida pelo paciente
+    private _settlementId: string | null; // Repasse emitido: dados financeiros ficam bloqueados
     private readonly _createdAt: Date;
     private _updatedAt: Date;
 
@@ -74,16 +139,29 @@ export class Appointment {
         clinicId,
         date,
         time,
+        durationMinutes = AppointmentConstants.DEFAULT_DURATION_MINUTES,
         procedure,
+        teeth = [],
         value,
         currency = 'BRL',
         paymentType = '100',
         paymentPercentage = null,
+        paymentFixedAmount = null,
+        commissionRuleId = null,
         isPaid = false,
         paymentDate = null,
+        amountPaid = 0,
         status = 'scheduled',
+        clinicalStatus,
         clinicalEvolution = null,
         notes = null,
+        seriesId = null,
+        cancellationReason = null,
+        cancelledBy = null,
+        cancelledAt = null,
+        lateCancellation = false,
+        cancellationFee = null,
+        settlementId = null,
         createdAt,
         updatedAt
     }: AppointmentProps) {
@@ -93,15 +171,30 @@ export class Appointment {
         // ✅ Corrigir problema de timezone: quando date é string 'YYYY-MM-DD', criar Date no timezone local
         this._date = this.parseDate(date);
         this._time = Time.create(time)!;
+        this._durationMinutes = durationMinutes;
         this._procedure = Procedure.create(procedure);
+        this._teeth = ToothNumber.createList(teeth);
         this._value = Money.create(value, currency);
-        this._paymentType = PaymentType.create(paymentType, paymentPercentage);
+        this._paymentType = PaymentType.create(paymentType, paymentPercentage, paymentFixedAmount);
+        this._commissionRuleId = commissionRuleId;
         this._isPaid = isPaid;
         // ✅ Corrigir problema de timezone para paymentDate também
         this._paymentDate = paymentDate ? this.parseDate(paymentDate) : null;
+        this._amountPaid = amountPaid;
         this._status = AppointmentStatus.create(status, isPaid);
+        // Registros antigos guardavam o cancelamento no status de pagamento
+        this._clinicalStatus = ClinicalStatus.create(
+            clinicalStatus ?? (status === 'cancelled' ? 'cancelled' : 'scheduled')
+        );
         this._clinicalEvolution = clinicalEvolution;
         this._notes = notes;
+        this._seriesId = seriesId;
+        this._cancellationReason = cancellationReason;
+        this._cancelledBy = cancelledBy;
+        this._cancelledAt = cancelledAt ? new Date(cancelledAt) : null;
+        this._lateCancellation = lateCancellation;
+        this._cancellationFee = cancellationFee;
+        this._settlementId = settlementId;
         this._createdAt = createdAt ? new Date(createdAt) : new Date();
         this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
         
@@ -140,6 +233,15 @@ export class Appointment {
         if (isNaN(this._date.getTime())) {
             throw new DomainError('Data inválida');
         }
+        if (
+            !Number.isInteger(this._durationMinutes) ||
+            this._durationMinutes < AppointmentConstants.MIN_DURATION_MINUTES ||
+            this._durationMinutes > AppointmentConstants.MAX_DURATION_MINUTES
+        ) {
+            throw new DomainError(
+                `Duração deve ser entre ${AppointmentConstants.MIN_DURATION_MINUTES} e ${AppointmentConstants.MAX_DURATION_MINUTES} minutos`
+            );
+        }
         
         // ❌ Removido: validação de "não pode ser no passado"
         // Isso é regra de negócio contextual, não invariante da entidade
@@ -177,6 +279,35 @@ export class Appointment {
     get time(): string {
         return this._time.toString();
     }
+
+    get durationMinutes(): number {
+        return this._durationMinutes;
+    }
+
+    /**
+     * Minutos desde a meia-noite em que o agendamento começa
+     */
+    get startMinutes(): number {
+        return this._time.hours * 60 + this._time.minutes;
+    }
+
+    /**
+     * Minutos desde a meia-noite em que o agendamento termina
+     */
+    get endMinutes(): number {
+        return this.startMinutes + this._durationMinutes;
+    }
+
+    /**
+     * Horário de término no formato HH:mm
+     * Agendamentos que passam da meia-noite são limitados a 23:59
+     */
+    get endTime(): string {
+        const end = Math.min(this.endMinutes, 24 * 60 - 1);
+        const hours = String(Math.floor(end / 60)).padStart(2, '0');
+        const minutes = String(end % 60).padStart(2, '0');
+        return `${hours}:${minutes}`;
+    }
     
     get procedure(): string {
         return this._procedure.toString();
@@ -190,6 +321,10 @@ export class Appointment {
         return this._paymentType;
     }
     
+    get commissionRuleId(): string | null {
+        return this._commissionRuleId;
+    }
+    
     get isPaid(): boolean {
         return this._isPaid;
     }
@@ -209,15 +344,115 @@ export class Appointment {
     get status(): string {
         return this._status.toString();
     }
+
+    /**
+     * Valor já pago pelo paciente
+     * Agendamentos marcados como pagos sem pagamentos registrados contam como quitados
+     */
+    get amountPaid(): number {
+        return this._isPaid ? Math.max(this._amountPaid, this._value.amount) : this._amountPaid;
+    }
+
+    /**
+     * Saldo devedor do agendamento
+     */
+    get remainingBalance(): number {
+        const paid = Money.create(Math.min(this.amountPaid, this._value.amount), this._value.currency);
+        return this._value.subtract(paid).amount;
+    }
+
+    get paymentStatus(): PaymentStatusValue {
+        if (this._isPaid) return 'paid';
+        return this._amountPaid > 0 ? 'partial' : 'pending';
+    }
+
+    get clinicalStatus(): ClinicalStatusValue {
+        return this._clinicalStatus.value;
+    }
+
+    get isCancelled(): boolean {
+        return this._clinicalStatus.isCancelled;
+    }
+
+    /**
+     * Status clínicos para os quais o agendamento pode avançar
+     */
+    get allowedClinicalTransitions(): ClinicalStatusValue[] {
+        return this._clinicalStatus.allowedTransitions();
+    }
     
     get clinicalEvolution(): string | null {
         return this._clinicalEvolution;
     }
     
+    /**
+     * Dentes envolvidos no atendimento (FDI), em ordem crescente
+     */
+    get teeth(): number[] {
+        return this._teeth.map(tooth => tooth.value);
+    }
+    
+    involvesTooth(tooth: number): boolean {
+        return this._teeth.some(item => item.value === tooth);
+    }
+    
     get notes(): string | null {
         return this._notes;
     }
     
+    get seriesId(): string | null {
+        return this._seriesId;
+    }
+    
+    /**
+     * Agendamento ainda pode ser alterado junto com a sua série
+     * (não iniciado, não concluído e não cancelado)
+     */
+    get isPendingInSeries(): boolean {
+        return this._seriesId !== null &&
+            ['scheduled', 'confirmed'].includes(this._clinicalStatus.value);
+    }
+    
+    get cancellationReason(): string | null {
+        return this._cancellationReason;
+    }
+
+    get cancelledBy(): CancellationActor | null {
+        return this._cancelledBy;
+    }
+
+    get cancelledAt(): Date | null {
+        return this._cancelledAt;
+    }
+
+    get isLateCancellation(): boolean {
+        return this._lateCancellation;
+    }
+
+    get cancellationFee(): number | null {
+        return this._cancellationFee;
+    }
+
+    /**
+     * Data e hora de início no fuso local
+     */
+    get startsAt(): Date {
+        const startsAt = new Date(this._date);
+        startsAt.setHours(this._time.hours, this._time.minutes, 0, 0);
+        return startsAt;
+    }
+
+    get settlementId(): string | null {
+        return this._settlementId;
+    }
+
+    /**
+     * Incluído em demonstrativo de repasse: valor, clínica, data e pagamento não podem mudar
+     */
+    get isSettlementLocked(): boolean {
+        return this._settlementId !== null;
+    }
+
     get createdAt(): Date {
         return this._createdAt;
     }
@@ -230,6 +465,7 @@ export class Appointment {
      * Marca o agendamento como pago
      */
     markAsPaid(paymentDate: Date | string = new Date()): void {
+        this.ensureNotSettlementLocked();
         if (this._isPaid) {
             throw new DomainError('Agendamento já está pago');
         }
@@ -241,6 +477,60 @@ export class Appointment {
         this.validateInvariants();
     }
     
+    /**
+     * Atualiza a situação de pagamento a partir dos pagamentos registrados
+     * Quitado quando a soma paga cobre o valor; a data de pagamento passa a ser a do último pagamento
+     */
+    applyPayments(amountPaid: number, lastPaidDate: string | null): void {
+        this.ensureNotSettlementLocked();
+        this._amountPaid = Money.create(amountPaid).amount;
+        const settled = this._value.amount > 0 && this._amountPaid >= this._value.amount;
+        this._isPaid = settled;
+        this._paymentDate = settled ? (lastPaidDate ? this.parseDate(lastPaidDate) : new Date()) : null;
+        if (settled) {
+            this._status = AppointmentStatus.paid();
+        } else {
+            this._status = this.isCancelled ? AppointmentStatus.cancelled() : AppointmentStatus.pending();
+        }
+        this._updatedAt = new Date();
+        this.validateInvariants();
+    }
+    
+    /**
+     * Aplica a regra de comissão da clínica (tipo de pagamento e percentual ou valor fixo)
+     * ✅ O agendamento guarda os valores e a regra usada; novas versões da regra não o alteram
+     */
+    applyCommissionRule(rule: CommissionRule): void {
+        if (rule.clinicId !== this._clinicId) {
+            throw new DomainError('Regra de comissão pertence a outra clínica');
+        }
+        this.ensureNotSettlementLocked();
+        this._paymentType = rule.paymentType;
+        this._commissionRuleId = rule.id;
+        this._updatedAt = new Date();
+    }
+
+    /**
+     * Inclui o atendimento em um demonstrativo de repasse
+     * @throws {DomainError} Se já estiver em outro demonstrativo ou não estiver pago
+     */
+    lockForSettlement(statementId: string): void {
+        if (this._settlementId && this._settlementId !== statementId) {
+            throw new DomainError('Atendimento já incluído em outro repasse');
+        }
+        if (!this._isPaid) {
+            throw new DomainError('Somente atendimentos pagos entram no repasse');
+        }
+        this._settlementId = statementId;
+        this._updatedAt = new Date();
+    }
+
+    private ensureNotSettlementLocked(): void {
+        if (this.isSettlementLocked) {
+            throw new DomainError('Atendimento incluído em repasse emitido não pode ter dados financeiros alterados');
+        }
+    }
+
     /**
      * Calcula o valor recebido baseado no tipo de pagamento
      */
@@ -249,27 +539,85 @@ export class Appointment {
     }
     
     /**
-     * Verifica se o agendamento pode ser cancelado
+     * Verifica se o agendamento pode ser cancelado segundo a política
+     * Fora do prazo, só quando a política aceita exceção com motivo
      */
-    canBeCancelled(): boolean {
-        const now = new Date();
-        const appointmentDateTime = new Date(
-            this._date.toISOString().split('T')[0] + 'T' + this._time.toString()
-        );
-        const hoursUntilAppointment = (appointmentDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-        return hoursUntilAppointment >= 24; // Pode cancelar com 24h de antecedência
+    canBeCancelled(policy: CancellationPolicy = CancellationPolicy.default(), at: Date = new Date()): boolean {
+        return !policy.isLate(this.startsAt, at) || policy.allowLateOverride;
     }
     
     /**
-     * Cancela o agendamento
+     * Cancela o agendamento registrando motivo, quem pediu e se foi tardio
+     * ✅ Taxa de cancelamento tardio só é cobrada quando o paciente pediu o cancelamento
+     * @throws {DomainError} Se fora do prazo sem exceção permitida, ou sem motivo na exceção
+     */
+    cancel({
+        reason = null,
+        cancelledBy = null,
+        policy = CancellationPolicy.default(),
+        at = new Date()
+    }: CancellationDetails = {}): void {
+        const cleanReason = reason?.trim() || null;
+        const late = policy.isLate(this.startsAt, at);
+        if (late && !policy.allowLateOverride) {
+            throw new DomainError(`Não é possível cancelar com menos de ${policy.noticeHours}h de antecedência`);
+        }
+        if (late && !cleanReason) {
+            throw new DomainError(`Informe o motivo para cancelar com menos de ${policy.noticeHours}h de antecedência`);
+        }
+
+        this.transitionTo('cancelled');
+        this._cancellationReason = cleanReason;
+        this._cancelledBy = cancelledBy;
+        this._cancelledAt = at;
+        this._lateCancellation = late;
+        this._cancellationFee = late && cancelledBy === 'patient' ? policy.lateFee : null;
+    }
+
+    /**
+     * Avança o ciclo de vida clínico do agendamento
+     * Manter o status atual não é considerado uma transição
+     * @throws {DomainError} Se a transição não for permitida
      */
-    cancel(): void {
-        if (!this.canBeCancelled()) {
-            throw new DomainError('Não é possível cancelar com menos de 24h de antecedência');
+    transitionTo(next: ClinicalStatusValue): void {
+        if (this._clinicalStatus.value === next) {
+            return;
+        }
+        this._clinicalStatus = this._clinicalStatus.transitionTo(next);
+        // Agendamento cancelado e não pago deixa de contar como valor pendente nas agregações
+        if (next === 'cancelled' && !this._isPaid) {
+            this._status = AppointmentStatus.cancelled();
         }
-        this._status = AppointmentStatus.cancelled();
         this._updatedAt = new Date();
     }
+
+    /**
+     * Paciente confirmou presença
+     */
+    confirm(): void {
+        this.transitionTo('confirmed');
+    }
+
+    /**
+     * Atendimento iniciado
+     */
+    start(): void {
+        this.transitionTo('in_progress');
+    }
+
+    /**
+     * Atendimento concluído
+     */
+    complete(): void {
+        this.transitionTo('completed');
+    }
+
+    /**
+     * Paciente não compareceu
+     */
+    markNoShow(): void {
+        this.transitionTo('no_show');
+    }
     
     /**
      * Atualiza dados do agendamento
@@ -280,16 +628,26 @@ export class Appointment {
         clinicId?: string;
         date?: string | Date;
         time?: string;
+        durationMinutes?: number;
         procedure?: string;
+        teeth?: number[];
         value?: number;
         currency?: Currency;
         paymentType?: PaymentTypeValue;
         paymentPercentage?: number | null;
+        paymentFixedAmount?: number | null;
         isPaid?: boolean;
         paymentDate?: string | Date | null;
+        clinicalStatus?: ClinicalStatusValue;
         clinicalEvolution?: string | null;
         notes?: string | null;
+        /** Usado quando clinicalStatus passa a 'cancelled' */
+        cancellation?: CancellationDetails;
     }): void {
+        if (this.changesFinancialData(data)) {
+            this.ensureNotSettlementLocked();
+        }
+
         // Atualizar campos mutáveis
         if (data.clinicId !== undefined) {
             this._clinicId = data.clinicId;
@@ -304,20 +662,32 @@ export class Appointment {
         if (data.time !== undefined) {
             this._time = Time.create(data.time)!;
         }
+        if (data.durationMinutes !== undefined) {
+            this._durationMinutes = data.durationMinutes;
+        }
         if (data.procedure !== undefined) {
             this._procedure = Procedure.create(data.procedure);
         }
+        if (data.teeth !== undefined) {
+            this._teeth = ToothNumber.createList(data.teeth);
+        }
         if (data.value !== undefined || data.currency !== undefined) {
             this._value = Money.create(
                 data.value ?? this._value.amount,
                 data.currency ?? this._value.currency
             );
         }
-        if (data.paymentType !== undefined || data.paymentPercentage !== undefined) {
-            this._paymentType = PaymentType.create(
+        if (data.paymentType !== undefined || data.paymentPercentage !== undefined || data.paymentFixedAmount !== undefined) {
+            const paymentType = PaymentType.create(
                 data.paymentType ?? this._paymentType.type,
-                data.paymentPercentage ?? this._paymentType.percentage
+                data.paymentPercentage ?? this._paymentType.percentage,
+                data.paymentFixedAmount ?? this._paymentType.fixedAmount
             );
+            // Valores alterados à mão deixam de seguir a regra de comissão
+            if (!paymentType.equals(this._paymentType)) {
+                this._commissionRuleId = null;
+            }
+            this._paymentType = paymentType;
         }
         if (data.isPaid !== undefined) {
             this._isPaid = data.isPaid;
@@ -325,16 +695,18 @@ export class Appointment {
                 // ✅ Usar parseDate para evitar problemas de timezone
                 this._paymentDate = data.paymentDate ? this.parseDate(data.paymentDate) : new Date();
             }
-            // Atualizar status baseado em isPaid
-            this._status = AppointmentStatus.create(
-                data.isPaid ? 'paid' : (this._status.toString() as AppointmentStatusValue),
-                data.isPaid
-            );
+            // Atualizar status de pagamento baseado em isPaid
+            this._status = data.isPaid ? AppointmentStatus.paid() : AppointmentStatus.pending();
         }
         if (data.paymentDate !== undefined) {
             // ✅ Usar parseDate para evitar problemas de timezone
             this._paymentDate = data.paymentDate ? this.parseDate(data.paymentDate) : null;
         }
+        if (data.clinicalStatus === 'cancelled' && !this.isCancelled) {
+            this.cancel(data.cancellation);
+        } else if (data.clinicalStatus !== undefined) {
+            this.transitionTo(data.clinicalStatus);
+        }
         if (data.clinicalEvolution !== undefined) {
             this._clinicalEvolution = data.clinicalEvolution;
         }
@@ -346,6 +718,29 @@ export class Appointment {
         this.validateInvariants();
     }
     
+    /**
+     * Verifica se a atualização mexe em algo que entra no repasse
+     */
+    private changesFinancialData(data: {
+        clinicId?: string;
+        date?: string | Date;
+        value?: number;
+        currency?: Currency;
+        paymentType?: PaymentTypeValue;
+        paymentPercentage?: number | null;
+        paymentFixedAmount?: number | null;
+        isPaid?: boolean;
+    }): boolean {
+        return (data.clinicId !== undefined && data.clinicId !== this._clinicId) ||
+            (data.date !== undefined && this.parseDate(data.date).getTime() !== this._date.getTime()) ||
+            (data.value !== undefined && data.value !== this._value.amount) ||
+            (data.currency !== undefined && data.currency !== this._value.currency) ||
+            (data.paymentType !== undefined && data.paymentType !== this._paymentType.type) ||
+            (data.paymentPercentage !== undefined && (data.paymentPercentage ?? null) !== this._paymentType.percentage) ||
+            (data.paymentFixedAmount !== undefined && (data.paymentFixedAmount ?? null) !== this._paymentType.fixedAmount) ||
+            (data.isPaid !== undefined && data.isPaid !== this._isPaid);
+    }
+
     /**
      * Factory method para criar Appointment
      */
@@ -383,16 +778,29 @@ export class Appointment {
             clinic_id: this._clinicId,
             date: formatDateToISO(this._date), // ✅ Formato YYYY-MM-DD usando valores locais
             time: this._time.toString(),
+            duration_minutes: this._durationMinutes,
             procedure: this._procedure.toString(),
+            teeth: this.teeth,
             value: this._value.amount,
             currency: this._value.currency,
             payment_type: this._paymentType.type,
             payment_percentage: this._paymentType.percentage,
+            payment_fixed_amount: this._paymentType.fixedAmount,
+            commission_rule_id: this._commissionRuleId,
             is_paid: this._isPaid,
             payment_date: this._paymentDate ? formatDateToISO(this._paymentDate) : null,
+            amount_paid: this._amountPaid,
             status: this._status.toString() as AppointmentStatusValue,
+            clinical_status: this._clinicalStatus.value,
             clinical_evolution: this._clinicalEvolution,
             notes: this._notes,
+            series_id: this._seriesId,
+            cancellation_reason: this._cancellationReason,
+            cancelled_by: this._cancelledBy,
+            cancelled_at: this._cancelledAt ? this._cancelledAt.toISOString() : null,
+            late_cancellation: this._lateCancellation,
+            cancellation_fee: this._cancellationFee,
+            settlement_id: this._settlementId,
             created_at: this._createdAt.toISOString(),
             updated_at: this._updatedAt.toISOString()
         };
@@ -408,16 +816,29 @@ export class Appointment {
             clinicId: json.clinic_id,
             date: json.date,
             time: json.time,
+            durationMinutes: json.duration_minutes ?? AppointmentConstants.DEFAULT_DURATION_MINUTES,
             procedure: json.procedure,
+            teeth: json.teeth ?? [],
             value: json.value,
             currency: json.currency || 'BRL',
             paymentType: json.payment_type,
             paymentPercentage: json.payment_percentage,
+            paymentFixedAmount: json.payment_fixed_amount !== null && json.payment_fixed_amount !== undefined ? Number(json.payment_fixed_amount) : null,
+            commissionRuleId: json.commission_rule_id ?? null,
             isPaid: json.is_paid,
             paymentDate: json.payment_date,
+            amountPaid: json.amount_paid !== null && json.amount_paid !== undefined ? Number(json.amount_paid) : 0,
             status: json.status,
+            clinicalStatus: json.clinical_status ?? undefined,
             clinicalEvolution: json.clinical_evolution,
             notes: json.notes,
+            seriesId: json.series_id ?? null,
+            cancellationReason: json.cancellation_reason ?? null,
+            cancelledBy: json.cancelled_by ?? null,
+            cancelledAt: json.cancelled_at ?? null,
+            lateCancellation: json.late_cancellation ?? false,
+            cancellationFee: json.cancellation_fee !== null && json.cancellation_fee !== undefined ? Number(json.cancellation_fee) : null,
+            settlementId: json.settlement_id ?? null,
             createdAt: json.created_at,
             updatedAt: json.updated_at
         });
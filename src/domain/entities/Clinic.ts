@@ -1,10 +1,24 @@
 import { Name } from '../value-objects/Name';
 import { Email } from '../value-objects/Email';
 import { Phone } from '../value-objects/Phone';
+import { AvailabilityWindow, AvailabilityWindowProps } from '../value-objects/AvailabilityWindow';
+import { CancellationPolicy, CancellationPolicyProps, CancellationPolicyJSON } from '../value-objects/CancellationPolicy';
 import { DomainError } from '../errors/AppError';
 
 export type ClinicStatus = 'active' | 'inactive';
 
+export type BlockedDateKind = 'holiday' | 'blocked';
+
+/**
+ * Data em que a clínica não atende (feriado ou bloqueio pontual)
+ */
+export interface BlockedDate {
+    /** Data no formato YYYY-MM-DD */
+    date: string;
+    kind: BlockedDateKind;
+    reason: string | null;
+}
+
 export interface ClinicProps {
     id: string;
     name: string;
@@ -12,6 +26,9 @@ export interface ClinicProps {
     email?: string | null;
     phone?: string | null;
     status?: ClinicStatus;
+    workingHours?: AvailabilityWindowProps[];
+    blockedDates?: BlockedDate[];
+    cancellationPolicy?: CancellationPolicyProps | null;
     createdAt?: string | Date;
     updatedAt?: string | Date;
 }
@@ -23,6 +40,9 @@ export interface ClinicJSON {
     email: string | null;
     phone: string | null;
     status: ClinicStatus;
+    working_hours?: AvailabilityWindowProps[] | null;
+    blocked_dates?: BlockedDate[] | null;
+    cancellation_policy?: CancellationPolicyJSON | null;
     created_at: string;
     updated_at?: string; // ✅ Opcional porque a tabela clinics não tem essa coluna
 }
@@ -37,19 +57,37 @@ export class Clinic {
     private _email: Email | null;
     private _phone: Phone | null;
     private _status: ClinicStatus;
+    private _workingHours: AvailabilityWindow[];
+    private _blockedDates: BlockedDate[];
+    private _cancellationPolicy: CancellationPolicy | null;
     private readonly _createdAt: Date;
     private _updatedAt: Date;
 
     /**
      * Cria uma instância de Clinic
      */
-    constructor({ id, name, address, email, phone, status = 'active', createdAt, updatedAt }: ClinicProps) {
+    constructor({
+        id,
+        name,
+        address,
+        email,
+        phone,
+        status = 'active',
+        workingHours = [],
+        blockedDates = [],
+        cancellationPolicy = null,
+        createdAt,
+        updatedAt
+    }: ClinicProps) {
         this._id = id;
         this._name = Name.create(name)!;
         this._address = address || null;
         this._email = email ? Email.create(email) : null;
         this._phone = phone ? Phone.create(phone) : null;
         this._status = status;
+        this._workingHours = Clinic.sortWindows(workingHours.map(AvailabilityWindow.create));
+        this._blockedDates = Clinic.sortBlockedDates(blockedDates);
+        this._cancellationPolicy = cancellationPolicy ? CancellationPolicy.create(cancellationPolicy) : null;
         this._createdAt = createdAt ? new Date(createdAt) : new Date();
         this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
         
@@ -67,6 +105,27 @@ export class Clinic {
         if (!['active', 'inactive'].includes(this._status)) {
             throw new DomainError('Status inválido');
         }
+        this._workingHours.forEach((window, index) => {
+            const overlapping = this._workingHours.slice(index + 1).find(other => window.overlaps(other));
+            if (overlapping) {
+                throw new DomainError(
+                    `Horários sobrepostos no mesmo dia: ${window.start}–${window.end} e ${overlapping.start}–${overlapping.end}`
+                );
+            }
+        });
+        const seen = new Set<string>();
+        this._blockedDates.forEach(({ date, kind }) => {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+                throw new DomainError(`Data bloqueada inválida: ${date}`);
+            }
+            if (!['holiday', 'blocked'].includes(kind)) {
+                throw new DomainError(`Tipo de bloqueio inválido: ${kind}`);
+            }
+            if (seen.has(date)) {
+                throw new DomainError(`Data bloqueada duplicada: ${date}`);
+            }
+            seen.add(date);
+        });
     }
     
     // Getters
@@ -94,6 +153,42 @@ export class Clinic {
         return this._status;
     }
     
+    /**
+     * Janelas semanais de atendimento, ordenadas por dia e horário
+     */
+    get workingHours(): AvailabilityWindow[] {
+        return [...this._workingHours];
+    }
+    
+    /**
+     * Feriados e bloqueios, em ordem cronológica
+     */
+    get blockedDates(): BlockedDate[] {
+        return this._blockedDates.map(blocked => ({ ...blocked }));
+    }
+    
+    get hasWorkingHours(): boolean {
+        return this._workingHours.length > 0;
+    }
+    
+    /**
+     * Verifica se a clínica está fechada na data (feriado ou bloqueio)
+     */
+    isClosedOn(date: string): boolean {
+        return this._blockedDates.some(blocked => blocked.date === date);
+    }
+    
+    /**
+     * Janelas de atendimento em uma data (YYYY-MM-DD)
+     * Vazio se a data estiver bloqueada ou não houver expediente no dia da semana
+     */
+    windowsOn(date: string): AvailabilityWindow[] {
+        if (this.isClosedOn(date)) return [];
+        const [year, month, day] = date.split('-').map(Number);
+        const weekday = new Date(year, month - 1, day).getDay();
+        return this._workingHours.filter(window => window.weekday === weekday);
+    }
+    
     get createdAt(): Date {
         return this._createdAt;
     }
@@ -137,6 +232,50 @@ export class Clinic {
         this.validateInvariants();
     }
     
+    /**
+     * Substitui o horário de atendimento e as datas bloqueadas
+     * @throws {DomainError} Se houver janelas sobrepostas ou datas duplicadas
+     */
+    updateAvailability(workingHours: AvailabilityWindowProps[], blockedDates: BlockedDate[]): void {
+        this._workingHours = Clinic.sortWindows(workingHours.map(AvailabilityWindow.create));
+        this._blockedDates = Clinic.sortBlockedDates(blockedDates);
+        this._updatedAt = new Date();
+        this.validateInvariants();
+    }
+    
+    /**
+     * Política de cancelamento própria da clínica (null = padrão)
+     */
+    get cancellationPolicy(): CancellationPolicy | null {
+        return this._cancellationPolicy;
+    }
+    
+    /**
+     * Política aplicada aos agendamentos da clínica
+     */
+    get effectiveCancellationPolicy(): CancellationPolicy {
+        return this._cancellationPolicy ?? CancellationPolicy.default();
+    }
+    
+    /**
+     * Define a política de cancelamento (null volta ao padrão)
+     * @throws {ValidationError} Se antecedência ou taxa forem inválidas
+     */
+    updateCancellationPolicy(policy: CancellationPolicyProps | null): void {
+        this._cancellationPolicy = policy ? CancellationPolicy.create(policy) : null;
+        this._updatedAt = new Date();
+    }
+    
+    private static sortWindows(windows: AvailabilityWindow[]): AvailabilityWindow[] {
+        return windows.sort((a, b) => a.weekday - b.weekday || a.startMinutes - b.startMinutes);
+    }
+    
+    private static sortBlockedDates(blockedDates: BlockedDate[]): BlockedDate[] {
+        return blockedDates
+            .map(blocked => ({ date: blocked.date, kind: blocked.kind, reason: blocked.reason || null }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+    
     /**
      * Ativa a clínica
      */
@@ -176,6 +315,9 @@ export class Clinic {
             email: this._email?.toString() || null,
             phone: this._phone?.toString() || null,
             status: this._status,
+            working_hours: this._workingHours.map(window => window.toJSON()),
+            blocked_dates: this.blockedDates,
+            cancellation_policy: this._cancellationPolicy?.toJSON() ?? null,
             created_at: this._createdAt.toISOString(),
             // ✅ updated_at removido porque a tabela clinics não tem essa coluna
             // updated_at: this._updatedAt.toISOString()
@@ -193,6 +335,13 @@ export class Clinic {
             email: json.email,
             phone: json.phone,
             status: json.status || 'active',
+            workingHours: json.working_hours ?? [],
+            blockedDates: json.blocked_dates ?? [],
+            cancellationPolicy: json.cancellation_policy ? {
+                noticeHours: json.cancellation_policy.notice_hours,
+                lateFee: json.cancellation_policy.late_fee !== null ? Number(json.cancellation_policy.late_fee) : null,
+                allowLateOverride: Boolean(json.cancellation_policy.allow_late_override)
+            } : null,
             createdAt: json.created_at,
             updatedAt: json.updated_at || json.created_at // ✅ Usar created_at como fallback
         });
@@ -0,0 +1,195 @@
+import { PaymentType, PaymentTypeValue } from '../value-objects/PaymentType';
+import { DomainError } from '../errors/AppError';
+
+export interface CommissionRuleProps {
+    id: string;
+    clinicId: string;
+    /** Procedimento específico; null = regra padrão da clínica */
+    procedure?: string | null;
+    paymentType: PaymentTypeValue;
+    paymentPercentage?: number | null;
+    paymentFixedAmount?: number | null;
+    /** Início da vigência (YYYY-MM-DD) */
+    effectiveFrom: string;
+    notes?: string | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface CommissionRuleJSON {
+    id: string;
+    clinic_id: string;
+    procedure: string | null;
+    payment_type: PaymentTypeValue;
+    payment_percentage: number | null;
+    payment_fixed_amount: number | null;
+    effective_from: string;
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Chave de comparação de procedimentos (sem acentos, caixa ou espaços extras)
+ */
+export const normalizeProcedure = (procedure: string): string =>
+    procedure.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Entidade de Domínio: CommissionRule
+ * Acordo de repasse com a clínica (padrão ou por procedimento) a partir de uma data.
+ * ✅ Regras não são editadas: uma mudança de acordo é uma nova versão com nova vigência,
+ * e os agendamentos antigos continuam com os valores da regra que valia na época
+ */
+export class CommissionRule {
+    private readonly _id: string;
+    private readonly _clinicId: string;
+    private readonly _procedure: string | null;
+    private readonly _paymentType: PaymentType;
+    private readonly _effectiveFrom: string;
+    private readonly _notes: string | null;
+    private readonly _createdAt: Date;
+    private readonly _updatedAt: Date;
+
+    /**
+     * Cria uma instância de CommissionRule
+     * @throws {ValidationError} Se percentual ou valor fixo forem inválidos
+     */
+    constructor({
+        id,
+        clinicId,
+        procedure = null,
+        paymentType,
+        paymentPercentage = null,
+        paymentFixedAmount = null,
+        effectiveFrom,
+        notes = null,
+        createdAt,
+        updatedAt
+    }: CommissionRuleProps) {
+        this._id = id;
+        this._clinicId = clinicId;
+        this._procedure = procedure?.trim() || null;
+        this._paymentType = PaymentType.create(paymentType, paymentPercentage, paymentFixedAmount);
+        this._effectiveFrom = effectiveFrom;
+        this._notes = notes?.trim() || null;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._clinicId) {
+            throw new DomainError('Clínica é obrigatória');
+        }
+        if (!DATE_PATTERN.test(this._effectiveFrom)) {
+            throw new DomainError('Início da vigência inválido (formato esperado: YYYY-MM-DD)');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get clinicId(): string {
+        return this._clinicId;
+    }
+
+    get procedure(): string | null {
+        return this._procedure;
+    }
+
+    get paymentType(): PaymentType {
+        return this._paymentType;
+    }
+
+    get effectiveFrom(): string {
+        return this._effectiveFrom;
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    get isClinicDefault(): boolean {
+        return this._procedure === null;
+    }
+
+    /**
+     * Regra específica deste procedimento (comparação sem acentos e sem caixa)
+     */
+    appliesToProcedure(procedure: string): boolean {
+        return this._procedure !== null && normalizeProcedure(this._procedure) === normalizeProcedure(procedure);
+    }
+
+    /**
+     * Já vigente na data informada (YYYY-MM-DD)
+     */
+    isEffectiveOn(date: string): boolean {
+        return this._effectiveFrom <= date;
+    }
+
+    /**
+     * Factory method para criar CommissionRule
+     */
+    static create(data: Omit<CommissionRuleProps, 'id'> & { id?: string }): CommissionRule {
+        return new CommissionRule({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): CommissionRuleJSON {
+        return {
+            id: this._id,
+            clinic_id: this._clinicId,
+            procedure: this._procedure,
+            payment_type: this._paymentType.type,
+            payment_percentage: this._paymentType.percentage,
+            payment_fixed_amount: this._paymentType.fixedAmount,
+            effective_from: this._effectiveFrom,
+            notes: this._notes,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: CommissionRuleJSON): CommissionRule {
+        return new CommissionRule({
+            id: json.id,
+            clinicId: json.clinic_id,
+            procedure: json.procedure,
+            paymentType: json.payment_type,
+            paymentPercentage: json.payment_percentage !== null ? Number(json.payment_percentage) : null,
+            paymentFixedAmount: json.payment_fixed_amount !== null ? Number(json.payment_fixed_amount) : null,
+            effectiveFrom: json.effective_from,
+            notes: json.notes,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,266 @@
+import { DomainError } from '../errors/AppError';
+import { toISODate } from '../../lib/calendar';
+import { ToothNumber } from '../value-objects/ToothNumber';
+import { CONSENT_KINDS, ConsentKind } from './ConsentTemplate';
+
+export interface ConsentDocumentProps {
+    id: string;
+    patientId: string;
+    /** Atendimento ao qual o termo se refere (opcional) */
+    appointmentId?: string | null;
+    /** Modelo usado; null para os modelos padrão ou modelos já excluídos */
+    templateId?: string | null;
+    kind: ConsentKind;
+    title: string;
+    procedure: string;
+    teeth?: number[];
+    /** Texto do termo já com os marcadores substituídos */
+    content: string;
+    /** Quem assinou (o paciente ou o responsável legal) */
+    signerName: string;
+    signedAt: string | Date;
+    fileUrl: string;
+    fileName: string;
+    /** SHA-256 (hex) do PDF assinado */
+    sha256: string;
+    createdAt?: string | Date;
+}
+
+export interface ConsentDocumentJSON {
+    id: string;
+    patient_id: string;
+    appointment_id: string | null;
+    template_id: string | null;
+    kind: ConsentKind;
+    title: string;
+    procedure: string;
+    teeth: number[];
+    content: string;
+    signer_name: string;
+    signed_at: string;
+    file_url: string;
+    file_name: string;
+    sha256: string;
+    created_at: string;
+}
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Entidade de Domínio: ConsentDocument
+ * Termo de consentimento assinado pelo paciente (PDF + hash de integridade).
+ * ✅ Imutável: um termo assinado não é alterado; um novo termo substitui o anterior
+ */
+export class ConsentDocument {
+    private readonly _id: string;
+    private readonly _patientId: string;
+    private readonly _appointmentId: string | null;
+    private readonly _templateId: string | null;
+    private readonly _kind: ConsentKind;
+    private readonly _title: string;
+    private readonly _procedure: string;
+    private readonly _teeth: ToothNumber[];
+    private readonly _content: string;
+    private readonly _signerName: string;
+    private readonly _signedAt: Date;
+    private readonly _fileUrl: string;
+    private readonly _fileName: string;
+    private readonly _sha256: string;
+    private readonly _createdAt: Date;
+
+    /**
+     * Cria uma instância de ConsentDocument
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        patientId,
+        appointmentId = null,
+        templateId = null,
+        kind,
+        title,
+        procedure,
+        teeth = [],
+        content,
+        signerName,
+        signedAt,
+        fileUrl,
+        fileName,
+        sha256,
+        createdAt
+    }: ConsentDocumentProps) {
+        this._id = id;
+        this._patientId = patientId;
+        this._appointmentId = appointmentId;
+        this._templateId = templateId;
+        this._kind = kind;
+        this._title = title.trim();
+        this._procedure = procedure.trim();
+        this._teeth = ToothNumber.createList(teeth);
+        this._content = content;
+        this._signerName = signerName.trim();
+        this._signedAt = new Date(signedAt);
+        this._fileUrl = fileUrl;
+        this._fileName = fileName;
+        this._sha256 = sha256.toLowerCase();
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._patientId) {
+            throw new DomainError('Paciente é obrigatório');
+        }
+        if (!CONSENT_KINDS.includes(this._kind)) {
+            throw new DomainError(`Tipo de termo inválido: ${this._kind}`);
+        }
+        if (!this._title || !this._content.trim()) {
+            throw new DomainError('Título e texto do termo são obrigatórios');
+        }
+        if (!this._procedure) {
+            throw new DomainError('Procedimento do termo é obrigatório');
+        }
+        if (!this._signerName) {
+            throw new DomainError('Nome de quem assina o termo é obrigatório');
+        }
+        if (isNaN(this._signedAt.getTime())) {
+            throw new DomainError('Data da assinatura inválida');
+        }
+        if (!this._fileUrl) {
+            throw new DomainError('Arquivo do termo assinado é obrigatório');
+        }
+        if (!SHA256_PATTERN.test(this._sha256)) {
+            throw new DomainError('Hash SHA-256 do termo inválido');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get patientId(): string {
+        return this._patientId;
+    }
+
+    get appointmentId(): string | null {
+        return this._appointmentId;
+    }
+
+    get templateId(): string | null {
+        return this._templateId;
+    }
+
+    get kind(): ConsentKind {
+        return this._kind;
+    }
+
+    get title(): string {
+        return this._title;
+    }
+
+    get procedure(): string {
+        return this._procedure;
+    }
+
+    get teeth(): number[] {
+        return this._teeth.map(tooth => tooth.value);
+    }
+
+    get content(): string {
+        return this._content;
+    }
+
+    get signerName(): string {
+        return this._signerName;
+    }
+
+    get signedAt(): Date {
+        return this._signedAt;
+    }
+
+    /**
+     * Data local da assinatura (YYYY-MM-DD), comparável à data do atendimento
+     */
+    get signedOn(): string {
+        return toISODate(this._signedAt);
+    }
+
+    get fileUrl(): string {
+        return this._fileUrl;
+    }
+
+    get fileName(): string {
+        return this._fileName;
+    }
+
+    get sha256(): string {
+        return this._sha256;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    /**
+     * Factory method para criar ConsentDocument
+     */
+    static create(data: Omit<ConsentDocumentProps, 'id'> & { id?: string }): ConsentDocument {
+        return new ConsentDocument({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): ConsentDocumentJSON {
+        return {
+            id: this._id,
+            patient_id: this._patientId,
+            appointment_id: this._appointmentId,
+            template_id: this._templateId,
+            kind: this._kind,
+            title: this._title,
+            procedure: this._procedure,
+            teeth: this.teeth,
+            content: this._content,
+            signer_name: this._signerName,
+            signed_at: this._signedAt.toISOString(),
+            file_url: this._fileUrl,
+            file_name: this._fileName,
+            sha256: this._sha256,
+            created_at: this._createdAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: ConsentDocumentJSON): ConsentDocument {
+        return new ConsentDocument({
+            id: json.id,
+            patientId: json.patient_id,
+            appointmentId: json.appointment_id,
+            templateId: json.template_id,
+            kind: json.kind,
+            title: json.title,
+            procedure: json.procedure,
+            teeth: json.teeth || [],
+            content: json.content,
+            signerName: json.signer_name,
+            signedAt: json.signed_at,
+            fileUrl: json.file_url,
+            fileName: json.file_name,
+            sha256: json.sha256,
+            createdAt: json.created_at
+        });
+    }
+}
@@ -0,0 +1,213 @@
+import { DomainError } from '../errors/AppError';
+
+export const CONSENT_KINDS = ['endodontic', 'surgery'] as const;
+export type ConsentKind = typeof CONSENT_KINDS[number];
+
+/**
+ * Marcadores aceitos no texto do termo, substituídos ao gerar o documento
+ * Ex.: "Eu, {{paciente}}, CPF {{cpf}}, autorizo o procedimento {{procedimento}} no(s) dente(s) {{dentes}}"
+ */
+export const CONSENT_PLACEHOLDERS = ['paciente', 'cpf', 'responsavel', 'procedimento', 'dentes', 'data'] as const;
+export type ConsentPlaceholder = typeof CONSENT_PLACEHOLDERS[number];
+
+export const CONSENT_TITLE_MAX_LENGTH = 120;
+export const CONSENT_BODY_MAX_LENGTH = 20000;
+
+/** Prefixo dos modelos padrão (não salvos no banco) */
+export const DEFAULT_CONSENT_TEMPLATE_PREFIX = 'default-';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Modelos padrão, usados enquanto o profissional não salva os seus
+ */
+export const DEFAULT_CONSENT_TEMPLATES: Record<ConsentKind, { title: string; body: string }> = {
+    endodontic: {
+        title: 'Termo de consentimento para tratamento endodôntico',
+        body: [
+            'Eu, {{responsavel}}, responsável pelo(a) paciente {{paciente}} (CPF {{cpf}}), declaro que fui informado(a) sobre o diagnóstico e autorizo a realização do procedimento {{procedimento}} no(s) dente(s) {{dentes}}.',
+            'Fui esclarecido(a) de que o tratamento endodôntico consiste na remoção da polpa dental, limpeza, modelagem e obturação dos canais radiculares, podendo exigir mais de uma sessão e radiografias de controle.',
+            'Estou ciente dos riscos e limitações do tratamento, entre eles: dor e inchaço pós-operatórios, fratura de instrumentos, perfuração, fratura do dente, persistência da infecção e necessidade de retratamento, cirurgia parendodôntica ou extração, além da necessidade de restauração definitiva após o término do tratamento.',
+            'Informei corretamente meu histórico médico e medicamentos em uso, e tive a oportunidade de fazer perguntas, que foram respondidas de forma satisfatória.',
+            'Data: {{data}}'
+        ].join('\n\n')
+    },
+    surgery: {
+        title: 'Termo de consentimento para procedimento cirúrgico',
+        body: [
+            'Eu, {{responsavel}}, responsável pelo(a) paciente {{paciente}} (CPF {{cpf}}), autorizo a realização do procedimento cirúrgico {{procedimento}} na região do(s) dente(s) {{dentes}}.',
+            'Fui esclarecido(a) sobre a indicação, as alternativas de tratamento e as etapas da cirurgia, realizada sob anestesia local.',
+            'Estou ciente dos riscos inerentes ao procedimento, entre eles: dor, edema, hematoma, sangramento, infecção, deiscência de sutura, alteração temporária ou permanente de sensibilidade, comunicação com o seio maxilar, fratura dentária ou óssea e insucesso com necessidade de nova intervenção ou extração.',
+            'Comprometo-me a seguir as orientações pré e pós-operatórias, a tomar a medicação prescrita e a comparecer às consultas de controle. Declarei meu histórico médico, alergias e medicamentos em uso, incluindo anticoagulantes e bisfosfonatos.',
+            'Data: {{data}}'
+        ].join('\n\n')
+    }
+};
+
+export interface ConsentTemplateProps {
+    id: string;
+    kind: ConsentKind;
+    title: string;
+    body: string;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface ConsentTemplateJSON {
+    id: string;
+    kind: ConsentKind;
+    title: string;
+    body: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Marcadores usados no texto (sem repetição)
+ */
+export function consentPlaceholders(body: string): string[] {
+    return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Entidade de Domínio: ConsentTemplate
+ * Modelo de termo de consentimento com marcadores de paciente, procedimento e dentes.
+ */
+export class ConsentTemplate {
+    private readonly _id: string;
+    private _kind: ConsentKind;
+    private _title: string;
+    private _body: string;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de ConsentTemplate
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({ id, kind, title, body, createdAt, updatedAt }: ConsentTemplateProps) {
+        this._id = id;
+        this._kind = kind;
+        this._title = title.trim();
+        this._body = body.trim();
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!CONSENT_KINDS.includes(this._kind)) {
+            throw new DomainError(`Tipo de termo inválido: ${this._kind}`);
+        }
+        if (!this._title || this._title.length > CONSENT_TITLE_MAX_LENGTH) {
+            throw new DomainError(`Título do termo é obrigatório (máx: ${CONSENT_TITLE_MAX_LENGTH} caracteres)`);
+        }
+        if (!this._body || this._body.length > CONSENT_BODY_MAX_LENGTH) {
+            throw new DomainError(`Texto do termo é obrigatório (máx: ${CONSENT_BODY_MAX_LENGTH} caracteres)`);
+        }
+
+        const unknown = consentPlaceholders(this._body)
+            .filter(placeholder => !(CONSENT_PLACEHOLDERS as readonly string[]).includes(placeholder));
+        if (unknown.length > 0) {
+            throw new DomainError(`Marcador desconhecido no termo: ${unknown.map(p => `{{${p}}}`).join(', ')}`);
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get kind(): ConsentKind {
+        return this._kind;
+    }
+
+    get title(): string {
+        return this._title;
+    }
+
+    get body(): string {
+        return this._body;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Modelo padrão do sistema (ainda não salvo pelo profissional)
+     */
+    get isDefault(): boolean {
+        return this._id.startsWith(DEFAULT_CONSENT_TEMPLATE_PREFIX);
+    }
+
+    /**
+     * Atualiza tipo, título e texto do modelo
+     * ✅ Termos já assinados guardam o texto da época
+     * @throws {DomainError} Se os novos valores forem inválidos
+     */
+    update(data: Partial<Pick<ConsentTemplateProps, 'kind' | 'title' | 'body'>>): void {
+        if (data.kind !== undefined) this._kind = data.kind;
+        if (data.title !== undefined) this._title = data.title.trim();
+        if (data.body !== undefined) this._body = data.body.trim();
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar ConsentTemplate
+     */
+    static create(data: Omit<ConsentTemplateProps, 'id'> & { id?: string }): ConsentTemplate {
+        return new ConsentTemplate({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Modelo padrão de um tipo de termo
+     */
+    static createDefault(kind: ConsentKind): ConsentTemplate {
+        return ConsentTemplate.create({ id: `${DEFAULT_CONSENT_TEMPLATE_PREFIX}${kind}`, kind, ...DEFAULT_CONSENT_TEMPLATES[kind] });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): ConsentTemplateJSON {
+        return {
+            id: this._id,
+            kind: this._kind,
+            title: this._title,
+            body: this._body,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: ConsentTemplateJSON): ConsentTemplate {
+        return new ConsentTemplate({
+            id: json.id,
+            kind: json.kind,
+            title: json.title,
+            body: json.body,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,416 @@
+import { ToothNumber } from '../value-objects/ToothNumber';
+import { DomainError } from '../errors/AppError';
+
+/**
+ * Diagnóstico pulpar (terminologia AAE)
+ */
+export type PulpalDiagnosis =
+    | 'normal'
+    | 'reversible_pulpitis'
+    | 'symptomatic_irreversible_pulpitis'
+    | 'asymptomatic_irreversible_pulpitis'
+    | 'pulp_necrosis'
+    | 'previously_treated'
+    | 'previously_initiated';
+
+/**
+ * Diagnóstico periapical (terminologia AAE)
+ */
+export type PeriapicalDiagnosis =
+    | 'normal'
+    | 'symptomatic_apical_periodontitis'
+    | 'asymptomatic_apical_periodontitis'
+    | 'acute_apical_abscess'
+    | 'chronic_apical_abscess'
+    | 'condensing_osteitis';
+
+export const PULPAL_DIAGNOSES: PulpalDiagnosis[] = [
+    'normal',
+    'reversible_pulpitis',
+    'symptomatic_irreversible_pulpitis',
+    'asymptomatic_irreversible_pulpitis',
+    'pulp_necrosis',
+    'previously_treated',
+    'previously_initiated'
+];
+
+export const PERIAPICAL_DIAGNOSES: PeriapicalDiagnosis[] = [
+    'normal',
+    'symptomatic_apical_periodontitis',
+    'asymptomatic_apical_periodontitis',
+    'acute_apical_abscess',
+    'chronic_apical_abscess',
+    'condensing_osteitis'
+];
+
+/** Limites clínicos aceitos para comprimento de trabalho (mm) */
+export const WORKING_LENGTH_MIN = 5;
+export const WORKING_LENGTH_MAX = 40;
+
+/** Limites da numeração ISO de instrumentos */
+export const APICAL_SIZE_MIN = 6;
+export const APICAL_SIZE_MAX = 140;
+
+/**
+ * Canal radicular localizado na sessão
+ */
+export interface RootCanal {
+    /** Identificação do canal (ex.: MV, MV2, DV, P) */
+    name: string;
+    /** Comprimento de trabalho em milímetros */
+    workingLength: number | null;
+    /** Calibre do instrumento apical (ISO) */
+    apicalSize: number | null;
+    /** Ponto de referência coronário (ex.: cúspide MV) */
+    reference: string | null;
+}
+
+export interface RootCanalJSON {
+    name: string;
+    working_length: number | null;
+    apical_size: number | null;
+    reference: string | null;
+}
+
+export interface EndodonticRecordProps {
+    id: string;
+    appointmentId: string;
+    patientId: string;
+    tooth: number | string;
+    canals?: Array<Partial<RootCanal> & { name: string }>;
+    fileSystem?: string | null;
+    irrigants?: string[];
+    obturationTechnique?: string | null;
+    pulpalDiagnosis?: PulpalDiagnosis | null;
+    periapicalDiagnosis?: PeriapicalDiagnosis | null;
+    medications?: string[];
+    notes?: string | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface EndodonticRecordJSON {
+    id: string;
+    appointment_id: string;
+    patient_id: string;
+    tooth: number;
+    canals: RootCanalJSON[];
+    file_system: string | null;
+    irrigants: string[];
+    obturation_technique: string | null;
+    pulpal_diagnosis: PulpalDiagnosis | null;
+    periapical_diagnosis: PeriapicalDiagnosis | null;
+    medications: string[];
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type EndodonticRecordUpdate = Partial<Omit<EndodonticRecordProps, 'id' | 'appointmentId' | 'patientId' | 'tooth' | 'createdAt' | 'updatedAt'>>;
+
+const cleanText = (value: string | null | undefined): string | null => {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+};
+
+const cleanList = (values: string[] | undefined): string[] => {
+    const seen = new Set<string>();
+    return (values || [])
+        .map(value => value.trim())
+        .filter(value => {
+            const key = value.toLowerCase();
+            if (!value || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+};
+
+const toCanal = (canal: Partial<RootCanal> & { name: string }): RootCanal => ({
+    name: canal.name.trim().toUpperCase(),
+    workingLength: canal.workingLength ?? null,
+    apicalSize: canal.apicalSize ?? null,
+    reference: cleanText(canal.reference)
+});
+
+/**
+ * Entidade de Domínio: EndodonticRecord
+ * Registro estruturado de uma sessão endodôntica em um dente.
+ * ✅ Um registro por dente em cada agendamento; texto livre fica em notes
+ */
+export class EndodonticRecord {
+    private readonly _id: string;
+    private readonly _appointmentId: string;
+    private readonly _patientId: string;
+    private readonly _tooth: ToothNumber;
+    private _canals: RootCanal[];
+    private _fileSystem: string | null;
+    private _irrigants: string[];
+    private _obturationTechnique: string | null;
+    private _pulpalDiagnosis: PulpalDiagnosis | null;
+    private _periapicalDiagnosis: PeriapicalDiagnosis | null;
+    private _medications: string[];
+    private _notes: string | null;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de EndodonticRecord
+     */
+    constructor({
+        id,
+        appointmentId,
+        patientId,
+        tooth,
+        canals = [],
+        fileSystem = null,
+        irrigants = [],
+        obturationTechnique = null,
+        pulpalDiagnosis = null,
+        periapicalDiagnosis = null,
+        medications = [],
+        notes = null,
+        createdAt,
+        updatedAt
+    }: EndodonticRecordProps) {
+        this._id = id;
+        this._appointmentId = appointmentId;
+        this._patientId = patientId;
+        this._tooth = ToothNumber.create(tooth);
+        this._canals = canals.map(toCanal);
+        this._fileSystem = cleanText(fileSystem);
+        this._irrigants = cleanList(irrigants);
+        this._obturationTechnique = cleanText(obturationTechnique);
+        this._pulpalDiagnosis = pulpalDiagnosis;
+        this._periapicalDiagnosis = periapicalDiagnosis;
+        this._medications = cleanList(medications);
+        this._notes = cleanText(notes);
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._appointmentId) {
+            throw new DomainError('Agendamento é obrigatório');
+        }
+        if (!this._patientId) {
+            throw new DomainError('Paciente é obrigatório');
+        }
+        if (this._pulpalDiagnosis && !PULPAL_DIAGNOSES.includes(this._pulpalDiagnosis)) {
+            throw new DomainError(`Diagnóstico pulpar inválido: ${this._pulpalDiagnosis}`);
+        }
+        if (this._periapicalDiagnosis && !PERIAPICAL_DIAGNOSES.includes(this._periapicalDiagnosis)) {
+            throw new DomainError(`Diagnóstico periapical inválido: ${this._periapicalDiagnosis}`);
+        }
+
+        const names = new Set<string>();
+        for (const canal of this._canals) {
+            if (!canal.name) {
+                throw new DomainError('Identificação do canal é obrigatória');
+            }
+            if (names.has(canal.name)) {
+                throw new DomainError(`Canal duplicado: ${canal.name}`);
+            }
+            names.add(canal.name);
+
+            if (canal.workingLength !== null &&
+                (!Number.isFinite(canal.workingLength) || canal.workingLength < WORKING_LENGTH_MIN || canal.workingLength > WORKING_LENGTH_MAX)) {
+                throw new DomainError(
+                    `Comprimento de trabalho do canal ${canal.name} deve estar entre ${WORKING_LENGTH_MIN} e ${WORKING_LENGTH_MAX} mm`
+                );
+            }
+            if (canal.apicalSize !== null &&
+                (!Number.isInteger(canal.apicalSize) || canal.apicalSize < APICAL_SIZE_MIN || canal.apicalSize > APICAL_SIZE_MAX)) {
+                throw new DomainError(
+                    `Calibre apical do canal ${canal.name} deve ser um número ISO entre ${APICAL_SIZE_MIN} e ${APICAL_SIZE_MAX}`
+                );
+            }
+        }
+
+        if (!this.hasStructuredData && !this._notes) {
+            throw new DomainError('Registro endodôntico vazio: preencha ao menos um campo ou as observações');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get appointmentId(): string {
+        return this._appointmentId;
+    }
+
+    get patientId(): string {
+        return this._patientId;
+    }
+
+    get tooth(): number {
+        return this._tooth.value;
+    }
+
+    get canals(): RootCanal[] {
+        return this._canals.map(canal => ({ ...canal }));
+    }
+
+    get fileSystem(): string | null {
+        return this._fileSystem;
+    }
+
+    get irrigants(): string[] {
+        return [...this._irrigants];
+    }
+
+    get obturationTechnique(): string | null {
+        return this._obturationTechnique;
+    }
+
+    get pulpalDiagnosis(): PulpalDiagnosis | null {
+        return this._pulpalDiagnosis;
+    }
+
+    get periapicalDiagnosis(): PeriapicalDiagnosis | null {
+        return this._periapicalDiagnosis;
+    }
+
+    get medications(): string[] {
+        return [...this._medications];
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Indica se há algum campo estruturado preenchido (além das observações)
+     */
+    get hasStructuredData(): boolean {
+        return this._canals.length > 0 ||
+            !!this._fileSystem ||
+            this._irrigants.length > 0 ||
+            !!this._obturationTechnique ||
+            !!this._pulpalDiagnosis ||
+            !!this._periapicalDiagnosis ||
+            this._medications.length > 0;
+    }
+
+    /**
+     * Obturação registrada (canais obturados nesta sessão)
+     */
+    get isObturated(): boolean {
+        return !!this._obturationTechnique;
+    }
+
+    /**
+     * Atualiza os dados clínicos do registro
+     * ✅ Dente, paciente e agendamento não mudam após a criação
+     */
+    update(data: EndodonticRecordUpdate): void {
+        if (data.canals !== undefined) {
+            this._canals = data.canals.map(toCanal);
+        }
+        if (data.fileSystem !== undefined) {
+            this._fileSystem = cleanText(data.fileSystem);
+        }
+        if (data.irrigants !== undefined) {
+            this._irrigants = cleanList(data.irrigants);
+        }
+        if (data.obturationTechnique !== undefined) {
+            this._obturationTechnique = cleanText(data.obturationTechnique);
+        }
+        if (data.pulpalDiagnosis !== undefined) {
+            this._pulpalDiagnosis = data.pulpalDiagnosis;
+        }
+        if (data.periapicalDiagnosis !== undefined) {
+            this._periapicalDiagnosis = data.periapicalDiagnosis;
+        }
+        if (data.medications !== undefined) {
+            this._medications = cleanList(data.medications);
+        }
+        if (data.notes !== undefined) {
+            this._notes = cleanText(data.notes);
+        }
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar EndodonticRecord
+     */
+    static create(data: Omit<EndodonticRecordProps, 'id'> & { id?: string }): EndodonticRecord {
+        return new EndodonticRecord({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): EndodonticRecordJSON {
+        return {
+            id: this._id,
+            appointment_id: this._appointmentId,
+            patient_id: this._patientId,
+            tooth: this._tooth.value,
+            canals: this._canals.map(canal => ({
+                name: canal.name,
+                working_length: canal.workingLength,
+                apical_size: canal.apicalSize,
+                reference: canal.reference
+            })),
+            file_system: this._fileSystem,
+            irrigants: [...this._irrigants],
+            obturation_technique: this._obturationTechnique,
+            pulpal_diagnosis: this._pulpalDiagnosis,
+            periapical_diagnosis: this._periapicalDiagnosis,
+            medications: [...this._medications],
+            notes: this._notes,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: EndodonticRecordJSON): EndodonticRecord {
+        return new EndodonticRecord({
+            id: json.id,
+            appointmentId: json.appointment_id,
+            patientId: json.patient_id,
+            tooth: json.tooth,
+            canals: (json.canals || []).map(canal => ({
+                name: canal.name,
+                workingLength: canal.working_length !== null && canal.working_length !== undefined ? Number(canal.working_length) : null,
+                apicalSize: canal.apical_size !== null && canal.apical_size !== undefined ? Number(canal.apical_size) : null,
+                reference: canal.reference
+            })),
+            fileSystem: json.file_system,
+            irrigants: json.irrigants || [],
+            obturationTechnique: json.obturation_technique,
+            pulpalDiagnosis: json.pulpal_diagnosis,
+            periapicalDiagnosis: json.periapical_diagnosis,
+            medications: json.medications || [],
+            notes: json.notes,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,180 @@
+import { Currency, CURRENCIES } from '../value-objects/Money';
+import { DomainError } from '../errors/AppError';
+
+/**
+ * Origem da cotação: digitada na tela ou importada de arquivo
+ */
+export type ExchangeRateSource = 'manual' | 'import';
+
+export interface ExchangeRateProps {
+    id: string;
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    /** Quantas unidades de toCurrency valem 1 unidade de fromCurrency */
+    rate: number;
+    /** Data da cotação (YYYY-MM-DD) */
+    date: string;
+    source?: ExchangeRateSource;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface ExchangeRateJSON {
+    id: string;
+    from_currency: Currency;
+    to_currency: Currency;
+    rate: number;
+    date: string;
+    source: ExchangeRateSource;
+    created_at: string;
+    updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Entidade de Domínio: ExchangeRate
+ * Cotação de um par de moedas em uma data, usada para converter totais
+ * para a moeda de relatório.
+ */
+export class ExchangeRate {
+    private readonly _id: string;
+    private readonly _fromCurrency: Currency;
+    private readonly _toCurrency: Currency;
+    private readonly _rate: number;
+    private readonly _date: string;
+    private readonly _source: ExchangeRateSource;
+    private readonly _createdAt: Date;
+    private readonly _updatedAt: Date;
+
+    /**
+     * Cria uma instância de ExchangeRate
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        fromCurrency,
+        toCurrency,
+        rate,
+        date,
+        source = 'manual',
+        createdAt,
+        updatedAt
+    }: ExchangeRateProps) {
+        this._id = id;
+        this._fromCurrency = fromCurrency;
+        this._toCurrency = toCurrency;
+        this._rate = rate;
+        this._date = date;
+        this._source = source;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!CURRENCIES.includes(this._fromCurrency) || !CURRENCIES.includes(this._toCurrency)) {
+            throw new DomainError('Moeda não suportada');
+        }
+        if (this._fromCurrency === this._toCurrency) {
+            throw new DomainError('A cotação deve ser entre moedas diferentes');
+        }
+        if (typeof this._rate !== 'number' || !Number.isFinite(this._rate) || this._rate <= 0) {
+            throw new DomainError('Cotação deve ser maior que zero');
+        }
+        if (!DATE_PATTERN.test(this._date)) {
+            throw new DomainError('Data da cotação inválida (formato esperado: YYYY-MM-DD)');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get fromCurrency(): Currency {
+        return this._fromCurrency;
+    }
+
+    get toCurrency(): Currency {
+        return this._toCurrency;
+    }
+
+    get rate(): number {
+        return this._rate;
+    }
+
+    get date(): string {
+        return this._date;
+    }
+
+    get source(): ExchangeRateSource {
+        return this._source;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Mesmo par de moedas e mesma data (uma cotação por par por dia)
+     */
+    isSameQuote(other: { fromCurrency: Currency; toCurrency: Currency; date: string }): boolean {
+        return this._fromCurrency === other.fromCurrency &&
+               this._toCurrency === other.toCurrency &&
+               this._date === other.date;
+    }
+
+    /**
+     * Factory method para criar ExchangeRate
+     */
+    static create(data: Omit<ExchangeRateProps, 'id'> & { id?: string }): ExchangeRate {
+        return new ExchangeRate({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): ExchangeRateJSON {
+        return {
+            id: this._id,
+            from_currency: this._fromCurrency,
+            to_currency: this._toCurrency,
+            rate: this._rate,
+            date: this._date,
+            source: this._source,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: ExchangeRateJSON): ExchangeRate {
+        return new ExchangeRate({
+            id: json.id,
+            fromCurrency: json.from_currency,
+            toCurrency: json.to_currency,
+            rate: Number(json.rate),
+            date: json.date,
+            source: json.source || 'manual',
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,281 @@
+import { Money, Currency } from '../value-objects/Money';
+import { RecurrenceFrequency, DateUnit, shiftDate } from '../value-objects/RecurrenceRule';
+import { DomainError } from '../errors/AppError';
+
+export type ExpenseCategory = 'material' | 'rent' | 'lab' | 'travel' | 'other';
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = ['material', 'rent', 'lab', 'travel', 'other'];
+
+export interface ExpenseProps {
+    id: string;
+    category: ExpenseCategory;
+    description: string;
+    amount: number;
+    currency?: Currency;
+    /** Data da despesa ou da primeira ocorrência, se recorrente (YYYY-MM-DD) */
+    date: string;
+    clinicId?: string | null;
+    appointmentId?: string | null;
+    /** Procedimento ao qual o custo é atribuído (ex.: limas e guta-percha de um canal) */
+    procedure?: string | null;
+    recurrence?: RecurrenceFrequency | null;
+    /** Última data possível da recorrência; sem data, repete até ser encerrada */
+    recurrenceUntil?: string | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface ExpenseJSON {
+    id: string;
+    category: ExpenseCategory;
+    description: string;
+    amount: number;
+    currency: Currency;
+    date: string;
+    clinic_id: string | null;
+    appointment_id: string | null;
+    procedure: string | null;
+    recurrence: RecurrenceFrequency | null;
+    recurrence_until: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RECURRENCE_UNIT: Record<RecurrenceFrequency, DateUnit> = {
+    daily: 'days',
+    weekly: 'weeks',
+    monthly: 'months'
+};
+
+/**
+ * Entidade de Domínio: Expense
+ * Despesa do consultório (material, aluguel de sala, laboratório, deslocamento),
+ * opcionalmente ligada a uma clínica, a um atendimento e a um procedimento.
+ * ✅ Despesas recorrentes são guardadas uma vez e geram ocorrências por período
+ */
+export class Expense {
+    private readonly _id: string;
+    private readonly _category: ExpenseCategory;
+    private readonly _description: string;
+    private readonly _amount: Money;
+    private readonly _date: string;
+    private readonly _clinicId: string | null;
+    private readonly _appointmentId: string | null;
+    private readonly _procedure: string | null;
+    private readonly _recurrence: RecurrenceFrequency | null;
+    private _recurrenceUntil: string | null;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de Expense
+     * @throws {ValidationError} Se o valor for inválido
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        category,
+        description,
+        amount,
+        currency = 'BRL',
+        date,
+        clinicId = null,
+        appointmentId = null,
+        procedure = null,
+        recurrence = null,
+        recurrenceUntil = null,
+        createdAt,
+        updatedAt
+    }: ExpenseProps) {
+        this._id = id;
+        this._category = category;
+        this._description = description?.trim() ?? '';
+        this._amount = Money.create(amount, currency);
+        this._date = date;
+        this._clinicId = clinicId || null;
+        this._appointmentId = appointmentId || null;
+        this._procedure = procedure?.trim() || null;
+        this._recurrence = recurrence || null;
+        this._recurrenceUntil = recurrenceUntil || null;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!EXPENSE_CATEGORIES.includes(this._category)) {
+            throw new DomainError(`Categoria de despesa inválida: ${this._category}`);
+        }
+        if (!this._description) {
+            throw new DomainError('Descrição da despesa é obrigatória');
+        }
+        if (this._amount.isZero) {
+            throw new DomainError('Valor da despesa deve ser maior que zero');
+        }
+        if (!DATE_PATTERN.test(this._date)) {
+            throw new DomainError('Data da despesa inválida (formato esperado: YYYY-MM-DD)');
+        }
+        if (this._recurrence && !(this._recurrence in RECURRENCE_UNIT)) {
+            throw new DomainError(`Recorrência inválida: ${this._recurrence}`);
+        }
+        if (this._recurrenceUntil && !this._recurrence) {
+            throw new DomainError('Data final só se aplica a despesas recorrentes');
+        }
+        if (this._recurrenceUntil && (!DATE_PATTERN.test(this._recurrenceUntil) || this._recurrenceUntil < this._date)) {
+            throw new DomainError('Data final da recorrência deve ser igual ou posterior à data da despesa');
+        }
+        if (this._recurrence && this._appointmentId) {
+            throw new DomainError('Despesa ligada a um atendimento não pode ser recorrente');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get category(): ExpenseCategory {
+        return this._category;
+    }
+
+    get description(): string {
+        return this._description;
+    }
+
+    get amount(): Money {
+        return this._amount;
+    }
+
+    get date(): string {
+        return this._date;
+    }
+
+    get clinicId(): string | null {
+        return this._clinicId;
+    }
+
+    get appointmentId(): string | null {
+        return this._appointmentId;
+    }
+
+    get procedure(): string | null {
+        return this._procedure;
+    }
+
+    get recurrence(): RecurrenceFrequency | null {
+        return this._recurrence;
+    }
+
+    get recurrenceUntil(): string | null {
+        return this._recurrenceUntil;
+    }
+
+    get isRecurring(): boolean {
+        return this._recurrence !== null;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Datas em que a despesa ocorre no período (YYYY-MM-DD, inclusive)
+     * ✅ Calculadas a partir da data inicial para não acumular ajustes de fim de mês
+     */
+    occurrencesBetween(startDate: string, endDate: string): string[] {
+        if (!this._recurrence) {
+            return this._date >= startDate && this._date <= endDate ? [this._date] : [];
+        }
+
+        const lastDate = this._recurrenceUntil && this._recurrenceUntil < endDate ? this._recurrenceUntil : endDate;
+        const unit = RECURRENCE_UNIT[this._recurrence];
+        const dates: string[] = [];
+        for (let index = 0; ; index++) {
+            const date = shiftDate(this._date, index, unit);
+            if (date > lastDate) break;
+            if (date >= startDate) {
+                dates.push(date);
+            }
+        }
+        return dates;
+    }
+
+    /**
+     * Encerra a recorrência: não há ocorrências depois da data informada
+     * @throws {DomainError} Se a despesa não for recorrente ou a data for anterior ao início
+     */
+    endRecurrence(untilDate: string): void {
+        if (!this._recurrence) {
+            throw new DomainError('Despesa não é recorrente');
+        }
+        if (!DATE_PATTERN.test(untilDate) || untilDate < this._date) {
+            throw new DomainError('Data final da recorrência deve ser igual ou posterior à data da despesa');
+        }
+        this._recurrenceUntil = untilDate;
+        this._updatedAt = new Date();
+    }
+
+    /**
+     * Factory method para criar Expense
+     */
+    static create(data: Omit<ExpenseProps, 'id'> & { id?: string }): Expense {
+        return new Expense({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): ExpenseJSON {
+        return {
+            id: this._id,
+            category: this._category,
+            description: this._description,
+            amount: this._amount.amount,
+            currency: this._amount.currency,
+            date: this._date,
+            clinic_id: this._clinicId,
+            appointment_id: this._appointmentId,
+            procedure: this._procedure,
+            recurrence: this._recurrence,
+            recurrence_until: this._recurrenceUntil,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: ExpenseJSON): Expense {
+        return new Expense({
+            id: json.id,
+            category: json.category,
+            description: json.description,
+            amount: Number(json.amount),
+            currency: json.currency || 'BRL',
+            date: json.date,
+            clinicId: json.clinic_id,
+            appointmentId: json.appointment_id,
+            procedure: json.procedure,
+            recurrence: json.recurrence,
+            recurrenceUntil: json.recurrence_until,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -1,7 +1,45 @@
 import { Name } from '../value-objects/Name';
 import { Email } from '../value-objects/Email';
 import { Phone } from '../value-objects/Phone';
+import { CPF } from '../value-objects/CPF';
+import { Address, AddressProps, AddressJSON } from '../value-objects/Address';
 import { DomainError } from '../errors/AppError';
+import { toISODate } from '../../lib/calendar';
+
+export const PATIENT_SEXES = ['female', 'male', 'other'] as const;
+
+export type PatientSex = typeof PATIENT_SEXES[number];
+
+/** Idade a partir da qual o paciente responde por si */
+export const LEGAL_AGE = 18;
+
+export interface EmergencyContact {
+    name: string;
+    phone: string;
+    relationship?: string | null;
+}
+
+export interface LegalGuardian {
+    name: string;
+    cpf: string;
+    phone?: string | null;
+    relationship?: string | null;
+}
+
+/**
+ * Dados cadastrais complementares (documento, nascimento, endereço e contatos)
+ * Em atualizações, campo ausente = mantém o valor atual; null = limpa
+ */
+export interface PatientRegistration {
+    cpf?: string | null;
+    /** Data de nascimento (YYYY-MM-DD) */
+    birthDate?: string | null;
+    sex?: PatientSex | null;
+    address?: AddressProps | null;
+    occupation?: string | null;
+    emergencyContact?: EmergencyContact | null;
+    guardian?: LegalGuardian | null;
+}
 
 export interface PatientProps {
     id: string;
@@ -12,6 +50,13 @@ export interface PatientProps {
     lastVisit?: string | Date | null;
     createdAt?: string | Date;
     updatedAt?: string | Date;
+    cpf?: string | null;
+    birthDate?: string | null;
+    sex?: PatientSex | null;
+    address?: AddressProps | null;
+    occupation?: string | null;
+    emergencyContact?: EmergencyContact | null;
+    guardian?: LegalGuardian | null;
 }
 
 export interface PatientJSON {
@@ -23,6 +68,13 @@ export interface PatientJSON {
     last_visit: string | null;
     created_at: string;
     updated_at: string;
+    cpf?: string | null;
+    birth_date?: string | null;
+    sex?: PatientSex | null;
+    address?: AddressJSON | null;
+    occupation?: string | null;
+    emergency_contact?: EmergencyContact | null;
+    guardian?: LegalGuardian | null;
 }
 
 /**
@@ -37,11 +89,18 @@ export class Patient {
     private _lastVisit: Date | null;
     private readonly _createdAt: Date;
     private _updatedAt: Date;
+    private _cpf: CPF | null = null;
+    private _birthDate: string | null = null;
+    private _sex: PatientSex | null = null;
+    private _address: Address | null = null;
+    private _occupation: string | null = null;
+    private _emergencyContact: EmergencyContact | null = null;
+    private _guardian: LegalGuardian | null = null;
 
     /**
      * Cria uma instância de Patient
      */
-    constructor({ id, name, email, phone, userId, lastVisit, createdAt, updatedAt }: PatientProps) {
+    constructor({ id, name, email, phone, userId, lastVisit, createdAt, updatedAt, ...registration }: PatientProps) {
         this._id = id;
         this._name = Name.create(name)!;
         this._email = email ? Email.create(email) : null;
@@ -50,6 +109,7 @@ export class Patient {
         this._lastVisit = lastVisit ? new Date(lastVisit) : null;
         this._createdAt = createdAt ? new Date(createdAt) : new Date();
         this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+        this.applyRegistration(registration);
         
         this.validateInvariants();
     }
@@ -68,6 +128,12 @@ export class Patient {
         if (this._lastVisit && this._lastVisit > new Date()) {
             throw new DomainError('Data de última visita não pode ser no futuro');
         }
+        if (this._birthDate && this._birthDate > today()) {
+            throw new DomainError('Data de nascimento não pode ser no futuro');
+        }
+        if (this.isMinor && !this._guardian) {
+            throw new DomainError('Responsável legal é obrigatório para pacientes menores de idade');
+        }
     }
     
     // Getters
@@ -102,6 +168,69 @@ export class Patient {
     get updatedAt(): Date {
         return this._updatedAt;
     }
+
+    /**
+     * CPF só com dígitos
+     */
+    get cpf(): string | null {
+        return this._cpf?.toString() || null;
+    }
+
+    get birthDate(): string | null {
+        return this._birthDate;
+    }
+
+    get sex(): PatientSex | null {
+        return this._sex;
+    }
+
+    get address(): Address | null {
+        return this._address;
+    }
+
+    get occupation(): string | null {
+        return this._occupation;
+    }
+
+    get emergencyContact(): EmergencyContact | null {
+        return this._emergencyContact ? { ...this._emergencyContact } : null;
+    }
+
+    get guardian(): LegalGuardian | null {
+        return this._guardian ? { ...this._guardian } : null;
+    }
+
+    /**
+     * Idade em anos completos (null sem data de nascimento)
+     */
+    get age(): number | null {
+        return this.ageAt(today());
+    }
+
+    /**
+     * Paciente menor de idade (sem data de nascimento, não é considerado menor)
+     */
+    get isMinor(): boolean {
+        const age = this.age;
+        return age !== null && age < LEGAL_AGE;
+    }
+
+    /**
+     * Idade em anos completos numa data (YYYY-MM-DD)
+     */
+    ageAt(date: string): number | null {
+        return this._birthDate ? Patient.ageBetween(this._birthDate, date) : null;
+    }
+
+    /**
+     * Idade em anos completos de quem nasceu em birthDate, numa data (ambas YYYY-MM-DD)
+     */
+    static ageBetween(birthDate: string, date: string): number {
+        const [birthYear, birthMonth, birthDay] = birthDate.split('-').map(Number);
+        const [year, month, day] = date.split('-').map(Number);
+        const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+        return year - birthYear - (hadBirthday ? 0 : 1);
+    }
     
     /**
      * Atualiza o nome do paciente
@@ -142,6 +271,53 @@ export class Patient {
         this.validateInvariants();
     }
     
+    /**
+     * Atualiza os dados cadastrais complementares
+     * ✅ Aplicados juntos e validados uma vez só (ex.: data de nascimento de menor + responsável)
+     */
+    updateRegistration(registration: PatientRegistration): void {
+        this.applyRegistration(registration);
+        this._updatedAt = new Date();
+        this.validateInvariants();
+    }
+
+    /**
+     * Aplica os campos informados, normalizando CPF, endereço e contatos
+     * @throws {ValidationError} Se CPF, endereço ou telefone forem inválidos
+     * @throws {DomainError} Se data de nascimento, contato ou responsável forem inválidos
+     */
+    private applyRegistration(registration: PatientRegistration): void {
+        const { cpf, birthDate, sex, address, occupation, emergencyContact, guardian } = registration;
+
+        if (cpf !== undefined) {
+            this._cpf = CPF.create(cpf);
+        }
+        if (birthDate !== undefined) {
+            if (birthDate && !isValidDate(birthDate)) {
+                throw new DomainError(`Data de nascimento inválida: ${birthDate}`);
+            }
+            this._birthDate = birthDate || null;
+        }
+        if (sex !== undefined) {
+            if (sex && !PATIENT_SEXES.includes(sex)) {
+                throw new DomainError(`Sexo inválido: ${sex}`);
+            }
+            this._sex = sex || null;
+        }
+        if (address !== undefined) {
+            this._address = Address.create(address);
+        }
+        if (occupation !== undefined) {
+            this._occupation = occupation?.trim() || null;
+        }
+        if (emergencyContact !== undefined) {
+            this._emergencyContact = emergencyContact ? normalizeEmergencyContact(emergencyContact) : null;
+        }
+        if (guardian !== undefined) {
+            this._guardian = guardian ? normalizeGuardian(guardian) : null;
+        }
+    }
+    
     /**
      * Factory method para criar Patient
      */
@@ -166,7 +342,14 @@ export class Patient {
             user_id: this._userId,
             last_visit: this._lastVisit?.toISOString().split('T')[0] || null,
             created_at: this._createdAt.toISOString(),
-            updated_at: this._updatedAt.toISOString()
+            updated_at: this._updatedAt.toISOString(),
+            cpf: this.cpf,
+            birth_date: this._birthDate,
+            sex: this._sex,
+            address: this._address?.toJSON() || null,
+            occupation: this._occupation,
+            emergency_contact: this.emergencyContact,
+            guardian: this.guardian
         };
     }
     
@@ -190,8 +373,56 @@ export class Patient {
             userId: json.user_id,
             lastVisit: json.last_visit,
             createdAt: json.created_at,
-            updatedAt: json.updated_at
+            updatedAt: json.updated_at,
+            cpf: json.cpf ?? null,
+            birthDate: json.birth_date ?? null,
+            sex: json.sex ?? null,
+            address: json.address
+                ? {
+                    street: json.address.street,
+                    number: json.address.number,
+                    complement: json.address.complement,
+                    neighborhood: json.address.neighborhood,
+                    city: json.address.city,
+                    state: json.address.state,
+                    zipCode: json.address.zip_code
+                }
+                : null,
+            occupation: json.occupation ?? null,
+            emergencyContact: json.emergency_contact ?? null,
+            guardian: json.guardian ?? null
         });
     }
 }
 
+const today = (): string => toISODate(new Date());
+
+const isValidDate = (value: string): boolean => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    // Datas como 2030-02-31 viram outro dia em vez de inválidas
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+function normalizeEmergencyContact(contact: EmergencyContact): EmergencyContact {
+    if (!contact.name?.trim()) {
+        throw new DomainError('Nome do contato de emergência é obrigatório');
+    }
+    return {
+        name: contact.name.trim(),
+        phone: new Phone(contact.phone).toString(),
+        relationship: contact.relationship?.trim() || null
+    };
+}
+
+function normalizeGuardian(guardian: LegalGuardian): LegalGuardian {
+    if (!guardian.name?.trim()) {
+        throw new DomainError('Nome do responsável legal é obrigatório');
+    }
+    return {
+        name: guardian.name.trim(),
+        cpf: new CPF(guardian.cpf).toString(),
+        phone: Phone.create(guardian.phone)?.toString() || null,
+        relationship: guardian.relationship?.trim() || null
+    };
+}
@@ -0,0 +1,352 @@
+import { Money, Currency } from '../value-objects/Money';
+import { shiftDate } from '../value-objects/RecurrenceRule';
+import { DomainError } from '../errors/AppError';
+
+/**
+ * Forma de pagamento
+ */
+export type PaymentMethod = 'cash' | 'pix' | 'credit_card' | 'debit_card' | 'bank_transfer' | 'insurance' | 'other';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'pix', 'credit_card', 'debit_card', 'bank_transfer', 'insurance', 'other'];
+
+/** Máximo de parcelas no cartão de crédito */
+export const MAX_CARD_INSTALLMENTS = 12;
+
+/** Intervalo entre os repasses das parcelas do cartão pela adquirente */
+const CARD_INSTALLMENT_INTERVAL_DAYS = 30;
+
+/**
+ * Condições de recebimento de um pagamento, calculadas pela taxa da forma de pagamento
+ */
+export interface SettlementTerms {
+    feeAmount: number;
+    /** Dias entre o pagamento e o crédito na conta */
+    settlementDays: number;
+    /** Parcelas no cartão de crédito (1 = à vista) */
+    cardInstallments: number | null;
+}
+
+/**
+ * Crédito previsto na conta (um por parcela do cartão)
+ */
+export interface ExpectedSettlement {
+    /** YYYY-MM-DD */
+    date: string;
+    amount: Money;
+}
+
+export interface PaymentProps {
+    id: string;
+    appointmentId: string;
+    amount: number;
+    currency?: Currency;
+    /** Vencimento da parcela (YYYY-MM-DD); null para pagamento avulso */
+    dueDate?: string | null;
+    /** Data em que foi pago (YYYY-MM-DD); null enquanto a parcela está em aberto */
+    paidDate?: string | null;
+    method?: PaymentMethod | null;
+    /** Posição no parcelamento (1 = primeira parcela) */
+    installmentNumber?: number | null;
+    installmentCount?: number | null;
+    /** Parcelas no cartão de crédito (só para credit_card) */
+    cardInstallments?: number | null;
+    /** Taxa descontada pela forma de pagamento (maquininha, convênio) */
+    feeAmount?: number;
+    /** Prazo de recebimento vigente quando o pagamento foi registrado */
+    settlementDays?: number | null;
+    notes?: string | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface PaymentJSON {
+    id: string;
+    appointment_id: string;
+    amount: number;
+    currency: Currency;
+    due_date: string | null;
+    paid_date: string | null;
+    method: PaymentMethod | null;
+    installment_number: number | null;
+    installment_count: number | null;
+    card_installments: number | null;
+    fee_amount: number;
+    settlement_days: number | null;
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Entidade de Domínio: Payment
+ * Pagamento (ou parcela) de um agendamento.
+ * ✅ Parcelas nascem em aberto com vencimento e passam a contar no saldo quando pagas
+ */
+export class Payment {
+    private readonly _id: string;
+    private readonly _appointmentId: string;
+    private readonly _amount: Money;
+    private readonly _dueDate: string | null;
+    private _paidDate: string | null;
+    private _method: PaymentMethod | null;
+    private readonly _installmentNumber: number | null;
+    private readonly _installmentCount: number | null;
+    private _cardInstallments: number | null;
+    private _fee: Money;
+    private _settlementDays: number | null;
+    private _notes: string | null;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de Payment
+     */
+    constructor({
+        id,
+        appointmentId,
+        amount,
+        currency = 'BRL',
+        dueDate = null,
+        paidDate = null,
+        method = null,
+        installmentNumber = null,
+        installmentCount = null,
+        cardInstallments = null,
+        feeAmount = 0,
+        settlementDays = null,
+        notes = null,
+        createdAt,
+        updatedAt
+    }: PaymentProps) {
+        this._id = id;
+        this._appointmentId = appointmentId;
+        this._amount = Money.create(amount, currency);
+        this._dueDate = dueDate;
+        this._paidDate = paidDate;
+        this._method = method;
+        this._installmentNumber = installmentNumber;
+        this._installmentCount = installmentCount;
+        this._cardInstallments = cardInstallments;
+        this._fee = Money.create(feeAmount, currency);
+        this._settlementDays = settlementDays;
+        this._notes = notes?.trim() || null;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._appointmentId) {
+            throw new DomainError('Agendamento é obrigatório');
+        }
+        if (this._amount.amount <= 0) {
+            throw new DomainError('Valor do pagamento deve ser maior que zero');
+        }
+        if (this._dueDate !== null && !DATE_PATTERN.test(this._dueDate)) {
+            throw new DomainError('Data de vencimento inválida (formato esperado: YYYY-MM-DD)');
+        }
+        if (this._paidDate !== null && !DATE_PATTERN.test(this._paidDate)) {
+            throw new DomainError('Data de pagamento inválida (formato esperado: YYYY-MM-DD)');
+        }
+        if (this._paidDate === null && this._dueDate === null) {
+            throw new DomainError('Parcela em aberto deve ter data de vencimento');
+        }
+        if (this._method !== null && !PAYMENT_METHODS.includes(this._method)) {
+            throw new DomainError(`Forma de pagamento inválida: ${this._method}`);
+        }
+        if (this._installmentNumber !== null &&
+            (this._installmentCount === null || this._installmentNumber < 1 || this._installmentNumber > this._installmentCount)) {
+            throw new DomainError('Número da parcela inválido');
+        }
+        if (this._cardInstallments !== null &&
+            (this._method !== 'credit_card' || !Number.isInteger(this._cardInstallments) ||
+                this._cardInstallments < 1 || this._cardInstallments > MAX_CARD_INSTALLMENTS)) {
+            throw new DomainError(`Parcelas no cartão devem estar entre 1 e ${MAX_CARD_INSTALLMENTS} (só para cartão de crédito)`);
+        }
+        if (this._fee.cents > this._amount.cents) {
+            throw new DomainError('Taxa não pode ser maior que o valor do pagamento');
+        }
+        if (this._settlementDays !== null && (!Number.isInteger(this._settlementDays) || this._settlementDays < 0)) {
+            throw new DomainError('Prazo de recebimento inválido');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get appointmentId(): string {
+        return this._appointmentId;
+    }
+
+    get amount(): Money {
+        return this._amount;
+    }
+
+    get dueDate(): string | null {
+        return this._dueDate;
+    }
+
+    get paidDate(): string | null {
+        return this._paidDate;
+    }
+
+    get method(): PaymentMethod | null {
+        return this._method;
+    }
+
+    get installmentNumber(): number | null {
+        return this._installmentNumber;
+    }
+
+    get installmentCount(): number | null {
+        return this._installmentCount;
+    }
+
+    get cardInstallments(): number | null {
+        return this._cardInstallments;
+    }
+
+    get fee(): Money {
+        return this._fee;
+    }
+
+    /** Valor que de fato entra na conta (valor menos taxa) */
+    get netAmount(): Money {
+        return this._amount.subtract(this._fee);
+    }
+
+    get settlementDays(): number | null {
+        return this._settlementDays;
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    get isPaid(): boolean {
+        return this._paidDate !== null;
+    }
+
+    /**
+     * Parcela em aberto com vencimento anterior à data informada (YYYY-MM-DD)
+     */
+    isOverdue(today: string): boolean {
+        return !this.isPaid && this._dueDate !== null && this._dueDate < today;
+    }
+
+    /**
+     * Créditos previstos na conta: um por parcela do cartão, a cada 30 dias
+     * a partir do prazo de recebimento; vazio enquanto não pago
+     * ✅ Os centavos que sobram da divisão vão para os primeiros créditos
+     */
+    expectedSettlements(): ExpectedSettlement[] {
+        if (!this._paidDate) {
+            return [];
+        }
+        const firstDate = shiftDate(this._paidDate, this._settlementDays ?? 0, 'days');
+        const net = this.netAmount;
+        if (net.isZero) {
+            return [];
+        }
+        const count = Math.min(this._cardInstallments ?? 1, net.cents);
+
+        return net.allocate(Array(count).fill(1)).map((amount, index) => ({
+            date: shiftDate(firstDate, index * CARD_INSTALLMENT_INTERVAL_DAYS, 'days'),
+            amount
+        }));
+    }
+
+    /**
+     * Registra o pagamento de uma parcela em aberto
+     * @param terms - Taxa e prazo da forma de pagamento; sem elas, recebimento integral no dia
+     * @throws {DomainError} Se a parcela já foi paga
+     */
+    markPaid(paidDate: string, method: PaymentMethod | null = this._method, terms: SettlementTerms | null = null): void {
+        if (this.isPaid) {
+            throw new DomainError('Parcela já está paga');
+        }
+        this._paidDate = paidDate;
+        this._method = method;
+        this._cardInstallments = terms?.cardInstallments ?? null;
+        this._fee = Money.create(terms?.feeAmount ?? 0, this._amount.currency);
+        this._settlementDays = terms?.settlementDays ?? null;
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar Payment
+     */
+    static create(data: Omit<PaymentProps, 'id'> & { id?: string }): Payment {
+        return new Payment({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): PaymentJSON {
+        return {
+            id: this._id,
+            appointment_id: this._appointmentId,
+            amount: this._amount.amount,
+            currency: this._amount.currency,
+            due_date: this._dueDate,
+            paid_date: this._paidDate,
+            method: this._method,
+            installment_number: this._installmentNumber,
+            installment_count: this._installmentCount,
+            card_installments: this._cardInstallments,
+            fee_amount: this._fee.amount,
+            settlement_days: this._settlementDays,
+            notes: this._notes,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: PaymentJSON): Payment {
+        return new Payment({
+            id: json.id,
+            appointmentId: json.appointment_id,
+            amount: Number(json.amount),
+            currency: json.currency || 'BRL',
+            dueDate: json.due_date,
+            paidDate: json.paid_date,
+            method: json.method,
+            installmentNumber: json.installment_number,
+            installmentCount: json.installment_count,
+            cardInstallments: json.card_installments ?? null,
+            feeAmount: Number(json.fee_amount ?? 0),
+            settlementDays: json.settlement_days ?? null,
+            notes: json.notes,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,211 @@
+import { Money } from '../value-objects/Money';
+import { PaymentMethod, PAYMENT_METHODS, MAX_CARD_INSTALLMENTS, SettlementTerms } from './Payment';
+import { DomainError } from '../errors/AppError';
+
+export interface PaymentMethodFeeProps {
+    id: string;
+    method: PaymentMethod;
+    /** Taxa percentual sobre o valor (ex.: 1.99 para débito) */
+    percentage?: number;
+    /** Percentual adicional por parcela do cartão além da primeira */
+    installmentPercentage?: number;
+    /** Tarifa fixa por transação, na moeda do pagamento */
+    fixedAmount?: number;
+    /** Dias entre o pagamento e o crédito na conta (ex.: 1 para débito, 30 para crédito) */
+    settlementDays?: number;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface PaymentMethodFeeJSON {
+    id: string;
+    method: PaymentMethod;
+    percentage: number;
+    installment_percentage: number;
+    fixed_amount: number;
+    settlement_days: number;
+    created_at: string;
+    updated_at: string;
+}
+
+const MAX_SETTLEMENT_DAYS = 365;
+
+/**
+ * Entidade de Domínio: PaymentMethodFee
+ * Taxa e prazo de recebimento de uma forma de pagamento (maquininha, convênio).
+ * ✅ Os pagamentos guardam a taxa calculada no registro; mudar a configuração
+ * não altera o líquido de pagamentos antigos
+ */
+export class PaymentMethodFee {
+    private readonly _id: string;
+    private readonly _method: PaymentMethod;
+    private _percentage: number;
+    private _installmentPercentage: number;
+    private _fixedAmount: number;
+    private _settlementDays: number;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de PaymentMethodFee
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        method,
+        percentage = 0,
+        installmentPercentage = 0,
+        fixedAmount = 0,
+        settlementDays = 0,
+        createdAt,
+        updatedAt
+    }: PaymentMethodFeeProps) {
+        this._id = id;
+        this._method = method;
+        this._percentage = percentage;
+        this._installmentPercentage = installmentPercentage;
+        this._fixedAmount = fixedAmount;
+        this._settlementDays = settlementDays;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!PAYMENT_METHODS.includes(this._method)) {
+            throw new DomainError(`Forma de pagamento inválida: ${this._method}`);
+        }
+        if (this._percentage < 0 || this._percentage > 100 || this._installmentPercentage < 0 || this._installmentPercentage > 100) {
+            throw new DomainError('Taxa percentual deve estar entre 0 e 100');
+        }
+        if (this._installmentPercentage > 0 && this._method !== 'credit_card') {
+            throw new DomainError('Taxa por parcela só se aplica ao cartão de crédito');
+        }
+        if (this._fixedAmount < 0) {
+            throw new DomainError('Tarifa fixa não pode ser negativa');
+        }
+        if (!Number.isInteger(this._settlementDays) || this._settlementDays < 0 || this._settlementDays > MAX_SETTLEMENT_DAYS) {
+            throw new DomainError(`Prazo de recebimento deve estar entre 0 e ${MAX_SETTLEMENT_DAYS} dias`);
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get method(): PaymentMethod {
+        return this._method;
+    }
+
+    get percentage(): number {
+        return this._percentage;
+    }
+
+    get installmentPercentage(): number {
+        return this._installmentPercentage;
+    }
+
+    get fixedAmount(): number {
+        return this._fixedAmount;
+    }
+
+    get settlementDays(): number {
+        return this._settlementDays;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Taxa sobre um pagamento: percentual (mais o adicional por parcela do cartão)
+     * e tarifa fixa, limitada ao próprio valor
+     */
+    calculateFee(amount: Money, cardInstallments: number = 1): Money {
+        const extraInstallments = Math.max(0, Math.min(cardInstallments, MAX_CARD_INSTALLMENTS) - 1);
+        const percent = this._percentage + this._installmentPercentage * extraInstallments;
+        const fee = amount.percentage(percent).add(Money.create(this._fixedAmount, amount.currency));
+
+        return fee.min(amount);
+    }
+
+    /**
+     * Condições de recebimento de um pagamento nesta forma de pagamento
+     */
+    termsFor(amount: Money, cardInstallments: number | null = null): SettlementTerms {
+        const installments = this._method === 'credit_card' ? cardInstallments ?? 1 : null;
+        return {
+            feeAmount: this.calculateFee(amount, installments ?? 1).amount,
+            settlementDays: this._settlementDays,
+            cardInstallments: installments
+        };
+    }
+
+    /**
+     * Atualiza taxas e prazo
+     * @throws {DomainError} Se os novos valores forem inválidos
+     */
+    update(data: Partial<Pick<PaymentMethodFeeProps, 'percentage' | 'installmentPercentage' | 'fixedAmount' | 'settlementDays'>>): void {
+        if (data.percentage !== undefined) this._percentage = data.percentage;
+        if (data.installmentPercentage !== undefined) this._installmentPercentage = data.installmentPercentage;
+        if (data.fixedAmount !== undefined) this._fixedAmount = data.fixedAmount;
+        if (data.settlementDays !== undefined) this._settlementDays = data.settlementDays;
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar PaymentMethodFee
+     */
+    static create(data: Omit<PaymentMethodFeeProps, 'id'> & { id?: string }): PaymentMethodFee {
+        return new PaymentMethodFee({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): PaymentMethodFeeJSON {
+        return {
+            id: this._id,
+            method: this._method,
+            percentage: this._percentage,
+            installment_percentage: this._installmentPercentage,
+            fixed_amount: this._fixedAmount,
+            settlement_days: this._settlementDays,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: PaymentMethodFeeJSON): PaymentMethodFee {
+        return new PaymentMethodFee({
+            id: json.id,
+            method: json.method,
+            percentage: Number(json.percentage ?? 0),
+            installmentPercentage: Number(json.installment_percentage ?? 0),
+            fixedAmount: Number(json.fixed_amount ?? 0),
+            settlementDays: Number(json.settlement_days ?? 0),
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
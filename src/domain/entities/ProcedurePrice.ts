@@ -0,0 +1,175 @@
+import { Money, Currency } from '../value-objects/Money';
+import { DomainError } from '../errors/AppError';
+
+export interface ProcedurePriceProps {
+    id: string;
+    clinicId: string;
+    procedureId: string;
+    price: number;
+    currency?: Currency;
+    /** Início da vigência (YYYY-MM-DD) */
+    effectiveFrom: string;
+    notes?: string | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface ProcedurePriceJSON {
+    id: string;
+    clinic_id: string;
+    procedure_id: string;
+    price: number;
+    currency: Currency;
+    effective_from: string;
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Entidade de Domínio: ProcedurePrice
+ * Preço de tabela de um procedimento em uma clínica a partir de uma data.
+ * ✅ Preços não são editados: um reajuste é uma nova versão com nova vigência,
+ * então a tabela de qualquer data passada continua disponível para conferência
+ */
+export class ProcedurePrice {
+    private readonly _id: string;
+    private readonly _clinicId: string;
+    private readonly _procedureId: string;
+    private readonly _price: Money;
+    private readonly _effectiveFrom: string;
+    private readonly _notes: string | null;
+    private readonly _createdAt: Date;
+    private readonly _updatedAt: Date;
+
+    /**
+     * Cria uma instância de ProcedurePrice
+     * @throws {ValidationError} Se o preço for inválido
+     */
+    constructor({
+        id,
+        clinicId,
+        procedureId,
+        price,
+        currency = 'BRL',
+        effectiveFrom,
+        notes = null,
+        createdAt,
+        updatedAt
+    }: ProcedurePriceProps) {
+        this._id = id;
+        this._clinicId = clinicId;
+        this._procedureId = procedureId;
+        this._price = Money.create(price, currency);
+        this._effectiveFrom = effectiveFrom;
+        this._notes = notes?.trim() || null;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._clinicId) {
+            throw new DomainError('Clínica é obrigatória');
+        }
+        if (!this._procedureId) {
+            throw new DomainError('Procedimento é obrigatório');
+        }
+        if (!DATE_PATTERN.test(this._effectiveFrom)) {
+            throw new DomainError('Início da vigência inválido (formato esperado: YYYY-MM-DD)');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get clinicId(): string {
+        return this._clinicId;
+    }
+
+    get procedureId(): string {
+        return this._procedureId;
+    }
+
+    get price(): Money {
+        return this._price;
+    }
+
+    get effectiveFrom(): string {
+        return this._effectiveFrom;
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Já vigente na data informada (YYYY-MM-DD)
+     */
+    isEffectiveOn(date: string): boolean {
+        return this._effectiveFrom <= date;
+    }
+
+    /**
+     * Factory method para criar ProcedurePrice
+     */
+    static create(data: Omit<ProcedurePriceProps, 'id'> & { id?: string }): ProcedurePrice {
+        return new ProcedurePrice({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): ProcedurePriceJSON {
+        return {
+            id: this._id,
+            clinic_id: this._clinicId,
+            procedure_id: this._procedureId,
+            price: this._price.amount,
+            currency: this._price.currency,
+            effective_from: this._effectiveFrom,
+            notes: this._notes,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: ProcedurePriceJSON): ProcedurePrice {
+        return new ProcedurePrice({
+            id: json.id,
+            clinicId: json.clinic_id,
+            procedureId: json.procedure_id,
+            price: Number(json.price),
+            currency: json.currency || 'BRL',
+            effectiveFrom: json.effective_from,
+            notes: json.notes,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
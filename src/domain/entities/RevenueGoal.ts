@@ -0,0 +1,184 @@
+import { Currency, CURRENCIES } from '../value-objects/Money';
+import { DomainError } from '../errors/AppError';
+
+export interface RevenueGoalProps {
+    id: string;
+    /** Mês da meta (YYYY-MM) */
+    month: string;
+    /** Clínica da meta; null para a meta geral do mês */
+    clinicId?: string | null;
+    /** Receita esperada (parte do profissional), na moeda da meta */
+    revenueTarget?: number;
+    /** Quantidade de atendimentos realizados esperada */
+    appointmentTarget?: number;
+    currency?: Currency;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface RevenueGoalJSON {
+    id: string;
+    month: string;
+    clinic_id: string | null;
+    revenue_target: number;
+    appointment_target: number;
+    currency: Currency;
+    created_at: string;
+    updated_at: string;
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Entidade de Domínio: RevenueGoal
+ * Meta mensal de receita e de atendimentos, geral ou de uma clínica.
+ * ✅ Uma meta por mês e clínica; o acompanhamento fica no ForecastDomainService
+ */
+export class RevenueGoal {
+    private readonly _id: string;
+    private readonly _month: string;
+    private readonly _clinicId: string | null;
+    private _revenueTarget: number;
+    private _appointmentTarget: number;
+    private _currency: Currency;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de RevenueGoal
+     * @throws {DomainError} Se invariantes violados
+     */
+    constructor({
+        id,
+        month,
+        clinicId = null,
+        revenueTarget = 0,
+        appointmentTarget = 0,
+        currency = 'BRL',
+        createdAt,
+        updatedAt
+    }: RevenueGoalProps) {
+        this._id = id;
+        this._month = month;
+        this._clinicId = clinicId;
+        this._revenueTarget = revenueTarget;
+        this._appointmentTarget = appointmentTarget;
+        this._currency = currency;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!MONTH_PATTERN.test(this._month)) {
+            throw new DomainError('Mês da meta inválido (formato esperado: YYYY-MM)');
+        }
+        if (!CURRENCIES.includes(this._currency)) {
+            throw new DomainError(`Moeda inválida: ${this._currency}`);
+        }
+        if (this._revenueTarget < 0) {
+            throw new DomainError('Meta de receita não pode ser negativa');
+        }
+        if (!Number.isInteger(this._appointmentTarget) || this._appointmentTarget < 0) {
+            throw new DomainError('Meta de atendimentos deve ser um número inteiro não negativo');
+        }
+        if (this._revenueTarget === 0 && this._appointmentTarget === 0) {
+            throw new DomainError('Informe a meta de receita ou de atendimentos');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get month(): string {
+        return this._month;
+    }
+
+    get clinicId(): string | null {
+        return this._clinicId;
+    }
+
+    get revenueTarget(): number {
+        return this._revenueTarget;
+    }
+
+    get appointmentTarget(): number {
+        return this._appointmentTarget;
+    }
+
+    get currency(): Currency {
+        return this._currency;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Atualiza os valores da meta (mês e clínica não mudam)
+     * @throws {DomainError} Se os novos valores forem inválidos
+     */
+    update(data: Partial<Pick<RevenueGoalProps, 'revenueTarget' | 'appointmentTarget' | 'currency'>>): void {
+        if (data.revenueTarget !== undefined) this._revenueTarget = data.revenueTarget;
+        if (data.appointmentTarget !== undefined) this._appointmentTarget = data.appointmentTarget;
+        if (data.currency !== undefined) this._currency = data.currency;
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar RevenueGoal
+     */
+    static create(data: Omit<RevenueGoalProps, 'id'> & { id?: string }): RevenueGoal {
+        return new RevenueGoal({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): RevenueGoalJSON {
+        return {
+            id: this._id,
+            month: this._month,
+            clinic_id: this._clinicId,
+            revenue_target: this._revenueTarget,
+            appointment_target: this._appointmentTarget,
+            currency: this._currency,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: RevenueGoalJSON): RevenueGoal {
+        return new RevenueGoal({
+            id: json.id,
+            month: json.month,
+            clinicId: json.clinic_id,
+            revenueTarget: Number(json.revenue_target ?? 0),
+            appointmentTarget: Number(json.appointment_target ?? 0),
+            currency: json.currency,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,317 @@
+import { Currency } from '../value-objects/Money';
+import { DomainError } from '../errors/AppError';
+
+/**
+ * Situação do demonstrativo de repasse
+ * issued = emitido e enviado à clínica; settled = valores acertados
+ */
+export type SettlementStatus = 'issued' | 'settled';
+
+export const SETTLEMENT_STATUSES: SettlementStatus[] = ['issued', 'settled'];
+
+/**
+ * Linha do demonstrativo (cópia dos valores do agendamento no momento da emissão)
+ */
+export interface SettlementLine {
+    appointmentId: string;
+    /** Data do atendimento (YYYY-MM-DD) */
+    date: string;
+    patientName: string | null;
+    procedure: string;
+    grossValue: number;
+    /** Parte do profissional (PaymentType do agendamento) */
+    ourShare: number;
+    /** Parte da clínica (valor bruto menos a parte do profissional) */
+    clinicShare: number;
+}
+
+export interface SettlementTotals {
+    gross: number;
+    ourShare: number;
+    clinicShare: number;
+}
+
+export interface SettlementStatementProps {
+    id: string;
+    clinicId: string;
+    /** Início do período (YYYY-MM-DD, inclusive) */
+    periodStart: string;
+    /** Fim do período (YYYY-MM-DD, inclusive) */
+    periodEnd: string;
+    currency?: Currency;
+    lines: SettlementLine[];
+    status?: SettlementStatus;
+    notes?: string | null;
+    issuedAt?: string | Date;
+    settledAt?: string | Date | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface SettlementLineJSON {
+    appointment_id: string;
+    date: string;
+    patient_name: string | null;
+    procedure: string;
+    gross_value: number;
+    our_share: number;
+    clinic_share: number;
+}
+
+export interface SettlementStatementJSON {
+    id: string;
+    clinic_id: string;
+    period_start: string;
+    period_end: string;
+    currency: Currency;
+    lines: SettlementLineJSON[];
+    total_gross: number;
+    total_our_share: number;
+    total_clinic_share: number;
+    status: SettlementStatus;
+    notes: string | null;
+    issued_at: string;
+    settled_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const sumCents = (lines: SettlementLine[], field: keyof Pick<SettlementLine, 'grossValue' | 'ourShare' | 'clinicShare'>) =>
+    lines.reduce((sum, line) => sum + Math.round(line[field] * 100), 0) / 100;
+
+/**
+ * Entidade de Domínio: SettlementStatement
+ * Demonstrativo de repasse de uma clínica parceira em um período.
+ * ✅ As linhas são congeladas na emissão; depois disso só a situação muda (emitido → acertado)
+ */
+export class SettlementStatement {
+    private readonly _id: string;
+    private readonly _clinicId: string;
+    private readonly _periodStart: string;
+    private readonly _periodEnd: string;
+    private readonly _currency: Currency;
+    private readonly _lines: SettlementLine[];
+    private _status: SettlementStatus;
+    private readonly _notes: string | null;
+    private readonly _issuedAt: Date;
+    private _settledAt: Date | null;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de SettlementStatement
+     */
+    constructor({
+        id,
+        clinicId,
+        periodStart,
+        periodEnd,
+        currency = 'BRL',
+        lines,
+        status = 'issued',
+        notes = null,
+        issuedAt,
+        settledAt = null,
+        createdAt,
+        updatedAt
+    }: SettlementStatementProps) {
+        this._id = id;
+        this._clinicId = clinicId;
+        this._periodStart = periodStart;
+        this._periodEnd = periodEnd;
+        this._currency = currency;
+        this._lines = lines.map(line => ({ ...line }));
+        this._status = status;
+        this._notes = notes?.trim() || null;
+        this._issuedAt = issuedAt ? new Date(issuedAt) : new Date();
+        this._settledAt = settledAt ? new Date(settledAt) : null;
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._clinicId) {
+            throw new DomainError('Clínica é obrigatória');
+        }
+        if (!DATE_PATTERN.test(this._periodStart) || !DATE_PATTERN.test(this._periodEnd)) {
+            throw new DomainError('Período inválido (formato esperado: YYYY-MM-DD)');
+        }
+        if (this._periodStart > this._periodEnd) {
+            throw new DomainError('Início do período deve ser anterior ao fim');
+        }
+        if (this._lines.length === 0) {
+            throw new DomainError('Demonstrativo deve ter ao menos um atendimento');
+        }
+        if (new Set(this._lines.map(line => line.appointmentId)).size !== this._lines.length) {
+            throw new DomainError('Atendimento repetido no demonstrativo');
+        }
+        if (this._lines.some(line => line.date < this._periodStart || line.date > this._periodEnd)) {
+            throw new DomainError('Atendimento fora do período do demonstrativo');
+        }
+        if (!SETTLEMENT_STATUSES.includes(this._status)) {
+            throw new DomainError(`Situação de repasse inválida: ${this._status}`);
+        }
+        if (this._status === 'settled' && !this._settledAt) {
+            throw new DomainError('Repasse acertado deve ter data de acerto');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get clinicId(): string {
+        return this._clinicId;
+    }
+
+    get periodStart(): string {
+        return this._periodStart;
+    }
+
+    get periodEnd(): string {
+        return this._periodEnd;
+    }
+
+    get currency(): Currency {
+        return this._currency;
+    }
+
+    get lines(): SettlementLine[] {
+        return this._lines.map(line => ({ ...line }));
+    }
+
+    get status(): SettlementStatus {
+        return this._status;
+    }
+
+    get isSettled(): boolean {
+        return this._status === 'settled';
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get issuedAt(): Date {
+        return this._issuedAt;
+    }
+
+    get settledAt(): Date | null {
+        return this._settledAt;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Totais do demonstrativo (somados em centavos)
+     */
+    get totals(): SettlementTotals {
+        return {
+            gross: sumCents(this._lines, 'grossValue'),
+            ourShare: sumCents(this._lines, 'ourShare'),
+            clinicShare: sumCents(this._lines, 'clinicShare')
+        };
+    }
+
+    /**
+     * Registra o acerto de contas com a clínica
+     * @throws {DomainError} Se o demonstrativo já foi acertado
+     */
+    settle(at: Date = new Date()): void {
+        if (this.isSettled) {
+            throw new DomainError('Demonstrativo já foi acertado');
+        }
+        this._status = 'settled';
+        this._settledAt = at;
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar SettlementStatement
+     */
+    static create(data: Omit<SettlementStatementProps, 'id'> & { id?: string }): SettlementStatement {
+        return new SettlementStatement({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): SettlementStatementJSON {
+        const totals = this.totals;
+        return {
+            id: this._id,
+            clinic_id: this._clinicId,
+            period_start: this._periodStart,
+            period_end: this._periodEnd,
+            currency: this._currency,
+            lines: this._lines.map(line => ({
+                appointment_id: line.appointmentId,
+                date: line.date,
+                patient_name: line.patientName,
+                procedure: line.procedure,
+                gross_value: line.grossValue,
+                our_share: line.ourShare,
+                clinic_share: line.clinicShare
+            })),
+            total_gross: totals.gross,
+            total_our_share: totals.ourShare,
+            total_clinic_share: totals.clinicShare,
+            status: this._status,
+            notes: this._notes,
+            issued_at: this._issuedAt.toISOString(),
+            settled_at: this._settledAt ? this._settledAt.toISOString() : null,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: SettlementStatementJSON): SettlementStatement {
+        return new SettlementStatement({
+            id: json.id,
+            clinicId: json.clinic_id,
+            periodStart: json.period_start,
+            periodEnd: json.period_end,
+            currency: json.currency || 'BRL',
+            lines: (json.lines ?? []).map(line => ({
+                appointmentId: line.appointment_id,
+                date: line.date,
+                patientName: line.patient_name ?? null,
+                procedure: line.procedure,
+                grossValue: Number(line.gross_value),
+                ourShare: Number(line.our_share),
+                clinicShare: Number(line.clinic_share)
+            })),
+            status: json.status,
+            notes: json.notes,
+            issuedAt: json.issued_at,
+            settledAt: json.settled_at,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
@@ -0,0 +1,453 @@
+import { Money, Currency } from '../value-objects/Money';
+import { Procedure } from '../value-objects/Procedure';
+import { ToothNumber } from '../value-objects/ToothNumber';
+import { DomainError } from '../errors/AppError';
+
+export type TreatmentPlanStatus = 'open' | 'in_progress' | 'finished' | 'abandoned';
+export type TreatmentSessionStatus = 'pending' | 'done';
+
+export interface TreatmentSessionProps {
+    id: string;
+    order: number;
+    description: string;
+    appointmentId?: string | null;
+    status?: TreatmentSessionStatus;
+    completedAt?: string | Date | null;
+}
+
+export interface TreatmentSessionJSON {
+    id: string;
+    plan_id: string;
+    session_order: number;
+    description: string;
+    appointment_id: string | null;
+    status: TreatmentSessionStatus;
+    completed_at: string | null;
+}
+
+/**
+ * Sessão de um plano de tratamento (somente leitura fora do agregado)
+ */
+export interface TreatmentSession {
+    readonly id: string;
+    readonly order: number;
+    readonly description: string;
+    readonly appointmentId: string | null;
+    readonly status: TreatmentSessionStatus;
+    readonly completedAt: Date | null;
+}
+
+export interface TreatmentPlanProps {
+    id: string;
+    patientId: string;
+    tooth?: string | null;
+    procedure: string;
+    totalValue: number;
+    currency?: Currency;
+    status?: TreatmentPlanStatus;
+    notes?: string | null;
+    sessions?: TreatmentSessionProps[];
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface TreatmentPlanJSON {
+    id: string;
+    patient_id: string;
+    tooth: string | null;
+    procedure: string;
+    total_value: number;
+    currency: Currency;
+    status: TreatmentPlanStatus;
+    notes: string | null;
+    sessions: TreatmentSessionJSON[];
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Agendamento faturado por uma sessão do plano
+ */
+export interface BillableAppointment {
+    id: string;
+    value: number;
+    isCancelled?: boolean;
+}
+
+const PLAN_STATUSES: TreatmentPlanStatus[] = ['open', 'in_progress', 'finished', 'abandoned'];
+
+/**
+ * Entidade de Domínio: TreatmentPlan
+ * ✅ Raiz de agregado: as sessões só são alteradas através do plano
+ */
+export class TreatmentPlan {
+    private readonly _id: string;
+    private readonly _patientId: string;
+    private _tooth: string | null;
+    private _procedure: Procedure;
+    private _totalValue: Money;
+    private _status: TreatmentPlanStatus;
+    private _notes: string | null;
+    private _sessions: TreatmentSession[];
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de TreatmentPlan
+     */
+    constructor({
+        id,
+        patientId,
+        tooth = null,
+        procedure,
+        totalValue,
+        currency = 'BRL',
+        status = 'open',
+        notes = null,
+        sessions = [],
+        createdAt,
+        updatedAt
+    }: TreatmentPlanProps) {
+        this._id = id;
+        this._patientId = patientId;
+        // ✅ Dente validado na notação FDI
+        this._tooth = tooth ? ToothNumber.create(tooth).toString() : null;
+        this._procedure = Procedure.create(procedure);
+        this._totalValue = Money.create(totalValue, currency);
+        this._status = status;
+        this._notes = notes;
+        this._sessions = sessions
+            .map(session => ({
+                id: session.id,
+                order: session.order,
+                description: session.description.trim(),
+                appointmentId: session.appointmentId ?? null,
+                status: session.status ?? 'pending',
+                completedAt: session.completedAt ? new Date(session.completedAt) : null
+            }))
+            .sort((a, b) => a.order - b.order);
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._patientId) {
+            throw new DomainError('Paciente é obrigatório');
+        }
+        if (!PLAN_STATUSES.includes(this._status)) {
+            throw new DomainError(`Status de plano inválido: ${this._status}`);
+        }
+        if (this._sessions.some(session => !session.description)) {
+            throw new DomainError('Descrição da sessão é obrigatória');
+        }
+        const linked = this._sessions
+            .map(session => session.appointmentId)
+            .filter((appointmentId): appointmentId is string => !!appointmentId);
+        if (new Set(linked).size !== linked.length) {
+            throw new DomainError('Um agendamento só pode estar vinculado a uma sessão');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get patientId(): string {
+        return this._patientId;
+    }
+
+    get tooth(): string | null {
+        return this._tooth;
+    }
+
+    get procedure(): string {
+        return this._procedure.toString();
+    }
+
+    get totalValue(): number {
+        return this._totalValue.amount;
+    }
+
+    get currency(): Currency {
+        return this._totalValue.currency;
+    }
+
+    get status(): TreatmentPlanStatus {
+        return this._status;
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get sessions(): TreatmentSession[] {
+        return this._sessions.map(session => ({ ...session }));
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    /**
+     * Plano finalizado ou abandonado não aceita alterações
+     */
+    get isClosed(): boolean {
+        return this._status === 'finished' || this._status === 'abandoned';
+    }
+
+    get completedSessions(): number {
+        return this._sessions.filter(session => session.status === 'done').length;
+    }
+
+    get remainingSessions(): number {
+        return this._sessions.length - this.completedSessions;
+    }
+
+    /**
+     * Percentual de sessões concluídas (0-100)
+     */
+    get progress(): number {
+        if (this._sessions.length === 0) return 0;
+        return Math.round((this.completedSessions / this._sessions.length) * 100);
+    }
+
+    /**
+     * Próxima sessão pendente, na ordem do plano
+     */
+    get nextSession(): TreatmentSession | null {
+        const next = this._sessions.find(session => session.status === 'pending');
+        return next ? { ...next } : null;
+    }
+
+    /**
+     * Adiciona uma sessão ao final do plano
+     * @throws {DomainError} Se plano encerrado
+     */
+    addSession(description: string, appointmentId: string | null = null): TreatmentSession {
+        this.ensureOpen();
+        const session: TreatmentSession = {
+            id: crypto.randomUUID(),
+            order: this._sessions.length + 1,
+            description: description.trim(),
+            appointmentId,
+            status: 'pending',
+            completedAt: null
+        };
+        this._sessions = [...this._sessions, session];
+        this.touch();
+        return { ...session };
+    }
+
+    /**
+     * Remove uma sessão pendente e renumera as seguintes
+     * @throws {DomainError} Se sessão já concluída
+     */
+    removeSession(sessionId: string): void {
+        this.ensureOpen();
+        const session = this.getSession(sessionId);
+        if (session.status === 'done') {
+            throw new DomainError('Não é possível remover uma sessão concluída');
+        }
+        this._sessions = this._sessions
+            .filter(item => item.id !== sessionId)
+            .map((item, index) => ({ ...item, order: index + 1 }));
+        this.touch();
+    }
+
+    /**
+     * Vincula (ou desvincula, com null) um agendamento a uma sessão
+     */
+    linkAppointment(sessionId: string, appointmentId: string | null): void {
+        this.ensureOpen();
+        this.getSession(sessionId);
+        this._sessions = this._sessions.map(item =>
+            item.id === sessionId ? { ...item, appointmentId } : item
+        );
+        this.touch();
+    }
+
+    /**
+     * Marca uma sessão como concluída
+     * ✅ O plano passa para "em andamento" e é finalizado ao concluir a última sessão
+     */
+    completeSession(sessionId: string, completedAt: Date = new Date()): void {
+        this.ensureOpen();
+        const session = this.getSession(sessionId);
+        if (session.status === 'done') {
+            throw new DomainError('Sessão já concluída');
+        }
+        this._sessions = this._sessions.map(item =>
+            item.id === sessionId ? { ...item, status: 'done' as const, completedAt } : item
+        );
+        this._status = this.remainingSessions === 0 ? 'finished' : 'in_progress';
+        this.touch();
+    }
+
+    /**
+     * Finaliza o plano manualmente
+     * @throws {DomainError} Se ainda houver sessões pendentes
+     */
+    finish(): void {
+        this.ensureOpen();
+        if (this.remainingSessions > 0) {
+            throw new DomainError('Não é possível finalizar um plano com sessões pendentes');
+        }
+        this._status = 'finished';
+        this.touch();
+    }
+
+    /**
+     * Abandona o plano (paciente não retornou ou desistiu)
+     */
+    abandon(): void {
+        this.ensureOpen();
+        this._status = 'abandoned';
+        this.touch();
+    }
+
+    /**
+     * Atualiza o valor total orçado
+     */
+    updateTotalValue(totalValue: number): void {
+        this.ensureOpen();
+        this._totalValue = Money.create(totalValue, this._totalValue.currency);
+        this.touch();
+    }
+
+    /**
+     * Atualiza observações do plano
+     */
+    updateNotes(notes: string | null): void {
+        this._notes = notes;
+        this.touch();
+    }
+
+    /**
+     * Valor já faturado: soma dos agendamentos vinculados às sessões
+     * Agendamentos cancelados não são considerados
+     */
+    billedValue(appointments: BillableAppointment[]): number {
+        const linked = new Set(
+            this._sessions
+                .map(session => session.appointmentId)
+                .filter((appointmentId): appointmentId is string => !!appointmentId)
+        );
+        return appointments
+            .filter(appointment => linked.has(appointment.id) && !appointment.isCancelled)
+            .reduce(
+                (total, appointment) => total.add(Money.create(appointment.value, this.currency)),
+                Money.create(0, this.currency)
+            ).amount;
+    }
+
+    /**
+     * Saldo ainda a faturar (nunca negativo)
+     */
+    balanceToBill(appointments: BillableAppointment[]): number {
+        return Math.max(0, Math.round((this.totalValue - this.billedValue(appointments)) * 100) / 100);
+    }
+
+    private getSession(sessionId: string): TreatmentSession {
+        const session = this._sessions.find(item => item.id === sessionId);
+        if (!session) {
+            throw new DomainError('Sessão não encontrada no plano de tratamento');
+        }
+        return session;
+    }
+
+    private ensureOpen(): void {
+        if (this.isClosed) {
+            throw new DomainError('Plano de tratamento encerrado não pode ser alterado');
+        }
+    }
+
+    private touch(): void {
+        this._updatedAt = new Date();
+        this.validateInvariants();
+    }
+
+    /**
+     * Factory method para criar TreatmentPlan
+     * Aceita a lista de descrições das sessões previstas
+     */
+    static create(
+        data: Omit<TreatmentPlanProps, 'id' | 'sessions'> & { id?: string; sessions?: string[] }
+    ): TreatmentPlan {
+        return new TreatmentPlan({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            status: 'open',
+            sessions: (data.sessions || []).map((description, index) => ({
+                id: crypto.randomUUID(),
+                order: index + 1,
+                description
+            })),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): TreatmentPlanJSON {
+        return {
+            id: this._id,
+            patient_id: this._patientId,
+            tooth: this._tooth,
+            procedure: this._procedure.toString(),
+            total_value: this._totalValue.amount,
+            currency: this._totalValue.currency,
+            status: this._status,
+            notes: this._notes,
+            sessions: this._sessions.map(session => ({
+                id: session.id,
+                plan_id: this._id,
+                session_order: session.order,
+                description: session.description,
+                appointment_id: session.appointmentId,
+                status: session.status,
+                completed_at: session.completedAt ? session.completedAt.toISOString() : null
+            })),
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: TreatmentPlanJSON): TreatmentPlan {
+        return new TreatmentPlan({
+            id: json.id,
+            patientId: json.patient_id,
+            tooth: json.tooth,
+            procedure: json.procedure,
+            totalValue: Number(json.total_value),
+            currency: json.currency || 'BRL',
+            status: json.status || 'open',
+            notes: json.notes,
+            sessions: (json.sessions || []).map(session => ({
+                id: session.id,
+                order: session.session_order,
+                description: session.description,
+                appointmentId: session.appointment_id,
+                status: session.status,
+                completedAt: session.completed_at
+            })),
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
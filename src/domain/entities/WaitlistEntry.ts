@@ -0,0 +1,390 @@
+import { Time } from '../value-objects/Time';
+import { WEEKDAYS } from '../value-objects/AvailabilityWindow';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
+import { DomainError } from '../errors/AppError';
+
+/**
+ * Prioridade na lista de espera (maior peso é oferecido primeiro)
+ */
+export type WaitlistPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/**
+ * Situação da entrada: aguardando vaga, já agendada ou retirada da lista
+ */
+export type WaitlistStatus = 'waiting' | 'booked' | 'removed';
+
+export const WAITLIST_PRIORITIES: WaitlistPriority[] = ['low', 'normal', 'high', 'urgent'];
+export const WAITLIST_STATUSES: WaitlistStatus[] = ['waiting', 'booked', 'removed'];
+
+export const WAITLIST_PRIORITY_WEIGHT: Record<WaitlistPriority, number> = {
+    low: 0,
+    normal: 1,
+    high: 2,
+    urgent: 3
+};
+
+/**
+ * Horário liberado na agenda (ex.: agendamento cancelado)
+ */
+export interface WaitlistSlot {
+    clinicId: string | null;
+    /** Data no formato YYYY-MM-DD */
+    date: string;
+    /** Início no formato HH:mm */
+    time: string;
+    durationMinutes: number;
+}
+
+export interface WaitlistEntryProps {
+    id: string;
+    patientId: string;
+    /** Clínica preferida; null aceita qualquer clínica */
+    clinicId?: string | null;
+    procedure: string;
+    durationMinutes?: number;
+    /** Dias da semana aceitos (0 = domingo ... 6 = sábado); vazio aceita qualquer dia */
+    preferredWeekdays?: number[];
+    /** Início da faixa de horário aceita (HH:mm); null aceita qualquer horário */
+    preferredStart?: string | null;
+    /** Fim da faixa de horário aceita (HH:mm); o atendimento deve terminar até este horário */
+    preferredEnd?: string | null;
+    priority?: WaitlistPriority;
+    status?: WaitlistStatus;
+    /** Agendamento criado a partir desta entrada */
+    appointmentId?: string | null;
+    notes?: string | null;
+    createdAt?: string | Date;
+    updatedAt?: string | Date;
+}
+
+export interface WaitlistEntryJSON {
+    id: string;
+    patient_id: string;
+    clinic_id: string | null;
+    procedure: string;
+    duration_minutes: number;
+    preferred_weekdays: number[];
+    preferred_start: string | null;
+    preferred_end: string | null;
+    priority: WaitlistPriority;
+    status: WaitlistStatus;
+    appointment_id: string | null;
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type WaitlistEntryUpdate = Partial<Pick<
+    WaitlistEntryProps,
+    'clinicId' | 'procedure' | 'durationMinutes' | 'preferredWeekdays' | 'preferredStart' | 'preferredEnd' | 'priority' | 'notes'
+>>;
+
+const cleanText = (value: string | null | undefined): string | null => {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+};
+
+const toMinutes = (time: Time) => time.hours * 60 + time.minutes;
+
+const weekdayOf = (date: string): number => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).getDay();
+};
+
+/**
+ * Entidade de Domínio: WaitlistEntry
+ * Paciente aguardando uma vaga antes da data que conseguiu agendar.
+ * ✅ Preferências (clínica, dias, faixa de horário) decidem quais vagas liberadas lhe servem
+ */
+export class WaitlistEntry {
+    private readonly _id: string;
+    private readonly _patientId: string;
+    private _clinicId: string | null;
+    private _procedure: string;
+    private _durationMinutes: number;
+    private _preferredWeekdays: number[];
+    private _preferredStart: Time | null;
+    private _preferredEnd: Time | null;
+    private _priority: WaitlistPriority;
+    private _status: WaitlistStatus;
+    private _appointmentId: string | null;
+    private _notes: string | null;
+    private readonly _createdAt: Date;
+    private _updatedAt: Date;
+
+    /**
+     * Cria uma instância de WaitlistEntry
+     */
+    constructor({
+        id,
+        patientId,
+        clinicId = null,
+        procedure,
+        durationMinutes = AppointmentConstants.DEFAULT_DURATION_MINUTES,
+        preferredWeekdays = [],
+        preferredStart = null,
+        preferredEnd = null,
+        priority = 'normal',
+        status = 'waiting',
+        appointmentId = null,
+        notes = null,
+        createdAt,
+        updatedAt
+    }: WaitlistEntryProps) {
+        this._id = id;
+        this._patientId = patientId;
+        this._clinicId = clinicId || null;
+        this._procedure = procedure?.trim() || '';
+        this._durationMinutes = durationMinutes;
+        this._preferredWeekdays = [...new Set(preferredWeekdays)].sort((a, b) => a - b);
+        this._preferredStart = Time.create(preferredStart);
+        this._preferredEnd = Time.create(preferredEnd);
+        this._priority = priority;
+        this._status = status;
+        this._appointmentId = appointmentId;
+        this._notes = cleanText(notes);
+        this._createdAt = createdAt ? new Date(createdAt) : new Date();
+        this._updatedAt = updatedAt ? new Date(updatedAt) : new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Valida invariantes da entidade
+     * @throws {DomainError} Se invariantes violados
+     */
+    validateInvariants(): void {
+        if (!this._patientId) {
+            throw new DomainError('Paciente é obrigatório');
+        }
+        if (!this._procedure) {
+            throw new DomainError('Procedimento é obrigatório');
+        }
+        if (
+            !Number.isInteger(this._durationMinutes) ||
+            this._durationMinutes < AppointmentConstants.MIN_DURATION_MINUTES ||
+            this._durationMinutes > AppointmentConstants.MAX_DURATION_MINUTES
+        ) {
+            throw new DomainError(
+                `Duração deve estar entre ${AppointmentConstants.MIN_DURATION_MINUTES} e ${AppointmentConstants.MAX_DURATION_MINUTES} minutos`
+            );
+        }
+        if (this._preferredWeekdays.some(weekday => !(WEEKDAYS as readonly number[]).includes(weekday))) {
+            throw new DomainError('Dia da semana preferido inválido');
+        }
+        if (this._preferredStart && this._preferredEnd &&
+            toMinutes(this._preferredEnd) - toMinutes(this._preferredStart) < this._durationMinutes) {
+            throw new DomainError('A faixa de horário preferida é menor que a duração do atendimento');
+        }
+        if (!WAITLIST_PRIORITIES.includes(this._priority)) {
+            throw new DomainError(`Prioridade inválida: ${this._priority}`);
+        }
+        if (!WAITLIST_STATUSES.includes(this._status)) {
+            throw new DomainError(`Situação inválida: ${this._status}`);
+        }
+        if (this._status === 'booked' && !this._appointmentId) {
+            throw new DomainError('Entrada agendada deve informar o agendamento');
+        }
+    }
+
+    // Getters
+    get id(): string {
+        return this._id;
+    }
+
+    get patientId(): string {
+        return this._patientId;
+    }
+
+    get clinicId(): string | null {
+        return this._clinicId;
+    }
+
+    get procedure(): string {
+        return this._procedure;
+    }
+
+    get durationMinutes(): number {
+        return this._durationMinutes;
+    }
+
+    get preferredWeekdays(): number[] {
+        return [...this._preferredWeekdays];
+    }
+
+    get preferredStart(): string | null {
+        return this._preferredStart?.toString() ?? null;
+    }
+
+    get preferredEnd(): string | null {
+        return this._preferredEnd?.toString() ?? null;
+    }
+
+    get priority(): WaitlistPriority {
+        return this._priority;
+    }
+
+    get status(): WaitlistStatus {
+        return this._status;
+    }
+
+    get appointmentId(): string | null {
+        return this._appointmentId;
+    }
+
+    get notes(): string | null {
+        return this._notes;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    get isWaiting(): boolean {
+        return this._status === 'waiting';
+    }
+
+    /**
+     * Verifica se a vaga liberada atende às preferências do paciente
+     * ✅ O atendimento precisa caber inteiro na vaga e na faixa de horário preferida
+     */
+    matches(slot: WaitlistSlot): boolean {
+        if (!this.isWaiting) return false;
+        if (this._clinicId && this._clinicId !== slot.clinicId) return false;
+        if (this._durationMinutes > slot.durationMinutes) return false;
+        if (this._preferredWeekdays.length > 0 && !this._preferredWeekdays.includes(weekdayOf(slot.date))) {
+            return false;
+        }
+
+        const start = toMinutes(new Time(slot.time));
+        const end = start + this._durationMinutes;
+        if (this._preferredStart && start < toMinutes(this._preferredStart)) return false;
+        if (this._preferredEnd && end > toMinutes(this._preferredEnd)) return false;
+        return true;
+    }
+
+    /**
+     * Atualiza as preferências enquanto o paciente aguarda
+     * @throws {DomainError} Se a entrada já foi agendada ou retirada
+     */
+    update(data: WaitlistEntryUpdate): void {
+        this.ensureWaiting();
+
+        if (data.clinicId !== undefined) {
+            this._clinicId = data.clinicId || null;
+        }
+        if (data.procedure !== undefined) {
+            this._procedure = data.procedure.trim();
+        }
+        if (data.durationMinutes !== undefined) {
+            this._durationMinutes = data.durationMinutes;
+        }
+        if (data.preferredWeekdays !== undefined) {
+            this._preferredWeekdays = [...new Set(data.preferredWeekdays)].sort((a, b) => a - b);
+        }
+        if (data.preferredStart !== undefined) {
+            this._preferredStart = Time.create(data.preferredStart);
+        }
+        if (data.preferredEnd !== undefined) {
+            this._preferredEnd = Time.create(data.preferredEnd);
+        }
+        if (data.priority !== undefined) {
+            this._priority = data.priority;
+        }
+        if (data.notes !== undefined) {
+            this._notes = cleanText(data.notes);
+        }
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Registra o agendamento criado a partir da entrada
+     * @throws {DomainError} Se a entrada não estiver aguardando
+     */
+    markBooked(appointmentId: string): void {
+        this.ensureWaiting();
+        this._status = 'booked';
+        this._appointmentId = appointmentId;
+        this._updatedAt = new Date();
+
+        this.validateInvariants();
+    }
+
+    /**
+     * Retira o paciente da lista (mantém o histórico)
+     * @throws {DomainError} Se a entrada não estiver aguardando
+     */
+    remove(): void {
+        this.ensureWaiting();
+        this._status = 'removed';
+        this._updatedAt = new Date();
+    }
+
+    private ensureWaiting(): void {
+        if (!this.isWaiting) {
+            throw new DomainError('Esta entrada não está mais aguardando vaga');
+        }
+    }
+
+    /**
+     * Factory method para criar WaitlistEntry
+     */
+    static create(data: Omit<WaitlistEntryProps, 'id'> & { id?: string }): WaitlistEntry {
+        return new WaitlistEntry({
+            ...data,
+            id: data.id || crypto.randomUUID(),
+            createdAt: data.createdAt || new Date().toISOString(),
+            updatedAt: data.updatedAt || new Date().toISOString()
+        });
+    }
+
+    /**
+     * Serializa para JSON (formato do banco)
+     */
+    toJSON(): WaitlistEntryJSON {
+        return {
+            id: this._id,
+            patient_id: this._patientId,
+            clinic_id: this._clinicId,
+            procedure: this._procedure,
+            duration_minutes: this._durationMinutes,
+            preferred_weekdays: [...this._preferredWeekdays],
+            preferred_start: this.preferredStart,
+            preferred_end: this.preferredEnd,
+            priority: this._priority,
+            status: this._status,
+            appointment_id: this._appointmentId,
+            notes: this._notes,
+            created_at: this._createdAt.toISOString(),
+            updated_at: this._updatedAt.toISOString()
+        };
+    }
+
+    /**
+     * Deserializa do JSON (formato do banco)
+     */
+    static fromJSON(json: WaitlistEntryJSON): WaitlistEntry {
+        return new WaitlistEntry({
+            id: json.id,
+            patientId: json.patient_id,
+            clinicId: json.clinic_id,
+            procedure: json.procedure,
+            durationMinutes: json.duration_minutes ?? AppointmentConstants.DEFAULT_DURATION_MINUTES,
+            preferredWeekdays: json.preferred_weekdays || [],
+            preferredStart: json.preferred_start,
+            preferredEnd: json.preferred_end,
+            priority: json.priority,
+            status: json.status,
+            appointmentId: json.appointment_id,
+            notes: json.notes,
+            createdAt: json.created_at,
+            updatedAt: json.updated_at
+        });
+    }
+}
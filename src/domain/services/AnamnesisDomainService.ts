@@ -0,0 +1,44 @@
+import { AnamnesisRecord, AnamnesisAlert } from '../entities/AnamnesisRecord';
+
+/**
+ * Situação da anamnese de um paciente
+ */
+export interface AnamnesisStatus {
+    /** Versão mais recente; null se o paciente nunca preencheu */
+    latest: AnamnesisRecord | null;
+    alerts: AnamnesisAlert[];
+    /** Data a partir da qual a revisão é necessária; null sem anamnese */
+    nextReviewDate: string | null;
+    /** Sem anamnese ou com prazo de revisão vencido */
+    reviewDue: boolean;
+}
+
+/**
+ * Serviço de Domínio para a anamnese (histórico médico) dos pacientes
+ */
+export class AnamnesisDomainService {
+    /**
+     * Situação da anamnese a partir da versão mais recente
+     * @param reviewIntervalMonths - Prazo de revisão configurado no questionário
+     * @param referenceDate - Data de referência (YYYY-MM-DD)
+     */
+    static status(latest: AnamnesisRecord | null, reviewIntervalMonths: number, referenceDate: string): AnamnesisStatus {
+        if (!latest) {
+            return { latest: null, alerts: [], nextReviewDate: null, reviewDue: true };
+        }
+
+        return {
+            latest,
+            alerts: latest.alerts,
+            nextReviewDate: latest.nextReviewDate(reviewIntervalMonths),
+            reviewDue: latest.isReviewDue(reviewIntervalMonths, referenceDate)
+        };
+    }
+
+    /**
+     * Próxima versão da anamnese do paciente
+     */
+    static nextVersion(records: AnamnesisRecord[]): number {
+        return records.reduce((max, record) => Math.max(max, record.version), 0) + 1;
+    }
+}
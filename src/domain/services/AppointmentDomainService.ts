@@ -1,6 +1,8 @@
-import { AppointmentStatusValue } from '../value-objects/AppointmentStatus';
+import { AppointmentStatusValue, PaymentStatusValue } from '../value-objects/AppointmentStatus';
 import { PaymentTypeValue } from '../value-objects/PaymentType';
-import { Currency } from '../value-objects/Money';
+import { Currency, Money } from '../value-objects/Money';
+import { Appointment } from '../entities/Appointment';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
 
 export interface AppointmentData {
     is_paid?: boolean;
@@ -8,6 +10,7 @@ export interface AppointmentData {
     value?: number;
     payment_type?: PaymentTypeValue;
     payment_percentage?: number | null;
+    payment_fixed_amount?: number | null;
     clinic_id?: string | null;
     patient_id?: string;
     patient_name?: string;
@@ -30,6 +33,7 @@ export interface NormalizedAppointmentData {
     currency: Currency;
     payment_type: PaymentTypeValue;
     payment_percentage: number | null;
+    payment_fixed_amount: number | null;
     is_paid: boolean;
     payment_date: string | Date | null;
     status: AppointmentStatusValue;
@@ -37,6 +41,19 @@ export interface NormalizedAppointmentData {
     notes: string | null;
 }
 
+/**
+ * Faltas e cancelamentos de um paciente em um período
+ */
+export interface PatientAttendance {
+    patientId: string;
+    total: number;
+    noShows: number;
+    cancellations: number;
+    lateCancellations: number;
+    /** Soma das taxas de cancelamento tardio devidas */
+    cancellationFees: number;
+}
+
 /**
  * Serviço de domínio para lógica de negócio de agendamentos
  */
@@ -59,6 +76,14 @@ export class AppointmentDomainService {
         return appointmentData.status || 'scheduled';
     }
 
+    /**
+     * Determina o status de pagamento, independente do status clínico
+     * Na criação ainda não há pagamentos registrados, então nunca é parcial
+     */
+    static determinePaymentStatus(isPaid: boolean = false): Exclude<PaymentStatusValue, 'partial'> {
+        return isPaid ? 'paid' : 'pending';
+    }
+
     /**
      * Calcula o valor recebido baseado no tipo de pagamento
      */
@@ -67,13 +92,18 @@ export class AppointmentDomainService {
             return 0;
         }
 
+        const value = Money.create(Math.max(0, parseFloat(String(appointment.value)) || 0));
+
         if (appointment.payment_type === '100') {
-            return parseFloat(String(appointment.value));
+            return value.amount;
         }
 
         if (appointment.payment_type === 'percentage' && appointment.payment_percentage) {
-            const percentage = parseFloat(String(appointment.payment_percentage));
-            return (parseFloat(String(appointment.value)) * percentage) / 100;
+            return value.percentage(parseFloat(String(appointment.payment_percentage))).amount;
+        }
+
+        if (appointment.payment_type === 'fixed' && appointment.payment_fixed_amount !== null && appointment.payment_fixed_amount !== undefined) {
+            return Money.create(parseFloat(String(appointment.payment_fixed_amount))).min(value).amount;
         }
 
         return 0;
@@ -97,6 +127,9 @@ export class AppointmentDomainService {
             payment_percentage: appointmentData.payment_percentage 
                 ? parseFloat(String(appointmentData.payment_percentage)) 
                 : null,
+            payment_fixed_amount: appointmentData.payment_type === 'fixed' && appointmentData.payment_fixed_amount !== null && appointmentData.payment_fixed_amount !== undefined
+                ? parseFloat(String(appointmentData.payment_fixed_amount))
+                : null,
             is_paid: appointmentData.is_paid || false,
             payment_date: appointmentData.is_paid && appointmentData.payment_date 
                 ? appointmentData.payment_date 
@@ -176,5 +209,146 @@ export class AppointmentDomainService {
         
         return appointmentDate >= today;
     }
-}
 
+    /**
+     * Verifica se dois agendamentos do mesmo dia se sobrepõem no horário
+     * Intervalos são semiabertos: um agendamento que termina às 15:00 não conflita com outro que começa às 15:00
+     */
+    static overlaps(a: Appointment, b: Appointment): boolean {
+        if (a.dateString !== b.dateString) {
+            return false;
+        }
+        return a.startMinutes < b.endMinutes && b.startMinutes < a.endMinutes;
+    }
+
+    /**
+     * Encontra o primeiro agendamento que conflita com o candidato
+     * Ignora o próprio candidato (edição) e agendamentos cancelados
+     * @param candidate - Agendamento a ser criado/atualizado
+     * @param others - Agendamentos existentes (normalmente os do mesmo dia)
+     * @returns Agendamento conflitante ou null
+     */
+    static findScheduleConflict(candidate: Appointment, others: Appointment[]): Appointment | null {
+        if (candidate.isCancelled) {
+            return null;
+        }
+
+        const conflicts = others
+            .filter(other => other.id !== candidate.id && !other.isCancelled)
+            .filter(other => this.overlaps(candidate, other))
+            .sort((a, b) => a.startMinutes - b.startMinutes);
+
+        return conflicts[0] || null;
+    }
+
+    /**
+     * Encontra o primeiro conflito de um lote de agendamentos (ex.: ocorrências de uma série)
+     * ✅ Cada agendamento é comparado com os já gravados e com os demais do lote;
+     * as versões gravadas dos próprios agendamentos do lote (edição) são ignoradas
+     * @param candidates - Agendamentos a serem criados/atualizados juntos
+     * @param stored - Agendamentos gravados nos dias dos candidatos
+     * @returns Candidato e agendamento conflitante, ou null
+     */
+    static findBatchScheduleConflict(
+        candidates: Appointment[],
+        stored: Appointment[]
+    ): { candidate: Appointment; conflict: Appointment } | null {
+        const batchIds = new Set(candidates.map(candidate => candidate.id));
+        const others = stored.filter(appointment => !batchIds.has(appointment.id));
+
+        for (const [index, candidate] of candidates.entries()) {
+            const conflict = this.findScheduleConflict(candidate, [...others, ...candidates.slice(0, index)]);
+            if (conflict) {
+                return { candidate, conflict };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Monta a mensagem de conflito de horário identificando o agendamento existente
+     */
+    static describeScheduleConflict(conflict: Appointment, patientName: string | null = null): string {
+        const who = patientName ? ` de ${patientName}` : '';
+        return `Conflito de horário com o agendamento${who} (${conflict.procedure}) ` +
+            `das ${conflict.time} às ${conflict.endTime} em ${conflict.dateString}`;
+    }
+
+    /**
+     * Gera avisos de deslocamento quando o candidato fica próximo demais
+     * de um agendamento em outra clínica no mesmo dia
+     * ✅ Apenas avisa, não bloqueia (o tempo real de deslocamento depende do trajeto)
+     * @returns Lista de mensagens de aviso (vazia se não houver problema)
+     */
+    static getTravelWarnings(
+        candidate: Appointment,
+        others: Appointment[],
+        minTravelMinutes: number = AppointmentConstants.MIN_TRAVEL_MINUTES_BETWEEN_CLINICS
+    ): string[] {
+        if (!candidate.clinicId) {
+            return [];
+        }
+
+        return others
+            .filter(other =>
+                other.id !== candidate.id &&
+                !other.isCancelled &&
+                other.clinicId &&
+                other.clinicId !== candidate.clinicId &&
+                other.dateString === candidate.dateString &&
+                !this.overlaps(candidate, other)
+            )
+            .sort((a, b) => a.startMinutes - b.startMinutes)
+            .flatMap(other => {
+                const gap = other.startMinutes >= candidate.endMinutes
+                    ? other.startMinutes - candidate.endMinutes
+                    : candidate.startMinutes - other.endMinutes;
+
+                if (gap >= minTravelMinutes) {
+                    return [];
+                }
+
+                return [
+                    `Apenas ${gap} min entre este agendamento e o de ${other.time} em outra clínica ` +
+                    `(mínimo recomendado para deslocamento: ${minTravelMinutes} min)`
+                ];
+            });
+    }
+
+    /**
+     * Agrupa faltas e cancelamentos por paciente
+     * ✅ Só lista pacientes com falta ou cancelamento tardio, dos mais recorrentes para os menos
+     */
+    static summarizeAttendance(appointments: Appointment[]): PatientAttendance[] {
+        const byPatient = new Map<string, PatientAttendance>();
+        for (const appointment of appointments) {
+            const row = byPatient.get(appointment.patientId) ?? {
+                patientId: appointment.patientId,
+                total: 0,
+                noShows: 0,
+                cancellations: 0,
+                lateCancellations: 0,
+                cancellationFees: 0
+            };
+            row.total++;
+            if (appointment.clinicalStatus === 'no_show') {
+                row.noShows++;
+            }
+            if (appointment.isCancelled) {
+                row.cancellations++;
+                if (appointment.isLateCancellation) {
+                    row.lateCancellations++;
+                    row.cancellationFees += appointment.cancellationFee ?? 0;
+                }
+            }
+            byPatient.set(appointment.patientId, row);
+        }
+
+        return [...byPatient.values()]
+            .filter(row => row.noShows > 0 || row.lateCancellations > 0)
+            .sort((a, b) =>
+                (b.noShows + b.lateCancellations) - (a.noShows + a.lateCancellations) ||
+                b.cancellationFees - a.cancellationFees
+            );
+    }
+}
@@ -0,0 +1,51 @@
+import { CommissionRule, normalizeProcedure } from '../entities/CommissionRule';
+
+/**
+ * Serviço de domínio para regras de comissão das clínicas
+ */
+export class CommissionDomainService {
+    /**
+     * Regra que vale para o atendimento na data informada (YYYY-MM-DD)
+     * ✅ A regra do procedimento tem precedência sobre a padrão da clínica;
+     * entre versões da mesma regra vale a de vigência mais recente já iniciada
+     */
+    static resolve(
+        rules: CommissionRule[],
+        clinicId: string,
+        procedure: string,
+        date: string
+    ): CommissionRule | null {
+        const effective = rules
+            .filter(rule => rule.clinicId === clinicId && rule.isEffectiveOn(date))
+            .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.createdAt.getTime() - a.createdAt.getTime());
+
+        return effective.find(rule => procedure && rule.appliesToProcedure(procedure))
+            ?? effective.find(rule => rule.isClinicDefault)
+            ?? null;
+    }
+
+    /**
+     * Histórico de versões: por procedimento (padrão da clínica primeiro), vigência mais recente no topo
+     */
+    static sortHistory(rules: CommissionRule[]): CommissionRule[] {
+        return [...rules].sort((a, b) =>
+            (a.procedure ?? '').localeCompare(b.procedure ?? '', 'pt-BR') ||
+            b.effectiveFrom.localeCompare(a.effectiveFrom) ||
+            b.createdAt.getTime() - a.createdAt.getTime()
+        );
+    }
+
+    /**
+     * Versões em vigor na data informada (uma por procedimento), para destacar no histórico
+     */
+    static currentRuleIds(rules: CommissionRule[], date: string): Set<string> {
+        const current = new Map<string, CommissionRule>();
+        for (const rule of this.sortHistory(rules)) {
+            const key = rule.procedure === null ? '' : normalizeProcedure(rule.procedure);
+            if (rule.isEffectiveOn(date) && !current.has(key)) {
+                current.set(key, rule);
+            }
+        }
+        return new Set([...current.values()].map(rule => rule.id));
+    }
+}
@@ -0,0 +1,65 @@
+import { Appointment } from '../entities/Appointment';
+import { ConsentDocument } from '../entities/ConsentDocument';
+import { ConsentPlaceholder } from '../entities/ConsentTemplate';
+import { normalizeProcedure } from '../entities/CommissionRule';
+import { DomainError } from '../errors/AppError';
+import { shiftDate } from '../value-objects/RecurrenceRule';
+
+/** Termos sem atendimento vinculado valem por este número de dias após a assinatura */
+export const CONSENT_VALIDITY_DAYS = 90;
+
+/**
+ * Termos (sem acentos) que identificam um procedimento cirúrgico
+ */
+const SURGICAL_KEYWORDS = ['cirurgia', 'cirurgic', 'apicectomia', 'apicoectomia', 'parendodont', 'exodontia', 'extracao', 'surgery', 'surgical', 'cirugia'];
+
+/**
+ * Serviço de Domínio para termos de consentimento
+ */
+export class ConsentDomainService {
+    /**
+     * Substitui os marcadores {{chave}} do modelo pelos valores informados
+     * Marcadores sem valor ficam em branco
+     */
+    static render(body: string, values: Partial<Record<ConsentPlaceholder, string>>): string {
+        return body.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, key: string) =>
+            (values[key as ConsentPlaceholder] ?? '').trim()
+        );
+    }
+
+    /**
+     * Indica se o procedimento é cirúrgico (exige termo assinado para ser concluído)
+     */
+    static isSurgicalProcedure(procedure: string | null | undefined): boolean {
+        if (!procedure) return false;
+        const normalized = normalizeProcedure(procedure);
+        return SURGICAL_KEYWORDS.some(keyword => normalized.includes(keyword));
+    }
+
+    /**
+     * Indica se o termo cobre o atendimento: termo cirúrgico vinculado ao atendimento
+     * ou, sem vínculo, assinado até CONSENT_VALIDITY_DAYS dias antes da data do atendimento
+     */
+    static coversAppointment(consent: ConsentDocument, appointment: Appointment): boolean {
+        if (consent.kind !== 'surgery' || consent.patientId !== appointment.patientId) return false;
+        if (consent.appointmentId) return consent.appointmentId === appointment.id;
+
+        const appointmentDate = appointment.dateString;
+        return consent.signedOn <= appointmentDate
+            && consent.signedOn >= shiftDate(appointmentDate, -CONSENT_VALIDITY_DAYS, 'days');
+    }
+
+    /**
+     * Garante que um procedimento cirúrgico tenha termo de consentimento assinado
+     * @throws {DomainError} Se o procedimento for cirúrgico e nenhum termo o cobrir
+     */
+    static ensureSurgicalConsent(appointment: Appointment, consents: ConsentDocument[]): void {
+        if (!ConsentDomainService.isSurgicalProcedure(appointment.procedure)) return;
+
+        if (!consents.some(consent => ConsentDomainService.coversAppointment(consent, appointment))) {
+            throw new DomainError(
+                'Procedimento cirúrgico exige termo de consentimento assinado pelo paciente antes de ser concluído'
+            );
+        }
+    }
+}
@@ -0,0 +1,109 @@
+import { ExchangeRate } from '../entities/ExchangeRate';
+import { Money, Currency } from '../value-objects/Money';
+
+/**
+ * Cotação aplicada em uma conversão
+ */
+export interface AppliedRate {
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    /** Unidades de toCurrency por 1 unidade de fromCurrency */
+    rate: number;
+    /** Data da cotação usada (pode ser anterior à data convertida) */
+    date: string;
+}
+
+/**
+ * Valor a converter, com a data que define a cotação (atendimento ou pagamento)
+ */
+export interface ConvertibleAmount {
+    money: Money;
+    date: string;
+}
+
+/**
+ * Valor sem cotação cadastrada até a data
+ */
+export interface MissingRate {
+    currency: Currency;
+    date: string;
+}
+
+export interface ConvertedTotal {
+    /** Soma na moeda de relatório (valores sem cotação ficam de fora) */
+    total: Money;
+    /** Cotações usadas, sem repetição */
+    ratesUsed: AppliedRate[];
+    missing: MissingRate[];
+}
+
+/**
+ * Serviço de domínio para conversão entre moedas pela tabela de cotações
+ */
+export class ExchangeRateDomainService {
+    /**
+     * Cotação de from para to válida na data (YYYY-MM-DD)
+     * ✅ Vale a cotação mais recente até a data; sem cotação direta, usa o inverso do par contrário
+     */
+    static findRate(rates: ExchangeRate[], from: Currency, to: Currency, date: string): AppliedRate | null {
+        if (from === to) {
+            return { fromCurrency: from, toCurrency: to, rate: 1, date };
+        }
+
+        let best: AppliedRate | null = null;
+        for (const quote of rates) {
+            if (quote.date > date || (best && quote.date < best.date)) {
+                continue;
+            }
+            const direct = quote.fromCurrency === from && quote.toCurrency === to;
+            const inverse = quote.fromCurrency === to && quote.toCurrency === from;
+            // Na mesma data, a cotação direta prevalece sobre a inversa
+            if (direct) {
+                best = { fromCurrency: from, toCurrency: to, rate: quote.rate, date: quote.date };
+            } else if (inverse && (!best || quote.date > best.date)) {
+                best = { fromCurrency: from, toCurrency: to, rate: 1 / quote.rate, date: quote.date };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Converte um valor para a moeda de relatório pela cotação da data
+     * @returns null se não houver cotação até a data
+     */
+    static convert(money: Money, to: Currency, date: string, rates: ExchangeRate[]): { money: Money; rate: AppliedRate } | null {
+        const rate = this.findRate(rates, money.currency, to, date);
+        if (!rate) {
+            return null;
+        }
+        return { money: money.convert(to, rate.rate), rate };
+    }
+
+    /**
+     * Soma valores em moedas diferentes convertendo cada um pela cotação da sua data
+     */
+    static convertTotal(amounts: ConvertibleAmount[], to: Currency, rates: ExchangeRate[]): ConvertedTotal {
+        let total = Money.zero(to);
+        const ratesUsed = new Map<string, AppliedRate>();
+        const missing = new Map<string, MissingRate>();
+
+        for (const { money, date } of amounts) {
+            const converted = this.convert(money, to, date, rates);
+            if (!converted) {
+                missing.set(`${money.currency}|${date}`, { currency: money.currency, date });
+                continue;
+            }
+            total = total.add(converted.money);
+            if (converted.rate.fromCurrency !== to) {
+                ratesUsed.set(`${converted.rate.fromCurrency}|${converted.rate.date}`, converted.rate);
+            }
+        }
+
+        const byDate = (a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date);
+        return {
+            total,
+            ratesUsed: [...ratesUsed.values()].sort((a, b) => a.fromCurrency.localeCompare(b.fromCurrency) || byDate(a, b)),
+            missing: [...missing.values()].sort((a, b) => a.currency.localeCompare(b.currency) || byDate(a, b))
+        };
+    }
+}
@@ -0,0 +1,295 @@
+import { Appointment } from '../entities/Appointment';
+import { Payment } from '../entities/Payment';
+import { RevenueGoal } from '../entities/RevenueGoal';
+import { ExchangeRate } from '../entities/ExchangeRate';
+import { Money, Currency } from '../value-objects/Money';
+import { shiftDate } from '../value-objects/RecurrenceRule';
+import { ExchangeRateDomainService, MissingRate } from './ExchangeRateDomainService';
+
+/**
+ * Receita (parte do profissional) e quantidade de atendimentos
+ */
+export interface ForecastFigures {
+    revenue: number;
+    appointments: number;
+}
+
+/**
+ * Realizado, esperado (agendados ainda não concluídos) e projeção para o fim do mês
+ */
+export interface ForecastTotals {
+    realized: ForecastFigures;
+    expected: ForecastFigures;
+    projected: ForecastFigures;
+}
+
+export interface ClinicForecast extends ForecastTotals {
+    clinicId: string;
+}
+
+export interface MonthForecast extends ForecastTotals {
+    /** Mês (YYYY-MM) */
+    month: string;
+    currency: Currency;
+    byClinic: ClinicForecast[];
+    missingRates: MissingRate[];
+}
+
+/**
+ * Andamento de uma meta: realizado e projetado contra o alvo
+ */
+export interface GoalMetric {
+    target: number;
+    realized: number;
+    projected: number;
+    /** Percentual realizado do alvo (0–100+) */
+    percent: number;
+    projectedPercent: number;
+}
+
+export interface GoalProgress {
+    goalId: string;
+    /** null para a meta geral */
+    clinicId: string | null;
+    /** null quando não há meta de receita (ou falta a cotação para convertê-la) */
+    revenue: GoalMetric | null;
+    appointments: GoalMetric | null;
+}
+
+export interface CashFlowMonth {
+    /** Mês (YYYY-MM) */
+    month: string;
+    /** Parcelas em aberto com vencimento no mês */
+    installments: number;
+    /** Saldos sem parcelamento, pela data do atendimento */
+    appointments: number;
+    total: number;
+}
+
+export interface CashFlowProjection {
+    currency: Currency;
+    months: CashFlowMonth[];
+    /** Valores já vencidos (fora dos meses projetados) */
+    overdue: number;
+    missingRates: MissingRate[];
+}
+
+type Cents = { revenue: number; appointments: number };
+
+const emptyTotals = (): { realized: Cents; expected: Cents } => ({
+    realized: { revenue: 0, appointments: 0 },
+    expected: { revenue: 0, appointments: 0 }
+});
+
+/**
+ * Serviço de domínio para metas, previsão de fechamento do mês e fluxo de caixa
+ * ✅ Valores são a parte do profissional (PaymentType), como no dashboard
+ */
+export class ForecastDomainService {
+    /**
+     * Previsão de fechamento do mês, geral e por clínica
+     * ✅ Realizado: o que já foi recebido dos atendimentos do mês (convertido pela data do pagamento)
+     * e os atendimentos concluídos
+     * ✅ Esperado: agendados, confirmados e em andamento, pelo valor que ainda falta receber
+     * @param month - Mês (YYYY-MM)
+     */
+    static monthForecast(appointments: Appointment[], month: string, currency: Currency, rates: ExchangeRate[]): MonthForecast {
+        const missing = new Map<string, MissingRate>();
+        const overall = emptyTotals();
+        const clinics = new Map<string, ReturnType<typeof emptyTotals>>();
+
+        const convert = (money: Money, date: string): number | null => {
+            if (money.isZero) return 0;
+            const converted = ExchangeRateDomainService.convert(money, currency, date, rates);
+            if (!converted) {
+                missing.set(`${money.currency}|${date}`, { currency: money.currency, date });
+                return null;
+            }
+            return converted.money.cents;
+        };
+
+        for (const appointment of appointments) {
+            const date = appointment.dateString;
+            if (!date.startsWith(`${month}-`) || appointment.isCancelled) {
+                continue;
+            }
+            const clinic = clinics.get(appointment.clinicId) ?? emptyTotals();
+            clinics.set(appointment.clinicId, clinic);
+            const targets = [overall, clinic];
+
+            const received = convert(this.shareOf(appointment, appointment.amountPaid), appointment.paymentDateString ?? date);
+            if (appointment.clinicalStatus === 'completed') {
+                targets.forEach(totals => totals.realized.appointments++);
+            }
+            if (received !== null) {
+                targets.forEach(totals => (totals.realized.revenue += received));
+            }
+
+            if (!['completed', 'no_show'].includes(appointment.clinicalStatus)) {
+                const expected = convert(this.shareOf(appointment, appointment.remainingBalance), date);
+                targets.forEach(totals => {
+                    totals.expected.appointments++;
+                    totals.expected.revenue += expected ?? 0;
+                });
+            }
+        }
+
+        return {
+            month,
+            currency,
+            ...this.toTotals(overall),
+            byClinic: [...clinics.entries()]
+                .map(([clinicId, totals]) => ({ clinicId, ...this.toTotals(totals) }))
+                .sort((a, b) => b.projected.revenue - a.projected.revenue),
+            missingRates: this.sortMissing(missing)
+        };
+    }
+
+    /**
+     * Andamento das metas do mês da previsão (meta geral primeiro)
+     * ✅ Metas em outra moeda são convertidas pela cotação do primeiro dia do mês
+     */
+    static goalProgress(goals: RevenueGoal[], forecast: MonthForecast, rates: ExchangeRate[]): GoalProgress[] {
+        const metric = (target: number, realized: number, projected: number): GoalMetric => ({
+            target,
+            realized,
+            projected,
+            percent: target > 0 ? Math.round((realized / target) * 100) : 0,
+            projectedPercent: target > 0 ? Math.round((projected / target) * 100) : 0
+        });
+
+        return goals
+            .filter(goal => goal.month === forecast.month)
+            .map(goal => {
+                const totals: ForecastTotals = goal.clinicId
+                    ? forecast.byClinic.find(row => row.clinicId === goal.clinicId) ?? this.toTotals(emptyTotals())
+                    : forecast;
+
+                let revenue: GoalMetric | null = null;
+                if (goal.revenueTarget > 0) {
+                    const target = ExchangeRateDomainService.convert(
+                        Money.create(goal.revenueTarget, goal.currency),
+                        forecast.currency,
+                        `${goal.month}-01`,
+                        rates
+                    );
+                    revenue = target ? metric(target.money.amount, totals.realized.revenue, totals.projected.revenue) : null;
+                }
+
+                return {
+                    goalId: goal.id,
+                    clinicId: goal.clinicId,
+                    revenue,
+                    appointments: goal.appointmentTarget > 0
+                        ? metric(goal.appointmentTarget, totals.realized.appointments, totals.projected.appointments)
+                        : null
+                };
+            })
+            .sort((a, b) => Number(a.clinicId !== null) - Number(b.clinicId !== null));
+    }
+
+    /**
+     * Projeção de entradas para os próximos meses (a partir do mês corrente)
+     * ✅ Parcelas em aberto entram pelo vencimento; o saldo sem parcelamento, pela data do atendimento
+     * ✅ Valores vencidos antes de hoje ficam em "overdue", fora dos meses
+     * @param openInstallments - Parcelas ainda não pagas
+     * @param today - Data de referência (YYYY-MM-DD)
+     */
+    static cashFlow(
+        appointments: Appointment[],
+        openInstallments: Payment[],
+        today: string,
+        months: number,
+        currency: Currency,
+        rates: ExchangeRate[]
+    ): CashFlowProjection {
+        const missing = new Map<string, MissingRate>();
+        const startMonth = `${today.slice(0, 7)}-01`;
+        const monthKeys = Array.from({ length: months }, (_, index) => shiftDate(startMonth, index, 'months').slice(0, 7));
+        const buckets = new Map(monthKeys.map(month => [month, { installments: 0, appointments: 0 }]));
+        let overdueCents = 0;
+
+        const installmentsByAppointment = new Map<string, Payment[]>();
+        for (const installment of openInstallments) {
+            if (installment.isPaid || !installment.dueDate) continue;
+            installmentsByAppointment.set(installment.appointmentId, [...(installmentsByAppointment.get(installment.appointmentId) ?? []), installment]);
+        }
+
+        const add = (money: Money, date: string, source: 'installments' | 'appointments') => {
+            if (money.isZero) return;
+            const converted = ExchangeRateDomainService.convert(money, currency, date, rates);
+            if (!converted) {
+                missing.set(`${money.currency}|${date}`, { currency: money.currency, date });
+                return;
+            }
+            if (date < today) {
+                overdueCents += converted.money.cents;
+                return;
+            }
+            const bucket = buckets.get(date.slice(0, 7));
+            if (bucket) {
+                bucket[source] += converted.money.cents;
+            }
+        };
+
+        for (const appointment of appointments) {
+            if (appointment.isCancelled || appointment.clinicalStatus === 'no_show' || appointment.isPaid || appointment.remainingBalance <= 0) {
+                continue;
+            }
+            const installments = installmentsByAppointment.get(appointment.id) ?? [];
+            let scheduledCents = 0;
+            for (const installment of installments) {
+                // dueDate garantido pelo filtro acima
+                const dueDate = installment.dueDate ?? appointment.dateString;
+                scheduledCents += installment.amount.cents;
+                add(this.shareOf(appointment, installment.amount.amount), dueDate, 'installments');
+            }
+            const remainderCents = Money.create(appointment.remainingBalance, appointment.value.currency).cents - scheduledCents;
+            if (remainderCents > 0) {
+                add(this.shareOf(appointment, remainderCents / 100), appointment.dateString, 'appointments');
+            }
+        }
+
+        return {
+            currency,
+            months: monthKeys.map(month => {
+                const bucket = buckets.get(month) ?? { installments: 0, appointments: 0 };
+                return {
+                    month,
+                    installments: bucket.installments / 100,
+                    appointments: bucket.appointments / 100,
+                    total: (bucket.installments + bucket.appointments) / 100
+                };
+            }),
+            overdue: overdueCents / 100,
+            missingRates: this.sortMissing(missing)
+        };
+    }
+
+    /**
+     * Parte do profissional correspondente a um valor pago pelo paciente
+     */
+    private static shareOf(appointment: Appointment, paidAmount: number): Money {
+        const share = appointment.calculateReceivedValue();
+        const total = appointment.value.amount;
+        if (total <= 0 || paidAmount <= 0) {
+            return Money.zero(share.currency);
+        }
+        return share.multiply(Math.min(paidAmount, total) / total);
+    }
+
+    private static toTotals({ realized, expected }: { realized: Cents; expected: Cents }): ForecastTotals {
+        return {
+            realized: { revenue: realized.revenue / 100, appointments: realized.appointments },
+            expected: { revenue: expected.revenue / 100, appointments: expected.appointments },
+            projected: {
+                revenue: (realized.revenue + expected.revenue) / 100,
+                appointments: realized.appointments + expected.appointments
+            }
+        };
+    }
+
+    private static sortMissing(missing: Map<string, MissingRate>): MissingRate[] {
+        return [...missing.values()].sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date));
+    }
+}
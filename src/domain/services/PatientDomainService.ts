@@ -8,6 +8,40 @@ export interface PatientData {
     user_id?: string; // Adicionar user_id para criação
 }
 
+export type DuplicateReason = 'cpf' | 'phone' | 'email' | 'name';
+
+/**
+ * Dados usados para procurar duplicados (paciente sendo cadastrado ou já existente)
+ */
+export interface DuplicateCandidate {
+    name: string;
+    email?: string | null;
+    phone?: string | null;
+    cpf?: string | null;
+}
+
+export interface DuplicateMatch {
+    patient: Patient;
+    /** Similaridade dos nomes (0 a 1) */
+    nameScore: number;
+    reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair {
+    patients: [Patient, Patient];
+    nameScore: number;
+    reasons: DuplicateReason[];
+}
+
+/** Similaridade mínima para nomes serem considerados do mesmo paciente */
+export const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+/** Partículas ignoradas na comparação ("Maria da Silva" = "Maria Silva") */
+const NAME_PARTICLES = new Set(['da', 'das', 'de', 'do', 'dos', 'e']);
+
+/** Documento e contatos pesam mais que o nome na ordenação */
+const REASON_WEIGHT: Record<DuplicateReason, number> = { cpf: 8, phone: 4, email: 2, name: 1 };
+
 export interface IPatientRepository {
     findById(id: string): Promise<Patient | null>;
     findByNameOrEmail(name: string, email?: string | null): Promise<Patient | null>;
@@ -94,6 +128,123 @@ export class PatientDomainService {
         await patientRepository.update(patientId, existingPatient);
     }
 
+    /**
+     * Tokens do nome sem acentos, caixa, pontuação e partículas
+     */
+    static normalizeName(name: string): string[] {
+        return name
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z\s]/g, ' ')
+            .split(/\s+/)
+            .filter(token => token && !NAME_PARTICLES.has(token));
+    }
+
+    /**
+     * Similaridade entre dois nomes (0 a 1), por tokens e independente da ordem
+     * ✅ Tokens longos com uma letra de diferença contam como iguais (Souza/Sousa)
+     */
+    static nameSimilarity(a: string, b: string): number {
+        const tokensA = PatientDomainService.normalizeName(a);
+        const tokensB = PatientDomainService.normalizeName(b);
+        if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+        const unmatched = [...tokensB];
+        let matches = 0;
+        for (const token of tokensA) {
+            const index = unmatched.findIndex(other =>
+                other === token || (Math.min(token.length, other.length) >= 5 && editDistance(token, other) <= 1)
+            );
+            if (index >= 0) {
+                unmatched.splice(index, 1);
+                matches++;
+            }
+        }
+
+        return (2 * matches) / (tokensA.length + tokensB.length);
+    }
+
+    /**
+     * Pacientes que provavelmente são a mesma pessoa que o candidato
+     * Mesmo CPF, telefone ou email, ou nome parecido; os mais fortes primeiro
+     */
+    static findDuplicates(candidate: DuplicateCandidate, patients: Patient[], excludeId: string | null = null): DuplicateMatch[] {
+        return patients
+            .filter(patient => patient.id !== excludeId)
+            .map(patient => PatientDomainService.compare(candidate, patient))
+            .filter(match => match.reasons.length > 0)
+            .sort((a, b) => PatientDomainService.strength(b) - PatientDomainService.strength(a) || b.nameScore - a.nameScore);
+    }
+
+    /**
+     * Pares de pacientes já cadastrados que parecem duplicados
+     */
+    static findDuplicatePairs(patients: Patient[]): DuplicatePair[] {
+        const pairs: DuplicatePair[] = [];
+        patients.forEach((patient, index) => {
+            for (const other of patients.slice(index + 1)) {
+                const { nameScore, reasons } = PatientDomainService.compare(patient, other);
+                if (reasons.length > 0) {
+                    pairs.push({ patients: [patient, other], nameScore, reasons });
+                }
+            }
+        });
+
+        return pairs.sort((a, b) => PatientDomainService.strength(b) - PatientDomainService.strength(a) || b.nameScore - a.nameScore);
+    }
+
+    /**
+     * Completa o cadastro do paciente mantido com o que só o duplicado tem
+     * ✅ Dados já preenchidos no paciente mantido não são sobrescritos
+     */
+    static mergeInto(target: Patient, source: Patient): void {
+        if (!target.email && source.email) {
+            target.updateEmail(source.email);
+        }
+        if (!target.phone && source.phone) {
+            target.updatePhone(source.phone);
+        }
+        if (source.lastVisit && (!target.lastVisit || source.lastVisit > target.lastVisit)) {
+            target.updateLastVisit(source.lastVisit);
+        }
+
+        target.updateRegistration({
+            cpf: target.cpf ?? source.cpf,
+            birthDate: target.birthDate ?? source.birthDate,
+            sex: target.sex ?? source.sex,
+            address: (target.address ?? source.address)?.toProps() ?? null,
+            occupation: target.occupation ?? source.occupation,
+            emergencyContact: target.emergencyContact ?? source.emergencyContact,
+            guardian: target.guardian ?? source.guardian
+        });
+    }
+
+    private static compare(candidate: DuplicateCandidate, patient: Patient): { patient: Patient; nameScore: number; reasons: DuplicateReason[] } {
+        const digits = (value: string | null | undefined): string => (value || '').replace(/\D/g, '');
+        const reasons: DuplicateReason[] = [];
+
+        if (digits(candidate.cpf) && digits(candidate.cpf) === digits(patient.cpf)) {
+            reasons.push('cpf');
+        }
+        if (digits(candidate.phone) && digits(candidate.phone) === digits(patient.phone)) {
+            reasons.push('phone');
+        }
+        if (candidate.email && candidate.email.trim().toLowerCase() === patient.email?.toLowerCase()) {
+            reasons.push('email');
+        }
+        const nameScore = PatientDomainService.nameSimilarity(candidate.name, patient.name);
+        if (nameScore >= NAME_SIMILARITY_THRESHOLD) {
+            reasons.push('name');
+        }
+
+        return { patient, nameScore, reasons };
+    }
+
+    private static strength({ reasons }: { reasons: DuplicateReason[] }): number {
+        return reasons.reduce((sum, reason) => sum + REASON_WEIGHT[reason], 0);
+    }
+
     /**
      * Valida dados do paciente
      */
@@ -121,3 +272,21 @@ export class PatientDomainService {
     }
 }
 
+/**
+ * Distância de edição (Levenshtein) entre duas palavras
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
@@ -0,0 +1,216 @@
+import { Payment, PaymentMethod, SettlementTerms } from '../entities/Payment';
+import { PaymentMethodFee } from '../entities/PaymentMethodFee';
+import { ExchangeRate } from '../entities/ExchangeRate';
+import { PaymentStatusValue } from '../value-objects/AppointmentStatus';
+import { shiftDate } from '../value-objects/RecurrenceRule';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
+import { DomainError } from '../errors/AppError';
+import { Money, Currency } from '../value-objects/Money';
+import { ExchangeRateDomainService, MissingRate } from './ExchangeRateDomainService';
+
+/**
+ * Parcela calculada para um parcelamento (ainda não persistida)
+ */
+export interface InstallmentDraft {
+    amount: number;
+    /** Vencimento no formato YYYY-MM-DD */
+    dueDate: string;
+    installmentNumber: number;
+    installmentCount: number;
+}
+
+/**
+ * Situação financeira de um agendamento a partir dos seus pagamentos
+ */
+export interface PaymentSummary {
+    total: number;
+    paid: number;
+    /** Saldo devedor (nunca negativo) */
+    remaining: number;
+    /** Valor das parcelas em aberto já lançadas */
+    scheduled: number;
+    /** Saldo devedor e parcelas em aberto em centavos, para comparações exatas */
+    remainingCents: number;
+    scheduledCents: number;
+    status: PaymentStatusValue;
+    /** Data do último pagamento (YYYY-MM-DD) */
+    lastPaidDate: string | null;
+    overdue: Payment[];
+}
+
+/**
+ * Recebimentos de uma forma de pagamento no período
+ */
+export interface MethodRevenueRow {
+    /** null = pagamentos registrados sem forma de pagamento */
+    method: PaymentMethod | null;
+    count: number;
+    gross: number;
+    fees: number;
+    net: number;
+    /** Parte do líquido com crédito previsto depois de hoje */
+    toSettle: number;
+    /** Próximo crédito previsto (YYYY-MM-DD) */
+    nextSettlementDate: string | null;
+}
+
+export interface MethodRevenueBreakdown {
+    currency: Currency;
+    rows: MethodRevenueRow[];
+    totals: { gross: number; fees: number; net: number; toSettle: number };
+    /** Pagamentos deixados de fora por falta de cotação */
+    missingRates: MissingRate[];
+}
+
+/**
+ * Serviço de domínio para pagamentos parciais e parcelamentos
+ */
+export class PaymentDomainService {
+    /**
+     * Divide um valor em parcelas mensais (ou a cada N meses) sem perder centavos
+     * ✅ Os centavos que sobram da divisão vão para as primeiras parcelas
+     * @throws {DomainError} Se o número de parcelas for inválido
+     */
+    static buildInstallments(
+        total: number,
+        count: number,
+        firstDueDate: string,
+        intervalMonths: number = 1
+    ): InstallmentDraft[] {
+        if (!Number.isInteger(count) || count < 1 || count > AppointmentConstants.MAX_INSTALLMENTS) {
+            throw new DomainError(`Número de parcelas deve estar entre 1 e ${AppointmentConstants.MAX_INSTALLMENTS}`);
+        }
+        const money = Money.create(total);
+        if (money.cents < count) {
+            throw new DomainError('Valor insuficiente para o número de parcelas');
+        }
+
+        return money.allocate(Array(count).fill(1)).map((amount, index) => ({
+            amount: amount.amount,
+            dueDate: shiftDate(firstDueDate, index * intervalMonths, 'months'),
+            installmentNumber: index + 1,
+            installmentCount: count
+        }));
+    }
+
+    /**
+     * Soma os pagamentos do agendamento e deriva o status (pendente / parcial / pago)
+     * @param today - Referência para parcelas vencidas (YYYY-MM-DD)
+     */
+    static summarize(total: number, payments: Payment[], today: string): PaymentSummary {
+        const paidCents = payments
+            .filter(payment => payment.isPaid)
+            .reduce((sum, payment) => sum + payment.amount.cents, 0);
+        const scheduledCents = payments
+            .filter(payment => !payment.isPaid)
+            .reduce((sum, payment) => sum + payment.amount.cents, 0);
+        const totalCents = Money.create(total).cents;
+        const lastPaidDate = payments
+            .map(payment => payment.paidDate)
+            .filter((date): date is string => date !== null)
+            .sort()
+            .pop() ?? null;
+
+        return {
+            total,
+            paid: paidCents / 100,
+            remaining: Math.max(0, totalCents - paidCents) / 100,
+            scheduled: scheduledCents / 100,
+            remainingCents: Math.max(0, totalCents - paidCents),
+            scheduledCents,
+            status: paidCents >= totalCents && totalCents > 0 ? 'paid' : paidCents > 0 ? 'partial' : 'pending',
+            lastPaidDate,
+            overdue: payments.filter(payment => payment.isOverdue(today))
+        };
+    }
+
+    /**
+     * Taxa e prazo de um pagamento conforme a configuração da forma de pagamento
+     * ✅ Sem configuração: sem taxa e crédito no mesmo dia
+     */
+    static settlementTerms(
+        fees: PaymentMethodFee[],
+        method: PaymentMethod | null,
+        amount: Money,
+        cardInstallments: number | null = null
+    ): SettlementTerms {
+        const config = fees.find(fee => fee.method === method);
+        if (config) {
+            return config.termsFor(amount, cardInstallments);
+        }
+        return {
+            feeAmount: 0,
+            settlementDays: 0,
+            cardInstallments: method === 'credit_card' ? cardInstallments ?? 1 : null
+        };
+    }
+
+    /**
+     * Recebimentos pagos por forma de pagamento, convertidos para a moeda de
+     * relatório pela cotação do dia do pagamento
+     * @param today - Referência para créditos ainda a receber (YYYY-MM-DD)
+     */
+    static breakdownByMethod(payments: Payment[], currency: Currency, rates: ExchangeRate[], today: string): MethodRevenueBreakdown {
+        type Bucket = { count: number; grossCents: number; feeCents: number; toSettleCents: number; next: string | null };
+        const buckets = new Map<PaymentMethod | null, Bucket>();
+        const missing = new Map<string, MissingRate>();
+        const convert = (money: Money, date: string): number | null => {
+            const converted = ExchangeRateDomainService.convert(money, currency, date, rates);
+            if (!converted) {
+                missing.set(`${money.currency}|${date}`, { currency: money.currency, date });
+                return null;
+            }
+            return converted.money.cents;
+        };
+
+        for (const payment of payments) {
+            const paidDate = payment.paidDate;
+            if (!paidDate) {
+                continue;
+            }
+            const gross = convert(payment.amount, paidDate);
+            const fee = convert(payment.fee, paidDate);
+            if (gross === null || fee === null) {
+                continue;
+            }
+            const pending = payment.expectedSettlements().filter(settlement => settlement.date > today);
+            const pendingCents = pending.reduce((sum, settlement) => sum + (convert(settlement.amount, paidDate) ?? 0), 0);
+
+            const bucket = buckets.get(payment.method) ?? { count: 0, grossCents: 0, feeCents: 0, toSettleCents: 0, next: null };
+            bucket.count += 1;
+            bucket.grossCents += gross;
+            bucket.feeCents += fee;
+            bucket.toSettleCents += pendingCents;
+            if (pending.length > 0 && (bucket.next === null || pending[0].date < bucket.next)) {
+                bucket.next = pending[0].date;
+            }
+            buckets.set(payment.method, bucket);
+        }
+
+        const rows = [...buckets.entries()]
+            .map(([method, bucket]) => ({
+                method,
+                count: bucket.count,
+                gross: bucket.grossCents / 100,
+                fees: bucket.feeCents / 100,
+                net: (bucket.grossCents - bucket.feeCents) / 100,
+                toSettle: bucket.toSettleCents / 100,
+                nextSettlementDate: bucket.next
+            }))
+            .sort((a, b) => b.gross - a.gross);
+        const sumCents = (field: 'grossCents' | 'feeCents' | 'toSettleCents') =>
+            [...buckets.values()].reduce((sum, bucket) => sum + bucket[field], 0);
+
+        return {
+            currency,
+            rows,
+            totals: {
+                gross: sumCents('grossCents') / 100,
+                fees: sumCents('feeCents') / 100,
+                net: (sumCents('grossCents') - sumCents('feeCents')) / 100,
+                toSettle: sumCents('toSettleCents') / 100
+            },
+            missingRates: [...missing.values()].sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date))
+        };
+    }
+}
@@ -0,0 +1,89 @@
+import { ProcedurePrice } from '../entities/ProcedurePrice';
+import { Appointment } from '../entities/Appointment';
+import { normalizeProcedure } from '../entities/CommissionRule';
+
+/**
+ * Agendamento cobrado com valor diferente da tabela de preços
+ */
+export interface PriceDivergence {
+    appointment: Appointment;
+    /** Versão da tabela vigente na data do atendimento */
+    price: ProcedurePrice;
+    /** Valor cobrado menos o preço de tabela (negativo = desconto) */
+    difference: number;
+}
+
+/**
+ * Serviço de domínio para a tabela de preços das clínicas
+ */
+export class PricingDomainService {
+    /**
+     * Preço de tabela do procedimento na clínica, na data informada (YYYY-MM-DD)
+     * ✅ Entre versões vale a de vigência mais recente já iniciada
+     */
+    static resolve(
+        prices: ProcedurePrice[],
+        clinicId: string,
+        procedureId: string,
+        date: string
+    ): ProcedurePrice | null {
+        return prices
+            .filter(price => price.clinicId === clinicId && price.procedureId === procedureId && price.isEffectiveOn(date))
+            .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.createdAt.getTime() - a.createdAt.getTime())[0]
+            ?? null;
+    }
+
+    /**
+     * Histórico de versões: agrupado por procedimento, vigência mais recente no topo
+     */
+    static sortHistory(prices: ProcedurePrice[]): ProcedurePrice[] {
+        return [...prices].sort((a, b) =>
+            a.procedureId.localeCompare(b.procedureId) ||
+            b.effectiveFrom.localeCompare(a.effectiveFrom) ||
+            b.createdAt.getTime() - a.createdAt.getTime()
+        );
+    }
+
+    /**
+     * Versões em vigor na data informada (uma por procedimento), para destacar no histórico
+     */
+    static currentPriceIds(prices: ProcedurePrice[], date: string): Set<string> {
+        const current = new Map<string, ProcedurePrice>();
+        for (const price of this.sortHistory(prices)) {
+            if (price.isEffectiveOn(date) && !current.has(price.procedureId)) {
+                current.set(price.procedureId, price);
+            }
+        }
+        return new Set([...current.values()].map(price => price.id));
+    }
+
+    /**
+     * Agendamentos cobrados com valor diferente do preço de tabela vigente na data do atendimento
+     * ✅ Cancelados, procedimentos sem preço cadastrado e valores em outra moeda ficam de fora
+     * @param procedureIdsByName - Id do procedimento pelo nome (ver normalizeProcedure)
+     */
+    static findDivergences(
+        appointments: Appointment[],
+        prices: ProcedurePrice[],
+        procedureIdsByName: Map<string, string>
+    ): PriceDivergence[] {
+        const divergences: PriceDivergence[] = [];
+        for (const appointment of appointments) {
+            const procedureId = appointment.procedure ? procedureIdsByName.get(normalizeProcedure(appointment.procedure)) : undefined;
+            if (appointment.isCancelled || !appointment.clinicId || !procedureId) {
+                continue;
+            }
+
+            const price = this.resolve(prices, appointment.clinicId, procedureId, appointment.dateString);
+            if (!price || price.price.currency !== appointment.value.currency) {
+                continue;
+            }
+
+            const differenceCents = Math.round(appointment.value.amount * 100) - Math.round(price.price.amount * 100);
+            if (differenceCents !== 0) {
+                divergences.push({ appointment, price, difference: differenceCents / 100 });
+            }
+        }
+        return divergences.sort((a, b) => a.appointment.dateString.localeCompare(b.appointment.dateString));
+    }
+}
@@ -0,0 +1,152 @@
+import { Appointment } from '../entities/Appointment';
+import { Expense } from '../entities/Expense';
+import { ExchangeRate } from '../entities/ExchangeRate';
+import { Money, Currency } from '../value-objects/Money';
+import { normalizeProcedure } from '../entities/CommissionRule';
+import { ExchangeRateDomainService, MissingRate } from './ExchangeRateDomainService';
+
+/**
+ * Ocorrência de uma despesa no período (recorrentes geram várias)
+ */
+export interface ExpenseOccurrence {
+    expense: Expense;
+    date: string;
+}
+
+/**
+ * Receita, despesas e lucro líquido de um grupo (mês, clínica ou procedimento)
+ */
+export interface ProfitRow {
+    /** YYYY-MM, id da clínica ou procedimento normalizado; '' = sem clínica/procedimento */
+    key: string;
+    /** Nome para exibição (mês e procedimento; clínicas são resolvidas pela tela) */
+    label: string;
+    revenue: number;
+    expenses: number;
+    /** Receita menos despesas (negativo = prejuízo) */
+    net: number;
+}
+
+export interface ProfitReport {
+    currency: Currency;
+    byMonth: ProfitRow[];
+    byClinic: ProfitRow[];
+    byProcedure: ProfitRow[];
+    totals: { revenue: number; expenses: number; net: number };
+    /** Valores deixados de fora por falta de cotação */
+    missingRates: MissingRate[];
+}
+
+type Bucket = { label: string; revenueCents: number; expenseCents: number };
+
+/**
+ * Serviço de domínio para despesas e lucro líquido
+ */
+export class ProfitDomainService {
+    /**
+     * Ocorrências das despesas no período, em ordem de data
+     */
+    static occurrences(expenses: Expense[], startDate: string, endDate: string): ExpenseOccurrence[] {
+        return expenses
+            .flatMap(expense => expense.occurrencesBetween(startDate, endDate).map(date => ({ expense, date })))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * Lucro líquido do período por mês, por clínica e por procedimento
+     * ✅ Receita = parte do profissional já recebida, no mês do atendimento e convertida
+     * pela cotação do dia do pagamento; despesas convertidas pela cotação da ocorrência
+     * ✅ Despesas sem clínica ou procedimento entram no grupo '' (custos gerais)
+     */
+    static buildReport(
+        appointments: Appointment[],
+        expenses: Expense[],
+        startDate: string,
+        endDate: string,
+        currency: Currency,
+        rates: ExchangeRate[]
+    ): ProfitReport {
+        const months = new Map<string, Bucket>();
+        const clinics = new Map<string, Bucket>();
+        const procedures = new Map<string, Bucket>();
+        const missing = new Map<string, MissingRate>();
+
+        const toCents = (money: Money, date: string): number | null => {
+            const converted = ExchangeRateDomainService.convert(money, currency, date, rates);
+            if (!converted) {
+                missing.set(`${money.currency}|${date}`, { currency: money.currency, date });
+                return null;
+            }
+            return converted.money.cents;
+        };
+        const add = (groups: Map<string, Bucket>, key: string, label: string, field: 'revenueCents' | 'expenseCents', cents: number) => {
+            const bucket = groups.get(key) ?? { label, revenueCents: 0, expenseCents: 0 };
+            bucket[field] += cents;
+            groups.set(key, bucket);
+        };
+        const addAll = (date: string, clinicId: string | null, procedure: string | null, field: 'revenueCents' | 'expenseCents', cents: number) => {
+            add(months, date.slice(0, 7), date.slice(0, 7), field, cents);
+            add(clinics, clinicId ?? '', '', field, cents);
+            add(procedures, procedure ? normalizeProcedure(procedure) : '', procedure ?? '', field, cents);
+        };
+
+        for (const appointment of appointments) {
+            const date = appointment.dateString;
+            if (appointment.isCancelled || date < startDate || date > endDate) {
+                continue;
+            }
+            const received = this.receivedShare(appointment);
+            if (received.isZero) {
+                continue;
+            }
+            const cents = toCents(received, appointment.paymentDateString ?? date);
+            if (cents !== null) {
+                addAll(date, appointment.clinicId || null, appointment.procedure || null, 'revenueCents', cents);
+            }
+        }
+
+        for (const { expense, date } of this.occurrences(expenses, startDate, endDate)) {
+            const cents = toCents(expense.amount, date);
+            if (cents !== null) {
+                addAll(date, expense.clinicId, expense.procedure, 'expenseCents', cents);
+            }
+        }
+
+        const toRows = (groups: Map<string, Bucket>): ProfitRow[] =>
+            [...groups.entries()].map(([key, bucket]) => ({
+                key,
+                label: bucket.label,
+                revenue: bucket.revenueCents / 100,
+                expenses: bucket.expenseCents / 100,
+                net: (bucket.revenueCents - bucket.expenseCents) / 100
+            }));
+        const byMonth = toRows(months).sort((a, b) => a.key.localeCompare(b.key));
+        const revenueCents = [...months.values()].reduce((sum, bucket) => sum + bucket.revenueCents, 0);
+        const expenseCents = [...months.values()].reduce((sum, bucket) => sum + bucket.expenseCents, 0);
+
+        return {
+            currency,
+            byMonth,
+            byClinic: toRows(clinics).sort((a, b) => b.net - a.net),
+            byProcedure: toRows(procedures).sort((a, b) => b.net - a.net),
+            totals: {
+                revenue: revenueCents / 100,
+                expenses: expenseCents / 100,
+                net: (revenueCents - expenseCents) / 100
+            },
+            missingRates: [...missing.values()].sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date))
+        };
+    }
+
+    /**
+     * Parte do profissional proporcional ao que o paciente já pagou
+     */
+    private static receivedShare(appointment: Appointment): Money {
+        const share = appointment.calculateReceivedValue();
+        const total = appointment.value.amount;
+        if (total <= 0) {
+            return Money.zero(share.currency);
+        }
+        return share.multiply(Math.min(appointment.amountPaid, total) / total);
+    }
+}
@@ -0,0 +1,180 @@
+import { Appointment } from '../entities/Appointment';
+import { ExchangeRate } from '../entities/ExchangeRate';
+import { Money, Currency } from '../value-objects/Money';
+import { ExchangeRateDomainService, MissingRate } from './ExchangeRateDomainService';
+
+/**
+ * Faixa de atraso (dias desde o atendimento)
+ */
+export type AgingBucket = '0_30' | '31_60' | '61_90' | '90_plus';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0_30', '31_60', '61_90', '90_plus'];
+
+export type AgingTotals = Record<AgingBucket, number>;
+
+/**
+ * Atendimento com saldo em aberto
+ */
+export interface ReceivableItem {
+    appointmentId: string;
+    patientId: string;
+    clinicId: string;
+    /** Data do atendimento (YYYY-MM-DD) */
+    date: string;
+    procedure: string;
+    ageDays: number;
+    bucket: AgingBucket;
+    /** Saldo devedor na moeda do atendimento */
+    balance: Money;
+    /** Saldo devedor convertido para a moeda do relatório */
+    outstanding: Money;
+}
+
+/**
+ * Saldos em aberto de um paciente ou de uma clínica, por faixa de atraso
+ */
+export interface AgingGroup {
+    /** ID do paciente ou da clínica */
+    key: string;
+    label: string;
+    buckets: AgingTotals;
+    total: number;
+    items: ReceivableItem[];
+}
+
+export interface AgingReport {
+    /** Data de referência (YYYY-MM-DD) */
+    asOf: string;
+    currency: Currency;
+    buckets: AgingTotals;
+    total: number;
+    byPatient: AgingGroup[];
+    byClinic: AgingGroup[];
+    /** Saldos deixados de fora por falta de cotação */
+    missingRates: MissingRate[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyTotals = (): AgingTotals => ({ '0_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 });
+
+/**
+ * Serviço de domínio para contas a receber por idade do saldo
+ */
+export class ReceivablesDomainService {
+    /**
+     * Dias corridos entre duas datas (YYYY-MM-DD), sem efeito de fuso ou horário de verão
+     */
+    static daysBetween(from: string, to: string): number {
+        return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+    }
+
+    /**
+     * Faixa de atraso: 0–30, 31–60, 61–90 e mais de 90 dias
+     */
+    static bucketFor(ageDays: number): AgingBucket {
+        if (ageDays <= 30) return '0_30';
+        if (ageDays <= 60) return '31_60';
+        if (ageDays <= 90) return '61_90';
+        return '90_plus';
+    }
+
+    /**
+     * Relatório de idade dos saldos em aberto, agrupado por paciente e por clínica
+     * ✅ Só entram atendimentos já realizados (até a data de referência), não cancelados e com saldo
+     * ✅ Saldos em outra moeda são convertidos pela cotação da data do atendimento
+     * @param patientNames - Nome dos pacientes por ID (para exibição e ordenação)
+     * @param clinicNames - Nome das clínicas por ID
+     */
+    static buildReport(
+        appointments: Appointment[],
+        asOf: string,
+        currency: Currency,
+        rates: ExchangeRate[],
+        patientNames: Map<string, string> = new Map(),
+        clinicNames: Map<string, string> = new Map()
+    ): AgingReport {
+        const missing = new Map<string, MissingRate>();
+        const items: ReceivableItem[] = [];
+
+        for (const appointment of appointments) {
+            const date = appointment.dateString;
+            if (appointment.isCancelled || appointment.isPaid || date > asOf || appointment.remainingBalance <= 0) {
+                continue;
+            }
+            const balance = Money.create(appointment.remainingBalance, appointment.value.currency);
+            const converted = ExchangeRateDomainService.convert(balance, currency, date, rates);
+            if (!converted) {
+                missing.set(`${balance.currency}|${date}`, { currency: balance.currency, date });
+                continue;
+            }
+            const ageDays = this.daysBetween(date, asOf);
+            items.push({
+                appointmentId: appointment.id,
+                patientId: appointment.patientId,
+                clinicId: appointment.clinicId,
+                date,
+                procedure: appointment.procedure,
+                ageDays,
+                bucket: this.bucketFor(ageDays),
+                balance,
+                outstanding: converted.money
+            });
+        }
+        items.sort((a, b) => a.date.localeCompare(b.date));
+
+        const totals = this.sumBuckets(items);
+        return {
+            asOf,
+            currency,
+            buckets: totals.buckets,
+            total: totals.total,
+            byPatient: this.group(items, item => item.patientId, patientNames),
+            byClinic: this.group(items, item => item.clinicId, clinicNames),
+            missingRates: [...missing.values()].sort((a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date))
+        };
+    }
+
+    /**
+     * Agrupa os saldos; os grupos com mais atraso (90+, depois 61–90...) vêm primeiro
+     */
+    private static group(
+        items: ReceivableItem[],
+        keyOf: (item: ReceivableItem) => string,
+        names: Map<string, string>
+    ): AgingGroup[] {
+        const groups = new Map<string, ReceivableItem[]>();
+        for (const item of items) {
+            const key = keyOf(item);
+            groups.set(key, [...(groups.get(key) ?? []), item]);
+        }
+
+        return [...groups.entries()]
+            .map(([key, groupItems]) => ({
+                key,
+                label: names.get(key) ?? '',
+                ...this.sumBuckets(groupItems),
+                items: groupItems
+            }))
+            .sort((a, b) => {
+                for (const bucket of [...AGING_BUCKETS].reverse()) {
+                    if (a.buckets[bucket] !== b.buckets[bucket]) {
+                        return b.buckets[bucket] - a.buckets[bucket];
+                    }
+                }
+                return a.label.localeCompare(b.label);
+            });
+    }
+
+    private static sumBuckets(items: ReceivableItem[]): { buckets: AgingTotals; total: number } {
+        const cents = emptyTotals();
+        for (const item of items) {
+            cents[item.bucket] += item.outstanding.cents;
+        }
+        const buckets = emptyTotals();
+        for (const bucket of AGING_BUCKETS) {
+            buckets[bucket] = cents[bucket] / 100;
+        }
+        return { buckets, total: AGING_BUCKETS.reduce((sum, bucket) => sum + cents[bucket], 0) / 100 };
+    }
+}
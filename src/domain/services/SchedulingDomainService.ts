@@ -0,0 +1,127 @@
+import { Appointment } from '../entities/Appointment';
+import { Clinic } from '../entities/Clinic';
+import { WaitlistEntry, WaitlistSlot, WAITLIST_PRIORITY_WEIGHT } from '../entities/WaitlistEntry';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
+import { shiftDate } from '../value-objects/RecurrenceRule';
+
+/**
+ * Horário livre sugerido para um novo agendamento
+ */
+export interface FreeSlot {
+    clinicId: string;
+    /** Data no formato YYYY-MM-DD */
+    date: string;
+    /** Início no formato HH:mm */
+    time: string;
+    /** Fim no formato HH:mm */
+    endTime: string;
+}
+
+export interface FreeSlotQuery {
+    /** Primeiro dia da busca (YYYY-MM-DD) */
+    fromDate: string;
+    durationMinutes: number;
+    /** Máximo de horários retornados */
+    limit?: number;
+    /** Quantos dias a partir de fromDate considerar */
+    searchDays?: number;
+    stepMinutes?: number;
+    /** Referência de "agora" para descartar horários que já passaram */
+    now?: Date;
+}
+
+interface BusyInterval {
+    start: number;
+    end: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Serviço de domínio para disponibilidade de agenda
+ * Combina o expediente da clínica (janelas semanais, feriados, bloqueios)
+ * com os agendamentos existentes e suas durações
+ */
+export class SchedulingDomainService {
+    /**
+     * Procura os próximos horários livres em uma clínica
+     * ✅ Agendamentos em qualquer clínica ocupam o profissional; em outra clínica,
+     * reserva também o tempo mínimo de deslocamento
+     * ✅ Sugestões não se sobrepõem entre si
+     * @param appointments - Agendamentos do período (de todas as clínicas)
+     */
+    static findFreeSlots(clinic: Clinic, appointments: Appointment[], query: FreeSlotQuery): FreeSlot[] {
+        const {
+            fromDate,
+            durationMinutes,
+            limit = AppointmentConstants.FREE_SLOT_SUGGESTIONS,
+            searchDays = AppointmentConstants.FREE_SLOT_SEARCH_DAYS,
+            stepMinutes = AppointmentConstants.SLOT_STEP_MINUTES,
+            now = new Date()
+        } = query;
+
+        const today = toDateString(now);
+        const nowMinutes = now.getHours() * 60 + now.getMinutes();
+        const slots: FreeSlot[] = [];
+
+        for (let offset = 0; offset < searchDays && slots.length < limit; offset++) {
+            const date = shiftDate(fromDate, offset, 'days');
+            if (date < today) continue;
+
+            const busy = this.busyIntervals(clinic.id, date, appointments);
+            const earliest = date === today ? this.roundUp(nowMinutes, stepMinutes) : 0;
+
+            for (const window of clinic.windowsOn(date)) {
+                let start = Math.max(window.startMinutes, earliest);
+                while (start + durationMinutes <= window.endMinutes && slots.length < limit) {
+                    const end = start + durationMinutes;
+                    const blocking = busy.find(interval => start < interval.end && interval.start < end);
+                    if (blocking) {
+                        start = this.roundUp(blocking.end, stepMinutes);
+                        continue;
+                    }
+                    slots.push({ clinicId: clinic.id, date, time: toTime(start), endTime: toTime(end) });
+                    start = end;
+                }
+            }
+        }
+
+        return slots;
+    }
+
+    /**
+     * Entradas da lista de espera que aceitam a vaga liberada, na ordem em que devem ser oferecidas
+     * ✅ Maior prioridade primeiro; na mesma prioridade, quem entrou na lista antes
+     * @param excludePatientId - Paciente que liberou a vaga (não recebe a própria vaga)
+     */
+    static matchWaitlist(slot: WaitlistSlot, entries: WaitlistEntry[], excludePatientId: string | null = null): WaitlistEntry[] {
+        return entries
+            .filter(entry => entry.patientId !== excludePatientId && entry.matches(slot))
+            .sort((a, b) =>
+                WAITLIST_PRIORITY_WEIGHT[b.priority] - WAITLIST_PRIORITY_WEIGHT[a.priority] ||
+                a.createdAt.getTime() - b.createdAt.getTime()
+            );
+    }
+
+    /**
+     * Intervalos ocupados no dia, em minutos desde a meia-noite
+     */
+    private static busyIntervals(clinicId: string, date: string, appointments: Appointment[]): BusyInterval[] {
+        const travel = AppointmentConstants.MIN_TRAVEL_MINUTES_BETWEEN_CLINICS;
+        return appointments
+            .filter(appointment => appointment.dateString === date && !appointment.isCancelled)
+            .map(appointment => {
+                const otherClinic = Boolean(appointment.clinicId) && appointment.clinicId !== clinicId;
+                return {
+                    start: appointment.startMinutes - (otherClinic ? travel : 0),
+                    end: appointment.endMinutes + (otherClinic ? travel : 0)
+                };
+            });
+    }
+
+    private static roundUp(minutes: number, step: number): number {
+        return Math.ceil(minutes / step) * step;
+    }
+}
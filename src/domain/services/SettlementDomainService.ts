@@ -0,0 +1,84 @@
+import { Appointment } from '../entities/Appointment';
+import { SettlementLine } from '../entities/SettlementStatement';
+import { Currency } from '../value-objects/Money';
+import { DomainError } from '../errors/AppError';
+
+/**
+ * Resultado da conciliação de um demonstrativo com a receita da clínica no período
+ */
+export interface SettlementReconciliation {
+    /** Parte do profissional somada no demonstrativo */
+    statementOurShare: number;
+    /** Receita da clínica no período (ClinicService.getStatsById) */
+    clinicRevenue: number;
+    /** Receita menos demonstrativo; diferente de zero indica atendimentos fora do repasse */
+    difference: number;
+    /** Atendimentos pagos no período que ainda não entraram em nenhum repasse */
+    pendingAppointmentIds: string[];
+    reconciled: boolean;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Serviço de domínio para repasse às clínicas parceiras
+ */
+export class SettlementDomainService {
+    /**
+     * Atendimentos que podem entrar em um novo demonstrativo:
+     * pagos, não cancelados e ainda não incluídos em outro repasse
+     */
+    static selectSettleable<T extends Appointment>(appointments: T[]): T[] {
+        return appointments.filter(appointment =>
+            appointment.isPaid && !appointment.isCancelled && !appointment.isSettlementLocked
+        );
+    }
+
+    /**
+     * Linha do demonstrativo a partir do agendamento
+     * ✅ A parte do profissional vem de calculateReceivedValue (PaymentType); o restante é da clínica
+     */
+    static buildLine(appointment: Appointment, patientName: string | null = null): SettlementLine {
+        const ourShare = appointment.calculateReceivedValue();
+
+        return {
+            appointmentId: appointment.id,
+            date: appointment.dateString,
+            patientName,
+            procedure: appointment.procedure,
+            grossValue: appointment.value.amount,
+            ourShare: ourShare.amount,
+            clinicShare: appointment.value.subtract(ourShare).amount
+        };
+    }
+
+    /**
+     * Moeda única dos atendimentos do demonstrativo
+     * @throws {DomainError} Se houver atendimentos em moedas diferentes
+     */
+    static resolveCurrency(appointments: Appointment[]): Currency {
+        const currencies = [...new Set(appointments.map(appointment => appointment.value.currency))];
+        if (currencies.length > 1) {
+            throw new DomainError(`Período com atendimentos em moedas diferentes (${currencies.join(', ')}); emita um repasse por moeda`);
+        }
+        return currencies[0] ?? 'BRL';
+    }
+
+    /**
+     * Confere o demonstrativo com a receita da clínica no mesmo período
+     */
+    static reconcile(
+        statementOurShare: number,
+        clinicRevenue: number,
+        pendingAppointmentIds: string[]
+    ): SettlementReconciliation {
+        const difference = (toCents(clinicRevenue) - toCents(statementOurShare)) / 100;
+        return {
+            statementOurShare,
+            clinicRevenue,
+            difference,
+            pendingAppointmentIds,
+            reconciled: difference === 0 && pendingAppointmentIds.length === 0
+        };
+    }
+}
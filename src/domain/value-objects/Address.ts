@@ -0,0 +1,166 @@
+import { ValidationError } from '../errors/AppError';
+
+export interface AddressProps {
+    street: string;
+    number?: string | null;
+    complement?: string | null;
+    neighborhood?: string | null;
+    city: string;
+    /** Sigla da UF (ex.: SP) */
+    state: string;
+    /** CEP com ou sem máscara */
+    zipCode: string;
+}
+
+export interface AddressJSON {
+    street: string;
+    number: string | null;
+    complement: string | null;
+    neighborhood: string | null;
+    city: string;
+    state: string;
+    zip_code: string;
+}
+
+export const BRAZILIAN_STATES = [
+    'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+    'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO'
+] as const;
+
+/**
+ * Value Object para endereço brasileiro
+ * ✅ CEP armazenado só com os 8 dígitos e UF sempre em maiúsculas
+ */
+export class Address {
+    private readonly _street: string;
+    private readonly _number: string | null;
+    private readonly _complement: string | null;
+    private readonly _neighborhood: string | null;
+    private readonly _city: string;
+    private readonly _state: string;
+    private readonly _zipCode: string;
+
+    /**
+     * Cria uma instância de Address
+     * @throws {ValidationError} Se logradouro, cidade, UF ou CEP forem inválidos
+     */
+    constructor({ street, number = null, complement = null, neighborhood = null, city, state, zipCode }: AddressProps) {
+        if (!street?.trim()) {
+            throw new ValidationError({ street }, 'Logradouro é obrigatório');
+        }
+        if (!city?.trim()) {
+            throw new ValidationError({ city }, 'Cidade é obrigatória');
+        }
+        const uf = (state || '').trim().toUpperCase();
+        if (!(BRAZILIAN_STATES as readonly string[]).includes(uf)) {
+            throw new ValidationError({ state }, `UF inválida: ${state}`);
+        }
+        if (!Address.isValidZipCode(zipCode)) {
+            throw new ValidationError({ zipCode }, `CEP inválido: ${zipCode}`);
+        }
+
+        this._street = street.trim();
+        this._number = number?.trim() || null;
+        this._complement = complement?.trim() || null;
+        this._neighborhood = neighborhood?.trim() || null;
+        this._city = city.trim();
+        this._state = uf;
+        this._zipCode = zipCode.replace(/\D/g, '');
+    }
+
+    /**
+     * Valida um CEP (00000-000 ou 8 dígitos)
+     */
+    static isValidZipCode(zipCode: unknown): zipCode is string {
+        return typeof zipCode === 'string' && /^\d{5}-?\d{3}$/.test(zipCode.trim());
+    }
+
+    get street(): string {
+        return this._street;
+    }
+
+    get number(): string | null {
+        return this._number;
+    }
+
+    get complement(): string | null {
+        return this._complement;
+    }
+
+    get neighborhood(): string | null {
+        return this._neighborhood;
+    }
+
+    get city(): string {
+        return this._city;
+    }
+
+    get state(): string {
+        return this._state;
+    }
+
+    get zipCode(): string {
+        return this._zipCode;
+    }
+
+    /**
+     * CEP formatado (00000-000)
+     */
+    formatZipCode(): string {
+        return `${this._zipCode.slice(0, 5)}-${this._zipCode.slice(5)}`;
+    }
+
+    /**
+     * Endereço em uma linha (ex.: "Rua A, 10 - Centro, São Paulo/SP, 01000-000")
+     */
+    format(): string {
+        const streetLine = [this._street, this._number, this._complement].filter(Boolean).join(', ');
+        const district = this._neighborhood ? ` - ${this._neighborhood}` : '';
+        return `${streetLine}${district}, ${this._city}/${this._state}, ${this.formatZipCode()}`;
+    }
+
+    toProps(): AddressProps {
+        return {
+            street: this._street,
+            number: this._number,
+            complement: this._complement,
+            neighborhood: this._neighborhood,
+            city: this._city,
+            state: this._state,
+            zipCode: this._zipCode
+        };
+    }
+
+    toJSON(): AddressJSON {
+        return {
+            street: this._street,
+            number: this._number,
+            complement: this._complement,
+            neighborhood: this._neighborhood,
+            city: this._city,
+            state: this._state,
+            zip_code: this._zipCode
+        };
+    }
+
+    /**
+     * Factory method
+     */
+    static create(props: AddressProps | null | undefined): Address | null {
+        if (!props) return null;
+        return new Address(props);
+    }
+
+    static fromJSON(json: AddressJSON | null | undefined): Address | null {
+        if (!json) return null;
+        return new Address({
+            street: json.street,
+            number: json.number,
+            complement: json.complement,
+            neighborhood: json.neighborhood,
+            city: json.city,
+            state: json.state,
+            zipCode: json.zip_code
+        });
+    }
+}
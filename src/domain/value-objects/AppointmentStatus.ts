@@ -2,6 +2,12 @@ import { ValidationError } from '../errors/AppError';
 
 export type AppointmentStatusValue = 'scheduled' | 'pending' | 'paid' | 'cancelled';
 
+/**
+ * Status de pagamento do agendamento (derivado dos pagamentos registrados)
+ * O ciclo de vida clínico é tratado separadamente por ClinicalStatus
+ */
+export type PaymentStatusValue = 'pending' | 'partial' | 'paid';
+
 /**
  * Value Object para AppointmentStatus
  */
@@ -0,0 +1,89 @@
+import { ValidationError } from '../errors/AppError';
+import { Time } from './Time';
+
+export interface AvailabilityWindowProps {
+    /** Dia da semana (0 = domingo ... 6 = sábado) */
+    weekday: number;
+    /** Início do expediente (HH:mm) */
+    start: string;
+    /** Fim do expediente (HH:mm), exclusivo */
+    end: string;
+}
+
+export const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6] as const;
+
+/**
+ * Value Object para uma janela semanal de atendimento (ex.: segunda, 08:00–12:00)
+ */
+export class AvailabilityWindow {
+    private readonly _weekday: number;
+    private readonly _start: Time;
+    private readonly _end: Time;
+
+    /**
+     * Cria uma instância de AvailabilityWindow
+     * @throws {ValidationError} Se dia da semana ou horários forem inválidos
+     */
+    constructor({ weekday, start, end }: AvailabilityWindowProps) {
+        if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+            throw new ValidationError({ weekday }, `Dia da semana inválido: ${weekday}`);
+        }
+        this._weekday = weekday;
+        this._start = new Time(start);
+        this._end = new Time(end);
+
+        if (this.endMinutes <= this.startMinutes) {
+            throw new ValidationError({ start, end }, 'Fim do expediente deve ser posterior ao início');
+        }
+    }
+
+    get weekday(): number {
+        return this._weekday;
+    }
+
+    get start(): string {
+        return this._start.toString();
+    }
+
+    get end(): string {
+        return this._end.toString();
+    }
+
+    /**
+     * Minutos desde a meia-noite em que a janela começa
+     */
+    get startMinutes(): number {
+        return this._start.hours * 60 + this._start.minutes;
+    }
+
+    /**
+     * Minutos desde a meia-noite em que a janela termina
+     */
+    get endMinutes(): number {
+        return this._end.hours * 60 + this._end.minutes;
+    }
+
+    /**
+     * Verifica se duas janelas do mesmo dia se sobrepõem
+     */
+    overlaps(other: AvailabilityWindow): boolean {
+        return this._weekday === other._weekday &&
+            this.startMinutes < other.endMinutes &&
+            other.startMinutes < this.endMinutes;
+    }
+
+    toJSON(): AvailabilityWindowProps {
+        return {
+            weekday: this._weekday,
+            start: this.start,
+            end: this.end
+        };
+    }
+
+    /**
+     * Factory method
+     */
+    static create(props: AvailabilityWindowProps): AvailabilityWindow {
+        return new AvailabilityWindow(props);
+    }
+}
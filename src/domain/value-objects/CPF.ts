@@ -0,0 +1,83 @@
+import { ValidationError } from '../errors/AppError';
+
+/**
+ * Value Object para CPF
+ * ✅ Armazenado só com os 11 dígitos; os dígitos verificadores são conferidos
+ */
+export class CPF {
+    private readonly _value: string;
+
+    /**
+     * Cria uma instância de CPF
+     * @throws {ValidationError} Se CPF inválido
+     */
+    constructor(value: string) {
+        if (!CPF.isValid(value)) {
+            throw new ValidationError({ cpf: value }, `CPF inválido: ${value}`);
+        }
+        this._value = CPF.normalize(value);
+    }
+
+    /**
+     * Valida se um CPF é válido (tamanho e dígitos verificadores)
+     */
+    static isValid(cpf: unknown): cpf is string {
+        if (!cpf || typeof cpf !== 'string') return false;
+        const cleaned = CPF.normalize(cpf);
+
+        if (cleaned.length !== 11) return false;
+        if (/^(\d)\1+$/.test(cleaned)) return false; // Todos dígitos iguais
+
+        return CPF.checkDigit(cleaned, 9) === Number(cleaned.charAt(9))
+            && CPF.checkDigit(cleaned, 10) === Number(cleaned.charAt(10));
+    }
+
+    /**
+     * Normaliza um CPF removendo caracteres não numéricos
+     */
+    static normalize(cpf: string): string {
+        return cpf.replace(/\D/g, '');
+    }
+
+    /**
+     * Retorna o valor do CPF como string (só dígitos)
+     */
+    toString(): string {
+        return this._value;
+    }
+
+    /**
+     * Formata o CPF para exibição (000.000.000-00)
+     */
+    format(): string {
+        const v = this._value;
+        return `${v.slice(0, 3)}.${v.slice(3, 6)}.${v.slice(6, 9)}-${v.slice(9)}`;
+    }
+
+    /**
+     * Compara dois CPFs
+     */
+    equals(other: CPF): boolean {
+        return other instanceof CPF && this._value === other._value;
+    }
+
+    /**
+     * Cria um CPF a partir de um valor (factory method)
+     */
+    static create(value: string | null | undefined): CPF | null {
+        if (!value) return null;
+        return new CPF(value);
+    }
+
+    /**
+     * Dígito verificador calculado sobre os `length` primeiros dígitos
+     */
+    private static checkDigit(digits: string, length: number): number {
+        let sum = 0;
+        for (let i = 0; i < length; i++) {
+            sum += Number(digits.charAt(i)) * (length + 1 - i);
+        }
+        const digit = 11 - (sum % 11);
+        return digit >= 10 ? 0 : digit;
+    }
+}
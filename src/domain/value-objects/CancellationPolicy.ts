@@ -0,0 +1,103 @@
+import { ValidationError } from '../errors/AppError';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
+import { Money } from './Money';
+
+export interface CancellationPolicyProps {
+    /** Antecedência mínima, em horas, para cancelar sem ser considerado tardio */
+    noticeHours: number;
+    /** Taxa cobrada do paciente no cancelamento tardio (moeda do agendamento); null = sem taxa */
+    lateFee?: number | null;
+    /** Permite cancelar fora do prazo informando o motivo */
+    allowLateOverride?: boolean;
+}
+
+export interface CancellationPolicyJSON {
+    notice_hours: number;
+    late_fee: number | null;
+    allow_late_override: boolean;
+}
+
+const MAX_NOTICE_HOURS = 720;
+
+/**
+ * Value Object para a política de cancelamento de uma clínica
+ * ✅ Sem política configurada vale a antecedência padrão, sem taxa e sem exceções
+ */
+export class CancellationPolicy {
+    private readonly _noticeHours: number;
+    private readonly _lateFee: number | null;
+    private readonly _allowLateOverride: boolean;
+
+    /**
+     * Cria uma instância de CancellationPolicy
+     * @throws {ValidationError} Se antecedência ou taxa forem inválidas
+     */
+    constructor({ noticeHours, lateFee = null, allowLateOverride = false }: CancellationPolicyProps) {
+        if (!Number.isInteger(noticeHours) || noticeHours < 0 || noticeHours > MAX_NOTICE_HOURS) {
+            throw new ValidationError(
+                { noticeHours },
+                `Antecedência de cancelamento deve ser um número inteiro de horas entre 0 e ${MAX_NOTICE_HOURS}`
+            );
+        }
+        if (lateFee !== null && (!Number.isFinite(lateFee) || lateFee < 0)) {
+            throw new ValidationError({ lateFee }, 'Taxa de cancelamento tardio deve ser um valor positivo');
+        }
+
+        this._noticeHours = noticeHours;
+        this._lateFee = lateFee ? Money.create(lateFee).amount : null;
+        this._allowLateOverride = allowLateOverride;
+    }
+
+    get noticeHours(): number {
+        return this._noticeHours;
+    }
+
+    get lateFee(): number | null {
+        return this._lateFee;
+    }
+
+    get allowLateOverride(): boolean {
+        return this._allowLateOverride;
+    }
+
+    /**
+     * Cancelamento feito com menos antecedência que a exigida (inclui horários que já passaram)
+     */
+    isLate(startsAt: Date, at: Date = new Date()): boolean {
+        const hoursUntilStart = (startsAt.getTime() - at.getTime()) / (1000 * 60 * 60);
+        return hoursUntilStart < this._noticeHours;
+    }
+
+    /**
+     * Descrição legível (ex.: "24h de antecedência, taxa de 50, exceção com motivo")
+     */
+    describe(): string {
+        return [
+            `${this._noticeHours}h de antecedência`,
+            this._lateFee ? `taxa de ${this._lateFee.toFixed(2)}` : null,
+            this._allowLateOverride ? 'exceção com motivo' : null
+        ].filter(Boolean).join(', ');
+    }
+
+    toJSON(): CancellationPolicyJSON {
+        return {
+            notice_hours: this._noticeHours,
+            late_fee: this._lateFee,
+            allow_late_override: this._allowLateOverride
+        };
+    }
+
+    /**
+     * Política aplicada quando a clínica não configurou a sua
+     */
+    static default(): CancellationPolicy {
+        return new CancellationPolicy({ noticeHours: AppointmentConstants.DEFAULT_CANCELLATION_NOTICE_HOURS });
+    }
+
+    /**
+     * Factory method
+     */
+    static create(props: CancellationPolicyProps): CancellationPolicy {
+        return new CancellationPolicy(props);
+    }
+}
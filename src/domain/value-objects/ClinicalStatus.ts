@@ -0,0 +1,97 @@
+import { ValidationError, DomainError } from '../errors/AppError';
+
+export type ClinicalStatusValue =
+    | 'scheduled'
+    | 'confirmed'
+    | 'in_progress'
+    | 'completed'
+    | 'no_show'
+    | 'cancelled';
+
+/**
+ * Transições permitidas no ciclo de vida clínico do agendamento
+ * Estados finais (completed, no_show, cancelled) não possuem transições
+ */
+const ALLOWED_TRANSITIONS: Record<ClinicalStatusValue, ClinicalStatusValue[]> = {
+    scheduled: ['confirmed', 'in_progress', 'completed', 'no_show', 'cancelled'],
+    confirmed: ['in_progress', 'completed', 'no_show', 'cancelled'],
+    in_progress: ['completed'],
+    completed: [],
+    no_show: [],
+    cancelled: []
+};
+
+/**
+ * Value Object para o status clínico do agendamento
+ * ✅ Independente do status de pagamento
+ */
+export class ClinicalStatus {
+    private readonly _value: ClinicalStatusValue;
+
+    /**
+     * Cria uma instância de ClinicalStatus
+     * @throws {ValidationError} Se status inválido
+     */
+    constructor(value: ClinicalStatusValue) {
+        if (!ClinicalStatus.values().includes(value)) {
+            throw new ValidationError({ clinicalStatus: value }, `Status clínico inválido: ${value}`);
+        }
+        this._value = value;
+    }
+
+    get value(): ClinicalStatusValue {
+        return this._value;
+    }
+
+    toString(): string {
+        return this._value;
+    }
+
+    equals(other: ClinicalStatus): boolean {
+        return other instanceof ClinicalStatus && this._value === other._value;
+    }
+
+    get isFinal(): boolean {
+        return ALLOWED_TRANSITIONS[this._value].length === 0;
+    }
+
+    get isCancelled(): boolean {
+        return this._value === 'cancelled';
+    }
+
+    /**
+     * Estados para os quais é possível transicionar a partir do atual
+     */
+    allowedTransitions(): ClinicalStatusValue[] {
+        return [...ALLOWED_TRANSITIONS[this._value]];
+    }
+
+    canTransitionTo(next: ClinicalStatusValue): boolean {
+        return ALLOWED_TRANSITIONS[this._value].includes(next);
+    }
+
+    /**
+     * Retorna o novo status após validar a transição
+     * @throws {DomainError} Se a transição não for permitida
+     */
+    transitionTo(next: ClinicalStatusValue): ClinicalStatus {
+        if (!this.canTransitionTo(next)) {
+            throw new DomainError(`Transição de status inválida: ${this._value} → ${next}`);
+        }
+        return new ClinicalStatus(next);
+    }
+
+    /**
+     * Factory method
+     */
+    static create(value: ClinicalStatusValue = 'scheduled'): ClinicalStatus {
+        return new ClinicalStatus(value);
+    }
+
+    /**
+     * Todos os status clínicos, na ordem do ciclo de vida
+     */
+    static values(): ClinicalStatusValue[] {
+        return Object.keys(ALLOWED_TRANSITIONS) as ClinicalStatusValue[];
+    }
+}
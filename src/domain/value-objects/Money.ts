@@ -2,87 +2,178 @@ import { ValidationError, DomainError } from '../errors/AppError';
 
 export type Currency = 'BRL' | 'USD' | 'EUR';
 
+/**
+ * Arredondamento para centavos
+ * half-up = comercial (0,5 sobe); half-even = bancário (0,5 vai para o par);
+ * down = trunca; up = sempre sobe
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'down' | 'up';
+
+export const CURRENCIES: Currency[] = ['BRL', 'USD', 'EUR'];
+const MINOR_UNITS_PER_UNIT = 100;
+
+/**
+ * Arredonda uma quantidade fracionária de centavos para inteiro
+ * ✅ toPrecision elimina o ruído de ponto flutuante (1.005 * 100 = 100.49999...)
+ */
+function roundMinorUnits(value: number, mode: RoundingMode): number {
+    const clean = Number(value.toPrecision(15));
+    const floor = Math.floor(clean);
+    const fraction = Number((clean - floor).toPrecision(15));
+
+    switch (mode) {
+        case 'down':
+            return floor;
+        case 'up':
+            return fraction > 0 ? floor + 1 : floor;
+        case 'half-even':
+            if (fraction === 0.5) {
+                return floor % 2 === 0 ? floor : floor + 1;
+            }
+            return fraction > 0.5 ? floor + 1 : floor;
+        case 'half-up':
+        default:
+            return fraction >= 0.5 ? floor + 1 : floor;
+    }
+}
+
 /**
  * Value Object para Money
+ * ✅ O valor é guardado em centavos (inteiro): somas e subtrações são exatas,
+ * e todo arredondamento acontece uma única vez, com modo explícito
  */
 export class Money {
-    private readonly _amount: number;
+    private readonly _cents: number;
     private readonly _currency: Currency;
 
     /**
-     * Cria uma instância de Money
+     * Cria uma instância de Money a partir do valor em reais (ou na unidade da moeda)
      * @throws {ValidationError} Se valor inválido
      */
-    constructor(amount: number, currency: Currency = 'BRL') {
-        if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+    constructor(amount: number, currency: Currency = 'BRL', rounding: RoundingMode = 'half-up') {
+        if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
             throw new ValidationError({ amount }, 'Valor deve ser um número positivo');
         }
-        if (!['BRL', 'USD', 'EUR'].includes(currency)) {
+        if (!CURRENCIES.includes(currency)) {
             throw new ValidationError({ currency }, `Moeda não suportada: ${currency}`);
         }
-        
-        this._amount = Math.round(amount * 100) / 100; // 2 casas decimais
+
+        this._cents = roundMinorUnits(amount * MINOR_UNITS_PER_UNIT, rounding);
         this._currency = currency;
     }
-    
+
     /**
-     * Retorna o valor
+     * Retorna o valor (2 casas decimais)
      */
     get amount(): number {
-        return this._amount;
+        return this._cents / MINOR_UNITS_PER_UNIT;
     }
-    
+
+    /**
+     * Retorna o valor em centavos (inteiro)
+     */
+    get cents(): number {
+        return this._cents;
+    }
+
     /**
      * Retorna a moeda
      */
     get currency(): Currency {
         return this._currency;
     }
-    
+
+    get isZero(): boolean {
+        return this._cents === 0;
+    }
+
     /**
      * Soma dois valores monetários
      * @throws {DomainError} Se moedas diferentes
      */
     add(other: Money): Money {
-        if (this._currency !== other._currency) {
-            throw new DomainError('Não é possível somar moedas diferentes');
-        }
-        return new Money(this._amount + other._amount, this._currency);
+        this.ensureSameCurrency(other, 'Não é possível somar moedas diferentes');
+        return Money.fromCents(this._cents + other._cents, this._currency);
     }
-    
+
     /**
      * Subtrai dois valores monetários
      * @throws {DomainError} Se moedas diferentes ou resultado negativo
      */
     subtract(other: Money): Money {
-        if (this._currency !== other._currency) {
-            throw new DomainError('Não é possível subtrair moedas diferentes');
-        }
-        const result = this._amount - other._amount;
+        this.ensureSameCurrency(other, 'Não é possível subtrair moedas diferentes');
+        const result = this._cents - other._cents;
         if (result < 0) {
             throw new DomainError('Resultado não pode ser negativo');
         }
-        return new Money(result, this._currency);
+        return Money.fromCents(result, this._currency);
     }
-    
+
     /**
      * Multiplica o valor por um fator
      * @throws {DomainError} Se fator negativo
      */
-    multiply(factor: number): Money {
+    multiply(factor: number, rounding: RoundingMode = 'half-up'): Money {
         if (factor < 0) {
             throw new DomainError('Fator deve ser positivo');
         }
-        return new Money(this._amount * factor, this._currency);
+        return Money.fromCents(roundMinorUnits(this._cents * factor, rounding), this._currency);
     }
-    
+
     /**
      * Calcula uma porcentagem do valor
      */
-    percentage(percent: number): Money {
-        return new Money((this._amount * percent) / 100, this._currency);
+    percentage(percent: number, rounding: RoundingMode = 'half-up'): Money {
+        return this.multiply(percent / 100, rounding);
+    }
+
+    /**
+     * Menor entre dois valores
+     * @throws {DomainError} Se moedas diferentes
+     */
+    min(other: Money): Money {
+        this.ensureSameCurrency(other, 'Não é possível comparar moedas diferentes');
+        return this._cents <= other._cents ? this : other;
+    }
+
+    /**
+     * Divide o valor na proporção dos pesos informados sem perder centavos
+     * ✅ A soma das partes é sempre igual ao total; os centavos que sobram
+     * vão, um a um, para as primeiras partes
+     * @example Money.create(100).allocate([1, 1, 1]) // 33,34 + 33,33 + 33,33
+     * @throws {DomainError} Se não houver pesos, algum for negativo ou todos forem zero
+     */
+    allocate(ratios: number[]): Money[] {
+        const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+        if (ratios.length === 0 || ratios.some(ratio => !Number.isFinite(ratio) || ratio < 0) || total <= 0) {
+            throw new DomainError('Proporções inválidas para dividir o valor');
+        }
+
+        const parts = ratios.map(ratio => Math.floor((this._cents * ratio) / total));
+        let leftover = this._cents - parts.reduce((sum, part) => sum + part, 0);
+        for (let index = 0; leftover > 0; index = (index + 1) % parts.length) {
+            if (ratios[index] > 0) {
+                parts[index]++;
+                leftover--;
+            }
+        }
+        return parts.map(cents => Money.fromCents(cents, this._currency));
+    }
+
+    /**
+     * Converte para outra moeda pela cotação informada (1 unidade desta moeda = rate unidades da outra)
+     * @throws {DomainError} Se cotação inválida
+     */
+    convert(to: Currency, rate: number, rounding: RoundingMode = 'half-up'): Money {
+        if (!Number.isFinite(rate) || rate <= 0) {
+            throw new DomainError('Cotação deve ser maior que zero');
+        }
+        if (to === this._currency) {
+            return this;
+        }
+        return Money.fromCents(roundMinorUnits(this._cents * rate, rounding), to);
     }
-    
+
     /**
      * Formata o valor para exibição
      */
@@ -90,51 +181,77 @@ export class Money {
         return new Intl.NumberFormat(locale, {
             style: 'currency',
             currency: this._currency
-        }).format(this._amount);
+        }).format(this.amount);
     }
-    
+
     /**
      * Compara dois valores monetários
      */
     equals(other: Money): boolean {
         return other instanceof Money &&
-               this._amount === other._amount &&
+               this._cents === other._cents &&
                this._currency === other._currency;
     }
-    
+
     /**
      * Verifica se este valor é maior que outro
      * @throws {DomainError} Se moedas diferentes
      */
     isGreaterThan(other: Money): boolean {
-        if (this._currency !== other._currency) {
-            throw new DomainError('Não é possível comparar moedas diferentes');
-        }
-        return this._amount > other._amount;
+        this.ensureSameCurrency(other, 'Não é possível comparar moedas diferentes');
+        return this._cents > other._cents;
     }
-    
+
     /**
      * Serializa para JSON
      */
     toJSON(): { amount: number; currency: Currency } {
         return {
-            amount: this._amount,
+            amount: this.amount,
             currency: this._currency
         };
     }
-    
+
+    private ensureSameCurrency(other: Money, message: string): void {
+        if (this._currency !== other._currency) {
+            throw new DomainError(message);
+        }
+    }
+
     /**
      * Cria um Money a partir de JSON
      */
     static fromJSON(json: { amount: number; currency: Currency }): Money {
         return new Money(json.amount, json.currency);
     }
-    
+
     /**
      * Factory method para criar Money
      */
-    static create(amount: number, currency: Currency = 'BRL'): Money {
-        return new Money(amount, currency);
+    static create(amount: number, currency: Currency = 'BRL', rounding: RoundingMode = 'half-up'): Money {
+        return new Money(amount, currency, rounding);
     }
-}
 
+    /**
+     * Cria um Money a partir do valor em centavos
+     * @throws {ValidationError} Se centavos não for inteiro positivo
+     */
+    static fromCents(cents: number, currency: Currency = 'BRL'): Money {
+        if (!Number.isInteger(cents) || cents < 0) {
+            throw new ValidationError({ cents }, 'Valor em centavos deve ser um inteiro positivo');
+        }
+        return new Money(cents / MINOR_UNITS_PER_UNIT, currency);
+    }
+
+    static zero(currency: Currency = 'BRL'): Money {
+        return Money.fromCents(0, currency);
+    }
+
+    /**
+     * Soma uma lista de valores na mesma moeda
+     * @throws {DomainError} Se moedas diferentes
+     */
+    static sum(values: Money[], currency: Currency = 'BRL'): Money {
+        return values.reduce((total, value) => total.add(value), Money.zero(currency));
+    }
+}
@@ -1,7 +1,12 @@
 import { ValidationError, DomainError } from '../errors/AppError';
 import { Money } from './Money';
 
-export type PaymentTypeValue = '100' | 'percentage';
+/**
+ * 100 = recebe o valor total; percentage = percentual do valor; fixed = valor fixo por atendimento
+ */
+export type PaymentTypeValue = '100' | 'percentage' | 'fixed';
+
+export const PAYMENT_TYPES: PaymentTypeValue[] = ['100', 'percentage', 'fixed'];
 
 /**
  * Value Object para PaymentType
@@ -9,21 +14,26 @@ export type PaymentTypeValue = '100' | 'percentage';
 export class PaymentType {
     private readonly _type: PaymentTypeValue;
     private readonly _percentage: number | null;
+    private readonly _fixedAmount: number | null;
 
     /**
      * Cria uma instância de PaymentType
      * @throws {ValidationError} Se tipo inválido
      */
-    constructor(type: PaymentTypeValue, percentage: number | null = null) {
-        if (!['100', 'percentage'].includes(type)) {
+    constructor(type: PaymentTypeValue, percentage: number | null = null, fixedAmount: number | null = null) {
+        if (!PAYMENT_TYPES.includes(type)) {
             throw new ValidationError({ type }, `Tipo de pagamento inválido: ${type}`);
         }
         if (type === 'percentage' && (percentage === null || percentage < 0 || percentage > 100)) {
             throw new ValidationError({ percentage }, 'Porcentagem deve estar entre 0 e 100');
         }
+        if (type === 'fixed' && (fixedAmount === null || !Number.isFinite(fixedAmount) || fixedAmount < 0)) {
+            throw new ValidationError({ fixedAmount }, 'Valor fixo deve ser um valor positivo');
+        }
         
         this._type = type;
         this._percentage = type === 'percentage' ? percentage : null;
+        this._fixedAmount = type === 'fixed' ? Money.create(fixedAmount!).amount : null;
     }
     
     get type(): PaymentTypeValue {
@@ -34,8 +44,13 @@ export class PaymentType {
         return this._percentage;
     }
     
+    get fixedAmount(): number | null {
+        return this._fixedAmount;
+    }
+    
     /**
      * Calcula o valor recebido baseado no tipo de pagamento
+     * ✅ Valor fixo nunca ultrapassa o valor do atendimento
      */
     calculateReceivedValue(value: Money): Money {
         if (this._type === '100') {
@@ -44,21 +59,30 @@ export class PaymentType {
         if (this._type === 'percentage' && this._percentage !== null) {
             return value.percentage(this._percentage);
         }
+        if (this._type === 'fixed' && this._fixedAmount !== null) {
+            return Money.create(this._fixedAmount, value.currency).min(value);
+        }
         throw new DomainError('Tipo de pagamento não suportado');
     }
     
+    equals(other: PaymentType): boolean {
+        return this._type === other._type &&
+            this._percentage === other._percentage &&
+            this._fixedAmount === other._fixedAmount;
+    }
+    
     /**
      * Factory method
      */
-    static create(type: PaymentTypeValue, percentage: number | null = null): PaymentType {
-        return new PaymentType(type, percentage);
+    static create(type: PaymentTypeValue, percentage: number | null = null, fixedAmount: number | null = null): PaymentType {
+        return new PaymentType(type, percentage, fixedAmount);
     }
     
-    toJSON(): { type: PaymentTypeValue; percentage: number | null } {
+    toJSON(): { type: PaymentTypeValue; percentage: number | null; fixedAmount: number | null } {
         return {
             type: this._type,
-            percentage: this._percentage
+            percentage: this._percentage,
+            fixedAmount: this._fixedAmount
         };
     }
 }
-
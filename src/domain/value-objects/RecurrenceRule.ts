@@ -0,0 +1,180 @@
+import { ValidationError } from '../errors/AppError';
+import { AppointmentConstants } from '../constants/AppointmentConstants';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type DateUnit = 'days' | 'weeks' | 'months';
+
+export interface RecurrenceRuleProps {
+    frequency: RecurrenceFrequency;
+    /** Repetir a cada N dias/semanas/meses */
+    interval: number;
+    /** Última data possível (YYYY-MM-DD), exclusivo com count */
+    until?: string | null;
+    /** Número total de ocorrências (incluindo a primeira), exclusivo com until */
+    count?: number | null;
+}
+
+/**
+ * Deslocamento relativo a uma data (ex.: retorno em 6 meses)
+ */
+export interface DateOffset {
+    amount: number;
+    unit: DateUnit;
+}
+
+const FREQUENCY_UNIT: Record<RecurrenceFrequency, DateUnit> = {
+    daily: 'days',
+    weekly: 'weeks',
+    monthly: 'months'
+};
+
+const UNIT_LABELS: Record<DateUnit, [string, string]> = {
+    days: ['dia', 'dias'],
+    weeks: ['semana', 'semanas'],
+    months: ['mês', 'meses']
+};
+
+const MAX_INTERVAL = 365;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Soma dias, semanas ou meses a uma data 'YYYY-MM-DD'
+ * Meses sem o dia de origem usam o último dia do mês (31/01 + 1 mês = 28/02 ou 29/02)
+ */
+export function shiftDate(date: string, amount: number, unit: DateUnit): string {
+    const [year, month, day] = date.split('-').map(Number);
+    let result: Date;
+    if (unit === 'months') {
+        const lastDay = new Date(year, month - 1 + amount + 1, 0).getDate();
+        result = new Date(year, month - 1 + amount, Math.min(day, lastDay));
+    } else {
+        result = new Date(year, month - 1, day + amount * (unit === 'weeks' ? 7 : 1));
+    }
+    return `${result.getFullYear()}-${pad(result.getMonth() + 1)}-${pad(result.getDate())}`;
+}
+
+/**
+ * Descrição de um deslocamento (ex.: "6 meses", "1 semana")
+ */
+export function describeOffset({ amount, unit }: DateOffset): string {
+    return `${amount} ${UNIT_LABELS[unit][amount === 1 ? 0 : 1]}`;
+}
+
+/**
+ * Value Object para regra de recorrência de agendamentos
+ * ✅ A cada N dias/semanas/meses, até uma data ou por N ocorrências
+ */
+export class RecurrenceRule {
+    private readonly _frequency: RecurrenceFrequency;
+    private readonly _interval: number;
+    private readonly _until: string | null;
+    private readonly _count: number | null;
+
+    /**
+     * Cria uma instância de RecurrenceRule
+     * @throws {ValidationError} Se a regra for inválida
+     */
+    constructor({ frequency, interval, until = null, count = null }: RecurrenceRuleProps) {
+        if (!(frequency in FREQUENCY_UNIT)) {
+            throw new ValidationError({ frequency }, `Frequência de recorrência inválida: ${frequency}`);
+        }
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+            throw new ValidationError({ interval }, `Intervalo de recorrência deve ser um inteiro entre 1 e ${MAX_INTERVAL}`);
+        }
+        if ((until === null) === (count === null)) {
+            throw new ValidationError({ until, count }, 'Informe a data final ou o número de ocorrências da recorrência');
+        }
+        if (until !== null && !DATE_PATTERN.test(until)) {
+            throw new ValidationError({ until }, 'Data final da recorrência inválida (formato esperado: YYYY-MM-DD)');
+        }
+        if (count !== null &&
+            (!Number.isInteger(count) || count < 2 || count > AppointmentConstants.MAX_SERIES_OCCURRENCES)) {
+            throw new ValidationError(
+                { count },
+                `Número de ocorrências deve estar entre 2 e ${AppointmentConstants.MAX_SERIES_OCCURRENCES}`
+            );
+        }
+
+        this._frequency = frequency;
+        this._interval = interval;
+        this._until = until;
+        this._count = count;
+    }
+
+    get frequency(): RecurrenceFrequency {
+        return this._frequency;
+    }
+
+    get interval(): number {
+        return this._interval;
+    }
+
+    get until(): string | null {
+        return this._until;
+    }
+
+    get count(): number | null {
+        return this._count;
+    }
+
+    /**
+     * Datas das ocorrências a partir da data inicial (inclusive)
+     * ✅ Calculadas a partir da data inicial para não acumular ajustes de fim de mês
+     * @throws {ValidationError} Se a data final for anterior ao início ou gerar ocorrências demais
+     */
+    occurrences(startDate: string): string[] {
+        const unit = FREQUENCY_UNIT[this._frequency];
+        const max = AppointmentConstants.MAX_SERIES_OCCURRENCES;
+
+        if (this._count !== null) {
+            return Array.from({ length: this._count }, (_, index) => shiftDate(startDate, index * this._interval, unit));
+        }
+
+        const until = this._until as string;
+        if (until <= startDate) {
+            throw new ValidationError({ until }, 'Data final da recorrência deve ser posterior à data inicial');
+        }
+        const dates: string[] = [];
+        for (let index = 0; ; index++) {
+            const date = shiftDate(startDate, index * this._interval, unit);
+            if (date > until) break;
+            if (dates.length === max) {
+                throw new ValidationError({ until }, `A recorrência gera mais de ${max} agendamentos`);
+            }
+            dates.push(date);
+        }
+        return dates;
+    }
+
+    /**
+     * Descrição legível (ex.: "A cada 2 semanas, 6 vezes")
+     */
+    describe(): string {
+        const unit = FREQUENCY_UNIT[this._frequency];
+        const every = this._interval === 1
+            ? { days: 'Todos os dias', weeks: 'Toda semana', months: 'Todo mês' }[unit]
+            : `A cada ${describeOffset({ amount: this._interval, unit })}`;
+        const end = this._count !== null
+            ? `${this._count} vezes`
+            : `até ${this._until!.split('-').reverse().join('/')}`;
+        return `${every}, ${end}`;
+    }
+
+    toJSON(): RecurrenceRuleProps {
+        return {
+            frequency: this._frequency,
+            interval: this._interval,
+            until: this._until,
+            count: this._count
+        };
+    }
+
+    /**
+     * Factory method
+     */
+    static create(props: RecurrenceRuleProps): RecurrenceRule {
+        return new RecurrenceRule(props);
+    }
+}
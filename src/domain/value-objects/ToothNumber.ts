@@ -0,0 +1,115 @@
+import { ValidationError } from '../errors/AppError';
+
+export type Dentition = 'permanent' | 'deciduous';
+
+/**
+ * Quantidade de dentes por quadrante em cada dentição
+ * Quadrantes 1-4: dentes permanentes (1-8); quadrantes 5-8: dentes decíduos (1-5)
+ */
+const TEETH_PER_QUADRANT: Record<Dentition, number> = {
+    permanent: 8,
+    deciduous: 5
+};
+
+const QUADRANTS: Record<Dentition, number[]> = {
+    permanent: [1, 2, 3, 4],
+    deciduous: [5, 6, 7, 8]
+};
+
+/**
+ * Value Object para número de dente na notação FDI (ISO 3950)
+ * O primeiro dígito é o quadrante e o segundo a posição a partir da linha média
+ */
+export class ToothNumber {
+    private readonly _value: number;
+
+    /**
+     * Cria uma instância de ToothNumber
+     * @throws {ValidationError} Se o número não for um dente FDI válido
+     */
+    constructor(value: number | string) {
+        const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+        if (!ToothNumber.isValid(parsed)) {
+            throw new ValidationError({ tooth: value }, `Número de dente inválido (FDI): ${value}`);
+        }
+        this._value = parsed;
+    }
+
+    get value(): number {
+        return this._value;
+    }
+
+    /**
+     * Quadrante (1-8)
+     */
+    get quadrant(): number {
+        return Math.floor(this._value / 10);
+    }
+
+    /**
+     * Posição no quadrante, a partir da linha média (1 = incisivo central)
+     */
+    get position(): number {
+        return this._value % 10;
+    }
+
+    get dentition(): Dentition {
+        return this.quadrant <= 4 ? 'permanent' : 'deciduous';
+    }
+
+    get isUpper(): boolean {
+        return [1, 2, 5, 6].includes(this.quadrant);
+    }
+
+    toString(): string {
+        return String(this._value);
+    }
+
+    equals(other: ToothNumber): boolean {
+        return other instanceof ToothNumber && this._value === other._value;
+    }
+
+    /**
+     * Verifica se o número é um dente FDI válido
+     */
+    static isValid(value: unknown): value is number {
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+            return false;
+        }
+        const quadrant = Math.floor(value / 10);
+        const position = value % 10;
+        const dentition: Dentition | null =
+            QUADRANTS.permanent.includes(quadrant) ? 'permanent' :
+            QUADRANTS.deciduous.includes(quadrant) ? 'deciduous' : null;
+        return dentition !== null && position >= 1 && position <= TEETH_PER_QUADRANT[dentition];
+    }
+
+    /**
+     * Factory method
+     */
+    static create(value: number | string): ToothNumber {
+        return new ToothNumber(value);
+    }
+
+    /**
+     * Valida uma lista de dentes, removendo duplicados e ordenando
+     * @throws {ValidationError} Se algum número for inválido
+     */
+    static createList(values: Array<number | string> | null | undefined): ToothNumber[] {
+        const unique = new Map<number, ToothNumber>();
+        for (const value of values || []) {
+            const tooth = ToothNumber.create(value);
+            unique.set(tooth.value, tooth);
+        }
+        return [...unique.values()].sort((a, b) => a.value - b.value);
+    }
+
+    /**
+     * Todos os dentes de uma dentição, por quadrante, da linha média para distal
+     */
+    static all(dentition: Dentition): number[] {
+        return QUADRANTS[dentition].flatMap(quadrant =>
+            Array.from({ length: TEETH_PER_QUADRANT[dentition] }, (_, index) => quadrant * 10 + index + 1)
+        );
+    }
+}
@@ -6,7 +6,8 @@
 export { 
     useAppointments, 
     useInfiniteAppointments, 
-    useAppointment 
+    useAppointment,
+    useAppointmentsByDateRange
 } from './useAppointments';
 
 export { 
@@ -90,6 +90,30 @@ export function useInfiniteAppointments(
     });
 }
 
+/**
+ * Hook para buscar appointments de um intervalo de datas (agenda)
+ * Datas no formato YYYY-MM-DD, inclusivas
+ */
+export function useAppointmentsByDateRange(
+    startDate: string,
+    endDate: string,
+    queryOptions?: Omit<UseQueryOptions<Appointment[], Error>, 'queryKey' | 'queryFn'>
+) {
+    const container = useDependencies();
+    const appointmentService = container.resolve('appointmentService') as {
+        getByDateRange: (startDate: string, endDate: string) => Promise<Appointment[]>;
+    };
+    
+    return useQuery({
+        queryKey: [...QUERY_KEYS.appointments, 'range', startDate, endDate] as const,
+        queryFn: async () => {
+            return appointmentService.getByDateRange(startDate, endDate);
+        },
+        staleTime: STALE_TIMES.lists,
+        ...queryOptions,
+    });
+}
+
 /**
  * Hook para buscar um appointment específico por ID
  */
@@ -8,6 +8,19 @@ import { ILogger } from '../logging/ILogger';
 import { PatientRepository } from '../repositories/implementations/PatientRepository';
 import { AppointmentRepository } from '../repositories/implementations/AppointmentRepository';
 import { ClinicRepository } from '../repositories/implementations/ClinicRepository';
+import { TreatmentPlanRepository } from '../repositories/implementations/TreatmentPlanRepository';
+import { EndodonticRecordRepository } from '../repositories/implementations/EndodonticRecordRepository';
+import { WaitlistRepository } from '../repositories/implementations/WaitlistRepository';
+import { PaymentRepository } from '../repositories/implementations/PaymentRepository';
+import { SettlementRepository } from '../repositories/implementations/SettlementRepository';
+import { CommissionRuleRepository } from '../repositories/implementations/CommissionRuleRepository';
+import { ProcedurePriceRepository } from '../repositories/implementations/ProcedurePriceRepository';
+import { ExchangeRateRepository } from '../repositories/implementations/ExchangeRateRepository';
+import { PaymentMethodFeeRepository } from '../repositories/implementations/PaymentMethodFeeRepository';
+import { ExpenseRepository } from '../repositories/implementations/ExpenseRepository';
+import { RevenueGoalRepository } from '../repositories/implementations/RevenueGoalRepository';
+import { AnamnesisRepository } from '../repositories/implementations/AnamnesisRepository';
+import { ConsentRepository } from '../repositories/implementations/ConsentRepository';
 import { PatientService } from '../../application/services/PatientService';
 import { AppointmentService } from '../../application/services/AppointmentService';
 import { ClinicService } from '../../application/services/ClinicService';
@@ -16,6 +29,20 @@ import { ReportsService } from '../../application/services/ReportsService';
 import { ProfileService } from '../../application/services/ProfileService';
 import { ProcedureService } from '../../application/services/ProcedureService';
 import { RadiographService } from '../../application/services/RadiographService';
+import { TreatmentPlanService } from '../../application/services/TreatmentPlanService';
+import { EndodonticRecordService } from '../../application/services/EndodonticRecordService';
+import { WaitlistService } from '../../application/services/WaitlistService';
+import { PaymentService } from '../../application/services/PaymentService';
+import { SettlementService } from '../../application/services/SettlementService';
+import { CommissionService } from '../../application/services/CommissionService';
+import { ProcedurePriceService } from '../../application/services/ProcedurePriceService';
+import { ExchangeRateService } from '../../application/services/ExchangeRateService';
+import { ExpenseService } from '../../application/services/ExpenseService';
+import { ReceivablesService } from '../../application/services/ReceivablesService';
+import { GoalService } from '../../application/services/GoalService';
+import { PatientDuplicateService } from '../../application/services/PatientDuplicateService';
+import { AnamnesisService } from '../../application/services/AnamnesisService';
+import { ConsentService } from '../../application/services/ConsentService';
 import { PermissionService } from '../../application/services/PermissionService';
 import { SupabaseTransactionManager } from '../database/SupabaseTransactionManager';
 import { ITransactionManager } from '../database/ITransactionManager';
@@ -47,6 +74,9 @@ import {
     DeleteAppointmentUseCase,
     GetAppointmentUseCase,
     GetAllAppointmentsUseCase,
+    UpdateAppointmentSeriesUseCase,
+    CancelAppointmentSeriesUseCase,
+    FindFreeSlotsUseCase,
     CreateAppointmentInputValidator,
     UpdateAppointmentInputValidator
 } from '../../application/use-cases/appointment';
@@ -139,6 +169,110 @@ export function setupDI(): DIContainer {
         return new ClinicRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
     }, true);
     
+    container.register('treatmentPlanRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new TreatmentPlanRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('endodonticRecordRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new EndodonticRecordRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('waitlistRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new WaitlistRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('paymentRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new PaymentRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('settlementRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new SettlementRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('commissionRuleRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new CommissionRuleRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('procedurePriceRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new ProcedurePriceRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('exchangeRateRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new ExchangeRateRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('expenseRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new ExpenseRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('paymentMethodFeeRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new PaymentMethodFeeRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('revenueGoalRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new RevenueGoalRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('anamnesisRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new AnamnesisRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
+    container.register('consentRepository', (c) => {
+        const dbAdapter = c.resolve<DatabaseAdapter>('databaseAdapter');
+        const cache = c.resolve<ICacheService>('cacheService');
+        const permissionService = c.resolve<PermissionService>('permissionService');
+        const authClient = c.resolve<IAuthClient>('authClient');
+        return new ConsentRepository(dbAdapter, cache as CacheService, permissionService, authClient); // ✅ Injeção de dependência
+    }, true);
+    
     // Use Cases - Patient
     container.register('createPatientUseCase', (c) => {
         return new CreatePatientUseCase(
@@ -189,7 +323,9 @@ export function setupDI(): DIContainer {
             c.resolve<IAuthService>('authService'),
             new CreateAppointmentInputValidator(),
             c.resolve<ISanitizer>('sanitizerService'),
-            c.resolve<IAuditService>('auditService')
+            c.resolve<IAuditService>('auditService'),
+            c.resolve('commissionRuleRepository'),
+            c.resolve('consentRepository')
         );
     }, true);
     
@@ -197,10 +333,12 @@ export function setupDI(): DIContainer {
         return new UpdateAppointmentUseCase(
             c.resolve('appointmentRepository'),
             c.resolve('patientRepository'),
+            c.resolve('clinicRepository'),
             new UpdateAppointmentInputValidator(),
             c.resolve<ISanitizer>('sanitizerService'),
             c.resolve<IAuditService>('auditService'),
-            c.resolve<ICacheService>('cacheService')
+            c.resolve<ICacheService>('cacheService'),
+            c.resolve('consentRepository')
         );
     }, true);
     
@@ -224,6 +362,32 @@ export function setupDI(): DIContainer {
         );
     }, true);
     
+    container.register('updateAppointmentSeriesUseCase', (c) => {
+        return new UpdateAppointmentSeriesUseCase(
+            c.resolve('appointmentRepository'),
+            c.resolve('patientRepository'),
+            c.resolve<ISanitizer>('sanitizerService'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ICacheService>('cacheService')
+        );
+    }, true);
+    
+    container.register('cancelAppointmentSeriesUseCase', (c) => {
+        return new CancelAppointmentSeriesUseCase(
+            c.resolve('appointmentRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ICacheService>('cacheService')
+        );
+    }, true);
+    
+    container.register('findFreeSlotsUseCase', (c) => {
+        return new FindFreeSlotsUseCase(
+            c.resolve('appointmentRepository'),
+            c.resolve('clinicRepository')
+        );
+    }, true);
+    
     // Services - Singletons
     // ✅ PatientService agora usa Use Cases
     container.register('patientService', (c) => {
@@ -246,6 +410,9 @@ export function setupDI(): DIContainer {
             c.resolve('deleteAppointmentUseCase'),
             c.resolve('getAppointmentUseCase'),
             c.resolve('getAllAppointmentsUseCase'),
+            c.resolve('updateAppointmentSeriesUseCase'),
+            c.resolve('cancelAppointmentSeriesUseCase'),
+            c.resolve('findFreeSlotsUseCase'),
             c.resolve('appointmentRepository'),
             c.resolve<IErrorHandler>('errorHandler')
         );
@@ -258,7 +425,8 @@ export function setupDI(): DIContainer {
             c.resolve<ICacheService>('cacheService'),
             c.resolve<IErrorHandler>('errorHandler'),
             c.resolve<IAuditService>('auditService'),
-            c.resolve<ISanitizer>('sanitizerService')
+            c.resolve<ISanitizer>('sanitizerService'),
+            c.resolve('exchangeRateRepository')
         );
     }, true);
     
@@ -269,7 +437,8 @@ export function setupDI(): DIContainer {
             c.resolve('clinicService'),
             c.resolve<DatabaseAdapter>('databaseAdapter'),
             c.resolve<ICacheService>('cacheService'),
-            c.resolve<IErrorHandler>('errorHandler')
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve('exchangeRateRepository')
         );
     }, true);
     
@@ -305,6 +474,154 @@ export function setupDI(): DIContainer {
         );
     }, true);
     
+    container.register('treatmentPlanService', (c) => {
+        return new TreatmentPlanService(
+            c.resolve('treatmentPlanRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('endodonticRecordService', (c) => {
+        return new EndodonticRecordService(
+            c.resolve('endodonticRecordRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('waitlistService', (c) => {
+        return new WaitlistService(
+            c.resolve('waitlistRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve('createAppointmentUseCase'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('paymentService', (c) => {
+        return new PaymentService(
+            c.resolve('paymentRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService'),
+            c.resolve('paymentMethodFeeRepository'),
+            c.resolve('exchangeRateRepository')
+        );
+    }, true);
+    
+    container.register('settlementService', (c) => {
+        return new SettlementService(
+            c.resolve('settlementRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve('clinicService'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('commissionService', (c) => {
+        return new CommissionService(
+            c.resolve('commissionRuleRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('procedurePriceService', (c) => {
+        return new ProcedurePriceService(
+            c.resolve('procedurePriceRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve('procedureService'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('exchangeRateService', (c) => {
+        return new ExchangeRateService(
+            c.resolve('exchangeRateRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService')
+        );
+    }, true);
+    
+    container.register('expenseService', (c) => {
+        return new ExpenseService(
+            c.resolve('expenseRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve('exchangeRateRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ISanitizer>('sanitizerService')
+        );
+    }, true);
+    
+    container.register('receivablesService', (c) => {
+        return new ReceivablesService(
+            c.resolve('appointmentRepository'),
+            c.resolve('patientRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve('exchangeRateRepository'),
+            c.resolve<IErrorHandler>('errorHandler')
+        );
+    }, true);
+    
+    container.register('goalService', (c) => {
+        return new GoalService(
+            c.resolve('revenueGoalRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve('paymentRepository'),
+            c.resolve('clinicRepository'),
+            c.resolve('exchangeRateRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService')
+        );
+    }, true);
+    
+    container.register('patientDuplicateService', (c) => {
+        return new PatientDuplicateService(
+            c.resolve('patientRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService'),
+            c.resolve<ICacheService>('cacheService')
+        );
+    }, true);
+    
+    container.register('anamnesisService', (c) => {
+        return new AnamnesisService(
+            c.resolve('anamnesisRepository'),
+            c.resolve('patientRepository'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService')
+        );
+    }, true);
+    
+    container.register('consentService', (c) => {
+        return new ConsentService(
+            c.resolve('consentRepository'),
+            c.resolve('patientRepository'),
+            c.resolve('appointmentRepository'),
+            c.resolve<RadiographService>('radiographService'),
+            c.resolve<IErrorHandler>('errorHandler'),
+            c.resolve<IAuditService>('auditService')
+        );
+    }, true);
+    
     return container;
 }
 
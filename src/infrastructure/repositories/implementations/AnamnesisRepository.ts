@@ -0,0 +1,162 @@
+import { BaseRepository } from '../BaseRepository';
+import { IAnamnesisRepository } from '../interfaces/IAnamnesisRepository';
+import { AnamnesisRecord, AnamnesisRecordJSON } from '../../../domain/entities/AnamnesisRecord';
+import { AnamnesisTemplate, AnamnesisTemplateJSON } from '../../../domain/entities/AnamnesisTemplate';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+const TEMPLATES_TABLE = 'anamnesis_templates';
+
+/**
+ * Repositório para as anamneses dos pacientes e o questionário do usuário
+ * ✅ Perguntas e respostas persistidas como JSONB; versões nunca são alteradas
+ */
+export class AnamnesisRepository extends BaseRepository implements IAnamnesisRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('anamnesis_records', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca as versões da anamnese de um paciente (mais recente primeiro)
+     */
+    async findByPatientId(patientId: string): Promise<AnamnesisRecord[]> {
+        const result = await this.executeWithMiddlewares<AnamnesisRecordJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('patient_id', patientId)
+                    .orderBy('version', 'desc')
+                    .execute<AnamnesisRecordJSON[]>();
+            },
+            { operation: 'findByPatientId', metadata: { patientId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => AnamnesisRecord.fromJSON(row));
+    }
+
+    /**
+     * Busca a versão mais recente da anamnese de um paciente
+     */
+    async findLatestByPatientId(patientId: string): Promise<AnamnesisRecord | null> {
+        const result = await this.executeWithMiddlewares<AnamnesisRecordJSON | null>(
+            async () => {
+                const data = await this.query()
+                    .select('*')
+                    .where('patient_id', patientId)
+                    .orderBy('version', 'desc')
+                    .limit(1)
+                    .maybeSingle()
+                    .execute<AnamnesisRecordJSON | null>();
+
+                return data || null;
+            },
+            { operation: 'findLatestByPatientId', metadata: { patientId } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return AnamnesisRecord.fromJSON(result);
+    }
+
+    /**
+     * Registra uma nova versão da anamnese
+     * ✅ (patient_id, version) é único: duas revisões simultâneas não geram a mesma versão
+     */
+    async create(record: AnamnesisRecord): Promise<AnamnesisRecord> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...record.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('AnamnesisRepository.create - Created successfully', {
+                    recordId: record.id,
+                    patientId: record.patientId,
+                    version: record.version
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        const created = await this.findLatestByPatientId(record.patientId);
+        if (!created || created.id !== record.id) {
+            throw new Error('Erro ao salvar anamnese');
+        }
+        return created;
+    }
+
+    /**
+     * Busca o questionário configurado pelo usuário
+     */
+    async findTemplate(): Promise<AnamnesisTemplate | null> {
+        const result = await this.executeWithMiddlewares<AnamnesisTemplateJSON | null>(
+            async () => {
+                const session = await this.ensureAuth();
+                const data = await this.db.table(TEMPLATES_TABLE)
+                    .select('*')
+                    .where('user_id', session.user.id)
+                    .maybeSingle()
+                    .execute<AnamnesisTemplateJSON | null>();
+
+                return data || null;
+            },
+            { operation: 'findTemplate' },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return AnamnesisTemplate.fromJSON(result);
+    }
+
+    /**
+     * Cria o questionário do usuário (um por usuário)
+     */
+    async createTemplate(template: AnamnesisTemplate): Promise<AnamnesisTemplate> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.db.table(TEMPLATES_TABLE).insert([{ ...template.toJSON(), user_id: session.user.id }]);
+            },
+            { operation: 'createTemplate' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reloadTemplate('Erro ao salvar questionário de anamnese');
+    }
+
+    /**
+     * Atualiza as perguntas e o prazo de revisão do questionário
+     */
+    async updateTemplate(id: string, template: AnamnesisTemplate): Promise<AnamnesisTemplate> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, created_at, ...data } = template.toJSON();
+
+                await this.db.table(TEMPLATES_TABLE)
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'updateTemplate', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reloadTemplate('Erro ao atualizar questionário de anamnese');
+    }
+
+    private async reloadTemplate(errorMessage: string): Promise<AnamnesisTemplate> {
+        const template = await this.findTemplate();
+        if (!template) {
+            throw new Error(errorMessage);
+        }
+        return template;
+    }
+}
@@ -1,6 +1,7 @@
 import { BaseRepository } from '../BaseRepository';
-import { IAppointmentRepository, AppointmentTotals } from '../interfaces/IAppointmentRepository';
+import { IAppointmentRepository, AppointmentTotals, AppointmentWithRelations } from '../interfaces/IAppointmentRepository';
 import { Appointment, AppointmentJSON } from '../../../domain/entities/Appointment';
+import { Money } from '../../../domain/value-objects/Money';
 import { DatabaseAdapter } from '../../database/DatabaseAdapter';
 import { ICacheService } from '../../cache/ICacheService';
 import { PermissionService } from '../../../application/services/PermissionService';
@@ -136,7 +137,7 @@ export class AppointmentRepository extends BaseRepository implements IAppointmen
         });
         
         // Mapear para entidades Appointment com tratamento de erros
-        const finalData: Appointment[] = [];
+        const finalData: AppointmentWithRelations[] = [];
         for (const item of enrichedData) {
             try {
                 // Criar Appointment sem os relacionamentos (que não fazem parte do JSON)
@@ -146,16 +147,29 @@ export class AppointmentRepository extends BaseRepository implements IAppointmen
                     clinic_id: item.clinic_id || '', // Garantir que não seja null
                     date: item.date,
                     time: item.time,
+                    duration_minutes: item.duration_minutes,
                     procedure: item.procedure,
+                    teeth: item.teeth ?? [],
                     value: item.value,
                     currency: item.currency || 'BRL',
                     payment_type: item.payment_type || '100',
                     payment_percentage: item.payment_percentage,
+                    payment_fixed_amount: item.payment_fixed_amount ?? null,
+                    commission_rule_id: item.commission_rule_id ?? null,
                     is_paid: item.is_paid || false,
                     payment_date: item.payment_date,
+                    amount_paid: item.amount_paid ?? 0,
                     status: item.status || 'scheduled',
+                    clinical_status: item.clinical_status,
                     clinical_evolution: item.clinical_evolution,
                     notes: item.notes,
+                    series_id: item.series_id ?? null,
+                    cancellation_reason: item.cancellation_reason ?? null,
+                    cancelled_by: item.cancelled_by ?? null,
+                    cancelled_at: item.cancelled_at ?? null,
+                    late_cancellation: item.late_cancellation ?? false,
+                    cancellation_fee: item.cancellation_fee ?? null,
+                    settlement_id: item.settlement_id ?? null,
                     created_at: item.created_at,
                     updated_at: item.updated_at
                 };
@@ -163,10 +177,7 @@ export class AppointmentRepository extends BaseRepository implements IAppointmen
                 const appointment = Appointment.fromJSON(appointmentJSON);
                 
                 // Adicionar relacionamentos como propriedades adicionais (não fazem parte da entidade)
-                (appointment as unknown as { clinics?: unknown; patients?: unknown }).clinics = item.clinics;
-                (appointment as unknown as { clinics?: unknown; patients?: unknown }).patients = item.patients;
-                
-                finalData.push(appointment);
+                finalData.push(Object.assign(appointment, { clinics: item.clinics, patients: item.patients }));
             } catch (error) {
                 logger.error(error, { 
                     context: 'AppointmentRepository.findAll - Error mapping appointment',
@@ -309,6 +320,47 @@ export class AppointmentRepository extends BaseRepository implements IAppointmen
         return result.map(item => Appointment.fromJSON(item));
     }
 
+    /**
+     * Busca os agendamentos não quitados até uma data (contas a receber)
+     * ✅ Cancelados e sem saldo são descartados pelo domínio, que conhece as regras de saldo
+     */
+    async findUnpaidUntil(endDate: string): Promise<Appointment[]> {
+        const result = await this.executeWithMiddlewares<AppointmentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('is_paid', false)
+                    .whereOperator('date', 'lte', endDate)
+                    .orderBy('date', 'asc')
+                    .execute<AppointmentJSON[]>();
+            },
+            { operation: 'findUnpaidUntil', metadata: { endDate } },
+            { useCache: false }
+        );
+
+        return (result || []).map(item => Appointment.fromJSON(item));
+    }
+
+    /**
+     * Busca os agendamentos de uma série, em ordem cronológica
+     */
+    async findBySeriesId(seriesId: string): Promise<Appointment[]> {
+        const result = await this.executeWithMiddlewares<AppointmentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('series_id', seriesId)
+                    .orderBy('date', 'asc')
+                    .orderBy('time', 'asc')
+                    .execute<AppointmentJSON[]>();
+            },
+            { operation: 'findBySeriesId', metadata: { seriesId } },
+            { useCache: false }
+        );
+
+        return result.map(item => Appointment.fromJSON(item));
+    }
+
     /**
      * Obtém totais de appointments calculados no servidor via RPC
      * Evita transferir milhares de registros para o cliente
@@ -399,8 +451,9 @@ export class AppointmentRepository extends BaseRepository implements IAppointmen
         const result = await this.findAll({ limit: 10000 });
         const appointments = 'data' in result ? result.data : result;
         
-        let received = 0;
-        let pending = 0;
+        // Somas em centavos para não acumular erro de ponto flutuante
+        let receivedCents = 0;
+        let pendingCents = 0;
         let scheduled = 0;
         let paidCount = 0;
         let pendingCount = 0;
@@ -410,22 +463,26 @@ export class AppointmentRepository extends BaseRepository implements IAppointmen
             const value = app.value?.amount || 0;
             
             if (status === 'paid') {
-                received += app.calculateReceivedValue?.()?.amount || value;
+                receivedCents += app.calculateReceivedValue().cents;
                 paidCount++;
             } else if (status === 'pending') {
-                pending += value;
+                // Pagamentos parciais entram no recebido; o pendente é o saldo devedor
+                receivedCents += app.amountPaid > 0 && value > 0
+                    ? app.calculateReceivedValue().multiply(app.amountPaid / value).cents
+                    : 0;
+                pendingCents += Money.create(app.remainingBalance).cents;
                 pendingCount++;
             } else {
-                pending += value;
+                pendingCents += Money.create(app.remainingBalance).cents;
                 scheduled++;
             }
         }
         
         return {
             total: appointments.length,
-            received,
-            pending,
-            totalValue: received + pending,
+            received: receivedCents / 100,
+            pending: pendingCents / 100,
+            totalValue: (receivedCents + pendingCents) / 100,
             byStatus: { scheduled, pending: pendingCount, paid: paidCount }
         };
     }
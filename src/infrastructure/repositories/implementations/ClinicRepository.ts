@@ -104,6 +104,12 @@ export class ClinicRepository extends BaseRepository implements IClinicRepositor
                     email: clinic.email || null,
                     phone: clinic.phone || null,
                     status: clinic.status || 'active',
+                    // Expediente só é enviado quando vier uma entidade (formulário de dados básicos não o conhece)
+                    working_hours: clinic.workingHours?.map(window => window.toJSON()),
+                    blocked_dates: clinic.blockedDates,
+                    cancellation_policy: clinic.cancellationPolicy === undefined
+                        ? undefined
+                        : clinic.cancellationPolicy?.toJSON() ?? null,
                     // ✅ updated_at removido porque a tabela clinics não tem essa coluna
                 };
 
@@ -0,0 +1,104 @@
+import { BaseRepository } from '../BaseRepository';
+import { ICommissionRuleRepository } from '../interfaces/ICommissionRuleRepository';
+import { CommissionRule, CommissionRuleJSON } from '../../../domain/entities/CommissionRule';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para regras de comissão das clínicas
+ */
+export class CommissionRuleRepository extends BaseRepository implements ICommissionRuleRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('commission_rules', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca uma regra por ID
+     */
+    async findById(id: string): Promise<CommissionRule | null> {
+        const result = await this.executeWithMiddlewares<CommissionRuleJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<CommissionRuleJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return CommissionRule.fromJSON(result);
+    }
+
+    /**
+     * Busca todas as versões das regras de uma clínica, da vigência mais recente à mais antiga
+     */
+    async findByClinicId(clinicId: string): Promise<CommissionRule[]> {
+        const result = await this.executeWithMiddlewares<CommissionRuleJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('clinic_id', clinicId)
+                    .orderBy('effective_from', 'desc')
+                    .execute<CommissionRuleJSON[]>();
+            },
+            { operation: 'findByClinicId', metadata: { clinicId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => CommissionRule.fromJSON(row));
+    }
+
+    /**
+     * Cria uma nova versão de regra
+     */
+    async create(rule: CommissionRule): Promise<CommissionRule> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...rule.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('CommissionRuleRepository.create - Created successfully', {
+                    ruleId: rule.id,
+                    clinicId: rule.clinicId
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        const created = await this.findById(rule.id);
+        if (!created) {
+            throw new Error('Erro ao criar regra de comissão');
+        }
+        return created;
+    }
+
+    /**
+     * Remove uma versão de regra
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+}
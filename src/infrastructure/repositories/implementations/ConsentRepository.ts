@@ -0,0 +1,158 @@
+import { BaseRepository } from '../BaseRepository';
+import { IConsentRepository } from '../interfaces/IConsentRepository';
+import { ConsentDocument, ConsentDocumentJSON } from '../../../domain/entities/ConsentDocument';
+import { ConsentTemplate, ConsentTemplateJSON } from '../../../domain/entities/ConsentTemplate';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { SupabaseClientAdapter } from '../../database/adapters/SupabaseClientAdapter';
+import { DatabaseError } from '../../../domain/errors/AppError';
+import { logger } from '../../../lib/logger';
+
+const TEMPLATES_TABLE = 'consent_templates';
+
+/**
+ * Repositório para os termos de consentimento assinados e os modelos do usuário
+ * ✅ Termos assinados nunca são alterados: guardam o texto, o PDF e o hash da assinatura
+ */
+export class ConsentRepository extends BaseRepository implements IConsentRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('consent_documents', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca os termos assinados de um paciente (mais recentes primeiro)
+     */
+    async findByPatientId(patientId: string): Promise<ConsentDocument[]> {
+        const result = await this.executeWithMiddlewares<ConsentDocumentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('patient_id', patientId)
+                    .orderBy('signed_at', 'desc')
+                    .execute<ConsentDocumentJSON[]>();
+            },
+            { operation: 'findByPatientId', metadata: { patientId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => ConsentDocument.fromJSON(row));
+    }
+
+    /**
+     * Registra um termo assinado
+     */
+    async create(document: ConsentDocument): Promise<ConsentDocument> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...document.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('ConsentRepository.create - Created successfully', {
+                    documentId: document.id,
+                    patientId: document.patientId,
+                    kind: document.kind
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        const created = (await this.findByPatientId(document.patientId)).find(item => item.id === document.id);
+        if (!created) {
+            throw new Error('Erro ao salvar termo de consentimento');
+        }
+        return created;
+    }
+
+    /**
+     * Busca os modelos de termo do usuário
+     */
+    async findTemplates(): Promise<ConsentTemplate[]> {
+        const result = await this.executeWithMiddlewares<ConsentTemplateJSON[]>(
+            async () => {
+                const session = await this.ensureAuth();
+                return await this.db.table(TEMPLATES_TABLE)
+                    .select('*')
+                    .where('user_id', session.user.id)
+                    .orderBy('title', 'asc')
+                    .execute<ConsentTemplateJSON[]>();
+            },
+            { operation: 'findTemplates' },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => ConsentTemplate.fromJSON(row));
+    }
+
+    /**
+     * Cria um modelo de termo
+     */
+    async createTemplate(template: ConsentTemplate): Promise<ConsentTemplate> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.db.table(TEMPLATES_TABLE).insert([{ ...template.toJSON(), user_id: session.user.id }]);
+            },
+            { operation: 'createTemplate' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reloadTemplate(template.id, 'Erro ao salvar modelo de termo');
+    }
+
+    /**
+     * Atualiza tipo, título e texto de um modelo
+     */
+    async updateTemplate(id: string, template: ConsentTemplate): Promise<ConsentTemplate> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, created_at, ...data } = template.toJSON();
+
+                await this.db.table(TEMPLATES_TABLE)
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'updateTemplate', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reloadTemplate(id, 'Erro ao atualizar modelo de termo');
+    }
+
+    /**
+     * Remove um modelo de termo
+     * ✅ template_id dos termos assinados vira null (on delete set null)
+     */
+    async deleteTemplate(id: string): Promise<void> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const supabaseClient = (this.db.getClient() as SupabaseClientAdapter).getSupabaseClient();
+
+                const { error } = await supabaseClient
+                    .from(TEMPLATES_TABLE)
+                    .delete()
+                    .eq('id', id);
+                if (error) {
+                    throw new DatabaseError(`Erro ao remover modelo de termo: ${error.message}`, error);
+                }
+            },
+            { operation: 'deleteTemplate', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+    }
+
+    private async reloadTemplate(id: string, errorMessage: string): Promise<ConsentTemplate> {
+        const template = (await this.findTemplates()).find(item => item.id === id);
+        if (!template) {
+            throw new Error(errorMessage);
+        }
+        return template;
+    }
+}
@@ -0,0 +1,152 @@
+import { BaseRepository } from '../BaseRepository';
+import { IEndodonticRecordRepository } from '../interfaces/IEndodonticRecordRepository';
+import { EndodonticRecord, EndodonticRecordJSON } from '../../../domain/entities/EndodonticRecord';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para registros endodônticos (ficha estruturada por sessão)
+ * ✅ Canais persistidos como JSONB no próprio registro
+ */
+export class EndodonticRecordRepository extends BaseRepository implements IEndodonticRecordRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('endodontic_records', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca um registro endodôntico por ID
+     */
+    async findById(id: string): Promise<EndodonticRecord | null> {
+        const result = await this.executeWithMiddlewares<EndodonticRecordJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<EndodonticRecordJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return EndodonticRecord.fromJSON(result);
+    }
+
+    /**
+     * Busca os registros de um agendamento, ordenados por dente
+     */
+    async findByAppointmentId(appointmentId: string): Promise<EndodonticRecord[]> {
+        const result = await this.executeWithMiddlewares<EndodonticRecordJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('appointment_id', appointmentId)
+                    .orderBy('tooth', 'asc')
+                    .execute<EndodonticRecordJSON[]>();
+            },
+            { operation: 'findByAppointmentId', metadata: { appointmentId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => EndodonticRecord.fromJSON(row));
+    }
+
+    /**
+     * Busca os registros de um paciente (opcionalmente de um dente), em ordem cronológica
+     */
+    async findByPatientId(patientId: string, tooth?: number): Promise<EndodonticRecord[]> {
+        const result = await this.executeWithMiddlewares<EndodonticRecordJSON[]>(
+            async () => {
+                let query = this.query()
+                    .select('*')
+                    .where('patient_id', patientId);
+                if (tooth !== undefined) {
+                    query = query.where('tooth', tooth);
+                }
+                return await query
+                    .orderBy('created_at', 'asc')
+                    .execute<EndodonticRecordJSON[]>();
+            },
+            { operation: 'findByPatientId', metadata: { patientId, tooth } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => EndodonticRecord.fromJSON(row));
+    }
+
+    /**
+     * Cria um novo registro endodôntico
+     */
+    async create(record: EndodonticRecord): Promise<EndodonticRecord> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...record.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('EndodonticRecordRepository.create - Created successfully', {
+                    recordId: record.id,
+                    tooth: record.tooth
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(record.id, 'Erro ao criar registro endodôntico');
+    }
+
+    /**
+     * Atualiza os dados clínicos de um registro
+     * ✅ Vínculos (agendamento, paciente, dente) não são alterados
+     */
+    async update(id: string, record: EndodonticRecord): Promise<EndodonticRecord> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, appointment_id, patient_id, tooth, created_at, ...data } = record.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar registro endodôntico');
+    }
+
+    /**
+     * Deleta um registro endodôntico
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<EndodonticRecord> {
+        const record = await this.findById(id);
+        if (!record) {
+            throw new Error(errorMessage);
+        }
+        return record;
+    }
+}
@@ -0,0 +1,113 @@
+import { BaseRepository } from '../BaseRepository';
+import { IExchangeRateRepository } from '../interfaces/IExchangeRateRepository';
+import { ExchangeRate, ExchangeRateJSON } from '../../../domain/entities/ExchangeRate';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para a tabela de cotações de câmbio
+ */
+export class ExchangeRateRepository extends BaseRepository implements IExchangeRateRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('exchange_rates', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca uma cotação por ID
+     */
+    async findById(id: string): Promise<ExchangeRate | null> {
+        const result = await this.executeWithMiddlewares<ExchangeRateJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<ExchangeRateJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return ExchangeRate.fromJSON(result);
+    }
+
+    /**
+     * Busca todas as cotações cadastradas, da mais recente à mais antiga
+     */
+    async findAll(): Promise<ExchangeRate[]> {
+        const result = await this.executeWithMiddlewares<ExchangeRateJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .orderBy('date', 'desc')
+                    .execute<ExchangeRateJSON[]>();
+            },
+            { operation: 'findAll' },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => ExchangeRate.fromJSON(row));
+    }
+
+    /**
+     * Cria uma cotação
+     */
+    async create(rate: ExchangeRate): Promise<ExchangeRate> {
+        await this.createMany([rate]);
+
+        const created = await this.findById(rate.id);
+        if (!created) {
+            throw new Error('Erro ao criar cotação');
+        }
+        return created;
+    }
+
+    /**
+     * Cria várias cotações em um único insert
+     */
+    async createMany(rates: ExchangeRate[]): Promise<void> {
+        if (rates.length === 0) {
+            return;
+        }
+
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert(rates.map(rate => ({ ...rate.toJSON(), user_id: session.user.id })));
+
+                logger.debug('ExchangeRateRepository.createMany - Created successfully', {
+                    count: rates.length
+                });
+            },
+            { operation: 'createMany', metadata: { count: rates.length } },
+            { requireCSRF: true, useCache: false }
+        );
+    }
+
+    /**
+     * Remove uma cotação
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+}
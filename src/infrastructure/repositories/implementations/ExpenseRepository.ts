@@ -0,0 +1,128 @@
+import { BaseRepository } from '../BaseRepository';
+import { IExpenseRepository } from '../interfaces/IExpenseRepository';
+import { Expense, ExpenseJSON } from '../../../domain/entities/Expense';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para as despesas do consultório
+ */
+export class ExpenseRepository extends BaseRepository implements IExpenseRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('expenses', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca uma despesa por ID
+     */
+    async findById(id: string): Promise<Expense | null> {
+        const result = await this.executeWithMiddlewares<ExpenseJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<ExpenseJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return Expense.fromJSON(result);
+    }
+
+    /**
+     * Busca as despesas com data até a informada, das mais recentes para as mais antigas
+     * ✅ As ocorrências no período são calculadas no domínio (recorrentes começam antes dele)
+     */
+    async findUntil(endDate: string): Promise<Expense[]> {
+        const result = await this.executeWithMiddlewares<ExpenseJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('date', { lte: endDate })
+                    .orderBy('date', 'desc')
+                    .execute<ExpenseJSON[]>();
+            },
+            { operation: 'findUntil', metadata: { endDate } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => Expense.fromJSON(row));
+    }
+
+    /**
+     * Cria uma despesa
+     */
+    async create(expense: Expense): Promise<Expense> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...expense.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('ExpenseRepository.create - Created successfully', {
+                    expenseId: expense.id,
+                    category: expense.category
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(expense.id, 'Erro ao criar despesa');
+    }
+
+    /**
+     * Atualiza uma despesa
+     */
+    async update(id: string, expense: Expense): Promise<Expense> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, created_at, ...data } = expense.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar despesa');
+    }
+
+    /**
+     * Remove uma despesa
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<Expense> {
+        const expense = await this.findById(id);
+        if (!expense) {
+            throw new Error(errorMessage);
+        }
+        return expense;
+    }
+}
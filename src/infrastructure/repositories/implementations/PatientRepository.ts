@@ -1,5 +1,5 @@
 import { BaseRepository } from '../BaseRepository';
-import { IPatientRepository } from '../interfaces/IPatientRepository';
+import { IPatientRepository, PatientMergeCounts } from '../interfaces/IPatientRepository';
 import { Patient, PatientJSON } from '../../../domain/entities/Patient';
 import { Appointment, AppointmentJSON } from '../../../domain/entities/Appointment';
 import { DatabaseAdapter } from '../../infrastructure/database/DatabaseAdapter';
@@ -70,9 +70,10 @@ export class PatientRepository extends BaseRepository implements IPatientReposit
             selectQuery = `
                 *,
                 appointments (
-                    id, date, time, procedure, value, currency, status,
-                    payment_type, payment_percentage, is_paid, payment_date,
-                    clinical_evolution, notes, created_at
+                    id, date, time, duration_minutes, procedure, teeth, value, currency, status,
+                    payment_type, payment_percentage, payment_fixed_amount, commission_rule_id, is_paid, payment_date, amount_paid,
+                    clinical_status, clinical_evolution, notes, series_id,
+                    cancellation_reason, cancelled_by, cancelled_at, late_cancellation, cancellation_fee, settlement_id, created_at
                     ${clinicFields}
                 )
             `;
@@ -134,16 +135,29 @@ export class PatientRepository extends BaseRepository implements IPatientReposit
                             clinic_id: apt.clinic_id || '',
                             date: apt.date,
                             time: apt.time,
+                            duration_minutes: apt.duration_minutes,
                             procedure: apt.procedure,
+                            teeth: apt.teeth ?? [],
                             value: apt.value,
                             currency: apt.currency || 'BRL',
                             payment_type: apt.payment_type || '100',
                             payment_percentage: apt.payment_percentage,
+                            payment_fixed_amount: apt.payment_fixed_amount ?? null,
+                            commission_rule_id: apt.commission_rule_id ?? null,
                             is_paid: apt.is_paid || false,
                             payment_date: apt.payment_date,
+                            amount_paid: apt.amount_paid ?? 0,
                             status: apt.status || 'scheduled',
+                            clinical_status: apt.clinical_status,
                             clinical_evolution: apt.clinical_evolution,
                             notes: apt.notes,
+                            series_id: apt.series_id ?? null,
+                            cancellation_reason: apt.cancellation_reason ?? null,
+                            cancelled_by: apt.cancelled_by ?? null,
+                            cancelled_at: apt.cancelled_at ?? null,
+                            late_cancellation: apt.late_cancellation ?? false,
+                            cancellation_fee: apt.cancellation_fee ?? null,
+                            settlement_id: apt.settlement_id ?? null,
                             created_at: apt.created_at,
                             updated_at: apt.updated_at
                         };
@@ -230,6 +244,28 @@ export class PatientRepository extends BaseRepository implements IPatientReposit
         return Patient.fromJSON(result);
     }
 
+    /**
+     * Busca o paciente com um CPF (só dígitos)
+     */
+    async findByCpf(cpf: string): Promise<Patient | null> {
+        const result = await this.executeWithMiddlewares<PatientJSON | null>(
+            async () => {
+                const data = await this.query()
+                    .select('*')
+                    .where('cpf', cpf)
+                    .limit(1)
+                    .maybeSingle()
+                    .execute<PatientJSON | null>();
+                return data || null;
+            },
+            { operation: 'findByCpf' },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return Patient.fromJSON(result);
+    }
+
     /**
      * Cria um novo paciente
      * Recebe entidade Patient que já foi validada
@@ -281,6 +317,37 @@ export class PatientRepository extends BaseRepository implements IPatientReposit
         return Patient.fromJSON(result);
     }
 
+    /**
+     * Transfere os registros do paciente duplicado para o mantido e remove o duplicado
+     * ✅ Feito pela RPC merge_patients, numa única transação no banco
+     */
+    async merge(sourceId: string, targetId: string): Promise<PatientMergeCounts> {
+        const result = await this.executeWithMiddlewares<Record<string, number> | null>(
+            async () => {
+                const data = await this.db.rpc('merge_patients', {
+                    p_source_id: sourceId,
+                    p_target_id: targetId
+                });
+                // Supabase RPC retorna JSON, pode ser string ou objeto
+                return (typeof data === 'string' ? JSON.parse(data) : data) as Record<string, number> | null;
+            },
+            { operation: 'merge', metadata: { sourceId, targetId } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        logger.debug('PatientRepository.merge - Merged successfully', { sourceId, targetId, result });
+
+        return {
+            appointments: Number(result?.appointments) || 0,
+            radiographs: Number(result?.radiographs) || 0,
+            treatmentPlans: Number(result?.treatment_plans) || 0,
+            endodonticRecords: Number(result?.endodontic_records) || 0,
+            waitlistEntries: Number(result?.waitlist_entries) || 0,
+            anamnesisRecords: Number(result?.anamnesis_records) || 0,
+            consentDocuments: Number(result?.consent_documents) || 0
+        };
+    }
+
     /**
      * Deleta um paciente
      * ✅ Permissões verificadas pelo BaseRepository via PermissionService
@@ -0,0 +1,102 @@
+import { BaseRepository } from '../BaseRepository';
+import { IPaymentMethodFeeRepository } from '../interfaces/IPaymentMethodFeeRepository';
+import { PaymentMethodFee, PaymentMethodFeeJSON } from '../../../domain/entities/PaymentMethodFee';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para taxas e prazos de recebimento das formas de pagamento
+ */
+export class PaymentMethodFeeRepository extends BaseRepository implements IPaymentMethodFeeRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('payment_method_fees', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca as taxas configuradas
+     */
+    async findAll(): Promise<PaymentMethodFee[]> {
+        const result = await this.executeWithMiddlewares<PaymentMethodFeeJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .orderBy('method', 'asc')
+                    .execute<PaymentMethodFeeJSON[]>();
+            },
+            { operation: 'findAll' },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => PaymentMethodFee.fromJSON(row));
+    }
+
+    /**
+     * Cria a configuração de uma forma de pagamento
+     */
+    async create(fee: PaymentMethodFee): Promise<PaymentMethodFee> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...fee.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('PaymentMethodFeeRepository.create - Created successfully', {
+                    feeId: fee.id,
+                    method: fee.method
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(fee.id, 'Erro ao salvar taxa da forma de pagamento');
+    }
+
+    /**
+     * Atualiza taxas e prazo
+     * ✅ A forma de pagamento não é alterada
+     */
+    async update(id: string, fee: PaymentMethodFee): Promise<PaymentMethodFee> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, method, created_at, ...data } = fee.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar taxa da forma de pagamento');
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<PaymentMethodFee> {
+        const result = await this.executeWithMiddlewares<PaymentMethodFeeJSON | null>(
+            async () => {
+                const data = await this.query()
+                    .select('*')
+                    .where('id', id)
+                    .maybeSingle()
+                    .execute<PaymentMethodFeeJSON | null>();
+
+                return data || null;
+            },
+            { operation: 'reload', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) {
+            throw new Error(errorMessage);
+        }
+        return PaymentMethodFee.fromJSON(result);
+    }
+}
@@ -0,0 +1,192 @@
+import { BaseRepository } from '../BaseRepository';
+import { IPaymentRepository } from '../interfaces/IPaymentRepository';
+import { Payment, PaymentJSON } from '../../../domain/entities/Payment';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para pagamentos parciais e parcelas de agendamentos
+ */
+export class PaymentRepository extends BaseRepository implements IPaymentRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('payments', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca um pagamento por ID
+     */
+    async findById(id: string): Promise<Payment | null> {
+        const result = await this.executeWithMiddlewares<PaymentJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<PaymentJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return Payment.fromJSON(result);
+    }
+
+    /**
+     * Busca os pagamentos e parcelas de um agendamento, por vencimento
+     * ✅ Pagamentos avulsos (sem vencimento) são ordenados pela data em que foram pagos
+     */
+    async findByAppointmentId(appointmentId: string): Promise<Payment[]> {
+        const result = await this.executeWithMiddlewares<PaymentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('appointment_id', appointmentId)
+                    .orderBy('created_at', 'asc')
+                    .execute<PaymentJSON[]>();
+            },
+            { operation: 'findByAppointmentId', metadata: { appointmentId } },
+            { useCache: false }
+        );
+
+        return (result || [])
+            .map(row => Payment.fromJSON(row))
+            .sort((a, b) => (a.dueDate ?? a.paidDate ?? '').localeCompare(b.dueDate ?? b.paidDate ?? ''));
+    }
+
+    /**
+     * Busca os pagamentos e parcelas de vários agendamentos
+     */
+    async findByAppointmentIds(appointmentIds: string[]): Promise<Payment[]> {
+        if (appointmentIds.length === 0) return [];
+
+        const result = await this.executeWithMiddlewares<PaymentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('appointment_id', { in: appointmentIds })
+                    .orderBy('created_at', 'asc')
+                    .execute<PaymentJSON[]>();
+            },
+            { operation: 'findByAppointmentIds', metadata: { count: appointmentIds.length } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => Payment.fromJSON(row));
+    }
+
+    /**
+     * Busca os pagamentos efetuados no período (por data de pagamento)
+     */
+    async findPaidBetween(startDate: string, endDate: string): Promise<Payment[]> {
+        const result = await this.executeWithMiddlewares<PaymentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .whereOperator('paid_date', 'gte', startDate)
+                    .whereOperator('paid_date', 'lte', endDate)
+                    .orderBy('paid_date', 'asc')
+                    .execute<PaymentJSON[]>();
+            },
+            { operation: 'findPaidBetween', metadata: { startDate, endDate } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => Payment.fromJSON(row));
+    }
+
+    /**
+     * Busca as parcelas em aberto com vencimento até a data informada, por vencimento
+     */
+    async findOpenInstallmentsUntil(endDate: string): Promise<Payment[]> {
+        const result = await this.executeWithMiddlewares<PaymentJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .whereOperator('paid_date', 'is', null)
+                    .whereOperator('due_date', 'lte', endDate)
+                    .orderBy('due_date', 'asc')
+                    .execute<PaymentJSON[]>();
+            },
+            { operation: 'findOpenInstallmentsUntil', metadata: { endDate } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => Payment.fromJSON(row));
+    }
+
+    /**
+     * Cria um novo pagamento ou parcela
+     */
+    async create(payment: Payment): Promise<Payment> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...payment.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('PaymentRepository.create - Created successfully', {
+                    paymentId: payment.id,
+                    appointmentId: payment.appointmentId
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(payment.id, 'Erro ao registrar pagamento');
+    }
+
+    /**
+     * Atualiza um pagamento
+     * ✅ O agendamento e o valor não são alterados
+     */
+    async update(id: string, payment: Payment): Promise<Payment> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, appointment_id, amount, currency, created_at, ...data } = payment.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar pagamento');
+    }
+
+    /**
+     * Remove um pagamento
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<Payment> {
+        const payment = await this.findById(id);
+        if (!payment) {
+            throw new Error(errorMessage);
+        }
+        return payment;
+    }
+}
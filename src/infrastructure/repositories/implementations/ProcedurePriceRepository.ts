@@ -0,0 +1,123 @@
+import { BaseRepository } from '../BaseRepository';
+import { IProcedurePriceRepository } from '../interfaces/IProcedurePriceRepository';
+import { ProcedurePrice, ProcedurePriceJSON } from '../../../domain/entities/ProcedurePrice';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para a tabela de preços das clínicas
+ */
+export class ProcedurePriceRepository extends BaseRepository implements IProcedurePriceRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('procedure_prices', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca uma versão de preço por ID
+     */
+    async findById(id: string): Promise<ProcedurePrice | null> {
+        const result = await this.executeWithMiddlewares<ProcedurePriceJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<ProcedurePriceJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return ProcedurePrice.fromJSON(result);
+    }
+
+    /**
+     * Busca todas as versões da tabela de preços de uma clínica, da vigência mais recente à mais antiga
+     */
+    async findByClinicId(clinicId: string): Promise<ProcedurePrice[]> {
+        const result = await this.executeWithMiddlewares<ProcedurePriceJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('clinic_id', clinicId)
+                    .orderBy('effective_from', 'desc')
+                    .execute<ProcedurePriceJSON[]>();
+            },
+            { operation: 'findByClinicId', metadata: { clinicId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => ProcedurePrice.fromJSON(row));
+    }
+
+    /**
+     * Busca todas as versões das tabelas de todas as clínicas
+     */
+    async findAllVersions(): Promise<ProcedurePrice[]> {
+        const result = await this.executeWithMiddlewares<ProcedurePriceJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .orderBy('effective_from', 'desc')
+                    .execute<ProcedurePriceJSON[]>();
+            },
+            { operation: 'findAllVersions' },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => ProcedurePrice.fromJSON(row));
+    }
+
+    /**
+     * Cria uma nova versão de preço
+     */
+    async create(price: ProcedurePrice): Promise<ProcedurePrice> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...price.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('ProcedurePriceRepository.create - Created successfully', {
+                    priceId: price.id,
+                    clinicId: price.clinicId,
+                    procedureId: price.procedureId
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        const created = await this.findById(price.id);
+        if (!created) {
+            throw new Error('Erro ao criar preço de tabela');
+        }
+        return created;
+    }
+
+    /**
+     * Remove uma versão de preço
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+}
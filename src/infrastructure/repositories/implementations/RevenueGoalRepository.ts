@@ -0,0 +1,119 @@
+import { BaseRepository } from '../BaseRepository';
+import { IRevenueGoalRepository } from '../interfaces/IRevenueGoalRepository';
+import { RevenueGoal, RevenueGoalJSON } from '../../../domain/entities/RevenueGoal';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para as metas mensais de receita e atendimentos
+ */
+export class RevenueGoalRepository extends BaseRepository implements IRevenueGoalRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('revenue_goals', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca uma meta por ID
+     */
+    async findById(id: string): Promise<RevenueGoal | null> {
+        const result = await this.executeWithMiddlewares<RevenueGoalJSON | null>(
+            async () => {
+                const data = await this.query()
+                    .select('*')
+                    .where('id', id)
+                    .maybeSingle()
+                    .execute<RevenueGoalJSON | null>();
+
+                return data || null;
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return RevenueGoal.fromJSON(result);
+    }
+
+    /**
+     * Busca as metas de um mês
+     */
+    async findByMonth(month: string): Promise<RevenueGoal[]> {
+        const result = await this.executeWithMiddlewares<RevenueGoalJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('month', month)
+                    .execute<RevenueGoalJSON[]>();
+            },
+            { operation: 'findByMonth', metadata: { month } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => RevenueGoal.fromJSON(row));
+    }
+
+    /**
+     * Cria uma meta
+     */
+    async create(goal: RevenueGoal): Promise<RevenueGoal> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...goal.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('RevenueGoalRepository.create - Created successfully', {
+                    goalId: goal.id,
+                    month: goal.month,
+                    clinicId: goal.clinicId
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(goal.id, 'Erro ao salvar meta');
+    }
+
+    /**
+     * Atualiza os valores de uma meta
+     * ✅ Mês e clínica não são alterados
+     */
+    async update(id: string, goal: RevenueGoal): Promise<RevenueGoal> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, month, clinic_id, created_at, ...data } = goal.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar meta');
+    }
+
+    /**
+     * Remove uma meta
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<RevenueGoal> {
+        const goal = await this.findById(id);
+        if (!goal) {
+            throw new Error(errorMessage);
+        }
+        return goal;
+    }
+}
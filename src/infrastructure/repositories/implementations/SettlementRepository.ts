@@ -0,0 +1,121 @@
+import { BaseRepository } from '../BaseRepository';
+import { ISettlementRepository } from '../interfaces/ISettlementRepository';
+import { SettlementStatement, SettlementStatementJSON } from '../../../domain/entities/SettlementStatement';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para demonstrativos de repasse às clínicas
+ */
+export class SettlementRepository extends BaseRepository implements ISettlementRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('settlement_statements', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca um demonstrativo por ID
+     */
+    async findById(id: string): Promise<SettlementStatement | null> {
+        const result = await this.executeWithMiddlewares<SettlementStatementJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<SettlementStatementJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return SettlementStatement.fromJSON(result);
+    }
+
+    /**
+     * Busca os demonstrativos de uma clínica, do período mais recente ao mais antigo
+     */
+    async findByClinicId(clinicId: string): Promise<SettlementStatement[]> {
+        const result = await this.executeWithMiddlewares<SettlementStatementJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('clinic_id', clinicId)
+                    .orderBy('period_start', 'desc')
+                    .execute<SettlementStatementJSON[]>();
+            },
+            { operation: 'findByClinicId', metadata: { clinicId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => SettlementStatement.fromJSON(row));
+    }
+
+    /**
+     * Cria um demonstrativo emitido
+     */
+    async create(statement: SettlementStatement): Promise<SettlementStatement> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...statement.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('SettlementRepository.create - Created successfully', {
+                    statementId: statement.id,
+                    clinicId: statement.clinicId
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(statement.id, 'Erro ao emitir demonstrativo de repasse');
+    }
+
+    /**
+     * Atualiza a situação do demonstrativo
+     * ✅ Linhas, período e totais ficam travados desde a emissão
+     */
+    async update(id: string, statement: SettlementStatement): Promise<SettlementStatement> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { status, settled_at, updated_at } = statement.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update({ status, settled_at, updated_at });
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar demonstrativo de repasse');
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<SettlementStatement> {
+        const statement = await this.findById(id);
+        if (!statement) {
+            throw new Error(errorMessage);
+        }
+        return statement;
+    }
+}
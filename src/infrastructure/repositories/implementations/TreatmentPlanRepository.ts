@@ -0,0 +1,174 @@
+import { BaseRepository } from '../BaseRepository';
+import { ITreatmentPlanRepository } from '../interfaces/ITreatmentPlanRepository';
+import { TreatmentPlan, TreatmentPlanJSON, TreatmentSessionJSON } from '../../../domain/entities/TreatmentPlan';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { SupabaseClientAdapter } from '../../database/adapters/SupabaseClientAdapter';
+import { DatabaseError } from '../../../domain/errors/AppError';
+import { logger } from '../../../lib/logger';
+
+const SESSIONS_TABLE = 'treatment_plan_sessions';
+
+type TreatmentPlanRow = Omit<TreatmentPlanJSON, 'sessions'> & {
+    treatment_plan_sessions?: TreatmentSessionJSON[] | null;
+};
+
+/**
+ * Repositório para planos de tratamento
+ * ✅ Persiste o agregado completo: linha em treatment_plans + sessões em treatment_plan_sessions
+ */
+export class TreatmentPlanRepository extends BaseRepository implements ITreatmentPlanRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('treatment_plans', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca um plano de tratamento por ID com sessões
+     */
+    async findById(id: string): Promise<TreatmentPlan | null> {
+        const result = await this.executeWithMiddlewares<TreatmentPlanRow | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select(`*, ${SESSIONS_TABLE} (*)`)
+                        .where('id', id)
+                        .single()
+                        .execute<TreatmentPlanRow>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return this.toEntity(result);
+    }
+
+    /**
+     * Busca os planos de um paciente, mais recentes primeiro
+     */
+    async findByPatientId(patientId: string): Promise<TreatmentPlan[]> {
+        const result = await this.executeWithMiddlewares<TreatmentPlanRow[]>(
+            async () => {
+                return await this.query()
+                    .select(`*, ${SESSIONS_TABLE} (*)`)
+                    .where('patient_id', patientId)
+                    .orderBy('created_at', 'desc')
+                    .execute<TreatmentPlanRow[]>();
+            },
+            { operation: 'findByPatientId', metadata: { patientId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => this.toEntity(row));
+    }
+
+    /**
+     * Cria um novo plano de tratamento com suas sessões
+     */
+    async create(plan: TreatmentPlan): Promise<TreatmentPlan> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                const { sessions, ...planData } = plan.toJSON();
+
+                await this.query().insert([{ ...planData, user_id: session.user.id }]);
+                if (sessions.length > 0) {
+                    await this.db.table(SESSIONS_TABLE).insert(sessions);
+                }
+
+                logger.debug('TreatmentPlanRepository.create - Created successfully', {
+                    planId: plan.id,
+                    sessions: sessions.length
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(plan.id, 'Erro ao criar plano de tratamento');
+    }
+
+    /**
+     * Atualiza o plano e sincroniza as sessões
+     * Sessões removidas do agregado são apagadas; as demais são inseridas ou atualizadas
+     */
+    async update(id: string, plan: TreatmentPlan): Promise<TreatmentPlan> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { sessions, created_at, ...planData } = plan.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(planData);
+
+                const supabaseClient = (this.db.getClient() as SupabaseClientAdapter).getSupabaseClient();
+
+                let removeQuery = supabaseClient
+                    .from(SESSIONS_TABLE)
+                    .delete()
+                    .eq('plan_id', id);
+                if (sessions.length > 0) {
+                    removeQuery = removeQuery.not('id', 'in', `(${sessions.map(item => item.id).join(',')})`);
+                }
+                const { error: removeError } = await removeQuery;
+                if (removeError) {
+                    throw new DatabaseError(`Erro ao remover sessões: ${removeError.message}`, removeError);
+                }
+
+                if (sessions.length > 0) {
+                    const { error: upsertError } = await supabaseClient
+                        .from(SESSIONS_TABLE)
+                        .upsert(sessions, { onConflict: 'id' });
+                    if (upsertError) {
+                        throw new DatabaseError(`Erro ao salvar sessões: ${upsertError.message}`, upsertError);
+                    }
+                }
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar plano de tratamento');
+    }
+
+    /**
+     * Deleta um plano de tratamento
+     * ✅ Sessões removidas por ON DELETE CASCADE
+     */
+    async delete(id: string): Promise<void> {
+        await super.delete(id);
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<TreatmentPlan> {
+        const plan = await this.findById(id);
+        if (!plan) {
+            throw new Error(errorMessage);
+        }
+        return plan;
+    }
+
+    private toEntity(row: TreatmentPlanRow): TreatmentPlan {
+        const { treatment_plan_sessions, ...plan } = row;
+        return TreatmentPlan.fromJSON({
+            ...plan,
+            sessions: treatment_plan_sessions || []
+        });
+    }
+}
@@ -0,0 +1,141 @@
+import { BaseRepository } from '../BaseRepository';
+import { IWaitlistRepository } from '../interfaces/IWaitlistRepository';
+import { WaitlistEntry, WaitlistEntryJSON, WaitlistStatus } from '../../../domain/entities/WaitlistEntry';
+import { DatabaseAdapter } from '../../database/DatabaseAdapter';
+import { ICacheService } from '../../cache/ICacheService';
+import { PermissionService } from '../../../application/services/PermissionService';
+import { IAuthClient } from '../../auth/IAuthClient';
+import { logger } from '../../../lib/logger';
+
+/**
+ * Repositório para a lista de espera de pacientes
+ * ✅ Entradas não são apagadas: agendamento e retirada mudam apenas a situação
+ */
+export class WaitlistRepository extends BaseRepository implements IWaitlistRepository {
+    constructor(
+        db: DatabaseAdapter,
+        cacheService: ICacheService,
+        permissionService: PermissionService | null = null,
+        authClient: IAuthClient
+    ) {
+        super('waitlist_entries', db, cacheService, permissionService, authClient);
+    }
+
+    /**
+     * Busca uma entrada da lista de espera por ID
+     */
+    async findById(id: string): Promise<WaitlistEntry | null> {
+        const result = await this.executeWithMiddlewares<WaitlistEntryJSON | null>(
+            async () => {
+                try {
+                    const data = await this.query()
+                        .select('*')
+                        .where('id', id)
+                        .single()
+                        .execute<WaitlistEntryJSON>();
+
+                    return data || null;
+                } catch (error) {
+                    const errorObj = error as { code?: string; message?: string };
+                    // PGRST116 = not found (Supabase)
+                    if (errorObj.code === 'PGRST116' || errorObj.message?.includes('not found')) {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            { operation: 'findById', metadata: { id } },
+            { defaultValue: null, useCache: false }
+        );
+
+        if (!result) return null;
+        return WaitlistEntry.fromJSON(result);
+    }
+
+    /**
+     * Busca as entradas em uma situação, em ordem de chegada
+     */
+    async findByStatus(status: WaitlistStatus): Promise<WaitlistEntry[]> {
+        const result = await this.executeWithMiddlewares<WaitlistEntryJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('status', status)
+                    .orderBy('created_at', 'asc')
+                    .execute<WaitlistEntryJSON[]>();
+            },
+            { operation: 'findByStatus', metadata: { status } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => WaitlistEntry.fromJSON(row));
+    }
+
+    /**
+     * Busca as entradas de um paciente, das mais recentes para as mais antigas
+     */
+    async findByPatientId(patientId: string): Promise<WaitlistEntry[]> {
+        const result = await this.executeWithMiddlewares<WaitlistEntryJSON[]>(
+            async () => {
+                return await this.query()
+                    .select('*')
+                    .where('patient_id', patientId)
+                    .orderBy('created_at', 'desc')
+                    .execute<WaitlistEntryJSON[]>();
+            },
+            { operation: 'findByPatientId', metadata: { patientId } },
+            { useCache: false }
+        );
+
+        return (result || []).map(row => WaitlistEntry.fromJSON(row));
+    }
+
+    /**
+     * Cria uma nova entrada na lista de espera
+     */
+    async create(entry: WaitlistEntry): Promise<WaitlistEntry> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const session = await this.ensureAuth();
+                await this.query().insert([{ ...entry.toJSON(), user_id: session.user.id }]);
+
+                logger.debug('WaitlistRepository.create - Created successfully', {
+                    entryId: entry.id,
+                    patientId: entry.patientId
+                });
+            },
+            { operation: 'create' },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(entry.id, 'Erro ao criar entrada na lista de espera');
+    }
+
+    /**
+     * Atualiza preferências e situação de uma entrada
+     * ✅ O paciente não é alterado
+     */
+    async update(id: string, entry: WaitlistEntry): Promise<WaitlistEntry> {
+        await this.executeWithMiddlewares<void>(
+            async () => {
+                const { id: _id, patient_id, created_at, ...data } = entry.toJSON();
+
+                await this.query()
+                    .where('id', id)
+                    .update(data);
+            },
+            { operation: 'update', metadata: { id } },
+            { requireCSRF: true, useCache: false }
+        );
+
+        return this.reload(id, 'Erro ao atualizar entrada da lista de espera');
+    }
+
+    private async reload(id: string, errorMessage: string): Promise<WaitlistEntry> {
+        const entry = await this.findById(id);
+        if (!entry) {
+            throw new Error(errorMessage);
+        }
+        return entry;
+    }
+}
@@ -0,0 +1,39 @@
+import { AnamnesisRecord } from '../../../domain/entities/AnamnesisRecord';
+import { AnamnesisTemplate } from '../../../domain/entities/AnamnesisTemplate';
+
+/**
+ * Interface para AnamnesisRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IAnamnesisRepository {
+    /**
+     * Busca as versões da anamnese de um paciente, da mais recente para a mais antiga
+     */
+    findByPatientId(patientId: string): Promise<AnamnesisRecord[]>;
+
+    /**
+     * Busca a versão mais recente da anamnese de um paciente
+     */
+    findLatestByPatientId(patientId: string): Promise<AnamnesisRecord | null>;
+
+    /**
+     * Registra uma nova versão da anamnese
+     * Recebe entidade AnamnesisRecord que já foi validada
+     */
+    create(record: AnamnesisRecord): Promise<AnamnesisRecord>;
+
+    /**
+     * Busca o questionário configurado pelo usuário (null = usar o padrão)
+     */
+    findTemplate(): Promise<AnamnesisTemplate | null>;
+
+    /**
+     * Cria o questionário do usuário
+     */
+    createTemplate(template: AnamnesisTemplate): Promise<AnamnesisTemplate>;
+
+    /**
+     * Atualiza as perguntas e o prazo de revisão do questionário
+     */
+    updateTemplate(id: string, template: AnamnesisTemplate): Promise<AnamnesisTemplate>;
+}
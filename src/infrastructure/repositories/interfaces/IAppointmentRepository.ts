@@ -15,15 +15,25 @@ export interface AppointmentTotals {
     };
 }
 
+/**
+ * Relações carregadas junto dos agendamentos em findAll (não fazem parte da entidade)
+ */
+export interface AppointmentRelations {
+    clinics: { id: string; name: string } | null;
+    patients: { id: string; name: string } | null;
+}
+
+export type AppointmentWithRelations = Appointment & AppointmentRelations;
+
 /**
  * Interface para AppointmentRepository
  * Define o contrato que todas as implementações devem seguir
  */
 export interface IAppointmentRepository {
     /**
-     * Busca todos os agendamentos
+     * Busca todos os agendamentos, com a clínica e o paciente de cada um
      */
-    findAll(options?: Record<string, unknown>): Promise<Appointment[] | { data: Appointment[]; pagination: unknown }>;
+    findAll(options?: Record<string, unknown>): Promise<AppointmentWithRelations[] | { data: AppointmentWithRelations[]; pagination: unknown }>;
 
     /**
      * Busca um agendamento por ID
@@ -50,6 +60,16 @@ export interface IAppointmentRepository {
      */
     findByDateRange(startDate: string, endDate: string): Promise<Appointment[]>;
 
+    /**
+     * Busca os agendamentos não quitados até uma data (contas a receber)
+     */
+    findUnpaidUntil(endDate: string): Promise<Appointment[]>;
+
+    /**
+     * Busca os agendamentos de uma série (recorrência ou retornos)
+     */
+    findBySeriesId(seriesId: string): Promise<Appointment[]>;
+
     /**
      * Obtém totais de appointments calculados no servidor
      * Retorna total, valores recebidos, valores pendentes e contagem por status
@@ -0,0 +1,28 @@
+import { CommissionRule } from '../../../domain/entities/CommissionRule';
+
+/**
+ * Interface para CommissionRuleRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface ICommissionRuleRepository {
+    /**
+     * Busca uma regra por ID
+     */
+    findById(id: string): Promise<CommissionRule | null>;
+
+    /**
+     * Busca todas as versões das regras de uma clínica (histórico completo)
+     */
+    findByClinicId(clinicId: string): Promise<CommissionRule[]>;
+
+    /**
+     * Cria uma nova versão de regra
+     * Recebe entidade CommissionRule que já foi validada
+     */
+    create(rule: CommissionRule): Promise<CommissionRule>;
+
+    /**
+     * Remove uma versão de regra
+     */
+    delete(id: string): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { ConsentDocument } from '../../../domain/entities/ConsentDocument';
+import { ConsentTemplate } from '../../../domain/entities/ConsentTemplate';
+
+/**
+ * Interface para ConsentRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IConsentRepository {
+    /**
+     * Busca os termos assinados de um paciente, dos mais recentes para os mais antigos
+     */
+    findByPatientId(patientId: string): Promise<ConsentDocument[]>;
+
+    /**
+     * Registra um termo assinado
+     * Recebe entidade ConsentDocument que já foi validada
+     */
+    create(document: ConsentDocument): Promise<ConsentDocument>;
+
+    /**
+     * Busca os modelos de termo salvos pelo usuário
+     */
+    findTemplates(): Promise<ConsentTemplate[]>;
+
+    /**
+     * Cria um modelo de termo
+     */
+    createTemplate(template: ConsentTemplate): Promise<ConsentTemplate>;
+
+    /**
+     * Atualiza tipo, título e texto de um modelo
+     */
+    updateTemplate(id: string, template: ConsentTemplate): Promise<ConsentTemplate>;
+
+    /**
+     * Remove um modelo (termos já assinados mantêm o texto)
+     */
+    deleteTemplate(id: string): Promise<void>;
+}
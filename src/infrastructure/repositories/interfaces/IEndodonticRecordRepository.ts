@@ -0,0 +1,38 @@
+import { EndodonticRecord } from '../../../domain/entities/EndodonticRecord';
+
+/**
+ * Interface para EndodonticRecordRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IEndodonticRecordRepository {
+    /**
+     * Busca um registro endodôntico por ID
+     */
+    findById(id: string): Promise<EndodonticRecord | null>;
+
+    /**
+     * Busca os registros de um agendamento (um por dente)
+     */
+    findByAppointmentId(appointmentId: string): Promise<EndodonticRecord[]>;
+
+    /**
+     * Busca os registros de um paciente, opcionalmente de um único dente
+     */
+    findByPatientId(patientId: string, tooth?: number): Promise<EndodonticRecord[]>;
+
+    /**
+     * Cria um novo registro endodôntico
+     * Recebe entidade EndodonticRecord que já foi validada
+     */
+    create(record: EndodonticRecord): Promise<EndodonticRecord>;
+
+    /**
+     * Atualiza os dados clínicos de um registro
+     */
+    update(id: string, record: EndodonticRecord): Promise<EndodonticRecord>;
+
+    /**
+     * Deleta um registro endodôntico
+     */
+    delete(id: string): Promise<void>;
+}
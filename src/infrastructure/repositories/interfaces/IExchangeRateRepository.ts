@@ -0,0 +1,33 @@
+import { ExchangeRate } from '../../../domain/entities/ExchangeRate';
+
+/**
+ * Interface para ExchangeRateRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IExchangeRateRepository {
+    /**
+     * Busca uma cotação por ID
+     */
+    findById(id: string): Promise<ExchangeRate | null>;
+
+    /**
+     * Busca todas as cotações cadastradas (mais recentes primeiro)
+     */
+    findAll(): Promise<ExchangeRate[]>;
+
+    /**
+     * Cria uma cotação
+     * Recebe entidade ExchangeRate que já foi validada
+     */
+    create(rate: ExchangeRate): Promise<ExchangeRate>;
+
+    /**
+     * Cria várias cotações de uma vez (importação de arquivo)
+     */
+    createMany(rates: ExchangeRate[]): Promise<void>;
+
+    /**
+     * Remove uma cotação
+     */
+    delete(id: string): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { Expense } from '../../../domain/entities/Expense';
+
+/**
+ * Interface para ExpenseRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IExpenseRepository {
+    /**
+     * Busca uma despesa por ID
+     */
+    findById(id: string): Promise<Expense | null>;
+
+    /**
+     * Busca as despesas com data até a informada, incluindo recorrentes iniciadas antes do período
+     */
+    findUntil(endDate: string): Promise<Expense[]>;
+
+    /**
+     * Cria uma despesa
+     * Recebe entidade Expense que já foi validada
+     */
+    create(expense: Expense): Promise<Expense>;
+
+    /**
+     * Atualiza uma despesa (ex.: encerramento da recorrência)
+     */
+    update(id: string, expense: Expense): Promise<Expense>;
+
+    /**
+     * Remove uma despesa
+     */
+    delete(id: string): Promise<void>;
+}
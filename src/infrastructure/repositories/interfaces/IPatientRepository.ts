@@ -1,5 +1,18 @@
 import { Patient } from '../../domain/entities/Patient';
 
+/**
+ * Registros transferidos do paciente duplicado para o mantido
+ */
+export interface PatientMergeCounts {
+    appointments: number;
+    radiographs: number;
+    treatmentPlans: number;
+    endodonticRecords: number;
+    waitlistEntries: number;
+    anamnesisRecords: number;
+    consentDocuments: number;
+}
+
 /**
  * Interface para PatientRepository
  * Define o contrato que todas as implementações devem seguir
@@ -20,6 +33,11 @@ export interface IPatientRepository {
      */
     findByNameOrEmail(name: string, email?: string | null): Promise<Patient | null>;
 
+    /**
+     * Busca o paciente com um CPF (só dígitos)
+     */
+    findByCpf(cpf: string): Promise<Patient | null>;
+
     /**
      * Cria um novo paciente
      * Recebe entidade Patient que já foi validada
@@ -32,6 +50,12 @@ export interface IPatientRepository {
      */
     update(id: string, patient: Patient): Promise<Patient>;
 
+    /**
+     * Transfere agendamentos, radiografias e demais registros de um paciente
+     * para outro e remove o primeiro, numa única transação
+     */
+    merge(sourceId: string, targetId: string): Promise<PatientMergeCounts>;
+
     /**
      * Deleta um paciente
      */
@@ -0,0 +1,23 @@
+import { PaymentMethodFee } from '../../../domain/entities/PaymentMethodFee';
+
+/**
+ * Interface para PaymentMethodFeeRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IPaymentMethodFeeRepository {
+    /**
+     * Busca as taxas configuradas (no máximo uma por forma de pagamento)
+     */
+    findAll(): Promise<PaymentMethodFee[]>;
+
+    /**
+     * Cria a configuração de uma forma de pagamento
+     * Recebe entidade PaymentMethodFee que já foi validada
+     */
+    create(fee: PaymentMethodFee): Promise<PaymentMethodFee>;
+
+    /**
+     * Atualiza taxas e prazo de uma forma de pagamento
+     */
+    update(id: string, fee: PaymentMethodFee): Promise<PaymentMethodFee>;
+}
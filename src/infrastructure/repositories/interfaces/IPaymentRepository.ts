@@ -0,0 +1,48 @@
+import { Payment } from '../../../domain/entities/Payment';
+
+/**
+ * Interface para PaymentRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IPaymentRepository {
+    /**
+     * Busca um pagamento por ID
+     */
+    findById(id: string): Promise<Payment | null>;
+
+    /**
+     * Busca os pagamentos e parcelas de um agendamento, por vencimento
+     */
+    findByAppointmentId(appointmentId: string): Promise<Payment[]>;
+
+    /**
+     * Busca os pagamentos e parcelas de vários agendamentos (ex.: todos os de um paciente)
+     */
+    findByAppointmentIds(appointmentIds: string[]): Promise<Payment[]>;
+
+    /**
+     * Busca os pagamentos efetuados no período (por data de pagamento)
+     */
+    findPaidBetween(startDate: string, endDate: string): Promise<Payment[]>;
+
+    /**
+     * Busca as parcelas em aberto com vencimento até a data informada
+     */
+    findOpenInstallmentsUntil(endDate: string): Promise<Payment[]>;
+
+    /**
+     * Cria um novo pagamento ou parcela
+     * Recebe entidade Payment que já foi validada
+     */
+    create(payment: Payment): Promise<Payment>;
+
+    /**
+     * Atualiza um pagamento (ex.: baixa de parcela)
+     */
+    update(id: string, payment: Payment): Promise<Payment>;
+
+    /**
+     * Remove um pagamento lançado por engano
+     */
+    delete(id: string): Promise<void>;
+}
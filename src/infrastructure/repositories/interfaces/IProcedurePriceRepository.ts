@@ -0,0 +1,33 @@
+import { ProcedurePrice } from '../../../domain/entities/ProcedurePrice';
+
+/**
+ * Interface para ProcedurePriceRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IProcedurePriceRepository {
+    /**
+     * Busca uma versão de preço por ID
+     */
+    findById(id: string): Promise<ProcedurePrice | null>;
+
+    /**
+     * Busca todas as versões da tabela de preços de uma clínica (histórico completo)
+     */
+    findByClinicId(clinicId: string): Promise<ProcedurePrice[]>;
+
+    /**
+     * Busca todas as versões das tabelas de todas as clínicas
+     */
+    findAllVersions(): Promise<ProcedurePrice[]>;
+
+    /**
+     * Cria uma nova versão de preço
+     * Recebe entidade ProcedurePrice que já foi validada
+     */
+    create(price: ProcedurePrice): Promise<ProcedurePrice>;
+
+    /**
+     * Remove uma versão de preço
+     */
+    delete(id: string): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { RevenueGoal } from '../../../domain/entities/RevenueGoal';
+
+/**
+ * Interface para RevenueGoalRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IRevenueGoalRepository {
+    /**
+     * Busca uma meta por ID
+     */
+    findById(id: string): Promise<RevenueGoal | null>;
+
+    /**
+     * Busca as metas de um mês (YYYY-MM): a geral e as das clínicas
+     */
+    findByMonth(month: string): Promise<RevenueGoal[]>;
+
+    /**
+     * Cria uma meta
+     * Recebe entidade RevenueGoal que já foi validada
+     */
+    create(goal: RevenueGoal): Promise<RevenueGoal>;
+
+    /**
+     * Atualiza os valores de uma meta
+     */
+    update(id: string, goal: RevenueGoal): Promise<RevenueGoal>;
+
+    /**
+     * Remove uma meta
+     */
+    delete(id: string): Promise<void>;
+}
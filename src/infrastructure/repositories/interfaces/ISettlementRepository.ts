@@ -0,0 +1,28 @@
+import { SettlementStatement } from '../../../domain/entities/SettlementStatement';
+
+/**
+ * Interface para SettlementRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface ISettlementRepository {
+    /**
+     * Busca um demonstrativo por ID
+     */
+    findById(id: string): Promise<SettlementStatement | null>;
+
+    /**
+     * Busca os demonstrativos de uma clínica, do período mais recente ao mais antigo
+     */
+    findByClinicId(clinicId: string): Promise<SettlementStatement[]>;
+
+    /**
+     * Cria um demonstrativo emitido
+     * Recebe entidade SettlementStatement que já foi validada
+     */
+    create(statement: SettlementStatement): Promise<SettlementStatement>;
+
+    /**
+     * Atualiza a situação do demonstrativo (as linhas não mudam depois da emissão)
+     */
+    update(id: string, statement: SettlementStatement): Promise<SettlementStatement>;
+}
@@ -0,0 +1,33 @@
+import { TreatmentPlan } from '../../../domain/entities/TreatmentPlan';
+
+/**
+ * Interface para TreatmentPlanRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface ITreatmentPlanRepository {
+    /**
+     * Busca um plano de tratamento por ID (com sessões)
+     */
+    findById(id: string): Promise<TreatmentPlan | null>;
+
+    /**
+     * Busca os planos de tratamento de um paciente (com sessões)
+     */
+    findByPatientId(patientId: string): Promise<TreatmentPlan[]>;
+
+    /**
+     * Cria um novo plano de tratamento com suas sessões
+     * Recebe entidade TreatmentPlan que já foi validada
+     */
+    create(plan: TreatmentPlan): Promise<TreatmentPlan>;
+
+    /**
+     * Persiste o estado atual do agregado (plano e sessões)
+     */
+    update(id: string, plan: TreatmentPlan): Promise<TreatmentPlan>;
+
+    /**
+     * Deleta um plano de tratamento (sessões são removidas em cascata)
+     */
+    delete(id: string): Promise<void>;
+}
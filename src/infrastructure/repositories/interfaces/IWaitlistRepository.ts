@@ -0,0 +1,33 @@
+import { WaitlistEntry, WaitlistStatus } from '../../../domain/entities/WaitlistEntry';
+
+/**
+ * Interface para WaitlistRepository
+ * Define o contrato que todas as implementações devem seguir
+ */
+export interface IWaitlistRepository {
+    /**
+     * Busca uma entrada da lista de espera por ID
+     */
+    findById(id: string): Promise<WaitlistEntry | null>;
+
+    /**
+     * Busca as entradas em uma situação, em ordem de chegada
+     */
+    findByStatus(status: WaitlistStatus): Promise<WaitlistEntry[]>;
+
+    /**
+     * Busca as entradas de um paciente (todas as situações)
+     */
+    findByPatientId(patientId: string): Promise<WaitlistEntry[]>;
+
+    /**
+     * Cria uma nova entrada
+     * Recebe entidade WaitlistEntry que já foi validada
+     */
+    create(entry: WaitlistEntry): Promise<WaitlistEntry>;
+
+    /**
+     * Atualiza preferências e situação de uma entrada
+     */
+    update(id: string, entry: WaitlistEntry): Promise<WaitlistEntry>;
+}
@@ -0,0 +1,134 @@
+/**
+ * Helpers dos formulários de anamnese e do questionário
+ * As respostas ficam como texto no formulário ('yes'/'no' nas perguntas de sim/não)
+ */
+import type { AnamnesisRecord, AnamnesisAlert } from '../domain/entities/AnamnesisRecord';
+import type { AnamnesisQuestion, AnamnesisQuestionType } from '../domain/entities/AnamnesisTemplate';
+
+export interface AnamnesisAnswerFormState {
+    value: string;
+    details: string;
+}
+
+export interface AnamnesisFormState {
+    answers: Record<string, AnamnesisAnswerFormState>;
+    notes: string;
+}
+
+export interface AnamnesisQuestionFormRow {
+    id: string;
+    label: string;
+    type: AnamnesisQuestionType;
+    critical: boolean;
+    alertLabel: string;
+}
+
+export interface AnamnesisTemplateFormState {
+    questions: AnamnesisQuestionFormRow[];
+    reviewIntervalMonths: string;
+}
+
+/**
+ * Formulário de nova revisão: perguntas do questionário atual, já
+ * preenchidas com as respostas da última versão (quando a pergunta existia)
+ */
+export function anamnesisToForm(questions: AnamnesisQuestion[], latest: AnamnesisRecord | null): AnamnesisFormState {
+    const answers = Object.fromEntries(questions.map(question => {
+        const answer = latest?.answerFor(question.id);
+        const value = typeof answer?.value === 'boolean'
+            ? (answer.value ? 'yes' : 'no')
+            : answer?.value ?? '';
+        return [question.id, { value, details: answer?.details ?? '' }];
+    }));
+    return { answers, notes: latest?.notes ?? '' };
+}
+
+/**
+ * Converte o formulário no DTO da nova versão da anamnese
+ */
+export function anamnesisFormToDTO(patientId: string, questions: AnamnesisQuestion[], form: AnamnesisFormState) {
+    return {
+        patientId,
+        answers: questions.map(question => {
+            const answer = form.answers[question.id] ?? { value: '', details: '' };
+            const value = question.type === 'boolean'
+                ? (answer.value === 'yes' ? true : answer.value === 'no' ? false : null)
+                : answer.value.trim() || null;
+            return {
+                questionId: question.id,
+                value,
+                details: value === true ? answer.details.trim() || null : null
+            };
+        }),
+        notes: form.notes.trim() || null
+    };
+}
+
+/**
+ * Texto do alerta com o detalhe informado (ex.: "Alergia: dipirona")
+ */
+export function formatAnamnesisAlert(alert: AnamnesisAlert): string {
+    return alert.details ? `${alert.label}: ${alert.details}` : alert.label;
+}
+
+/**
+ * Formulário do questionário a partir das perguntas configuradas
+ */
+export function templateToForm(questions: AnamnesisQuestion[], reviewIntervalMonths: number): AnamnesisTemplateFormState {
+    return {
+        questions: questions.map(question => ({
+            id: question.id,
+            label: question.label,
+            type: question.type,
+            critical: question.critical,
+            alertLabel: question.alertLabel ?? ''
+        })),
+        reviewIntervalMonths: String(reviewIntervalMonths)
+    };
+}
+
+/**
+ * Identificador para uma pergunta nova, derivado do enunciado e único no questionário
+ */
+export function questionIdFromLabel(label: string, existingIds: string[]): string {
+    const base = label
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 40) || 'pergunta';
+
+    let id = base;
+    for (let suffix = 2; existingIds.includes(id); suffix++) {
+        id = `${base}_${suffix}`;
+    }
+    return id;
+}
+
+/**
+ * Converte o formulário no DTO do questionário
+ * ✅ Perguntas novas (sem id) ganham um identificador derivado do enunciado
+ */
+export function templateFormToDTO(form: AnamnesisTemplateFormState) {
+    const ids = form.questions.map(question => question.id).filter(Boolean);
+    const questions = form.questions.map(question => {
+        let id = question.id;
+        if (!id) {
+            id = questionIdFromLabel(question.label, ids);
+            ids.push(id);
+        }
+        return {
+            id,
+            label: question.label.trim(),
+            type: question.type,
+            critical: question.critical,
+            alertLabel: question.alertLabel.trim() || null
+        };
+    });
+
+    return {
+        questions,
+        reviewIntervalMonths: parseInt(form.reviewIntervalMonths, 10) || 0
+    };
+}
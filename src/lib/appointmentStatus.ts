@@ -0,0 +1,109 @@
+/**
+ * Apresentação e filtros dos status de agendamento
+ * O status clínico (ciclo de vida) e o status de pagamento são independentes
+ */
+import { ClinicalStatus, ClinicalStatusValue } from '../domain/value-objects/ClinicalStatus';
+import type { PaymentStatusValue } from '../domain/value-objects/AppointmentStatus';
+
+export type BadgeVariant = 'default' | 'primary' | 'success' | 'warning' | 'danger';
+
+export type PaymentStatusFilter = 'all' | PaymentStatusValue;
+export type ClinicalStatusFilter = 'all' | ClinicalStatusValue;
+
+export const CLINICAL_STATUSES: ClinicalStatusValue[] = ClinicalStatus.values();
+
+export const CLINICAL_STATUS_BADGE: Record<ClinicalStatusValue, BadgeVariant> = {
+    scheduled: 'default',
+    confirmed: 'primary',
+    in_progress: 'warning',
+    completed: 'success',
+    no_show: 'danger',
+    cancelled: 'danger'
+};
+
+/** Indicador de status (bolinha) usado na agenda */
+export const CLINICAL_STATUS_DOT: Record<ClinicalStatusValue, string> = {
+    scheduled: 'bg-slate-400',
+    confirmed: 'bg-sky-500',
+    in_progress: 'bg-amber-500',
+    completed: 'bg-emerald-500',
+    no_show: 'bg-rose-500',
+    cancelled: 'bg-rose-300'
+};
+
+export const PAYMENT_STATUS_BADGE: Record<PaymentStatusValue, BadgeVariant> = {
+    pending: 'warning',
+    partial: 'primary',
+    paid: 'success'
+};
+
+interface StatusCarrier {
+    isPaid?: boolean;
+    is_paid?: boolean;
+    amountPaid?: number;
+    amount_paid?: number;
+    clinicalStatus?: ClinicalStatusValue;
+    clinical_status?: ClinicalStatusValue;
+}
+
+/**
+ * Status de pagamento de um agendamento (entidade ou JSON do banco)
+ */
+export function getPaymentStatus(appointment: StatusCarrier): PaymentStatusValue {
+    if (appointment.isPaid ?? appointment.is_paid) {
+        return 'paid';
+    }
+    return Number(appointment.amountPaid ?? appointment.amount_paid ?? 0) > 0 ? 'partial' : 'pending';
+}
+
+/**
+ * Status clínico de um agendamento (entidade ou JSON do banco)
+ */
+export function getClinicalStatus(appointment: StatusCarrier): ClinicalStatusValue {
+    return appointment.clinicalStatus ?? appointment.clinical_status ?? 'scheduled';
+}
+
+/**
+ * Filtros de banco para um status de pagamento (parcial = não quitado com valor pago)
+ */
+export function paymentStatusColumns(paymentStatus: PaymentStatusFilter): Record<string, unknown> {
+    switch (paymentStatus) {
+        case 'paid':
+            return { is_paid: true };
+        case 'partial':
+            return { is_paid: false, amount_paid: { gt: 0 } };
+        case 'pending':
+            return { is_paid: false, amount_paid: 0 };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Filtros de banco correspondentes aos filtros de status selecionados
+ */
+export function buildStatusFilters(
+    paymentStatus: PaymentStatusFilter,
+    clinicalStatus: ClinicalStatusFilter
+): Record<string, unknown> {
+    const filters: Record<string, unknown> = {};
+    Object.assign(filters, paymentStatusColumns(paymentStatus));
+    if (clinicalStatus !== 'all') {
+        filters.clinical_status = clinicalStatus;
+    }
+    return filters;
+}
+
+/**
+ * Verifica se um agendamento atende aos filtros de status selecionados
+ */
+export function matchesStatusFilters(
+    appointment: StatusCarrier,
+    paymentStatus: PaymentStatusFilter,
+    clinicalStatus: ClinicalStatusFilter
+): boolean {
+    return (
+        (paymentStatus === 'all' || getPaymentStatus(appointment) === paymentStatus) &&
+        (clinicalStatus === 'all' || getClinicalStatus(appointment) === clinicalStatus)
+    );
+}
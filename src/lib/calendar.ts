@@ -0,0 +1,108 @@
+/**
+ * Utilitários de datas para a agenda (visões dia / semana / mês)
+ * Todas as datas são tratadas no timezone local para evitar deslocamentos de um dia
+ */
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export interface CalendarRange {
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Converte Date para 'YYYY-MM-DD' usando valores locais
+ */
+export function toISODate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Converte 'YYYY-MM-DD' para Date no timezone local
+ */
+export function parseISODate(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Soma dias a uma data sem alterar a original
+ */
+export function addDays(date: Date, days: number): Date {
+    const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+/**
+ * Início da semana (segunda-feira)
+ */
+export function startOfWeek(date: Date): Date {
+    const weekday = (date.getDay() + 6) % 7; // 0 = segunda
+    return addDays(date, -weekday);
+}
+
+/**
+ * Verifica se duas datas caem no mesmo dia
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+    return toISODate(a) === toISODate(b);
+}
+
+/**
+ * Intervalo de datas visível para uma visão da agenda
+ * Na visão mensal, o intervalo cobre semanas completas (segunda a domingo)
+ */
+export function getVisibleRange(view: CalendarView, anchor: Date): CalendarRange {
+    if (view === 'day') {
+        const day = addDays(anchor, 0);
+        return { start: day, end: day };
+    }
+
+    if (view === 'week') {
+        const start = startOfWeek(anchor);
+        return { start, end: addDays(start, 6) };
+    }
+
+    const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+    const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    const start = startOfWeek(firstOfMonth);
+    const end = addDays(startOfWeek(lastOfMonth), 6);
+    return { start, end };
+}
+
+/**
+ * Lista os dias de um intervalo (inclusivo)
+ */
+export function getDaysInRange(range: CalendarRange): Date[] {
+    const days: Date[] = [];
+    for (let day = range.start; day <= range.end; day = addDays(day, 1)) {
+        days.push(day);
+    }
+    return days;
+}
+
+/**
+ * Avança ou retrocede a data âncora conforme a visão
+ */
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+    if (view === 'day') {
+        return addDays(anchor, direction);
+    }
+    if (view === 'week') {
+        return addDays(anchor, 7 * direction);
+    }
+    return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+}
+
+/**
+ * Converte minutos desde a meia-noite para 'HH:mm'
+ */
+export function minutesToTime(totalMinutes: number): string {
+    const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+    const minutes = String(totalMinutes % 60).padStart(2, '0');
+    return `${hours}:${minutes}`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Histórico clínico completo do paciente (PDF), para cartas de encaminhamento
+ * Imprime a linha do tempo clínica, com os filtros aplicados na tela
+ */
+import jsPDF from 'jspdf';
+import { TIMELINE_EVENT_LABELS, TimelineEvent } from './clinicalTimeline';
+import { formatTeeth } from './teeth';
+import { fileNameSlug, formatCPF, formatDate, formatTime } from './utils';
+
+export interface ClinicalHistoryData {
+    patient: {
+        name: string;
+        cpf?: string | null;
+        birthDate?: string | null;
+    };
+    events: TimelineEvent[];
+    /** Resumo dos filtros aplicados (null quando o histórico está completo) */
+    filtersDescription?: string | null;
+}
+
+export interface ClinicalHistorySection {
+    title: string;
+    lines: string[];
+}
+
+/**
+ * Monta as seções do histórico, do evento mais antigo para o mais recente
+ * Separado da renderização para permitir testes sem gerar o PDF
+ */
+export function buildClinicalHistory(events: TimelineEvent[]): ClinicalHistorySection[] {
+    return [...events].reverse().map(event => ({
+        title: [
+            formatDate(event.date),
+            event.time ? formatTime(event.time) : null,
+            TIMELINE_EVENT_LABELS[event.type],
+            event.title
+        ].filter(Boolean).join(' • '),
+        lines: [
+            ...event.details,
+            event.teeth.length > 0 ? `Dentes: ${formatTeeth(event.teeth)}` : null,
+            event.clinicName ? `Clínica: ${event.clinicName}` : null
+        ].filter((line): line is string => Boolean(line))
+    }));
+}
+
+/**
+ * Gera e baixa o PDF do histórico clínico
+ */
+export function exportClinicalHistoryPdf(data: ClinicalHistoryData): void {
+    const doc = new jsPDF();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const maxWidth = doc.internal.pageSize.getWidth() - 40;
+    let y = 20;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - 20) {
+            doc.addPage();
+            y = 20;
+        }
+    };
+
+    doc.setFontSize(18);
+    doc.text('Histórico clínico', 20, y);
+    y += 10;
+    doc.setFontSize(12);
+    doc.text(`Paciente: ${data.patient.name}`, 20, y);
+    y += 7;
+    const identification = [
+        data.patient.cpf ? `CPF: ${formatCPF(data.patient.cpf)}` : null,
+        data.patient.birthDate ? `Nascimento: ${formatDate(data.patient.birthDate)}` : null
+    ].filter(Boolean).join('   ');
+    if (identification) {
+        doc.text(identification, 20, y);
+        y += 7;
+    }
+    doc.text(`Emitido em: ${formatDate(new Date())}`, 20, y);
+    y += 7;
+    if (data.filtersDescription) {
+        doc.setFontSize(10);
+        const wrapped: string[] = doc.splitTextToSize(`Filtros: ${data.filtersDescription}`, maxWidth);
+        doc.text(wrapped, 20, y);
+        y += wrapped.length * 5;
+    }
+    y += 5;
+
+    const sections = buildClinicalHistory(data.events);
+    if (sections.length === 0) {
+        doc.setFontSize(12);
+        doc.text('Nenhum registro encontrado.', 20, y);
+    }
+
+    sections.forEach(section => {
+        doc.setFontSize(11);
+        doc.setFont('helvetica', 'bold');
+        const title: string[] = doc.splitTextToSize(section.title, maxWidth);
+        ensureSpace(title.length * 6 + 8);
+        doc.text(title, 20, y);
+        y += title.length * 6;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(10);
+        section.lines.forEach(line => {
+            const wrapped: string[] = doc.splitTextToSize(line, maxWidth - 5);
+            ensureSpace(wrapped.length * 5);
+            doc.text(wrapped, 25, y);
+            y += wrapped.length * 5;
+        });
+        y += 4;
+    });
+
+    doc.save(`historico_clinico_${fileNameSlug(data.patient.name) || 'paciente'}_${new Date().toISOString().split('T')[0]}.pdf`);
+}
@@ -0,0 +1,283 @@
+/**
+ * Linha do tempo clínica do paciente
+ * Intercala atendimentos, evoluções, radiografias, pagamentos e documentos em ordem cronológica
+ */
+import type { Payment, PaymentMethod } from '../domain/entities/Payment';
+import type { EndodonticRecord } from '../domain/entities/EndodonticRecord';
+import type { ConsentDocument } from '../domain/entities/ConsentDocument';
+import type { AnamnesisRecord } from '../domain/entities/AnamnesisRecord';
+import { CONSENT_KIND_LABELS } from './consent';
+import { endodonticRecordLines } from './endodontics';
+import { formatCurrency, stripHTML } from './utils';
+
+export const TIMELINE_EVENT_TYPES = ['appointment', 'evolution', 'radiograph', 'payment', 'document'] as const;
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number];
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+    appointment: 'Atendimentos',
+    evolution: 'Evoluções clínicas',
+    radiograph: 'Radiografias',
+    payment: 'Pagamentos',
+    document: 'Documentos'
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    cash: 'Dinheiro',
+    pix: 'PIX',
+    credit_card: 'Cartão de crédito',
+    debit_card: 'Cartão de débito',
+    bank_transfer: 'Transferência',
+    insurance: 'Convênio',
+    other: 'Outro'
+};
+
+export interface TimelineAppointment {
+    id: string;
+    date: string;
+    time?: string | null;
+    procedure: string;
+    teeth?: number[];
+    notes?: string | null;
+    clinical_evolution?: string | null;
+    clinics?: { id?: string; name?: string } | null;
+}
+
+export interface TimelineRadiograph {
+    id: string;
+    file_url?: string | null;
+    file_name?: string | null;
+    teeth?: number[];
+    created_at?: string;
+    appointment?: { id: string } | null;
+}
+
+export interface ClinicalTimelineData {
+    appointments: TimelineAppointment[];
+    radiographs: TimelineRadiograph[];
+    payments: Payment[];
+    endodonticRecords: EndodonticRecord[];
+    consents: ConsentDocument[];
+    anamnesis: AnamnesisRecord[];
+}
+
+export interface TimelineEvent {
+    id: string;
+    type: TimelineEventType;
+    /** Data do evento (YYYY-MM-DD) */
+    date: string;
+    /** Horário (HH:mm); null quando só a data é conhecida */
+    time: string | null;
+    title: string;
+    details: string[];
+    teeth: number[];
+    clinicId: string | null;
+    clinicName: string | null;
+    fileUrl: string | null;
+}
+
+export interface TimelineFilters {
+    types: TimelineEventType[];
+    tooth: number | null;
+    clinicId: string | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Data e horário locais de um timestamp
+ */
+function localDateTime(value: string | Date): { date: string; time: string } {
+    const date = new Date(value);
+    return {
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}:${pad(date.getMinutes())}`
+    };
+}
+
+/**
+ * Chave de ordenação; eventos sem horário ficam no fim do dia
+ */
+const sortKey = (event: TimelineEvent) => `${event.date}T${event.time ?? '23:59'}`;
+
+/**
+ * Monta a linha do tempo do paciente, do evento mais recente para o mais antigo
+ * ✅ Radiografias, pagamentos e termos herdam a clínica do atendimento vinculado
+ */
+export function buildClinicalTimeline(data: ClinicalTimelineData): TimelineEvent[] {
+    const appointments = new Map(data.appointments.map(appointment => [appointment.id, appointment]));
+    const clinicOf = (appointmentId: string | null | undefined) => {
+        const clinic = appointmentId ? appointments.get(appointmentId)?.clinics : null;
+        return { clinicId: clinic?.id ?? null, clinicName: clinic?.name ?? null };
+    };
+
+    const recordsByAppointment = new Map<string, EndodonticRecord[]>();
+    data.endodonticRecords.forEach(record => {
+        recordsByAppointment.set(record.appointmentId, [...(recordsByAppointment.get(record.appointmentId) ?? []), record]);
+    });
+
+    const events: TimelineEvent[] = [];
+
+    data.appointments.forEach(appointment => {
+        const teeth = appointment.teeth ?? [];
+        const time = appointment.time ? appointment.time.slice(0, 5) : null;
+        events.push({
+            id: `appointment-${appointment.id}`,
+            type: 'appointment',
+            date: appointment.date,
+            time,
+            title: appointment.procedure,
+            details: appointment.notes?.trim() ? [appointment.notes.trim()] : [],
+            teeth,
+            ...clinicOf(appointment.id),
+            fileUrl: null
+        });
+
+        const records = recordsByAppointment.get(appointment.id) ?? [];
+        const details = records.flatMap(record => {
+            const lines = endodonticRecordLines(record);
+            return lines.length > 0 ? [`Dente ${record.tooth}`, ...lines] : [];
+        });
+        if (appointment.clinical_evolution && stripHTML(appointment.clinical_evolution)) {
+            details.push(`Evolução: ${stripHTML(appointment.clinical_evolution)}`);
+        }
+        if (details.length > 0) {
+            events.push({
+                id: `evolution-${appointment.id}`,
+                type: 'evolution',
+                date: appointment.date,
+                time,
+                title: `Evolução clínica — ${appointment.procedure}`,
+                details,
+                teeth: [...new Set([...teeth, ...records.map(record => record.tooth)])],
+                ...clinicOf(appointment.id),
+                fileUrl: null
+            });
+        }
+    });
+
+    data.radiographs.forEach(radiograph => {
+        const appointment = radiograph.appointment ? appointments.get(radiograph.appointment.id) : undefined;
+        // A data clínica da radiografia é a do atendimento; sem vínculo, a do envio
+        const when = appointment
+            ? { date: appointment.date, time: appointment.time ? appointment.time.slice(0, 5) : null }
+            : radiograph.created_at ? localDateTime(radiograph.created_at) : null;
+        if (!when) return;
+
+        events.push({
+            id: `radiograph-${radiograph.id}`,
+            type: 'radiograph',
+            ...when,
+            title: radiograph.file_name || 'Radiografia',
+            details: appointment ? [`Atendimento: ${appointment.procedure}`] : [],
+            teeth: radiograph.teeth ?? [],
+            ...clinicOf(appointment?.id),
+            fileUrl: radiograph.file_url ?? null
+        });
+    });
+
+    // Só pagamentos recebidos: parcelas em aberto não são eventos do histórico
+    data.payments.filter(payment => payment.isPaid && payment.paidDate).forEach(payment => {
+        const appointment = appointments.get(payment.appointmentId);
+        const installment = payment.installmentNumber && payment.installmentCount
+            ? `Parcela ${payment.installmentNumber}/${payment.installmentCount}`
+            : null;
+
+        events.push({
+            id: `payment-${payment.id}`,
+            type: 'payment',
+            date: payment.paidDate as string,
+            time: null,
+            title: `Pagamento recebido — ${formatCurrency(payment.amount.amount, payment.amount.currency)}`,
+            details: [
+                [payment.method ? PAYMENT_METHOD_LABELS[payment.method] : null, installment].filter(Boolean).join(' • '),
+                appointment ? `Atendimento: ${appointment.procedure}` : '',
+                payment.notes ?? ''
+            ].filter(Boolean),
+            teeth: appointment?.teeth ?? [],
+            ...clinicOf(payment.appointmentId),
+            fileUrl: null
+        });
+    });
+
+    data.consents.forEach(consent => {
+        events.push({
+            id: `consent-${consent.id}`,
+            type: 'document',
+            ...localDateTime(consent.signedAt),
+            title: consent.title,
+            details: [
+                `${CONSENT_KIND_LABELS[consent.kind]} — ${consent.procedure}`,
+                `Assinado por ${consent.signerName}`
+            ],
+            teeth: consent.teeth,
+            ...clinicOf(consent.appointmentId),
+            fileUrl: consent.fileUrl
+        });
+    });
+
+    data.anamnesis.forEach(record => {
+        events.push({
+            id: `anamnesis-${record.id}`,
+            type: 'document',
+            ...localDateTime(record.createdAt),
+            title: `Anamnese (versão ${record.version})`,
+            details: [
+                record.hasAlerts
+                    ? `Alertas: ${record.alerts.map(alert => alert.details ? `${alert.label} (${alert.details})` : alert.label).join('; ')}`
+                    : 'Sem alertas clínicos',
+                ...(record.notes ? [`Observações: ${record.notes}`] : [])
+            ],
+            teeth: [],
+            clinicId: null,
+            clinicName: null,
+            fileUrl: null
+        });
+    });
+
+    return events.sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+}
+
+/**
+ * Aplica os filtros de tipo, dente e clínica
+ * Com dente ou clínica selecionados, eventos sem dente ou sem clínica ficam de fora
+ */
+export function filterClinicalTimeline(events: TimelineEvent[], filters: TimelineFilters): TimelineEvent[] {
+    return events.filter(event =>
+        filters.types.includes(event.type)
+        && (filters.tooth === null || event.teeth.includes(filters.tooth))
+        && (filters.clinicId === null || event.clinicId === filters.clinicId)
+    );
+}
+
+/**
+ * Dentes e clínicas presentes na linha do tempo (opções dos filtros)
+ */
+export function timelineFilterOptions(events: TimelineEvent[]): {
+    teeth: number[];
+    clinics: Array<{ id: string; name: string }>;
+} {
+    const clinics = new Map<string, string>();
+    events.forEach(event => {
+        if (event.clinicId) clinics.set(event.clinicId, event.clinicName || event.clinicId);
+    });
+
+    return {
+        teeth: [...new Set(events.flatMap(event => event.teeth))].sort((a, b) => a - b),
+        clinics: [...clinics].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name))
+    };
+}
+
+/**
+ * Resumo dos filtros aplicados, para o cabeçalho do histórico impresso (null sem filtros)
+ */
+export function describeTimelineFilters(filters: TimelineFilters, clinicName?: string | null): string | null {
+    const parts = [
+        filters.types.length < TIMELINE_EVENT_TYPES.length
+            ? filters.types.map(type => TIMELINE_EVENT_LABELS[type]).join(', ')
+            : null,
+        filters.tooth !== null ? `Dente ${filters.tooth}` : null,
+        filters.clinicId !== null ? `Clínica ${clinicName || filters.clinicId}` : null
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(' • ') : null;
+}
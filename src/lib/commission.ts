@@ -0,0 +1,67 @@
+/**
+ * Regras de comissão no formulário
+ * Conversão entre a regra da clínica e os campos de pagamento do agendamento / cadastro de regra
+ */
+import type { CommissionRule } from '../domain/entities/CommissionRule';
+import type { PaymentTypeValue } from '../domain/value-objects/PaymentType';
+
+export interface CommissionPaymentFields {
+    payment_type: string;
+    payment_percentage: string;
+    payment_fixed_amount: string;
+}
+
+export interface CommissionRuleFormState {
+    procedure: string;
+    paymentType: PaymentTypeValue;
+    paymentPercentage: string;
+    paymentFixedAmount: string;
+    effectiveFrom: string;
+    notes: string;
+}
+
+export const emptyCommissionRuleForm = (effectiveFrom: string): CommissionRuleFormState => ({
+    procedure: '',
+    paymentType: 'percentage',
+    paymentPercentage: '',
+    paymentFixedAmount: '',
+    effectiveFrom,
+    notes: ''
+});
+
+/**
+ * Campos de pagamento do agendamento preenchidos pela regra
+ */
+export function commissionRuleToPaymentFields(rule: CommissionRule): CommissionPaymentFields {
+    return {
+        payment_type: rule.paymentType.type,
+        payment_percentage: rule.paymentType.percentage !== null ? String(rule.paymentType.percentage) : '',
+        payment_fixed_amount: rule.paymentType.fixedAmount !== null ? String(rule.paymentType.fixedAmount) : ''
+    };
+}
+
+/**
+ * O formulário ainda está com os valores da regra (não foi ajustado à mão)
+ */
+export function paymentFieldsMatchRule(fields: CommissionPaymentFields, rule: CommissionRule): boolean {
+    const expected = commissionRuleToPaymentFields(rule);
+    const sameNumber = (a: string, b: string) => (a.trim() === '' && b === '') || parseFloat(a) === parseFloat(b);
+    return fields.payment_type === expected.payment_type &&
+        (expected.payment_type !== 'percentage' || sameNumber(fields.payment_percentage, expected.payment_percentage)) &&
+        (expected.payment_type !== 'fixed' || sameNumber(fields.payment_fixed_amount, expected.payment_fixed_amount));
+}
+
+/**
+ * Converte o formulário no DTO de nova versão de regra
+ */
+export function commissionRuleFormToDTO(clinicId: string, form: CommissionRuleFormState) {
+    return {
+        clinicId,
+        procedure: form.procedure.trim() || null,
+        paymentType: form.paymentType,
+        paymentPercentage: form.paymentType === 'percentage' ? parseFloat(form.paymentPercentage.replace(',', '.')) : null,
+        paymentFixedAmount: form.paymentType === 'fixed' ? parseFloat(form.paymentFixedAmount.replace(',', '.')) : null,
+        effectiveFrom: form.effectiveFrom,
+        notes: form.notes.trim() || null
+    };
+}
@@ -0,0 +1,89 @@
+/**
+ * Helpers dos termos de consentimento (marcadores, formulários e rótulos)
+ */
+import type { ConsentKind, ConsentPlaceholder, ConsentTemplate } from '../domain/entities/ConsentTemplate';
+import { formatCPF, formatDate } from './utils';
+import { formatTeeth, parseTeethInput } from './teeth';
+import { isMinorBirthDate } from './patientRegistry';
+
+export const CONSENT_KIND_LABELS: Record<ConsentKind, string> = {
+    endodontic: 'Tratamento endodôntico',
+    surgery: 'Cirurgia'
+};
+
+/** Dados do paciente usados no termo (entidade ou objeto da página) */
+export interface ConsentPatient {
+    name: string;
+    cpf?: string | null;
+    birthDate?: string | null;
+    guardian?: { name: string } | null;
+}
+
+export interface ConsentPlaceholderInput {
+    patient: ConsentPatient;
+    signerName: string;
+    procedure: string;
+    teeth: number[];
+    /** Data da assinatura */
+    date: Date;
+}
+
+export interface ConsentSignFormState {
+    templateId: string;
+    appointmentId: string;
+    procedure: string;
+    teeth: string;
+    signerName: string;
+}
+
+export interface ConsentTemplateFormState {
+    id: string;
+    kind: ConsentKind;
+    title: string;
+    body: string;
+}
+
+/**
+ * Valores dos marcadores do termo
+ * Campos ausentes aparecem como "—" para não deixar lacunas no documento
+ */
+export function consentPlaceholderValues({ patient, signerName, procedure, teeth, date }: ConsentPlaceholderInput): Record<ConsentPlaceholder, string> {
+    return {
+        paciente: patient.name,
+        cpf: patient.cpf ? formatCPF(patient.cpf) : '—',
+        responsavel: signerName.trim() || patient.name,
+        procedimento: procedure.trim(),
+        dentes: formatTeeth(teeth) || '—',
+        data: formatDate(date)
+    };
+}
+
+/**
+ * Quem assina por padrão: o responsável legal de pacientes menores, senão o próprio paciente
+ */
+export function defaultSignerName(patient: ConsentPatient): string {
+    return patient.guardian && patient.birthDate && isMinorBirthDate(patient.birthDate) ? patient.guardian.name : patient.name;
+}
+
+/**
+ * Formulário de edição de um modelo de termo
+ */
+export function consentTemplateToForm(template: ConsentTemplate): ConsentTemplateFormState {
+    return { id: template.id, kind: template.kind, title: template.title, body: template.body };
+}
+
+/**
+ * Converte o formulário de assinatura no DTO do termo
+ * Dentes inválidos são ignorados aqui; o formulário avisa antes de enviar
+ */
+export function consentFormToDTO(patientId: string, form: ConsentSignFormState, signatureDataUrl: string | null) {
+    return {
+        patientId,
+        appointmentId: form.appointmentId || null,
+        templateId: form.templateId,
+        procedure: form.procedure.trim(),
+        teeth: parseTeethInput(form.teeth).teeth,
+        signerName: form.signerName.trim(),
+        signatureDataUrl: signatureDataUrl ?? ''
+    };
+}
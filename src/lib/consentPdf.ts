@@ -0,0 +1,88 @@
+/**
+ * Termo de consentimento assinado (PDF)
+ * Texto do termo + imagem da assinatura capturada na tela, nome de quem assinou e data/hora
+ */
+import jsPDF from 'jspdf';
+import { fileNameSlug, formatDate } from './utils';
+
+export interface ConsentPdfData {
+    title: string;
+    /** Texto do termo já com os marcadores substituídos */
+    content: string;
+    patientName: string;
+    signerName: string;
+    signedAt: Date;
+    /** Assinatura em data URL PNG (SignaturePad) */
+    signatureDataUrl: string;
+}
+
+const SIGNATURE_WIDTH = 70;
+const SIGNATURE_HEIGHT = 25;
+
+/**
+ * Parágrafos do termo (separados por linha em branco)
+ */
+export function consentParagraphs(content: string): string[] {
+    return content
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+        .filter(Boolean);
+}
+
+/**
+ * Nome do arquivo do termo assinado
+ * Ex.: termo_consentimento_maria_silva_2030-01-31.pdf
+ */
+export function consentFileName(patientName: string, signedAt: Date): string {
+    return `termo_consentimento_${fileNameSlug(patientName) || 'paciente'}_${signedAt.toISOString().split('T')[0]}.pdf`;
+}
+
+/**
+ * Gera o PDF do termo assinado
+ * @returns Bytes do PDF (o hash é calculado sobre estes bytes)
+ */
+export function renderConsentPdf(data: ConsentPdfData): ArrayBuffer {
+    const doc = new jsPDF();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const maxWidth = doc.internal.pageSize.getWidth() - 40;
+    let y = 20;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - 20) {
+            doc.addPage();
+            y = 20;
+        }
+    };
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    const title: string[] = doc.splitTextToSize(data.title, maxWidth);
+    doc.text(title, 20, y);
+    y += title.length * 7 + 5;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    consentParagraphs(data.content).forEach(paragraph => {
+        const wrapped: string[] = doc.splitTextToSize(paragraph, maxWidth);
+        ensureSpace(wrapped.length * 5.5);
+        doc.text(wrapped, 20, y);
+        y += wrapped.length * 5.5 + 4;
+    });
+
+    ensureSpace(SIGNATURE_HEIGHT + 25);
+    y += 6;
+    doc.addImage(data.signatureDataUrl, 'PNG', 20, y, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    y += SIGNATURE_HEIGHT + 2;
+    doc.line(20, y, 20 + SIGNATURE_WIDTH + 30, y);
+    y += 6;
+    doc.setFontSize(10);
+    doc.text(data.signerName, 20, y);
+    y += 5;
+    if (data.signerName !== data.patientName) {
+        doc.text(`Responsável por: ${data.patientName}`, 20, y);
+        y += 5;
+    }
+    doc.text(`Assinado eletronicamente em ${formatDate(data.signedAt)} às ${data.signedAt.toTimeString().slice(0, 5)}`, 20, y);
+
+    return doc.output('arraybuffer');
+}
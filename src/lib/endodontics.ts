@@ -0,0 +1,156 @@
+/**
+ * Apresentação da ficha endodôntica
+ * Rótulos dos diagnósticos e conversão entre o formulário e o DTO do serviço
+ */
+import type {
+    EndodonticRecord,
+    PulpalDiagnosis,
+    PeriapicalDiagnosis,
+    RootCanal
+} from '../domain/entities/EndodonticRecord';
+
+export const PULPAL_DIAGNOSIS_LABELS: Record<PulpalDiagnosis, string> = {
+    normal: 'Polpa normal',
+    reversible_pulpitis: 'Pulpite reversível',
+    symptomatic_irreversible_pulpitis: 'Pulpite irreversível sintomática',
+    asymptomatic_irreversible_pulpitis: 'Pulpite irreversível assintomática',
+    pulp_necrosis: 'Necrose pulpar',
+    previously_treated: 'Previamente tratado',
+    previously_initiated: 'Terapia previamente iniciada'
+};
+
+export const PERIAPICAL_DIAGNOSIS_LABELS: Record<PeriapicalDiagnosis, string> = {
+    normal: 'Tecidos apicais normais',
+    symptomatic_apical_periodontitis: 'Periodontite apical sintomática',
+    asymptomatic_apical_periodontitis: 'Periodontite apical assintomática',
+    acute_apical_abscess: 'Abscesso apical agudo',
+    chronic_apical_abscess: 'Abscesso apical crônico',
+    condensing_osteitis: 'Osteíte condensante'
+};
+
+export interface CanalFormRow {
+    name: string;
+    workingLength: string;
+    apicalSize: string;
+    reference: string;
+}
+
+/**
+ * Estado do formulário da ficha endodôntica (valores como texto)
+ * Listas (irrigantes, medicações) são digitadas separadas por vírgula
+ */
+export interface EndodonticFormState {
+    tooth: string;
+    canals: CanalFormRow[];
+    fileSystem: string;
+    irrigants: string;
+    obturationTechnique: string;
+    pulpalDiagnosis: PulpalDiagnosis | '';
+    periapicalDiagnosis: PeriapicalDiagnosis | '';
+    medications: string;
+    notes: string;
+}
+
+export const EMPTY_CANAL_ROW: CanalFormRow = { name: '', workingLength: '', apicalSize: '', reference: '' };
+
+export function emptyEndodonticForm(tooth: number | null = null): EndodonticFormState {
+    return {
+        tooth: tooth ? String(tooth) : '',
+        canals: [{ ...EMPTY_CANAL_ROW }],
+        fileSystem: '',
+        irrigants: '',
+        obturationTechnique: '',
+        pulpalDiagnosis: '',
+        periapicalDiagnosis: '',
+        medications: '',
+        notes: ''
+    };
+}
+
+/**
+ * Preenche o formulário a partir de um registro existente
+ */
+export function endodonticRecordToForm(record: EndodonticRecord): EndodonticFormState {
+    return {
+        tooth: String(record.tooth),
+        canals: record.canals.length > 0
+            ? record.canals.map(canal => ({
+                name: canal.name,
+                workingLength: canal.workingLength !== null ? String(canal.workingLength) : '',
+                apicalSize: canal.apicalSize !== null ? String(canal.apicalSize) : '',
+                reference: canal.reference || ''
+            }))
+            : [{ ...EMPTY_CANAL_ROW }],
+        fileSystem: record.fileSystem || '',
+        irrigants: record.irrigants.join(', '),
+        obturationTechnique: record.obturationTechnique || '',
+        pulpalDiagnosis: record.pulpalDiagnosis || '',
+        periapicalDiagnosis: record.periapicalDiagnosis || '',
+        medications: record.medications.join(', '),
+        notes: record.notes || ''
+    };
+}
+
+const splitList = (value: string): string[] =>
+    value.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+
+const toNumber = (value: string): number | null => {
+    const normalized = value.trim().replace(',', '.');
+    return normalized ? Number(normalized) : null;
+};
+
+/**
+ * Converte o formulário no DTO aceito pelo EndodonticRecordService
+ * Linhas de canal sem identificação são ignoradas
+ */
+export function endodonticFormToDTO(form: EndodonticFormState) {
+    return {
+        canals: form.canals
+            .filter(canal => canal.name.trim())
+            .map(canal => ({
+                name: canal.name.trim(),
+                workingLength: toNumber(canal.workingLength),
+                apicalSize: toNumber(canal.apicalSize),
+                reference: canal.reference.trim() || null
+            })),
+        fileSystem: form.fileSystem.trim() || null,
+        irrigants: splitList(form.irrigants),
+        obturationTechnique: form.obturationTechnique.trim() || null,
+        pulpalDiagnosis: form.pulpalDiagnosis || null,
+        periapicalDiagnosis: form.periapicalDiagnosis || null,
+        medications: splitList(form.medications),
+        notes: form.notes.trim() || null
+    };
+}
+
+/**
+ * Resumo de um canal em uma linha (ex.: "MV • CT 21 mm • #35 • ref. cúspide MV")
+ */
+export function formatCanal(canal: RootCanal): string {
+    return [
+        canal.name,
+        canal.workingLength !== null ? `CT ${canal.workingLength} mm` : null,
+        canal.apicalSize !== null ? `#${canal.apicalSize}` : null,
+        canal.reference ? `ref. ${canal.reference}` : null
+    ].filter(Boolean).join(' • ');
+}
+
+/**
+ * Linhas da ficha endodôntica de um atendimento
+ */
+export function endodonticRecordLines(record: EndodonticRecord): string[] {
+    const lines: string[] = [];
+    if (record.pulpalDiagnosis || record.periapicalDiagnosis) {
+        lines.push(`Diagnóstico: ${[
+            record.pulpalDiagnosis ? PULPAL_DIAGNOSIS_LABELS[record.pulpalDiagnosis] : null,
+            record.periapicalDiagnosis ? PERIAPICAL_DIAGNOSIS_LABELS[record.periapicalDiagnosis] : null
+        ].filter(Boolean).join(' / ')}`);
+    }
+    record.canals.forEach(canal => lines.push(`Canal ${formatCanal(canal)}`));
+    if (record.fileSystem) lines.push(`Sistema de limas: ${record.fileSystem}`);
+    if (record.irrigants.length > 0) lines.push(`Irrigantes: ${record.irrigants.join(', ')}`);
+    if (record.obturationTechnique) lines.push(`Obturação: ${record.obturationTechnique}`);
+    if (record.medications.length > 0) lines.push(`Medicações: ${record.medications.join(', ')}`);
+    if (record.notes) lines.push(`Observações: ${record.notes}`);
+    return lines;
+}
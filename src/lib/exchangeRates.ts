@@ -0,0 +1,112 @@
+/**
+ * Tabela de cotações no formulário e na importação de arquivo
+ * Conversão entre os campos da tela / linhas do CSV e o DTO aceito pelo ExchangeRateService
+ */
+import { CURRENCIES, type Currency } from '../domain/value-objects/Money';
+import type { AppliedRate } from '../domain/services/ExchangeRateDomainService';
+
+export interface ExchangeRateFormState {
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    rate: string;
+    date: string;
+}
+
+export interface ExchangeRateRow {
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    rate: number;
+    date: string;
+}
+
+export interface ExchangeRateFileResult {
+    rows: ExchangeRateRow[];
+    /** Linhas ignoradas (número da linha no arquivo e motivo) */
+    errors: string[];
+}
+
+export const emptyExchangeRateForm = (date: string, toCurrency: Currency = 'BRL'): ExchangeRateFormState => ({
+    fromCurrency: toCurrency === 'USD' ? 'EUR' : 'USD',
+    toCurrency,
+    rate: '',
+    date
+});
+
+/**
+ * Aceita número com vírgula ou ponto decimal ("5,1234" ou "5.1234")
+ */
+const parseRate = (value: string): number => parseFloat(value.trim().replace(',', '.'));
+
+/**
+ * Aceita datas YYYY-MM-DD ou DD/MM/YYYY
+ */
+function parseDate(value: string): string | null {
+    const trimmed = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+        return trimmed;
+    }
+    const match = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    return match ? `${match[3]}-${match[2]}-${match[1]}` : null;
+}
+
+const isCurrency = (value: string): value is Currency => CURRENCIES.includes(value as Currency);
+
+/**
+ * Converte o formulário no DTO de cotação
+ */
+export function exchangeRateFormToDTO(form: ExchangeRateFormState) {
+    return {
+        fromCurrency: form.fromCurrency,
+        toCurrency: form.toCurrency,
+        rate: parseRate(form.rate),
+        date: form.date,
+        source: 'manual' as const
+    };
+}
+
+/**
+ * Lê um arquivo CSV de cotações com as colunas data, moeda de origem, moeda de destino, cotação
+ * ✅ Aceita "," ou ";" como separador e ignora a linha de cabeçalho
+ * @example "2026-10-01;USD;BRL;5,4321"
+ */
+export function parseExchangeRateFile(content: string): ExchangeRateFileResult {
+    const rows: ExchangeRateRow[] = [];
+    const errors: string[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        const columns = line.split(line.includes(';') ? ';' : ',').map(column => column.trim());
+        if (index === 0 && !parseDate(columns[0] ?? '')) {
+            return; // cabeçalho
+        }
+
+        const [dateColumn = '', from = '', to = '', rateColumn = ''] = columns;
+        const date = parseDate(dateColumn);
+        const fromCurrency = from.toUpperCase();
+        const toCurrency = to.toUpperCase();
+        const rate = parseRate(rateColumn);
+
+        if (!date) {
+            errors.push(`Linha ${index + 1}: data inválida`);
+        } else if (!isCurrency(fromCurrency) || !isCurrency(toCurrency) || fromCurrency === toCurrency) {
+            errors.push(`Linha ${index + 1}: par de moedas inválido`);
+        } else if (!Number.isFinite(rate) || rate <= 0) {
+            errors.push(`Linha ${index + 1}: cotação inválida`);
+        } else {
+            rows.push({ fromCurrency, toCurrency, rate, date });
+        }
+    });
+
+    return { rows, errors };
+}
+
+/**
+ * Descrição da cotação usada em um total, ex.: "1 USD = 5,4321 BRL (01/10/2026)"
+ */
+export function formatAppliedRate(rate: AppliedRate, locale: string = 'pt-BR'): string {
+    const value = rate.rate.toLocaleString(locale, { maximumFractionDigits: 4 });
+    const [year, month, day] = rate.date.split('-');
+    return `1 ${rate.fromCurrency} = ${value} ${rate.toCurrency} (${day}/${month}/${year})`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Despesas no formulário
+ * Conversão entre os campos da tela e o DTO aceito pelo ExpenseService
+ */
+import type { Currency } from '../domain/value-objects/Money';
+import type { ExpenseCategory } from '../domain/entities/Expense';
+import type { RecurrenceFrequency } from '../domain/value-objects/RecurrenceRule';
+
+export interface ExpenseFormState {
+    category: ExpenseCategory;
+    description: string;
+    amount: string;
+    currency: Currency;
+    date: string;
+    clinicId: string;
+    procedure: string;
+    recurrence: RecurrenceFrequency | '';
+    recurrenceUntil: string;
+}
+
+export const emptyExpenseForm = (date: string, currency: Currency = 'BRL'): ExpenseFormState => ({
+    category: 'material',
+    description: '',
+    amount: '',
+    currency,
+    date,
+    clinicId: '',
+    procedure: '',
+    recurrence: '',
+    recurrenceUntil: ''
+});
+
+/**
+ * Converte o formulário no DTO de nova despesa
+ */
+export function expenseFormToDTO(form: ExpenseFormState) {
+    return {
+        category: form.category,
+        description: form.description.trim(),
+        amount: parseFloat(form.amount.replace(',', '.')),
+        currency: form.currency,
+        date: form.date,
+        clinicId: form.clinicId || null,
+        procedure: form.procedure.trim() || null,
+        recurrence: form.recurrence || null,
+        recurrenceUntil: form.recurrence && form.recurrenceUntil ? form.recurrenceUntil : null
+    };
+}
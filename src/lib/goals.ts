@@ -0,0 +1,36 @@
+/**
+ * Helpers dos formulários de metas mensais
+ * Os campos ficam como texto no formulário e são convertidos só ao salvar
+ */
+import type { RevenueGoal } from '../domain/entities/RevenueGoal';
+import type { Currency } from '../domain/value-objects/Money';
+
+export interface GoalFormState {
+    revenueTarget: string;
+    appointmentTarget: string;
+}
+
+const parseDecimal = (value: string): number => parseFloat(value.replace(',', '.')) || 0;
+
+/**
+ * Formulário preenchido com a meta atual (ou vazio)
+ */
+export function goalToForm(goal: RevenueGoal | undefined): GoalFormState {
+    return {
+        revenueTarget: goal && goal.revenueTarget > 0 ? String(goal.revenueTarget) : '',
+        appointmentTarget: goal && goal.appointmentTarget > 0 ? String(goal.appointmentTarget) : ''
+    };
+}
+
+/**
+ * Converte o formulário no DTO da meta do mês (clinicId null = meta geral)
+ */
+export function goalFormToDTO(month: string, clinicId: string | null, form: GoalFormState, currency: Currency) {
+    return {
+        month,
+        clinicId,
+        revenueTarget: parseDecimal(form.revenueTarget),
+        appointmentTarget: parseInt(form.appointmentTarget, 10) || 0,
+        currency
+    };
+}
@@ -0,0 +1,8 @@
+/**
+ * SHA-256 em hexadecimal (Web Crypto)
+ * Usado para registrar e conferir a integridade dos documentos assinados
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
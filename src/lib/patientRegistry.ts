@@ -0,0 +1,158 @@
+/**
+ * Helpers do formulário de cadastro do paciente
+ * Os campos ficam como texto (com máscara) no formulário e são convertidos só ao salvar
+ */
+import { LEGAL_AGE, Patient } from '../domain/entities/Patient';
+import type { PatientSex } from '../domain/entities/Patient';
+import { toISODate } from './calendar';
+import { formatCPF, formatPhoneNumber, unformatPhoneNumber } from './utils';
+
+export const SEX_LABELS: Record<PatientSex, string> = {
+    female: 'Feminino',
+    male: 'Masculino',
+    other: 'Outro'
+};
+
+export interface PatientFormState {
+    name: string;
+    email: string;
+    phone: string;
+    cpf: string;
+    birthDate: string;
+    sex: PatientSex | '';
+    occupation: string;
+    street: string;
+    number: string;
+    complement: string;
+    neighborhood: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    emergencyName: string;
+    emergencyPhone: string;
+    emergencyRelationship: string;
+    guardianName: string;
+    guardianCpf: string;
+    guardianPhone: string;
+    guardianRelationship: string;
+}
+
+export const EMPTY_PATIENT_FORM: PatientFormState = {
+    name: '',
+    email: '',
+    phone: '',
+    cpf: '',
+    birthDate: '',
+    sex: '',
+    occupation: '',
+    street: '',
+    number: '',
+    complement: '',
+    neighborhood: '',
+    city: '',
+    state: '',
+    zipCode: '',
+    emergencyName: '',
+    emergencyPhone: '',
+    emergencyRelationship: '',
+    guardianName: '',
+    guardianCpf: '',
+    guardianPhone: '',
+    guardianRelationship: ''
+};
+
+const digits = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Idade em anos completos numa data de referência (YYYY-MM-DD; padrão: hoje, no fuso local)
+ * ✅ Mesma regra do cadastro (Patient.ageBetween), para o formulário não divergir da entidade
+ */
+export function ageOn(birthDate: string, referenceDate: string = toISODate(new Date())): number | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(birthDate)) return null;
+    return Patient.ageBetween(birthDate, referenceDate);
+}
+
+/**
+ * Data de nascimento informada no formulário é de menor de idade (exige responsável)
+ */
+export function isMinorBirthDate(birthDate: string): boolean {
+    const age = ageOn(birthDate);
+    return age !== null && age < LEGAL_AGE;
+}
+
+/**
+ * Formulário preenchido com os dados do paciente
+ */
+export function patientToForm(patient: Patient): PatientFormState {
+    const { address, emergencyContact, guardian } = patient;
+    return {
+        name: patient.name || '',
+        email: patient.email || '',
+        phone: patient.phone ? formatPhoneNumber(patient.phone) : '',
+        cpf: patient.cpf ? formatCPF(patient.cpf) : '',
+        birthDate: patient.birthDate || '',
+        sex: patient.sex || '',
+        occupation: patient.occupation || '',
+        street: address?.street || '',
+        number: address?.number || '',
+        complement: address?.complement || '',
+        neighborhood: address?.neighborhood || '',
+        city: address?.city || '',
+        state: address?.state || '',
+        zipCode: address ? address.formatZipCode() : '',
+        emergencyName: emergencyContact?.name || '',
+        emergencyPhone: emergencyContact ? formatPhoneNumber(emergencyContact.phone) : '',
+        emergencyRelationship: emergencyContact?.relationship || '',
+        guardianName: guardian?.name || '',
+        guardianCpf: guardian ? formatCPF(guardian.cpf) : '',
+        guardianPhone: guardian?.phone ? formatPhoneNumber(guardian.phone) : '',
+        guardianRelationship: guardian?.relationship || ''
+    };
+}
+
+/**
+ * Converte o formulário no DTO de criação/atualização do paciente
+ * ✅ Grupos (endereço, contato de emergência, responsável) totalmente vazios viram null
+ */
+export function patientFormToDTO(form: PatientFormState) {
+    const hasAddress = [form.street, form.number, form.complement, form.neighborhood, form.city, form.state, form.zipCode]
+        .some(value => value.trim());
+    const hasEmergencyContact = [form.emergencyName, form.emergencyPhone, form.emergencyRelationship].some(value => value.trim());
+    const hasGuardian = [form.guardianName, form.guardianCpf, form.guardianPhone, form.guardianRelationship].some(value => value.trim());
+
+    return {
+        name: form.name.trim(),
+        email: form.email.trim() || null,
+        phone: unformatPhoneNumber(form.phone) || null,
+        cpf: digits(form.cpf) || null,
+        birthDate: form.birthDate || null,
+        sex: form.sex || null,
+        occupation: form.occupation.trim() || null,
+        address: hasAddress
+            ? {
+                street: form.street.trim(),
+                number: form.number.trim() || null,
+                complement: form.complement.trim() || null,
+                neighborhood: form.neighborhood.trim() || null,
+                city: form.city.trim(),
+                state: form.state.trim().toUpperCase(),
+                zipCode: form.zipCode.trim()
+            }
+            : null,
+        emergencyContact: hasEmergencyContact
+            ? {
+                name: form.emergencyName.trim(),
+                phone: unformatPhoneNumber(form.emergencyPhone),
+                relationship: form.emergencyRelationship.trim() || null
+            }
+            : null,
+        guardian: hasGuardian
+            ? {
+                name: form.guardianName.trim(),
+                cpf: digits(form.guardianCpf),
+                phone: unformatPhoneNumber(form.guardianPhone) || null,
+                relationship: form.guardianRelationship.trim() || null
+            }
+            : null
+    };
+}
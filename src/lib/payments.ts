@@ -0,0 +1,90 @@
+/**
+ * Formulários de pagamento, parcelamento e taxas das formas de pagamento
+ * Conversão entre os campos da tela e os DTOs aceitos pelo PaymentService
+ */
+import type { PaymentMethod } from '../domain/entities/Payment';
+import type { PaymentMethodFee } from '../domain/entities/PaymentMethodFee';
+import { toISODate } from './calendar';
+
+export interface PaymentFormState {
+    amount: string;
+    paidDate: string;
+    method: PaymentMethod;
+    /** Parcelas no cartão de crédito */
+    cardInstallments: string;
+}
+
+export interface PaymentMethodFeeFormState {
+    percentage: string;
+    installmentPercentage: string;
+    fixedAmount: string;
+    settlementDays: string;
+}
+
+export interface InstallmentFormState {
+    installments: string;
+    firstDueDate: string;
+    intervalMonths: string;
+}
+
+const today = () => toISODate(new Date());
+
+export function emptyPaymentForm(): PaymentFormState {
+    return { amount: '', paidDate: today(), method: 'pix', cardInstallments: '1' };
+}
+
+export function emptyInstallmentForm(): InstallmentFormState {
+    return { installments: '2', firstDueDate: today(), intervalMonths: '1' };
+}
+
+/**
+ * Converte o formulário no DTO de registro de pagamento
+ */
+export function paymentFormToDTO(appointmentId: string, form: PaymentFormState) {
+    return {
+        appointmentId,
+        amount: parseFloat(form.amount.replace(',', '.')) || 0,
+        paidDate: form.paidDate,
+        method: form.method,
+        cardInstallments: form.method === 'credit_card' ? parseInt(form.cardInstallments, 10) || 1 : null
+    };
+}
+
+/**
+ * Converte o formulário no DTO de parcelamento do saldo
+ */
+export function installmentFormToDTO(appointmentId: string, form: InstallmentFormState) {
+    return {
+        appointmentId,
+        installments: parseInt(form.installments, 10) || 0,
+        firstDueDate: form.firstDueDate,
+        intervalMonths: parseInt(form.intervalMonths, 10) || 1
+    };
+}
+
+const parseDecimal = (value: string): number => parseFloat(value.replace(',', '.')) || 0;
+
+/**
+ * Formulário de taxa preenchido com a configuração atual (ou zerado)
+ */
+export function methodFeeToForm(fee: PaymentMethodFee | undefined): PaymentMethodFeeFormState {
+    return {
+        percentage: fee ? String(fee.percentage) : '0',
+        installmentPercentage: fee ? String(fee.installmentPercentage) : '0',
+        fixedAmount: fee ? String(fee.fixedAmount) : '0',
+        settlementDays: fee ? String(fee.settlementDays) : '0'
+    };
+}
+
+/**
+ * Converte o formulário no DTO de taxa da forma de pagamento
+ */
+export function methodFeeFormToDTO(method: PaymentMethod, form: PaymentMethodFeeFormState) {
+    return {
+        method,
+        percentage: parseDecimal(form.percentage),
+        installmentPercentage: method === 'credit_card' ? parseDecimal(form.installmentPercentage) : 0,
+        fixedAmount: parseDecimal(form.fixedAmount),
+        settlementDays: parseInt(form.settlementDays, 10) || 0
+    };
+}
@@ -0,0 +1,35 @@
+/**
+ * Tabela de preços no formulário
+ * Conversão entre os campos da tela e o DTO aceito pelo ProcedurePriceService
+ */
+import type { Currency } from '../domain/value-objects/Money';
+
+export interface ProcedurePriceFormState {
+    procedureId: string;
+    price: string;
+    currency: Currency;
+    effectiveFrom: string;
+    notes: string;
+}
+
+export const emptyProcedurePriceForm = (effectiveFrom: string, currency: Currency = 'BRL'): ProcedurePriceFormState => ({
+    procedureId: '',
+    price: '',
+    currency,
+    effectiveFrom,
+    notes: ''
+});
+
+/**
+ * Converte o formulário no DTO de nova versão de preço
+ */
+export function procedurePriceFormToDTO(clinicId: string, form: ProcedurePriceFormState) {
+    return {
+        clinicId,
+        procedureId: form.procedureId,
+        price: parseFloat(form.price.replace(',', '.')),
+        currency: form.currency,
+        effectiveFrom: form.effectiveFrom,
+        notes: form.notes.trim() || null
+    };
+}
@@ -0,0 +1,133 @@
+/**
+ * Exportação do relatório de contas a receber (CSV e PDF)
+ * As linhas são montadas separadas da renderização para permitir testes sem gerar arquivos
+ */
+import jsPDF from 'jspdf';
+import { AGING_BUCKETS, type AgingBucket, type AgingGroup, type AgingReport } from '../domain/services/ReceivablesDomainService';
+import { formatCurrency, formatDate } from './utils';
+
+export type AgingGrouping = 'byPatient' | 'byClinic';
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+    '0_30': '0–30 dias',
+    '31_60': '31–60 dias',
+    '61_90': '61–90 dias',
+    '90_plus': '90+ dias'
+};
+
+export const AGING_CSV_COLUMNS = ['Paciente', 'Clínica', 'Data', 'Procedimento', 'Dias', 'Faixa', 'Saldo', 'Moeda', 'Saldo convertido'];
+
+const groupLabel = (group: AgingGroup, grouping: AgingGrouping): string =>
+    group.label || (grouping === 'byPatient' ? 'Sem paciente' : 'Sem clínica');
+
+const csvCell = (value: string): string => (/[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * CSV com uma linha por atendimento em aberto (separador ";" para abrir direto no Excel)
+ * ✅ Valores com ponto decimal, sem símbolo de moeda, para permitir somas na planilha
+ */
+export function agingReportToCSV(report: AgingReport): string {
+    const patientNames = new Map(report.byPatient.map(group => [group.key, groupLabel(group, 'byPatient')]));
+    const clinicNames = new Map(report.byClinic.map(group => [group.key, groupLabel(group, 'byClinic')]));
+    const items = report.byPatient.flatMap(group => group.items).sort((a, b) => a.date.localeCompare(b.date));
+
+    const lines = [
+        AGING_CSV_COLUMNS,
+        ...items.map(item => [
+            patientNames.get(item.patientId) ?? '',
+            clinicNames.get(item.clinicId) ?? '',
+            item.date,
+            item.procedure,
+            String(item.ageDays),
+            AGING_BUCKET_LABELS[item.bucket],
+            item.balance.amount.toFixed(2),
+            item.balance.currency,
+            item.outstanding.amount.toFixed(2)
+        ])
+    ];
+
+    return lines.map(line => line.map(csvCell).join(';')).join('\n');
+}
+
+/**
+ * Baixa o CSV do relatório
+ */
+export function downloadAgingCSV(report: AgingReport): void {
+    // BOM para o Excel reconhecer os acentos
+    const blob = new Blob(['﻿' + agingReportToCSV(report)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `contas-a-receber-${report.asOf}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Linhas da tabela do PDF (um grupo por linha, com as faixas), já formatadas, com a linha de totais no final
+ */
+export function buildAgingRows(report: AgingReport, grouping: AgingGrouping): string[][] {
+    const money = (value: number) => formatCurrency(value, report.currency);
+
+    return [
+        ...report[grouping].map(group => [
+            groupLabel(group, grouping),
+            String(group.items.length),
+            ...AGING_BUCKETS.map(bucket => money(group.buckets[bucket])),
+            money(group.total)
+        ]),
+        [
+            'Total',
+            String(report[grouping].reduce((sum, group) => sum + group.items.length, 0)),
+            ...AGING_BUCKETS.map(bucket => money(report.buckets[bucket])),
+            money(report.total)
+        ]
+    ];
+}
+
+/**
+ * Gera e baixa o PDF do relatório de contas a receber
+ */
+export function exportAgingPdf(report: AgingReport, grouping: AgingGrouping): void {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const columnX = [15, 95, 115, 150, 185, 220, 255];
+    let y = 20;
+
+    const drawRow = (row: string[], bold: boolean) => {
+        if (y > pageHeight - 20) {
+            doc.addPage();
+            y = 20;
+        }
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        row.forEach((cell, index) => {
+            const maxWidth = (columnX[index + 1] ?? 285) - columnX[index] - 3;
+            doc.text(doc.splitTextToSize(cell, maxWidth)[0] ?? '', columnX[index], y);
+        });
+        y += 7;
+    };
+
+    doc.setFontSize(18);
+    doc.text('Contas a receber', 15, y);
+    y += 8;
+    doc.setFontSize(11);
+    doc.text(`Posição em ${formatDate(report.asOf)} • ${grouping === 'byPatient' ? 'por paciente' : 'por clínica'}`, 15, y);
+    y += 12;
+
+    doc.setFontSize(10);
+    drawRow([grouping === 'byPatient' ? 'Paciente' : 'Clínica', 'Atend.', ...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]), 'Total'], true);
+    const rows = buildAgingRows(report, grouping);
+    rows.forEach((row, index) => drawRow(row, index === rows.length - 1));
+
+    if (report.missingRates.length > 0) {
+        y += 5;
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+            `Sem cotação (fora do total): ${report.missingRates.map(missing => `${missing.currency} ${formatDate(missing.date)}`).join(', ')}`,
+            15,
+            y
+        );
+    }
+
+    doc.save(`contas-a-receber-${report.asOf}.pdf`);
+}
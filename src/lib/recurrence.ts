@@ -0,0 +1,36 @@
+/**
+ * Formulário de recorrência de agendamentos
+ * Conversão entre os campos da tela e a regra aceita pelo AppointmentService
+ */
+import type { RecurrenceFrequency, RecurrenceRuleProps } from '../domain/value-objects/RecurrenceRule';
+
+export interface RecurrenceFormState {
+    enabled: boolean;
+    frequency: RecurrenceFrequency;
+    interval: string;
+    endType: 'count' | 'until';
+    count: string;
+    until: string;
+}
+
+export const EMPTY_RECURRENCE_FORM: RecurrenceFormState = {
+    enabled: false,
+    frequency: 'weekly',
+    interval: '1',
+    endType: 'count',
+    count: '4',
+    until: ''
+};
+
+/**
+ * Converte o formulário na regra de recorrência (null quando desativada)
+ */
+export function recurrenceFormToRule(form: RecurrenceFormState): RecurrenceRuleProps | null {
+    if (!form.enabled) return null;
+    return {
+        frequency: form.frequency,
+        interval: parseInt(form.interval, 10) || 1,
+        until: form.endType === 'until' ? form.until || null : null,
+        count: form.endType === 'count' ? parseInt(form.count, 10) || null : null
+    };
+}
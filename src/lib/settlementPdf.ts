@@ -0,0 +1,87 @@
+/**
+ * Demonstrativo de repasse imprimível (PDF)
+ * Lista os atendimentos do período com valor bruto, parte do profissional e parte da clínica
+ */
+import jsPDF from 'jspdf';
+import type { SettlementStatement } from '../domain/entities/SettlementStatement';
+import { formatCurrency, formatDate } from './utils';
+
+export const SETTLEMENT_STATUS_LABELS = {
+    issued: 'Emitido',
+    settled: 'Acertado'
+} as const;
+
+export const SETTLEMENT_PDF_COLUMNS = ['Data', 'Paciente', 'Procedimento', 'Bruto', 'Profissional', 'Clínica'];
+
+/**
+ * Linhas da tabela do demonstrativo, já formatadas, com a linha de totais no final
+ * Separado da renderização para permitir testes sem gerar o PDF
+ */
+export function buildSettlementRows(statement: SettlementStatement): string[][] {
+    const money = (value: number) => formatCurrency(value, statement.currency);
+    const totals = statement.totals;
+
+    return [
+        ...statement.lines.map(line => [
+            formatDate(line.date),
+            line.patientName || '—',
+            line.procedure,
+            money(line.grossValue),
+            money(line.ourShare),
+            money(line.clinicShare)
+        ]),
+        ['Total', '', `${statement.lines.length} atendimento(s)`, money(totals.gross), money(totals.ourShare), money(totals.clinicShare)]
+    ];
+}
+
+/**
+ * Gera e baixa o PDF do demonstrativo de repasse
+ */
+export function exportSettlementPdf(statement: SettlementStatement, clinicName: string): void {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const columnX = [15, 45, 105, 175, 210, 245];
+    let y = 20;
+
+    const drawRow = (row: string[], bold: boolean) => {
+        if (y > pageHeight - 20) {
+            doc.addPage();
+            y = 20;
+        }
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        row.forEach((cell, index) => {
+            const maxWidth = (columnX[index + 1] ?? 285) - columnX[index] - 3;
+            doc.text(doc.splitTextToSize(cell, maxWidth)[0] ?? '', columnX[index], y);
+        });
+        y += 7;
+    };
+
+    doc.setFontSize(18);
+    doc.text('Demonstrativo de repasse', 15, y);
+    y += 10;
+    doc.setFontSize(12);
+    doc.text(`Clínica: ${clinicName}`, 15, y);
+    y += 7;
+    doc.text(`Período: ${formatDate(statement.periodStart)} a ${formatDate(statement.periodEnd)}`, 15, y);
+    y += 7;
+    doc.text(
+        `Situação: ${SETTLEMENT_STATUS_LABELS[statement.status]}` +
+        (statement.settledAt ? ` em ${formatDate(statement.settledAt)}` : ` (emitido em ${formatDate(statement.issuedAt)})`),
+        15,
+        y
+    );
+    y += 12;
+
+    doc.setFontSize(10);
+    drawRow(SETTLEMENT_PDF_COLUMNS, true);
+    const rows = buildSettlementRows(statement);
+    rows.forEach((row, index) => drawRow(row, index === rows.length - 1));
+
+    if (statement.notes) {
+        y += 5;
+        doc.setFont('helvetica', 'normal');
+        doc.text(doc.splitTextToSize(`Observações: ${statement.notes}`, 265), 15, y);
+    }
+
+    doc.save(`repasse_${clinicName.replace(/\s+/g, '_').toLowerCase()}_${statement.periodStart}_${statement.periodEnd}.pdf`);
+}
@@ -0,0 +1,70 @@
+/**
+ * Utilitários para dentes na notação FDI (ISO 3950)
+ * Layout do odontograma e conversão de/para texto digitado pelo usuário
+ */
+import { ToothNumber, Dentition } from '../domain/value-objects/ToothNumber';
+
+export interface OdontogramLayout {
+    upper: number[];
+    lower: number[];
+}
+
+/**
+ * Arcadas na visão do profissional: o lado direito do paciente fica à esquerda
+ */
+export const ODONTOGRAM_LAYOUT: Record<Dentition, OdontogramLayout> = {
+    permanent: {
+        upper: [18, 17, 16, 15, 14, 13, 12, 11, 21, 22, 23, 24, 25, 26, 27, 28],
+        lower: [48, 47, 46, 45, 44, 43, 42, 41, 31, 32, 33, 34, 35, 36, 37, 38]
+    },
+    deciduous: {
+        upper: [55, 54, 53, 52, 51, 61, 62, 63, 64, 65],
+        lower: [85, 84, 83, 82, 81, 71, 72, 73, 74, 75]
+    }
+};
+
+export interface ParsedTeeth {
+    teeth: number[];
+    invalid: string[];
+}
+
+/**
+ * Converte texto como "36, 37 46" em lista de dentes válidos
+ * Os trechos que não são dentes FDI válidos são retornados em invalid
+ */
+export function parseTeethInput(value: string): ParsedTeeth {
+    const tokens = value.split(/[\s,;]+/).filter(Boolean);
+    const teeth = new Set<number>();
+    const invalid: string[] = [];
+
+    for (const token of tokens) {
+        const tooth = Number(token);
+        if (ToothNumber.isValid(tooth)) {
+            teeth.add(tooth);
+        } else {
+            invalid.push(token);
+        }
+    }
+
+    return { teeth: [...teeth].sort((a, b) => a - b), invalid };
+}
+
+/**
+ * Formata lista de dentes para exibição ("36, 37")
+ */
+export function formatTeeth(teeth: number[] | null | undefined): string {
+    return (teeth || []).join(', ');
+}
+
+/**
+ * Conta quantos registros (atendimentos, radiografias) envolvem cada dente
+ */
+export function countByTooth(records: Array<{ teeth?: number[] | null }>): Map<number, number> {
+    const counts = new Map<number, number>();
+    for (const record of records) {
+        for (const tooth of record.teeth || []) {
+            counts.set(tooth, (counts.get(tooth) || 0) + 1);
+        }
+    }
+    return counts;
+}
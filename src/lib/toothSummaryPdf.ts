@@ -0,0 +1,141 @@
+/**
+ * Resumo clínico imprimível de um dente (PDF)
+ * Reúne atendimentos, fichas endodônticas, planos de tratamento e radiografias do dente
+ */
+import jsPDF from 'jspdf';
+import type { EndodonticRecord } from '../domain/entities/EndodonticRecord';
+import { endodonticRecordLines } from './endodontics';
+import { formatDate, formatTime, stripHTML } from './utils';
+
+export interface ToothSummaryAppointment {
+    id: string;
+    date: string;
+    time?: string;
+    procedure: string;
+    clinicName?: string | null;
+    clinicalEvolution?: string | null;
+}
+
+export interface ToothSummaryPlan {
+    procedure: string;
+    statusLabel: string;
+    completedSessions: number;
+    totalSessions: number;
+}
+
+export interface ToothSummaryData {
+    patientName: string;
+    tooth: number;
+    appointments: ToothSummaryAppointment[];
+    endodonticRecords: EndodonticRecord[];
+    treatmentPlans: ToothSummaryPlan[];
+    radiographs: Array<{ fileName?: string | null; createdAt?: string | null }>;
+}
+
+export interface ToothSummarySection {
+    title: string;
+    lines: string[];
+}
+
+/**
+ * Monta as seções do resumo em ordem cronológica
+ * Separado da renderização para permitir testes sem gerar o PDF
+ */
+export function buildToothSummary(data: ToothSummaryData): ToothSummarySection[] {
+    const sections: ToothSummarySection[] = [];
+
+    if (data.treatmentPlans.length > 0) {
+        sections.push({
+            title: 'Planos de tratamento',
+            lines: data.treatmentPlans.map(plan =>
+                `${plan.procedure} — ${plan.statusLabel} (${plan.completedSessions}/${plan.totalSessions} sessões)`
+            )
+        });
+    }
+
+    const recordsByAppointment = new Map(
+        data.endodonticRecords
+            .filter(record => record.tooth === data.tooth)
+            .map(record => [record.appointmentId, record])
+    );
+    const appointments = [...data.appointments].sort((a, b) =>
+        `${a.date} ${a.time || ''}`.localeCompare(`${b.date} ${b.time || ''}`)
+    );
+
+    appointments.forEach(appointment => {
+        const header = [
+            formatDate(appointment.date),
+            appointment.time ? formatTime(appointment.time) : null,
+            appointment.procedure,
+            appointment.clinicName || null
+        ].filter(Boolean).join(' • ');
+
+        const record = recordsByAppointment.get(appointment.id);
+        const lines = record ? endodonticRecordLines(record) : [];
+        if (appointment.clinicalEvolution && appointment.clinicalEvolution.trim()) {
+            lines.push(`Evolução: ${stripHTML(appointment.clinicalEvolution)}`);
+        }
+        sections.push({ title: header, lines: lines.length > 0 ? lines : ['Sem registro clínico.'] });
+    });
+
+    if (data.radiographs.length > 0) {
+        sections.push({
+            title: 'Radiografias',
+            lines: data.radiographs.map(radio =>
+                [radio.fileName || 'Radiografia', radio.createdAt ? formatDate(radio.createdAt) : null].filter(Boolean).join(' — ')
+            )
+        });
+    }
+
+    return sections;
+}
+
+/**
+ * Gera e baixa o PDF do resumo clínico do dente
+ */
+export function exportToothSummaryPdf(data: ToothSummaryData): void {
+    const doc = new jsPDF();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const maxWidth = doc.internal.pageSize.getWidth() - 40;
+    let y = 20;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - 20) {
+            doc.addPage();
+            y = 20;
+        }
+    };
+
+    doc.setFontSize(18);
+    doc.text(`Resumo clínico — Dente ${data.tooth}`, 20, y);
+    y += 10;
+    doc.setFontSize(12);
+    doc.text(`Paciente: ${data.patientName}`, 20, y);
+    y += 7;
+    doc.text(`Emitido em: ${formatDate(new Date())}`, 20, y);
+    y += 12;
+
+    const sections = buildToothSummary(data);
+    if (sections.length === 0) {
+        doc.text('Nenhum registro encontrado para este dente.', 20, y);
+    }
+
+    sections.forEach(section => {
+        ensureSpace(14);
+        doc.setFontSize(12);
+        doc.setFont('helvetica', 'bold');
+        doc.text(section.title, 20, y);
+        y += 7;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(10);
+        section.lines.forEach(line => {
+            const wrapped: string[] = doc.splitTextToSize(line, maxWidth - 5);
+            ensureSpace(wrapped.length * 5);
+            doc.text(wrapped, 25, y);
+            y += wrapped.length * 5;
+        });
+        y += 5;
+    });
+
+    doc.save(`resumo_dente_${data.tooth}_${new Date().toISOString().split('T')[0]}.pdf`);
+}
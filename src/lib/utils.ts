@@ -1,5 +1,6 @@
 import { clsx, ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { Money, Currency, CURRENCIES } from '../domain/value-objects/Money';
 
 /**
  * Combina classes CSS usando clsx e tailwind-merge
@@ -8,6 +9,25 @@ export function cn(...inputs: ClassValue[]): string {
     return twMerge(clsx(inputs));
 }
 
+/**
+ * Texto puro de um conteúdo HTML (ex.: evolução clínica do editor), em uma linha
+ */
+export function stripHTML(value: string): string {
+    return value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Trecho seguro para nomes de arquivo: sem acentos, minúsculo e com "_" entre as palavras
+ */
+export function fileNameSlug(value: string): string {
+    return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+}
+
 /**
  * Formata número de telefone para formato brasileiro: (XX) XXXXX-XXXX
  */
@@ -38,6 +58,27 @@ export function unformatPhoneNumber(phone: string): string {
     return phone.replace(/\D/g, '');
 }
 
+/**
+ * Formata CPF enquanto é digitado: XXX.XXX.XXX-XX
+ */
+export function formatCPF(cpf: string): string {
+    if (!cpf) return '';
+    const numbers = cpf.replace(/\D/g, '').slice(0, 11);
+    return numbers
+        .replace(/^(\d{3})(\d)/, '$1.$2')
+        .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+        .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+}
+
+/**
+ * Formata CEP enquanto é digitado: XXXXX-XXX
+ */
+export function formatZipCode(zipCode: string): string {
+    if (!zipCode) return '';
+    const numbers = zipCode.replace(/\D/g, '').slice(0, 8);
+    return numbers.length > 5 ? `${numbers.slice(0, 5)}-${numbers.slice(5)}` : numbers;
+}
+
 // Currency symbols and locales
 interface CurrencyConfig {
     symbol: string;
@@ -122,28 +163,48 @@ export function unformatCurrency(value: string | number): string {
 
 interface Appointment {
     value?: number;
+    currency?: string;
     payment_type?: string;
     payment_percentage?: number;
+    payment_fixed_amount?: number | null;
 }
 
+const toNonNegative = (value: unknown): number => Math.max(0, parseFloat(String(value ?? 0)) || 0);
+
 /**
  * Calcula o valor recebido baseado no tipo de pagamento e percentual
+ * ✅ O cálculo é feito em centavos (Money), com um único arredondamento por atendimento
  */
-export function calculateReceivedValue(appointment: Appointment): number {
-    if (!appointment) return 0;
-    
-    const totalValue = parseFloat(String(appointment.value || 0));
-    
-    if (appointment.payment_type === '100' || !appointment.payment_type) {
-        // 100% - recebe o valor total
-        return totalValue;
-    } else if (appointment.payment_type === 'percentage' && appointment.payment_percentage) {
+export function calculateReceivedMoney(appointment: Appointment): Money {
+    const currency = CURRENCIES.includes(appointment?.currency as Currency) ? appointment.currency as Currency : 'BRL';
+    if (!appointment) return Money.zero(currency);
+
+    const total = Money.create(toNonNegative(appointment.value), currency);
+
+    if (appointment.payment_type === 'percentage' && appointment.payment_percentage) {
         // Porcentagem - calcula o percentual
-        const percentage = parseFloat(String(appointment.payment_percentage));
-        return (totalValue * percentage) / 100;
+        return total.percentage(toNonNegative(appointment.payment_percentage));
+    } else if (appointment.payment_type === 'fixed' && appointment.payment_fixed_amount !== null && appointment.payment_fixed_amount !== undefined) {
+        // Valor fixo por atendimento, limitado ao valor do atendimento
+        return Money.create(toNonNegative(appointment.payment_fixed_amount), currency).min(total);
     }
-    
-    return totalValue;
+
+    // 100% - recebe o valor total
+    return total;
+}
+
+/**
+ * Valor recebido como número (ver calculateReceivedMoney)
+ */
+export function calculateReceivedValue(appointment: Appointment): number {
+    return calculateReceivedMoney(appointment).amount;
+}
+
+/**
+ * Soma valores monetários em centavos, sem acumular erro de ponto flutuante (negativos contam como zero)
+ */
+export function sumAmounts(amounts: number[]): number {
+    return amounts.reduce((cents, amount) => cents + Money.create(toNonNegative(amount)).cents, 0) / 100;
 }
 
 interface DateFormatOptions {
@@ -1,3 +1,5 @@
+import { CPF } from '../domain/value-objects/CPF';
+
 /**
  * Valida formato de email
  */
@@ -18,32 +20,11 @@ export const validatePhone = (phone: string): boolean => {
 
 /**
  * Valida CPF brasileiro
+ * ✅ Mesma regra do value object CPF usado pela entidade Patient
  */
 export const validateCPF = (cpf: string): boolean => {
     if (!cpf) return true; // Opcional
-    const cleaned = cpf.replace(/\D/g, '');
-    
-    if (cleaned.length !== 11) return false;
-    if (/^(\d)\1+$/.test(cleaned)) return false; // Todos dígitos iguais
-    
-    // Validar dígitos verificadores
-    let sum = 0;
-    for (let i = 0; i < 9; i++) {
-        sum += parseInt(cleaned.charAt(i)) * (10 - i);
-    }
-    let digit = 11 - (sum % 11);
-    if (digit >= 10) digit = 0;
-    if (digit !== parseInt(cleaned.charAt(9))) return false;
-    
-    sum = 0;
-    for (let i = 0; i < 10; i++) {
-        sum += parseInt(cleaned.charAt(i)) * (11 - i);
-    }
-    digit = 11 - (sum % 11);
-    if (digit >= 10) digit = 0;
-    if (digit !== parseInt(cleaned.charAt(10))) return false;
-    
-    return true;
+    return CPF.isValid(cpf);
 };
 
 /**
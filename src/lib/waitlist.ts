@@ -0,0 +1,46 @@
+/**
+ * Formulário da lista de espera
+ * Conversão entre os campos da tela e o DTO aceito pelo WaitlistService
+ */
+import type { WaitlistPriority } from '../domain/entities/WaitlistEntry';
+
+export interface WaitlistFormState {
+    patientId: string;
+    clinicId: string;
+    procedure: string;
+    durationMinutes: string;
+    preferredWeekdays: number[];
+    preferredStart: string;
+    preferredEnd: string;
+    priority: WaitlistPriority;
+    notes: string;
+}
+
+export const EMPTY_WAITLIST_FORM: WaitlistFormState = {
+    patientId: '',
+    clinicId: '',
+    procedure: '',
+    durationMinutes: '60',
+    preferredWeekdays: [],
+    preferredStart: '',
+    preferredEnd: '',
+    priority: 'normal',
+    notes: ''
+};
+
+/**
+ * Converte o formulário no DTO de inclusão (campos vazios significam "qualquer")
+ */
+export function waitlistFormToDTO(form: WaitlistFormState) {
+    return {
+        patientId: form.patientId,
+        clinicId: form.clinicId || null,
+        procedure: form.procedure.trim(),
+        durationMinutes: parseInt(form.durationMinutes, 10) || undefined,
+        preferredWeekdays: form.preferredWeekdays,
+        preferredStart: form.preferredStart || null,
+        preferredEnd: form.preferredEnd || null,
+        priority: form.priority,
+        notes: form.notes.trim() || null
+    };
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo, FormEvent, ChangeEvent, MouseEvent } from 'react';
-import { Plus, Calendar, DollarSign, User, Building2, Search, Clock, Edit2, Trash2, Upload, Mail, Phone, ArrowUp, ArrowDown, Wifi, WifiOff, Eye } from 'lucide-react';
+import { Plus, Calendar, DollarSign, User, Building2, Search, Clock, Edit2, Trash2, Upload, Mail, Phone, ArrowUp, ArrowDown, Wifi, WifiOff, Eye, Repeat, ListOrdered, X } from 'lucide-react';
 import { motion, Variants } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import Badge from '../components/UI/Badge';
@@ -18,7 +19,7 @@ import { useCurrency } from '../context/CurrencyContext';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { useToast } from '../components/UI/Toast';
 import { CreateAppointmentDTO } from '../application/services/AppointmentService';
-import { formatPhoneNumber, unformatPhoneNumber, formatCurrency, unformatCurrency, calculateReceivedValue, formatDate, formatTime } from '../lib/utils';
+import { formatPhoneNumber, unformatPhoneNumber, formatCurrency, unformatCurrency, formatDate, formatTime } from '../lib/utils';
 import { useLazyLoad } from '../lib/hooks/useLazyLoad';
 import { validateImageUpload } from '../lib/fileValidation';
 import { validateAppointment } from '../lib/validators';
@@ -26,6 +27,49 @@ import { isValidImageUrl, sanitizeText } from '../lib/sanitize';
 import { logger } from '../lib/logger';
 import { IAuthClient } from '../infrastructure/auth/IAuthClient';
 import { AuthenticationError } from '../domain/errors/AppError';
+import { Appointment as AppointmentEntity, CANCELLATION_ACTORS } from '../domain/entities/Appointment';
+import type { CancellationActor } from '../domain/entities/Appointment';
+import { AppointmentConstants } from '../domain/constants/AppointmentConstants';
+import { ClinicalStatusValue } from '../domain/value-objects/ClinicalStatus';
+import {
+    CLINICAL_STATUSES,
+    CLINICAL_STATUS_BADGE,
+    PAYMENT_STATUS_BADGE,
+    ClinicalStatusFilter,
+    PaymentStatusFilter,
+    buildStatusFilters,
+    getClinicalStatus,
+    getPaymentStatus,
+    matchesStatusFilters
+} from '../lib/appointmentStatus';
+import { formatTeeth, parseTeethInput } from '../lib/teeth';
+import type { EndodonticRecord } from '../domain/entities/EndodonticRecord';
+import type { FreeSlot } from '../domain/services/SchedulingDomainService';
+import { WAITLIST_PRIORITIES } from '../domain/entities/WaitlistEntry';
+import type { WaitlistEntry, WaitlistPriority } from '../domain/entities/WaitlistEntry';
+import type { WaitlistOffer } from '../application/services/WaitlistService';
+import type { AppointmentPayments } from '../application/services/PaymentService';
+import { PAYMENT_METHODS, MAX_CARD_INSTALLMENTS } from '../domain/entities/Payment';
+import type { PaymentMethod } from '../domain/entities/Payment';
+import type { CommissionRule } from '../domain/entities/CommissionRule';
+import type { ProcedurePrice } from '../domain/entities/ProcedurePrice';
+import type { AnamnesisStatus } from '../domain/services/AnamnesisDomainService';
+import AnamnesisAlerts from '../components/Clinical/AnamnesisAlerts';
+import { commissionRuleToPaymentFields, paymentFieldsMatchRule } from '../lib/commission';
+import EndodonticRecordCard from '../components/Clinical/EndodonticRecordCard';
+import EndodonticRecordForm from '../components/Clinical/EndodonticRecordForm';
+import { EndodonticFormState, emptyEndodonticForm, endodonticRecordToForm, endodonticFormToDTO } from '../lib/endodontics';
+import { RecurrenceFormState, EMPTY_RECURRENCE_FORM, recurrenceFormToRule } from '../lib/recurrence';
+import { WaitlistFormState, EMPTY_WAITLIST_FORM, waitlistFormToDTO } from '../lib/waitlist';
+import { toISODate } from '../lib/calendar';
+import {
+    PaymentFormState,
+    InstallmentFormState,
+    emptyPaymentForm,
+    emptyInstallmentForm,
+    paymentFormToDTO,
+    installmentFormToDTO
+} from '../lib/payments';
 import { useSessionManager } from '../hooks/useSessionManager';
 import { useOfflineQueue } from '../hooks/useOfflineQueue';
 import { withTimeout, TimeoutError, AbortedError } from '../lib/fetchWithTimeout';
@@ -60,14 +104,25 @@ interface Appointment {
     patient_id?: string | null;
     date: string;
     time: string;
+    durationMinutes?: number;
+    endTime?: string;
     procedure: string;
+    teeth?: number[];
     value: string | number;
     currency?: string;
     payment_type?: string;
     payment_percentage?: number | null;
     is_paid?: boolean;
+    amountPaid?: number;
     payment_date?: string | null;
     status: 'scheduled' | 'pending' | 'paid';
+    clinicalStatus?: ClinicalStatusValue;
+    allowedClinicalTransitions?: ClinicalStatusValue[];
+    seriesId?: string | null;
+    cancellationReason?: string | null;
+    cancelledBy?: CancellationActor | null;
+    isLateCancellation?: boolean;
+    cancellationFee?: number | null;
     clinical_evolution?: string | null;
     notes?: string | null;
     patients?: Patient | null;
@@ -78,16 +133,19 @@ interface AppointmentFormData extends Record<string, unknown> {
     clinic_id: string;
     date: string;
     time: string;
+    duration_minutes: string;
     patient_name: string;
     patient_phone: string;
     patient_email: string;
     patient_id: string;
     procedure: string;
     custom_procedure: string;
+    teeth: string;
     value: string;
     currency: string;
     payment_type: string;
     payment_percentage: string;
+    payment_fixed_amount: string;
     is_paid: boolean;
     payment_date: string;
     clinical_evolution: string;
@@ -109,6 +167,7 @@ interface ValidationErrors {
     value?: string | null;
     clinical_evolution?: string | null;
     notes?: string | null;
+    teeth?: string | null;
 }
 
 interface PaginationState {
@@ -127,19 +186,51 @@ interface PaginatedResponse<T> {
 
 type SortColumn = 'patient' | 'procedure' | 'date' | 'clinic' | 'status' | '';
 type SortDirection = 'asc' | 'desc';
-type FilterStatus = 'all' | 'scheduled' | 'pending' | 'paid';
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
+
+const WAITLIST_PRIORITY_BADGE: Record<WaitlistPriority, 'default' | 'primary' | 'warning' | 'danger'> = {
+    low: 'default',
+    normal: 'primary',
+    high: 'warning',
+    urgent: 'danger'
+};
+
+/**
+ * Parte recebida pelo profissional quando o pagamento não é integral (percentual ou valor fixo)
+ */
+const ReceivedShare: React.FC<{ appointment: AppointmentEntity; fixedLabel: string }> = ({ appointment, fixedLabel }) => {
+    const { paymentType } = appointment;
+    const share = paymentType.type === 'percentage' && paymentType.percentage
+        ? `${paymentType.percentage}%`
+        : paymentType.type === 'fixed' ? fixedLabel : null;
+    if (!share) return null;
+
+    return (
+        <span className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">
+            Recebido: {formatCurrency(appointment.calculateReceivedValue().amount, appointment.value.currency)} ({share})
+        </span>
+    );
+};
 
 const Appointments: React.FC = () => {
     const { t } = useLanguage();
     const { currency } = useCurrency();
     const { handleError } = useErrorHandler();
     const { showError, showSuccess, showWarning } = useToast();
+    const [searchParams, setSearchParams] = useSearchParams();
     const container = useDependencies();
     const appointmentService = container.resolve('appointmentService');
     const clinicService = container.resolve('clinicService');
     const patientService = container.resolve('patientService');
     const procedureService = container.resolve('procedureService');
     const radiographService = container.resolve('radiographService');
+    const endodonticRecordService = container.resolve('endodonticRecordService');
+    const waitlistService = container.resolve('waitlistService');
+    const paymentService = container.resolve('paymentService');
+    const commissionService = container.resolve('commissionService');
+    const procedurePriceService = container.resolve('procedurePriceService');
+    const anamnesisService = container.resolve('anamnesisService');
     
     const [appointments, setAppointments] = useState<Appointment[] | PaginatedResponse<Appointment>>([]);
     const [clinics, setClinics] = useState<Clinic[]>([]);
@@ -153,7 +244,8 @@ const Appointments: React.FC = () => {
         total: 0,
         totalValue: 0 // Total de valores (recebido + pendente)
     });
-    const [filterStatus, setFilterStatus] = useState<FilterStatus>('all');
+    const [filterStatus, setFilterStatus] = useState<PaymentStatusFilter>('all');
+    const [filterClinicalStatus, setFilterClinicalStatus] = useState<ClinicalStatusFilter>('all');
     const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; id: string | null }>({ isOpen: false, id: null });
     const [searchTerm, setSearchTerm] = useState<string>('');
     const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
@@ -171,12 +263,36 @@ const Appointments: React.FC = () => {
     // Memoizar chave de filtros para evitar loops no useEffect
     // Isso garante que o useEffect só roda quando filtros realmente mudam
     const filtersKey = useMemo(
-        () => JSON.stringify({ filterStatus, sortColumn, sortDirection }),
-        [filterStatus, sortColumn, sortDirection]
+        () => JSON.stringify({ filterStatus, filterClinicalStatus, sortColumn, sortDirection }),
+        [filterStatus, filterClinicalStatus, sortColumn, sortDirection]
     );
     
     const [editingAppointment, setEditingAppointment] = useState<Appointment | null>(null);
     const [viewingAppointment, setViewingAppointment] = useState<Appointment | null>(null);
+    const [endodonticRecords, setEndodonticRecords] = useState<EndodonticRecord[]>([]);
+    const [endodonticForm, setEndodonticForm] = useState<EndodonticFormState | null>(null);
+    const [editingEndodonticRecordId, setEditingEndodonticRecordId] = useState<string | null>(null);
+    const [savingEndodonticRecord, setSavingEndodonticRecord] = useState<boolean>(false);
+    const [recurrence, setRecurrence] = useState<RecurrenceFormState>(EMPTY_RECURRENCE_FORM);
+    const [series, setSeries] = useState<AppointmentEntity[]>([]);
+    const [seriesEdit, setSeriesEdit] = useState<{ time: string; procedure: string } | null>(null);
+    const [followUpMonths, setFollowUpMonths] = useState<number[]>([...AppointmentConstants.DEFAULT_FOLLOW_UP_MONTHS]);
+    const [seriesBusy, setSeriesBusy] = useState<boolean>(false);
+    const [appointmentPayments, setAppointmentPayments] = useState<AppointmentPayments | null>(null);
+    const [paymentForm, setPaymentForm] = useState<PaymentFormState | null>(null);
+    const [installmentForm, setInstallmentForm] = useState<InstallmentFormState | null>(null);
+    const [paymentBusy, setPaymentBusy] = useState<boolean>(false);
+    const [commissionRule, setCommissionRule] = useState<CommissionRule | null>(null);
+    const [listPrice, setListPrice] = useState<ProcedurePrice | null>(null);
+    const [anamnesisStatus, setAnamnesisStatus] = useState<AnamnesisStatus | null>(null);
+    const [freeSlots, setFreeSlots] = useState<FreeSlot[]>([]);
+    const [clinicHasWorkingHours, setClinicHasWorkingHours] = useState<boolean>(true);
+    const [isWaitlistOpen, setIsWaitlistOpen] = useState<boolean>(false);
+    const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+    const [waitlistForm, setWaitlistForm] = useState<WaitlistFormState | null>(null);
+    const [waitlistOffer, setWaitlistOffer] = useState<WaitlistOffer | null>(null);
+    const [waitlistBusy, setWaitlistBusy] = useState<boolean>(false);
+    const [cancelling, setCancelling] = useState<{ appointment: Appointment; reason: string; cancelledBy: CancellationActor } | null>(null);
     const [uploadingFiles, setUploadingFiles] = useState<boolean>(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const formRef = useRef<HTMLFormElement>(null);
@@ -193,16 +309,19 @@ const Appointments: React.FC = () => {
         clinic_id: '',
         date: '',
         time: '',
+        duration_minutes: String(AppointmentConstants.DEFAULT_DURATION_MINUTES),
         patient_name: '',
         patient_phone: '',
         patient_email: '',
         patient_id: '',
         procedure: '',
         custom_procedure: '',
+        teeth: '',
         value: '',
         currency: currency || 'BRL',
         payment_type: '100',
         payment_percentage: '',
+        payment_fixed_amount: '',
         is_paid: false,
         payment_date: '',
         clinical_evolution: '',
@@ -562,6 +681,154 @@ const Appointments: React.FC = () => {
         }
     }, [isSubmitting]);
 
+    // Ficha endodôntica do atendimento aberto no modal de visualização
+    const loadEndodonticRecords = useCallback(async (appointmentId: string): Promise<void> => {
+        try {
+            const records = await endodonticRecordService.getByAppointmentId(appointmentId);
+            setEndodonticRecords(records || []);
+        } catch (error) {
+            logger.error(error, { context: 'loadEndodonticRecords' });
+            handleError(error, 'Appointments.loadEndodonticRecords');
+        }
+    }, [endodonticRecordService, handleError]);
+
+    useEffect(() => {
+        setEndodonticForm(null);
+        setEditingEndodonticRecordId(null);
+        setEndodonticRecords([]);
+        if (viewingAppointment) {
+            loadEndodonticRecords(viewingAppointment.id);
+        }
+    }, [viewingAppointment, loadEndodonticRecords]);
+
+    // Série (recorrência ou retornos) do atendimento aberto no modal de visualização
+    const loadSeries = useCallback(async (seriesId: string): Promise<void> => {
+        try {
+            setSeries(await appointmentService.getSeries(seriesId));
+        } catch (error) {
+            logger.error(error, { context: 'loadSeries' });
+            handleError(error, 'Appointments.loadSeries');
+        }
+    }, [appointmentService, handleError]);
+
+    useEffect(() => {
+        setSeries([]);
+        setSeriesEdit(null);
+        setFollowUpMonths([...AppointmentConstants.DEFAULT_FOLLOW_UP_MONTHS]);
+        if (viewingAppointment?.seriesId) {
+            loadSeries(viewingAppointment.seriesId);
+        }
+    }, [viewingAppointment, loadSeries]);
+
+    // Pagamentos e parcelas do atendimento aberto no modal de visualização
+    const loadPayments = useCallback(async (appointmentId: string): Promise<void> => {
+        try {
+            setAppointmentPayments(await paymentService.getByAppointmentId(appointmentId));
+        } catch (error) {
+            logger.error(error, { context: 'loadPayments' });
+            handleError(error, 'Appointments.loadPayments');
+        }
+    }, [paymentService, handleError]);
+
+    useEffect(() => {
+        setAppointmentPayments(null);
+        setPaymentForm(null);
+        setInstallmentForm(null);
+        if (viewingAppointment) {
+            loadPayments(viewingAppointment.id);
+        }
+    }, [viewingAppointment, loadPayments]);
+
+    // Horários livres sugeridos para o novo atendimento (expediente da clínica + agenda)
+    useEffect(() => {
+        setFreeSlots([]);
+        setClinicHasWorkingHours(true);
+        if (!isModalOpen || editingAppointment || !formData.clinic_id) return;
+
+        let cancelled = false;
+        appointmentService.findFreeSlots({
+            clinicId: formData.clinic_id,
+            fromDate: formData.date || undefined,
+            durationMinutes: parseInt(formData.duration_minutes, 10) || AppointmentConstants.DEFAULT_DURATION_MINUTES
+        })
+            .then((result: { slots: FreeSlot[]; hasWorkingHours: boolean }) => {
+                if (cancelled) return;
+                setFreeSlots(result.slots);
+                setClinicHasWorkingHours(result.hasWorkingHours);
+            })
+            .catch((error: unknown) => {
+                // Sugestões são opcionais: o horário continua podendo ser digitado
+                logger.error(error, { context: 'findFreeSlots' });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isModalOpen, editingAppointment, formData.clinic_id, formData.date, formData.duration_minutes, appointmentService]);
+
+    // Regra de comissão da clínica preenche o tipo de pagamento do novo atendimento
+    // (procedimentos digitados em "Outros" usam a regra padrão da clínica)
+    useEffect(() => {
+        setCommissionRule(null);
+        if (!isModalOpen || editingAppointment || !formData.clinic_id || !formData.date) return;
+
+        let cancelled = false;
+        commissionService.resolve(formData.clinic_id, formData.procedure === 'outros' ? '' : formData.procedure, formData.date)
+            .then((rule: CommissionRule | null) => {
+                if (cancelled || !rule) return;
+                setCommissionRule(rule);
+                setFormData(prev => ({ ...prev, ...commissionRuleToPaymentFields(rule) }));
+            })
+            .catch((error: unknown) => {
+                // Sem regra o tipo de pagamento continua podendo ser informado à mão
+                logger.error(error, { context: 'resolveCommissionRule' });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isModalOpen, editingAppointment, formData.clinic_id, formData.procedure, formData.date, commissionService]);
+
+    // Alertas da anamnese do paciente selecionado (alergias, anticoagulantes...)
+    useEffect(() => {
+        setAnamnesisStatus(null);
+        if (!isModalOpen || !formData.patient_id) return;
+
+        let cancelled = false;
+        anamnesisService.getStatus(formData.patient_id)
+            .then((status: AnamnesisStatus) => {
+                if (!cancelled) setAnamnesisStatus(status);
+            })
+            .catch((error: unknown) => {
+                // Os alertas são informativos: o agendamento não depende deles
+                logger.error(error, { context: 'loadAnamnesisStatus' });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isModalOpen, formData.patient_id, anamnesisService]);
+
+    // Tabela de preços da clínica preenche o valor do novo atendimento
+    useEffect(() => {
+        setListPrice(null);
+        const procedureId = procedures.find((p: Procedure) => p.name === formData.procedure)?.id;
+        if (!isModalOpen || editingAppointment || !formData.clinic_id || !formData.date || !procedureId) return;
+
+        let cancelled = false;
+        procedurePriceService.resolve(formData.clinic_id, procedureId, formData.date)
+            .then((price: ProcedurePrice | null) => {
+                if (cancelled || !price) return;
+                setListPrice(price);
+                setFormData(prev => ({ ...prev, value: price.price.amount.toString(), currency: price.price.currency }));
+                setValueDisplay(formatCurrency(price.price.amount, price.price.currency));
+            })
+            .catch((error: unknown) => {
+                // Sem preço de tabela o valor continua podendo ser informado à mão
+                logger.error(error, { context: 'resolveProcedurePrice' });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isModalOpen, editingAppointment, formData.clinic_id, formData.procedure, formData.date, procedures, procedurePriceService]);
+
     // Listener para quando o app volta do background - renovar sessão se necessário
     useEffect(() => {
         const handleVisibilityChange = async () => {
@@ -712,7 +979,7 @@ const Appointments: React.FC = () => {
                     pageSize: pagination.pageSize,
                     orderBy: sortColumn,
                     orderDirection: sortDirection,
-                    filters: filterStatus !== 'all' ? { status: filterStatus } : {}
+                    filters: buildStatusFilters(filterStatus, filterClinicalStatus)
                 }),
                 clinicService.getAll(),
                 patientService.getAll(),
@@ -816,7 +1083,7 @@ const Appointments: React.FC = () => {
                 setLoading(false);
             }
         }
-    }, [pagination.pageSize, sortColumn, sortDirection, filterStatus, appointmentService, clinicService, patientService, procedureService]);
+    }, [pagination.pageSize, sortColumn, sortDirection, filterStatus, filterClinicalStatus, appointmentService, clinicService, patientService, procedureService]);
     
     useEffect(() => {
         const effectRunId = ++effectRunIdCounterRef.current;
@@ -955,7 +1222,7 @@ const Appointments: React.FC = () => {
                     pageSize: pagination.pageSize,
                     orderBy: sortColumn,
                     orderDirection: sortDirection,
-                    filters: filterStatus !== 'all' ? { status: filterStatus } : {}
+                    filters: buildStatusFilters(filterStatus, filterClinicalStatus)
                 }),
                 clinicService.getAll(),
                 patientService.getAll(),
@@ -1031,7 +1298,7 @@ const Appointments: React.FC = () => {
     }, [appointments, appointmentsList]);
     
     const filteredAppointments = appointmentsList.filter((app: Appointment) => {
-        const matchesStatus = filterStatus === 'all' || app.status === filterStatus;
+        const matchesStatus = matchesStatusFilters(app, filterStatus, filterClinicalStatus);
         const matchesSearch = !searchTerm || 
             app.patients?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
             app.clinics?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -1087,10 +1354,9 @@ const Appointments: React.FC = () => {
                 break;
             }
             case 'status': {
-                // Sort by status order: scheduled, pending, paid
-                const statusOrder: Record<string, number> = { 'scheduled': 1, 'pending': 2, 'paid': 3 };
-                aValue = statusOrder[a.status] || 0;
-                bValue = statusOrder[b.status] || 0;
+                // Sort by clinical lifecycle order: scheduled, confirmed, in progress, completed, no-show, cancelled
+                aValue = CLINICAL_STATUSES.indexOf(getClinicalStatus(a));
+                bValue = CLINICAL_STATUSES.indexOf(getClinicalStatus(b));
                 break;
             }
             default:
@@ -1132,10 +1398,11 @@ const Appointments: React.FC = () => {
     const totalReceived = totalStats.received;
     const totalPending = totalStats.pending;
 
-    const handleOpenModal = (appointment: Appointment | null = null): void => {
+    const handleOpenModal = (appointment: Appointment | null = null, prefill: Partial<AppointmentFormData> = {}): void => {
         setPatientSuggestions([]);
         setShowSuggestions(false);
         setValueDisplay('');
+        setRecurrence(EMPTY_RECURRENCE_FORM);
         
         if (appointment) {
             setEditingAppointment(appointment);
@@ -1145,16 +1412,19 @@ const Appointments: React.FC = () => {
                 clinic_id: (appointment as any).clinicId || appointment.clinic_id || '',
                 date: (appointment as any).dateString || (typeof appointment.date === 'string' ? appointment.date : ''),
                 time: appointment.time || '',
+                duration_minutes: String(appointment.durationMinutes ?? AppointmentConstants.DEFAULT_DURATION_MINUTES),
                 patient_name: appointment.patients?.name || '',
                 patient_phone: appointment.patients?.phone ? formatPhoneNumber(appointment.patients.phone) : '',
                 patient_email: appointment.patients?.email || '',
                 patient_id: (appointment as any).patientId || appointment.patient_id || '',
                 procedure: procedureExists ? appointment.procedure : 'outros',
                 custom_procedure: procedureExists ? '' : appointment.procedure || '',
+                teeth: formatTeeth(appointment.teeth),
                 value: appointment.value ? String((appointment.value as any).amount) : '',
                 currency: (appointment.value as any)?.currency || 'BRL',
                 payment_type: (appointment as any).paymentType?.type || '100',
                 payment_percentage: (appointment as any).paymentType?.percentage ? String((appointment as any).paymentType.percentage) : '',
+                payment_fixed_amount: appointment instanceof AppointmentEntity && appointment.paymentType.fixedAmount !== null ? String(appointment.paymentType.fixedAmount) : '',
                 is_paid: (appointment as any).isPaid ?? appointment.is_paid ?? appointment.status === 'paid',
                 payment_date: (appointment as any).paymentDateString || (typeof appointment.payment_date === 'string' ? appointment.payment_date : '') || '',
                 clinical_evolution: (appointment as any).clinicalEvolution ?? appointment.clinical_evolution ?? '',
@@ -1177,13 +1447,24 @@ const Appointments: React.FC = () => {
             setEditingAppointment(null);
             // Sempre começar com formulário limpo quando abrir modal normalmente
             // O rascunho só será restaurado se a página for restaurada do BFCache (via onPageRestored)
-            const newFormData = { ...initialFormData, currency: currency || 'BRL' };
+            const newFormData = { ...initialFormData, currency: currency || 'BRL', ...prefill };
             setFormData(newFormData);
             setValueDisplay('');
         }
         setIsModalOpen(true);
     };
 
+    // Abrir formulário de novo atendimento vindo da agenda (/appointments?new=1&date=...&time=...)
+    useEffect(() => {
+        if (searchParams.get('new') !== '1') return;
+        handleOpenModal(null, {
+            date: searchParams.get('date') || '',
+            time: searchParams.get('time') || ''
+        });
+        setSearchParams({}, { replace: true });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [searchParams]);
+
     // Função de submit reutilizável que pode ser chamada de diferentes formas
     const performSubmit = async (): Promise<void> => {
         const submitId = ++submitIdCounterRef.current;
@@ -1247,6 +1528,15 @@ const Appointments: React.FC = () => {
         }
         logger.debug('Validation passed');
         
+        // Dentes na notação FDI (ex.: "36, 37")
+        const parsedTeeth = parseTeethInput(formData.teeth);
+        if (parsedTeeth.invalid.length > 0) {
+            setValidationErrors({ teeth: `${t('appointments.invalidTeeth')}: ${parsedTeeth.invalid.join(', ')}` });
+            setIsSubmitting(false);
+            showError('Por favor, preencha todos os campos obrigatórios corretamente.');
+            return;
+        }
+        
         // Clear validation errors
         setValidationErrors({});
         
@@ -1296,19 +1586,23 @@ const Appointments: React.FC = () => {
                 clinicId: formData.clinic_id && formData.clinic_id.trim() ? formData.clinic_id : null,
                 date: formData.date,
                 time: formData.time,
+                durationMinutes: parseInt(formData.duration_minutes, 10) || AppointmentConstants.DEFAULT_DURATION_MINUTES,
                 patientName: formData.patient_name && formData.patient_name.trim() ? formData.patient_name.trim() : undefined,
                 patientPhone: formData.patient_phone && formData.patient_phone.trim() ? unformatPhoneNumber(formData.patient_phone) : undefined,
                 patientEmail: formData.patient_email && formData.patient_email.trim() ? formData.patient_email.trim() : undefined,
                 patientId: formData.patient_id && formData.patient_id.trim() ? formData.patient_id : undefined,
                 procedure: finalProcedure,
+                teeth: parsedTeeth.teeth,
                 value: isNaN(valueToSave) ? 0 : valueToSave,
                 currency: formData.currency || 'BRL',
                 paymentType: formData.payment_type || '100',
                 paymentPercentage: formData.payment_percentage && formData.payment_percentage.trim() ? parseFloat(formData.payment_percentage) : null,
+                paymentFixedAmount: formData.payment_type === 'fixed' && formData.payment_fixed_amount.trim() ? parseFloat(formData.payment_fixed_amount) : null,
                 isPaid: formData.is_paid || false,
                 paymentDate: formData.is_paid && formData.payment_date && formData.payment_date.trim() ? formData.payment_date : null,
                 clinicalEvolution: formData.clinical_evolution && formData.clinical_evolution.trim() ? formData.clinical_evolution.trim() : null,
-                notes: formData.notes && formData.notes.trim() ? formData.notes.trim() : null
+                notes: formData.notes && formData.notes.trim() ? formData.notes.trim() : null,
+                recurrence: editingAppointment ? null : recurrenceFormToRule(recurrence)
             };
             
             // Debug: log what's being saved
@@ -1375,10 +1669,11 @@ const Appointments: React.FC = () => {
             
             let appointmentId: string;
             let patientId: string | null;
+            let savedAppointment: AppointmentEntity;
             const isEditing = !!editingAppointment;
             
             // Função auxiliar para tentar criar/atualizar com timeout e AbortController
-            const attemptSave = async (signal: AbortSignal): Promise<{ appointmentId: string; patientId: string | null }> => {
+            const attemptSave = async (signal: AbortSignal): Promise<{ appointmentId: string; patientId: string | null; saved: AppointmentEntity }> => {
                 // Verificar se foi abortado antes de começar
                 if (signal.aborted) {
                     throw new AbortedError('Operação foi cancelada');
@@ -1402,7 +1697,7 @@ const Appointments: React.FC = () => {
                         id: updated.id,
                         patientId: updated.patientId
                     });
-                    return { appointmentId: updated.id, patientId: updated.patientId };
+                    return { appointmentId: updated.id, patientId: updated.patientId, saved: updated };
                 } else {
                     logger.info('performSubmit before create', {
                         timestamp: Date.now(),
@@ -1421,7 +1716,7 @@ const Appointments: React.FC = () => {
                         id: created.id,
                         patientId: created.patientId
                     });
-                    return { appointmentId: created.id, patientId: created.patientId };
+                    return { appointmentId: created.id, patientId: created.patientId, saved: created };
                 }
             };
 
@@ -1458,6 +1753,7 @@ const Appointments: React.FC = () => {
                 clearTimeout(earlyWarningTimerId);
                 appointmentId = result.appointmentId;
                 patientId = result.patientId;
+                savedAppointment = result.saved;
             } catch (saveError) {
                 clearTimeout(earlyWarningTimerId);
                 // Limpar AbortController
@@ -1529,6 +1825,7 @@ const Appointments: React.FC = () => {
                         
                             appointmentId = result.appointmentId;
                             patientId = result.patientId;
+                            savedAppointment = result.saved;
                         
                         logger.info('performSubmit - Retry successful', {
                             timestamp: Date.now(),
@@ -1576,7 +1873,10 @@ const Appointments: React.FC = () => {
                             await radiographService.uploadRadiograph(
                                 patientId,
                                 appointmentId,
-                                        radiograph.file!
+                                        radiograph.file!,
+                                        null,
+                                        null,
+                                        parsedTeeth.teeth
                                     );
                                 },
                                 {
@@ -1639,9 +1939,18 @@ const Appointments: React.FC = () => {
             showSuccess(
                 isEditing 
                     ? t('appointments.updateSuccess') || 'Atendimento atualizado com sucesso!'
-                    : t('appointments.createSuccess') || 'Atendimento criado com sucesso!'
+                    : savedAppointment.seriesId
+                        ? t('appointments.seriesCreateSuccess')
+                        : t('appointments.createSuccess') || 'Atendimento criado com sucesso!'
             );
             
+            // Avisar sobre deslocamento apertado entre clínicas no mesmo dia (não bloqueia o salvamento)
+            appointmentService.getTravelWarnings(savedAppointment)
+                .then((warnings: string[]) => warnings.forEach((warning) => showWarning(warning)))
+                .catch((error: unknown) => {
+                    logger.error(error, { context: 'getTravelWarnings after save' });
+                });
+            
             // Recarregar dados de forma assíncrona e não-bloqueante
             // Usar setTimeout para garantir que o estado seja atualizado primeiro
             setTimeout(() => {
@@ -1822,15 +2131,329 @@ const Appointments: React.FC = () => {
         }
     };
 
-    const getStatusBadge = (status: 'scheduled' | 'pending' | 'paid'): React.ReactElement => {
-        switch (status) {
-            case 'paid': return <Badge variant="success">{t('appointments.paid')}</Badge>;
-            case 'pending': return <Badge variant="warning">{t('appointments.pending')}</Badge>;
-            case 'scheduled': return <Badge variant="primary">{t('appointments.scheduled')}</Badge>;
-            default: return <Badge>{t('appointments.unknown')}</Badge>;
+    const getStatusBadges = (app: Appointment): React.ReactElement => {
+        const clinicalStatus = getClinicalStatus(app);
+        const paymentStatus = getPaymentStatus(app);
+        return (
+            <div className="flex flex-wrap gap-1">
+                <Badge variant={CLINICAL_STATUS_BADGE[clinicalStatus]}>{t(`appointments.clinicalStatuses.${clinicalStatus}`)}</Badge>
+                <Badge variant={PAYMENT_STATUS_BADGE[paymentStatus]}>{t(`appointments.${paymentStatus}`)}</Badge>
+            </div>
+        );
+    };
+
+    const handleClinicalStatusChange = async (app: Appointment, next: ClinicalStatusValue): Promise<void> => {
+        if (next === 'cancelled') {
+            setCancelling({ appointment: app, reason: '', cancelledBy: 'patient' });
+            return;
+        }
+        try {
+            await appointmentService.update(app.id, { clinicalStatus: next });
+            showSuccess(t('appointments.clinicalStatusUpdated'));
+            setViewingAppointment(null);
+            loadData();
+            loadTotalStats();
+        } catch (error) {
+            logger.error(error, { context: 'changeClinicalStatus' });
+            handleError(error, 'Appointments.changeClinicalStatus');
+        }
+    };
+
+    const handleConfirmCancel = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!cancelling) return;
+
+        try {
+            const cancelled = await appointmentService.cancel(cancelling.appointment.id, {
+                reason: cancelling.reason.trim() || null,
+                cancelledBy: cancelling.cancelledBy
+            });
+            showSuccess(t('appointments.clinicalStatusUpdated'));
+            if (cancelled.isLateCancellation) {
+                showWarning(cancelled.cancellationFee
+                    ? `${t('appointments.lateCancellationFee')}: ${formatCurrency(cancelled.cancellationFee, cancelled.value.currency)}`
+                    : t('appointments.lateCancellation'));
+            }
+            setCancelling(null);
+            setViewingAppointment(null);
+            loadData();
+            loadTotalStats();
+            await handleOfferFreedSlot(cancelling.appointment.id, false);
+        } catch (error) {
+            logger.error(error, { context: 'cancelAppointment' });
+            handleError(error, 'Appointments.cancelAppointment');
+        }
+    };
+
+    const handleOpenEndodonticForm = (record: EndodonticRecord | null = null): void => {
+        if (record) {
+            setEditingEndodonticRecordId(record.id);
+            setEndodonticForm(endodonticRecordToForm(record));
+        } else {
+            const teeth = viewingAppointment?.teeth || [];
+            setEditingEndodonticRecordId(null);
+            setEndodonticForm(emptyEndodonticForm(teeth.length === 1 ? teeth[0] : null));
+        }
+    };
+
+    const handleSaveEndodonticRecord = async (): Promise<void> => {
+        if (!viewingAppointment || !endodonticForm) return;
+
+        try {
+            setSavingEndodonticRecord(true);
+            const payload = endodonticFormToDTO(endodonticForm);
+            if (editingEndodonticRecordId) {
+                await endodonticRecordService.update(editingEndodonticRecordId, payload);
+            } else {
+                await endodonticRecordService.create({
+                    ...payload,
+                    appointmentId: viewingAppointment.id,
+                    tooth: Number(endodonticForm.tooth)
+                });
+            }
+            showSuccess(t('appointments.endodonticRecordSaved'));
+            setEndodonticForm(null);
+            setEditingEndodonticRecordId(null);
+            await loadEndodonticRecords(viewingAppointment.id);
+        } catch (error) {
+            logger.error(error, { context: 'saveEndodonticRecord' });
+            handleError(error, 'Appointments.saveEndodonticRecord');
+        } finally {
+            setSavingEndodonticRecord(false);
+        }
+    };
+
+    const handleDeleteEndodonticRecord = async (recordId: string): Promise<void> => {
+        if (!viewingAppointment || !window.confirm(t('appointments.endodonticRecordDeleteConfirm'))) return;
+
+        try {
+            await endodonticRecordService.delete(recordId);
+            await loadEndodonticRecords(viewingAppointment.id);
+        } catch (error) {
+            logger.error(error, { context: 'deleteEndodonticRecord' });
+            handleError(error, 'Appointments.deleteEndodonticRecord');
+        }
+    };
+
+    /**
+     * Executa uma operação de pagamento e atualiza saldo, lista e totais
+     */
+    const runPaymentAction = async (action: () => Promise<unknown>, context: string): Promise<void> => {
+        if (!viewingAppointment) return;
+
+        try {
+            setPaymentBusy(true);
+            await action();
+            showSuccess(t('appointments.paymentsUpdated'));
+            setPaymentForm(null);
+            setInstallmentForm(null);
+            await loadPayments(viewingAppointment.id);
+            loadData();
+            loadTotalStats();
+        } catch (error) {
+            logger.error(error, { context });
+            handleError(error, `Appointments.${context}`);
+        } finally {
+            setPaymentBusy(false);
+        }
+    };
+
+    const handleRecordPayment = (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!viewingAppointment || !paymentForm) return Promise.resolve();
+        return runPaymentAction(
+            () => paymentService.record(paymentFormToDTO(viewingAppointment.id, paymentForm)),
+            'recordPayment'
+        );
+    };
+
+    const handleCreateInstallments = (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!viewingAppointment || !installmentForm) return Promise.resolve();
+        return runPaymentAction(
+            () => paymentService.createInstallmentPlan(installmentFormToDTO(viewingAppointment.id, installmentForm)),
+            'createInstallments'
+        );
+    };
+
+    const handlePayInstallment = (paymentId: string, method: PaymentMethod | null): Promise<void> =>
+        runPaymentAction(
+            () => paymentService.payInstallment(paymentId, {
+                paidDate: toISODate(new Date()),
+                method: method ?? 'pix'
+            }),
+            'payInstallment'
+        );
+
+    const handleDeletePayment = (paymentId: string): Promise<void> => {
+        if (!window.confirm(t('appointments.paymentDeleteConfirm'))) return Promise.resolve();
+        return runPaymentAction(() => paymentService.delete(paymentId), 'deletePayment');
+    };
+
+    const handleCreateFollowUps = async (app: Appointment): Promise<void> => {
+        if (followUpMonths.length === 0) return;
+
+        try {
+            setSeriesBusy(true);
+            await appointmentService.createFollowUpSeries({
+                sourceAppointmentId: app.id,
+                offsets: followUpMonths.map(amount => ({ amount, unit: 'months' as const }))
+            });
+            showSuccess(t('appointments.followUpsCreated'));
+            setViewingAppointment(null);
+            loadData();
+        } catch (error) {
+            logger.error(error, { context: 'createFollowUps' });
+            handleError(error, 'Appointments.createFollowUps');
+        } finally {
+            setSeriesBusy(false);
+        }
+    };
+
+    const handleUpdateSeries = async (seriesId: string): Promise<void> => {
+        if (!seriesEdit) return;
+
+        try {
+            setSeriesBusy(true);
+            await appointmentService.updateSeries({
+                seriesId,
+                time: seriesEdit.time || undefined,
+                procedure: seriesEdit.procedure.trim() || undefined
+            });
+            showSuccess(t('appointments.seriesUpdated'));
+            setSeriesEdit(null);
+            await loadSeries(seriesId);
+            loadData();
+        } catch (error) {
+            logger.error(error, { context: 'updateSeries' });
+            handleError(error, 'Appointments.updateSeries');
+        } finally {
+            setSeriesBusy(false);
+        }
+    };
+
+    const handleCancelSeries = async (seriesId: string): Promise<void> => {
+        if (!window.confirm(t('appointments.seriesCancelConfirm'))) return;
+
+        try {
+            setSeriesBusy(true);
+            const { cancelled, skipped } = await appointmentService.cancelSeries(seriesId);
+            showSuccess(`${t('appointments.seriesCancelled')}: ${cancelled.length}`);
+            if (skipped.length > 0) {
+                showWarning(`${t('appointments.seriesCancelSkipped')}: ${skipped.length}`);
+            }
+            setViewingAppointment(null);
+            loadData();
+            loadTotalStats();
+        } catch (error) {
+            logger.error(error, { context: 'cancelSeries' });
+            handleError(error, 'Appointments.cancelSeries');
+        } finally {
+            setSeriesBusy(false);
+        }
+    };
+
+    const loadWaitlist = async (): Promise<void> => {
+        try {
+            setWaitlist(await waitlistService.getWaiting());
+        } catch (error) {
+            logger.error(error, { context: 'loadWaitlist' });
+            handleError(error, 'Appointments.loadWaitlist');
         }
     };
 
+    const handleOpenWaitlist = (): void => {
+        setIsWaitlistOpen(true);
+        setWaitlistForm(null);
+        loadWaitlist();
+    };
+
+    const handleSaveWaitlistEntry = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!waitlistForm) return;
+
+        try {
+            setWaitlistBusy(true);
+            await waitlistService.create(waitlistFormToDTO(waitlistForm));
+            showSuccess(t('appointments.waitlistAdded'));
+            setWaitlistForm(null);
+            await loadWaitlist();
+        } catch (error) {
+            logger.error(error, { context: 'saveWaitlistEntry' });
+            handleError(error, 'Appointments.saveWaitlistEntry');
+        } finally {
+            setWaitlistBusy(false);
+        }
+    };
+
+    const handleRemoveWaitlistEntry = async (entryId: string): Promise<void> => {
+        if (!window.confirm(t('appointments.waitlistRemoveConfirm'))) return;
+
+        try {
+            await waitlistService.remove(entryId);
+            await loadWaitlist();
+        } catch (error) {
+            logger.error(error, { context: 'removeWaitlistEntry' });
+            handleError(error, 'Appointments.removeWaitlistEntry');
+        }
+    };
+
+    /**
+     * Procura na lista de espera quem aceita o horário liberado pelo cancelamento
+     * Após um cancelamento só abre a oferta quando há candidatos
+     */
+    const handleOfferFreedSlot = async (appointmentId: string, notifyWhenEmpty: boolean): Promise<void> => {
+        try {
+            const offer = await waitlistService.findMatchesForAppointment(appointmentId);
+            if (offer.entries.length > 0) {
+                setViewingAppointment(null);
+                setWaitlistOffer(offer);
+            } else if (notifyWhenEmpty) {
+                showWarning(t('appointments.waitlistNoMatches'));
+            }
+        } catch (error) {
+            logger.error(error, { context: 'offerFreedSlot' });
+            handleError(error, 'Appointments.offerFreedSlot');
+        }
+    };
+
+    const handleBookFromWaitlist = async (entry: WaitlistEntry): Promise<void> => {
+        if (!waitlistOffer) return;
+
+        try {
+            setWaitlistBusy(true);
+            await waitlistService.book({
+                entryId: entry.id,
+                clinicId: waitlistOffer.slot.clinicId,
+                date: waitlistOffer.slot.date,
+                time: waitlistOffer.slot.time
+            });
+            showSuccess(t('appointments.waitlistBooked'));
+            setWaitlistOffer(null);
+            loadData();
+            loadTotalStats();
+        } catch (error) {
+            logger.error(error, { context: 'bookFromWaitlist' });
+            handleError(error, 'Appointments.bookFromWaitlist');
+        } finally {
+            setWaitlistBusy(false);
+        }
+    };
+
+    const patientNameById = (patientId: string): string =>
+        patients.find(patient => patient.id === patientId)?.name || t('appointments.patient');
+
+    const describeWaitlistPreferences = (entry: WaitlistEntry): string => [
+        entry.clinicId ? clinics.find(clinic => clinic.id === entry.clinicId)?.name : t('appointments.waitlistAnyClinic'),
+        entry.preferredWeekdays.length > 0
+            ? entry.preferredWeekdays.map(weekday => t(`clinics.weekdays.${weekday}`)).join(', ')
+            : t('appointments.waitlistAnyDay'),
+        entry.preferredStart || entry.preferredEnd
+            ? `${entry.preferredStart || '00:00'}–${entry.preferredEnd || '23:59'}`
+            : t('appointments.waitlistAnyTime'),
+        `${entry.durationMinutes} min`
+    ].filter(Boolean).join(' • ');
+
     const containerVariants: Variants = {
         hidden: { opacity: 0 },
         show: {
@@ -1857,13 +2480,22 @@ const Appointments: React.FC = () => {
                         <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-1 sm:mb-2">{t('appointments.title')}</h2>
                         <p className="text-sm sm:text-base text-white/90">{t('appointments.subtitle')}</p>
                     </div>
-                    <Button 
-                        onClick={() => handleOpenModal()} 
-                        className="gap-2 bg-white dark:bg-gray-800 text-sky-600 dark:text-sky-400 hover:bg-gray-50 dark:hover:bg-gray-700 shadow-lg w-full sm:w-auto text-sm sm:text-base"
-                    >
-                        <Plus size={18} />
-                        {t('appointments.newAppointment')}
-                    </Button>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <Button
+                            onClick={handleOpenWaitlist}
+                            className="gap-2 bg-white/20 text-white hover:bg-white/30 border border-white/30 w-full sm:w-auto text-sm sm:text-base"
+                        >
+                            <ListOrdered size={18} />
+                            {t('appointments.waitlist')}
+                        </Button>
+                        <Button 
+                            onClick={() => handleOpenModal()} 
+                            className="gap-2 bg-white dark:bg-gray-800 text-sky-600 dark:text-sky-400 hover:bg-gray-50 dark:hover:bg-gray-700 shadow-lg w-full sm:w-auto text-sm sm:text-base"
+                        >
+                            <Plus size={18} />
+                            {t('appointments.newAppointment')}
+                        </Button>
+                    </div>
                 </div>
 
                 {/* Summary Cards */}
@@ -1889,8 +2521,9 @@ const Appointments: React.FC = () => {
 
             <Card className="p-0 overflow-hidden">
                 <div className="p-3 sm:p-4 border-b border-slate-100 dark:border-gray-700 flex flex-col sm:flex-row gap-3 sm:gap-4 justify-between items-stretch sm:items-center bg-slate-50/50 dark:bg-gray-800/50">
+                    <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
                     <div className="flex gap-1 sm:gap-2 p-1 bg-slate-200/50 dark:bg-gray-700/50 rounded-xl overflow-x-auto">
-                        {(['all', 'scheduled', 'pending', 'paid'] as FilterStatus[]).map((status) => (
+                        {(['all', 'pending', 'partial', 'paid'] as PaymentStatusFilter[]).map((status) => (
                             <button
                                 key={status}
                                 onClick={() => setFilterStatus(status)}
@@ -1901,10 +2534,22 @@ const Appointments: React.FC = () => {
                             >
                                 {status === 'all' ? t('appointments.filterAll') :
                                     status === 'paid' ? t('appointments.filterPaid') :
-                                        status === 'pending' ? t('appointments.filterPending') : t('appointments.filterScheduled')}
+                                    status === 'partial' ? t('appointments.filterPartial') : t('appointments.filterPending')}
                             </button>
                         ))}
                     </div>
+                    <select
+                        value={filterClinicalStatus}
+                        onChange={(e) => setFilterClinicalStatus(e.target.value as ClinicalStatusFilter)}
+                        aria-label={t('appointments.clinicalStatus')}
+                        className="px-3 py-2 rounded-xl border border-slate-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-slate-700 dark:text-gray-200 min-h-[44px] outline-none focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500"
+                    >
+                        <option value="all">{t('appointments.allClinicalStatuses')}</option>
+                        {CLINICAL_STATUSES.map(status => (
+                            <option key={status} value={status}>{t(`appointments.clinicalStatuses.${status}`)}</option>
+                        ))}
+                    </select>
+                    </div>
 
                     <div className="relative w-full sm:w-64">
                         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500" size={18} />
@@ -2055,6 +2700,9 @@ const Appointments: React.FC = () => {
                                 </TableCell>
                                 <TableCell>
                                     <span className="font-medium text-slate-700 dark:text-gray-300">{sanitizeText(app.procedure)}</span>
+                                    {app.teeth && app.teeth.length > 0 && (
+                                        <span className="block text-xs text-slate-500 dark:text-gray-400">{t('appointments.teeth')}: {formatTeeth(app.teeth)}</span>
+                                    )}
                                 </TableCell>
                                 <TableCell>
                                     <div className="flex flex-col text-sm">
@@ -2064,7 +2712,7 @@ const Appointments: React.FC = () => {
                                         </span>
                                         <span className="flex items-center gap-1.5 text-slate-500 dark:text-gray-400 mt-0.5">
                                             <Clock size={14} className="text-slate-400 dark:text-gray-500" />
-                                            {formatTime(app.time)}
+                                            {formatTime(app.time)}{app.endTime && ` – ${formatTime(app.endTime)}`}
                                         </span>
                                     </div>
                                 </TableCell>
@@ -2079,15 +2727,14 @@ const Appointments: React.FC = () => {
                                         <span className="font-semibold text-slate-700 dark:text-white">
                                             {formatCurrency(app.value.amount, app.value.currency || currency)}
                                         </span>
-                                        {app.paymentType.type === 'percentage' && app.paymentType.percentage && (
-                                            <span className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">
-                                                Recebido: {formatCurrency(app.calculateReceivedValue().amount, app.value.currency || currency)} ({app.paymentType.percentage}%)
-                                            </span>
+                                        {/* As linhas da tabela são entidades Appointment carregadas pelo serviço */}
+                                        {app instanceof AppointmentEntity && (
+                                            <ReceivedShare appointment={app} fixedLabel={t('appointments.fixedAmount')} />
                                         )}
                                     </div>
                                 </TableCell>
                                 <TableCell>
-                                    {getStatusBadge(app.status)}
+                                    {getStatusBadges(app)}
                                 </TableCell>
                                 <TableCell>
                                     <div className="flex items-center gap-2">
@@ -2227,6 +2874,60 @@ const Appointments: React.FC = () => {
                             {validationErrors.time && (
                                 <p className="text-red-500 text-sm mt-1">{validationErrors.time}</p>
                             )}
+                            {!editingAppointment && formData.clinic_id && (
+                                <div className="mt-2">
+                                    {freeSlots.length > 0 ? (
+                                        <>
+                                            <p className="text-xs text-slate-500 dark:text-gray-400 mb-1">{t('appointments.suggestedSlots')}</p>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {freeSlots.map(slot => {
+                                                    const selected = formData.date === slot.date && formData.time === slot.time;
+                                                    return (
+                                                        <button
+                                                            key={`${slot.date} ${slot.time}`}
+                                                            type="button"
+                                                            className={`px-2 py-1 rounded-lg text-xs border transition-colors ${
+                                                                selected
+                                                                    ? 'bg-sky-600 border-sky-600 text-white'
+                                                                    : 'border-sky-200 dark:border-sky-800 text-sky-700 dark:text-sky-300 hover:bg-sky-50 dark:hover:bg-sky-900/20'
+                                                            }`}
+                                                            onClick={() => {
+                                                                setFormData({ ...formData, date: slot.date, time: slot.time });
+                                                                setValidationErrors({ ...validationErrors, date: null, time: null });
+                                                            }}
+                                                        >
+                                                            {slot.date === formData.date ? '' : `${formatDate(slot.date)} `}{slot.time}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <p className="text-xs text-slate-500 dark:text-gray-400">
+                                            {clinicHasWorkingHours ? t('appointments.noFreeSlots') : t('appointments.noWorkingHours')}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                            <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2 mt-3">
+                                {t('appointments.duration')}
+                            </label>
+                            <select
+                                className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                value={formData.duration_minutes}
+                                onChange={(e: ChangeEvent<HTMLSelectElement>) => setFormData({ ...formData, duration_minutes: e.target.value })}
+                            >
+                                {(DURATION_OPTIONS.includes(Number(formData.duration_minutes))
+                                    ? DURATION_OPTIONS
+                                    : [...DURATION_OPTIONS, Number(formData.duration_minutes)].filter((m) => m > 0).sort((a, b) => a - b)
+                                ).map((minutes) => (
+                                    <option key={minutes} value={String(minutes)}>
+                                        {minutes < 60
+                                            ? `${minutes} min`
+                                            : `${Math.floor(minutes / 60)}h${minutes % 60 ? String(minutes % 60).padStart(2, '0') : ''}`}
+                                    </option>
+                                ))}
+                            </select>
                         </div>
                         <div>
                             <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">
@@ -2293,6 +2994,15 @@ const Appointments: React.FC = () => {
                         </div>
                     </div>
 
+                    {anamnesisStatus && (
+                        <AnamnesisAlerts
+                            status={anamnesisStatus}
+                            missingLabel={t('appointments.anamnesisMissing')}
+                            reviewDueLabel={t('appointments.anamnesisReviewDue')}
+                            className="-mt-2"
+                        />
+                    )}
+
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <Input
                             label={t('appointments.phone')}
@@ -2356,6 +3066,21 @@ const Appointments: React.FC = () => {
                         )}
                     </div>
 
+                    <div>
+                        <Input
+                            label={t('appointments.teeth')}
+                            placeholder={t('appointments.teethPlaceholder')}
+                            value={formData.teeth}
+                            error={validationErrors.teeth || undefined}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                                setFormData({ ...formData, teeth: e.target.value });
+                                if (validationErrors.teeth) {
+                                    setValidationErrors({ ...validationErrors, teeth: null });
+                                }
+                            }}
+                        />
+                    </div>
+
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                         <div>
                             <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">
@@ -2487,10 +3212,48 @@ const Appointments: React.FC = () => {
                             >
                                 <option value="100">100%</option>
                                 <option value="percentage">{t('appointments.percentage')}</option>
+                                <option value="fixed">{t('appointments.fixedAmount')}</option>
                             </select>
                         </div>
                     </div>
 
+                    {listPrice && (
+                        <p className="text-xs text-slate-500 dark:text-gray-400">
+                            {parseFloat(formData.value || '0') === listPrice.price.amount && formData.currency === listPrice.price.currency
+                                ? `${t('appointments.listPriceApplied')} ${formatDate(listPrice.effectiveFrom)}`
+                                : `${t('appointments.listPriceDiverges')} ${formatCurrency(listPrice.price.amount, listPrice.price.currency)}`}
+                        </p>
+                    )}
+
+                    {commissionRule && (
+                        <p className="text-xs text-slate-500 dark:text-gray-400">
+                            {paymentFieldsMatchRule(formData, commissionRule)
+                                ? `${t('appointments.commissionRuleApplied')} ${formatDate(commissionRule.effectiveFrom)}`
+                                : t('appointments.commissionRuleOverridden')}
+                        </p>
+                    )}
+
+                    {formData.payment_type === 'fixed' && (
+                        <div className="space-y-3">
+                            <Input
+                                label={t('appointments.fixedAmountValue')}
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={formData.payment_fixed_amount}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({ ...formData, payment_fixed_amount: e.target.value })}
+                            />
+                            {formData.value && formData.payment_fixed_amount && (
+                                <div className="p-4 bg-sky-50 dark:bg-sky-900/20 border border-sky-200 dark:border-sky-800 rounded-xl flex justify-between items-center">
+                                    <span className="text-sm font-bold text-sky-900 dark:text-sky-200">{t('appointments.amountToReceive')}</span>
+                                    <span className="text-lg font-bold text-sky-900 dark:text-sky-200">
+                                        {formatCurrency(Math.min(parseFloat(formData.payment_fixed_amount || '0'), parseFloat(formData.value || '0')), formData.currency || currency)}
+                                    </span>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {formData.payment_type === 'percentage' && (
                         <div className="space-y-3">
                             <Input
@@ -2682,6 +3445,73 @@ const Appointments: React.FC = () => {
                         )}
                     </div>
 
+                    {/* Recorrência (apenas na criação) */}
+                    {!editingAppointment && (
+                        <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    className="rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                                    checked={recurrence.enabled}
+                                    onChange={(e: ChangeEvent<HTMLInputElement>) => setRecurrence({ ...recurrence, enabled: e.target.checked })}
+                                />
+                                <Repeat size={16} />
+                                {t('appointments.repeat')}
+                            </label>
+                            {recurrence.enabled && (
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                    <Input
+                                        label={t('appointments.repeatEvery')}
+                                        type="number"
+                                        min={1}
+                                        max={365}
+                                        value={recurrence.interval}
+                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setRecurrence({ ...recurrence, interval: e.target.value })}
+                                    />
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.repeatFrequency')}</label>
+                                        <select
+                                            className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                            value={recurrence.frequency}
+                                            onChange={(e: ChangeEvent<HTMLSelectElement>) => setRecurrence({ ...recurrence, frequency: e.target.value as RecurrenceFormState['frequency'] })}
+                                        >
+                                            <option value="daily">{t('appointments.days')}</option>
+                                            <option value="weekly">{t('appointments.weeks')}</option>
+                                            <option value="monthly">{t('appointments.months')}</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.repeatEnd')}</label>
+                                        <select
+                                            className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                            value={recurrence.endType}
+                                            onChange={(e: ChangeEvent<HTMLSelectElement>) => setRecurrence({ ...recurrence, endType: e.target.value as RecurrenceFormState['endType'] })}
+                                        >
+                                            <option value="count">{t('appointments.repeatCount')}</option>
+                                            <option value="until">{t('appointments.repeatUntil')}</option>
+                                        </select>
+                                    </div>
+                                    {recurrence.endType === 'count' ? (
+                                        <Input
+                                            label={t('appointments.repeatOccurrences')}
+                                            type="number"
+                                            min={2}
+                                            max={AppointmentConstants.MAX_SERIES_OCCURRENCES}
+                                            value={recurrence.count}
+                                            onChange={(e: ChangeEvent<HTMLInputElement>) => setRecurrence({ ...recurrence, count: e.target.value })}
+                                        />
+                                    ) : (
+                                        <DateInput
+                                            label={t('appointments.repeatUntil')}
+                                            value={recurrence.until}
+                                            onChange={(e) => setRecurrence({ ...recurrence, until: e.target.value })}
+                                        />
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     <div>
                         <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.radiographs')}</label>
                         <input
@@ -2855,6 +3685,7 @@ const Appointments: React.FC = () => {
                     const notes = (app as any).notes ?? app.notes;
                     const paymentType = (app as any).paymentType?.type || app.payment_type;
                     const paymentPercentage = (app as any).paymentType?.percentage ?? app.payment_percentage;
+                    const paymentFixedAmount = app instanceof AppointmentEntity ? app.paymentType.fixedAmount : null;
                     const valueAmount = (app.value as any)?.amount ?? app.value;
                     const valueCurrency = (app.value as any)?.currency || app.currency || currency;
 
@@ -2876,7 +3707,7 @@ const Appointments: React.FC = () => {
                                         )}
                                     </div>
                                 </div>
-                                <div>{getStatusBadge(app.status)}</div>
+                                <div>{getStatusBadges(app)}</div>
                             </div>
 
                             <hr className="border-slate-200 dark:border-gray-700" />
@@ -2887,7 +3718,7 @@ const Appointments: React.FC = () => {
                                     <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide mb-1">Data e Hora</p>
                                     <p className="text-sm text-slate-800 dark:text-white flex items-center gap-1.5">
                                         <Calendar size={14} className="text-slate-400" />
-                                        {formatDate(app.date)} às {formatTime(app.time)}
+                                        {formatDate(app.date)} às {formatTime(app.time)}{app.endTime && ` – ${formatTime(app.endTime)}`}
                                     </p>
                                 </div>
                                 <div>
@@ -2901,6 +3732,12 @@ const Appointments: React.FC = () => {
                                     <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide mb-1">Procedimento</p>
                                     <p className="text-sm text-slate-800 dark:text-white">{sanitizeText(app.procedure)}</p>
                                 </div>
+                                {app.teeth && app.teeth.length > 0 && (
+                                    <div>
+                                        <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide mb-1">{t('appointments.teeth')}</p>
+                                        <p className="text-sm text-slate-800 dark:text-white">{formatTeeth(app.teeth)}</p>
+                                    </div>
+                                )}
                                 <div>
                                     <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide mb-1">E-mail</p>
                                     <p className="text-sm text-slate-800 dark:text-white flex items-center gap-1.5">
@@ -2930,6 +3767,14 @@ const Appointments: React.FC = () => {
                                             </p>
                                         </div>
                                     )}
+                                    {paymentType === 'fixed' && paymentFixedAmount !== null && (
+                                        <div>
+                                            <p className="text-xs text-slate-500 dark:text-gray-400 mb-1">Repasse ({t('appointments.fixedAmount')})</p>
+                                            <p className="text-sm font-semibold text-slate-800 dark:text-white">
+                                                {formatCurrency(Math.min(paymentFixedAmount, Number(valueAmount)), valueCurrency)}
+                                            </p>
+                                        </div>
+                                    )}
                                     <div>
                                         <p className="text-xs text-slate-500 dark:text-gray-400 mb-1">Pagamento</p>
                                         <p className="text-sm text-slate-800 dark:text-white">
@@ -2937,6 +3782,8 @@ const Appointments: React.FC = () => {
                                                 <span className="text-emerald-600 dark:text-emerald-400 font-medium">
                                                     Pago{paymentDate ? ` em ${formatDate(paymentDate)}` : ''}
                                                 </span>
+                                            ) : getPaymentStatus(app) === 'partial' ? (
+                                                <span className="text-sky-600 dark:text-sky-400 font-medium">Parcialmente pago</span>
                                             ) : (
                                                 <span className="text-amber-600 dark:text-amber-400 font-medium">Pendente</span>
                                             )}
@@ -2945,6 +3792,253 @@ const Appointments: React.FC = () => {
                                 </div>
                             </div>
 
+                            {/* Pagamentos e parcelas */}
+                            {appointmentPayments && Number(valueAmount) > 0 && (() => {
+                                const { payments, summary } = appointmentPayments;
+                                const todayStr = toISODate(new Date());
+                                const selectClassName = 'w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white';
+
+                                return (
+                                    <div>
+                                        <div className="flex items-center justify-between mb-2">
+                                            <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide">{t('appointments.payments')}</p>
+                                            {summary.remaining > 0 && !paymentForm && !installmentForm && (
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        variant="ghost"
+                                                        className="text-sm"
+                                                        onClick={() => setPaymentForm({ ...emptyPaymentForm(), amount: summary.remaining.toFixed(2) })}
+                                                    >
+                                                        <Plus size={16} />
+                                                        {t('appointments.recordPayment')}
+                                                    </Button>
+                                                    {summary.scheduled === 0 && (
+                                                        <Button variant="ghost" className="text-sm" onClick={() => setInstallmentForm(emptyInstallmentForm())}>
+                                                            <ListOrdered size={16} />
+                                                            {t('appointments.createInstallments')}
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <p className="text-sm text-slate-700 dark:text-gray-300 mb-3">
+                                            {t('appointments.amountPaid')}: {formatCurrency(summary.paid, valueCurrency)}
+                                            {' • '}
+                                            {t('appointments.remainingBalance')}: {formatCurrency(summary.remaining, valueCurrency)}
+                                        </p>
+
+                                        {paymentForm && (
+                                            <form onSubmit={handleRecordPayment} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 mb-3 space-y-3">
+                                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                                    <Input
+                                                        label={t('appointments.paymentAmount')}
+                                                        type="number"
+                                                        step="0.01"
+                                                        min="0.01"
+                                                        required
+                                                        value={paymentForm.amount}
+                                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                                                    />
+                                                    <DateInput
+                                                        label={t('appointments.paidOn')}
+                                                        value={paymentForm.paidDate}
+                                                        required
+                                                        onChange={(e) => setPaymentForm({ ...paymentForm, paidDate: e.target.value })}
+                                                    />
+                                                    <div>
+                                                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.paymentMethod')}</label>
+                                                        <select
+                                                            className={selectClassName}
+                                                            value={paymentForm.method}
+                                                            onChange={e => setPaymentForm({ ...paymentForm, method: e.target.value as PaymentMethod })}
+                                                        >
+                                                            {PAYMENT_METHODS.map(method => (
+                                                                <option key={method} value={method}>{t(`appointments.paymentMethods.${method}`)}</option>
+                                                            ))}
+                                                        </select>
+                                                    </div>
+                                                </div>
+                                                {paymentForm.method === 'credit_card' && (
+                                                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                                        <div>
+                                                            <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.cardInstallments')}</label>
+                                                            <select
+                                                                className={selectClassName}
+                                                                value={paymentForm.cardInstallments}
+                                                                onChange={e => setPaymentForm({ ...paymentForm, cardInstallments: e.target.value })}
+                                                            >
+                                                                {Array.from({ length: MAX_CARD_INSTALLMENTS }, (_, index) => String(index + 1)).map(count => (
+                                                                    <option key={count} value={count}>{count}x</option>
+                                                                ))}
+                                                            </select>
+                                                        </div>
+                                                    </div>
+                                                )}
+                                                <p className="text-xs text-slate-500 dark:text-gray-400">{t('appointments.paymentFeesHint')}</p>
+                                                <div className="flex justify-end gap-2">
+                                                    <Button type="button" variant="secondary" onClick={() => setPaymentForm(null)}>{t('common.cancel')}</Button>
+                                                    <Button type="submit" disabled={paymentBusy}>{t('common.save')}</Button>
+                                                </div>
+                                            </form>
+                                        )}
+
+                                        {installmentForm && (
+                                            <form onSubmit={handleCreateInstallments} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 mb-3 space-y-3">
+                                                <p className="text-xs text-slate-500 dark:text-gray-400">{t('appointments.installmentsHint')}</p>
+                                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                                    <Input
+                                                        label={t('appointments.installmentCount')}
+                                                        type="number"
+                                                        min="2"
+                                                        max={String(AppointmentConstants.MAX_INSTALLMENTS)}
+                                                        required
+                                                        value={installmentForm.installments}
+                                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setInstallmentForm({ ...installmentForm, installments: e.target.value })}
+                                                    />
+                                                    <DateInput
+                                                        label={t('appointments.firstDueDate')}
+                                                        value={installmentForm.firstDueDate}
+                                                        required
+                                                        onChange={(e) => setInstallmentForm({ ...installmentForm, firstDueDate: e.target.value })}
+                                                    />
+                                                    <Input
+                                                        label={t('appointments.installmentInterval')}
+                                                        type="number"
+                                                        min="1"
+                                                        max="12"
+                                                        value={installmentForm.intervalMonths}
+                                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setInstallmentForm({ ...installmentForm, intervalMonths: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="flex justify-end gap-2">
+                                                    <Button type="button" variant="secondary" onClick={() => setInstallmentForm(null)}>{t('common.cancel')}</Button>
+                                                    <Button type="submit" disabled={paymentBusy}>{t('common.save')}</Button>
+                                                </div>
+                                            </form>
+                                        )}
+
+                                        {payments.length > 0 ? (
+                                            <ul className="space-y-1">
+                                                {payments.map(payment => (
+                                                    <li key={payment.id} className="flex flex-wrap items-center justify-between gap-2 text-sm rounded-lg px-3 py-1.5 bg-slate-50 dark:bg-gray-800">
+                                                        <span className="text-slate-800 dark:text-white">
+                                                            {payment.installmentNumber
+                                                                ? `${t('appointments.installment')} ${payment.installmentNumber}/${payment.installmentCount}`
+                                                                : t('appointments.payment')}
+                                                            {' • '}
+                                                            {formatCurrency(payment.amount.amount, payment.amount.currency)}
+                                                            {' • '}
+                                                            {formatDate(payment.paidDate ?? payment.dueDate ?? '')}
+                                                            {payment.method && ` • ${t(`appointments.paymentMethods.${payment.method}`)}`}
+                                                            {payment.cardInstallments && payment.cardInstallments > 1 && ` ${payment.cardInstallments}x`}
+                                                            {payment.isPaid && !payment.fee.isZero && (
+                                                                <span className="block text-xs text-slate-500 dark:text-gray-400">
+                                                                    {t('appointments.paymentFee')}: {formatCurrency(payment.fee.amount, payment.fee.currency)}
+                                                                    {' • '}
+                                                                    {t('appointments.paymentNet')}: {formatCurrency(payment.netAmount.amount, payment.netAmount.currency)}
+                                                                </span>
+                                                            )}
+                                                            {payment.expectedSettlements().some(settlement => settlement.date > (payment.paidDate ?? '')) && (
+                                                                <span className="block text-xs text-slate-500 dark:text-gray-400">
+                                                                    {t('appointments.expectedSettlement')}:{' '}
+                                                                    {payment.expectedSettlements()
+                                                                        .map(settlement => `${formatDate(settlement.date)} (${formatCurrency(settlement.amount.amount, settlement.amount.currency)})`)
+                                                                        .join(', ')}
+                                                                </span>
+                                                            )}
+                                                        </span>
+                                                        <span className="flex items-center gap-2">
+                                                            {payment.isPaid ? (
+                                                                <Badge variant="success">{t('appointments.paid')}</Badge>
+                                                            ) : payment.isOverdue(todayStr) ? (
+                                                                <Badge variant="danger">{t('appointments.overdue')}</Badge>
+                                                            ) : (
+                                                                <Badge variant="warning">{t('appointments.open')}</Badge>
+                                                            )}
+                                                            {!payment.isPaid && (
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    className="text-sm"
+                                                                    disabled={paymentBusy}
+                                                                    onClick={() => handlePayInstallment(payment.id, payment.method)}
+                                                                >
+                                                                    <DollarSign size={14} />
+                                                                    {t('appointments.markInstallmentPaid')}
+                                                                </Button>
+                                                            )}
+                                                            <button
+                                                                onClick={() => handleDeletePayment(payment.id)}
+                                                                disabled={paymentBusy}
+                                                                title={t('common.delete')}
+                                                                className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg"
+                                                            >
+                                                                <Trash2 size={14} />
+                                                            </button>
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        ) : (
+                                            <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('appointments.noPayments')}</p>
+                                        )}
+                                    </div>
+                                );
+                            })()}
+
+                            {/* Ciclo de vida clínico */}
+                            {(app.allowedClinicalTransitions?.length ?? 0) > 0 && (
+                                <>
+                                    <hr className="border-slate-200 dark:border-gray-700" />
+                                    <div>
+                                        <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide mb-2">{t('appointments.clinicalStatus')}</p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {app.allowedClinicalTransitions!.map(next => (
+                                                <Button
+                                                    key={next}
+                                                    variant={next === 'cancelled' ? 'danger' : next === 'no_show' ? 'secondary' : 'primary'}
+                                                    className="text-sm"
+                                                    onClick={() => handleClinicalStatusChange(app, next)}
+                                                >
+                                                    {t(`appointments.clinicalActions.${next}`)}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
+                            {/* Dados do cancelamento */}
+                            {app.clinicalStatus === 'cancelled' && (app.cancelledBy || app.cancellationReason || app.isLateCancellation) && (
+                                <div className="bg-rose-50 dark:bg-rose-900/20 rounded-lg p-3 space-y-1 text-sm text-slate-800 dark:text-white">
+                                    {app.cancelledBy && (
+                                        <p>{t('appointments.cancelledBy')}: {t(`appointments.cancellationActors.${app.cancelledBy}`)}</p>
+                                    )}
+                                    {app.cancellationReason && (
+                                        <p>{t('appointments.cancellationReason')}: {sanitizeText(app.cancellationReason)}</p>
+                                    )}
+                                    {app.isLateCancellation && (
+                                        <p className="font-medium text-rose-700 dark:text-rose-300">
+                                            {t('appointments.lateCancellation')}
+                                            {app.cancellationFee ? ` • ${t('appointments.lateCancellationFee')}: ${formatCurrency(app.cancellationFee, valueCurrency)}` : ''}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Vaga liberada: oferecer à lista de espera */}
+                            {app.clinicalStatus === 'cancelled' && (
+                                <div className="flex justify-end">
+                                    <Button
+                                        variant="secondary"
+                                        className="text-sm"
+                                        onClick={() => handleOfferFreedSlot(app.id, true)}
+                                    >
+                                        <ListOrdered size={16} />
+                                        {t('appointments.waitlistOfferSlot')}
+                                    </Button>
+                                </div>
+                            )}
+
                             {/* Evolução clínica */}
                             {clinicalEvolution && (
                                 <>
@@ -2958,6 +4052,151 @@ const Appointments: React.FC = () => {
                                 </>
                             )}
 
+                            {/* Ficha endodôntica (estruturada, por dente) */}
+                            <hr className="border-slate-200 dark:border-gray-700" />
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide">{t('appointments.endodonticRecord')}</p>
+                                    {!endodonticForm && (
+                                        <Button variant="ghost" className="text-sm" onClick={() => handleOpenEndodonticForm()}>
+                                            <Plus size={16} />
+                                            {t('appointments.addEndodonticRecord')}
+                                        </Button>
+                                    )}
+                                </div>
+                                {endodonticForm ? (
+                                    <EndodonticRecordForm
+                                        value={endodonticForm}
+                                        onChange={setEndodonticForm}
+                                        onSubmit={handleSaveEndodonticRecord}
+                                        onCancel={() => {
+                                            setEndodonticForm(null);
+                                            setEditingEndodonticRecordId(null);
+                                        }}
+                                        teethOptions={app.teeth || []}
+                                        toothLocked={editingEndodonticRecordId !== null}
+                                        saving={savingEndodonticRecord}
+                                    />
+                                ) : endodonticRecords.length > 0 ? (
+                                    <div className="space-y-3">
+                                        {endodonticRecords.map(record => (
+                                            <EndodonticRecordCard
+                                                key={record.id}
+                                                record={record}
+                                                onEdit={() => handleOpenEndodonticForm(record)}
+                                                onDelete={() => handleDeleteEndodonticRecord(record.id)}
+                                            />
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('appointments.noEndodonticRecord')}</p>
+                                )}
+                            </div>
+
+                            {/* Retornos a partir de atendimento concluído */}
+                            {app.clinicalStatus === 'completed' && (
+                                <>
+                                    <hr className="border-slate-200 dark:border-gray-700" />
+                                    <div>
+                                        <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide mb-2">{t('appointments.followUps')}</p>
+                                        <div className="flex flex-wrap items-center gap-4">
+                                            {AppointmentConstants.DEFAULT_FOLLOW_UP_MONTHS.map(months => (
+                                                <label key={months} className="flex items-center gap-2 text-sm text-slate-700 dark:text-gray-300">
+                                                    <input
+                                                        type="checkbox"
+                                                        className="rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                                                        checked={followUpMonths.includes(months)}
+                                                        onChange={e => setFollowUpMonths(e.target.checked
+                                                            ? [...followUpMonths, months].sort((a, b) => a - b)
+                                                            : followUpMonths.filter(m => m !== months))}
+                                                    />
+                                                    {months} {t('appointments.months')}
+                                                </label>
+                                            ))}
+                                            <Button
+                                                variant="secondary"
+                                                className="text-sm"
+                                                disabled={seriesBusy || followUpMonths.length === 0}
+                                                onClick={() => handleCreateFollowUps(app)}
+                                            >
+                                                <Repeat size={16} />
+                                                {t('appointments.generateFollowUps')}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
+                            {/* Série de agendamentos */}
+                            {app.seriesId && (
+                                <>
+                                    <hr className="border-slate-200 dark:border-gray-700" />
+                                    <div>
+                                        <div className="flex items-center justify-between mb-2">
+                                            <p className="text-xs font-semibold text-slate-500 dark:text-gray-400 uppercase tracking-wide">{t('appointments.series')}</p>
+                                            {!seriesEdit && (
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        variant="ghost"
+                                                        className="text-sm"
+                                                        disabled={seriesBusy}
+                                                        onClick={() => setSeriesEdit({ time: app.time, procedure: app.procedure })}
+                                                    >
+                                                        <Edit2 size={16} />
+                                                        {t('appointments.editSeries')}
+                                                    </Button>
+                                                    <Button
+                                                        variant="danger"
+                                                        className="text-sm"
+                                                        disabled={seriesBusy}
+                                                        onClick={() => handleCancelSeries(app.seriesId!)}
+                                                    >
+                                                        {t('appointments.cancelSeries')}
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </div>
+                                        {seriesEdit && (
+                                            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 mb-3 space-y-3">
+                                                <p className="text-xs text-slate-500 dark:text-gray-400">{t('appointments.seriesEditHint')}</p>
+                                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                                    <TimeInput
+                                                        label={t('appointments.time')}
+                                                        value={seriesEdit.time}
+                                                        onChange={(e) => setSeriesEdit({ ...seriesEdit, time: e.target.value })}
+                                                    />
+                                                    <Input
+                                                        label={t('appointments.procedure')}
+                                                        value={seriesEdit.procedure}
+                                                        maxLength={500}
+                                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setSeriesEdit({ ...seriesEdit, procedure: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="flex justify-end gap-2">
+                                                    <Button variant="secondary" onClick={() => setSeriesEdit(null)}>{t('common.cancel')}</Button>
+                                                    <Button disabled={seriesBusy} onClick={() => handleUpdateSeries(app.seriesId!)}>{t('common.save')}</Button>
+                                                </div>
+                                            </div>
+                                        )}
+                                        <ul className="space-y-1">
+                                            {series.map(item => (
+                                                <li
+                                                    key={item.id}
+                                                    className={`flex items-center justify-between text-sm rounded-lg px-3 py-1.5 ${item.id === app.id ? 'bg-sky-50 dark:bg-sky-900/20' : ''}`}
+                                                >
+                                                    <span className="text-slate-800 dark:text-white">
+                                                        {formatDate(item.dateString)} • {formatTime(item.time)} • {sanitizeText(item.procedure)}
+                                                    </span>
+                                                    <Badge variant={CLINICAL_STATUS_BADGE[item.clinicalStatus]}>
+                                                        {t(`appointments.clinicalStatuses.${item.clinicalStatus}`)}
+                                                    </Badge>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </>
+                            )}
+
                             {/* Observações */}
                             {notes && (
                                 <>
@@ -2984,6 +4223,243 @@ const Appointments: React.FC = () => {
                     );
                 })()}
             </Modal>
+
+            {/* Waitlist Modal */}
+            <Modal
+                isOpen={isWaitlistOpen}
+                onClose={() => setIsWaitlistOpen(false)}
+                title={t('appointments.waitlist')}
+                size="xl"
+            >
+                <div className="space-y-4">
+                    {waitlistForm ? (
+                        <form onSubmit={handleSaveWaitlistEntry} className="space-y-4 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.patient')}</label>
+                                    <SearchableSelect
+                                        options={patients.map(patient => ({ value: patient.id, label: patient.name || '' }))}
+                                        value={waitlistForm.patientId}
+                                        onChange={(val) => setWaitlistForm({ ...waitlistForm, patientId: val })}
+                                        placeholder={t('appointments.selectPatient')}
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.clinic')}</label>
+                                    <select
+                                        className="w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                        value={waitlistForm.clinicId}
+                                        onChange={e => setWaitlistForm({ ...waitlistForm, clinicId: e.target.value })}
+                                    >
+                                        <option value="">{t('appointments.waitlistAnyClinic')}</option>
+                                        {clinics.map(clinic => (
+                                            <option key={clinic.id} value={clinic.id}>{clinic.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <Input
+                                    label={t('appointments.procedure')}
+                                    required
+                                    maxLength={500}
+                                    list="waitlist-procedures"
+                                    value={waitlistForm.procedure}
+                                    onChange={(e: ChangeEvent<HTMLInputElement>) => setWaitlistForm({ ...waitlistForm, procedure: e.target.value })}
+                                />
+                                <datalist id="waitlist-procedures">
+                                    {procedures.map(procedure => (
+                                        <option key={procedure.id} value={procedure.name} />
+                                    ))}
+                                </datalist>
+                                <div>
+                                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.duration')}</label>
+                                    <select
+                                        className="w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                        value={waitlistForm.durationMinutes}
+                                        onChange={e => setWaitlistForm({ ...waitlistForm, durationMinutes: e.target.value })}
+                                    >
+                                        {DURATION_OPTIONS.map(minutes => (
+                                            <option key={minutes} value={minutes}>{minutes} min</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <p className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.waitlistPreferredDays')}</p>
+                                <div className="flex flex-wrap gap-3">
+                                    {[1, 2, 3, 4, 5, 6, 0].map(weekday => (
+                                        <label key={weekday} className="flex items-center gap-2 text-sm text-slate-700 dark:text-gray-300">
+                                            <input
+                                                type="checkbox"
+                                                className="rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                                                checked={waitlistForm.preferredWeekdays.includes(weekday)}
+                                                onChange={e => setWaitlistForm({
+                                                    ...waitlistForm,
+                                                    preferredWeekdays: e.target.checked
+                                                        ? [...waitlistForm.preferredWeekdays, weekday]
+                                                        : waitlistForm.preferredWeekdays.filter(day => day !== weekday)
+                                                })}
+                                            />
+                                            {t(`clinics.weekdays.${weekday}`)}
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">{t('appointments.waitlistPreferencesHint')}</p>
+                            </div>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                <TimeInput
+                                    label={t('appointments.waitlistFrom')}
+                                    value={waitlistForm.preferredStart}
+                                    onChange={(e) => setWaitlistForm({ ...waitlistForm, preferredStart: e.target.value })}
+                                />
+                                <TimeInput
+                                    label={t('appointments.waitlistUntil')}
+                                    value={waitlistForm.preferredEnd}
+                                    onChange={(e) => setWaitlistForm({ ...waitlistForm, preferredEnd: e.target.value })}
+                                />
+                                <div>
+                                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.waitlistPriority')}</label>
+                                    <select
+                                        className="w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                        value={waitlistForm.priority}
+                                        onChange={e => setWaitlistForm({ ...waitlistForm, priority: e.target.value as WaitlistPriority })}
+                                    >
+                                        {WAITLIST_PRIORITIES.map(priority => (
+                                            <option key={priority} value={priority}>{t(`appointments.waitlistPriorities.${priority}`)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <Input
+                                label={t('appointments.notes')}
+                                maxLength={2000}
+                                value={waitlistForm.notes}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setWaitlistForm({ ...waitlistForm, notes: e.target.value })}
+                            />
+
+                            <div className="flex justify-end gap-2">
+                                <Button type="button" variant="secondary" onClick={() => setWaitlistForm(null)}>{t('common.cancel')}</Button>
+                                <Button type="submit" disabled={waitlistBusy}>{t('common.save')}</Button>
+                            </div>
+                        </form>
+                    ) : (
+                        <div className="flex justify-end">
+                            <Button onClick={() => setWaitlistForm({ ...EMPTY_WAITLIST_FORM })}>
+                                <Plus size={16} />
+                                {t('appointments.waitlistAdd')}
+                            </Button>
+                        </div>
+                    )}
+
+                    {waitlist.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('appointments.waitlistEmpty')}</p>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-gray-700">
+                            {waitlist.map(entry => (
+                                <li key={entry.id} className="flex items-start justify-between gap-3 py-3">
+                                    <div>
+                                        <p className="font-medium text-slate-800 dark:text-white">
+                                            {patientNameById(entry.patientId)} • {sanitizeText(entry.procedure)}
+                                        </p>
+                                        <p className="text-xs text-slate-500 dark:text-gray-400">{describeWaitlistPreferences(entry)}</p>
+                                        {entry.notes && (
+                                            <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">{sanitizeText(entry.notes)}</p>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={WAITLIST_PRIORITY_BADGE[entry.priority]}>
+                                            {t(`appointments.waitlistPriorities.${entry.priority}`)}
+                                        </Badge>
+                                        <button
+                                            title={t('appointments.waitlistRemove')}
+                                            className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg"
+                                            onClick={() => handleRemoveWaitlistEntry(entry.id)}
+                                        >
+                                            <X size={16} />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </Modal>
+
+            {/* Cancel Appointment Modal */}
+            <Modal
+                isOpen={cancelling !== null}
+                onClose={() => setCancelling(null)}
+                title={t('appointments.cancelAppointment')}
+            >
+                {cancelling && (
+                    <form onSubmit={handleConfirmCancel} className="space-y-4">
+                        <p className="text-xs text-slate-500 dark:text-gray-400">{t('appointments.cancellationPolicyHint')}</p>
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.cancelledBy')}</label>
+                            <select
+                                className="w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                value={cancelling.cancelledBy}
+                                onChange={e => setCancelling({ ...cancelling, cancelledBy: e.target.value as CancellationActor })}
+                            >
+                                {CANCELLATION_ACTORS.map(actor => (
+                                    <option key={actor} value={actor}>{t(`appointments.cancellationActors.${actor}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <Input
+                            label={t('appointments.cancellationReason')}
+                            maxLength={500}
+                            value={cancelling.reason}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => setCancelling({ ...cancelling, reason: e.target.value })}
+                        />
+                        <div className="flex justify-end gap-2">
+                            <Button type="button" variant="secondary" onClick={() => setCancelling(null)}>{t('common.cancel')}</Button>
+                            <Button type="submit" variant="danger">{t('appointments.confirmCancellation')}</Button>
+                        </div>
+                    </form>
+                )}
+            </Modal>
+
+            {/* Freed Slot Offer Modal */}
+            <Modal
+                isOpen={waitlistOffer !== null}
+                onClose={() => setWaitlistOffer(null)}
+                title={t('appointments.waitlistSlotFreed')}
+                size="lg"
+            >
+                {waitlistOffer && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-slate-700 dark:text-gray-300">
+                            {formatDate(waitlistOffer.slot.date)} • {formatTime(waitlistOffer.slot.time)}
+                            {waitlistOffer.slot.clinicId && ` • ${clinics.find(clinic => clinic.id === waitlistOffer.slot.clinicId)?.name || ''}`}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-gray-400">{t('appointments.waitlistOfferHint')}</p>
+                        <ul className="divide-y divide-slate-100 dark:divide-gray-700">
+                            {waitlistOffer.entries.map(entry => (
+                                <li key={entry.id} className="flex items-center justify-between gap-3 py-3">
+                                    <div>
+                                        <p className="font-medium text-slate-800 dark:text-white">
+                                            {patientNameById(entry.patientId)} • {sanitizeText(entry.procedure)}
+                                        </p>
+                                        <p className="text-xs text-slate-500 dark:text-gray-400">{describeWaitlistPreferences(entry)}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={WAITLIST_PRIORITY_BADGE[entry.priority]}>
+                                            {t(`appointments.waitlistPriorities.${entry.priority}`)}
+                                        </Badge>
+                                        <Button className="text-sm" disabled={waitlistBusy} onClick={() => handleBookFromWaitlist(entry)}>
+                                            {t('appointments.waitlistBook')}
+                                        </Button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </Modal>
         </motion.div>
     );
 };
@@ -0,0 +1,520 @@
+import React, { useMemo, useState, DragEvent, MouseEvent } from 'react';
+import { ChevronLeft, ChevronRight, Plus, Clock, Building2, User } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import Card from '../components/UI/Card';
+import Button from '../components/UI/Button';
+import Badge from '../components/UI/Badge';
+import Modal from '../components/UI/Modal';
+import { useLanguage } from '../context/LanguageContext';
+import { useClinics } from '../context/ReferenceDataContext';
+import { useAppointmentsByDateRange } from '../hooks/queries';
+import { useUpdateAppointment } from '../hooks/mutations';
+import { useErrorHandler } from '../hooks/useErrorHandler';
+import { useToast } from '../components/UI/Toast';
+import { Appointment } from '../domain/entities/Appointment';
+import { cn, formatTime } from '../lib/utils';
+import {
+    CalendarView,
+    toISODate,
+    isSameDay,
+    getVisibleRange,
+    getDaysInRange,
+    shiftAnchor,
+    minutesToTime
+} from '../lib/calendar';
+import { CLINICAL_STATUS_BADGE, CLINICAL_STATUS_DOT, PAYMENT_STATUS_BADGE } from '../lib/appointmentStatus';
+
+/**
+ * Relacionamentos anexados pelo AppointmentRepository.findAll
+ */
+type CalendarAppointment = Appointment & {
+    clinics?: { id: string; name: string } | null;
+    patients?: { id: string; name?: string } | null;
+};
+
+interface PositionedAppointment {
+    appointment: CalendarAppointment;
+    lane: number;
+    lanes: number;
+}
+
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 21;
+const HOUR_HEIGHT = 56; // px
+const SNAP_MINUTES = 15;
+const CLICK_SNAP_MINUTES = 30;
+
+/** Paleta de cores por clínica (classes completas para o Tailwind) */
+const CLINIC_PALETTE = [
+    'bg-sky-100 border-sky-500 text-sky-900 dark:bg-sky-900/40 dark:text-sky-100',
+    'bg-emerald-100 border-emerald-500 text-emerald-900 dark:bg-emerald-900/40 dark:text-emerald-100',
+    'bg-violet-100 border-violet-500 text-violet-900 dark:bg-violet-900/40 dark:text-violet-100',
+    'bg-orange-100 border-orange-500 text-orange-900 dark:bg-orange-900/40 dark:text-orange-100',
+    'bg-pink-100 border-pink-500 text-pink-900 dark:bg-pink-900/40 dark:text-pink-100',
+    'bg-teal-100 border-teal-500 text-teal-900 dark:bg-teal-900/40 dark:text-teal-100',
+    'bg-indigo-100 border-indigo-500 text-indigo-900 dark:bg-indigo-900/40 dark:text-indigo-100',
+    'bg-lime-100 border-lime-500 text-lime-900 dark:bg-lime-900/40 dark:text-lime-100',
+];
+const NO_CLINIC_COLOR = 'bg-slate-100 border-slate-400 text-slate-800 dark:bg-gray-700 dark:text-gray-100';
+
+/**
+ * Distribui agendamentos sobrepostos em colunas (lanes) lado a lado
+ */
+const layoutDay = (appointments: CalendarAppointment[]): PositionedAppointment[] => {
+    const sorted = [...appointments].sort((a, b) => a.startMinutes - b.startMinutes);
+    const positioned: PositionedAppointment[] = [];
+    let group: PositionedAppointment[] = [];
+    let laneEnds: number[] = [];
+    let groupEnd = -1;
+
+    const flush = (): void => {
+        group.forEach(item => { item.lanes = laneEnds.length; });
+        positioned.push(...group);
+        group = [];
+        laneEnds = [];
+    };
+
+    for (const appointment of sorted) {
+        if (appointment.startMinutes >= groupEnd) {
+            flush();
+        }
+        let lane = laneEnds.findIndex(end => end <= appointment.startMinutes);
+        if (lane === -1) {
+            lane = laneEnds.length;
+            laneEnds.push(appointment.endMinutes);
+        } else {
+            laneEnds[lane] = appointment.endMinutes;
+        }
+        groupEnd = Math.max(groupEnd, appointment.endMinutes);
+        group.push({ appointment, lane, lanes: 1 });
+    }
+    flush();
+
+    return positioned;
+};
+
+const Calendar: React.FC = () => {
+    const { t } = useLanguage();
+    const navigate = useNavigate();
+    const { clinics } = useClinics();
+    const { handleError } = useErrorHandler();
+    const { showSuccess } = useToast();
+    const updateAppointment = useUpdateAppointment();
+
+    const [view, setView] = useState<CalendarView>('week');
+    const [anchor, setAnchor] = useState<Date>(() => new Date());
+    const [selected, setSelected] = useState<CalendarAppointment | null>(null);
+    const [dragOverKey, setDragOverKey] = useState<string | null>(null);
+
+    const range = useMemo(() => getVisibleRange(view, anchor), [view, anchor]);
+    const days = useMemo(() => getDaysInRange(range), [range]);
+
+    const { data: appointments = [], isLoading } = useAppointmentsByDateRange(
+        toISODate(range.start),
+        toISODate(range.end)
+    );
+
+    const clinicColors = useMemo(() => {
+        const colors = new Map<string, string>();
+        clinics.forEach((clinic, index) => {
+            colors.set(clinic.id, CLINIC_PALETTE[index % CLINIC_PALETTE.length]);
+        });
+        return colors;
+    }, [clinics]);
+
+    const appointmentsByDay = useMemo(() => {
+        const grouped = new Map<string, CalendarAppointment[]>();
+        (appointments as CalendarAppointment[]).forEach(appointment => {
+            const list = grouped.get(appointment.dateString) || [];
+            list.push(appointment);
+            grouped.set(appointment.dateString, list);
+        });
+        grouped.forEach(list => list.sort((a, b) => a.startMinutes - b.startMinutes));
+        return grouped;
+    }, [appointments]);
+
+    const colorFor = (appointment: CalendarAppointment): string =>
+        clinicColors.get(appointment.clinicId) || NO_CLINIC_COLOR;
+
+    const title = useMemo(() => {
+        if (view === 'month') {
+            return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+        }
+        if (view === 'day') {
+            return anchor.toLocaleDateString(undefined, { weekday: 'long', day: '2-digit', month: 'long', year: 'numeric' });
+        }
+        const start = range.start.toLocaleDateString(undefined, { day: '2-digit', month: 'short' });
+        const end = range.end.toLocaleDateString(undefined, { day: '2-digit', month: 'short', year: 'numeric' });
+        return `${start} – ${end}`;
+    }, [view, anchor, range]);
+
+    const openCreate = (date: string, time?: string): void => {
+        const params = new URLSearchParams({ new: '1', date });
+        if (time) {
+            params.set('time', time);
+        }
+        navigate(`/appointments?${params.toString()}`);
+    };
+
+    const reschedule = (id: string, date: string, time: string): void => {
+        const appointment = (appointments as CalendarAppointment[]).find(item => item.id === id);
+        if (!appointment || (appointment.dateString === date && appointment.time === time)) {
+            return;
+        }
+
+        updateAppointment.mutate(
+            { id, date, time },
+            {
+                onSuccess: () => showSuccess(t('calendar.rescheduled')),
+                onError: (error) => handleError(error, 'Calendar.reschedule'),
+            }
+        );
+    };
+
+    /**
+     * Converte a posição vertical do cursor em minutos desde a meia-noite
+     */
+    const minutesFromPointer = (e: MouseEvent<HTMLDivElement> | DragEvent<HTMLDivElement>, snap: number): number => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const offset = Math.max(0, e.clientY - rect.top);
+        const minutes = DAY_START_HOUR * 60 + (offset / HOUR_HEIGHT) * 60;
+        const snapped = Math.floor(minutes / snap) * snap;
+        return Math.min(snapped, DAY_END_HOUR * 60 - snap);
+    };
+
+    const handleDragStart = (e: DragEvent<HTMLDivElement>, appointment: CalendarAppointment): void => {
+        e.dataTransfer.setData('text/plain', appointment.id);
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    const handleDropOnTimeGrid = (e: DragEvent<HTMLDivElement>, day: Date): void => {
+        e.preventDefault();
+        setDragOverKey(null);
+        const id = e.dataTransfer.getData('text/plain');
+        if (!id) return;
+        reschedule(id, toISODate(day), minutesToTime(minutesFromPointer(e, SNAP_MINUTES)));
+    };
+
+    const handleDropOnMonthCell = (e: DragEvent<HTMLDivElement>, day: Date): void => {
+        e.preventDefault();
+        setDragOverKey(null);
+        const id = e.dataTransfer.getData('text/plain');
+        const appointment = (appointments as CalendarAppointment[]).find(item => item.id === id);
+        if (!appointment) return;
+        reschedule(id, toISODate(day), appointment.time);
+    };
+
+    const renderEvent = (appointment: CalendarAppointment, compact: boolean = false): React.ReactNode => {
+        const isCancelled = appointment.isCancelled;
+        return (
+            <div
+                draggable={!isCancelled}
+                onDragStart={(e) => handleDragStart(e, appointment)}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setSelected(appointment);
+                }}
+                title={`${formatTime(appointment.time)} – ${formatTime(appointment.endTime)} · ${appointment.procedure}`}
+                className={cn(
+                    'border-l-4 rounded-md px-1.5 py-0.5 text-xs cursor-pointer overflow-hidden shadow-sm hover:shadow-md transition-shadow',
+                    colorFor(appointment),
+                    isCancelled && 'opacity-50 line-through cursor-default',
+                    compact ? 'truncate' : 'h-full'
+                )}
+            >
+                <div className="flex items-center gap-1 font-semibold truncate">
+                    <span className={cn('inline-block w-2 h-2 rounded-full shrink-0', CLINICAL_STATUS_DOT[appointment.clinicalStatus])} />
+                    <span className="truncate">
+                        {formatTime(appointment.time)} {appointment.patients?.name || appointment.procedure}
+                    </span>
+                </div>
+                {!compact && (
+                    <div className="truncate opacity-80">{appointment.procedure}</div>
+                )}
+            </div>
+        );
+    };
+
+    const renderTimeGrid = (): React.ReactNode => {
+        const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+        const gridHeight = hours.length * HOUR_HEIGHT;
+        const today = new Date();
+
+        return (
+            <div className="overflow-x-auto">
+                <div className="flex min-w-[640px]">
+                    <div className="w-14 shrink-0 pt-10">
+                        {hours.map(hour => (
+                            <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-xs text-slate-400 dark:text-gray-500 text-right pr-2 -mt-2">
+                                {String(hour).padStart(2, '0')}:00
+                            </div>
+                        ))}
+                    </div>
+                    {days.map(day => {
+                        const key = toISODate(day);
+                        const dayAppointments = (appointmentsByDay.get(key) || []).filter(
+                            a => a.endMinutes > DAY_START_HOUR * 60 && a.startMinutes < DAY_END_HOUR * 60
+                        );
+                        return (
+                            <div key={key} className="flex-1 min-w-0 border-l border-gray-100 dark:border-gray-700">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setView('day');
+                                        setAnchor(day);
+                                    }}
+                                    className={cn(
+                                        'w-full h-10 text-sm font-semibold text-center',
+                                        isSameDay(day, today) ? 'text-sky-600 dark:text-sky-400' : 'text-slate-600 dark:text-gray-300'
+                                    )}
+                                >
+                                    {day.toLocaleDateString(undefined, { weekday: 'short', day: '2-digit' })}
+                                </button>
+                                <div
+                                    className={cn(
+                                        'relative cursor-pointer',
+                                        dragOverKey === key && 'bg-sky-50/60 dark:bg-sky-900/20'
+                                    )}
+                                    style={{ height: gridHeight }}
+                                    onClick={(e) => openCreate(key, minutesToTime(minutesFromPointer(e, CLICK_SNAP_MINUTES)))}
+                                    onDragOver={(e) => {
+                                        e.preventDefault();
+                                        setDragOverKey(key);
+                                    }}
+                                    onDragLeave={() => setDragOverKey(null)}
+                                    onDrop={(e) => handleDropOnTimeGrid(e, day)}
+                                >
+                                    {hours.map(hour => (
+                                        <div
+                                            key={hour}
+                                            style={{ height: HOUR_HEIGHT }}
+                                            className="border-t border-gray-100 dark:border-gray-700 hover:bg-slate-50/60 dark:hover:bg-gray-700/30"
+                                        />
+                                    ))}
+                                    {layoutDay(dayAppointments).map(({ appointment, lane, lanes }) => {
+                                        const start = Math.max(appointment.startMinutes, DAY_START_HOUR * 60);
+                                        const end = Math.min(appointment.endMinutes, DAY_END_HOUR * 60);
+                                        return (
+                                            <div
+                                                key={appointment.id}
+                                                className="absolute px-0.5"
+                                                style={{
+                                                    top: ((start - DAY_START_HOUR * 60) / 60) * HOUR_HEIGHT,
+                                                    height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18),
+                                                    left: `${(lane / lanes) * 100}%`,
+                                                    width: `${100 / lanes}%`,
+                                                }}
+                                            >
+                                                {renderEvent(appointment)}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    const renderMonthGrid = (): React.ReactNode => {
+        const today = new Date();
+        const weekdays = days.slice(0, 7);
+
+        return (
+            <div className="overflow-x-auto">
+                <div className="grid grid-cols-7 min-w-[640px] border-t border-l border-gray-100 dark:border-gray-700">
+                    {weekdays.map(day => (
+                        <div key={`header-${toISODate(day)}`} className="py-2 text-xs font-semibold uppercase text-center text-slate-500 dark:text-gray-400 border-r border-b border-gray-100 dark:border-gray-700">
+                            {day.toLocaleDateString(undefined, { weekday: 'short' })}
+                        </div>
+                    ))}
+                    {days.map(day => {
+                        const key = toISODate(day);
+                        const dayAppointments = appointmentsByDay.get(key) || [];
+                        const isOtherMonth = day.getMonth() !== anchor.getMonth();
+                        return (
+                            <div
+                                key={key}
+                                className={cn(
+                                    'min-h-[110px] p-1.5 border-r border-b border-gray-100 dark:border-gray-700 cursor-pointer space-y-1',
+                                    isOtherMonth && 'bg-slate-50/60 dark:bg-gray-900/40',
+                                    dragOverKey === key && 'bg-sky-50/60 dark:bg-sky-900/20'
+                                )}
+                                onClick={() => openCreate(key)}
+                                onDragOver={(e) => {
+                                    e.preventDefault();
+                                    setDragOverKey(key);
+                                }}
+                                onDragLeave={() => setDragOverKey(null)}
+                                onDrop={(e) => handleDropOnMonthCell(e, day)}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setView('day');
+                                        setAnchor(day);
+                                    }}
+                                    className={cn(
+                                        'text-xs font-semibold w-6 h-6 rounded-full',
+                                        isSameDay(day, today)
+                                            ? 'bg-sky-500 text-white'
+                                            : isOtherMonth ? 'text-slate-400 dark:text-gray-500' : 'text-slate-700 dark:text-gray-200'
+                                    )}
+                                >
+                                    {day.getDate()}
+                                </button>
+                                {dayAppointments.slice(0, 3).map(appointment => (
+                                    <div key={appointment.id}>{renderEvent(appointment, true)}</div>
+                                ))}
+                                {dayAppointments.length > 3 && (
+                                    <button
+                                        type="button"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setView('day');
+                                            setAnchor(day);
+                                        }}
+                                        className="text-xs text-sky-600 dark:text-sky-400 font-medium"
+                                    >
+                                        +{dayAppointments.length - 3} {t('calendar.more')}
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-gradient-to-r from-sky-500 to-emerald-500 dark:from-sky-600 dark:to-emerald-600 rounded-xl sm:rounded-2xl p-4 sm:p-6 md:p-8 text-white shadow-xl">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 sm:gap-4">
+                    <div>
+                        <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-1 sm:mb-2">{t('calendar.title')}</h2>
+                        <p className="text-sm sm:text-base text-white/90">{t('calendar.subtitle')}</p>
+                    </div>
+                    <Button
+                        className="gap-2 bg-white dark:bg-gray-800 text-sky-600 dark:text-sky-400 hover:bg-gray-50 dark:hover:bg-gray-700 shadow-lg text-sm sm:text-base w-full sm:w-auto"
+                        onClick={() => openCreate(toISODate(view === 'month' ? new Date() : anchor))}
+                    >
+                        <Plus size={18} />
+                        {t('calendar.newAppointment')}
+                    </Button>
+                </div>
+            </div>
+
+            <Card className="p-3 sm:p-4">
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+                    <div className="flex items-center gap-2">
+                        <Button variant="secondary" className="px-3 sm:px-3" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))} aria-label={t('calendar.previous')}>
+                            <ChevronLeft size={18} />
+                        </Button>
+                        <Button variant="secondary" onClick={() => setAnchor(new Date())}>
+                            {t('calendar.today')}
+                        </Button>
+                        <Button variant="secondary" className="px-3 sm:px-3" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))} aria-label={t('calendar.next')}>
+                            <ChevronRight size={18} />
+                        </Button>
+                        <h3 className="ml-2 text-lg font-bold text-slate-800 dark:text-white capitalize">
+                            {title}
+                            {(isLoading || updateAppointment.isPending) && (
+                                <span className="ml-2 text-xs font-normal text-slate-400">{t('common.loading')}</span>
+                            )}
+                        </h3>
+                    </div>
+                    <div className="flex bg-slate-100 dark:bg-gray-700 rounded-xl p-1">
+                        {(['day', 'week', 'month'] as CalendarView[]).map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => setView(option)}
+                                className={cn(
+                                    'px-4 py-1.5 rounded-lg text-sm font-semibold transition-colors',
+                                    view === option
+                                        ? 'bg-white dark:bg-gray-800 text-sky-600 dark:text-sky-400 shadow-sm'
+                                        : 'text-slate-500 dark:text-gray-300'
+                                )}
+                            >
+                                {t(`calendar.views.${option}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-4 text-xs text-slate-600 dark:text-gray-300">
+                    {clinics.map(clinic => (
+                        <span key={clinic.id} className="flex items-center gap-1.5">
+                            <span className={cn('inline-block w-3 h-3 rounded border-l-4', clinicColors.get(clinic.id))} />
+                            {clinic.name}
+                        </span>
+                    ))}
+                    <span className="hidden sm:inline text-slate-300 dark:text-gray-600">|</span>
+                    {Object.entries(CLINICAL_STATUS_DOT).map(([status, color]) => (
+                        <span key={status} className="flex items-center gap-1.5">
+                            <span className={cn('inline-block w-2 h-2 rounded-full', color)} />
+                            {t(`appointments.clinicalStatuses.${status}`)}
+                        </span>
+                    ))}
+                </div>
+
+                {view === 'month' ? renderMonthGrid() : renderTimeGrid()}
+
+                <p className="mt-3 text-xs text-slate-400 dark:text-gray-500">{t('calendar.hint')}</p>
+            </Card>
+
+            <Modal
+                isOpen={!!selected}
+                onClose={() => setSelected(null)}
+                title={selected?.procedure}
+                size="sm"
+            >
+                {selected && (
+                    <div className="space-y-3 text-sm text-slate-700 dark:text-gray-200">
+                        <div className="flex items-center gap-2">
+                            <Clock size={16} className="text-slate-400" />
+                            {selected.date.toLocaleDateString()} · {formatTime(selected.time)} – {formatTime(selected.endTime)}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <User size={16} className="text-slate-400" />
+                            {selected.patients?.name || '-'}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Building2 size={16} className="text-slate-400" />
+                            {selected.clinics?.name || '-'}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            <Badge variant={CLINICAL_STATUS_BADGE[selected.clinicalStatus]}>
+                                {t(`appointments.clinicalStatuses.${selected.clinicalStatus}`)}
+                            </Badge>
+                            <Badge variant={PAYMENT_STATUS_BADGE[selected.paymentStatus]}>
+                                {t(`appointments.${selected.paymentStatus}`)}
+                            </Badge>
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Button variant="secondary" onClick={() => setSelected(null)}>
+                                {t('common.close')}
+                            </Button>
+                            <Button
+                                onClick={() => {
+                                    const date = selected.dateString;
+                                    setSelected(null);
+                                    openCreate(date, minutesToTime(Math.min(selected.endMinutes, DAY_END_HOUR * 60 - CLICK_SNAP_MINUTES)));
+                                }}
+                            >
+                                <Plus size={16} />
+                                {t('calendar.bookAfter')}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default Calendar;
@@ -1,11 +1,12 @@
 import React, { useState, useEffect, FormEvent, ChangeEvent } from 'react';
-import { Plus, Search, Edit2, Trash2, MapPin, Phone, Mail, Building2 } from 'lucide-react';
+import { Plus, Search, Edit2, Trash2, MapPin, Phone, Mail, Building2, Clock, CalendarX, Receipt, FileDown, Percent, Tag, X } from 'lucide-react';
 import { motion, Variants } from 'framer-motion';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import Input from '../components/UI/Input';
 import Modal from '../components/UI/Modal';
 import Badge from '../components/UI/Badge';
+import DateInput from '../components/UI/DateInput';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../components/UI/Table';
 import Pagination from '../components/UI/Pagination';
 import { useLanguage } from '../context/LanguageContext';
@@ -13,10 +14,26 @@ import { useDependencies } from '../hooks/useDependencies';
 import { useCurrency } from '../context/CurrencyContext';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { useToast } from '../components/UI/Toast';
-import { formatPhoneNumber, unformatPhoneNumber, formatCurrency } from '../lib/utils';
+import { formatPhoneNumber, unformatPhoneNumber, formatCurrency, formatDate, sumAmounts } from '../lib/utils';
 import { logger } from '../lib/logger';
 import { validateClinic } from '../lib/validators';
 import { sanitizeText } from '../lib/sanitize';
+import type { AvailabilityWindowProps } from '../domain/value-objects/AvailabilityWindow';
+import type { BlockedDate, BlockedDateKind } from '../domain/entities/Clinic';
+import type { CancellationPolicyProps } from '../domain/value-objects/CancellationPolicy';
+import { AppointmentConstants } from '../domain/constants/AppointmentConstants';
+import type { SettlementStatement } from '../domain/entities/SettlementStatement';
+import type { SettlementReconciliation } from '../domain/services/SettlementDomainService';
+import { exportSettlementPdf } from '../lib/settlementPdf';
+import type { CommissionRule } from '../domain/entities/CommissionRule';
+import { CommissionDomainService } from '../domain/services/CommissionDomainService';
+import { CommissionRuleFormState, emptyCommissionRuleForm, commissionRuleFormToDTO } from '../lib/commission';
+import type { ProcedurePrice } from '../domain/entities/ProcedurePrice';
+import { PricingDomainService } from '../domain/services/PricingDomainService';
+import type { Currency } from '../domain/value-objects/Money';
+import type { AppliedRate, MissingRate } from '../domain/services/ExchangeRateDomainService';
+import { formatAppliedRate } from '../lib/exchangeRates';
+import { ProcedurePriceFormState, emptyProcedurePriceForm, procedurePriceFormToDTO } from '../lib/pricing';
 
 interface Clinic {
     id: string;
@@ -24,14 +41,45 @@ interface Clinic {
     address?: string | null;
     email?: string | null;
     phone?: string | null;
+    workingHours?: AvailabilityWindowProps[];
+    blockedDates?: BlockedDate[];
+    cancellationPolicy?: CancellationPolicyProps | null;
+}
+
+interface AvailabilityFormData {
+    workingHours: AvailabilityWindowProps[];
+    blockedDates: BlockedDate[];
+}
+
+/** Dias da semana na ordem exibida (segunda a domingo) */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const EMPTY_BLOCKED_DATE: BlockedDate = { date: '', kind: 'holiday', reason: null };
+
+interface CancellationPolicyFormData {
+    noticeHours: string;
+    lateFee: string;
+    allowLateOverride: boolean;
 }
 
 interface ClinicStats {
     appointments: number;
     revenue: number;
     ticket: number;
+    currency: Currency;
+    rates: AppliedRate[];
+    missingRates: MissingRate[];
 }
 
+const emptyClinicStats = (currency: Currency): ClinicStats => ({
+    appointments: 0,
+    revenue: 0,
+    ticket: 0,
+    currency,
+    rates: [],
+    missingRates: []
+});
+
 interface FormData {
     name: string;
     address: string;
@@ -67,6 +115,10 @@ const Clinics: React.FC = () => {
     const { showSuccess } = useToast();
     const container = useDependencies();
     const clinicService = container.resolve('clinicService');
+    const settlementService = container.resolve('settlementService');
+    const commissionService = container.resolve('commissionService');
+    const procedurePriceService = container.resolve('procedurePriceService');
+    const procedureService = container.resolve('procedureService');
     const [clinics, setClinics] = useState<Clinic[]>([]);
     const [clinicStats, setClinicStats] = useState<Record<string, ClinicStats>>({});
     const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
@@ -74,6 +126,27 @@ const Clinics: React.FC = () => {
     const [loading, setLoading] = useState<boolean>(true);
     const [editingAppointment, setEditingAppointment] = useState<Clinic | null>(null);
     const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+    const [availabilityClinic, setAvailabilityClinic] = useState<Clinic | null>(null);
+    const [availabilityForm, setAvailabilityForm] = useState<AvailabilityFormData>({ workingHours: [], blockedDates: [] });
+    const [newBlockedDate, setNewBlockedDate] = useState<BlockedDate>(EMPTY_BLOCKED_DATE);
+    const [savingAvailability, setSavingAvailability] = useState<boolean>(false);
+    const [policyClinic, setPolicyClinic] = useState<Clinic | null>(null);
+    const [policyForm, setPolicyForm] = useState<CancellationPolicyFormData | null>(null);
+    const [savingPolicy, setSavingPolicy] = useState<boolean>(false);
+    const [settlementClinic, setSettlementClinic] = useState<Clinic | null>(null);
+    const [settlements, setSettlements] = useState<SettlementStatement[]>([]);
+    const [settlementPeriod, setSettlementPeriod] = useState<{ start: string; end: string }>({ start: '', end: '' });
+    const [reconciliations, setReconciliations] = useState<Record<string, SettlementReconciliation>>({});
+    const [settlementBusy, setSettlementBusy] = useState<boolean>(false);
+    const [commissionClinic, setCommissionClinic] = useState<Clinic | null>(null);
+    const [commissionRules, setCommissionRules] = useState<CommissionRule[]>([]);
+    const [commissionForm, setCommissionForm] = useState<CommissionRuleFormState>(emptyCommissionRuleForm(''));
+    const [savingCommission, setSavingCommission] = useState<boolean>(false);
+    const [priceClinic, setPriceClinic] = useState<Clinic | null>(null);
+    const [procedurePrices, setProcedurePrices] = useState<ProcedurePrice[]>([]);
+    const [priceProcedures, setPriceProcedures] = useState<{ id: string; name: string }[]>([]);
+    const [priceForm, setPriceForm] = useState<ProcedurePriceFormState>(emptyProcedurePriceForm(''));
+    const [savingPrice, setSavingPrice] = useState<boolean>(false);
     const [pagination, setPagination] = useState<PaginationState>({
         page: 1,
         pageSize: 20,
@@ -129,7 +202,7 @@ const Clinics: React.FC = () => {
                 if (clinicsData && clinicsData.length > 0) {
                     try {
                         const clinicIds = clinicsData.map(c => c.id);
-                        const statsMap = await clinicService.getStatsBatch(clinicIds);
+                        const statsMap = await clinicService.getStatsBatch(clinicIds, currency as Currency);
                         
                         if (abortController.signal.aborted) return;
                         
@@ -139,7 +212,7 @@ const Clinics: React.FC = () => {
                         logger.error(error, { context: 'loadClinicStats' });
                         const statsMap: Record<string, ClinicStats> = {};
                         clinicsData.forEach(clinic => {
-                            statsMap[clinic.id] = { appointments: 0, revenue: 0, ticket: 0 };
+                            statsMap[clinic.id] = emptyClinicStats(currency as Currency);
                         });
                         setClinicStats(statsMap);
                     }
@@ -160,7 +233,7 @@ const Clinics: React.FC = () => {
             abortController.abort();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [pagination.page]);
+    }, [pagination.page, currency]);
 
     const loadClinics = async (page: number = pagination.page): Promise<void> => {
         try {
@@ -194,13 +267,13 @@ const Clinics: React.FC = () => {
             if (clinicsData && clinicsData.length > 0) {
                 try {
                     const clinicIds = clinicsData.map(c => c.id);
-                    const statsMap = await clinicService.getStatsBatch(clinicIds);
+                    const statsMap = await clinicService.getStatsBatch(clinicIds, currency as Currency);
                     setClinicStats(statsMap);
                 } catch (error) {
                     logger.error(error, { context: 'loadClinicStats' });
                     const statsMap: Record<string, ClinicStats> = {};
                     clinicsData.forEach(clinic => {
-                        statsMap[clinic.id] = { appointments: 0, revenue: 0, ticket: 0 };
+                        statsMap[clinic.id] = emptyClinicStats(currency as Currency);
                     });
                     setClinicStats(statsMap);
                 }
@@ -265,6 +338,282 @@ const Clinics: React.FC = () => {
         }
     };
 
+    const handleOpenAvailability = (clinic: Clinic): void => {
+        setAvailabilityClinic(clinic);
+        setAvailabilityForm({
+            // Entidades expõem getters; copiar para objetos simples editáveis
+            workingHours: (clinic.workingHours || []).map(({ weekday, start, end }) => ({ weekday, start, end })),
+            blockedDates: (clinic.blockedDates || []).map(blocked => ({ ...blocked }))
+        });
+        setNewBlockedDate(EMPTY_BLOCKED_DATE);
+    };
+
+    const handleOpenCancellationPolicy = (clinic: Clinic): void => {
+        const policy = clinic.cancellationPolicy;
+        setPolicyClinic(clinic);
+        setPolicyForm({
+            noticeHours: String(policy?.noticeHours ?? AppointmentConstants.DEFAULT_CANCELLATION_NOTICE_HOURS),
+            lateFee: policy?.lateFee ? String(policy.lateFee) : '',
+            allowLateOverride: policy?.allowLateOverride ?? false
+        });
+    };
+
+    const loadSettlements = async (clinicId: string): Promise<void> => {
+        try {
+            setSettlements(await settlementService.getByClinicId(clinicId));
+        } catch (error) {
+            logger.error(error, { context: 'loadSettlements' });
+            handleError(error, 'Clinics.loadSettlements');
+        }
+    };
+
+    const handleOpenSettlements = (clinic: Clinic): void => {
+        // Período padrão: mês anterior completo
+        const now = new Date();
+        const toISO = (date: Date) =>
+            `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+        setSettlementPeriod({
+            start: toISO(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+            end: toISO(new Date(now.getFullYear(), now.getMonth(), 0))
+        });
+        setSettlementClinic(clinic);
+        setSettlements([]);
+        setReconciliations({});
+        loadSettlements(clinic.id);
+    };
+
+    const runSettlementAction = async (action: () => Promise<unknown>, successMessage: string, context: string): Promise<void> => {
+        if (!settlementClinic) return;
+
+        try {
+            setSettlementBusy(true);
+            await action();
+            showSuccess(successMessage);
+            await loadSettlements(settlementClinic.id);
+        } catch (error) {
+            logger.error(error, { context });
+            handleError(error, `Clinics.${context}`);
+        } finally {
+            setSettlementBusy(false);
+        }
+    };
+
+    const handleIssueSettlement = (): Promise<void> =>
+        runSettlementAction(
+            () => settlementService.issue({
+                clinicId: settlementClinic!.id,
+                periodStart: settlementPeriod.start,
+                periodEnd: settlementPeriod.end
+            }),
+            t('clinics.settlementIssued'),
+            'issueSettlement'
+        );
+
+    const handleSettleStatement = (statementId: string): Promise<void> => {
+        if (!window.confirm(t('clinics.settlementSettleConfirm'))) return Promise.resolve();
+        return runSettlementAction(() => settlementService.settle(statementId), t('clinics.settlementSettled'), 'settleStatement');
+    };
+
+    const handleReconcileStatement = async (statementId: string): Promise<void> => {
+        try {
+            const reconciliation = await settlementService.reconcile(statementId);
+            setReconciliations(prev => ({ ...prev, [statementId]: reconciliation }));
+        } catch (error) {
+            logger.error(error, { context: 'reconcileStatement' });
+            handleError(error, 'Clinics.reconcileStatement');
+        }
+    };
+
+    const todayISO = (): string => {
+        const now = new Date();
+        return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    };
+
+    const loadCommissionRules = async (clinicId: string): Promise<void> => {
+        try {
+            setCommissionRules(await commissionService.getByClinicId(clinicId));
+        } catch (error) {
+            logger.error(error, { context: 'loadCommissionRules' });
+            handleError(error, 'Clinics.loadCommissionRules');
+        }
+    };
+
+    const handleOpenCommissionRules = (clinic: Clinic): void => {
+        setCommissionClinic(clinic);
+        setCommissionRules([]);
+        setCommissionForm(emptyCommissionRuleForm(todayISO()));
+        loadCommissionRules(clinic.id);
+    };
+
+    const handleSaveCommissionRule = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!commissionClinic) return;
+
+        try {
+            setSavingCommission(true);
+            await commissionService.create(commissionRuleFormToDTO(commissionClinic.id, commissionForm));
+            showSuccess(t('clinics.commissionRuleSaved'));
+            setCommissionForm(emptyCommissionRuleForm(todayISO()));
+            await loadCommissionRules(commissionClinic.id);
+        } catch (error) {
+            logger.error(error, { context: 'saveCommissionRule' });
+            handleError(error, 'Clinics.saveCommissionRule');
+        } finally {
+            setSavingCommission(false);
+        }
+    };
+
+    const handleDeleteCommissionRule = async (ruleId: string): Promise<void> => {
+        if (!commissionClinic || !window.confirm(t('clinics.commissionRuleDeleteConfirm'))) return;
+
+        try {
+            await commissionService.delete(ruleId);
+            await loadCommissionRules(commissionClinic.id);
+        } catch (error) {
+            logger.error(error, { context: 'deleteCommissionRule' });
+            handleError(error, 'Clinics.deleteCommissionRule');
+        }
+    };
+
+    const describeCommissionRule = (rule: CommissionRule): string => {
+        const { type, percentage, fixedAmount } = rule.paymentType;
+        if (type === 'percentage') return `${percentage}%`;
+        if (type === 'fixed') return `${t('clinics.commissionFixed')} ${formatCurrency(fixedAmount ?? 0)}`;
+        return '100%';
+    };
+
+    const loadProcedurePrices = async (clinicId: string): Promise<void> => {
+        try {
+            setProcedurePrices(await procedurePriceService.getByClinicId(clinicId));
+        } catch (error) {
+            logger.error(error, { context: 'loadProcedurePrices' });
+            handleError(error, 'Clinics.loadProcedurePrices');
+        }
+    };
+
+    const handleOpenProcedurePrices = async (clinic: Clinic): Promise<void> => {
+        setPriceClinic(clinic);
+        setProcedurePrices([]);
+        setPriceForm(emptyProcedurePriceForm(todayISO(), (currency || 'BRL') as Currency));
+        loadProcedurePrices(clinic.id);
+
+        try {
+            const result = await procedureService.getAll();
+            setPriceProcedures(Array.isArray(result) ? result : result?.data || []);
+        } catch (error) {
+            logger.error(error, { context: 'loadPriceProcedures' });
+            handleError(error, 'Clinics.loadPriceProcedures');
+        }
+    };
+
+    const handleSaveProcedurePrice = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!priceClinic) return;
+
+        try {
+            setSavingPrice(true);
+            await procedurePriceService.create(procedurePriceFormToDTO(priceClinic.id, priceForm));
+            showSuccess(t('clinics.priceSaved'));
+            setPriceForm(emptyProcedurePriceForm(todayISO(), priceForm.currency));
+            await loadProcedurePrices(priceClinic.id);
+        } catch (error) {
+            logger.error(error, { context: 'saveProcedurePrice' });
+            handleError(error, 'Clinics.saveProcedurePrice');
+        } finally {
+            setSavingPrice(false);
+        }
+    };
+
+    const handleDeleteProcedurePrice = async (priceId: string): Promise<void> => {
+        if (!priceClinic || !window.confirm(t('clinics.priceDeleteConfirm'))) return;
+
+        try {
+            await procedurePriceService.delete(priceId);
+            await loadProcedurePrices(priceClinic.id);
+        } catch (error) {
+            logger.error(error, { context: 'deleteProcedurePrice' });
+            handleError(error, 'Clinics.deleteProcedurePrice');
+        }
+    };
+
+    const handleSaveCancellationPolicy = async (useDefault: boolean): Promise<void> => {
+        if (!policyClinic || !policyForm) return;
+
+        try {
+            setSavingPolicy(true);
+            await clinicService.updateCancellationPolicy(policyClinic.id, useDefault ? null : {
+                noticeHours: parseInt(policyForm.noticeHours, 10),
+                lateFee: policyForm.lateFee ? parseFloat(policyForm.lateFee) : null,
+                allowLateOverride: policyForm.allowLateOverride
+            });
+            showSuccess(t('clinics.cancellationPolicySaved'));
+            setPolicyClinic(null);
+            loadClinics();
+        } catch (error) {
+            logger.error(error, { context: 'saveClinicCancellationPolicy' });
+            handleError(error, 'Clinics.saveCancellationPolicy');
+        } finally {
+            setSavingPolicy(false);
+        }
+    };
+
+    const updateWindow = (index: number, field: 'start' | 'end', value: string): void => {
+        setAvailabilityForm(prev => ({
+            ...prev,
+            workingHours: prev.workingHours.map((window, i) => (i === index ? { ...window, [field]: value } : window))
+        }));
+    };
+
+    const addWindow = (weekday: number): void => {
+        setAvailabilityForm(prev => {
+            const sameDay = prev.workingHours.filter(window => window.weekday === weekday);
+            const last = sameDay[sameDay.length - 1];
+            // Nova janela começa após a última do dia (ex.: turno da tarde)
+            const next = last ? { weekday, start: last.end < '13:00' ? '13:00' : last.end, end: '18:00' } : { weekday, start: '08:00', end: '12:00' };
+            return { ...prev, workingHours: [...prev.workingHours, next] };
+        });
+    };
+
+    const copyWindowsToWeekdays = (weekday: number): void => {
+        setAvailabilityForm(prev => {
+            const source = prev.workingHours.filter(window => window.weekday === weekday);
+            const others = prev.workingHours.filter(window => window.weekday === 0 || window.weekday === 6 || window.weekday === weekday);
+            const copies = [1, 2, 3, 4, 5]
+                .filter(day => day !== weekday)
+                .flatMap(day => source.map(window => ({ ...window, weekday: day })));
+            return { ...prev, workingHours: [...others, ...copies] };
+        });
+    };
+
+    const addBlockedDate = (): void => {
+        if (!newBlockedDate.date) return;
+        setAvailabilityForm(prev => ({
+            ...prev,
+            blockedDates: [
+                ...prev.blockedDates.filter(blocked => blocked.date !== newBlockedDate.date),
+                { ...newBlockedDate, reason: newBlockedDate.reason?.trim() || null }
+            ].sort((a, b) => a.date.localeCompare(b.date))
+        }));
+        setNewBlockedDate(EMPTY_BLOCKED_DATE);
+    };
+
+    const handleSaveAvailability = async (): Promise<void> => {
+        if (!availabilityClinic) return;
+
+        try {
+            setSavingAvailability(true);
+            await clinicService.updateAvailability(availabilityClinic.id, availabilityForm);
+            showSuccess(t('clinics.availabilitySaved'));
+            setAvailabilityClinic(null);
+            loadClinics();
+        } catch (error) {
+            logger.error(error, { context: 'saveClinicAvailability' });
+            handleError(error, 'Clinics.saveAvailability');
+        } finally {
+            setSavingAvailability(false);
+        }
+    };
+
     const filteredClinics = clinics.filter(clinic =>
         clinic.name?.toLowerCase().includes(searchTerm.toLowerCase())
     );
@@ -314,12 +663,31 @@ const Clinics: React.FC = () => {
                         <p className="text-xs sm:text-sm font-medium text-white/80 mb-1">{t('clinics.averageTicket')}</p>
                         <p className="text-xl sm:text-2xl font-bold text-white break-words">
                             {(() => {
-                                const totalRevenue = Object.values(clinicStats).reduce((sum, stats) => sum + stats.revenue, 0);
+                                const totalRevenue = sumAmounts(Object.values(clinicStats).map(stats => stats.revenue));
                                 const totalAppointments = Object.values(clinicStats).reduce((sum, stats) => sum + stats.appointments, 0);
                                 const avgTicket = totalAppointments > 0 ? totalRevenue / totalAppointments : 0;
                                 return formatCurrency(Math.round(avgTicket), currency);
                             })()}
                         </p>
+                        {(() => {
+                            const rates = [...new Map(Object.values(clinicStats).flatMap(stats => stats.rates).map(rate => [`${rate.fromCurrency}|${rate.date}`, rate])).values()];
+                            const missing = new Set(Object.values(clinicStats).flatMap(stats => stats.missingRates.map(rate => rate.currency)));
+                            return (
+                                <>
+                                    {rates.length > 0 && (
+                                        <p className="text-[10px] sm:text-xs text-white/80 mt-1" title={rates.map(rate => formatAppliedRate(rate)).join('\n')}>
+                                            {t('clinics.convertedAt')}: {formatAppliedRate(rates[rates.length - 1])}
+                                            {rates.length > 1 && ` +${rates.length - 1}`}
+                                        </p>
+                                    )}
+                                    {missing.size > 0 && (
+                                        <p className="text-[10px] sm:text-xs text-amber-100 mt-1">
+                                            {t('clinics.missingRates')}: {[...missing].join(', ')}
+                                        </p>
+                                    )}
+                                </>
+                            );
+                        })()}
                     </div>
                 </div>
             </div>
@@ -394,6 +762,41 @@ const Clinics: React.FC = () => {
                                 </TableCell>
                                 <TableCell>
                                     <div className="flex items-center justify-end gap-1 sm:gap-2">
+                                        <button 
+                                            onClick={() => handleOpenAvailability(clinic)}
+                                            className="p-2 min-h-[44px] min-w-[44px] text-gray-400 hover:text-sky-600 rounded-lg hover:bg-sky-50 transition-colors flex items-center justify-center"
+                                            title={t('clinics.availability')}
+                                        >
+                                            <Clock size={18} />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleOpenCancellationPolicy(clinic)}
+                                            className="p-2 min-h-[44px] min-w-[44px] text-gray-400 hover:text-rose-600 rounded-lg hover:bg-rose-50 transition-colors flex items-center justify-center"
+                                            title={t('clinics.cancellationPolicy')}
+                                        >
+                                            <CalendarX size={18} />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleOpenCommissionRules(clinic)}
+                                            className="p-2 min-h-[44px] min-w-[44px] text-gray-400 hover:text-violet-600 rounded-lg hover:bg-violet-50 transition-colors flex items-center justify-center"
+                                            title={t('clinics.commissionRules')}
+                                        >
+                                            <Percent size={18} />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleOpenProcedurePrices(clinic)}
+                                            className="p-2 min-h-[44px] min-w-[44px] text-gray-400 hover:text-amber-600 rounded-lg hover:bg-amber-50 transition-colors flex items-center justify-center"
+                                            title={t('clinics.priceTable')}
+                                        >
+                                            <Tag size={18} />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleOpenSettlements(clinic)}
+                                            className="p-2 min-h-[44px] min-w-[44px] text-gray-400 hover:text-emerald-600 rounded-lg hover:bg-emerald-50 transition-colors flex items-center justify-center"
+                                            title={t('clinics.settlements')}
+                                        >
+                                            <Receipt size={18} />
+                                        </button>
                                         <button 
                                             onClick={() => {
                                                 setFormData({
@@ -552,6 +955,519 @@ const Clinics: React.FC = () => {
                     </div>
                 </form>
             </Modal>
+
+            <Modal
+                isOpen={availabilityClinic !== null}
+                onClose={() => setAvailabilityClinic(null)}
+                title={`${t('clinics.availability')}${availabilityClinic ? ` — ${sanitizeText(availabilityClinic.name)}` : ''}`}
+                size="lg"
+            >
+                <div className="space-y-6">
+                    <div>
+                        <p className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-1">{t('clinics.workingHours')}</p>
+                        <p className="text-xs text-slate-500 dark:text-gray-400 mb-3">{t('clinics.workingHoursHint')}</p>
+                        <div className="space-y-2">
+                            {WEEKDAY_ORDER.map(weekday => {
+                                const windows = availabilityForm.workingHours
+                                    .map((window, index) => ({ window, index }))
+                                    .filter(({ window }) => window.weekday === weekday);
+                                return (
+                                    <div key={weekday} className="flex flex-wrap items-center gap-2 border-b border-slate-100 dark:border-gray-700 pb-2">
+                                        <span className="w-20 text-sm font-medium text-slate-700 dark:text-gray-300">{t(`clinics.weekdays.${weekday}`)}</span>
+                                        {windows.length === 0 && (
+                                            <span className="text-sm text-slate-400 dark:text-gray-500 italic">{t('clinics.closed')}</span>
+                                        )}
+                                        {windows.map(({ window, index }) => (
+                                            <span key={index} className="flex items-center gap-1">
+                                                <input
+                                                    type="time"
+                                                    className="px-2 py-1.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                                    value={window.start}
+                                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateWindow(index, 'start', e.target.value)}
+                                                />
+                                                <span className="text-slate-400">–</span>
+                                                <input
+                                                    type="time"
+                                                    className="px-2 py-1.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                                    value={window.end}
+                                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateWindow(index, 'end', e.target.value)}
+                                                />
+                                                <button
+                                                    type="button"
+                                                    title={t('clinics.delete')}
+                                                    className="p-1 text-gray-400 hover:text-red-600 rounded"
+                                                    onClick={() => setAvailabilityForm(prev => ({
+                                                        ...prev,
+                                                        workingHours: prev.workingHours.filter((_, i) => i !== index)
+                                                    }))}
+                                                >
+                                                    <X size={14} />
+                                                </button>
+                                            </span>
+                                        ))}
+                                        <button
+                                            type="button"
+                                            className="flex items-center gap-1 text-sm text-sky-600 hover:text-sky-700"
+                                            onClick={() => addWindow(weekday)}
+                                        >
+                                            <Plus size={14} />
+                                            {t('clinics.addWindow')}
+                                        </button>
+                                        {weekday === 1 && windows.length > 0 && (
+                                            <button
+                                                type="button"
+                                                className="text-sm text-slate-500 hover:text-sky-600 ml-auto"
+                                                onClick={() => copyWindowsToWeekdays(weekday)}
+                                            >
+                                                {t('clinics.copyToWeekdays')}
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-3">{t('clinics.blockedDates')}</p>
+                        {availabilityForm.blockedDates.length > 0 ? (
+                            <ul className="space-y-1 mb-3">
+                                {availabilityForm.blockedDates.map(blocked => (
+                                    <li key={blocked.date} className="flex items-center justify-between text-sm rounded-lg bg-slate-50 dark:bg-gray-800 px-3 py-1.5">
+                                        <span className="text-slate-800 dark:text-white">
+                                            {formatDate(blocked.date)} • {t(`clinics.blockedKinds.${blocked.kind}`)}
+                                            {blocked.reason ? ` • ${sanitizeText(blocked.reason)}` : ''}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            title={t('clinics.delete')}
+                                            className="p-1 text-gray-400 hover:text-red-600 rounded"
+                                            onClick={() => setAvailabilityForm(prev => ({
+                                                ...prev,
+                                                blockedDates: prev.blockedDates.filter(item => item.date !== blocked.date)
+                                            }))}
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-sm text-slate-500 dark:text-gray-400 italic mb-3">{t('clinics.noBlockedDates')}</p>
+                        )}
+                        <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_2fr_auto] gap-2 items-end">
+                            <DateInput
+                                value={newBlockedDate.date}
+                                onChange={(e) => setNewBlockedDate({ ...newBlockedDate, date: e.target.value })}
+                            />
+                            <select
+                                className="w-full px-3 py-3 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                value={newBlockedDate.kind}
+                                onChange={(e: ChangeEvent<HTMLSelectElement>) => setNewBlockedDate({ ...newBlockedDate, kind: e.target.value as BlockedDateKind })}
+                            >
+                                <option value="holiday">{t('clinics.blockedKinds.holiday')}</option>
+                                <option value="blocked">{t('clinics.blockedKinds.blocked')}</option>
+                            </select>
+                            <input
+                                className="w-full px-3 py-3 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white"
+                                placeholder={t('clinics.blockedReasonPlaceholder')}
+                                maxLength={200}
+                                value={newBlockedDate.reason || ''}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setNewBlockedDate({ ...newBlockedDate, reason: e.target.value })}
+                            />
+                            <Button type="button" variant="secondary" disabled={!newBlockedDate.date} onClick={addBlockedDate}>
+                                <Plus size={16} />
+                            </Button>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+                        <Button type="button" variant="secondary" onClick={() => setAvailabilityClinic(null)}>
+                            {t('clinics.cancel')}
+                        </Button>
+                        <Button type="button" disabled={savingAvailability} onClick={handleSaveAvailability}>
+                            {t('clinics.saveChanges')}
+                        </Button>
+                    </div>
+                </div>
+            </Modal>
+
+            <Modal
+                isOpen={policyClinic !== null}
+                onClose={() => setPolicyClinic(null)}
+                title={`${t('clinics.cancellationPolicy')}${policyClinic ? ` — ${sanitizeText(policyClinic.name)}` : ''}`}
+            >
+                {policyForm && (
+                    <div className="space-y-4">
+                        <p className="text-xs text-slate-500 dark:text-gray-400">{t('clinics.cancellationPolicyHint')}</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <Input
+                                label={t('clinics.noticeHours')}
+                                type="number"
+                                min={0}
+                                max={720}
+                                value={policyForm.noticeHours}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setPolicyForm({ ...policyForm, noticeHours: e.target.value })}
+                            />
+                            <Input
+                                label={t('clinics.lateFee')}
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={policyForm.lateFee}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setPolicyForm({ ...policyForm, lateFee: e.target.value })}
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={policyForm.allowLateOverride}
+                                onChange={e => setPolicyForm({ ...policyForm, allowLateOverride: e.target.checked })}
+                            />
+                            {t('clinics.allowLateOverride')}
+                        </label>
+
+                        <div className="flex flex-col sm:flex-row justify-between gap-3 pt-4 border-t border-gray-100">
+                            <Button type="button" variant="ghost" disabled={savingPolicy} onClick={() => handleSaveCancellationPolicy(true)}>
+                                {t('clinics.useDefaultPolicy')}
+                            </Button>
+                            <div className="flex justify-end gap-3">
+                                <Button type="button" variant="secondary" onClick={() => setPolicyClinic(null)}>
+                                    {t('clinics.cancel')}
+                                </Button>
+                                <Button type="button" disabled={savingPolicy || !policyForm.noticeHours} onClick={() => handleSaveCancellationPolicy(false)}>
+                                    {t('clinics.saveChanges')}
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal
+                isOpen={commissionClinic !== null}
+                onClose={() => setCommissionClinic(null)}
+                title={`${t('clinics.commissionRules')}${commissionClinic ? ` — ${sanitizeText(commissionClinic.name)}` : ''}`}
+                size="lg"
+            >
+                {commissionClinic && (() => {
+                    const currentIds = CommissionDomainService.currentRuleIds(commissionRules, todayISO());
+                    return (
+                        <div className="space-y-6">
+                            <form onSubmit={handleSaveCommissionRule} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                                <p className="text-xs text-slate-500 dark:text-gray-400">{t('clinics.commissionHint')}</p>
+                                <Input
+                                    label={t('clinics.commissionProcedure')}
+                                    placeholder={t('clinics.commissionAllProcedures')}
+                                    value={commissionForm.procedure}
+                                    onChange={(e) => setCommissionForm({ ...commissionForm, procedure: e.target.value })}
+                                />
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('clinics.commissionType')}</label>
+                                        <select
+                                            className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                            value={commissionForm.paymentType}
+                                            onChange={(e) => setCommissionForm({ ...commissionForm, paymentType: e.target.value as CommissionRuleFormState['paymentType'] })}
+                                        >
+                                            <option value="100">100%</option>
+                                            <option value="percentage">{t('clinics.commissionPercentage')}</option>
+                                            <option value="fixed">{t('clinics.commissionFixed')}</option>
+                                        </select>
+                                    </div>
+                                    {commissionForm.paymentType === 'percentage' && (
+                                        <Input
+                                            label={t('clinics.commissionPercentage')}
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            step="0.01"
+                                            required
+                                            value={commissionForm.paymentPercentage}
+                                            onChange={(e) => setCommissionForm({ ...commissionForm, paymentPercentage: e.target.value })}
+                                        />
+                                    )}
+                                    {commissionForm.paymentType === 'fixed' && (
+                                        <Input
+                                            label={t('clinics.commissionFixed')}
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            required
+                                            value={commissionForm.paymentFixedAmount}
+                                            onChange={(e) => setCommissionForm({ ...commissionForm, paymentFixedAmount: e.target.value })}
+                                        />
+                                    )}
+                                    <DateInput
+                                        label={t('clinics.commissionEffectiveFrom')}
+                                        value={commissionForm.effectiveFrom}
+                                        onChange={(e) => setCommissionForm({ ...commissionForm, effectiveFrom: e.target.value })}
+                                    />
+                                </div>
+                                <Input
+                                    label={t('clinics.commissionNotes')}
+                                    value={commissionForm.notes}
+                                    onChange={(e) => setCommissionForm({ ...commissionForm, notes: e.target.value })}
+                                />
+                                <div className="flex justify-end">
+                                    <Button type="submit" disabled={savingCommission || !commissionForm.effectiveFrom}>
+                                        <Plus size={16} />
+                                        {t('clinics.commissionAddVersion')}
+                                    </Button>
+                                </div>
+                            </form>
+
+                            {commissionRules.length > 0 ? (
+                                <div className="space-y-2">
+                                    {commissionRules.map(rule => {
+                                        const scheduled = !rule.isEffectiveOn(todayISO());
+                                        return (
+                                            <div key={rule.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-gray-200 dark:border-gray-700 p-3">
+                                                <div className="space-y-0.5">
+                                                    <p className="font-semibold text-slate-900 dark:text-white">
+                                                        {rule.procedure ? sanitizeText(rule.procedure) : t('clinics.commissionClinicDefault')}
+                                                        <span className="ml-2 font-normal text-slate-600 dark:text-gray-300">{describeCommissionRule(rule)}</span>
+                                                    </p>
+                                                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                                                        {t('clinics.commissionSince')} {formatDate(rule.effectiveFrom)}
+                                                        {rule.notes ? ` • ${sanitizeText(rule.notes)}` : ''}
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    {currentIds.has(rule.id) && <Badge variant="success">{t('clinics.commissionCurrent')}</Badge>}
+                                                    {scheduled && <Badge variant="warning">{t('clinics.commissionScheduled')}</Badge>}
+                                                    {scheduled && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleDeleteCommissionRule(rule.id)}
+                                                            className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                                                            title={t('clinics.delete')}
+                                                        >
+                                                            <Trash2 size={16} />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('clinics.noCommissionRules')}</p>
+                            )}
+                        </div>
+                    );
+                })()}
+            </Modal>
+
+            <Modal
+                isOpen={priceClinic !== null}
+                onClose={() => setPriceClinic(null)}
+                title={`${t('clinics.priceTable')}${priceClinic ? ` — ${sanitizeText(priceClinic.name)}` : ''}`}
+                size="lg"
+            >
+                {priceClinic && (() => {
+                    const currentIds = PricingDomainService.currentPriceIds(procedurePrices, todayISO());
+                    const procedureNames = new Map(priceProcedures.map(procedure => [procedure.id, procedure.name]));
+                    return (
+                        <div className="space-y-6">
+                            <form onSubmit={handleSaveProcedurePrice} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                                <p className="text-xs text-slate-500 dark:text-gray-400">{t('clinics.priceHint')}</p>
+                                <div>
+                                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('clinics.priceProcedure')}</label>
+                                    <select
+                                        className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                        value={priceForm.procedureId}
+                                        onChange={(e) => setPriceForm({ ...priceForm, procedureId: e.target.value })}
+                                        required
+                                    >
+                                        <option value="">{t('clinics.priceSelectProcedure')}</option>
+                                        {priceProcedures.map(procedure => (
+                                            <option key={procedure.id} value={procedure.id}>{procedure.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                    <Input
+                                        label={t('clinics.priceValue')}
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        required
+                                        value={priceForm.price}
+                                        onChange={(e) => setPriceForm({ ...priceForm, price: e.target.value })}
+                                    />
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('clinics.priceCurrency')}</label>
+                                        <select
+                                            className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                            value={priceForm.currency}
+                                            onChange={(e) => setPriceForm({ ...priceForm, currency: e.target.value as Currency })}
+                                        >
+                                            <option value="BRL">Real (R$)</option>
+                                            <option value="USD">Dólar ($)</option>
+                                            <option value="EUR">Euro (€)</option>
+                                        </select>
+                                    </div>
+                                    <DateInput
+                                        label={t('clinics.commissionEffectiveFrom')}
+                                        value={priceForm.effectiveFrom}
+                                        onChange={(e) => setPriceForm({ ...priceForm, effectiveFrom: e.target.value })}
+                                    />
+                                </div>
+                                <Input
+                                    label={t('clinics.commissionNotes')}
+                                    value={priceForm.notes}
+                                    onChange={(e) => setPriceForm({ ...priceForm, notes: e.target.value })}
+                                />
+                                <div className="flex justify-end">
+                                    <Button type="submit" disabled={savingPrice || !priceForm.procedureId || !priceForm.effectiveFrom}>
+                                        <Plus size={16} />
+                                        {t('clinics.commissionAddVersion')}
+                                    </Button>
+                                </div>
+                            </form>
+
+                            {procedurePrices.length > 0 ? (
+                                <div className="space-y-2">
+                                    {procedurePrices.map(price => {
+                                        const scheduled = !price.isEffectiveOn(todayISO());
+                                        return (
+                                            <div key={price.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-gray-200 dark:border-gray-700 p-3">
+                                                <div className="space-y-0.5">
+                                                    <p className="font-semibold text-slate-900 dark:text-white">
+                                                        {sanitizeText(procedureNames.get(price.procedureId) ?? t('clinics.priceUnknownProcedure'))}
+                                                        <span className="ml-2 font-normal text-slate-600 dark:text-gray-300">{formatCurrency(price.price.amount, price.price.currency)}</span>
+                                                    </p>
+                                                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                                                        {t('clinics.commissionSince')} {formatDate(price.effectiveFrom)}
+                                                        {price.notes ? ` • ${sanitizeText(price.notes)}` : ''}
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    {currentIds.has(price.id) && <Badge variant="success">{t('clinics.commissionCurrent')}</Badge>}
+                                                    {scheduled && <Badge variant="warning">{t('clinics.commissionScheduled')}</Badge>}
+                                                    {scheduled && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleDeleteProcedurePrice(price.id)}
+                                                            className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                                                            title={t('clinics.delete')}
+                                                        >
+                                                            <Trash2 size={16} />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('clinics.noPrices')}</p>
+                            )}
+                        </div>
+                    );
+                })()}
+            </Modal>
+
+            <Modal
+                isOpen={settlementClinic !== null}
+                onClose={() => setSettlementClinic(null)}
+                title={`${t('clinics.settlements')}${settlementClinic ? ` — ${sanitizeText(settlementClinic.name)}` : ''}`}
+                size="xl"
+            >
+                {settlementClinic && (
+                    <div className="space-y-6">
+                        <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                            <p className="text-xs text-slate-500 dark:text-gray-400">{t('clinics.settlementHint')}</p>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                                <DateInput
+                                    label={t('clinics.periodStart')}
+                                    value={settlementPeriod.start}
+                                    onChange={(e) => setSettlementPeriod({ ...settlementPeriod, start: e.target.value })}
+                                />
+                                <DateInput
+                                    label={t('clinics.periodEnd')}
+                                    value={settlementPeriod.end}
+                                    onChange={(e) => setSettlementPeriod({ ...settlementPeriod, end: e.target.value })}
+                                />
+                                <Button
+                                    type="button"
+                                    disabled={settlementBusy || !settlementPeriod.start || !settlementPeriod.end}
+                                    onClick={handleIssueSettlement}
+                                >
+                                    <Receipt size={16} />
+                                    {t('clinics.issueSettlement')}
+                                </Button>
+                            </div>
+                        </div>
+
+                        {settlements.length > 0 ? (
+                            <div className="space-y-3">
+                                {settlements.map(statement => {
+                                    const totals = statement.totals;
+                                    const reconciliation = reconciliations[statement.id];
+                                    return (
+                                        <div key={statement.id} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-2">
+                                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                                <span className="font-semibold text-slate-900 dark:text-white">
+                                                    {formatDate(statement.periodStart)} – {formatDate(statement.periodEnd)}
+                                                </span>
+                                                <Badge variant={statement.isSettled ? 'success' : 'warning'}>
+                                                    {t(`clinics.settlementStatuses.${statement.status}`)}
+                                                    {statement.settledAt ? ` • ${formatDate(statement.settledAt)}` : ''}
+                                                </Badge>
+                                            </div>
+                                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm text-slate-700 dark:text-gray-300">
+                                                <span>{statement.lines.length} {t('clinics.appointments')}</span>
+                                                <span>{t('clinics.grossValue')}: {formatCurrency(totals.gross, statement.currency)}</span>
+                                                <span>{t('clinics.ourShare')}: {formatCurrency(totals.ourShare, statement.currency)}</span>
+                                                <span>{t('clinics.clinicShare')}: {formatCurrency(totals.clinicShare, statement.currency)}</span>
+                                            </div>
+                                            {reconciliation && (
+                                                <p className={`text-sm ${reconciliation.reconciled ? 'text-emerald-600 dark:text-emerald-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                                                    {reconciliation.reconciled
+                                                        ? t('clinics.settlementReconciled')
+                                                        : `${t('clinics.settlementDifference')}: ${formatCurrency(reconciliation.difference, statement.currency)}` +
+                                                          (reconciliation.pendingAppointmentIds.length > 0
+                                                              ? ` • ${reconciliation.pendingAppointmentIds.length} ${t('clinics.settlementPendingAppointments')}`
+                                                              : '')}
+                                                </p>
+                                            )}
+                                            <div className="flex flex-wrap justify-end gap-2">
+                                                <Button type="button" variant="ghost" className="text-sm" onClick={() => handleReconcileStatement(statement.id)}>
+                                                    {t('clinics.reconcile')}
+                                                </Button>
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    className="text-sm"
+                                                    onClick={() => exportSettlementPdf(statement, settlementClinic.name)}
+                                                >
+                                                    <FileDown size={16} />
+                                                    PDF
+                                                </Button>
+                                                {!statement.isSettled && (
+                                                    <Button
+                                                        type="button"
+                                                        variant="secondary"
+                                                        className="text-sm"
+                                                        disabled={settlementBusy}
+                                                        onClick={() => handleSettleStatement(statement.id)}
+                                                    >
+                                                        {t('clinics.markSettled')}
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('clinics.noSettlements')}</p>
+                        )}
+                    </div>
+                )}
+            </Modal>
         </motion.div>
     );
 };
@@ -9,13 +9,14 @@ import {
     Tooltip,
     Legend,
 } from 'chart.js';
-import { DollarSign, Building2, TrendingUp, Calendar, ArrowUpRight, Download, Plus } from 'lucide-react';
+import { DollarSign, Building2, TrendingUp, Calendar, ArrowUpRight, Download, Plus, Wallet, Target, Trash2 } from 'lucide-react';
 import { motion, Variants } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import jsPDF from 'jspdf';
 import Card from '../components/UI/Card';
 import Badge from '../components/UI/Badge';
 import Button from '../components/UI/Button';
+import Modal from '../components/UI/Modal';
 import { useLanguage } from '../context/LanguageContext';
 import { useCurrency } from '../context/CurrencyContext';
 import { cn, formatCurrency } from '../lib/utils';
@@ -24,6 +25,18 @@ import { sanitizeText } from '../lib/sanitize';
 import { useDependencies } from '../hooks/useDependencies';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { useToast } from '../components/UI/Toast';
+import { CLINICAL_STATUSES, ClinicalStatusFilter, PaymentStatusFilter } from '../lib/appointmentStatus';
+import { formatAppliedRate } from '../lib/exchangeRates';
+import { toISODate } from '../lib/calendar';
+import { GoalFormState, goalToForm, goalFormToDTO } from '../lib/goals';
+import { extractArray } from '../lib/typeGuards';
+import type { Currency } from '../domain/value-objects/Money';
+import type { AppliedRate, MissingRate } from '../domain/services/ExchangeRateDomainService';
+import type { ProfitReport } from '../domain/services/ProfitDomainService';
+import type { CashFlowProjection, GoalMetric } from '../domain/services/ForecastDomainService';
+import type { MonthGoalsOverview } from '../application/services/GoalService';
+import type { RevenueGoal } from '../domain/entities/RevenueGoal';
+import type { Clinic } from '../domain/entities/Clinic';
 
 ChartJS.register(
     CategoryScale,
@@ -39,14 +52,20 @@ interface DashboardStats {
     pending: number;
     appointments: number;
     clinics: number;
+    rates: AppliedRate[];
+    missingRates: MissingRate[];
 }
 
 interface ClinicRanking {
-    id: string;
-    name: string;
-    revenue: number;
-    appointments: number;
-    ticket: number;
+    items: Array<{
+        id: string;
+        name: string;
+        revenue: number;
+        appointments: number;
+        ticket: number;
+    }>;
+    rates: AppliedRate[];
+    missingRates: MissingRate[];
 }
 
 interface WeeklyData {
@@ -61,16 +80,32 @@ const Dashboard: React.FC = () => {
     const { currency } = useCurrency();
     const container = useDependencies();
     const dashboardService = container.resolve('dashboardService');
+    const expenseService = container.resolve('expenseService');
+    const goalService = container.resolve('goalService');
+    const clinicService = container.resolve('clinicService');
     const { handleError } = useErrorHandler();
+    const { showSuccess } = useToast();
     const [stats, setStats] = useState<DashboardStats>({
         revenue: 0,
         pending: 0,
         appointments: 0,
-        clinics: 0
+        clinics: 0,
+        rates: [],
+        missingRates: []
     });
-    const [clinicRanking, setClinicRanking] = useState<ClinicRanking[]>([]);
+    const [clinicRanking, setClinicRanking] = useState<ClinicRanking>({ items: [], rates: [], missingRates: [] });
     const [weeklyData, setWeeklyData] = useState<WeeklyData[]>([]);
+    const [profit, setProfit] = useState<ProfitReport | null>(null);
+    const [goalsOverview, setGoalsOverview] = useState<MonthGoalsOverview | null>(null);
+    const [cashFlow, setCashFlow] = useState<CashFlowProjection | null>(null);
+    const [goals, setGoals] = useState<RevenueGoal[]>([]);
+    const [clinics, setClinics] = useState<Clinic[]>([]);
+    const [goalForms, setGoalForms] = useState<Record<string, GoalFormState>>({});
+    const [isGoalsOpen, setIsGoalsOpen] = useState<boolean>(false);
+    const [savingGoal, setSavingGoal] = useState<string | null>(null);
     const [loading, setLoading] = useState<boolean>(true);
+    const [paymentFilter, setPaymentFilter] = useState<PaymentStatusFilter>('all');
+    const [clinicalFilter, setClinicalFilter] = useState<ClinicalStatusFilter>('all');
 
     useEffect(() => {
         const abortController = new AbortController();
@@ -80,7 +115,10 @@ const Dashboard: React.FC = () => {
             
             try {
                 setLoading(true);
-                const { stats: statsData, ranking: rankingData, weeklyData } = await dashboardService.getAllDashboardData();
+                const { stats: statsData, ranking: rankingData, weeklyData } = await dashboardService.getAllDashboardData({
+                    paymentStatus: paymentFilter === 'all' ? undefined : paymentFilter,
+                    clinicalStatus: clinicalFilter === 'all' ? undefined : clinicalFilter
+                }, currency as Currency);
                 
                 console.log('Dashboard - Data received', {
                     stats: statsData,
@@ -110,7 +148,109 @@ const Dashboard: React.FC = () => {
             abortController.abort();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [paymentFilter, clinicalFilter, currency]);
+
+    // Lucro líquido do mês atual e dos cinco anteriores (não depende dos filtros de status)
+    useEffect(() => {
+        let cancelled = false;
+        const now = new Date();
+        const startDate = toISODate(new Date(now.getFullYear(), now.getMonth() - 5, 1));
+        const endDate = toISODate(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+
+        expenseService.getNetProfit(startDate, endDate, currency as Currency)
+            .then((report: ProfitReport) => {
+                if (!cancelled) setProfit(report);
+            })
+            .catch((error: unknown) => {
+                logger.error(error, { context: 'loadNetProfit' });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [currency]);
+
+    const currentMonthKey = toISODate(new Date()).slice(0, 7);
+
+    // Metas, previsão do mês e fluxo de caixa (não dependem dos filtros de status)
+    const loadGoals = async (): Promise<void> => {
+        try {
+            const [overview, projection, monthGoals, clinicsResult] = await Promise.all([
+                goalService.getMonthOverview(currentMonthKey, currency as Currency),
+                goalService.getCashFlow(3, currency as Currency),
+                goalService.getGoals(currentMonthKey),
+                clinicService.getAll()
+            ]);
+            const clinicList = extractArray<Clinic>(clinicsResult);
+            setGoalsOverview(overview);
+            setCashFlow(projection);
+            setGoals(monthGoals);
+            setClinics(clinicList);
+            setGoalForms(Object.fromEntries(
+                ['', ...clinicList.map(clinic => clinic.id)].map(key => [
+                    key,
+                    goalToForm(monthGoals.find((goal: RevenueGoal) => (goal.clinicId ?? '') === key))
+                ])
+            ));
+        } catch (error) {
+            logger.error(error, { context: 'loadGoals' });
+        }
+    };
+
+    useEffect(() => {
+        loadGoals();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [currency]);
+
+    const updateGoalForm = (key: string, field: keyof GoalFormState, value: string): void => {
+        setGoalForms(forms => ({ ...forms, [key]: { ...(forms[key] ?? goalToForm(undefined)), [field]: value } }));
+    };
+
+    const handleSaveGoal = async (key: string): Promise<void> => {
+        try {
+            setSavingGoal(key);
+            await goalService.saveGoal(goalFormToDTO(currentMonthKey, key || null, goalForms[key] ?? goalToForm(undefined), currency as Currency));
+            showSuccess(t('dashboard.goalSaved'));
+            await loadGoals();
+        } catch (error) {
+            handleError(error, 'Dashboard.saveGoal');
+        } finally {
+            setSavingGoal(null);
+        }
+    };
+
+    const handleDeleteGoal = async (goal: RevenueGoal): Promise<void> => {
+        try {
+            setSavingGoal(goal.clinicId ?? '');
+            await goalService.deleteGoal(goal.id);
+            await loadGoals();
+        } catch (error) {
+            handleError(error, 'Dashboard.deleteGoal');
+        } finally {
+            setSavingGoal(null);
+        }
+    };
+
+    const clinicName = (clinicId: string | null): string =>
+        clinicId ? clinics.find(clinic => clinic.id === clinicId)?.name ?? '—' : t('dashboard.goalOverall');
+
+    const renderGoalMetric = (label: string, metric: GoalMetric, format: (value: number) => string) => (
+        <div>
+            <div className="flex justify-between text-xs text-slate-600 dark:text-gray-300 mb-1">
+                <span>{label}</span>
+                <span>{format(metric.realized)} / {format(metric.target)} ({metric.percent}%)</span>
+            </div>
+            <div className="relative h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                <div className="absolute inset-y-0 left-0 bg-sky-200 dark:bg-sky-900" style={{ width: `${Math.min(metric.projectedPercent, 100)}%` }} />
+                <div className="absolute inset-y-0 left-0 bg-sky-500" style={{ width: `${Math.min(metric.percent, 100)}%` }} />
+            </div>
+            <p className={cn('text-[10px] sm:text-xs mt-1', metric.projectedPercent >= 100 ? 'text-emerald-600' : 'text-amber-700 dark:text-amber-400')}>
+                {t('dashboard.goalProjected')}: {format(metric.projected)} ({metric.projectedPercent}%)
+            </p>
+        </div>
+    );
+    const currentMonthProfit = profit?.byMonth.find(row => row.key === currentMonthKey);
 
     const handleExportDashboard = (): void => {
         const doc = new jsPDF();
@@ -126,7 +266,7 @@ const Dashboard: React.FC = () => {
         let y = 90;
         doc.text('Top 5 Clínicas:', 20, y);
         y += 10;
-        clinicRanking.slice(0, 5).forEach((clinic, i) => {
+        clinicRanking.items.slice(0, 5).forEach((clinic, i) => {
             doc.text(`${i + 1}. ${clinic.name} - ${formatCurrency(clinic.revenue, currency)}`, 25, y);
             y += 8;
         });
@@ -231,6 +371,28 @@ const Dashboard: React.FC = () => {
                         <p className="text-sm sm:text-base text-white/90">{t('dashboard.subtitle')}</p>
                     </div>
                     <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 w-full sm:w-auto">
+                        <select
+                            value={paymentFilter}
+                            onChange={(e) => setPaymentFilter(e.target.value as PaymentStatusFilter)}
+                            aria-label={t('appointments.paymentStatus')}
+                            className="w-full sm:w-auto bg-white/20 border border-white/30 text-white text-sm rounded-xl px-3 py-2 min-h-[44px] outline-none focus:ring-2 focus:ring-white/50 [&>option]:text-slate-900"
+                        >
+                            <option value="all">{t('appointments.allPaymentStatuses')}</option>
+                            <option value="pending">{t('appointments.pending')}</option>
+                            <option value="partial">{t('appointments.partial')}</option>
+                            <option value="paid">{t('appointments.paid')}</option>
+                        </select>
+                        <select
+                            value={clinicalFilter}
+                            onChange={(e) => setClinicalFilter(e.target.value as ClinicalStatusFilter)}
+                            aria-label={t('appointments.clinicalStatus')}
+                            className="w-full sm:w-auto bg-white/20 border border-white/30 text-white text-sm rounded-xl px-3 py-2 min-h-[44px] outline-none focus:ring-2 focus:ring-white/50 [&>option]:text-slate-900"
+                        >
+                            <option value="all">{t('appointments.allClinicalStatuses')}</option>
+                            {CLINICAL_STATUSES.map(status => (
+                                <option key={status} value={status}>{t(`appointments.clinicalStatuses.${status}`)}</option>
+                            ))}
+                        </select>
                         <Button 
                             variant="secondary" 
                             className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30 text-sm sm:text-base w-full sm:w-auto"
@@ -265,9 +427,25 @@ const Dashboard: React.FC = () => {
                                     {t('dashboard.received')}: {formatCurrency(stats.revenue, currency)}
                                 </span>
                             </div>
-                            <p className="text-[10px] sm:text-xs text-emerald-600 dark:text-emerald-400 mt-2">
+                            <button
+                                type="button"
+                                onClick={() => navigate('/receivables')}
+                                title={t('dashboard.viewReceivables')}
+                                className="text-[10px] sm:text-xs text-emerald-600 dark:text-emerald-400 mt-2 hover:underline text-left"
+                            >
                                 {t('dashboard.pending')}: {formatCurrency(stats.pending, currency)}
-                            </p>
+                            </button>
+                            {stats.rates.length > 0 && (
+                                <p className="text-[10px] sm:text-xs text-emerald-600 dark:text-emerald-400 mt-1" title={stats.rates.map(rate => formatAppliedRate(rate)).join('\n')}>
+                                    {t('dashboard.convertedAt')}: {formatAppliedRate(stats.rates[stats.rates.length - 1])}
+                                    {stats.rates.length > 1 && ` +${stats.rates.length - 1}`}
+                                </p>
+                            )}
+                            {stats.missingRates.length > 0 && (
+                                <p className="text-[10px] sm:text-xs text-amber-700 dark:text-amber-400 mt-1">
+                                    {t('dashboard.missingRates')}: {[...new Set(stats.missingRates.map(missing => missing.currency))].join(', ')}
+                                </p>
+                            )}
                         </div>
                         <div className="p-2 sm:p-3 bg-emerald-200 dark:bg-emerald-800/50 rounded-xl flex-shrink-0 ml-2">
                             <DollarSign className="text-emerald-700 dark:text-emerald-300" size={20} />
@@ -352,14 +530,14 @@ const Dashboard: React.FC = () => {
                             </Button>
                         </div>
                         <div className="space-y-2 sm:space-y-3">
-                            {clinicRanking.length === 0 && !loading && (
+                            {clinicRanking.items.length === 0 && !loading && (
                                 <p className="text-center text-gray-500 dark:text-gray-400 py-4">Nenhuma clínica com atendimentos ainda.</p>
                             )}
                             {loading && (
                                 <p className="text-center text-gray-500 dark:text-gray-400 py-4">Carregando...</p>
                             )}
-                            {clinicRanking.slice(0, 5).map((clinic, i) => {
-                                const totalRevenue = clinicRanking.reduce((sum, c) => sum + c.revenue, 0);
+                            {clinicRanking.items.slice(0, 5).map((clinic, i) => {
+                                const totalRevenue = clinicRanking.items.reduce((sum, c) => sum + c.revenue, 0);
                                 const percentage = totalRevenue > 0 ? Math.round((clinic.revenue / totalRevenue) * 100) : 0;
                                 return (
                                     <div key={clinic.id || i} className="flex items-center justify-between p-3 sm:p-4 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-xl transition-colors group cursor-pointer border border-gray-100 dark:border-gray-700 hover:border-gray-200 dark:hover:border-gray-600">
@@ -385,9 +563,222 @@ const Dashboard: React.FC = () => {
                                 );
                             })}
                         </div>
+                        {clinicRanking.rates.length > 0 && (
+                            <p className="text-xs text-slate-500 dark:text-gray-400 mt-3" title={clinicRanking.rates.map(rate => formatAppliedRate(rate)).join('\n')}>
+                                {t('dashboard.convertedAt')}: {formatAppliedRate(clinicRanking.rates[clinicRanking.rates.length - 1])}
+                                {clinicRanking.rates.length > 1 && ` +${clinicRanking.rates.length - 1}`}
+                            </p>
+                        )}
+                        {clinicRanking.missingRates.length > 0 && (
+                            <p className="text-xs text-amber-700 dark:text-amber-400 mt-1">
+                                {t('dashboard.missingRates')}: {[...new Set(clinicRanking.missingRates.map(missing => missing.currency))].join(', ')}
+                            </p>
+                        )}
                     </Card>
                 </motion.div>
             </div>
+
+            {profit && (
+                <motion.div variants={itemVariants}>
+                    <Card className="p-4 sm:p-6">
+                        <div className="flex items-start justify-between gap-3 mb-4">
+                            <div>
+                                <h3 className="text-lg sm:text-xl font-bold text-slate-900 dark:text-white mb-1">{t('dashboard.netProfit')}</h3>
+                                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('dashboard.netProfitSubtitle')}</p>
+                            </div>
+                            <div className="p-2 sm:p-3 bg-sky-100 dark:bg-sky-900/30 rounded-xl">
+                                <Wallet className="text-sky-700 dark:text-sky-300" size={20} />
+                            </div>
+                        </div>
+                        <div className="mb-4">
+                            <p className="text-xs text-slate-500 dark:text-gray-400">{t('dashboard.netProfitThisMonth')}</p>
+                            <p className={cn('text-2xl sm:text-3xl font-bold', (currentMonthProfit?.net ?? 0) < 0 ? 'text-rose-600' : 'text-slate-900 dark:text-white')}>
+                                {(currentMonthProfit?.net ?? 0) < 0 ? '-' : ''}{formatCurrency(Math.abs(currentMonthProfit?.net ?? 0), profit.currency)}
+                            </p>
+                            <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">
+                                {t('dashboard.received')}: {formatCurrency(currentMonthProfit?.revenue ?? 0, profit.currency)} • {t('dashboard.expenses')}: {formatCurrency(currentMonthProfit?.expenses ?? 0, profit.currency)}
+                            </p>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+                            {profit.byMonth.map(row => {
+                                const [year, month] = row.key.split('-');
+                                return (
+                                    <div key={row.key} className="rounded-xl border border-gray-100 dark:border-gray-700 p-2 sm:p-3">
+                                        <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">{month}/{year}</p>
+                                        <p className={cn('font-semibold text-xs sm:text-sm', row.net < 0 ? 'text-rose-600' : 'text-emerald-600')}>
+                                            {row.net < 0 ? '-' : ''}{formatCurrency(Math.abs(row.net), profit.currency)}
+                                        </p>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {profit.missingRates.length > 0 && (
+                            <p className="text-xs text-amber-700 dark:text-amber-400 mt-3">
+                                {t('dashboard.missingRates')}: {[...new Set(profit.missingRates.map(missing => missing.currency))].join(', ')}
+                            </p>
+                        )}
+                    </Card>
+                </motion.div>
+            )}
+
+            {goalsOverview && (
+                <motion.div variants={itemVariants} className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                    <Card className="p-4 sm:p-6">
+                        <div className="flex items-start justify-between gap-3 mb-4">
+                            <div>
+                                <h3 className="text-lg sm:text-xl font-bold text-slate-900 dark:text-white mb-1">{t('dashboard.goals')}</h3>
+                                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('dashboard.goalsSubtitle')}</p>
+                            </div>
+                            <Button variant="secondary" className="gap-2 text-xs sm:text-sm" onClick={() => setIsGoalsOpen(true)}>
+                                <Target size={16} />
+                                {t('dashboard.setGoals')}
+                            </Button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2 mb-4">
+                            <div className="rounded-xl border border-gray-100 dark:border-gray-700 p-2 sm:p-3">
+                                <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">{t('dashboard.forecastRealized')}</p>
+                                <p className="font-semibold text-xs sm:text-sm text-slate-900 dark:text-white">{formatCurrency(goalsOverview.forecast.realized.revenue, goalsOverview.forecast.currency)}</p>
+                                <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">{goalsOverview.forecast.realized.appointments} {t('dashboard.forecastAppointments')}</p>
+                            </div>
+                            <div className="rounded-xl border border-gray-100 dark:border-gray-700 p-2 sm:p-3">
+                                <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">{t('dashboard.forecastScheduled')}</p>
+                                <p className="font-semibold text-xs sm:text-sm text-slate-900 dark:text-white">{formatCurrency(goalsOverview.forecast.expected.revenue, goalsOverview.forecast.currency)}</p>
+                                <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">{goalsOverview.forecast.expected.appointments} {t('dashboard.forecastAppointments')}</p>
+                            </div>
+                            <div className="rounded-xl border border-sky-200 dark:border-sky-800 bg-sky-50 dark:bg-sky-900/30 p-2 sm:p-3">
+                                <p className="text-[10px] sm:text-xs text-sky-700 dark:text-sky-300">{t('dashboard.forecastMonthEnd')}</p>
+                                <p className="font-semibold text-xs sm:text-sm text-sky-900 dark:text-sky-100">{formatCurrency(goalsOverview.forecast.projected.revenue, goalsOverview.forecast.currency)}</p>
+                                <p className="text-[10px] sm:text-xs text-sky-700 dark:text-sky-300">{goalsOverview.forecast.projected.appointments} {t('dashboard.forecastAppointments')}</p>
+                            </div>
+                        </div>
+                        {goalsOverview.goals.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-gray-400">{t('dashboard.noGoals')}</p>
+                        ) : (
+                            <div className="space-y-4">
+                                {goalsOverview.goals.map(progress => (
+                                    <div key={progress.goalId} className="space-y-2">
+                                        <p className="text-sm font-semibold text-slate-900 dark:text-white">{clinicName(progress.clinicId)}</p>
+                                        {progress.revenue && renderGoalMetric(t('dashboard.goalRevenue'), progress.revenue, value => formatCurrency(value, goalsOverview.forecast.currency))}
+                                        {progress.appointments && renderGoalMetric(t('dashboard.goalAppointments'), progress.appointments, value => String(value))}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {goalsOverview.forecast.missingRates.length > 0 && (
+                            <p className="text-xs text-amber-700 dark:text-amber-400 mt-3">
+                                {t('dashboard.missingRates')}: {[...new Set(goalsOverview.forecast.missingRates.map(missing => missing.currency))].join(', ')}
+                            </p>
+                        )}
+                    </Card>
+
+                    {cashFlow && (
+                        <Card className="p-4 sm:p-6">
+                            <div className="mb-4">
+                                <h3 className="text-lg sm:text-xl font-bold text-slate-900 dark:text-white mb-1">{t('dashboard.cashFlow')}</h3>
+                                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('dashboard.cashFlowSubtitle')}</p>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                {cashFlow.months.map(row => {
+                                    const [year, month] = row.month.split('-');
+                                    return (
+                                        <div key={row.month} className="rounded-xl border border-gray-100 dark:border-gray-700 p-3">
+                                            <p className="text-xs text-slate-500 dark:text-gray-400">{month}/{year}</p>
+                                            <p className="font-bold text-base sm:text-lg text-emerald-600">{formatCurrency(row.total, cashFlow.currency)}</p>
+                                            <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">
+                                                {t('dashboard.cashFlowInstallments')}: {formatCurrency(row.installments, cashFlow.currency)}
+                                            </p>
+                                            <p className="text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">
+                                                {t('dashboard.cashFlowAppointments')}: {formatCurrency(row.appointments, cashFlow.currency)}
+                                            </p>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            {cashFlow.overdue > 0 && (
+                                <button
+                                    type="button"
+                                    onClick={() => navigate('/receivables')}
+                                    className="text-xs text-rose-600 mt-3 hover:underline text-left"
+                                >
+                                    {t('dashboard.cashFlowOverdue')}: {formatCurrency(cashFlow.overdue, cashFlow.currency)}
+                                </button>
+                            )}
+                            {cashFlow.missingRates.length > 0 && (
+                                <p className="text-xs text-amber-700 dark:text-amber-400 mt-3">
+                                    {t('dashboard.missingRates')}: {[...new Set(cashFlow.missingRates.map(missing => missing.currency))].join(', ')}
+                                </p>
+                            )}
+                        </Card>
+                    )}
+                </motion.div>
+            )}
+
+            <Modal isOpen={isGoalsOpen} onClose={() => setIsGoalsOpen(false)} title={t('dashboard.setGoals')} size="lg">
+                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400 mb-4">{t('dashboard.goalsHint')}</p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="text-slate-600 dark:text-gray-300">
+                                <th className="pb-2 pr-3 font-semibold">{t('dashboard.goalScope')}</th>
+                                <th className="pb-2 pr-3 font-semibold">{t('dashboard.goalRevenue')} ({currency})</th>
+                                <th className="pb-2 pr-3 font-semibold">{t('dashboard.goalAppointments')}</th>
+                                <th className="pb-2" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                            {['', ...clinics.map(clinic => clinic.id)].map(key => {
+                                const form = goalForms[key] ?? goalToForm(undefined);
+                                const existing = goals.find(goal => (goal.clinicId ?? '') === key);
+                                return (
+                                    <tr key={key || 'overall'}>
+                                        <td className="py-2 pr-3 font-medium text-slate-900 dark:text-white">{clinicName(key || null)}</td>
+                                        <td className="py-2 pr-3">
+                                            <input
+                                                className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                                inputMode="decimal"
+                                                value={form.revenueTarget}
+                                                onChange={(e) => updateGoalForm(key, 'revenueTarget', e.target.value)}
+                                                aria-label={t('dashboard.goalRevenue')}
+                                            />
+                                        </td>
+                                        <td className="py-2 pr-3">
+                                            <input
+                                                className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                                type="number"
+                                                min="0"
+                                                value={form.appointmentTarget}
+                                                onChange={(e) => updateGoalForm(key, 'appointmentTarget', e.target.value)}
+                                                aria-label={t('dashboard.goalAppointments')}
+                                            />
+                                        </td>
+                                        <td className="py-2 text-right whitespace-nowrap">
+                                            <Button
+                                                variant="secondary"
+                                                className="text-xs px-3 py-2"
+                                                disabled={savingGoal !== null}
+                                                onClick={() => handleSaveGoal(key)}
+                                            >
+                                                {savingGoal === key ? t('common.saving') : t('common.save')}
+                                            </Button>
+                                            {existing && (
+                                                <Button
+                                                    variant="ghost"
+                                                    className="text-xs px-2 py-2 ml-1"
+                                                    disabled={savingGoal !== null}
+                                                    onClick={() => handleDeleteGoal(existing)}
+                                                    aria-label={t('common.delete')}
+                                                >
+                                                    <Trash2 size={14} />
+                                                </Button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </Modal>
         </motion.div>
     );
 };
@@ -1,20 +1,49 @@
 import React, { useState, useEffect, useRef, FormEvent, ChangeEvent, ReactNode } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { User, Calendar, FileText, Image as ImageIcon, Edit, Trash2, X, Maximize2, Eye, Building2, DollarSign, Clock, Stethoscope, FileText as NotesIcon } from 'lucide-react';
+import { User, Calendar, FileText, Image as ImageIcon, Edit, Trash2, X, Maximize2, Eye, Building2, DollarSign, Clock, Stethoscope, FileText as NotesIcon, ClipboardList, CheckCircle2, Plus, Smile, Printer, HeartPulse, AlertTriangle, FilePenLine, ShieldCheck, History } from 'lucide-react';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import Badge from '../components/UI/Badge';
 import Modal from '../components/UI/Modal';
 import Input from '../components/UI/Input';
+import DateInput from '../components/UI/DateInput';
 import { useCurrency } from '../context/CurrencyContext';
 import { useDependencies } from '../hooks/useDependencies';
-import { formatPhoneNumber, unformatPhoneNumber, calculateReceivedValue, formatDate, formatTime, formatCurrency } from '../lib/utils';
+import { formatPhoneNumber, formatCPF, formatZipCode, calculateReceivedValue, sumAmounts, formatDate, formatTime, formatCurrency } from '../lib/utils';
 import { sanitizeHTML } from '../lib/sanitize';
 import { logger } from '../lib/logger';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { useToast } from '../components/UI/Toast';
+import type { TreatmentPlanOverview } from '../application/services/TreatmentPlanService';
+import type { TreatmentPlanStatus } from '../domain/entities/TreatmentPlan';
+import type { Dentition } from '../domain/value-objects/ToothNumber';
+import Odontogram from '../components/Clinical/Odontogram';
+import { countByTooth, formatTeeth, parseTeethInput } from '../lib/teeth';
+import type { EndodonticRecord } from '../domain/entities/EndodonticRecord';
+import EndodonticRecordCard from '../components/Clinical/EndodonticRecordCard';
+import EndodonticRecordForm from '../components/Clinical/EndodonticRecordForm';
+import { EndodonticFormState, emptyEndodonticForm, endodonticRecordToForm, endodonticFormToDTO, PULPAL_DIAGNOSIS_LABELS } from '../lib/endodontics';
+import { exportToothSummaryPdf } from '../lib/toothSummaryPdf';
+import { EMPTY_PATIENT_FORM, PatientFormState, SEX_LABELS, isMinorBirthDate, patientToForm, patientFormToDTO } from '../lib/patientRegistry';
+import type { PatientSex, EmergencyContact, LegalGuardian } from '../domain/entities/Patient';
+import { BRAZILIAN_STATES, type Address } from '../domain/value-objects/Address';
+import type { AnamnesisRecord } from '../domain/entities/AnamnesisRecord';
+import type { AnamnesisTemplate } from '../domain/entities/AnamnesisTemplate';
+import type { AnamnesisStatus } from '../domain/services/AnamnesisDomainService';
+import AnamnesisAlerts from '../components/Clinical/AnamnesisAlerts';
+import AnamnesisForm from '../components/Clinical/AnamnesisForm';
+import { AnamnesisFormState, anamnesisToForm, anamnesisFormToDTO, formatAnamnesisAlert } from '../lib/anamnesis';
+import type { ConsentDocument } from '../domain/entities/ConsentDocument';
+import type { ConsentTemplate } from '../domain/entities/ConsentTemplate';
+import type { AppointmentWithRelations } from '../infrastructure/repositories/interfaces/IAppointmentRepository';
+import { ConsentDomainService } from '../domain/services/ConsentDomainService';
+import ConsentForm from '../components/Clinical/ConsentForm';
+import { ConsentSignFormState, CONSENT_KIND_LABELS, consentFormToDTO, consentPlaceholderValues, defaultSignerName } from '../lib/consent';
+import type { Payment } from '../domain/entities/Payment';
+import { TIMELINE_EVENT_TYPES, TIMELINE_EVENT_LABELS, TimelineAppointment, TimelineEventType, buildClinicalTimeline, filterClinicalTimeline, timelineFilterOptions, describeTimelineFilters } from '../lib/clinicalTimeline';
+import { exportClinicalHistoryPdf } from '../lib/clinicalHistoryPdf';
 
-type TabType = 'summary' | 'appointments' | 'radiographies';
+type TabType = 'summary' | 'timeline' | 'anamnesis' | 'appointments' | 'odontogram' | 'treatmentPlans' | 'radiographies';
 
 interface Patient {
     id: string;
@@ -24,6 +53,14 @@ interface Patient {
     created_at?: string;
     last_visit?: string | null;
     appointments?: Appointment[];
+    cpf?: string | null;
+    birthDate?: string | null;
+    age?: number | null;
+    sex?: PatientSex | null;
+    occupation?: string | null;
+    address?: Address | null;
+    emergencyContact?: EmergencyContact | null;
+    guardian?: LegalGuardian | null;
 }
 
 interface Appointment {
@@ -31,11 +68,13 @@ interface Appointment {
     date: string;
     time: string;
     procedure: string;
+    teeth?: number[];
     value: string | number;
     currency?: string;
     status: 'paid' | 'pending' | 'scheduled';
     payment_type?: string;
     payment_percentage?: number | null;
+    payment_fixed_amount?: number | null;
     is_paid?: boolean;
     payment_date?: string | null;
     clinical_evolution?: string | null;
@@ -52,6 +91,7 @@ interface Radiograph {
     id: string;
     file_url?: string | null;
     file_name?: string | null;
+    teeth?: number[];
     created_at?: string;
     appointment?: {
         id: string;
@@ -61,12 +101,35 @@ interface Radiograph {
     } | null;
 }
 
-interface FormData {
-    name: string;
-    email: string;
-    phone: string;
+interface TreatmentPlanFormData {
+    tooth: string;
+    procedure: string;
+    totalValue: string;
+    sessions: string;
 }
 
+const TREATMENT_PLAN_STATUS: Record<TreatmentPlanStatus, { label: string; variant: 'default' | 'primary' | 'success' | 'danger' }> = {
+    open: { label: 'Aberto', variant: 'default' },
+    in_progress: { label: 'Em andamento', variant: 'primary' },
+    finished: { label: 'Finalizado', variant: 'success' },
+    abandoned: { label: 'Abandonado', variant: 'danger' }
+};
+
+const TIMELINE_EVENT_STYLE: Record<TimelineEventType, { icon: React.ElementType; dot: string }> = {
+    appointment: { icon: Calendar, dot: 'bg-sky-500' },
+    evolution: { icon: Stethoscope, dot: 'bg-emerald-500' },
+    radiograph: { icon: ImageIcon, dot: 'bg-violet-500' },
+    payment: { icon: DollarSign, dot: 'bg-amber-500' },
+    document: { icon: FileText, dot: 'bg-slate-500' }
+};
+
+const EMPTY_TREATMENT_PLAN_FORM: TreatmentPlanFormData = {
+    tooth: '',
+    procedure: '',
+    totalValue: '',
+    sessions: ''
+};
+
 interface TabButtonProps {
     active: boolean;
     onClick: () => void;
@@ -95,24 +158,52 @@ const PatientDetails: React.FC = () => {
     const container = useDependencies();
     const patientService = container.resolve('patientService');
     const radiographService = container.resolve('radiographService');
+    const treatmentPlanService = container.resolve('treatmentPlanService');
+    const endodonticRecordService = container.resolve('endodonticRecordService');
+    const anamnesisService = container.resolve('anamnesisService');
+    const consentService = container.resolve('consentService');
+    const paymentService = container.resolve('paymentService');
+    const appointmentService = container.resolve('appointmentService');
     const { handleError } = useErrorHandler();
     const { showSuccess, showWarning } = useToast();
     const [activeTab, setActiveTab] = useState<TabType>('summary');
     const [patient, setPatient] = useState<Patient | null>(null);
     const [radiographs, setRadiographs] = useState<Radiograph[]>([]);
+    const [treatmentPlans, setTreatmentPlans] = useState<TreatmentPlanOverview[]>([]);
+    const [isTreatmentPlanModalOpen, setIsTreatmentPlanModalOpen] = useState<boolean>(false);
+    const [treatmentPlanForm, setTreatmentPlanForm] = useState<TreatmentPlanFormData>(EMPTY_TREATMENT_PLAN_FORM);
+    const [endodonticRecords, setEndodonticRecords] = useState<EndodonticRecord[]>([]);
+    const [endodonticForm, setEndodonticForm] = useState<EndodonticFormState | null>(null);
+    const [editingEndodonticRecordId, setEditingEndodonticRecordId] = useState<string | null>(null);
+    const [savingEndodonticRecord, setSavingEndodonticRecord] = useState<boolean>(false);
+    const [anamnesisStatus, setAnamnesisStatus] = useState<AnamnesisStatus | null>(null);
+    const [anamnesisHistory, setAnamnesisHistory] = useState<AnamnesisRecord[]>([]);
+    const [selectedAnamnesisId, setSelectedAnamnesisId] = useState<string | null>(null);
+    const [anamnesisTemplate, setAnamnesisTemplate] = useState<AnamnesisTemplate | null>(null);
+    const [anamnesisForm, setAnamnesisForm] = useState<AnamnesisFormState | null>(null);
+    const [savingAnamnesis, setSavingAnamnesis] = useState<boolean>(false);
+    const [consents, setConsents] = useState<ConsentDocument[]>([]);
+    const [consentTemplates, setConsentTemplates] = useState<ConsentTemplate[]>([]);
+    const [consentForm, setConsentForm] = useState<ConsentSignFormState | null>(null);
+    const [consentSignature, setConsentSignature] = useState<string | null>(null);
+    const [signingConsent, setSigningConsent] = useState<boolean>(false);
+    const [verifyingConsentId, setVerifyingConsentId] = useState<string | null>(null);
+    const [payments, setPayments] = useState<Payment[]>([]);
+    const [timelineAppointments, setTimelineAppointments] = useState<TimelineAppointment[]>([]);
+    const [timelineTypes, setTimelineTypes] = useState<TimelineEventType[]>([...TIMELINE_EVENT_TYPES]);
+    const [timelineClinicId, setTimelineClinicId] = useState<string | null>(null);
     const [loading, setLoading] = useState<boolean>(true);
     const [isEditModalOpen, setIsEditModalOpen] = useState<boolean>(false);
     const [uploading, setUploading] = useState<boolean>(false);
     const [selectedRadiograph, setSelectedRadiograph] = useState<Radiograph | null>(null);
     const [isImageModalOpen, setIsImageModalOpen] = useState<boolean>(false);
+    const [radiographTeethInput, setRadiographTeethInput] = useState<string>('');
+    const [selectedTooth, setSelectedTooth] = useState<number | null>(null);
+    const [dentition, setDentition] = useState<Dentition>('permanent');
     const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
     const [isAppointmentModalOpen, setIsAppointmentModalOpen] = useState<boolean>(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const [formData, setFormData] = useState<FormData>({
-        name: '',
-        email: '',
-        phone: ''
-    });
+    const [formData, setFormData] = useState<PatientFormState>(EMPTY_PATIENT_FORM);
 
     useEffect(() => {
         if (id) {
@@ -126,9 +217,15 @@ const PatientDetails: React.FC = () => {
         
         try {
             setLoading(true);
-            const [patientData, radiographsData] = await Promise.all([
+            const [patientData, radiographsData, treatmentPlansData, endodonticRecordsData] = await Promise.all([
                 patientService.getById(id),
-                radiographService.getRadiographs(id)
+                radiographService.getRadiographs(id),
+                treatmentPlanService.getByPatientId(id),
+                endodonticRecordService.getByPatientId(id),
+                loadAnamnesis(id),
+                loadConsents(id),
+                loadPayments(id),
+                loadTimelineAppointments(id)
             ]);
             
             // ✅ Converter entidades Appointment para formato esperado pela página
@@ -149,11 +246,13 @@ const PatientDetails: React.FC = () => {
                     date: formatDateToISO(apt.date),
                     time: apt.time.toString(),
                     procedure: apt.procedure.toString(),
+                    teeth: apt.teeth || [],
                     value: apt.value.amount,
                     currency: apt.value.currency,
                     status: apt.status.toString() as 'paid' | 'pending' | 'scheduled',
                     payment_type: apt.paymentType.type,
                     payment_percentage: apt.paymentType.percentage,
+                    payment_fixed_amount: apt.paymentType.fixedAmount,
                     is_paid: apt.isPaid,
                     payment_date: apt.paymentDate ? formatDateToISO(apt.paymentDate) : null,
                     clinical_evolution: apt.clinicalEvolution,
@@ -168,13 +267,11 @@ const PatientDetails: React.FC = () => {
             
             setPatient(patientData);
             setRadiographs(radiographsData || []);
+            setTreatmentPlans(treatmentPlansData || []);
+            setEndodonticRecords(endodonticRecordsData || []);
             
             if (patientData) {
-                setFormData({
-                    name: patientData.name || '',
-                    email: patientData.email || '',
-                    phone: patientData.phone ? formatPhoneNumber(patientData.phone) : ''
-                });
+                setFormData(patientToForm(patientData));
             }
             
             logger.debug('PatientDetails - Patient data loaded', {
@@ -190,17 +287,159 @@ const PatientDetails: React.FC = () => {
         }
     };
 
+    const loadAnamnesis = async (patientId: string): Promise<void> => {
+        const [status, history]: [AnamnesisStatus, AnamnesisRecord[]] = await Promise.all([
+            anamnesisService.getStatus(patientId),
+            anamnesisService.getHistory(patientId)
+        ]);
+        setAnamnesisStatus(status);
+        setAnamnesisHistory(history);
+        setSelectedAnamnesisId(history[0]?.id ?? null);
+    };
+
+    const openAnamnesisForm = async (): Promise<void> => {
+        try {
+            const template: AnamnesisTemplate = await anamnesisService.getTemplate();
+            setAnamnesisTemplate(template);
+            setAnamnesisForm(anamnesisToForm(template.questions, anamnesisStatus?.latest ?? null));
+        } catch (error) {
+            logger.error(error, { context: 'openAnamnesisForm' });
+            handleError(error, 'PatientDetails.openAnamnesisForm');
+        }
+    };
+
+    const closeAnamnesisForm = (): void => {
+        setAnamnesisForm(null);
+        setAnamnesisTemplate(null);
+    };
+
+    const handleSaveAnamnesis = async (): Promise<void> => {
+        if (!id || !anamnesisForm || !anamnesisTemplate) return;
+
+        try {
+            setSavingAnamnesis(true);
+            await anamnesisService.record(anamnesisFormToDTO(id, anamnesisTemplate.questions, anamnesisForm));
+            showSuccess('Anamnese registrada com sucesso!');
+            closeAnamnesisForm();
+            await loadAnamnesis(id);
+        } catch (error) {
+            logger.error(error, { context: 'saveAnamnesis' });
+            handleError(error, 'PatientDetails.saveAnamnesis');
+        } finally {
+            setSavingAnamnesis(false);
+        }
+    };
+
+    const loadConsents = async (patientId: string): Promise<void> => {
+        const documents: ConsentDocument[] = await consentService.getByPatientId(patientId);
+        setConsents(documents);
+    };
+
+    const loadPayments = async (patientId: string): Promise<void> => {
+        const patientPayments: Payment[] = await paymentService.getByPatientId(patientId);
+        setPayments(patientPayments);
+    };
+
+    /**
+     * Todos os atendimentos do paciente para a linha do tempo
+     * (o cadastro do paciente traz só os mais recentes)
+     */
+    const loadTimelineAppointments = async (patientId: string): Promise<void> => {
+        const appointments: AppointmentWithRelations[] = await appointmentService.getByPatientId(patientId);
+        setTimelineAppointments(appointments.map(appointment => ({
+            id: appointment.id,
+            date: appointment.dateString,
+            time: appointment.time,
+            procedure: appointment.procedure,
+            teeth: appointment.teeth,
+            notes: appointment.notes,
+            clinical_evolution: appointment.clinicalEvolution,
+            clinics: appointment.clinics
+        })));
+    };
+
+    const openConsentForm = async (): Promise<void> => {
+        if (!patient) return;
+
+        try {
+            const templates: ConsentTemplate[] = await consentService.getTemplates();
+            setConsentTemplates(templates);
+            setConsentSignature(null);
+            setConsentForm({
+                templateId: templates[0]?.id ?? '',
+                appointmentId: '',
+                procedure: '',
+                teeth: selectedTooth !== null ? String(selectedTooth) : '',
+                signerName: defaultSignerName(patient)
+            });
+        } catch (error) {
+            logger.error(error, { context: 'openConsentForm' });
+            handleError(error, 'PatientDetails.openConsentForm');
+        }
+    };
+
+    const closeConsentForm = (): void => {
+        setConsentForm(null);
+        setConsentSignature(null);
+    };
+
+    const handleSignConsent = async (): Promise<void> => {
+        if (!id || !consentForm) return;
+
+        const { invalid } = parseTeethInput(consentForm.teeth);
+        if (invalid.length > 0) {
+            showWarning(`Dentes inválidos (use a notação FDI): ${invalid.join(', ')}`);
+            return;
+        }
+        if (!consentSignature) {
+            showWarning('Peça ao paciente para assinar na área indicada');
+            return;
+        }
+
+        try {
+            setSigningConsent(true);
+            await consentService.sign(consentFormToDTO(id, consentForm, consentSignature));
+            showSuccess('Termo de consentimento assinado e salvo!');
+            closeConsentForm();
+            await loadConsents(id);
+        } catch (error) {
+            logger.error(error, { context: 'signConsent' });
+            handleError(error, 'PatientDetails.signConsent');
+        } finally {
+            setSigningConsent(false);
+        }
+    };
+
+    const handleVerifyConsent = async (document: ConsentDocument): Promise<void> => {
+        try {
+            setVerifyingConsentId(document.id);
+            const intact: boolean = await consentService.verify(document);
+            if (intact) {
+                showSuccess('O PDF armazenado confere com o hash registrado na assinatura.');
+            } else {
+                showWarning('O PDF armazenado NÃO confere com o hash registrado na assinatura.');
+            }
+        } catch (error) {
+            logger.error(error, { context: 'verifyConsent' });
+            handleError(error, 'PatientDetails.verifyConsent');
+        } finally {
+            setVerifyingConsentId(null);
+        }
+    };
+
+    const updateForm = (changes: Partial<PatientFormState>): void => {
+        setFormData(prev => ({ ...prev, ...changes }));
+    };
+
+    const guardianRequired = isMinorBirthDate(formData.birthDate);
+    const selectClassName = 'w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white';
+
     const handleUpdate = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
         e.preventDefault();
         if (!id) return;
         
         try {
-            const dataToSave = {
-                name: formData.name,
-                email: formData.email.trim() || null,
-                phone: unformatPhoneNumber(formData.phone) || null
-            };
-            await patientService.update(id, dataToSave);
+            await patientService.update(id, patientFormToDTO(formData));
             setIsEditModalOpen(false);
             loadPatientData();
         } catch (error) {
@@ -245,7 +484,8 @@ const PatientDetails: React.FC = () => {
 
         try {
             setUploading(true);
-            await radiographService.uploadRadiograph(id, null, file);
+            // ✅ Com um dente selecionado no odontograma, a radiografia já é associada a ele
+            await radiographService.uploadRadiograph(id, null, file, null, null, selectedTooth ? [selectedTooth] : []);
             await loadPatientData();
             showSuccess('Radiografia enviada com sucesso!');
         } catch (error) {
@@ -275,11 +515,157 @@ const PatientDetails: React.FC = () => {
         }
     };
 
+    const handleCreateTreatmentPlan = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!id) return;
+
+        try {
+            await treatmentPlanService.create({
+                patientId: id,
+                tooth: treatmentPlanForm.tooth.trim(),
+                procedure: treatmentPlanForm.procedure.trim(),
+                totalValue: parseFloat(treatmentPlanForm.totalValue.replace(',', '.')) || 0,
+                currency,
+                sessions: treatmentPlanForm.sessions
+                    .split('\n')
+                    .map(line => line.trim())
+                    .filter(Boolean)
+            });
+            setIsTreatmentPlanModalOpen(false);
+            setTreatmentPlanForm(EMPTY_TREATMENT_PLAN_FORM);
+            await loadPatientData();
+            showSuccess('Plano de tratamento criado com sucesso!');
+        } catch (error) {
+            logger.error(error, { context: 'createTreatmentPlan' });
+            handleError(error, 'PatientDetails.createTreatmentPlan');
+        }
+    };
+
+    const handleLinkSessionAppointment = async (planId: string, sessionId: string, appointmentId: string): Promise<void> => {
+        try {
+            await treatmentPlanService.linkAppointment(planId, sessionId, appointmentId || null);
+            await loadPatientData();
+        } catch (error) {
+            logger.error(error, { context: 'linkSessionAppointment' });
+            handleError(error, 'PatientDetails.linkSessionAppointment');
+        }
+    };
+
+    const handleCompleteSession = async (planId: string, sessionId: string): Promise<void> => {
+        try {
+            await treatmentPlanService.completeSession(planId, sessionId);
+            await loadPatientData();
+            showSuccess('Sessão concluída!');
+        } catch (error) {
+            logger.error(error, { context: 'completeSession' });
+            handleError(error, 'PatientDetails.completeSession');
+        }
+    };
+
+    const handleAbandonTreatmentPlan = async (planId: string): Promise<void> => {
+        if (window.confirm('Tem certeza que deseja marcar este plano como abandonado? Ele não poderá mais ser alterado.')) {
+            try {
+                await treatmentPlanService.abandon(planId);
+                await loadPatientData();
+            } catch (error) {
+                logger.error(error, { context: 'abandonTreatmentPlan' });
+                handleError(error, 'PatientDetails.abandonTreatmentPlan');
+            }
+        }
+    };
+
+    const handleDeleteTreatmentPlan = async (planId: string): Promise<void> => {
+        if (window.confirm('Tem certeza que deseja excluir este plano de tratamento?')) {
+            try {
+                await treatmentPlanService.delete(planId);
+                await loadPatientData();
+            } catch (error) {
+                logger.error(error, { context: 'deleteTreatmentPlan' });
+                handleError(error, 'PatientDetails.deleteTreatmentPlan');
+            }
+        }
+    };
+
+    const handleUpdateRadiographTeeth = async (): Promise<void> => {
+        if (!selectedRadiograph) return;
+
+        const { teeth, invalid } = parseTeethInput(radiographTeethInput);
+        if (invalid.length > 0) {
+            showWarning(`Dentes inválidos (notação FDI): ${invalid.join(', ')}`);
+            return;
+        }
+
+        try {
+            await radiographService.updateRadiographTeeth(selectedRadiograph.id, teeth);
+            setSelectedRadiograph({ ...selectedRadiograph, teeth });
+            await loadPatientData();
+            showSuccess('Dentes da radiografia atualizados!');
+        } catch (error) {
+            logger.error(error, { context: 'updateRadiographTeeth' });
+            handleError(error, 'PatientDetails.updateRadiographTeeth');
+        }
+    };
+
     const handleOpenImageModal = (radiograph: Radiograph): void => {
         setSelectedRadiograph(radiograph);
+        setRadiographTeethInput(formatTeeth(radiograph.teeth));
         setIsImageModalOpen(true);
     };
 
+    const handleOpenEndodonticForm = (record: EndodonticRecord | null = null): void => {
+        if (record) {
+            setEditingEndodonticRecordId(record.id);
+            setEndodonticForm(endodonticRecordToForm(record));
+        } else {
+            const teeth = selectedAppointment?.teeth || [];
+            setEditingEndodonticRecordId(null);
+            setEndodonticForm(emptyEndodonticForm(teeth.length === 1 ? teeth[0] : selectedTooth));
+        }
+    };
+
+    const handleCloseEndodonticForm = (): void => {
+        setEditingEndodonticRecordId(null);
+        setEndodonticForm(null);
+    };
+
+    const handleSaveEndodonticRecord = async (): Promise<void> => {
+        if (!selectedAppointment || !endodonticForm) return;
+
+        try {
+            setSavingEndodonticRecord(true);
+            const payload = endodonticFormToDTO(endodonticForm);
+            if (editingEndodonticRecordId) {
+                await endodonticRecordService.update(editingEndodonticRecordId, payload);
+            } else {
+                await endodonticRecordService.create({
+                    ...payload,
+                    appointmentId: selectedAppointment.id,
+                    tooth: Number(endodonticForm.tooth)
+                });
+            }
+            showSuccess('Ficha endodôntica salva!');
+            handleCloseEndodonticForm();
+            await loadPatientData();
+        } catch (error) {
+            logger.error(error, { context: 'saveEndodonticRecord' });
+            handleError(error, 'PatientDetails.saveEndodonticRecord');
+        } finally {
+            setSavingEndodonticRecord(false);
+        }
+    };
+
+    const handleDeleteEndodonticRecord = async (recordId: string): Promise<void> => {
+        if (window.confirm('Tem certeza que deseja excluir esta ficha endodôntica?')) {
+            try {
+                await endodonticRecordService.delete(recordId);
+                await loadPatientData();
+            } catch (error) {
+                logger.error(error, { context: 'deleteEndodonticRecord' });
+                handleError(error, 'PatientDetails.deleteEndodonticRecord');
+            }
+        }
+    };
+
     const handleOpenAppointmentModal = (appointment: Appointment): void => {
         logger.debug('Opening appointment modal', {
             appointmentId: appointment.id,
@@ -307,9 +693,9 @@ const PatientDetails: React.FC = () => {
     }
 
     const totalAppointments = patient.appointments?.length || 0;
-    const totalRevenue = (patient.appointments || [])
+    const totalRevenue = sumAmounts((patient.appointments || [])
         .filter(apt => apt.status === 'paid')
-        .reduce((sum, apt) => sum + calculateReceivedValue(apt), 0);
+        .map(apt => calculateReceivedValue(apt)));
     
     // ✅ Converter last_visit para string se for Date
     const lastVisit = patient.last_visit 
@@ -318,6 +704,138 @@ const PatientDetails: React.FC = () => {
             ? patient.appointments[0].date 
             : null);
     
+    const emergencyContact = patient.emergencyContact;
+    const registryRows: [string, string | null][] = [
+        ['CPF', patient.cpf ? formatCPF(patient.cpf) : null],
+        ['Nascimento', patient.birthDate ? `${formatDate(patient.birthDate)} (${patient.age} anos)` : null],
+        ['Sexo', patient.sex ? SEX_LABELS[patient.sex] : null],
+        ['Profissão', patient.occupation || null],
+        ['Endereço', patient.address ? patient.address.format() : null],
+        ['Contato de emergência', emergencyContact
+            ? `${emergencyContact.name}${emergencyContact.relationship ? ` (${emergencyContact.relationship})` : ''} • ${formatPhoneNumber(emergencyContact.phone)}`
+            : null]
+    ];
+    
+    // ✅ Filtro por dente selecionado no odontograma
+    const toothEndodonticRecords = endodonticRecords
+        .filter(record => record.tooth === selectedTooth);
+    // Atendimentos sem dentes informados entram quando têm ficha endodôntica do dente
+    const toothAppointments = (patient.appointments || [])
+        .filter(apt => selectedTooth === null ||
+            (apt.teeth || []).includes(selectedTooth) ||
+            toothEndodonticRecords.some(record => record.appointmentId === apt.id));
+    const toothRadiographs = radiographs
+        .filter(radio => selectedTooth === null || (radio.teeth || []).includes(selectedTooth));
+    const toothTreatmentPlans = treatmentPlans
+        .filter(({ plan }) => selectedTooth !== null && plan.tooth === String(selectedTooth));
+    const toothHistory = countByTooth([...(patient.appointments || []), ...radiographs]);
+
+    const handlePrintToothSummary = (): void => {
+        if (selectedTooth === null) return;
+
+        try {
+            exportToothSummaryPdf({
+                patientName: patient.name,
+                tooth: selectedTooth,
+                appointments: toothAppointments.map(apt => ({
+                    id: apt.id,
+                    date: apt.date,
+                    time: apt.time,
+                    procedure: apt.procedure,
+                    clinicName: apt.clinics?.name,
+                    clinicalEvolution: apt.clinical_evolution
+                })),
+                endodonticRecords: toothEndodonticRecords,
+                treatmentPlans: toothTreatmentPlans.map(({ plan }) => ({
+                    procedure: plan.procedure,
+                    statusLabel: TREATMENT_PLAN_STATUS[plan.status].label,
+                    completedSessions: plan.completedSessions,
+                    totalSessions: plan.sessions.length
+                })),
+                radiographs: toothRadiographs.map(radio => ({
+                    fileName: radio.file_name,
+                    createdAt: radio.created_at
+                }))
+            });
+        } catch (error) {
+            logger.error(error, { context: 'printToothSummary' });
+            handleError(error, 'PatientDetails.printToothSummary');
+        }
+    };
+
+    const toothFilterChip = selectedTooth !== null && (
+        <div className="flex items-center gap-2 mb-4">
+            <Badge variant="primary">Dente {selectedTooth}</Badge>
+            <button
+                onClick={() => setSelectedTooth(null)}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+            >
+                <X size={14} />
+                Limpar filtro
+            </button>
+        </div>
+    );
+
+    // ✅ Linha do tempo: o filtro de dente é o mesmo do odontograma
+    const timelineEvents = buildClinicalTimeline({
+        appointments: timelineAppointments,
+        radiographs,
+        payments,
+        endodonticRecords,
+        consents,
+        anamnesis: anamnesisHistory
+    });
+    const timelineOptions = timelineFilterOptions(timelineEvents);
+    const timelineFilters = { types: timelineTypes, tooth: selectedTooth, clinicId: timelineClinicId };
+    const filteredTimeline = filterClinicalTimeline(timelineEvents, timelineFilters);
+    const timelineTeeth = selectedTooth !== null && !timelineOptions.teeth.includes(selectedTooth)
+        ? [...timelineOptions.teeth, selectedTooth].sort((a, b) => a - b)
+        : timelineOptions.teeth;
+
+    const toggleTimelineType = (type: TimelineEventType): void => {
+        setTimelineTypes(prev => prev.includes(type)
+            ? prev.filter(item => item !== type)
+            : TIMELINE_EVENT_TYPES.filter(item => item === type || prev.includes(item)));
+    };
+
+    const handlePrintClinicalHistory = (): void => {
+        try {
+            exportClinicalHistoryPdf({
+                patient: { name: patient.name, cpf: patient.cpf, birthDate: patient.birthDate },
+                events: filteredTimeline,
+                filtersDescription: describeTimelineFilters(
+                    timelineFilters,
+                    timelineOptions.clinics.find(clinic => clinic.id === timelineClinicId)?.name
+                )
+            });
+        } catch (error) {
+            logger.error(error, { context: 'printClinicalHistory' });
+            handleError(error, 'PatientDetails.printClinicalHistory');
+        }
+    };
+
+    const selectedAnamnesis = anamnesisHistory.find(record => record.id === selectedAnamnesisId) ?? null;
+
+    const consentTemplate = consentForm ? consentTemplates.find(template => template.id === consentForm.templateId) ?? null : null;
+    const consentPreview = consentForm && consentTemplate
+        ? ConsentDomainService.render(consentTemplate.body, consentPlaceholderValues({
+            patient,
+            signerName: consentForm.signerName,
+            procedure: consentForm.procedure,
+            teeth: parseTeethInput(consentForm.teeth).teeth,
+            date: new Date()
+        }))
+        : '';
+
+    const appointmentEndodonticRecords = selectedAppointment
+        ? endodonticRecords.filter(record => record.appointmentId === selectedAppointment.id)
+        : [];
+
+    // Um atendimento só pode estar vinculado a uma sessão
+    const linkedAppointmentIds = new Set(
+        treatmentPlans.flatMap(({ plan }) => plan.sessions.map(session => session.appointmentId))
+    );
+    
     // ✅ Converter created_at para string se for Date
     const createdAt = patient.created_at 
         ? (patient.created_at instanceof Date ? patient.created_at.toISOString() : patient.created_at)
@@ -336,6 +854,9 @@ const PatientDetails: React.FC = () => {
                             <p className="text-sm sm:text-base text-white/90 truncate">
                                 {patient.email} {patient.phone && `• ${formatPhoneNumber(patient.phone)}`}
                             </p>
+                            {anamnesisStatus && (
+                                <AnamnesisAlerts status={anamnesisStatus} className="mt-2" />
+                            )}
                         </div>
                     </div>
                     <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
@@ -367,12 +888,36 @@ const PatientDetails: React.FC = () => {
                         icon={<User size={18} />}
                         label="Resumo"
                     />
+                    <TabButton
+                        active={activeTab === 'timeline'}
+                        onClick={() => setActiveTab('timeline')}
+                        icon={<History size={18} />}
+                        label="Linha do tempo"
+                    />
+                    <TabButton
+                        active={activeTab === 'anamnesis'}
+                        onClick={() => setActiveTab('anamnesis')}
+                        icon={<HeartPulse size={18} />}
+                        label="Anamnese"
+                    />
                     <TabButton
                         active={activeTab === 'appointments'}
                         onClick={() => setActiveTab('appointments')}
                         icon={<Calendar size={18} />}
                         label="Atendimentos"
                     />
+                    <TabButton
+                        active={activeTab === 'odontogram'}
+                        onClick={() => setActiveTab('odontogram')}
+                        icon={<Smile size={18} />}
+                        label="Odontograma"
+                    />
+                    <TabButton
+                        active={activeTab === 'treatmentPlans'}
+                        onClick={() => setActiveTab('treatmentPlans')}
+                        icon={<ClipboardList size={18} />}
+                        label="Planos de Tratamento"
+                    />
                     <TabButton
                         active={activeTab === 'radiographies'}
                         onClick={() => setActiveTab('radiographies')}
@@ -429,6 +974,219 @@ const PatientDetails: React.FC = () => {
                                 </Button>
                             </div>
                         </Card>
+                        <Card>
+                            <div className="mb-4">
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Dados Cadastrais</h3>
+                            </div>
+                            <dl className="space-y-3 text-sm">
+                                {registryRows.map(([label, value]) => (
+                                    <div key={label} className="flex justify-between gap-4">
+                                        <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                                        <dd className="font-medium text-slate-700 dark:text-gray-300 text-right">{value || '—'}</dd>
+                                    </div>
+                                ))}
+                            </dl>
+                            {patient.guardian && (
+                                <div className="mt-4 p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm">
+                                    <p className="font-semibold text-amber-800 mb-1">Responsável legal</p>
+                                    <p className="text-amber-900">
+                                        {patient.guardian.name}
+                                        {patient.guardian.relationship && ` (${patient.guardian.relationship})`}
+                                        {` • CPF ${formatCPF(patient.guardian.cpf)}`}
+                                        {patient.guardian.phone && ` • ${formatPhoneNumber(patient.guardian.phone)}`}
+                                    </p>
+                                </div>
+                            )}
+                        </Card>
+                    </div>
+                )}
+
+                {activeTab === 'timeline' && (
+                    <Card>
+                        <div className="mb-4 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Linha do tempo clínica</h3>
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Atendimentos, evoluções, radiografias, pagamentos e documentos em ordem cronológica</p>
+                            </div>
+                            <Button variant="secondary" className="flex items-center justify-center gap-2 text-sm" onClick={handlePrintClinicalHistory}>
+                                <Printer size={16} />
+                                Imprimir histórico
+                            </Button>
+                        </div>
+
+                        <div className="flex flex-col lg:flex-row lg:items-center gap-3 mb-6">
+                            <div className="flex flex-wrap gap-2">
+                                {TIMELINE_EVENT_TYPES.map(type => {
+                                    const active = timelineTypes.includes(type);
+                                    return (
+                                        <button
+                                            key={type}
+                                            type="button"
+                                            onClick={() => toggleTimelineType(type)}
+                                            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                                                active
+                                                    ? 'bg-sky-50 border-sky-200 text-sky-700 dark:bg-sky-900/30 dark:border-sky-800 dark:text-sky-300'
+                                                    : 'bg-white border-gray-200 text-gray-400 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-500'
+                                            }`}
+                                        >
+                                            <span className={`w-2 h-2 rounded-full ${active ? TIMELINE_EVENT_STYLE[type].dot : 'bg-gray-300'}`} />
+                                            {TIMELINE_EVENT_LABELS[type]}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            <div className="flex gap-2 lg:ml-auto">
+                                <select
+                                    className="text-sm border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-300"
+                                    value={selectedTooth ?? ''}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setSelectedTooth(e.target.value ? Number(e.target.value) : null)}
+                                >
+                                    <option value="">Todos os dentes</option>
+                                    {timelineTeeth.map(tooth => (
+                                        <option key={tooth} value={tooth}>Dente {tooth}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    className="text-sm border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-300"
+                                    value={timelineClinicId ?? ''}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setTimelineClinicId(e.target.value || null)}
+                                >
+                                    <option value="">Todas as clínicas</option>
+                                    {timelineOptions.clinics.map(clinic => (
+                                        <option key={clinic.id} value={clinic.id}>{clinic.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        {filteredTimeline.length > 0 ? (
+                            <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 space-y-5">
+                                {filteredTimeline.map(event => {
+                                    const EventIcon = TIMELINE_EVENT_STYLE[event.type].icon;
+                                    return (
+                                        <li key={event.id} className="ml-6">
+                                            <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full text-white ring-4 ring-white dark:ring-gray-900 ${TIMELINE_EVENT_STYLE[event.type].dot}`}>
+                                                <EventIcon size={12} />
+                                            </span>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 mb-0.5">
+                                                {formatDate(event.date)}{event.time && ` ${formatTime(event.time)}`} • {TIMELINE_EVENT_LABELS[event.type]}
+                                                {event.clinicName && ` • ${event.clinicName}`}
+                                                {event.teeth.length > 0 && ` • Dentes ${formatTeeth(event.teeth)}`}
+                                            </p>
+                                            <p className="font-semibold text-slate-900 dark:text-white">
+                                                {event.fileUrl ? (
+                                                    <a href={event.fileUrl} target="_blank" rel="noopener noreferrer" className="hover:text-sky-600 hover:underline">
+                                                        {event.title}
+                                                    </a>
+                                                ) : event.title}
+                                            </p>
+                                            {event.details.map((line, index) => (
+                                                <p key={index} className="text-sm text-gray-600 dark:text-gray-300">{line}</p>
+                                            ))}
+                                        </li>
+                                    );
+                                })}
+                            </ol>
+                        ) : (
+                            <p className="text-center text-gray-500 dark:text-gray-400 py-8">Nenhum registro encontrado com os filtros selecionados.</p>
+                        )}
+                    </Card>
+                )}
+
+                {activeTab === 'anamnesis' && (
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-3 sm:gap-4 md:gap-6">
+                        <Card className="lg:col-span-2">
+                            <div className="mb-4 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                                <div>
+                                    <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Anamnese</h3>
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                                        {selectedAnamnesis
+                                            ? `Versão ${selectedAnamnesis.version} • preenchida em ${formatDate(selectedAnamnesis.reviewedOn)}`
+                                            : 'Histórico médico ainda não preenchido'}
+                                    </p>
+                                </div>
+                                <Button className="flex items-center justify-center gap-2" onClick={openAnamnesisForm}>
+                                    <Plus size={18} />
+                                    {anamnesisStatus?.latest ? 'Nova revisão' : 'Preencher anamnese'}
+                                </Button>
+                            </div>
+                            {anamnesisStatus?.reviewDue && anamnesisStatus.latest && (
+                                <div className="mb-4 p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                                    A revisão da anamnese venceu em {formatDate(anamnesisStatus.nextReviewDate || '')}. Confirme os dados com o paciente antes do próximo procedimento.
+                                </div>
+                            )}
+                            {selectedAnamnesis ? (
+                                <>
+                                    {selectedAnamnesis.alerts.length > 0 && (
+                                        <div className="mb-4 flex flex-wrap gap-1.5">
+                                            {selectedAnamnesis.alerts.map(alert => (
+                                                <Badge key={alert.questionId} variant="danger" className="inline-flex items-center gap-1">
+                                                    <AlertTriangle size={12} />
+                                                    {formatAnamnesisAlert(alert)}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <dl className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                                        {selectedAnamnesis.questions.map(question => {
+                                            const answer = selectedAnamnesis.answerFor(question.id);
+                                            const value = typeof answer?.value === 'boolean'
+                                                ? (answer.value ? 'Sim' : 'Não')
+                                                : answer?.value;
+                                            return (
+                                                <div key={question.id} className="py-2.5 flex flex-col sm:flex-row sm:justify-between gap-1 sm:gap-4">
+                                                    <dt className="text-gray-600 dark:text-gray-300">{question.label}</dt>
+                                                    <dd className={`font-medium sm:text-right ${answer?.value === true && question.critical ? 'text-rose-600' : 'text-slate-700 dark:text-gray-300'}`}>
+                                                        {value || '—'}
+                                                        {answer?.details && <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{answer.details}</span>}
+                                                    </dd>
+                                                </div>
+                                            );
+                                        })}
+                                    </dl>
+                                    {selectedAnamnesis.notes && (
+                                        <p className="mt-4 p-3 rounded-xl bg-gray-50 dark:bg-gray-800 text-sm text-slate-700 dark:text-gray-300 whitespace-pre-wrap">
+                                            {selectedAnamnesis.notes}
+                                        </p>
+                                    )}
+                                </>
+                            ) : (
+                                <div className="text-center py-8">
+                                    <HeartPulse className="mx-auto text-gray-300 mb-3" size={48} />
+                                    <p className="text-gray-600 dark:text-gray-400">Preencha a anamnese antes do primeiro procedimento.</p>
+                                </div>
+                            )}
+                        </Card>
+                        <Card>
+                            <div className="mb-4">
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Versões</h3>
+                                {anamnesisStatus?.nextReviewDate && (
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">Próxima revisão: {formatDate(anamnesisStatus.nextReviewDate)}</p>
+                                )}
+                            </div>
+                            {anamnesisHistory.length > 0 ? (
+                                <div className="space-y-2">
+                                    {anamnesisHistory.map(record => (
+                                        <button
+                                            key={record.id}
+                                            type="button"
+                                            onClick={() => setSelectedAnamnesisId(record.id)}
+                                            className={`w-full flex items-center justify-between gap-2 p-3 rounded-xl border text-left text-sm transition-colors ${
+                                                record.id === selectedAnamnesis?.id
+                                                    ? 'border-sky-300 bg-sky-50 dark:bg-sky-900/20'
+                                                    : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                                            }`}
+                                        >
+                                            <span className="font-medium text-slate-900 dark:text-white">Versão {record.version}</span>
+                                            <span className="text-gray-500 dark:text-gray-400">{formatDate(record.reviewedOn)}</span>
+                                            {record.hasAlerts && <Badge variant="danger">{record.alerts.length}</Badge>}
+                                        </button>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Nenhuma versão registrada.</p>
+                            )}
+                        </Card>
                     </div>
                 )}
 
@@ -438,9 +1196,10 @@ const PatientDetails: React.FC = () => {
                             <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Histórico de Atendimentos</h3>
                             <p className="text-sm text-gray-500 dark:text-gray-400">Lista completa de procedimentos realizados</p>
                         </div>
+                        {toothFilterChip}
                         <div className="space-y-3">
-                            {patient.appointments && patient.appointments.length > 0 ? (
-                                patient.appointments.map((appointment) => (
+                            {toothAppointments.length > 0 ? (
+                                toothAppointments.map((appointment) => (
                                     <div 
                                         key={appointment.id} 
                                         className="flex items-center justify-between p-4 border border-gray-100 rounded-xl hover:border-gray-200 hover:shadow-sm transition-all cursor-pointer group"
@@ -450,6 +1209,7 @@ const PatientDetails: React.FC = () => {
                                             <p className="font-semibold text-slate-900 dark:text-white mb-1">{appointment.procedure}</p>
                                             <p className="text-sm text-gray-500 dark:text-gray-400">
                                                 {appointment.clinics?.name || 'Sem clínica'} • {formatDate(appointment.date)} {formatTime(appointment.time)}
+                                                {appointment.teeth && appointment.teeth.length > 0 && ` • Dentes ${formatTeeth(appointment.teeth)}`}
                                             </p>
                                         </div>
                                         <div className="text-right ml-4 flex items-center gap-3">
@@ -462,6 +1222,11 @@ const PatientDetails: React.FC = () => {
                                                         Recebido: {formatCurrency(calculateReceivedValue(appointment), appointment.currency || currency)} ({appointment.payment_percentage}%)
                                                     </p>
                                                 )}
+                                                {appointment.payment_type === 'fixed' && (
+                                                    <p className="text-xs text-slate-500 mb-1">
+                                                        Recebido: {formatCurrency(calculateReceivedValue(appointment), appointment.currency || currency)} (valor fixo)
+                                                    </p>
+                                                )}
                                                 <Badge variant={appointment.status === 'paid' ? 'success' : appointment.status === 'pending' ? 'warning' : 'primary'}>
                                                     {appointment.status === 'paid' ? 'Pago' : appointment.status === 'pending' ? 'Pendente' : 'Agendado'}
                                                 </Badge>
@@ -486,15 +1251,248 @@ const PatientDetails: React.FC = () => {
                     </Card>
                 )}
 
+                {activeTab === 'odontogram' && (
+                    <Card>
+                        <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Odontograma</h3>
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Selecione um dente para ver o histórico e filtrar atendimentos e radiografias</p>
+                            </div>
+                            <div className="flex gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg self-start">
+                                {(['permanent', 'deciduous'] as Dentition[]).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => {
+                                            setDentition(option);
+                                            setSelectedTooth(null);
+                                        }}
+                                        className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                                            dentition === option
+                                                ? 'bg-white dark:bg-gray-700 shadow-sm font-semibold text-slate-900 dark:text-white'
+                                                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                                        }`}
+                                    >
+                                        {option === 'permanent' ? 'Permanente' : 'Decídua'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <Odontogram
+                            dentition={dentition}
+                            selectedTooth={selectedTooth}
+                            onSelect={setSelectedTooth}
+                            history={toothHistory}
+                        />
+
+                        <div className="mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                            {selectedTooth === null ? (
+                                <p className="text-center text-gray-500 dark:text-gray-400 py-4">Nenhum dente selecionado.</p>
+                            ) : (
+                                <div className="space-y-4">
+                                    <div className="flex items-center justify-between">
+                                        <h4 className="font-bold text-slate-900 dark:text-white">Histórico do dente {selectedTooth}</h4>
+                                        <div className="flex flex-wrap justify-end gap-2">
+                                            <Button variant="secondary" className="text-sm" onClick={handlePrintToothSummary}>
+                                                <Printer size={16} />
+                                                Imprimir resumo
+                                            </Button>
+                                            <Button variant="secondary" className="text-sm" onClick={() => setActiveTab('appointments')}>
+                                                Atendimentos ({toothAppointments.length})
+                                            </Button>
+                                            <Button variant="secondary" className="text-sm" onClick={() => setActiveTab('radiographies')}>
+                                                Radiografias ({toothRadiographs.length})
+                                            </Button>
+                                        </div>
+                                    </div>
+
+                                    {toothTreatmentPlans.map(({ plan }) => (
+                                        <div key={plan.id} className="flex items-center justify-between p-3 bg-sky-50 dark:bg-sky-900/20 rounded-xl text-sm">
+                                            <span className="font-medium text-slate-900 dark:text-white">{plan.procedure}</span>
+                                            <span className="text-gray-600 dark:text-gray-300">
+                                                {plan.completedSessions}/{plan.sessions.length} sessões • {TREATMENT_PLAN_STATUS[plan.status].label}
+                                            </span>
+                                        </div>
+                                    ))}
+
+                                    {toothAppointments.length > 0 ? (
+                                        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+                                            {toothAppointments.map(appointment => (
+                                                <li key={appointment.id} className="ml-4">
+                                                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-sky-500" />
+                                                    <button
+                                                        className="text-left w-full"
+                                                        onClick={() => handleOpenAppointmentModal(appointment)}
+                                                    >
+                                                        <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(appointment.date)} {formatTime(appointment.time)}</p>
+                                                        <p className="font-semibold text-slate-900 dark:text-white">{appointment.procedure}</p>
+                                                        {toothEndodonticRecords
+                                                            .filter(record => record.appointmentId === appointment.id)
+                                                            .map(record => (
+                                                                <p key={record.id} className="text-sm text-violet-700 dark:text-violet-300">
+                                                                    {[
+                                                                        record.pulpalDiagnosis ? PULPAL_DIAGNOSIS_LABELS[record.pulpalDiagnosis] : null,
+                                                                        record.canals.length > 0 ? `${record.canals.length} canal(is)` : null,
+                                                                        record.obturationTechnique ? `Obturação: ${record.obturationTechnique}` : null
+                                                                    ].filter(Boolean).join(' • ') || 'Ficha endodôntica registrada'}
+                                                                </p>
+                                                            ))}
+                                                        {appointment.clinical_evolution && (
+                                                            <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">{appointment.clinical_evolution}</p>
+                                                        )}
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    ) : (
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">Nenhum atendimento registrado para este dente.</p>
+                                    )}
+
+                                    {toothRadiographs.length > 0 && (
+                                        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+                                            {toothRadiographs.map(radio => (
+                                                <button
+                                                    key={radio.id}
+                                                    onClick={() => handleOpenImageModal(radio)}
+                                                    className="aspect-square bg-gray-100 rounded-lg overflow-hidden border border-gray-200 hover:border-sky-300"
+                                                >
+                                                    {radio.file_url ? (
+                                                        <img src={radio.file_url} alt={radio.file_name || 'Radiografia'} className="w-full h-full object-cover" />
+                                                    ) : (
+                                                        <ImageIcon className="mx-auto text-gray-400" size={24} />
+                                                    )}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </Card>
+                )}
+
+                {activeTab === 'treatmentPlans' && (
+                    <Card>
+                        <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Planos de Tratamento</h3>
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Tratamentos em várias sessões, com saldo a faturar</p>
+                            </div>
+                            <Button
+                                className="flex items-center justify-center gap-2 w-full sm:w-auto"
+                                onClick={() => setIsTreatmentPlanModalOpen(true)}
+                            >
+                                <Plus size={18} />
+                                Novo Plano
+                            </Button>
+                        </div>
+                        <div className="space-y-4">
+                            {treatmentPlans.length > 0 ? (
+                                treatmentPlans.map(({ plan, billedValue, balanceToBill }) => (
+                                    <div key={plan.id} className="p-4 border border-gray-100 dark:border-gray-700 rounded-xl">
+                                        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-3">
+                                            <div>
+                                                <p className="font-semibold text-slate-900 dark:text-white mb-1">
+                                                    {plan.procedure}{plan.tooth && ` • Dente ${plan.tooth}`}
+                                                </p>
+                                                <p className="text-sm text-gray-500 dark:text-gray-400">
+                                                    {plan.completedSessions} de {plan.sessions.length} sessões concluídas • {plan.remainingSessions} restantes
+                                                </p>
+                                            </div>
+                                            <Badge variant={TREATMENT_PLAN_STATUS[plan.status].variant}>
+                                                {TREATMENT_PLAN_STATUS[plan.status].label}
+                                            </Badge>
+                                        </div>
+
+                                        <div className="w-full h-2 bg-gray-100 dark:bg-gray-800 rounded-full mb-4 overflow-hidden">
+                                            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${plan.progress}%` }} />
+                                        </div>
+
+                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-4 text-sm">
+                                            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-xl">
+                                                <span className="block text-gray-500 dark:text-gray-400">Valor orçado</span>
+                                                <span className="font-bold text-slate-900 dark:text-white">{formatCurrency(plan.totalValue, plan.currency)}</span>
+                                            </div>
+                                            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-xl">
+                                                <span className="block text-gray-500 dark:text-gray-400">Faturado</span>
+                                                <span className="font-bold text-emerald-600">{formatCurrency(billedValue, plan.currency)}</span>
+                                            </div>
+                                            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-xl">
+                                                <span className="block text-gray-500 dark:text-gray-400">Saldo a faturar</span>
+                                                <span className="font-bold text-amber-600">{formatCurrency(balanceToBill, plan.currency)}</span>
+                                            </div>
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            {plan.sessions.map((session) => (
+                                                <div key={session.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 border border-gray-100 dark:border-gray-700 rounded-lg">
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className={`text-sm font-medium ${session.status === 'done' ? 'text-gray-400 line-through' : 'text-slate-900 dark:text-white'}`}>
+                                                            {session.order}. {session.description}
+                                                        </p>
+                                                        {session.completedAt && (
+                                                            <p className="text-xs text-gray-500 dark:text-gray-400">Concluída em {formatDate(session.completedAt.toISOString())}</p>
+                                                        )}
+                                                    </div>
+                                                    <select
+                                                        className="text-sm border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-300 disabled:opacity-60"
+                                                        value={session.appointmentId || ''}
+                                                        disabled={plan.isClosed}
+                                                        onChange={(e: ChangeEvent<HTMLSelectElement>) => handleLinkSessionAppointment(plan.id, session.id, e.target.value)}
+                                                    >
+                                                        <option value="">Sem atendimento vinculado</option>
+                                                        {(patient.appointments || [])
+                                                            .filter(apt => apt.id === session.appointmentId || !linkedAppointmentIds.has(apt.id))
+                                                            .map(apt => (
+                                                                <option key={apt.id} value={apt.id}>
+                                                                    {formatDate(apt.date)} {formatTime(apt.time)} • {apt.procedure}
+                                                                </option>
+                                                            ))}
+                                                    </select>
+                                                    {session.status === 'pending' && !plan.isClosed && (
+                                                        <Button
+                                                            variant="secondary"
+                                                            className="flex items-center justify-center gap-1 text-sm"
+                                                            onClick={() => handleCompleteSession(plan.id, session.id)}
+                                                        >
+                                                            <CheckCircle2 size={16} />
+                                                            Concluir
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        <div className="flex justify-end gap-2 mt-4">
+                                            {!plan.isClosed && (
+                                                <Button variant="ghost" className="text-sm" onClick={() => handleAbandonTreatmentPlan(plan.id)}>
+                                                    Abandonar
+                                                </Button>
+                                            )}
+                                            <Button variant="danger" className="text-sm" onClick={() => handleDeleteTreatmentPlan(plan.id)}>
+                                                <Trash2 size={16} />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))
+                            ) : (
+                                <p className="text-center text-gray-500 dark:text-gray-400 py-8">Nenhum plano de tratamento cadastrado.</p>
+                            )}
+                        </div>
+                    </Card>
+                )}
+
                 {activeTab === 'radiographies' && (
+                    <>
                     <Card>
                         <div className="mb-4">
                             <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Radiografias</h3>
                             <p className="text-sm text-gray-500 dark:text-gray-400">Imagens e exames do paciente</p>
                         </div>
-                        {radiographs.length > 0 && (
+                        {toothFilterChip}
+                        {toothRadiographs.length > 0 && (
                             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3 md:gap-4 mb-4 sm:mb-6">
-                                {radiographs.map((radio) => (
+                                {toothRadiographs.map((radio) => (
                                     <div key={radio.id} className="aspect-square bg-gray-100 rounded-xl flex items-center justify-center border-2 border-gray-200 hover:border-sky-300 transition-all cursor-pointer group relative overflow-hidden">
                                         {radio.file_url ? (
                                             <img 
@@ -551,7 +1549,9 @@ const PatientDetails: React.FC = () => {
                         )}
                         <div className="text-center py-6 sm:py-8 border-2 border-dashed border-gray-200 rounded-xl hover:border-sky-300 transition-colors px-4">
                             <ImageIcon className="mx-auto text-gray-300 mb-2 sm:mb-3" size={40} />
-                            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-300 mb-2 sm:mb-3">Fazer upload de nova radiografia</p>
+                            <p className="text-sm sm:text-base text-gray-600 dark:text-gray-300 mb-2 sm:mb-3">
+                                {selectedTooth !== null ? `Fazer upload de nova radiografia do dente ${selectedTooth}` : 'Fazer upload de nova radiografia'}
+                            </p>
                             <input
                                 ref={fileInputRef}
                                 type="file"
@@ -571,6 +1571,61 @@ const PatientDetails: React.FC = () => {
                             </div>
                         </div>
                     </Card>
+                    <Card className="mt-3 sm:mt-4 md:mt-6">
+                        <div className="mb-4 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-1">Termos de consentimento</h3>
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Procedimentos cirúrgicos só podem ser concluídos com termo assinado</p>
+                            </div>
+                            <Button className="flex items-center justify-center gap-2" onClick={openConsentForm}>
+                                <FilePenLine size={18} />
+                                Novo termo
+                            </Button>
+                        </div>
+                        {consents.length > 0 ? (
+                            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                                {consents.map(consent => (
+                                    <li key={consent.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p className="font-medium text-slate-800 dark:text-gray-200 flex items-center gap-2">
+                                                <span className="truncate">{consent.title}</span>
+                                                <Badge variant={consent.kind === 'surgery' ? 'warning' : 'primary'}>{CONSENT_KIND_LABELS[consent.kind]}</Badge>
+                                            </p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                {consent.procedure}
+                                                {consent.teeth.length > 0 && ` • Dentes ${formatTeeth(consent.teeth)}`}
+                                                {` • Assinado por ${consent.signerName} em ${formatDate(consent.signedAt)}`}
+                                            </p>
+                                            <p className="text-xs text-gray-400 font-mono" title={consent.sha256}>SHA-256 {consent.sha256.slice(0, 16)}…</p>
+                                        </div>
+                                        <div className="flex gap-2 flex-shrink-0">
+                                            <a
+                                                href={consent.fileUrl}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-sky-700 hover:bg-sky-50 dark:text-sky-300 dark:hover:bg-sky-900/30"
+                                            >
+                                                <FileText size={16} />
+                                                PDF
+                                            </a>
+                                            <Button
+                                                variant="ghost"
+                                                className="flex items-center gap-1 text-sm"
+                                                onClick={() => handleVerifyConsent(consent)}
+                                                disabled={verifyingConsentId === consent.id}
+                                            >
+                                                <ShieldCheck size={16} />
+                                                {verifyingConsentId === consent.id ? 'Conferindo...' : 'Conferir'}
+                                            </Button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Nenhum termo assinado.</p>
+                        )}
+                    </Card>
+                    </>
                 )}
             </div>
 
@@ -579,6 +1634,7 @@ const PatientDetails: React.FC = () => {
                 onClose={() => {
                     setIsAppointmentModalOpen(false);
                     setSelectedAppointment(null);
+                    handleCloseEndodonticForm();
                 }}
                 title="Detalhes do Atendimento"
                 size="xl"
@@ -601,6 +1657,12 @@ const PatientDetails: React.FC = () => {
                                             <Clock size={14} />
                                             {formatTime(selectedAppointment.time)}
                                         </span>
+                                        {selectedAppointment.teeth && selectedAppointment.teeth.length > 0 && (
+                                            <span className="flex items-center gap-1">
+                                                <Smile size={14} />
+                                                Dentes {formatTeeth(selectedAppointment.teeth)}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                                 <div className="text-right">
@@ -635,9 +1697,13 @@ const PatientDetails: React.FC = () => {
                                 </div>
                                 <div className="space-y-1">
                                     <p className="text-slate-900 dark:text-white font-medium">
-                                        {selectedAppointment.payment_type === '100' ? '100% do valor' : `Porcentagem: ${selectedAppointment.payment_percentage}%`}
+                                        {selectedAppointment.payment_type === '100'
+                                            ? '100% do valor'
+                                            : selectedAppointment.payment_type === 'fixed'
+                                                ? `Valor fixo: ${formatCurrency(selectedAppointment.payment_fixed_amount ?? 0, selectedAppointment.currency || currency)}`
+                                                : `Porcentagem: ${selectedAppointment.payment_percentage}%`}
                                     </p>
-                                    {selectedAppointment.payment_type === 'percentage' && selectedAppointment.payment_percentage && (
+                                    {(selectedAppointment.payment_type === 'fixed' || (selectedAppointment.payment_type === 'percentage' && selectedAppointment.payment_percentage)) && (
                                         <p className="text-sm text-gray-600 dark:text-gray-300">
                                             Recebido: {formatCurrency(calculateReceivedValue(selectedAppointment), selectedAppointment.currency || currency)}
                                         </p>
@@ -663,6 +1729,45 @@ const PatientDetails: React.FC = () => {
                             )}
                         </div>
 
+                        <div className="rounded-xl p-4 border border-violet-100 dark:border-violet-900/40">
+                            <div className="flex items-center justify-between mb-3">
+                                <div className="flex items-center gap-2">
+                                    <Smile size={18} className="text-violet-600" />
+                                    <span className="text-sm font-semibold text-violet-900 dark:text-violet-200">Ficha Endodôntica</span>
+                                </div>
+                                {!endodonticForm && (
+                                    <Button variant="secondary" className="text-sm" onClick={() => handleOpenEndodonticForm()}>
+                                        <Plus size={16} />
+                                        Registrar dente
+                                    </Button>
+                                )}
+                            </div>
+                            {endodonticForm ? (
+                                <EndodonticRecordForm
+                                    value={endodonticForm}
+                                    onChange={setEndodonticForm}
+                                    onSubmit={handleSaveEndodonticRecord}
+                                    onCancel={handleCloseEndodonticForm}
+                                    teethOptions={selectedAppointment.teeth || []}
+                                    toothLocked={editingEndodonticRecordId !== null}
+                                    saving={savingEndodonticRecord}
+                                />
+                            ) : appointmentEndodonticRecords.length > 0 ? (
+                                <div className="space-y-3">
+                                    {appointmentEndodonticRecords.map(record => (
+                                        <EndodonticRecordCard
+                                            key={record.id}
+                                            record={record}
+                                            onEdit={() => handleOpenEndodonticForm(record)}
+                                            onDelete={() => handleDeleteEndodonticRecord(record.id)}
+                                        />
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-slate-500 italic">Nenhuma ficha endodôntica registrada.</p>
+                            )}
+                        </div>
+
                         <div className="bg-amber-50 rounded-xl p-4 border border-amber-100">
                             <div className="flex items-center gap-2 mb-3">
                                 <NotesIcon size={18} className="text-amber-600" />
@@ -743,6 +1848,19 @@ const PatientDetails: React.FC = () => {
                                     <span>{formatDate(selectedRadiograph.created_at)}</span>
                                 </div>
                             )}
+                            <div className="flex items-end gap-2 pt-2">
+                                <div className="flex-1">
+                                    <Input
+                                        label="Dentes (FDI)"
+                                        placeholder="36, 37"
+                                        value={radiographTeethInput}
+                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setRadiographTeethInput(e.target.value)}
+                                    />
+                                </div>
+                                <Button variant="secondary" onClick={handleUpdateRadiographTeeth}>
+                                    Salvar
+                                </Button>
+                            </div>
                         </div>
                         
                         <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
@@ -763,35 +1881,223 @@ const PatientDetails: React.FC = () => {
                 )}
             </Modal>
 
+            <Modal
+                isOpen={anamnesisForm !== null}
+                onClose={closeAnamnesisForm}
+                title={anamnesisStatus?.latest ? `Revisão da anamnese (versão ${anamnesisStatus.latest.version + 1})` : 'Anamnese'}
+                size="lg"
+            >
+                {anamnesisForm && anamnesisTemplate && (
+                    <AnamnesisForm
+                        questions={anamnesisTemplate.questions}
+                        value={anamnesisForm}
+                        onChange={setAnamnesisForm}
+                        onSubmit={handleSaveAnamnesis}
+                        onCancel={closeAnamnesisForm}
+                        saving={savingAnamnesis}
+                    />
+                )}
+            </Modal>
+
+            <Modal
+                isOpen={consentForm !== null}
+                onClose={closeConsentForm}
+                title="Termo de consentimento"
+                size="lg"
+            >
+                {consentForm && (
+                    <ConsentForm
+                        templates={consentTemplates}
+                        appointments={patient.appointments || []}
+                        value={consentForm}
+                        onChange={setConsentForm}
+                        preview={consentPreview}
+                        hasSignature={consentSignature !== null}
+                        onSignatureChange={setConsentSignature}
+                        onSubmit={handleSignConsent}
+                        onCancel={closeConsentForm}
+                        saving={signingConsent}
+                    />
+                )}
+            </Modal>
+
             <Modal
                 isOpen={isEditModalOpen}
                 onClose={() => setIsEditModalOpen(false)}
                 title="Editar Paciente"
+                size="lg"
             >
                 <form onSubmit={handleUpdate} className="space-y-4">
                     <Input
                         label="Nome Completo *"
                         value={formData.name}
-                        onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({ ...formData, name: e.target.value })}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ name: e.target.value })}
                         required
                     />
-                    <Input
-                        label="E-mail"
-                        type="email"
-                        value={formData.email}
-                        onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({ ...formData, email: e.target.value })}
-                    />
-                    <Input
-                        label="Telefone"
-                        type="tel"
-                        placeholder="(11) 99999-9999"
-                        maxLength={15}
-                        value={formData.phone}
-                        onChange={(e: ChangeEvent<HTMLInputElement>) => {
-                            const formatted = formatPhoneNumber(e.target.value);
-                            setFormData({ ...formData, phone: formatted });
-                        }}
-                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <Input
+                            label="E-mail"
+                            type="email"
+                            value={formData.email}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ email: e.target.value })}
+                        />
+                        <Input
+                            label="Telefone"
+                            type="tel"
+                            placeholder="(11) 99999-9999"
+                            maxLength={15}
+                            value={formData.phone}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ phone: formatPhoneNumber(e.target.value) })}
+                        />
+                        <Input
+                            label="CPF"
+                            placeholder="000.000.000-00"
+                            maxLength={14}
+                            value={formData.cpf}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ cpf: formatCPF(e.target.value) })}
+                        />
+                        <DateInput
+                            label="Data de Nascimento"
+                            value={formData.birthDate}
+                            onChange={(e) => updateForm({ birthDate: e.target.value })}
+                        />
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Sexo</label>
+                            <select
+                                className={selectClassName}
+                                value={formData.sex}
+                                onChange={(e: ChangeEvent<HTMLSelectElement>) => updateForm({ sex: e.target.value as PatientSex | '' })}
+                            >
+                                <option value="">Não informado</option>
+                                {(Object.keys(SEX_LABELS) as PatientSex[]).map(sex => (
+                                    <option key={sex} value={sex}>{SEX_LABELS[sex]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <Input
+                            label="Profissão"
+                            value={formData.occupation}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ occupation: e.target.value })}
+                        />
+                    </div>
+
+                    <fieldset className="space-y-4 pt-4 border-t border-gray-100">
+                        <legend className="text-sm font-bold text-slate-900 dark:text-white">Endereço</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <Input
+                                label="CEP"
+                                placeholder="00000-000"
+                                maxLength={9}
+                                value={formData.zipCode}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ zipCode: formatZipCode(e.target.value) })}
+                            />
+                            <div className="sm:col-span-2">
+                                <Input
+                                    label="Logradouro"
+                                    value={formData.street}
+                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ street: e.target.value })}
+                                />
+                            </div>
+                            <Input
+                                label="Número"
+                                value={formData.number}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ number: e.target.value })}
+                            />
+                            <Input
+                                label="Complemento"
+                                value={formData.complement}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ complement: e.target.value })}
+                            />
+                            <Input
+                                label="Bairro"
+                                value={formData.neighborhood}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ neighborhood: e.target.value })}
+                            />
+                            <div className="sm:col-span-2">
+                                <Input
+                                    label="Cidade"
+                                    value={formData.city}
+                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ city: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">UF</label>
+                                <select
+                                    className={selectClassName}
+                                    value={formData.state}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) => updateForm({ state: e.target.value })}
+                                >
+                                    <option value="">—</option>
+                                    {BRAZILIAN_STATES.map(uf => (
+                                        <option key={uf} value={uf}>{uf}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="space-y-4 pt-4 border-t border-gray-100">
+                        <legend className="text-sm font-bold text-slate-900 dark:text-white">Contato de Emergência</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <Input
+                                label="Nome"
+                                value={formData.emergencyName}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ emergencyName: e.target.value })}
+                            />
+                            <Input
+                                label="Telefone"
+                                type="tel"
+                                placeholder="(11) 99999-9999"
+                                maxLength={15}
+                                value={formData.emergencyPhone}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ emergencyPhone: formatPhoneNumber(e.target.value) })}
+                            />
+                            <Input
+                                label="Parentesco"
+                                value={formData.emergencyRelationship}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ emergencyRelationship: e.target.value })}
+                            />
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="space-y-4 pt-4 border-t border-gray-100">
+                        <legend className="text-sm font-bold text-slate-900 dark:text-white">
+                            Responsável Legal{guardianRequired && ' *'}
+                        </legend>
+                        {guardianRequired && (
+                            <p className="text-xs text-amber-700">Obrigatório para pacientes menores de idade.</p>
+                        )}
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <Input
+                                label="Nome"
+                                value={formData.guardianName}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ guardianName: e.target.value })}
+                                required={guardianRequired}
+                            />
+                            <Input
+                                label="CPF"
+                                placeholder="000.000.000-00"
+                                maxLength={14}
+                                value={formData.guardianCpf}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ guardianCpf: formatCPF(e.target.value) })}
+                                required={guardianRequired}
+                            />
+                            <Input
+                                label="Telefone"
+                                type="tel"
+                                placeholder="(11) 99999-9999"
+                                maxLength={15}
+                                value={formData.guardianPhone}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ guardianPhone: formatPhoneNumber(e.target.value) })}
+                            />
+                            <Input
+                                label="Parentesco"
+                                value={formData.guardianRelationship}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ guardianRelationship: e.target.value })}
+                            />
+                        </div>
+                    </fieldset>
+
                     <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
                         <Button 
                             type="button" 
@@ -806,6 +2112,65 @@ const PatientDetails: React.FC = () => {
                     </div>
                 </form>
             </Modal>
+
+            <Modal
+                isOpen={isTreatmentPlanModalOpen}
+                onClose={() => setIsTreatmentPlanModalOpen(false)}
+                title="Novo Plano de Tratamento"
+            >
+                <form onSubmit={handleCreateTreatmentPlan} className="space-y-4">
+                    <Input
+                        label="Procedimento"
+                        required
+                        placeholder="Tratamento endodôntico"
+                        value={treatmentPlanForm.procedure}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => setTreatmentPlanForm({ ...treatmentPlanForm, procedure: e.target.value })}
+                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <Input
+                            label="Dente"
+                            placeholder="36"
+                            maxLength={2}
+                            inputMode="numeric"
+                            value={treatmentPlanForm.tooth}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => setTreatmentPlanForm({ ...treatmentPlanForm, tooth: e.target.value })}
+                        />
+                        <Input
+                            label="Valor total orçado"
+                            required
+                            inputMode="decimal"
+                            placeholder="0,00"
+                            value={treatmentPlanForm.totalValue}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => setTreatmentPlanForm({ ...treatmentPlanForm, totalValue: e.target.value })}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">
+                            Sessões (uma por linha)
+                        </label>
+                        <textarea
+                            required
+                            rows={4}
+                            className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-sky-200"
+                            placeholder={'Abertura e odontometria\nInstrumentação\nObturação'}
+                            value={treatmentPlanForm.sessions}
+                            onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setTreatmentPlanForm({ ...treatmentPlanForm, sessions: e.target.value })}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+                        <Button
+                            type="button"
+                            variant="secondary"
+                            onClick={() => setIsTreatmentPlanModalOpen(false)}
+                        >
+                            Cancelar
+                        </Button>
+                        <Button type="submit">
+                            Criar Plano
+                        </Button>
+                    </div>
+                </form>
+            </Modal>
         </div>
     );
 };
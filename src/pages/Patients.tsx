@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useRef, FormEvent, ChangeEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, User, Calendar, ChevronRight, Mail, Phone } from 'lucide-react';
+import { Search, User, Users, Calendar, ChevronRight, Mail, Phone, AlertTriangle } from 'lucide-react';
 import { motion, Variants } from 'framer-motion';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import Modal from '../components/UI/Modal';
+import Badge from '../components/UI/Badge';
 import Input from '../components/UI/Input';
 import { useLanguage } from '../context/LanguageContext';
 import { useDependencies } from '../hooks/useDependencies';
@@ -15,6 +16,8 @@ import { sanitizeText } from '../lib/sanitize';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { useToast } from '../components/UI/Toast';
 import Pagination from '../components/UI/Pagination';
+import type { DuplicateMatch, DuplicatePair, DuplicateReason } from '../domain/services/PatientDomainService';
+import type { PatientMergeResult } from '../application/services/PatientDuplicateService';
 
 interface Patient {
     id: string;
@@ -57,6 +60,7 @@ const Patients: React.FC = () => {
     const container = useDependencies();
     const patientService = container.resolve('patientService');
     const appointmentService = container.resolve('appointmentService');
+    const patientDuplicateService = container.resolve('patientDuplicateService');
     const [patients, setPatients] = useState<Patient[]>([]);
     const [totalAppointments, setTotalAppointments] = useState<number>(0);
     const [searchTerm, setSearchTerm] = useState<string>('');
@@ -68,6 +72,11 @@ const Patients: React.FC = () => {
         phone: ''
     });
     const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+    const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+    const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState<boolean>(false);
+    const [duplicatePairs, setDuplicatePairs] = useState<DuplicatePair[]>([]);
+    const [loadingDuplicates, setLoadingDuplicates] = useState<boolean>(false);
+    const [merging, setMerging] = useState<boolean>(false);
     const [pagination, setPagination] = useState<PaginationState>({
         page: 1,
         pageSize: 20,
@@ -191,6 +200,99 @@ const Patients: React.FC = () => {
     };
     
 
+    const closeCreateModal = (): void => {
+        setIsModalOpen(false);
+        setFormData({ name: '', email: '', phone: '' });
+        setValidationErrors({});
+        setDuplicateMatches([]);
+    };
+
+    const updateFormField = (field: keyof FormData, value: string): void => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        // Dados mudaram: a busca de duplicados precisa ser refeita
+        setDuplicateMatches([]);
+        if (validationErrors[field]) {
+            setValidationErrors(prev => ({ ...prev, [field]: null }));
+        }
+    };
+
+    const createPatient = async (skipDuplicateCheck: boolean = false): Promise<void> => {
+        const dataToValidate = {
+            ...formData,
+            phone: unformatPhoneNumber(formData.phone)
+        };
+        
+        const validation = validatePatient(dataToValidate);
+        if (!validation.isValid) {
+            setValidationErrors(validation.errors);
+            return;
+        }
+        
+        setValidationErrors({});
+        
+        try {
+            // ✅ Avisar sobre pacientes parecidos antes de criar outro cadastro
+            if (!skipDuplicateCheck) {
+                const matches: DuplicateMatch[] = await patientDuplicateService.findDuplicates(dataToValidate);
+                if (matches.length > 0) {
+                    setDuplicateMatches(matches);
+                    return;
+                }
+            }
+
+            await patientService.create(dataToValidate);
+            closeCreateModal();
+            showSuccess(t('patients.createSuccess') || 'Paciente criado com sucesso!');
+            loadPatients();
+        } catch (error) {
+            handleError(error, 'createPatient');
+        }
+    };
+
+    const loadDuplicatePairs = async (): Promise<void> => {
+        try {
+            setLoadingDuplicates(true);
+            const pairs: DuplicatePair[] = await patientDuplicateService.getDuplicatePairs();
+            setDuplicatePairs(pairs);
+        } catch (error) {
+            handleError(error, 'loadDuplicatePairs');
+        } finally {
+            setLoadingDuplicates(false);
+        }
+    };
+
+    const openDuplicatesModal = (): void => {
+        setIsDuplicatesModalOpen(true);
+        loadDuplicatePairs();
+    };
+
+    const handleMerge = async (targetId: string, sourceId: string): Promise<void> => {
+        if (!window.confirm(t('patients.mergeConfirm'))) return;
+
+        try {
+            setMerging(true);
+            const result: PatientMergeResult = await patientDuplicateService.merge({ sourceId, targetId });
+            const moved = Object.values(result.moved).reduce((sum, count) => sum + count, 0);
+            showSuccess(t('patients.mergeSuccess') + moved);
+            loadDuplicatePairs();
+            loadPatients();
+        } catch (error) {
+            handleError(error, 'mergePatients');
+        } finally {
+            setMerging(false);
+        }
+    };
+
+    const renderReasons = (reasons: DuplicateReason[]) => (
+        <div className="flex flex-wrap gap-1">
+            {reasons.map(reason => (
+                <Badge key={reason} variant={reason === 'name' ? 'default' : 'warning'}>
+                    {t(`patients.duplicateReasons.${reason}`)}
+                </Badge>
+            ))}
+        </div>
+    );
+
     const containerVariants: Variants = {
         hidden: { opacity: 0 },
         show: {
@@ -217,13 +319,23 @@ const Patients: React.FC = () => {
                         <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-1 sm:mb-2">{t('patients.title')}</h2>
                         <p className="text-sm sm:text-base text-white/90">{t('patients.subtitle')}</p>
                     </div>
-                    <Button 
-                        onClick={() => setIsModalOpen(true)}
-                        className="gap-2 bg-white dark:bg-gray-800 text-sky-600 dark:text-sky-400 hover:bg-gray-50 dark:hover:bg-gray-700 shadow-lg w-full sm:w-auto text-sm sm:text-base"
-                    >
-                        <User size={18} />
-                        {t('patients.newPatient')}
-                    </Button>
+                    <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                        <Button 
+                            variant="secondary"
+                            onClick={openDuplicatesModal}
+                            className="gap-2 bg-white/20 hover:bg-white/30 text-white border-white/30 w-full sm:w-auto text-sm sm:text-base"
+                        >
+                            <Users size={18} />
+                            {t('patients.duplicates')}
+                        </Button>
+                        <Button 
+                            onClick={() => setIsModalOpen(true)}
+                            className="gap-2 bg-white dark:bg-gray-800 text-sky-600 dark:text-sky-400 hover:bg-gray-50 dark:hover:bg-gray-700 shadow-lg w-full sm:w-auto text-sm sm:text-base"
+                        >
+                            <User size={18} />
+                            {t('patients.newPatient')}
+                        </Button>
+                    </div>
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
@@ -355,50 +467,18 @@ const Patients: React.FC = () => {
 
             <Modal
                 isOpen={isModalOpen}
-                onClose={() => {
-                    setIsModalOpen(false);
-                    setFormData({ name: '', email: '', phone: '' });
-                    setValidationErrors({});
-                }}
+                onClose={closeCreateModal}
                 title={t('patients.newPatient')}
             >
-                <form onSubmit={async (e: FormEvent<HTMLFormElement>) => {
+                <form onSubmit={(e: FormEvent<HTMLFormElement>) => {
                     e.preventDefault();
-                    const dataToValidate = {
-                        ...formData,
-                        phone: unformatPhoneNumber(formData.phone)
-                    };
-                    
-                    const validation = validatePatient(dataToValidate);
-                    if (!validation.isValid) {
-                        setValidationErrors(validation.errors);
-                        return;
-                    }
-                    
-                    setValidationErrors({});
-                    
-                    try {
-                        const dataToSave = dataToValidate;
-                        await patientService.create(dataToSave);
-                        setIsModalOpen(false);
-                        setFormData({ name: '', email: '', phone: '' });
-                        setValidationErrors({});
-                        showSuccess(t('patients.createSuccess') || 'Paciente criado com sucesso!');
-                        loadPatients();
-                    } catch (error) {
-                        handleError(error, 'createPatient');
-                    }
+                    createPatient();
                 }} className="space-y-4">
                     <div>
                         <Input
                             label={t('patients.fullName')}
                             value={formData.name}
-                            onChange={(e: ChangeEvent<HTMLInputElement>) => {
-                                setFormData({ ...formData, name: e.target.value });
-                                if (validationErrors.name) {
-                                    setValidationErrors({ ...validationErrors, name: null });
-                                }
-                            }}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateFormField('name', e.target.value)}
                             required
                             className={validationErrors.name ? 'border-red-500' : ''}
                         />
@@ -411,12 +491,7 @@ const Patients: React.FC = () => {
                             label={t('patients.email')}
                             type="email"
                             value={formData.email}
-                            onChange={(e: ChangeEvent<HTMLInputElement>) => {
-                                setFormData({ ...formData, email: e.target.value });
-                                if (validationErrors.email) {
-                                    setValidationErrors({ ...validationErrors, email: null });
-                                }
-                            }}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateFormField('email', e.target.value)}
                             className={validationErrors.email ? 'border-red-500' : ''}
                         />
                         {validationErrors.email && (
@@ -430,36 +505,101 @@ const Patients: React.FC = () => {
                             placeholder="(11) 99999-9999"
                             maxLength={15}
                             value={formData.phone}
-                            onChange={(e: ChangeEvent<HTMLInputElement>) => {
-                                const formatted = formatPhoneNumber(e.target.value);
-                                setFormData({ ...formData, phone: formatted });
-                                if (validationErrors.phone) {
-                                    setValidationErrors({ ...validationErrors, phone: null });
-                                }
-                            }}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateFormField('phone', formatPhoneNumber(e.target.value))}
                             className={validationErrors.phone ? 'border-red-500' : ''}
                         />
                         {validationErrors.phone && (
                             <p className="text-red-500 text-sm mt-1">{validationErrors.phone}</p>
                         )}
                     </div>
+                    {duplicateMatches.length > 0 && (
+                        <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 space-y-2">
+                            <p className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+                                <AlertTriangle size={16} />
+                                {t('patients.duplicateWarning')}
+                            </p>
+                            {duplicateMatches.slice(0, 5).map(match => (
+                                <div key={match.patient.id} className="flex items-center justify-between gap-3 text-sm">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-slate-900 truncate">{sanitizeText(match.patient.name)}</p>
+                                        {renderReasons(match.reasons)}
+                                    </div>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        onClick={() => navigate(`/patients/${match.patient.id}`)}
+                                    >
+                                        {t('patients.openPatient')}
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                     <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
                         <Button 
                             type="button" 
                             variant="secondary" 
-                            onClick={() => {
-                                setIsModalOpen(false);
-                                setFormData({ name: '', email: '', phone: '' });
-                            }}
+                            onClick={closeCreateModal}
                         >
                             {t('common.cancel')}
                         </Button>
-                        <Button type="submit">
-                            {t('patients.savePatient')}
-                        </Button>
+                        {duplicateMatches.length > 0 ? (
+                            <Button type="button" onClick={() => createPatient(true)}>
+                                {t('patients.createAnyway')}
+                            </Button>
+                        ) : (
+                            <Button type="submit">
+                                {t('patients.savePatient')}
+                            </Button>
+                        )}
                     </div>
                 </form>
             </Modal>
+
+            <Modal
+                isOpen={isDuplicatesModalOpen}
+                onClose={() => setIsDuplicatesModalOpen(false)}
+                title={t('patients.duplicatesTitle')}
+                size="lg"
+            >
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{t('patients.duplicatesHint')}</p>
+                    {loadingDuplicates ? (
+                        <p className="text-center text-gray-500 dark:text-gray-400 py-6">{t('common.loading')}</p>
+                    ) : duplicatePairs.length === 0 ? (
+                        <p className="text-center text-gray-500 dark:text-gray-400 py-6">{t('patients.noDuplicates')}</p>
+                    ) : (
+                        duplicatePairs.map(({ patients: pair, reasons }) => (
+                            <div key={pair.map(patient => patient.id).join('-')} className="p-3 border border-gray-100 dark:border-gray-700 rounded-xl space-y-3">
+                                {renderReasons(reasons)}
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                    {pair.map((patient, index) => (
+                                        <div key={patient.id} className="flex flex-col gap-2 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-xl">
+                                            <button
+                                                type="button"
+                                                onClick={() => navigate(`/patients/${patient.id}`)}
+                                                className="text-left font-semibold text-slate-900 dark:text-white hover:text-sky-600 truncate"
+                                            >
+                                                {sanitizeText(patient.name)}
+                                            </button>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                                {[patient.email, patient.phone && formatPhoneNumber(patient.phone)].filter(Boolean).join(' • ') || '—'}
+                                            </p>
+                                            <Button
+                                                variant="secondary"
+                                                disabled={merging}
+                                                onClick={() => handleMerge(patient.id, pair[1 - index].id)}
+                                            >
+                                                {t('patients.keep')}
+                                            </Button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </Modal>
         </motion.div>
     );
 };
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, FormEvent, ChangeEvent } from 'react';
-import { User, Mail, Phone, Globe, Moon, Sun, LogOut, Monitor, Loader2 } from 'lucide-react';
+import { User, Mail, Phone, Globe, Moon, Sun, LogOut, Monitor, Loader2, Upload, Trash2, Plus, AlertTriangle, Edit } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useLanguage } from '../context/LanguageContext';
@@ -8,7 +8,38 @@ import { useTheme } from '../context/ThemeContext';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import Input from '../components/UI/Input';
-import { formatPhoneNumber, unformatPhoneNumber } from '../lib/utils';
+import { formatPhoneNumber, unformatPhoneNumber, formatDate } from '../lib/utils';
+import {
+    ExchangeRateFormState,
+    emptyExchangeRateForm,
+    exchangeRateFormToDTO,
+    parseExchangeRateFile
+} from '../lib/exchangeRates';
+import { PaymentMethodFeeFormState, methodFeeToForm, methodFeeFormToDTO } from '../lib/payments';
+import { CURRENCIES, type Currency } from '../domain/value-objects/Money';
+import type { ExchangeRate } from '../domain/entities/ExchangeRate';
+import { PAYMENT_METHODS, type PaymentMethod } from '../domain/entities/Payment';
+import type { PaymentMethodFee } from '../domain/entities/PaymentMethodFee';
+import {
+    ANAMNESIS_QUESTION_TYPES,
+    DEFAULT_ANAMNESIS_QUESTIONS,
+    DEFAULT_REVIEW_INTERVAL_MONTHS,
+    REVIEW_INTERVAL_MIN_MONTHS,
+    REVIEW_INTERVAL_MAX_MONTHS,
+    type AnamnesisTemplate,
+    type AnamnesisQuestionType
+} from '../domain/entities/AnamnesisTemplate';
+import { AnamnesisTemplateFormState, AnamnesisQuestionFormRow, templateToForm, templateFormToDTO } from '../lib/anamnesis';
+import {
+    CONSENT_KINDS,
+    CONSENT_PLACEHOLDERS,
+    CONSENT_TITLE_MAX_LENGTH,
+    CONSENT_BODY_MAX_LENGTH,
+    DEFAULT_CONSENT_TEMPLATES,
+    type ConsentKind,
+    type ConsentTemplate
+} from '../domain/entities/ConsentTemplate';
+import { ConsentTemplateFormState, consentTemplateToForm } from '../lib/consent';
 import { useDependencies } from '../hooks/useDependencies';
 import { logger } from '../lib/logger';
 import { useErrorHandler } from '../hooks/useErrorHandler';
@@ -23,15 +54,29 @@ interface FormData {
     theme: string;
 }
 
+const todayISO = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const buildFeeForms = (fees: PaymentMethodFee[]): Record<PaymentMethod, PaymentMethodFeeFormState> =>
+    Object.fromEntries(
+        PAYMENT_METHODS.map(method => [method, methodFeeToForm(fees.find(fee => fee.method === method))])
+    ) as Record<PaymentMethod, PaymentMethodFeeFormState>;
+
 const Profile: React.FC = () => {
     const { user, signOut } = useAuth();
     const { language, changeLanguage, t } = useLanguage();
-    const { changeCurrency } = useCurrency();
+    const { currency, changeCurrency } = useCurrency();
     const { theme, changeTheme } = useTheme();
     const container = useDependencies();
     const profileService = container.resolve('profileService');
+    const exchangeRateService = container.resolve('exchangeRateService');
+    const paymentService = container.resolve('paymentService');
+    const anamnesisService = container.resolve('anamnesisService');
+    const consentService = container.resolve('consentService');
     const { handleError } = useErrorHandler();
-    const { showSuccess, showError } = useToast();
+    const { showSuccess, showError, showWarning } = useToast();
     const navigate = useNavigate();
     const [loading, setLoading] = useState<boolean>(true);
     const [saving, setSaving] = useState<boolean>(false);
@@ -44,13 +89,199 @@ const Profile: React.FC = () => {
         currency: 'BRL',
         theme: 'light'
     });
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [rateForm, setRateForm] = useState<ExchangeRateFormState>(() => emptyExchangeRateForm(todayISO(), (currency || 'BRL') as Currency));
+    const [savingRate, setSavingRate] = useState<boolean>(false);
+    const [feeForms, setFeeForms] = useState<Record<PaymentMethod, PaymentMethodFeeFormState>>(() => buildFeeForms([]));
+    const [savingFee, setSavingFee] = useState<PaymentMethod | null>(null);
+    const [anamnesisForm, setAnamnesisForm] = useState<AnamnesisTemplateFormState>(
+        () => templateToForm(DEFAULT_ANAMNESIS_QUESTIONS, DEFAULT_REVIEW_INTERVAL_MONTHS)
+    );
+    const [savingAnamnesis, setSavingAnamnesis] = useState<boolean>(false);
+    const [consentTemplates, setConsentTemplates] = useState<ConsentTemplate[]>([]);
+    const [consentTemplateForm, setConsentTemplateForm] = useState<ConsentTemplateFormState | null>(null);
+    const [savingConsentTemplate, setSavingConsentTemplate] = useState<boolean>(false);
 
     useEffect(() => {
         if (user) {
             loadProfile();
+            loadExchangeRates();
+            loadMethodFees();
+            loadAnamnesisTemplate();
+            loadConsentTemplates();
         }
     }, [user?.id]);
 
+    const loadAnamnesisTemplate = async (): Promise<void> => {
+        try {
+            const template: AnamnesisTemplate = await anamnesisService.getTemplate();
+            setAnamnesisForm(templateToForm(template.questions, template.reviewIntervalMonths));
+        } catch (error) {
+            logger.error(error, { context: 'loadAnamnesisTemplate' });
+            handleError(error, 'Profile.loadAnamnesisTemplate');
+        }
+    };
+
+    const updateAnamnesisQuestion = (index: number, changes: Partial<AnamnesisQuestionFormRow>): void => {
+        setAnamnesisForm(form => ({
+            ...form,
+            questions: form.questions.map((question, i) => (i === index ? { ...question, ...changes } : question))
+        }));
+    };
+
+    const handleSaveAnamnesisTemplate = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+
+        try {
+            setSavingAnamnesis(true);
+            const template: AnamnesisTemplate = await anamnesisService.saveTemplate(templateFormToDTO(anamnesisForm));
+            setAnamnesisForm(templateToForm(template.questions, template.reviewIntervalMonths));
+            showSuccess(t('profile.anamnesisSaved'));
+        } catch (error) {
+            logger.error(error, { context: 'saveAnamnesisTemplate' });
+            handleError(error, 'Profile.saveAnamnesisTemplate');
+        } finally {
+            setSavingAnamnesis(false);
+        }
+    };
+
+    const loadConsentTemplates = async (): Promise<void> => {
+        try {
+            const templates: ConsentTemplate[] = await consentService.getTemplates();
+            setConsentTemplates(templates);
+        } catch (error) {
+            logger.error(error, { context: 'loadConsentTemplates' });
+            handleError(error, 'Profile.loadConsentTemplates');
+        }
+    };
+
+    const handleSaveConsentTemplate = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+        if (!consentTemplateForm) return;
+
+        try {
+            setSavingConsentTemplate(true);
+            await consentService.saveTemplate({ ...consentTemplateForm, id: consentTemplateForm.id || undefined });
+            showSuccess(t('profile.consentTemplateSaved'));
+            setConsentTemplateForm(null);
+            await loadConsentTemplates();
+        } catch (error) {
+            logger.error(error, { context: 'saveConsentTemplate' });
+            handleError(error, 'Profile.saveConsentTemplate');
+        } finally {
+            setSavingConsentTemplate(false);
+        }
+    };
+
+    const handleDeleteConsentTemplate = async (template: ConsentTemplate): Promise<void> => {
+        if (!window.confirm(t('profile.consentTemplateDeleteConfirm'))) return;
+
+        try {
+            await consentService.deleteTemplate(template.id);
+            showSuccess(t('profile.consentTemplateDeleted'));
+            if (consentTemplateForm?.id === template.id) setConsentTemplateForm(null);
+            await loadConsentTemplates();
+        } catch (error) {
+            logger.error(error, { context: 'deleteConsentTemplate' });
+            handleError(error, 'Profile.deleteConsentTemplate');
+        }
+    };
+
+    const newConsentTemplateForm = (kind: ConsentKind = 'endodontic'): ConsentTemplateFormState => ({
+        id: '',
+        kind,
+        ...DEFAULT_CONSENT_TEMPLATES[kind]
+    });
+
+    const loadMethodFees = async (): Promise<void> => {
+        try {
+            setFeeForms(buildFeeForms(await paymentService.getMethodFees()));
+        } catch (error) {
+            logger.error(error, { context: 'loadMethodFees' });
+            handleError(error, 'Profile.loadMethodFees');
+        }
+    };
+
+    const updateFeeForm = (method: PaymentMethod, field: keyof PaymentMethodFeeFormState, value: string): void => {
+        setFeeForms(forms => ({ ...forms, [method]: { ...forms[method], [field]: value } }));
+    };
+
+    const handleSaveMethodFee = async (method: PaymentMethod): Promise<void> => {
+        try {
+            setSavingFee(method);
+            await paymentService.saveMethodFee(methodFeeFormToDTO(method, feeForms[method]));
+            showSuccess(t('profile.paymentFeeSaved'));
+            await loadMethodFees();
+        } catch (error) {
+            logger.error(error, { context: 'saveMethodFee' });
+            handleError(error, 'Profile.saveMethodFee');
+        } finally {
+            setSavingFee(null);
+        }
+    };
+
+    const loadExchangeRates = async (): Promise<void> => {
+        try {
+            setExchangeRates(await exchangeRateService.getAll());
+        } catch (error) {
+            logger.error(error, { context: 'loadExchangeRates' });
+            handleError(error, 'Profile.loadExchangeRates');
+        }
+    };
+
+    const handleSaveExchangeRate = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+
+        try {
+            setSavingRate(true);
+            await exchangeRateService.create(exchangeRateFormToDTO(rateForm));
+            showSuccess(t('profile.exchangeRateSaved'));
+            setRateForm({ ...rateForm, rate: '' });
+            await loadExchangeRates();
+        } catch (error) {
+            logger.error(error, { context: 'saveExchangeRate' });
+            handleError(error, 'Profile.saveExchangeRate');
+        } finally {
+            setSavingRate(false);
+        }
+    };
+
+    const handleImportExchangeRates = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const { rows, errors } = parseExchangeRateFile(await file.text());
+        if (errors.length > 0) {
+            showWarning(errors.slice(0, 5).join('\n'), t('profile.exchangeRateImportErrors'));
+        }
+        if (rows.length === 0) return;
+
+        try {
+            setSavingRate(true);
+            const result = await exchangeRateService.importRates(rows);
+            showSuccess(t('profile.exchangeRateImported') + ' ' + result.imported + ' / ' + (result.imported + result.skipped));
+            await loadExchangeRates();
+        } catch (error) {
+            logger.error(error, { context: 'importExchangeRates' });
+            handleError(error, 'Profile.importExchangeRates');
+        } finally {
+            setSavingRate(false);
+        }
+    };
+
+    const handleDeleteExchangeRate = async (rateId: string): Promise<void> => {
+        if (!window.confirm(t('profile.exchangeRateDeleteConfirm'))) return;
+
+        try {
+            await exchangeRateService.delete(rateId);
+            await loadExchangeRates();
+        } catch (error) {
+            logger.error(error, { context: 'deleteExchangeRate' });
+            handleError(error, 'Profile.deleteExchangeRate');
+        }
+    };
+
     const loadProfile = async (): Promise<void> => {
         if (!user?.id) return;
         
@@ -286,6 +517,359 @@ const Profile: React.FC = () => {
                             </div>
                         </form>
                     </Card>
+
+                    <Card className="p-4 sm:p-6">
+                        <div className="mb-3 sm:mb-4 pb-3 sm:pb-4 border-b border-gray-100 dark:border-gray-700 flex items-start justify-between gap-3">
+                            <div>
+                                <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white">{t('profile.exchangeRates')}</h3>
+                                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400 mt-1">{t('profile.exchangeRatesHint')}</p>
+                            </div>
+                            <label className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 text-sm font-medium text-slate-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer whitespace-nowrap">
+                                <Upload size={16} />
+                                {t('profile.exchangeRateImport')}
+                                <input type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleImportExchangeRates} disabled={savingRate} />
+                            </label>
+                        </div>
+                        <form onSubmit={handleSaveExchangeRate} className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+                            <Input
+                                label={t('profile.exchangeRateDate')}
+                                type="date"
+                                value={rateForm.date}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setRateForm({ ...rateForm, date: e.target.value })}
+                                required
+                            />
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-1 sm:mb-2">{t('profile.exchangeRateFrom')}</label>
+                                <select
+                                    className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-base sm:text-sm min-h-[44px]"
+                                    value={rateForm.fromCurrency}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setRateForm({ ...rateForm, fromCurrency: e.target.value as Currency })}
+                                >
+                                    {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-1 sm:mb-2">{t('profile.exchangeRateTo')}</label>
+                                <select
+                                    className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-base sm:text-sm min-h-[44px]"
+                                    value={rateForm.toCurrency}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setRateForm({ ...rateForm, toCurrency: e.target.value as Currency })}
+                                >
+                                    {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                                </select>
+                            </div>
+                            <Input
+                                label={t('profile.exchangeRateValue')}
+                                inputMode="decimal"
+                                placeholder="5,4321"
+                                value={rateForm.rate}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => setRateForm({ ...rateForm, rate: e.target.value })}
+                                required
+                            />
+                            <Button type="submit" disabled={savingRate || rateForm.fromCurrency === rateForm.toCurrency} className="col-span-2 sm:col-span-1">
+                                {savingRate ? t('common.saving') : t('common.save')}
+                            </Button>
+                        </form>
+                        <div className="mt-4 max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                            {exchangeRates.length === 0 ? (
+                                <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">{t('profile.noExchangeRates')}</p>
+                            ) : (
+                                exchangeRates.map(rate => (
+                                    <div key={rate.id} className="flex items-center justify-between py-2 text-sm">
+                                        <span className="text-slate-600 dark:text-gray-300">{formatDate(rate.date)}</span>
+                                        <span className="font-medium text-slate-900 dark:text-white">
+                                            1 {rate.fromCurrency} = {rate.rate.toLocaleString(language, { maximumFractionDigits: 6 })} {rate.toCurrency}
+                                        </span>
+                                        <span className="text-xs text-slate-500 dark:text-gray-400">
+                                            {rate.source === 'import' ? t('profile.exchangeRateImportedTag') : t('profile.exchangeRateManualTag')}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDeleteExchangeRate(rate.id)}
+                                            className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg"
+                                            aria-label={t('common.delete')}
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </Card>
+
+                    <Card className="p-4 sm:p-6">
+                        <div className="mb-3 sm:mb-4 pb-3 sm:pb-4 border-b border-gray-100 dark:border-gray-700">
+                            <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white">{t('profile.paymentFees')}</h3>
+                            <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400 mt-1">{t('profile.paymentFeesHint')}</p>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left text-sm min-w-[560px]">
+                                <thead>
+                                    <tr className="text-xs text-slate-500 dark:text-gray-400">
+                                        <th className="pb-2 pr-3 font-semibold">{t('profile.paymentFeeMethod')}</th>
+                                        <th className="pb-2 pr-3 font-semibold">{t('profile.paymentFeePercentage')}</th>
+                                        <th className="pb-2 pr-3 font-semibold">{t('profile.paymentFeeInstallmentPercentage')}</th>
+                                        <th className="pb-2 pr-3 font-semibold">{t('profile.paymentFeeFixed')}</th>
+                                        <th className="pb-2 pr-3 font-semibold">{t('profile.paymentFeeSettlementDays')}</th>
+                                        <th className="pb-2" />
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                                    {PAYMENT_METHODS.map(method => (
+                                        <tr key={method}>
+                                            <td className="py-2 pr-3 font-medium text-slate-900 dark:text-white">{t(`appointments.paymentMethods.${method}`)}</td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                                    inputMode="decimal"
+                                                    value={feeForms[method].percentage}
+                                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateFeeForm(method, 'percentage', e.target.value)}
+                                                    aria-label={t('profile.paymentFeePercentage')}
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                {method === 'credit_card' ? (
+                                                    <input
+                                                        className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                                        inputMode="decimal"
+                                                        value={feeForms[method].installmentPercentage}
+                                                        onChange={(e: ChangeEvent<HTMLInputElement>) => updateFeeForm(method, 'installmentPercentage', e.target.value)}
+                                                        aria-label={t('profile.paymentFeeInstallmentPercentage')}
+                                                    />
+                                                ) : (
+                                                    <span className="text-slate-400">—</span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                                    inputMode="decimal"
+                                                    value={feeForms[method].fixedAmount}
+                                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateFeeForm(method, 'fixedAmount', e.target.value)}
+                                                    aria-label={t('profile.paymentFeeFixed')}
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                                    type="number"
+                                                    min="0"
+                                                    max="365"
+                                                    value={feeForms[method].settlementDays}
+                                                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateFeeForm(method, 'settlementDays', e.target.value)}
+                                                    aria-label={t('profile.paymentFeeSettlementDays')}
+                                                />
+                                            </td>
+                                            <td className="py-2 text-right">
+                                                <Button
+                                                    variant="secondary"
+                                                    className="text-xs px-3 py-2"
+                                                    disabled={savingFee !== null}
+                                                    onClick={() => handleSaveMethodFee(method)}
+                                                >
+                                                    {savingFee === method ? t('common.saving') : t('common.save')}
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </Card>
+                    <Card className="p-4 sm:p-6">
+                        <div className="mb-3 sm:mb-4 pb-3 sm:pb-4 border-b border-gray-100 dark:border-gray-700 flex items-start justify-between gap-3">
+                            <div>
+                                <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white">{t('profile.anamnesis')}</h3>
+                                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400 mt-1">{t('profile.anamnesisHint')}</p>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                className="text-xs px-3 py-2 whitespace-nowrap"
+                                onClick={() => setAnamnesisForm(form => ({
+                                    ...templateToForm(DEFAULT_ANAMNESIS_QUESTIONS, DEFAULT_REVIEW_INTERVAL_MONTHS),
+                                    reviewIntervalMonths: form.reviewIntervalMonths
+                                }))}
+                            >
+                                {t('profile.anamnesisRestoreDefaults')}
+                            </Button>
+                        </div>
+                        <form onSubmit={handleSaveAnamnesisTemplate} className="space-y-4">
+                            <div className="space-y-3">
+                                {anamnesisForm.questions.map((question, index) => (
+                                    <div key={question.id || `new-${index}`} className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_10rem_auto] gap-2 items-center">
+                                        <input
+                                            className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                            value={question.label}
+                                            maxLength={255}
+                                            required
+                                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateAnamnesisQuestion(index, { label: e.target.value })}
+                                            aria-label={t('profile.anamnesisQuestion')}
+                                        />
+                                        <select
+                                            className="px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl text-sm"
+                                            value={question.type}
+                                            onChange={(e: ChangeEvent<HTMLSelectElement>) => updateAnamnesisQuestion(index, { type: e.target.value as AnamnesisQuestionType })}
+                                            aria-label={t('profile.anamnesisType')}
+                                        >
+                                            {ANAMNESIS_QUESTION_TYPES.map(type => (
+                                                <option key={type} value={type}>{t(`profile.anamnesisTypes.${type}`)}</option>
+                                            ))}
+                                        </select>
+                                        <label className="inline-flex items-center gap-1.5 text-sm text-slate-700 dark:text-gray-300 whitespace-nowrap">
+                                            <input
+                                                type="checkbox"
+                                                checked={question.critical}
+                                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateAnamnesisQuestion(index, { critical: e.target.checked })}
+                                            />
+                                            <AlertTriangle size={14} className="text-rose-500" />
+                                            {t('profile.anamnesisCritical')}
+                                        </label>
+                                        <input
+                                            className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm disabled:opacity-50"
+                                            value={question.alertLabel}
+                                            maxLength={50}
+                                            disabled={!question.critical}
+                                            placeholder={t('profile.anamnesisAlertLabel')}
+                                            onChange={(e: ChangeEvent<HTMLInputElement>) => updateAnamnesisQuestion(index, { alertLabel: e.target.value })}
+                                            aria-label={t('profile.anamnesisAlertLabel')}
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setAnamnesisForm(form => ({ ...form, questions: form.questions.filter((_, i) => i !== index) }))}
+                                            className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg justify-self-end"
+                                            aria-label={t('profile.anamnesisRemoveQuestion')}
+                                            disabled={anamnesisForm.questions.length === 1}
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    type="button"
+                                    className="flex items-center gap-1 text-sm text-sky-600 hover:text-sky-700"
+                                    onClick={() => setAnamnesisForm(form => ({
+                                        ...form,
+                                        questions: [...form.questions, { id: '', label: '', type: 'boolean', critical: false, alertLabel: '' }]
+                                    }))}
+                                >
+                                    <Plus size={14} />
+                                    {t('profile.anamnesisAddQuestion')}
+                                </button>
+                            </div>
+                            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 pt-3 sm:pt-4 border-t border-gray-100 dark:border-gray-700">
+                                <div className="sm:w-48">
+                                    <Input
+                                        label={t('profile.anamnesisReviewInterval')}
+                                        type="number"
+                                        min={REVIEW_INTERVAL_MIN_MONTHS}
+                                        max={REVIEW_INTERVAL_MAX_MONTHS}
+                                        value={anamnesisForm.reviewIntervalMonths}
+                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setAnamnesisForm({ ...anamnesisForm, reviewIntervalMonths: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                <Button type="submit" disabled={savingAnamnesis} className="w-full sm:w-auto">
+                                    {savingAnamnesis ? t('common.saving') : t('common.save')}
+                                </Button>
+                            </div>
+                        </form>
+                    </Card>
+                    <Card className="p-4 sm:p-6">
+                        <div className="mb-3 sm:mb-4 pb-3 sm:pb-4 border-b border-gray-100 dark:border-gray-700 flex items-start justify-between gap-3">
+                            <div>
+                                <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white">{t('profile.consentTemplates')}</h3>
+                                <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400 mt-1">{t('profile.consentTemplatesHint')}</p>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                className="text-xs px-3 py-2 whitespace-nowrap flex items-center gap-1"
+                                onClick={() => setConsentTemplateForm(newConsentTemplateForm())}
+                            >
+                                <Plus size={14} />
+                                {t('profile.consentTemplateAdd')}
+                            </Button>
+                        </div>
+                        <ul className="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+                            {consentTemplates.map(template => (
+                                <li key={template.id} className="py-2.5 flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-slate-800 dark:text-gray-200 truncate">{template.title}</p>
+                                        <p className="text-xs text-slate-500 dark:text-gray-400">
+                                            {t(`profile.consentKinds.${template.kind}`)}
+                                            {template.isDefault && ` • ${t('profile.consentTemplateDefault')}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-1 flex-shrink-0">
+                                        <button
+                                            type="button"
+                                            onClick={() => setConsentTemplateForm(consentTemplateToForm(template))}
+                                            className="p-1.5 text-slate-400 hover:text-sky-600 rounded-lg"
+                                            aria-label={t('profile.consentTemplateEdit')}
+                                        >
+                                            <Edit size={16} />
+                                        </button>
+                                        {!template.isDefault && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleDeleteConsentTemplate(template)}
+                                                className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg"
+                                                aria-label={t('profile.consentTemplateDelete')}
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                        {consentTemplateForm && (
+                            <form onSubmit={handleSaveConsentTemplate} className="space-y-4 pt-3 sm:pt-4 border-t border-gray-100 dark:border-gray-700">
+                                <div className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-3">
+                                    <div>
+                                        <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('profile.consentKind')}</label>
+                                        <select
+                                            className="w-full px-3 py-2.5 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl text-sm"
+                                            value={consentTemplateForm.kind}
+                                            onChange={(e: ChangeEvent<HTMLSelectElement>) => setConsentTemplateForm({ ...consentTemplateForm, kind: e.target.value as ConsentKind })}
+                                        >
+                                            {CONSENT_KINDS.map(kind => (
+                                                <option key={kind} value={kind}>{t(`profile.consentKinds.${kind}`)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <Input
+                                        label={t('profile.consentTitle')}
+                                        value={consentTemplateForm.title}
+                                        maxLength={CONSENT_TITLE_MAX_LENGTH}
+                                        onChange={(e: ChangeEvent<HTMLInputElement>) => setConsentTemplateForm({ ...consentTemplateForm, title: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('profile.consentBody')}</label>
+                                    <textarea
+                                        rows={12}
+                                        className="w-full px-3 py-2 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all text-sm"
+                                        value={consentTemplateForm.body}
+                                        maxLength={CONSENT_BODY_MAX_LENGTH}
+                                        onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setConsentTemplateForm({ ...consentTemplateForm, body: e.target.value })}
+                                        required
+                                    />
+                                    <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">
+                                        {t('profile.consentPlaceholders')} {CONSENT_PLACEHOLDERS.map(placeholder => `{{${placeholder}}}`).join(', ')}
+                                    </p>
+                                </div>
+                                <div className="flex justify-end gap-3">
+                                    <Button type="button" variant="ghost" onClick={() => setConsentTemplateForm(null)}>
+                                        {t('common.cancel')}
+                                    </Button>
+                                    <Button type="submit" disabled={savingConsentTemplate}>
+                                        {savingConsentTemplate ? t('common.saving') : t('common.save')}
+                                    </Button>
+                                </div>
+                            </form>
+                        )}
+                    </Card>
                 </div>
             </div>
         </div>
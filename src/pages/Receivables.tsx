@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, FileText, ChevronDown, ChevronRight, CheckCircle2 } from 'lucide-react';
+import Card from '../components/UI/Card';
+import Button from '../components/UI/Button';
+import Badge from '../components/UI/Badge';
+import DateInput from '../components/UI/DateInput';
+import { useLanguage } from '../context/LanguageContext';
+import { useDependencies } from '../hooks/useDependencies';
+import { useErrorHandler } from '../hooks/useErrorHandler';
+import { useCurrency } from '../context/CurrencyContext';
+import { useToast } from '../components/UI/Toast';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { AgingGrouping, downloadAgingCSV, exportAgingPdf } from '../lib/receivables';
+import { toISODate } from '../lib/calendar';
+import { AGING_BUCKETS, type AgingBucket, type AgingReport } from '../domain/services/ReceivablesDomainService';
+import { PAYMENT_METHODS, type PaymentMethod } from '../domain/entities/Payment';
+import type { Currency } from '../domain/value-objects/Money';
+import type { SettleAppointmentsResult } from '../application/services/PaymentService';
+
+const BUCKET_BADGE: Record<AgingBucket, 'default' | 'primary' | 'warning' | 'danger'> = {
+    '0_30': 'default',
+    '31_60': 'primary',
+    '61_90': 'warning',
+    '90_plus': 'danger'
+};
+
+const today = (): string => toISODate(new Date());
+
+const Receivables: React.FC = () => {
+    const { t } = useLanguage();
+    const { currency } = useCurrency();
+    const container = useDependencies();
+    const receivablesService = container.resolve('receivablesService');
+    const paymentService = container.resolve('paymentService');
+    const { showSuccess, showWarning } = useToast();
+    const { handleError } = useErrorHandler();
+    const [asOf, setAsOf] = useState<string>(today);
+    const [report, setReport] = useState<AgingReport | null>(null);
+    const [grouping, setGrouping] = useState<AgingGrouping>('byPatient');
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [paidDate, setPaidDate] = useState<string>(today);
+    const [method, setMethod] = useState<PaymentMethod>('pix');
+    const [loading, setLoading] = useState<boolean>(true);
+    const [settling, setSettling] = useState<boolean>(false);
+
+    const loadReport = async (): Promise<void> => {
+        try {
+            setLoading(true);
+            const data: AgingReport = await receivablesService.getAgingReport(asOf, (currency || 'BRL') as Currency);
+            setReport(data);
+            // Seleções de atendimentos que já não estão em aberto são descartadas
+            const openIds = new Set(data.byPatient.flatMap(group => group.items.map(item => item.appointmentId)));
+            setSelected(previous => new Set([...previous].filter(id => openIds.has(id))));
+        } catch (error) {
+            handleError(error, 'Receivables.loadReport');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (asOf) {
+            loadReport();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [asOf, currency]);
+
+    const groups = report ? report[grouping] : [];
+    const selectedTotal = useMemo(
+        () => groups.flatMap(group => group.items).filter(item => selected.has(item.appointmentId)).reduce((cents, item) => cents + item.outstanding.cents, 0) / 100,
+        [groups, selected]
+    );
+
+    const groupLabel = (label: string): string =>
+        label || (grouping === 'byPatient' ? t('receivables.noPatient') : t('receivables.noClinic'));
+
+    const toggleExpanded = (key: string) => {
+        setExpanded(previous => {
+            const next = new Set(previous);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+        });
+    };
+
+    const toggleSelected = (ids: string[], checked: boolean) => {
+        setSelected(previous => {
+            const next = new Set(previous);
+            ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+            return next;
+        });
+    };
+
+    const handleSettle = async () => {
+        if (selected.size === 0 || !paidDate) return;
+        try {
+            setSettling(true);
+            const result: SettleAppointmentsResult = await paymentService.settleMany({ appointmentIds: [...selected], paidDate, method });
+            if (result.settled.length > 0) {
+                showSuccess(t('receivables.settledCount') + ': ' + result.settled.length);
+            }
+            if (result.failed.length > 0) {
+                showWarning(t('receivables.failedCount') + ': ' + result.failed.length + ' — ' + result.failed.map(failure => failure.reason).join('; '));
+            }
+            setSelected(new Set(result.failed.map(failure => failure.appointmentId)));
+            await loadReport();
+        } catch (error) {
+            handleError(error, 'Receivables.handleSettle');
+        } finally {
+            setSettling(false);
+        }
+    };
+
+    const selectClassName = 'w-full px-3 py-2.5 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm text-slate-900 dark:text-white';
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-gradient-to-r from-sky-500 to-emerald-500 dark:from-sky-600 dark:to-emerald-600 rounded-xl sm:rounded-2xl p-4 sm:p-6 md:p-8 text-white mb-6 sm:mb-8 shadow-xl">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 sm:gap-4">
+                    <div>
+                        <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-1 sm:mb-2">{t('receivables.title')}</h2>
+                        <p className="text-sm sm:text-base text-white/90">{t('receivables.subtitle')}</p>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 w-full sm:w-auto">
+                        <Button
+                            onClick={() => report && downloadAgingCSV(report)}
+                            disabled={!report || report.total === 0}
+                            className="bg-white text-sky-600 hover:bg-gray-50 shadow-lg gap-2 w-full sm:w-auto text-sm sm:text-base"
+                        >
+                            <FileText size={18} />
+                            {t('receivables.exportCsv')}
+                        </Button>
+                        <Button
+                            onClick={() => report && exportAgingPdf(report, grouping)}
+                            disabled={!report || report.total === 0}
+                            className="bg-white text-sky-600 hover:bg-gray-50 shadow-lg gap-2 w-full sm:w-auto text-sm sm:text-base"
+                        >
+                            <Download size={18} />
+                            {t('receivables.exportPdf')}
+                        </Button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
+                {AGING_BUCKETS.map(bucket => (
+                    <Card key={bucket} className="p-4">
+                        <p className="text-xs sm:text-sm font-semibold text-slate-500 dark:text-gray-400 mb-1">{t(`receivables.buckets.${bucket}`)}</p>
+                        <h3 className={`text-lg sm:text-xl font-bold break-words ${bucket === '90_plus' ? 'text-rose-600' : 'text-slate-900 dark:text-white'}`}>
+                            {loading ? '…' : formatCurrency(report?.buckets[bucket] ?? 0, report?.currency)}
+                        </h3>
+                    </Card>
+                ))}
+                <Card className="p-4 col-span-2 lg:col-span-1 bg-gradient-to-br from-amber-50 to-amber-100/50 border-amber-200">
+                    <p className="text-xs sm:text-sm font-semibold text-amber-700 mb-1">{t('receivables.total')}</p>
+                    <h3 className="text-lg sm:text-xl font-bold text-amber-900 break-words">
+                        {loading ? '…' : formatCurrency(report?.total ?? 0, report?.currency)}
+                    </h3>
+                </Card>
+            </div>
+
+            <Card className="p-4 sm:p-6">
+                <div className="flex flex-col md:flex-row md:items-end justify-between gap-3 mb-4">
+                    <DateInput
+                        label={t('receivables.asOf')}
+                        value={asOf}
+                        onChange={(e) => setAsOf(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                        {(['byPatient', 'byClinic'] as AgingGrouping[]).map(option => (
+                            <Button
+                                key={option}
+                                variant={grouping === option ? 'primary' : 'secondary'}
+                                onClick={() => setGrouping(option)}
+                                className="text-xs sm:text-sm"
+                            >
+                                {t(`receivables.${option}`)}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+
+                {selected.size > 0 && (
+                    <div className="flex flex-col md:flex-row md:items-end gap-3 mb-4 p-3 rounded-xl bg-sky-50 dark:bg-sky-900/30 border border-sky-200 dark:border-sky-800">
+                        <p className="text-sm font-semibold text-sky-800 dark:text-sky-200 md:flex-1">
+                            {t('receivables.selected')}: {selected.size} • {formatCurrency(selectedTotal, report?.currency)}
+                        </p>
+                        <DateInput
+                            label={t('receivables.paidDate')}
+                            value={paidDate}
+                            required
+                            onChange={(e) => setPaidDate(e.target.value)}
+                        />
+                        <div>
+                            <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('appointments.paymentMethod')}</label>
+                            <select
+                                className={selectClassName}
+                                value={method}
+                                onChange={e => setMethod(e.target.value as PaymentMethod)}
+                            >
+                                {PAYMENT_METHODS.map(option => (
+                                    <option key={option} value={option}>{t(`appointments.paymentMethods.${option}`)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <Button onClick={handleSettle} disabled={settling || !paidDate} className="gap-2">
+                            <CheckCircle2 size={18} />
+                            {settling ? t('receivables.settling') : t('receivables.markPaid')}
+                        </Button>
+                    </div>
+                )}
+
+                <div className="overflow-x-auto -mx-2 sm:mx-0">
+                    <table className="w-full text-left min-w-[720px] sm:min-w-0">
+                        <thead>
+                            <tr className="border-b border-gray-100 dark:border-gray-700">
+                                <th className="pb-3 px-2 w-8" />
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">
+                                    {grouping === 'byPatient' ? t('receivables.patient') : t('receivables.clinic')}
+                                </th>
+                                {AGING_BUCKETS.map(bucket => (
+                                    <th key={bucket} className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">
+                                        {t(`receivables.buckets.${bucket}`)}
+                                    </th>
+                                ))}
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('receivables.total')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50 dark:divide-gray-700">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={7} className="py-8 text-center text-gray-500 dark:text-gray-400">{t('common.loading')}</td>
+                                </tr>
+                            ) : groups.length === 0 ? (
+                                <tr>
+                                    <td colSpan={7} className="py-8 text-center text-gray-500 dark:text-gray-400">{t('receivables.empty')}</td>
+                                </tr>
+                            ) : (
+                                groups.map(group => {
+                                    const ids = group.items.map(item => item.appointmentId);
+                                    const allSelected = ids.every(id => selected.has(id));
+                                    const isExpanded = expanded.has(group.key);
+                                    return (
+                                        <React.Fragment key={group.key}>
+                                            <tr className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                                                <td className="py-3 px-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={allSelected}
+                                                        onChange={e => toggleSelected(ids, e.target.checked)}
+                                                        aria-label={t('receivables.selectGroup')}
+                                                    />
+                                                </td>
+                                                <td className="py-3 px-3 sm:px-4 font-medium text-slate-900 dark:text-white text-xs sm:text-sm">
+                                                    <button type="button" onClick={() => toggleExpanded(group.key)} className="flex items-center gap-1 text-left">
+                                                        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                                        {groupLabel(group.label)}
+                                                        <span className="ml-1 text-xs font-normal text-slate-500 dark:text-gray-400">({group.items.length})</span>
+                                                    </button>
+                                                </td>
+                                                {AGING_BUCKETS.map(bucket => (
+                                                    <td key={bucket} className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">
+                                                        {group.buckets[bucket] > 0 ? formatCurrency(group.buckets[bucket], report?.currency) : '—'}
+                                                    </td>
+                                                ))}
+                                                <td className="py-3 px-3 sm:px-4 text-right font-semibold text-slate-900 dark:text-white text-xs sm:text-sm">
+                                                    {formatCurrency(group.total, report?.currency)}
+                                                </td>
+                                            </tr>
+                                            {isExpanded && group.items.map(item => (
+                                                <tr key={item.appointmentId} className="bg-gray-50/60 dark:bg-gray-800/60">
+                                                    <td className="py-2 px-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selected.has(item.appointmentId)}
+                                                            onChange={e => toggleSelected([item.appointmentId], e.target.checked)}
+                                                            aria-label={t('receivables.selectItem')}
+                                                        />
+                                                    </td>
+                                                    <td colSpan={5} className="py-2 px-3 sm:px-4 text-xs sm:text-sm text-slate-600 dark:text-gray-300">
+                                                        <span className="font-medium text-slate-800 dark:text-gray-100">{formatDate(item.date)}</span>
+                                                        {' • '}{item.procedure}
+                                                        <Badge variant={BUCKET_BADGE[item.bucket]} className="ml-2">
+                                                            {item.ageDays} {t('receivables.days')}
+                                                        </Badge>
+                                                    </td>
+                                                    <td className="py-2 px-3 sm:px-4 text-right text-xs sm:text-sm text-slate-800 dark:text-gray-100">
+                                                        {formatCurrency(item.outstanding.amount, report?.currency)}
+                                                        {item.balance.currency !== report?.currency && (
+                                                            <span className="block text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">
+                                                                {formatCurrency(item.balance.amount, item.balance.currency)}
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </React.Fragment>
+                                    );
+                                })
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {report && report.missingRates.length > 0 && (
+                    <p className="text-xs sm:text-sm text-amber-700 dark:text-amber-400 mt-3">
+                        {t('reports.exchangeRatesMissing')}{' '}
+                        {report.missingRates.map(missing => `${missing.currency} (${formatDate(missing.date)})`).join(', ')}
+                    </p>
+                )}
+            </Card>
+        </div>
+    );
+};
+
+export default Receivables;
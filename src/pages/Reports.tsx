@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, ChangeEvent } from 'react';
+import React, { useState, useEffect, useRef, ChangeEvent, FormEvent } from 'react';
 import { Bar, Pie } from 'react-chartjs-2';
 import {
     Chart as ChartJS,
@@ -10,20 +10,47 @@ import {
     Legend,
     ArcElement,
 } from 'chart.js';
-import { Download, Calendar, Filter } from 'lucide-react';
+import { Download, Calendar, Filter, Receipt, Plus, Trash2, Square } from 'lucide-react';
 import jsPDF from 'jspdf';
 import Card from '../components/UI/Card';
 import Button from '../components/UI/Button';
 import Modal from '../components/UI/Modal';
 import Badge from '../components/UI/Badge';
 import DateInput from '../components/UI/DateInput';
+import Input from '../components/UI/Input';
 import { useLanguage } from '../context/LanguageContext';
 import { useDependencies } from '../hooks/useDependencies';
+import { useErrorHandler } from '../hooks/useErrorHandler';
 import { useCurrency } from '../context/CurrencyContext';
-import { calculateReceivedValue, formatDate, formatCurrency } from '../lib/utils';
+import { calculateReceivedValue, calculateReceivedMoney, sumAmounts, formatDate, formatCurrency } from '../lib/utils';
+import { formatAppliedRate } from '../lib/exchangeRates';
+import { ExpenseFormState, emptyExpenseForm, expenseFormToDTO } from '../lib/expenses';
+import { toISODate } from '../lib/calendar';
+import { extractArray } from '../lib/typeGuards';
 import { logger } from '../lib/logger';
 import { sanitizeText } from '../lib/sanitize';
 import { useToast } from '../components/UI/Toast';
+import {
+    CLINICAL_STATUSES,
+    CLINICAL_STATUS_BADGE,
+    PAYMENT_STATUS_BADGE,
+    ClinicalStatusFilter,
+    PaymentStatusFilter,
+    getClinicalStatus,
+    getPaymentStatus,
+    matchesStatusFilters
+} from '../lib/appointmentStatus';
+import type { ClinicalStatusValue } from '../domain/value-objects/ClinicalStatus';
+import type { PaymentStatusValue } from '../domain/value-objects/AppointmentStatus';
+import type { PatientAttendanceRow } from '../application/services/ReportsService';
+import type { PriceDivergence } from '../domain/services/PricingDomainService';
+import { ExchangeRateDomainService, type AppliedRate, type ConvertedTotal } from '../domain/services/ExchangeRateDomainService';
+import type { ExchangeRate } from '../domain/entities/ExchangeRate';
+import { Money, type Currency } from '../domain/value-objects/Money';
+import { EXPENSE_CATEGORIES, type ExpenseCategory } from '../domain/entities/Expense';
+import type { ExpenseOccurrence, ProfitReport, ProfitRow } from '../domain/services/ProfitDomainService';
+import type { MethodRevenueBreakdown } from '../domain/services/PaymentDomainService';
+import type { Clinic } from '../domain/entities/Clinic';
 
 ChartJS.register(
     CategoryScale,
@@ -36,16 +63,20 @@ ChartJS.register(
 );
 
 type PeriodType = 'month' | 'last_month' | 'custom';
+type ProfitGrouping = 'byMonth' | 'byClinic' | 'byProcedure';
 
 interface AppointmentData {
     id: string;
     date: string;
     payment_date?: string | null;
-    status: 'paid' | 'pending' | 'scheduled';
+    is_paid: boolean;
+    payment_status: PaymentStatusValue;
+    clinical_status: ClinicalStatusValue;
     value: string | number;
     currency?: string;
     payment_type?: string;
     payment_percentage?: number | null;
+    payment_fixed_amount?: number | null;
     patients?: {
         name?: string;
     } | null;
@@ -53,6 +84,17 @@ interface AppointmentData {
         id?: string;
         name?: string;
     } | null;
+    /** Valor recebido na moeda de relatório, pela cotação do dia do pagamento (0 sem cotação) */
+    received_value: number;
+    /** Valor do atendimento na moeda de relatório, pela cotação do dia do atendimento (0 sem cotação) */
+    reporting_value: number;
+    /** Cotação aplicada ao valor recebido (null = mesma moeda ou sem cotação) */
+    rate: AppliedRate | null;
+}
+
+interface PriceDivergenceRow extends PriceDivergence {
+    patientName: string | null;
+    clinicName: string | null;
 }
 
 interface ClinicStat {
@@ -95,15 +137,34 @@ const Reports: React.FC = () => {
     const { currency } = useCurrency();
     const container = useDependencies();
     const reportsService = container.resolve('reportsService');
-    const { showWarning } = useToast();
+    const procedurePriceService = container.resolve('procedurePriceService');
+    const exchangeRateService = container.resolve('exchangeRateService');
+    const expenseService = container.resolve('expenseService');
+    const clinicService = container.resolve('clinicService');
+    const paymentService = container.resolve('paymentService');
+    const { showWarning, showSuccess } = useToast();
+    const { handleError } = useErrorHandler();
     const [period, setPeriod] = useState<PeriodType>('month');
     const [isCustomPeriodOpen, setIsCustomPeriodOpen] = useState<boolean>(false);
     const [customStartDate, setCustomStartDate] = useState<string>('');
     const [customEndDate, setCustomEndDate] = useState<string>('');
     const [reportsData, setReportsData] = useState<AppointmentData[]>([]);
     const [clinicStats, setClinicStats] = useState<ClinicStat[]>([]);
+    const [attendance, setAttendance] = useState<PatientAttendanceRow[]>([]);
+    const [priceDivergences, setPriceDivergences] = useState<PriceDivergenceRow[]>([]);
+    const [conversion, setConversion] = useState<ConvertedTotal | null>(null);
+    const [profit, setProfit] = useState<ProfitReport | null>(null);
+    const [revenueByMethod, setRevenueByMethod] = useState<MethodRevenueBreakdown | null>(null);
+    const [profitGrouping, setProfitGrouping] = useState<ProfitGrouping>('byMonth');
+    const [expenses, setExpenses] = useState<ExpenseOccurrence[]>([]);
+    const [clinics, setClinics] = useState<Clinic[]>([]);
+    const [isExpensesOpen, setIsExpensesOpen] = useState<boolean>(false);
+    const [expenseForm, setExpenseForm] = useState<ExpenseFormState>(() => emptyExpenseForm(toISODate(new Date()), (currency || 'BRL') as Currency));
+    const [savingExpense, setSavingExpense] = useState<boolean>(false);
     const [loading, setLoading] = useState<boolean>(true);
     const [periodDropdownOpen, setPeriodDropdownOpen] = useState<boolean>(false);
+    const [paymentFilter, setPaymentFilter] = useState<PaymentStatusFilter>('all');
+    const [clinicalFilter, setClinicalFilter] = useState<ClinicalStatusFilter>('all');
     // ✅ Usar useRef para rastrear requisições em andamento sem bloquear o estado
     const isLoadingRef = useRef<boolean>(false);
     const [stats, setStats] = useState<Stats>({
@@ -148,7 +209,7 @@ const Reports: React.FC = () => {
             abortController.abort();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [period, customStartDate, customEndDate]);
+    }, [period, customStartDate, customEndDate, paymentFilter, clinicalFilter, currency]);
 
     const loadReportsData = async (): Promise<void> => {
         // ✅ Usar ref para evitar múltiplas chamadas simultâneas sem bloquear o estado
@@ -181,6 +242,8 @@ const Reports: React.FC = () => {
             }
 
             const appointments = await reportsService.getReportsData(startDate, endDate);
+            const rates: ExchangeRate[] = await exchangeRateService.getAll();
+            const reportingCurrency = currency as Currency;
 
             logger.debug('Reports - Appointments received', {
                 count: appointments.length,
@@ -194,7 +257,7 @@ const Reports: React.FC = () => {
             });
 
             // ✅ Converter entidades Appointment para AppointmentData
-            const data: AppointmentData[] = appointments.map((appointment: any) => {
+            const rows: Omit<AppointmentData, 'received_value' | 'reporting_value' | 'rate'>[] = appointments.map((appointment: any) => {
                 // Formatar data no formato YYYY-MM-DD
                 const formatDateToISO = (date: Date): string => {
                     const year = date.getFullYear();
@@ -207,21 +270,41 @@ const Reports: React.FC = () => {
                     id: appointment.id,
                     date: formatDateToISO(appointment.date),
                     payment_date: appointment.paymentDate ? formatDateToISO(appointment.paymentDate) : null,
-                    status: appointment.status.toString() as 'paid' | 'pending' | 'scheduled',
+                    is_paid: appointment.isPaid,
+                    payment_status: getPaymentStatus(appointment),
+                    clinical_status: getClinicalStatus(appointment),
                     value: appointment.value.amount,
                     currency: appointment.value.currency,
                     payment_type: appointment.paymentType.type,
                     payment_percentage: appointment.paymentType.percentage,
+                    payment_fixed_amount: appointment.paymentType.fixedAmount,
                     patients: appointment.patients ? { name: appointment.patients.name } : null,
                     clinics: appointment.clinics ? { id: appointment.clinics.id, name: appointment.clinics.name } : null
                 };
             });
 
-            // ✅ Filtrar dados por data do atendimento
-            const filteredData: AppointmentData[] = data.filter(a => a.date >= startDate && a.date <= endDate);
+            // ✅ Totais na moeda de relatório: recebido pela cotação do dia do pagamento,
+            // valor do atendimento pela cotação do dia do atendimento
+            const data: AppointmentData[] = rows.map(row => {
+                const received = ExchangeRateDomainService.convert(calculateReceivedMoney(row), reportingCurrency, row.payment_date || row.date, rates);
+                const total = ExchangeRateDomainService.convert(Money.create(Number(row.value) || 0, row.currency as Currency), reportingCurrency, row.date, rates);
+                return {
+                    ...row,
+                    received_value: received?.money.amount ?? 0,
+                    reporting_value: total?.money.amount ?? 0,
+                    rate: received && received.rate.fromCurrency !== reportingCurrency ? received.rate : null
+                };
+            });
+
+            // ✅ Filtrar dados por data do atendimento e pelos status selecionados
+            const filteredData: AppointmentData[] = data.filter(a =>
+                a.date >= startDate &&
+                a.date <= endDate &&
+                matchesStatusFilters(a, paymentFilter, clinicalFilter)
+            );
 
-            const paidAppointments = filteredData.filter(a => a.status === 'paid');
-            const totalRevenue = paidAppointments.reduce((sum, a) => sum + calculateReceivedValue(a), 0);
+            const paidAppointments = filteredData.filter(a => a.payment_status === 'paid');
+            const totalRevenue = sumAmounts(paidAppointments.map(a => a.received_value));
             const totalAppointments = filteredData.length;
             const ticketMedio = totalAppointments > 0 ? totalRevenue / totalAppointments : 0;
 
@@ -250,8 +333,8 @@ const Reports: React.FC = () => {
                 }
                 
                 clinicMap[clinicId].appointments++;
-                if (apt.status === 'paid') {
-                    clinicMap[clinicId].revenue += calculateReceivedValue(apt);
+                if (apt.payment_status === 'paid') {
+                    clinicMap[clinicId].revenue = sumAmounts([clinicMap[clinicId].revenue, apt.received_value]);
                     clinicMap[clinicId].paid++;
                 }
             });
@@ -265,6 +348,36 @@ const Reports: React.FC = () => {
             
             setClinicStats(calculatedClinicStats);
             setReportsData(filteredData);
+            // Cotações usadas nos totais (recebidos e pendentes) e valores sem cotação
+            setConversion(ExchangeRateDomainService.convertTotal(
+                filteredData
+                    .filter(a => a.payment_status === 'paid' || a.clinical_status !== 'cancelled')
+                    .map(a => a.payment_status === 'paid'
+                        ? { money: calculateReceivedMoney(a), date: a.payment_date || a.date }
+                        : { money: Money.create(Number(a.value) || 0, a.currency as Currency), date: a.date }),
+                reportingCurrency,
+                rates
+            ));
+            setAttendance(await reportsService.getAttendanceReport(startDate, endDate));
+
+            const [profitReport, expenseOccurrences, clinicsResult, methodBreakdown] = await Promise.all([
+                expenseService.getNetProfit(startDate, endDate, reportingCurrency),
+                expenseService.getOccurrences(startDate, endDate),
+                clinicService.getAll(),
+                paymentService.getRevenueByMethod(startDate, endDate, reportingCurrency)
+            ]);
+            setProfit(profitReport);
+            setRevenueByMethod(methodBreakdown);
+            setExpenses(expenseOccurrences);
+            setClinics(extractArray<Clinic>(clinicsResult));
+
+            const dataById = new Map(data.map(a => [a.id, a]));
+            const divergences: PriceDivergence[] = await procedurePriceService.getDivergences(startDate, endDate);
+            setPriceDivergences(divergences.map(divergence => ({
+                ...divergence,
+                patientName: dataById.get(divergence.appointment.id)?.patients?.name ?? null,
+                clinicName: dataById.get(divergence.appointment.id)?.clinics?.name ?? null
+            })));
         } catch (error) {
             logger.error(error, { context: 'loadReportsData' });
         } finally {
@@ -273,6 +386,59 @@ const Reports: React.FC = () => {
         }
     };
 
+    const handleSaveExpense = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+        e.preventDefault();
+
+        try {
+            setSavingExpense(true);
+            await expenseService.create(expenseFormToDTO(expenseForm));
+            showSuccess(t('reports.expenseSaved'));
+            setExpenseForm(emptyExpenseForm(expenseForm.date, expenseForm.currency));
+            await loadReportsData();
+        } catch (error) {
+            logger.error(error, { context: 'saveExpense' });
+            handleError(error, 'Reports.saveExpense');
+        } finally {
+            setSavingExpense(false);
+        }
+    };
+
+    const handleEndExpenseRecurrence = async (occurrence: ExpenseOccurrence): Promise<void> => {
+        if (!window.confirm(t('reports.expenseEndRecurrenceConfirm'))) return;
+
+        try {
+            await expenseService.endRecurrence(occurrence.expense.id, { untilDate: occurrence.date });
+            await loadReportsData();
+        } catch (error) {
+            logger.error(error, { context: 'endExpenseRecurrence' });
+            handleError(error, 'Reports.endExpenseRecurrence');
+        }
+    };
+
+    const handleDeleteExpense = async (occurrence: ExpenseOccurrence): Promise<void> => {
+        const message = occurrence.expense.isRecurring ? t('reports.expenseDeleteRecurringConfirm') : t('reports.expenseDeleteConfirm');
+        if (!window.confirm(message)) return;
+
+        try {
+            await expenseService.delete(occurrence.expense.id);
+            await loadReportsData();
+        } catch (error) {
+            logger.error(error, { context: 'deleteExpense' });
+            handleError(error, 'Reports.deleteExpense');
+        }
+    };
+
+    const profitRowLabel = (row: ProfitRow): string => {
+        if (profitGrouping === 'byMonth') {
+            const [year, month] = row.key.split('-');
+            return `${month}/${year}`;
+        }
+        if (profitGrouping === 'byClinic') {
+            return row.key ? (clinics.find(clinic => clinic.id === row.key)?.name ?? t('reports.profitUnknownClinic')) : t('reports.profitNoClinic');
+        }
+        return row.key ? row.label : t('reports.profitNoProcedure');
+    };
+
     const getBarData = (): BarChartData => {
         const monthMap: MonthMap = {};
         reportsData.forEach(apt => {
@@ -289,11 +455,10 @@ const Reports: React.FC = () => {
                     monthMap[month] = { received: 0, pending: 0 };
                 }
                 
-                if (apt.status === 'paid') {
-                    monthMap[month].received += calculateReceivedValue(apt);
-                } else if (apt.status === 'pending' || apt.status === 'scheduled') {
-                    const totalValue = parseFloat(String(apt.value || 0));
-                    monthMap[month].pending += totalValue;
+                if (apt.payment_status === 'paid') {
+                    monthMap[month].received = sumAmounts([monthMap[month].received, apt.received_value]);
+                } else if (apt.clinical_status !== 'cancelled') {
+                    monthMap[month].pending = sumAmounts([monthMap[month].pending, apt.reporting_value]);
                 }
             }
         });
@@ -328,7 +493,7 @@ const Reports: React.FC = () => {
         ],
     };
 
-    const totalRevenue = clinicStats.reduce((sum, c) => sum + c.revenue, 0);
+    const totalRevenue = sumAmounts(clinicStats.map(c => c.revenue));
     const pieData = {
         labels: clinicStats.map(c => c.name),
         datasets: [
@@ -434,6 +599,20 @@ const Reports: React.FC = () => {
         doc.text(`Total de Atendimentos: ${stats.totalAppointments}`, 20, 65);
         
         let y = 80;
+        if (conversion && conversion.ratesUsed.length > 0) {
+            doc.text('Cotações usadas:', 20, y);
+            y += 10;
+            conversion.ratesUsed.forEach(rate => {
+                if (y > 270) {
+                    doc.addPage();
+                    y = 20;
+                }
+                doc.text(formatAppliedRate(rate), 25, y);
+                y += 8;
+            });
+            y += 5;
+        }
+
         doc.text('Distribuição por Clínica:', 20, y);
         y += 10;
         clinicStats.forEach((clinic, i) => {
@@ -446,6 +625,25 @@ const Reports: React.FC = () => {
             y += 8;
         });
         
+        if (revenueByMethod && revenueByMethod.rows.length > 0) {
+            y += 5;
+            if (y > 270) {
+                doc.addPage();
+                y = 20;
+            }
+            doc.text('Recebimentos por Forma de Pagamento:', 20, y);
+            y += 10;
+            revenueByMethod.rows.forEach(row => {
+                if (y > 270) {
+                    doc.addPage();
+                    y = 20;
+                }
+                const method = row.method ? t(`appointments.paymentMethods.${row.method}`) : 'Não informada';
+                doc.text(`${method}: ${formatCurrency(row.gross, revenueByMethod.currency)} - taxas ${formatCurrency(row.fees, revenueByMethod.currency)} = ${formatCurrency(row.net, revenueByMethod.currency)}`, 25, y);
+                y += 8;
+            });
+        }
+
         y += 5;
         if (y > 270) {
             doc.addPage();
@@ -523,6 +721,29 @@ const Reports: React.FC = () => {
                             )}
                         </div>
 
+                        <select
+                            value={paymentFilter}
+                            onChange={(e) => setPaymentFilter(e.target.value as PaymentStatusFilter)}
+                            aria-label={t('appointments.paymentStatus')}
+                            className="w-full sm:w-auto px-3 py-2.5 sm:py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white text-sm sm:text-base min-h-[44px] focus:outline-none focus:ring-2 focus:ring-white/50 [&>option]:text-slate-900"
+                        >
+                            <option value="all">{t('appointments.allPaymentStatuses')}</option>
+                            <option value="pending">{t('appointments.pending')}</option>
+                            <option value="partial">{t('appointments.partial')}</option>
+                            <option value="paid">{t('appointments.paid')}</option>
+                        </select>
+                        <select
+                            value={clinicalFilter}
+                            onChange={(e) => setClinicalFilter(e.target.value as ClinicalStatusFilter)}
+                            aria-label={t('appointments.clinicalStatus')}
+                            className="w-full sm:w-auto px-3 py-2.5 sm:py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white text-sm sm:text-base min-h-[44px] focus:outline-none focus:ring-2 focus:ring-white/50 [&>option]:text-slate-900"
+                        >
+                            <option value="all">{t('appointments.allClinicalStatuses')}</option>
+                            {CLINICAL_STATUSES.map(status => (
+                                <option key={status} value={status}>{t(`appointments.clinicalStatuses.${status}`)}</option>
+                            ))}
+                        </select>
+
                         <Button 
                             onClick={handleExportPDF} 
                             className="bg-white text-sky-600 hover:bg-gray-50 shadow-lg gap-2 w-full sm:w-auto text-sm sm:text-base"
@@ -571,6 +792,26 @@ const Reports: React.FC = () => {
                 </Card>
             </div>
 
+            {conversion && (conversion.ratesUsed.length > 0 || conversion.missing.length > 0) && (
+                <Card className="p-4 sm:p-6">
+                    <div className="mb-3">
+                        <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-1">{t('reports.exchangeRatesTitle')}</h3>
+                        <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('reports.exchangeRatesSubtitle')} {currency}</p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {conversion.ratesUsed.map(rate => (
+                            <Badge key={`${rate.fromCurrency}-${rate.date}`} variant="primary">{formatAppliedRate(rate)}</Badge>
+                        ))}
+                    </div>
+                    {conversion.missing.length > 0 && (
+                        <p className="text-xs sm:text-sm text-amber-700 dark:text-amber-400 mt-3">
+                            {t('reports.exchangeRatesMissing')}{' '}
+                            {conversion.missing.map(missing => `${missing.currency} (${formatDate(missing.date)})`).join(', ')}
+                        </p>
+                    )}
+                </Card>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
                 <Card className="p-4 sm:p-6">
                     <div className="mb-3 sm:mb-4">
@@ -624,9 +865,14 @@ const Reports: React.FC = () => {
                                         <td className="py-3 px-3 sm:px-4 font-medium text-slate-900 dark:text-white text-xs sm:text-sm">{sanitizeText(appointment.patients?.name) || 'Sem paciente'}</td>
                                         <td className="py-3 px-3 sm:px-4 text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{sanitizeText(appointment.clinics?.name) || 'Sem clínica'}</td>
                                         <td className="py-3 px-3 sm:px-4">
-                                            {appointment.status === 'paid' && <Badge variant="success">Pago</Badge>}
-                                            {appointment.status === 'pending' && <Badge variant="warning">Pendente</Badge>}
-                                            {appointment.status === 'scheduled' && <Badge variant="primary">Agendado</Badge>}
+                                            <div className="flex flex-wrap gap-1">
+                                                <Badge variant={CLINICAL_STATUS_BADGE[appointment.clinical_status]}>
+                                                    {t(`appointments.clinicalStatuses.${appointment.clinical_status}`)}
+                                                </Badge>
+                                                <Badge variant={PAYMENT_STATUS_BADGE[appointment.payment_status]}>
+                                                    {t(`appointments.${appointment.payment_status}`)}
+                                                </Badge>
+                                            </div>
                                         </td>
                                         <td className="py-3 px-3 sm:px-4 text-right">
                                             <div className="flex flex-col items-end">
@@ -638,6 +884,16 @@ const Reports: React.FC = () => {
                                                         Recebido: {formatCurrency(calculateReceivedValue(appointment), appointment.currency || currency)} ({appointment.payment_percentage}%)
                                                     </span>
                                                 )}
+                                                {appointment.payment_type === 'fixed' && (
+                                                    <span className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">
+                                                        Recebido: {formatCurrency(calculateReceivedValue(appointment), appointment.currency || currency)} ({t('appointments.fixedAmount')})
+                                                    </span>
+                                                )}
+                                                {appointment.rate && (
+                                                    <span className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">
+                                                        ≈ {formatCurrency(appointment.received_value, currency)} · {formatAppliedRate(appointment.rate)}
+                                                    </span>
+                                                )}
                                             </div>
                                         </td>
                                     </tr>
@@ -648,6 +904,236 @@ const Reports: React.FC = () => {
                 </div>
             </Card>
 
+            <Card className="p-4 sm:p-6">
+                <div className="mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-1">{t('reports.attendanceTitle')}</h3>
+                    <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('reports.attendanceSubtitle')}</p>
+                </div>
+                <div className="overflow-x-auto -mx-2 sm:mx-0">
+                    <table className="w-full text-left min-w-[640px] sm:min-w-0">
+                        <thead>
+                            <tr className="border-b border-gray-100 dark:border-gray-700">
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">{t('reports.attendancePatient')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.attendanceTotal')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.attendanceNoShows')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.attendanceLateCancellations')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.attendanceFees')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50 dark:divide-gray-700">
+                            {attendance.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="py-8 text-center text-gray-500 dark:text-gray-400">{t('reports.attendanceEmpty')}</td>
+                                </tr>
+                            ) : (
+                                attendance.map((row) => (
+                                    <tr key={row.patientId} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                                        <td className="py-3 px-3 sm:px-4 font-medium text-slate-900 dark:text-white text-xs sm:text-sm">{row.patientName ? sanitizeText(row.patientName) : 'Sem paciente'}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{row.total}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{row.noShows}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">
+                                            {row.lateCancellations} / {row.cancellations}
+                                        </td>
+                                        <td className="py-3 px-3 sm:px-4 text-right font-semibold text-slate-900 dark:text-white text-xs sm:text-sm">
+                                            {formatCurrency(row.cancellationFees, currency)}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <Card className="p-4 sm:p-6">
+                <div className="mb-3 sm:mb-4 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                    <div>
+                        <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-1">{t('reports.profitTitle')}</h3>
+                        <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('reports.profitSubtitle')}</p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {(['byMonth', 'byClinic', 'byProcedure'] as ProfitGrouping[]).map(grouping => (
+                            <Button
+                                key={grouping}
+                                variant={profitGrouping === grouping ? 'primary' : 'secondary'}
+                                onClick={() => setProfitGrouping(grouping)}
+                                className="text-xs sm:text-sm"
+                            >
+                                {t(`reports.profit_${grouping}`)}
+                            </Button>
+                        ))}
+                        <Button variant="secondary" onClick={() => setIsExpensesOpen(true)} className="gap-2 text-xs sm:text-sm">
+                            <Receipt size={16} />
+                            {t('reports.expenses')}
+                        </Button>
+                    </div>
+                </div>
+                {profit && (
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                        <div className="rounded-xl bg-emerald-50 dark:bg-emerald-900/20 p-3">
+                            <p className="text-xs text-emerald-700 dark:text-emerald-300">{t('reports.profitRevenue')}</p>
+                            <p className="font-bold text-emerald-900 dark:text-emerald-100">{formatCurrency(profit.totals.revenue, profit.currency)}</p>
+                        </div>
+                        <div className="rounded-xl bg-rose-50 dark:bg-rose-900/20 p-3">
+                            <p className="text-xs text-rose-700 dark:text-rose-300">{t('reports.profitExpenses')}</p>
+                            <p className="font-bold text-rose-900 dark:text-rose-100">{formatCurrency(profit.totals.expenses, profit.currency)}</p>
+                        </div>
+                        <div className="rounded-xl bg-sky-50 dark:bg-sky-900/20 p-3">
+                            <p className="text-xs text-sky-700 dark:text-sky-300">{t('reports.profitNet')}</p>
+                            <p className={`font-bold ${profit.totals.net < 0 ? 'text-rose-600' : 'text-sky-900 dark:text-sky-100'}`}>
+                                {profit.totals.net < 0 ? '-' : ''}{formatCurrency(Math.abs(profit.totals.net), profit.currency)}
+                            </p>
+                        </div>
+                    </div>
+                )}
+                <div className="overflow-x-auto -mx-2 sm:mx-0">
+                    <table className="w-full text-left min-w-[560px] sm:min-w-0">
+                        <thead>
+                            <tr className="border-b border-gray-100 dark:border-gray-700">
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">{t(`reports.profit_${profitGrouping}`)}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.profitRevenue')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.profitExpenses')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.profitNet')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50 dark:divide-gray-700">
+                            {!profit || profit[profitGrouping].length === 0 ? (
+                                <tr>
+                                    <td colSpan={4} className="py-8 text-center text-gray-500 dark:text-gray-400">{t('reports.profitEmpty')}</td>
+                                </tr>
+                            ) : (
+                                profit[profitGrouping].map(row => (
+                                    <tr key={row.key || 'none'} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                                        <td className="py-3 px-3 sm:px-4 font-medium text-slate-900 dark:text-white text-xs sm:text-sm">{sanitizeText(profitRowLabel(row))}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{formatCurrency(row.revenue, profit.currency)}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{formatCurrency(row.expenses, profit.currency)}</td>
+                                        <td className={`py-3 px-3 sm:px-4 text-right font-semibold text-xs sm:text-sm ${row.net < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                                            {row.net < 0 ? '-' : ''}{formatCurrency(Math.abs(row.net), profit.currency)}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {profit && profit.missingRates.length > 0 && (
+                    <p className="text-xs sm:text-sm text-amber-700 dark:text-amber-400 mt-3">
+                        {t('reports.exchangeRatesMissing')}{' '}
+                        {profit.missingRates.map(missing => `${missing.currency} (${formatDate(missing.date)})`).join(', ')}
+                    </p>
+                )}
+            </Card>
+
+            <Card className="p-4 sm:p-6">
+                <div className="mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-1">{t('reports.byMethodTitle')}</h3>
+                    <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('reports.byMethodSubtitle')}</p>
+                </div>
+                <div className="overflow-x-auto -mx-2 sm:mx-0">
+                    <table className="w-full text-left min-w-[640px] sm:min-w-0">
+                        <thead>
+                            <tr className="border-b border-gray-100 dark:border-gray-700">
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">{t('reports.byMethodMethod')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.byMethodGross')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.byMethodFees')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.byMethodNet')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.byMethodToSettle')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50 dark:divide-gray-700">
+                            {!revenueByMethod || revenueByMethod.rows.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="py-8 text-center text-gray-500 dark:text-gray-400">{t('reports.byMethodEmpty')}</td>
+                                </tr>
+                            ) : (
+                                revenueByMethod.rows.map(row => (
+                                    <tr key={row.method ?? 'none'} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                                        <td className="py-3 px-3 sm:px-4 font-medium text-slate-900 dark:text-white text-xs sm:text-sm">
+                                            {row.method ? t(`appointments.paymentMethods.${row.method}`) : t('reports.byMethodUnknown')}
+                                            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-gray-400">({row.count})</span>
+                                        </td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{formatCurrency(row.gross, revenueByMethod.currency)}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-rose-600 text-xs sm:text-sm">{formatCurrency(row.fees, revenueByMethod.currency)}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right font-semibold text-emerald-600 text-xs sm:text-sm">{formatCurrency(row.net, revenueByMethod.currency)}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">
+                                            {row.toSettle > 0 ? formatCurrency(row.toSettle, revenueByMethod.currency) : '—'}
+                                            {row.nextSettlementDate && (
+                                                <span className="block text-[10px] sm:text-xs text-slate-500 dark:text-gray-400">{t('reports.byMethodNext')} {formatDate(row.nextSettlementDate)}</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                        {revenueByMethod && revenueByMethod.rows.length > 0 && (
+                            <tfoot>
+                                <tr className="border-t border-gray-200 dark:border-gray-600 font-semibold text-xs sm:text-sm">
+                                    <td className="py-3 px-3 sm:px-4 text-slate-900 dark:text-white">{t('reports.byMethodTotal')}</td>
+                                    <td className="py-3 px-3 sm:px-4 text-right text-slate-900 dark:text-white">{formatCurrency(revenueByMethod.totals.gross, revenueByMethod.currency)}</td>
+                                    <td className="py-3 px-3 sm:px-4 text-right text-rose-600">{formatCurrency(revenueByMethod.totals.fees, revenueByMethod.currency)}</td>
+                                    <td className="py-3 px-3 sm:px-4 text-right text-emerald-600">{formatCurrency(revenueByMethod.totals.net, revenueByMethod.currency)}</td>
+                                    <td className="py-3 px-3 sm:px-4 text-right text-slate-900 dark:text-white">{formatCurrency(revenueByMethod.totals.toSettle, revenueByMethod.currency)}</td>
+                                </tr>
+                            </tfoot>
+                        )}
+                    </table>
+                </div>
+                {revenueByMethod && revenueByMethod.missingRates.length > 0 && (
+                    <p className="text-xs sm:text-sm text-amber-700 dark:text-amber-400 mt-3">
+                        {t('reports.exchangeRatesMissing')}{' '}
+                        {revenueByMethod.missingRates.map(missing => `${missing.currency} (${formatDate(missing.date)})`).join(', ')}
+                    </p>
+                )}
+            </Card>
+
+            <Card className="p-4 sm:p-6">
+                <div className="mb-3 sm:mb-4">
+                    <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-1">{t('reports.priceDivergenceTitle')}</h3>
+                    <p className="text-xs sm:text-sm text-slate-500 dark:text-gray-400">{t('reports.priceDivergenceSubtitle')}</p>
+                </div>
+                <div className="overflow-x-auto -mx-2 sm:mx-0">
+                    <table className="w-full text-left min-w-[720px] sm:min-w-0">
+                        <thead>
+                            <tr className="border-b border-gray-100 dark:border-gray-700">
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">{t('reports.priceDivergenceDate')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">{t('reports.attendancePatient')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-xs sm:text-sm">{t('reports.priceDivergenceProcedure')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.priceDivergenceListPrice')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.priceDivergenceCharged')}</th>
+                                <th className="pb-3 px-3 sm:px-4 font-semibold text-slate-700 dark:text-gray-200 text-right text-xs sm:text-sm">{t('reports.priceDivergenceDifference')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50 dark:divide-gray-700">
+                            {priceDivergences.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="py-8 text-center text-gray-500 dark:text-gray-400">{t('reports.priceDivergenceEmpty')}</td>
+                                </tr>
+                            ) : (
+                                priceDivergences.map((row) => (
+                                    <tr key={row.appointment.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                                        <td className="py-3 px-3 sm:px-4 text-slate-600 dark:text-gray-300 text-xs sm:text-sm">{formatDate(row.appointment.dateString)}</td>
+                                        <td className="py-3 px-3 sm:px-4 font-medium text-slate-900 dark:text-white text-xs sm:text-sm">{row.patientName ? sanitizeText(row.patientName) : 'Sem paciente'}</td>
+                                        <td className="py-3 px-3 sm:px-4 text-slate-600 dark:text-gray-300 text-xs sm:text-sm">
+                                            {sanitizeText(row.appointment.procedure)}
+                                            {row.clinicName && <span className="block text-slate-400 dark:text-gray-500">{sanitizeText(row.clinicName)}</span>}
+                                        </td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">
+                                            {formatCurrency(row.price.price.amount, row.price.price.currency)}
+                                        </td>
+                                        <td className="py-3 px-3 sm:px-4 text-right text-slate-600 dark:text-gray-300 text-xs sm:text-sm">
+                                            {formatCurrency(row.appointment.value.amount, row.appointment.value.currency)}
+                                        </td>
+                                        <td className={`py-3 px-3 sm:px-4 text-right font-semibold text-xs sm:text-sm ${row.difference < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                                            {row.difference > 0 ? '+' : '-'}{formatCurrency(Math.abs(row.difference), row.price.price.currency)}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
             <Modal
                 isOpen={isCustomPeriodOpen}
                 onClose={() => setIsCustomPeriodOpen(false)}
@@ -712,6 +1198,162 @@ const Reports: React.FC = () => {
                     </div>
                 </div>
             </Modal>
+
+            <Modal
+                isOpen={isExpensesOpen}
+                onClose={() => setIsExpensesOpen(false)}
+                title={t('reports.expenses')}
+                size="lg"
+            >
+                <div className="space-y-6">
+                    <form onSubmit={handleSaveExpense} className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('reports.expenseCategory')}</label>
+                                <select
+                                    className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                    value={expenseForm.category}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, category: e.target.value as ExpenseCategory })}
+                                >
+                                    {EXPENSE_CATEGORIES.map(category => (
+                                        <option key={category} value={category}>{t(`reports.expenseCategories.${category}`)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <Input
+                                label={t('reports.expenseDescription')}
+                                required
+                                maxLength={200}
+                                value={expenseForm.description}
+                                onChange={(e) => setExpenseForm({ ...expenseForm, description: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            <Input
+                                label={t('reports.expenseAmount')}
+                                type="number"
+                                min="0.01"
+                                step="0.01"
+                                required
+                                value={expenseForm.amount}
+                                onChange={(e) => setExpenseForm({ ...expenseForm, amount: e.target.value })}
+                            />
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('reports.expenseCurrency')}</label>
+                                <select
+                                    className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                    value={expenseForm.currency}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, currency: e.target.value as Currency })}
+                                >
+                                    <option value="BRL">Real (R$)</option>
+                                    <option value="USD">Dólar ($)</option>
+                                    <option value="EUR">Euro (€)</option>
+                                </select>
+                            </div>
+                            <DateInput
+                                label={t('reports.expenseDate')}
+                                value={expenseForm.date}
+                                onChange={(e) => setExpenseForm({ ...expenseForm, date: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('reports.expenseClinic')}</label>
+                                <select
+                                    className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                    value={expenseForm.clinicId}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, clinicId: e.target.value })}
+                                >
+                                    <option value="">{t('reports.profitNoClinic')}</option>
+                                    {clinics.map(clinic => (
+                                        <option key={clinic.id} value={clinic.id}>{clinic.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <Input
+                                label={t('reports.expenseProcedure')}
+                                maxLength={200}
+                                value={expenseForm.procedure}
+                                onChange={(e) => setExpenseForm({ ...expenseForm, procedure: e.target.value })}
+                            />
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">{t('reports.expenseRecurrence')}</label>
+                                <select
+                                    className="w-full px-4 py-3 bg-white dark:bg-gray-800 text-slate-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-4 focus:ring-sky-500/10 focus:border-sky-500 transition-all"
+                                    value={expenseForm.recurrence}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, recurrence: e.target.value as ExpenseFormState['recurrence'] })}
+                                >
+                                    <option value="">{t('reports.expenseOneOff')}</option>
+                                    <option value="weekly">{t('reports.expenseWeekly')}</option>
+                                    <option value="monthly">{t('reports.expenseMonthly')}</option>
+                                </select>
+                            </div>
+                            {expenseForm.recurrence && (
+                                <DateInput
+                                    label={t('reports.expenseRecurrenceUntil')}
+                                    value={expenseForm.recurrenceUntil}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, recurrenceUntil: e.target.value })}
+                                />
+                            )}
+                        </div>
+                        <div className="flex justify-end">
+                            <Button type="submit" disabled={savingExpense || !expenseForm.description.trim() || !expenseForm.amount || !expenseForm.date}>
+                                <Plus size={16} />
+                                {t('reports.expenseAdd')}
+                            </Button>
+                        </div>
+                    </form>
+
+                    {expenses.length > 0 ? (
+                        <div className="space-y-2">
+                            {expenses.map(occurrence => (
+                                <div key={`${occurrence.expense.id}-${occurrence.date}`} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-gray-200 dark:border-gray-700 p-3">
+                                    <div className="space-y-0.5">
+                                        <p className="font-semibold text-slate-900 dark:text-white">
+                                            {sanitizeText(occurrence.expense.description)}
+                                            <span className="ml-2 font-normal text-slate-600 dark:text-gray-300">{formatCurrency(occurrence.expense.amount.amount, occurrence.expense.amount.currency)}</span>
+                                        </p>
+                                        <p className="text-xs text-slate-500 dark:text-gray-400">
+                                            {formatDate(occurrence.date)} • {t(`reports.expenseCategories.${occurrence.expense.category}`)}
+                                            {occurrence.expense.clinicId ? ` • ${sanitizeText(clinics.find(clinic => clinic.id === occurrence.expense.clinicId)?.name ?? '')}` : ''}
+                                            {occurrence.expense.procedure ? ` • ${sanitizeText(occurrence.expense.procedure)}` : ''}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {occurrence.expense.isRecurring && (
+                                            <Badge variant="primary">
+                                                {occurrence.expense.recurrence === 'weekly' ? t('reports.expenseWeekly') : t('reports.expenseMonthly')}
+                                            </Badge>
+                                        )}
+                                        {occurrence.expense.isRecurring && occurrence.expense.recurrenceUntil !== occurrence.date && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleEndExpenseRecurrence(occurrence)}
+                                                className="p-2 text-gray-400 hover:text-amber-600 rounded-lg hover:bg-amber-50 transition-colors"
+                                                title={t('reports.expenseEndRecurrence')}
+                                            >
+                                                <Square size={16} />
+                                            </button>
+                                        )}
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDeleteExpense(occurrence)}
+                                            className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                                            title={t('common.delete')}
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-slate-500 dark:text-gray-400 italic">{t('reports.expensesEmpty')}</p>
+                    )}
+                </div>
+            </Modal>
         </div>
     );
 };
@@ -6,7 +6,7 @@ import { ErrorHandler } from '../infrastructure/errorHandling/ErrorHandler';
 import { NotFoundError, ValidationError } from '../domain/errors/AppError';
 import { CacheService } from '../infrastructure/cache/CacheService';
 import { DatabaseAdapter } from '../infrastructure/database/DatabaseAdapter';
-import { calculateReceivedValue } from '../lib/utils';
+import { calculateReceivedValue, sumAmounts } from '../lib/utils';
 import { Clinic } from '../domain/entities/Clinic';
 import { IClinicService } from './interfaces/IClinicService';
 import { validateCreateClinicDTO } from '../application/dto/validators';
@@ -228,14 +228,14 @@ export class ClinicService implements IClinicService {
 
             // ✅ Usar DatabaseAdapter ao invés de import direto
             const appointments = await this.db.table('appointments')
-                .select('value, status, payment_type, payment_percentage')
+                .select('value, status, payment_type, payment_percentage, payment_fixed_amount')
                 .where('clinic_id', clinicId)
-                .execute<Array<{ value?: number; status?: string; payment_type?: string; payment_percentage?: number }>>();
+                .execute<Array<{ value?: number; status?: string; payment_type?: string; payment_percentage?: number; payment_fixed_amount?: number | null }>>();
 
             const appointmentsArray = Array.isArray(appointments) ? appointments : [];
-            const totalValue = appointmentsArray.reduce((sum, a) => sum + parseFloat(String(a.value || 0)), 0);
+            const totalValue = sumAmounts(appointmentsArray.map(a => parseFloat(String(a.value || 0))));
             const paidAppointments = appointmentsArray.filter(a => a.status === 'paid');
-            const revenue = paidAppointments.reduce((sum, a) => sum + calculateReceivedValue(a as { value?: number; payment_type?: string; payment_percentage?: number }), 0);
+            const revenue = sumAmounts(paidAppointments.map(a => calculateReceivedValue(a as { value?: number; payment_type?: string; payment_percentage?: number; payment_fixed_amount?: number | null })));
             const ticket = appointmentsArray.length > 0 ? totalValue / appointmentsArray.length : 0;
 
             return {
@@ -260,9 +260,9 @@ export class ClinicService implements IClinicService {
 
             // ✅ Query única para todas as clínicas usando DatabaseAdapter
             const data = await this.db.table('appointments')
-                .select('clinic_id, value, status, payment_type, payment_percentage')
+                .select('clinic_id, value, status, payment_type, payment_percentage, payment_fixed_amount')
                 .whereIn('clinic_id', clinicIds)
-                .execute<Array<{ clinic_id?: string; value?: number; status?: string; payment_type?: string; payment_percentage?: number }>>();
+                .execute<Array<{ clinic_id?: string; value?: number; status?: string; payment_type?: string; payment_percentage?: number; payment_fixed_amount?: number | null }>>();
 
             // Inicializar mapa com zeros
             const statsMap: Record<string, ClinicStats> = {};
@@ -271,7 +271,7 @@ export class ClinicService implements IClinicService {
             });
 
             // Agrupar por clínica
-            const appointmentsByClinic: Record<string, Array<{ value?: number; status?: string; payment_type?: string; payment_percentage?: number }>> = {};
+            const appointmentsByClinic: Record<string, Array<{ value?: number; status?: string; payment_type?: string; payment_percentage?: number; payment_fixed_amount?: number | null }>> = {};
             const appointmentsArray = Array.isArray(data) ? data : [];
             appointmentsArray.forEach(apt => {
                 const clinicId = apt.clinic_id as string;
@@ -284,9 +284,9 @@ export class ClinicService implements IClinicService {
             // Calcular estatísticas para cada clínica
             Object.keys(appointmentsByClinic).forEach(clinicId => {
                 const appointments = appointmentsByClinic[clinicId];
-                const totalValue = appointments.reduce((sum, a) => sum + parseFloat(String(a.value || 0)), 0);
+                const totalValue = sumAmounts(appointments.map(a => parseFloat(String(a.value || 0))));
                 const paidAppointments = appointments.filter(a => a.status === 'paid');
-                const revenue = paidAppointments.reduce((sum, a) => sum + calculateReceivedValue(a as { value?: number; payment_type?: string; payment_percentage?: number }), 0);
+                const revenue = sumAmounts(paidAppointments.map(a => calculateReceivedValue(a as { value?: number; payment_type?: string; payment_percentage?: number; payment_fixed_amount?: number | null })));
                 const ticket = appointments.length > 0 ? totalValue / appointments.length : 0;
 
                 statsMap[clinicId] = {
@@ -79,14 +79,27 @@ begin
                     case 
                         when payment_type = 'percentage' and payment_percentage is not null 
                         then value * (payment_percentage / 100.0)
+                        when payment_type = 'fixed' and payment_fixed_amount is not null 
+                        then least(value, payment_fixed_amount)
                         else value
                     end
+                -- Pagamentos parciais já recebidos
+                when status = 'pending' then
+                    case 
+                        when payment_type = 'percentage' and payment_percentage is not null 
+                        then coalesce(amount_paid, 0) * (payment_percentage / 100.0)
+                        -- Valor fixo: proporcional ao que já foi pago
+                        when payment_type = 'fixed' and payment_fixed_amount is not null and value > 0 
+                        then coalesce(amount_paid, 0) * (least(value, payment_fixed_amount) / value)
+                        else coalesce(amount_paid, 0)
+                    end
                 else 0
             end
         ), 0)::numeric,
         'pending', coalesce(sum(
             case 
-                when status in ('pending', 'scheduled') then value
+                -- Saldo devedor (valor menos o que já foi pago)
+                when status in ('pending', 'scheduled') then greatest(value - coalesce(amount_paid, 0), 0)
                 else 0
             end
         ), 0)::numeric,
@@ -96,9 +109,20 @@ begin
                     case 
                         when payment_type = 'percentage' and payment_percentage is not null 
                         then value * (payment_percentage / 100.0)
+                        when payment_type = 'fixed' and payment_fixed_amount is not null 
+                        then least(value, payment_fixed_amount)
                         else value
                     end
-                when status in ('pending', 'scheduled') then value
+                when status in ('pending', 'scheduled') then
+                    greatest(value - coalesce(amount_paid, 0), 0) +
+                    case 
+                        when payment_type = 'percentage' and payment_percentage is not null 
+                        then coalesce(amount_paid, 0) * (payment_percentage / 100.0)
+                        -- Valor fixo: proporcional ao que já foi pago
+                        when payment_type = 'fixed' and payment_fixed_amount is not null and value > 0 
+                        then coalesce(amount_paid, 0) * (least(value, payment_fixed_amount) / value)
+                        else coalesce(amount_paid, 0)
+                    end
                 else 0
             end
         ), 0)::numeric,
@@ -34,10 +34,27 @@ create table if not exists appointments (
   time time not null,
   procedure text not null,
   value numeric not null,
-  status text default 'scheduled', -- scheduled, pending, paid
+  status text default 'scheduled', -- pagamento: pending, paid (scheduled/cancelled em registros antigos)
   notes text
 );
 
+-- Add working hours and blocked dates to clinics if they don't exist
+do $$ 
+begin
+  if not exists (select 1 from information_schema.columns where table_name='clinics' and column_name='working_hours') then
+    alter table clinics add column working_hours jsonb default '[]'::jsonb not null; -- [{weekday, start, end}]
+  end if;
+  
+  if not exists (select 1 from information_schema.columns where table_name='clinics' and column_name='blocked_dates') then
+    alter table clinics add column blocked_dates jsonb default '[]'::jsonb not null; -- [{date, kind, reason}]
+  end if;
+  
+  -- Política de cancelamento; null = antecedência padrão de 24h, sem taxa
+  if not exists (select 1 from information_schema.columns where table_name='clinics' and column_name='cancellation_policy') then
+    alter table clinics add column cancellation_policy jsonb; -- {notice_hours, late_fee, allow_late_override}
+  end if;
+end $$;
+
 -- Add user_id and updated_at to patients if they don't exist
 do $$ 
 begin
@@ -56,6 +73,35 @@ begin
   end if;
 end $$;
 
+-- Dados cadastrais complementares dos pacientes
+do $$ 
+begin
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='cpf') then
+    alter table patients add column cpf text; -- só dígitos
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='birth_date') then
+    alter table patients add column birth_date date;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='sex') then
+    alter table patients add column sex text check (sex in ('female', 'male', 'other'));
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='address') then
+    alter table patients add column address jsonb; -- { street, number, complement, neighborhood, city, state, zip_code }
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='occupation') then
+    alter table patients add column occupation text;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='emergency_contact') then
+    alter table patients add column emergency_contact jsonb; -- { name, phone, relationship }
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='patients' and column_name='guardian') then
+    alter table patients add column guardian jsonb; -- { name, cpf, phone, relationship }
+  end if;
+end $$;
+
+-- CPF único entre os pacientes de cada usuário
+create unique index if not exists patients_user_cpf_idx on patients(user_id, cpf) where cpf is not null;
+
 -- Add new columns to appointments if they don't exist
 do $$ 
 begin
@@ -82,6 +128,57 @@ begin
   if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='payment_date') then
     alter table appointments add column payment_date date;
   end if;
+  
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='duration_minutes') then
+    alter table appointments add column duration_minutes integer default 60 not null;
+  end if;
+  
+  -- Ciclo de vida clínico, separado do status de pagamento (coluna status)
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='clinical_status') then
+    alter table appointments add column clinical_status text default 'scheduled' not null
+      check (clinical_status in ('scheduled', 'confirmed', 'in_progress', 'completed', 'no_show', 'cancelled'));
+    update appointments set clinical_status = 'cancelled' where status = 'cancelled';
+    update appointments set clinical_status = 'completed' where status <> 'cancelled' and date < current_date;
+  end if;
+  
+  -- Dentes tratados na notação FDI (ISO 3950)
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='teeth') then
+    alter table appointments add column teeth smallint[] default '{}' not null;
+  end if;
+  
+  -- Série de agendamentos gerada em conjunto (recorrência ou retornos pós-tratamento)
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='series_id') then
+    alter table appointments add column series_id uuid;
+  end if;
+  
+  -- Registro do cancelamento (motivo, quem pediu, se foi tardio e taxa devida)
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='cancellation_reason') then
+    alter table appointments add column cancellation_reason text;
+    alter table appointments add column cancelled_by text check (cancelled_by in ('patient', 'professional', 'clinic'));
+    alter table appointments add column cancelled_at timestamp with time zone;
+    alter table appointments add column late_cancellation boolean default false not null;
+    alter table appointments add column cancellation_fee numeric(10,2);
+  end if;
+  
+  -- Soma dos pagamentos registrados (mantida pela aplicação a partir da tabela payments)
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='amount_paid') then
+    alter table appointments add column amount_paid numeric(10,2) default 0 not null;
+  end if;
+  
+  -- Demonstrativo de repasse em que o atendimento foi incluído (trava edição financeira)
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='settlement_id') then
+    alter table appointments add column settlement_id uuid;
+  end if;
+  
+  -- Valor fixo recebido por atendimento (payment_type = 'fixed')
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='payment_fixed_amount') then
+    alter table appointments add column payment_fixed_amount numeric;
+  end if;
+  
+  -- Regra de comissão vigente na criação do agendamento
+  if not exists (select 1 from information_schema.columns where table_name='appointments' and column_name='commission_rule_id') then
+    alter table appointments add column commission_rule_id uuid;
+  end if;
 end $$;
 
 -- Radiographs Table (for storing patient radiographs)
@@ -96,6 +193,18 @@ create table if not exists radiographs (
   description text
 );
 
+-- Dentes (FDI) mostrados em cada radiografia
+do $$ 
+begin
+  if not exists (select 1 from information_schema.columns where table_name='radiographs' and column_name='teeth') then
+    alter table radiographs add column teeth smallint[] default '{}' not null;
+  end if;
+end $$;
+
+create index if not exists appointments_teeth_idx on appointments using gin (teeth);
+create index if not exists appointments_series_id_idx on appointments(series_id) where series_id is not null;
+create index if not exists radiographs_teeth_idx on radiographs using gin (teeth);
+
 -- User Profiles Table (for storing user profile information)
 create table if not exists user_profiles (
   id uuid default uuid_generate_v4() primary key,
@@ -133,6 +242,312 @@ create table if not exists procedures (
   display_order integer default 0
 );
 
+-- Treatment Plans Table (tratamentos em várias sessões, ex.: endodontia)
+create table if not exists treatment_plans (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  patient_id uuid references patients(id) on delete cascade not null,
+  tooth text,
+  procedure text not null,
+  total_value numeric default 0 not null,
+  currency text default 'BRL' not null,
+  status text default 'open' not null check (status in ('open', 'in_progress', 'finished', 'abandoned')),
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade
+);
+
+-- Treatment Plan Sessions Table (sessões ordenadas, vinculadas a agendamentos)
+create table if not exists treatment_plan_sessions (
+  id uuid default uuid_generate_v4() primary key,
+  plan_id uuid references treatment_plans(id) on delete cascade not null,
+  session_order integer not null,
+  description text not null,
+  appointment_id uuid references appointments(id) on delete set null unique,
+  status text default 'pending' not null check (status in ('pending', 'done')),
+  completed_at timestamp with time zone
+);
+
+create index if not exists treatment_plans_patient_id_idx on treatment_plans(patient_id);
+create index if not exists treatment_plan_sessions_plan_id_idx on treatment_plan_sessions(plan_id);
+
+-- Endodontic Records Table (ficha endodôntica estruturada por sessão e dente)
+create table if not exists endodontic_records (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  appointment_id uuid references appointments(id) on delete cascade not null,
+  patient_id uuid references patients(id) on delete cascade not null,
+  tooth smallint not null,
+  canals jsonb default '[]'::jsonb not null, -- [{ name, working_length, apical_size, reference }]
+  file_system text,
+  irrigants text[] default '{}' not null,
+  obturation_technique text,
+  pulpal_diagnosis text,
+  periapical_diagnosis text,
+  medications text[] default '{}' not null,
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade,
+  unique (appointment_id, tooth)
+);
+
+create index if not exists endodontic_records_patient_tooth_idx on endodontic_records(patient_id, tooth);
+
+-- Waitlist Table (pacientes aguardando uma vaga antes da data agendada)
+create table if not exists waitlist_entries (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  patient_id uuid references patients(id) on delete cascade not null,
+  clinic_id uuid references clinics(id) on delete set null, -- null = qualquer clínica
+  procedure text not null,
+  duration_minutes integer default 60 not null,
+  preferred_weekdays smallint[] default '{}' not null, -- 0 = domingo ... 6 = sábado; vazio = qualquer dia
+  preferred_start time,
+  preferred_end time,
+  priority text default 'normal' not null check (priority in ('low', 'normal', 'high', 'urgent')),
+  status text default 'waiting' not null check (status in ('waiting', 'booked', 'removed')),
+  appointment_id uuid references appointments(id) on delete set null,
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade
+);
+
+create index if not exists waitlist_entries_status_idx on waitlist_entries(status, created_at);
+create index if not exists waitlist_entries_patient_id_idx on waitlist_entries(patient_id);
+
+-- Payments Table (pagamentos parciais e parcelas de um agendamento)
+create table if not exists payments (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  appointment_id uuid references appointments(id) on delete cascade not null,
+  amount numeric(10,2) not null check (amount > 0),
+  currency text default 'BRL' not null,
+  due_date date, -- vencimento da parcela; null para pagamento avulso
+  paid_date date, -- null enquanto a parcela está em aberto
+  method text,
+  installment_number integer,
+  installment_count integer,
+  card_installments integer check (card_installments between 1 and 12), -- parcelas no cartão de crédito
+  fee_amount numeric(10,2) default 0 not null check (fee_amount >= 0), -- taxa da forma de pagamento no registro
+  settlement_days integer check (settlement_days >= 0), -- prazo de crédito vigente no registro
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade,
+  check (paid_date is not null or due_date is not null)
+);
+
+create index if not exists payments_appointment_id_idx on payments(appointment_id);
+create index if not exists payments_due_date_idx on payments(due_date) where paid_date is null;
+create index if not exists payments_paid_date_idx on payments(paid_date) where paid_date is not null;
+
+-- Formas de pagamento com taxa e prazo de recebimento (convênio incluído)
+do $$
+begin
+  if not exists (select 1 from information_schema.columns where table_name='payments' and column_name='card_installments') then
+    alter table payments add column card_installments integer check (card_installments between 1 and 12);
+  end if;
+  
+  if not exists (select 1 from information_schema.columns where table_name='payments' and column_name='fee_amount') then
+    alter table payments add column fee_amount numeric(10,2) default 0 not null check (fee_amount >= 0);
+  end if;
+  
+  if not exists (select 1 from information_schema.columns where table_name='payments' and column_name='settlement_days') then
+    alter table payments add column settlement_days integer check (settlement_days >= 0);
+  end if;
+  
+  alter table payments drop constraint if exists payments_method_check;
+  alter table payments add constraint payments_method_check
+    check (method in ('cash', 'pix', 'credit_card', 'debit_card', 'bank_transfer', 'insurance', 'other'));
+end $$;
+
+-- Demonstrativos de repasse às clínicas parceiras (linhas congeladas na emissão)
+create table if not exists settlement_statements (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  clinic_id uuid references clinics(id) on delete restrict not null,
+  period_start date not null,
+  period_end date not null,
+  currency text default 'BRL' not null,
+  lines jsonb default '[]'::jsonb not null,
+  total_gross numeric(12,2) not null,
+  total_our_share numeric(12,2) not null,
+  total_clinic_share numeric(12,2) not null,
+  status text default 'issued' not null check (status in ('issued', 'settled')),
+  notes text,
+  issued_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  settled_at timestamp with time zone,
+  user_id uuid references auth.users(id) on delete cascade,
+  check (period_start <= period_end),
+  check (status = 'issued' or settled_at is not null)
+);
+
+create index if not exists settlement_statements_clinic_id_idx on settlement_statements(clinic_id, period_start desc);
+
+-- Regras de comissão por clínica (procedure nulo = regra padrão da clínica)
+-- Cada alteração gera uma nova versão a partir de effective_from; versões antigas não são editadas
+create table if not exists commission_rules (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  clinic_id uuid references clinics(id) on delete cascade not null,
+  procedure text,
+  payment_type text not null check (payment_type in ('100', 'percentage', 'fixed')),
+  payment_percentage numeric check (payment_percentage between 0 and 100),
+  payment_fixed_amount numeric(12,2) check (payment_fixed_amount >= 0),
+  effective_from date not null,
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade,
+  check (payment_type <> 'percentage' or payment_percentage is not null),
+  check (payment_type <> 'fixed' or payment_fixed_amount is not null)
+);
+
+create index if not exists commission_rules_clinic_id_idx on commission_rules(clinic_id, effective_from desc);
+
+-- Tabela de preços por clínica e procedimento
+-- Cada reajuste gera uma nova versão a partir de effective_from; versões antigas não são editadas
+create table if not exists procedure_prices (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  clinic_id uuid references clinics(id) on delete cascade not null,
+  procedure_id uuid references procedures(id) on delete cascade not null,
+  price numeric(12,2) not null check (price >= 0),
+  currency text not null default 'BRL' check (currency in ('BRL', 'USD', 'EUR')),
+  effective_from date not null,
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade,
+  unique (clinic_id, procedure_id, effective_from)
+);
+
+create index if not exists procedure_prices_clinic_id_idx on procedure_prices(clinic_id, effective_from desc);
+
+-- Cotações de câmbio (digitadas ou importadas de arquivo), uma por par de moedas por dia
+-- rate = unidades de to_currency por 1 unidade de from_currency
+create table if not exists exchange_rates (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  from_currency text not null check (from_currency in ('BRL', 'USD', 'EUR')),
+  to_currency text not null check (to_currency in ('BRL', 'USD', 'EUR')),
+  rate numeric(18,8) not null check (rate > 0),
+  date date not null,
+  source text not null default 'manual' check (source in ('manual', 'import')),
+  user_id uuid references auth.users(id) on delete cascade,
+  check (from_currency <> to_currency),
+  unique (user_id, from_currency, to_currency, date)
+);
+
+create index if not exists exchange_rates_date_idx on exchange_rates(date desc);
+
+-- Despesas do consultório (material, aluguel de sala, laboratório, deslocamento)
+-- Recorrentes são guardadas uma vez; as ocorrências de cada período são calculadas a partir de date
+create table if not exists expenses (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  category text not null check (category in ('material', 'rent', 'lab', 'travel', 'other')),
+  description text not null,
+  amount numeric(12,2) not null check (amount > 0),
+  currency text not null default 'BRL' check (currency in ('BRL', 'USD', 'EUR')),
+  date date not null,
+  clinic_id uuid references clinics(id) on delete set null,
+  appointment_id uuid references appointments(id) on delete set null,
+  procedure text,
+  recurrence text check (recurrence in ('daily', 'weekly', 'monthly')),
+  recurrence_until date,
+  user_id uuid references auth.users(id) on delete cascade,
+  check (recurrence_until is null or (recurrence is not null and recurrence_until >= date))
+);
+
+create index if not exists expenses_date_idx on expenses(date desc);
+
+-- Taxas e prazos de recebimento por forma de pagamento (uma configuração por forma)
+create table if not exists payment_method_fees (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  method text not null check (method in ('cash', 'pix', 'credit_card', 'debit_card', 'bank_transfer', 'insurance', 'other')),
+  percentage numeric(5,2) default 0 not null check (percentage between 0 and 100),
+  installment_percentage numeric(5,2) default 0 not null check (installment_percentage between 0 and 100),
+  fixed_amount numeric(10,2) default 0 not null check (fixed_amount >= 0),
+  settlement_days integer default 0 not null check (settlement_days between 0 and 365),
+  user_id uuid references auth.users(id) on delete cascade,
+  unique (user_id, method)
+);
+
+-- Metas mensais de receita e de atendimentos (geral quando clinic_id é null, ou por clínica)
+create table if not exists revenue_goals (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  month text not null check (month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  clinic_id uuid references clinics(id) on delete cascade,
+  revenue_target numeric(12,2) default 0 not null check (revenue_target >= 0),
+  appointment_target integer default 0 not null check (appointment_target >= 0),
+  currency text not null default 'BRL' check (currency in ('BRL', 'USD', 'EUR')),
+  user_id uuid references auth.users(id) on delete cascade,
+  unique nulls not distinct (user_id, month, clinic_id),
+  check (revenue_target > 0 or appointment_target > 0)
+);
+
+-- Anamnesis Records Table (versões do histórico médico do paciente; nunca alteradas)
+create table if not exists anamnesis_records (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  patient_id uuid references patients(id) on delete cascade not null,
+  version integer not null check (version > 0),
+  questions jsonb not null, -- cópia do questionário: [{ id, label, type, critical, alert_label }]
+  answers jsonb default '[]'::jsonb not null, -- [{ question_id, value, details }]
+  notes text,
+  user_id uuid references auth.users(id) on delete cascade,
+  -- adiável para que a mesclagem de pacientes possa renumerar as versões
+  unique (patient_id, version) deferrable initially deferred
+);
+
+-- Anamnesis Templates Table (questionário de anamnese configurado pelo usuário)
+create table if not exists anamnesis_templates (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  questions jsonb not null,
+  review_interval_months smallint default 6 not null check (review_interval_months between 1 and 60),
+  user_id uuid references auth.users(id) on delete cascade unique
+);
+
+-- Consent Templates Table (modelos de termo de consentimento do usuário)
+create table if not exists consent_templates (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  kind text not null check (kind in ('endodontic', 'surgery')),
+  title text not null check (char_length(title) between 1 and 120),
+  body text not null check (char_length(body) between 1 and 20000),
+  user_id uuid references auth.users(id) on delete cascade
+);
+
+-- Consent Documents Table (termos assinados; PDF no bucket de radiografias + hash SHA-256)
+create table if not exists consent_documents (
+  id uuid default uuid_generate_v4() primary key,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  patient_id uuid references patients(id) on delete cascade not null,
+  appointment_id uuid references appointments(id) on delete set null,
+  template_id uuid references consent_templates(id) on delete set null,
+  kind text not null check (kind in ('endodontic', 'surgery')),
+  title text not null,
+  procedure text not null,
+  teeth smallint[] default '{}' not null,
+  content text not null, -- texto assinado, já com os marcadores substituídos
+  signer_name text not null,
+  signed_at timestamp with time zone not null,
+  file_url text not null,
+  file_name text not null,
+  sha256 text not null check (sha256 ~ '^[a-f0-9]{64}$'),
+  user_id uuid references auth.users(id) on delete cascade
+);
+
+create index if not exists consent_documents_patient_idx on consent_documents (patient_id, signed_at desc);
+
 -- Row Level Security (RLS)
 alter table clinics enable row level security;
 alter table patients enable row level security;
@@ -140,6 +555,22 @@ alter table appointments enable row level security;
 alter table radiographs enable row level security;
 alter table user_profiles enable row level security;
 alter table procedures enable row level security;
+alter table treatment_plans enable row level security;
+alter table treatment_plan_sessions enable row level security;
+alter table endodontic_records enable row level security;
+alter table waitlist_entries enable row level security;
+alter table payments enable row level security;
+alter table settlement_statements enable row level security;
+alter table commission_rules enable row level security;
+alter table procedure_prices enable row level security;
+alter table exchange_rates enable row level security;
+alter table expenses enable row level security;
+alter table payment_method_fees enable row level security;
+alter table revenue_goals enable row level security;
+alter table anamnesis_records enable row level security;
+alter table anamnesis_templates enable row level security;
+alter table consent_templates enable row level security;
+alter table consent_documents enable row level security;
 
 -- Drop existing policies if they exist and recreate
 drop policy if exists "Public clinics access" on clinics;
@@ -149,6 +580,22 @@ drop policy if exists "Public radiographs access" on radiographs;
 drop policy if exists "Public user_profiles access" on user_profiles;
 drop policy if exists "Users can manage own profile" on user_profiles;
 drop policy if exists "Public procedures access" on procedures;
+drop policy if exists "Public treatment_plans access" on treatment_plans;
+drop policy if exists "Public treatment_plan_sessions access" on treatment_plan_sessions;
+drop policy if exists "Public endodontic_records access" on endodontic_records;
+drop policy if exists "Public waitlist_entries access" on waitlist_entries;
+drop policy if exists "Public payments access" on payments;
+drop policy if exists "Public settlement_statements access" on settlement_statements;
+drop policy if exists "Public commission_rules access" on commission_rules;
+drop policy if exists "Public procedure_prices access" on procedure_prices;
+drop policy if exists "Public exchange_rates access" on exchange_rates;
+drop policy if exists "Public expenses access" on expenses;
+drop policy if exists "Public payment_method_fees access" on payment_method_fees;
+drop policy if exists "Public revenue_goals access" on revenue_goals;
+drop policy if exists "Public anamnesis_records access" on anamnesis_records;
+drop policy if exists "Public anamnesis_templates access" on anamnesis_templates;
+drop policy if exists "Public consent_templates access" on consent_templates;
+drop policy if exists "Public consent_documents access" on consent_documents;
 
 -- Policies (Public for demo purposes, should be authenticated in production)
 create policy "Public clinics access" on clinics for all using (true);
@@ -158,6 +605,22 @@ create policy "Public radiographs access" on radiographs for all using (true);
 create policy "Public user_profiles access" on user_profiles for all using (true);
 create policy "Users can manage own profile" on user_profiles for all using (true);
 create policy "Public procedures access" on procedures for all using (true);
+create policy "Public treatment_plans access" on treatment_plans for all using (true);
+create policy "Public treatment_plan_sessions access" on treatment_plan_sessions for all using (true);
+create policy "Public endodontic_records access" on endodontic_records for all using (true);
+create policy "Public waitlist_entries access" on waitlist_entries for all using (true);
+create policy "Public payments access" on payments for all using (true);
+create policy "Public settlement_statements access" on settlement_statements for all using (true);
+create policy "Public commission_rules access" on commission_rules for all using (true);
+create policy "Public procedure_prices access" on procedure_prices for all using (true);
+create policy "Public exchange_rates access" on exchange_rates for all using (true);
+create policy "Public expenses access" on expenses for all using (true);
+create policy "Public payment_method_fees access" on payment_method_fees for all using (true);
+create policy "Public revenue_goals access" on revenue_goals for all using (true);
+create policy "Public anamnesis_records access" on anamnesis_records for all using (true);
+create policy "Public anamnesis_templates access" on anamnesis_templates for all using (true);
+create policy "Public consent_templates access" on consent_templates for all using (true);
+create policy "Public consent_documents access" on consent_documents for all using (true);
 
 -- Insert default procedures (idempotent)
 do $$
@@ -297,14 +760,27 @@ begin
                     case 
                         when payment_type = 'percentage' and payment_percentage is not null 
                         then value * (payment_percentage / 100.0)
+                        when payment_type = 'fixed' and payment_fixed_amount is not null 
+                        then least(value, payment_fixed_amount)
                         else value
                     end
+                -- Pagamentos parciais já recebidos
+                when status = 'pending' then
+                    case 
+                        when payment_type = 'percentage' and payment_percentage is not null 
+                        then coalesce(amount_paid, 0) * (payment_percentage / 100.0)
+                        -- Valor fixo: proporcional ao que já foi pago
+                        when payment_type = 'fixed' and payment_fixed_amount is not null and value > 0 
+                        then coalesce(amount_paid, 0) * (least(value, payment_fixed_amount) / value)
+                        else coalesce(amount_paid, 0)
+                    end
                 else 0
             end
         ), 0)::numeric,
         'pending', coalesce(sum(
             case 
-                when status in ('pending', 'scheduled') then value
+                -- Saldo devedor (valor menos o que já foi pago)
+                when status in ('pending', 'scheduled') then greatest(value - coalesce(amount_paid, 0), 0)
                 else 0
             end
         ), 0)::numeric,
@@ -314,9 +790,20 @@ begin
                     case 
                         when payment_type = 'percentage' and payment_percentage is not null 
                         then value * (payment_percentage / 100.0)
+                        when payment_type = 'fixed' and payment_fixed_amount is not null 
+                        then least(value, payment_fixed_amount)
                         else value
                     end
-                when status in ('pending', 'scheduled') then value
+                when status in ('pending', 'scheduled') then
+                    greatest(value - coalesce(amount_paid, 0), 0) +
+                    case 
+                        when payment_type = 'percentage' and payment_percentage is not null 
+                        then coalesce(amount_paid, 0) * (payment_percentage / 100.0)
+                        -- Valor fixo: proporcional ao que já foi pago
+                        when payment_type = 'fixed' and payment_fixed_amount is not null and value > 0 
+                        then coalesce(amount_paid, 0) * (least(value, payment_fixed_amount) / value)
+                        else coalesce(amount_paid, 0)
+                    end
                 else 0
             end
         ), 0)::numeric,
@@ -334,4 +821,76 @@ end;
 $$;
 
 -- Grant execute permission to authenticated users
-grant execute on function get_appointment_totals(uuid) to authenticated;
\ No newline at end of file
+grant execute on function get_appointment_totals(uuid) to authenticated;
+-- ==================== RPC FUNCTION: merge_patients ====================
+-- Mescla um paciente duplicado (p_source_id) no paciente mantido (p_target_id):
+-- transfere agendamentos, radiografias, planos de tratamento, registros endodônticos,
+-- lista de espera e anamneses, e remove o duplicado, tudo na mesma transação.
+-- Returns: quantidade de registros transferidos por tabela
+create or replace function merge_patients(p_source_id uuid, p_target_id uuid)
+returns json
+language plpgsql
+security invoker
+as $$
+declare
+    v_appointments int;
+    v_radiographs int;
+    v_treatment_plans int;
+    v_endodontic_records int;
+    v_waitlist_entries int;
+    v_anamnesis_records int;
+    v_consent_documents int;
+begin
+    if p_source_id = p_target_id then
+        raise exception 'Paciente não pode ser mesclado com ele mesmo';
+    end if;
+
+    if (select count(*) from patients where id in (p_source_id, p_target_id) and user_id = auth.uid()) <> 2 then
+        raise exception 'Pacientes não encontrados';
+    end if;
+
+    update appointments set patient_id = p_target_id where patient_id = p_source_id;
+    get diagnostics v_appointments = row_count;
+
+    update radiographs set patient_id = p_target_id where patient_id = p_source_id;
+    get diagnostics v_radiographs = row_count;
+
+    update treatment_plans set patient_id = p_target_id where patient_id = p_source_id;
+    get diagnostics v_treatment_plans = row_count;
+
+    update endodontic_records set patient_id = p_target_id where patient_id = p_source_id;
+    get diagnostics v_endodontic_records = row_count;
+
+    update waitlist_entries set patient_id = p_target_id where patient_id = p_source_id;
+    get diagnostics v_waitlist_entries = row_count;
+
+    select count(*) into v_anamnesis_records from anamnesis_records where patient_id = p_source_id;
+
+    -- As versões das duas anamneses são renumeradas em ordem cronológica
+    update anamnesis_records a
+       set patient_id = p_target_id, version = r.rn
+      from (
+        select id, row_number() over (order by created_at, version) as rn
+          from anamnesis_records
+         where patient_id in (p_source_id, p_target_id)
+      ) r
+     where a.id = r.id;
+
+    update consent_documents set patient_id = p_target_id where patient_id = p_source_id;
+    get diagnostics v_consent_documents = row_count;
+
+    delete from patients where id = p_source_id;
+
+    return json_build_object(
+        'appointments', v_appointments,
+        'radiographs', v_radiographs,
+        'treatment_plans', v_treatment_plans,
+        'endodontic_records', v_endodontic_records,
+        'waitlist_entries', v_waitlist_entries,
+        'anamnesis_records', v_anamnesis_records,
+        'consent_documents', v_consent_documents
+    );
+end;
+$$;
+
+grant execute on function merge_patients(uuid, uuid) to authenticated;